@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "automation_rules" ADD COLUMN     "locked_by" TEXT,
+ADD COLUMN     "locked_until" TIMESTAMP(3);
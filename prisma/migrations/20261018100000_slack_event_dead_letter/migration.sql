@@ -0,0 +1,16 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "SlackEventStatus" ADD VALUE 'DEAD_LETTER';
+ALTER TYPE "SlackEventStatus" ADD VALUE 'DISCARDED';
+
+-- AlterTable
+ALTER TABLE "slack_events" ADD COLUMN     "next_retry_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "slack_events_next_retry_at_idx" ON "slack_events"("next_retry_at");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "slack_users" (
+    "id" TEXT NOT NULL,
+    "slack_id" TEXT NOT NULL,
+    "name" TEXT,
+    "real_name" TEXT,
+    "display_name" TEXT,
+    "avatar_url" TEXT,
+    "is_bot" BOOLEAN NOT NULL DEFAULT false,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+    "mask_name" BOOLEAN NOT NULL DEFAULT false,
+    "synced_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "slack_users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "slack_users_slack_id_key" ON "slack_users"("slack_id");
+
+-- CreateIndex
+CREATE INDEX "slack_users_synced_at_idx" ON "slack_users"("synced_at");
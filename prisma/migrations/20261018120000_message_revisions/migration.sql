@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "faqs" ADD COLUMN     "sources_stale" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "sources_stale_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "edited_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "processed_documents" ADD COLUMN     "sources_stale" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "sources_stale_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "message_revisions" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "text_redacted" BOOLEAN NOT NULL DEFAULT false,
+    "edited_at" TIMESTAMP(3) NOT NULL,
+    "edited_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_revisions_message_id_edited_at_idx" ON "message_revisions"("message_id", "edited_at");
+
+-- AddForeignKey
+ALTER TABLE "message_revisions" ADD CONSTRAINT "message_revisions_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
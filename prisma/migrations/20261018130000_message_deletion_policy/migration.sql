@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "DeletionPolicy" AS ENUM ('SOFT_DELETE', 'TOMBSTONE', 'HARD_DELETE');
+
+-- AlterTable
+ALTER TABLE "faqs" ADD COLUMN     "missing_primary_source" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "message_deletions" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "slack_id" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "policy" "DeletionPolicy" NOT NULL,
+    "was_thread_reply" BOOLEAN NOT NULL DEFAULT false,
+    "affected_document_ids" TEXT[],
+    "emptied_document_ids" TEXT[],
+    "affected_faq_ids" TEXT[],
+    "flagged_faq_ids" TEXT[],
+    "source" TEXT NOT NULL DEFAULT 'slack_event',
+    "deleted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_deletions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "messages_deleted_at_idx" ON "messages"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "message_deletions_slack_id_idx" ON "message_deletions"("slack_id");
+
+-- CreateIndex
+CREATE INDEX "message_deletions_channel_idx" ON "message_deletions"("channel");
+
+-- CreateIndex
+CREATE INDEX "message_deletions_deleted_at_idx" ON "message_deletions"("deleted_at");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "pii_detections" ADD COLUMN     "end_offset" INTEGER,
+ADD COLUMN     "start_offset" INTEGER;
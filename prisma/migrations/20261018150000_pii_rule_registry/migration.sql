@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "PIIRuleValidator" AS ENUM ('NONE', 'LUHN', 'SSN', 'IBAN', 'BUSINESS_EMAIL', 'PERSONAL_PHONE', 'SENSITIVE_URL');
+
+-- CreateEnum
+CREATE TYPE "PIIListType" AS ENUM ('BUSINESS_DOMAIN', 'BUSINESS_EMAIL_PREFIX', 'NAME_WHITELIST');
+
+-- AlterEnum
+ALTER TYPE "PIIType" ADD VALUE 'SSN';
+ALTER TYPE "PIIType" ADD VALUE 'PERSONAL_ID';
+ALTER TYPE "PIIType" ADD VALUE 'CREDIT_CARD';
+ALTER TYPE "PIIType" ADD VALUE 'SECRET';
+
+-- CreateTable
+CREATE TABLE "pii_rules" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "pii_type" "PIIType" NOT NULL DEFAULT 'CUSTOM',
+    "pattern" TEXT NOT NULL,
+    "flags" TEXT NOT NULL DEFAULT 'g',
+    "replacement_text" TEXT NOT NULL,
+    "validator" "PIIRuleValidator" NOT NULL DEFAULT 'NONE',
+    "confidence" DOUBLE PRECISION NOT NULL DEFAULT 0.9,
+    "default_status" "PIIStatus" NOT NULL DEFAULT 'AUTO_REPLACED',
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "built_in" BOOLEAN NOT NULL DEFAULT false,
+    "team" TEXT,
+    "channels" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pii_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "pii_list_entries" (
+    "id" TEXT NOT NULL,
+    "list_type" "PIIListType" NOT NULL,
+    "value" TEXT NOT NULL,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pii_list_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pii_rules_key_key" ON "pii_rules"("key");
+
+-- CreateIndex
+CREATE INDEX "pii_rules_enabled_priority_idx" ON "pii_rules"("enabled", "priority");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pii_list_entries_list_type_value_key" ON "pii_list_entries"("list_type", "value");
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "NotificationChannel" AS ENUM ('SLACK', 'WEBHOOK', 'EMAIL');
+
+-- CreateEnum
+CREATE TYPE "NotificationEvent" AS ENUM ('JOB_STARTED', 'JOB_COMPLETED', 'JOB_FAILED', 'JOB_TIMEOUT');
+
+-- CreateEnum
+CREATE TYPE "NotificationStatus" AS ENUM ('PENDING', 'SENT', 'FAILED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "notification_deliveries" (
+    "id" TEXT NOT NULL,
+    "channel" "NotificationChannel" NOT NULL,
+    "event" "NotificationEvent" NOT NULL,
+    "job_source" TEXT NOT NULL,
+    "job_id" TEXT NOT NULL,
+    "job_type" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "status" "NotificationStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "response_status" INTEGER,
+    "error" TEXT,
+    "payload" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "delivered_at" TIMESTAMP(3),
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_job_id_event_idx" ON "notification_deliveries"("job_id", "event");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_status_idx" ON "notification_deliveries"("status");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_created_at_idx" ON "notification_deliveries"("created_at");
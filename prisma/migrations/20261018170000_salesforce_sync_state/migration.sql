@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "SalesforceRecordType" AS ENUM ('DOCUMENT', 'FAQ', 'MESSAGE');
+
+-- CreateTable
+CREATE TABLE "salesforce_sync_states" (
+    "id" TEXT NOT NULL,
+    "record_type" "SalesforceRecordType" NOT NULL,
+    "local_id" TEXT NOT NULL,
+    "salesforce_id" TEXT,
+    "last_synced_hash" TEXT,
+    "last_synced_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "last_error_at" TIMESTAMP(3),
+    "removed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "salesforce_sync_states_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "salesforce_sync_states_record_type_local_id_key" ON "salesforce_sync_states"("record_type", "local_id");
+
+-- CreateIndex
+CREATE INDEX "salesforce_sync_states_record_type_removed_at_idx" ON "salesforce_sync_states"("record_type", "removed_at");
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "ChannelPullStatus" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "channel_pulls" (
+    "id" TEXT NOT NULL,
+    "channel_id" TEXT NOT NULL,
+    "channel_name" TEXT NOT NULL,
+    "status" "ChannelPullStatus" NOT NULL DEFAULT 'QUEUED',
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "start_date" TIMESTAMP(3),
+    "end_date" TIMESTAMP(3),
+    "include_threads" BOOLEAN NOT NULL DEFAULT true,
+    "batch_size" INTEGER NOT NULL DEFAULT 100,
+    "delay_between_requests" INTEGER NOT NULL DEFAULT 1000,
+    "skip_pii_detection" BOOLEAN NOT NULL DEFAULT false,
+    "cursor" TEXT,
+    "oldest_ts" TEXT,
+    "total_messages" INTEGER NOT NULL DEFAULT 0,
+    "processed_messages" INTEGER NOT NULL DEFAULT 0,
+    "threads_processed" INTEGER NOT NULL DEFAULT 0,
+    "stats" JSONB NOT NULL,
+    "error_message" TEXT,
+    "resume_count" INTEGER NOT NULL DEFAULT 0,
+    "heartbeat_at" TIMESTAMP(3),
+    "user_id" TEXT,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "channel_pulls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "channel_pulls_channel_id_idx" ON "channel_pulls"("channel_id");
+
+-- CreateIndex
+CREATE INDEX "channel_pulls_status_heartbeat_at_idx" ON "channel_pulls"("status", "heartbeat_at");
+
+-- CreateIndex
+CREATE INDEX "channel_pulls_created_at_idx" ON "channel_pulls"("created_at");
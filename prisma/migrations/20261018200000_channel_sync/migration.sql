@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "channels" ADD COLUMN     "last_ingested_ts" TEXT,
+ADD COLUMN     "last_sync_error" TEXT,
+ADD COLUMN     "last_sync_error_at" TIMESTAMP(3),
+ADD COLUMN     "last_sync_recovered" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "last_synced_at" TIMESTAMP(3),
+ADD COLUMN     "sync_enabled" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "synced_through_ts" TEXT;
+
+-- CreateIndex
+CREATE INDEX "channels_sync_enabled_idx" ON "channels"("sync_enabled");
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "message_attachments" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "slack_file_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "title" TEXT,
+    "mimetype" TEXT,
+    "filetype" TEXT,
+    "size" INTEGER,
+    "mode" TEXT,
+    "permalink" TEXT,
+    "content" TEXT,
+    "content_truncated" BOOLEAN NOT NULL DEFAULT false,
+    "content_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_attachments_message_id_slack_file_id_key" ON "message_attachments"("message_id", "slack_file_id");
+
+-- CreateIndex
+CREATE INDEX "message_attachments_slack_file_id_idx" ON "message_attachments"("slack_file_id");
+
+-- AddForeignKey
+ALTER TABLE "message_attachments" ADD CONSTRAINT "message_attachments_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
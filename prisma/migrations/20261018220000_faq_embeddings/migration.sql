@@ -0,0 +1,31 @@
+-- pgvector is optional (Pinecone-only deployments, database roles that cannot create extensions),
+-- so the extension and table are only created where that is possible; prisma/pgvector.sql sets
+-- them up later otherwise
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'vector') THEN
+    BEGIN
+      CREATE EXTENSION IF NOT EXISTS vector;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE NOTICE 'Could not create the vector extension (%); skipping the pgvector tables', SQLERRM;
+    END;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'vector') THEN
+    -- CreateTable
+    EXECUTE '
+      CREATE TABLE "faq_embeddings" (
+          "faq_id" TEXT NOT NULL,
+          "embedding" vector NOT NULL,
+          "category" TEXT NOT NULL,
+          "status" TEXT NOT NULL,
+          "question" TEXT NOT NULL,
+          "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+          CONSTRAINT "faq_embeddings_pkey" PRIMARY KEY ("faq_id")
+      )';
+
+    -- CreateIndex
+    EXECUTE 'CREATE INDEX "faq_embeddings_category_idx" ON "faq_embeddings"("category")';
+  END IF;
+END $$;
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "embedded_at" TIMESTAMP(3),
+ADD COLUMN "embedding_attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "embedding_retry_at" TIMESTAMP(3);
+
+-- The pgvector table is only created where the extension is installed (see 20261018220000_faq_embeddings)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'vector') THEN
+    -- CreateTable
+    EXECUTE '
+      CREATE TABLE "message_embeddings" (
+          "id" TEXT NOT NULL,
+          "message_id" TEXT NOT NULL,
+          "kind" TEXT NOT NULL,
+          "channel" TEXT NOT NULL,
+          "timestamp" TIMESTAMP(3) NOT NULL,
+          "embedding" vector NOT NULL,
+          "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+          CONSTRAINT "message_embeddings_pkey" PRIMARY KEY ("id")
+      )';
+
+    -- CreateIndex
+    EXECUTE 'CREATE INDEX "message_embeddings_message_id_idx" ON "message_embeddings"("message_id")';
+
+    -- CreateIndex
+    EXECUTE 'CREATE INDEX "message_embeddings_channel_idx" ON "message_embeddings"("channel")';
+  END IF;
+END $$;
+
+-- CreateIndex
+CREATE INDEX "messages_embedded_at_idx" ON "messages"("embedded_at");
+
+-- Full-text index for keyword message search (expression indexes are not expressible in the Prisma schema)
+CREATE INDEX "messages_text_search_idx" ON "messages" USING GIN (to_tsvector('english', "text"));
@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE "channels" ADD COLUMN     "answers_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "answer_min_score" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "slack_events" ADD COLUMN     "answer_due_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "faq_slack_answers" (
+    "id" TEXT NOT NULL,
+    "faq_id" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "question_ts" TEXT NOT NULL,
+    "message_id" TEXT,
+    "reply_ts" TEXT,
+    "score" DOUBLE PRECISION NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "faq_slack_answers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "faq_feedback" (
+    "id" TEXT NOT NULL,
+    "faq_id" TEXT NOT NULL,
+    "answer_id" TEXT NOT NULL,
+    "slack_user_id" TEXT NOT NULL,
+    "helpful" BOOLEAN NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "faq_feedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "faq_slack_answers_channel_question_ts_key" ON "faq_slack_answers"("channel", "question_ts");
+
+-- CreateIndex
+CREATE INDEX "faq_slack_answers_faq_id_idx" ON "faq_slack_answers"("faq_id");
+
+-- CreateIndex
+CREATE INDEX "faq_slack_answers_created_at_idx" ON "faq_slack_answers"("created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "faq_feedback_answer_id_slack_user_id_key" ON "faq_feedback"("answer_id", "slack_user_id");
+
+-- CreateIndex
+CREATE INDEX "faq_feedback_faq_id_idx" ON "faq_feedback"("faq_id");
+
+-- CreateIndex
+CREATE INDEX "slack_events_answer_due_at_idx" ON "slack_events"("answer_due_at");
+
+-- AddForeignKey
+ALTER TABLE "faq_slack_answers" ADD CONSTRAINT "faq_slack_answers_faq_id_fkey" FOREIGN KEY ("faq_id") REFERENCES "faqs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "faq_feedback" ADD CONSTRAINT "faq_feedback_faq_id_fkey" FOREIGN KEY ("faq_id") REFERENCES "faqs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "faq_feedback" ADD CONSTRAINT "faq_feedback_answer_id_fkey" FOREIGN KEY ("answer_id") REFERENCES "faq_slack_answers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "FAQChangeType" AS ENUM ('AI_ENHANCEMENT', 'MANUAL_EDIT', 'MERGE', 'RESTORE');
+
+-- CreateTable
+CREATE TABLE "faq_revisions" (
+    "id" TEXT NOT NULL,
+    "faq_id" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "status" "FAQStatus" NOT NULL,
+    "change_type" "FAQChangeType" NOT NULL,
+    "changed_by" TEXT,
+    "source_document_id" TEXT,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "faq_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "faq_revisions_faq_id_created_at_idx" ON "faq_revisions"("faq_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "faq_revisions" ADD CONSTRAINT "faq_revisions_faq_id_fkey" FOREIGN KEY ("faq_id") REFERENCES "faqs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
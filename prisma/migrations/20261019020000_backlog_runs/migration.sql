@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "BacklogRunStatus" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "backlog_runs" (
+    "id" TEXT NOT NULL,
+    "status" "BacklogRunStatus" NOT NULL DEFAULT 'QUEUED',
+    "channels" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "options" JSONB NOT NULL,
+    "cursor_timestamp" TIMESTAMP(3),
+    "cursor_message_id" TEXT,
+    "total_messages" INTEGER NOT NULL DEFAULT 0,
+    "processed_messages" INTEGER NOT NULL DEFAULT 0,
+    "documents_created" INTEGER NOT NULL DEFAULT 0,
+    "failed_segments" INTEGER NOT NULL DEFAULT 0,
+    "error_message" TEXT,
+    "resume_count" INTEGER NOT NULL DEFAULT 0,
+    "heartbeat_at" TIMESTAMP(3),
+    "user_id" TEXT,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "backlog_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "backlog_runs_status_heartbeat_at_idx" ON "backlog_runs"("status", "heartbeat_at");
+
+-- CreateIndex
+CREATE INDEX "backlog_runs_created_at_idx" ON "backlog_runs"("created_at");
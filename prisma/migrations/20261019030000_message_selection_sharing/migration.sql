@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "message_selections" ADD COLUMN     "is_shared" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "document_id" TEXT,
+ADD COLUMN     "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "message_selections_is_shared_idx" ON "message_selections"("is_shared");
@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "ActivityTargetType" AS ENUM ('DOCUMENT', 'FAQ', 'MESSAGE', 'SELECTION');
+
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'MESSAGE_REMOVED';
+ALTER TYPE "ActivityType" ADD VALUE 'FAQ_APPROVED';
+ALTER TYPE "ActivityType" ADD VALUE 'FAQ_REJECTED';
+ALTER TYPE "ActivityType" ADD VALUE 'FAQ_EDITED';
+ALTER TYPE "ActivityType" ADD VALUE 'FAQ_MERGED';
+ALTER TYPE "ActivityType" ADD VALUE 'PII_REVIEWED';
+
+-- AlterTable
+ALTER TABLE "curation_activities" ADD COLUMN     "target_type" "ActivityTargetType" NOT NULL DEFAULT 'DOCUMENT';
+
+-- CreateIndex
+CREATE INDEX "curation_activities_target_type_idx" ON "curation_activities"("target_type");
@@ -0,0 +1,34 @@
+-- AlterEnum
+ALTER TYPE "DocumentStatus" ADD VALUE 'ARCHIVED';
+ALTER TYPE "ActivityType" ADD VALUE 'DOCUMENT_UNMERGED';
+
+-- AlterTable
+ALTER TABLE "processed_documents" ADD COLUMN     "merged_at" TIMESTAMP(3),
+ADD COLUMN     "merged_into_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "document_merges" (
+    "id" TEXT NOT NULL,
+    "target_document_id" TEXT NOT NULL,
+    "source_document_ids" TEXT[],
+    "snapshot" JSONB NOT NULL,
+    "merged_by" TEXT NOT NULL,
+    "undo_expires_at" TIMESTAMP(3) NOT NULL,
+    "undone_at" TIMESTAMP(3),
+    "undone_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_merges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "processed_documents_merged_into_id_idx" ON "processed_documents"("merged_into_id");
+
+-- CreateIndex
+CREATE INDEX "document_merges_target_document_id_idx" ON "document_merges"("target_document_id");
+
+-- CreateIndex
+CREATE INDEX "document_merges_created_at_idx" ON "document_merges"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "document_merges" ADD CONSTRAINT "document_merges_target_document_id_fkey" FOREIGN KEY ("target_document_id") REFERENCES "processed_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
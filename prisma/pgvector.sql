@@ -0,0 +1,36 @@
+-- pgvector vector store setup
+-- Creates the vector extension and the faq_embeddings / message_embeddings tables used when the
+-- vector store is pgvector. The migrations create them only where the extension can be created,
+-- so run this (pnpm db:pgvector) once the extension is available, e.g. after a superuser installs it.
+-- Safe to run more than once.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS "faq_embeddings" (
+    "faq_id" TEXT NOT NULL,
+    "embedding" vector NOT NULL,
+    "category" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "faq_embeddings_pkey" PRIMARY KEY ("faq_id")
+);
+
+CREATE INDEX IF NOT EXISTS "faq_embeddings_category_idx" ON "faq_embeddings"("category");
+
+CREATE TABLE IF NOT EXISTS "message_embeddings" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "embedding" vector NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_embeddings_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "message_embeddings_message_id_idx" ON "message_embeddings"("message_id");
+
+CREATE INDEX IF NOT EXISTS "message_embeddings_channel_idx" ON "message_embeddings"("channel");
@@ -6,7 +6,7 @@
  * - Channel selection with search and filtering
  * - Pull configuration options (date range, threads, batch size)
  * - Real-time progress tracking with visual indicators
- * - Pull history and results overview
+ * - Pull history and results overview, loaded from the server so it survives restarts
  * - Error handling and retry mechanisms
  * 
  * Follows modern React patterns with hooks and TypeScript
@@ -47,6 +47,12 @@ interface PullProgress {
   totalMessages: number
   processedMessages: number
   threadsProcessed: number
+  startDate: Date | null
+  endDate: Date | null
+  includeThreads: boolean
+  oldestTs: string | null
+  resumeCount: number
+  createdAt: Date
   startedAt: Date | null
   completedAt: Date | null
   errorMessage: string | null
@@ -66,10 +72,29 @@ interface PullHistoryItem {
   channelName: string
   status: string
   progress: number
+  processedMessages: number
+  resumeCount: number
+  startedAt: Date | null
   completedAt: Date | null
+  errorMessage: string | null
   stats: PullProgress['stats']
 }
 
+const isActiveStatus = (status: string) => status === 'RUNNING' || status === 'QUEUED'
+
+const toHistoryItem = (progress: PullProgress): PullHistoryItem => ({
+  id: progress.id,
+  channelName: progress.channelName,
+  status: progress.status,
+  progress: progress.progress,
+  processedMessages: progress.processedMessages,
+  resumeCount: progress.resumeCount,
+  startedAt: progress.startedAt,
+  completedAt: progress.completedAt,
+  errorMessage: progress.errorMessage,
+  stats: progress.stats
+})
+
 // ===== MAIN COMPONENT =====
 
 export const ChannelPullDashboard: React.FC = () => {
@@ -140,8 +165,8 @@ export const ChannelPullDashboard: React.FC = () => {
               if (data.success && data.data?.progress) {
                 setActivePulls(prev => new Map(prev.set(pull.id, data.data.progress)))
                 
-                // Move to history if completed
-                if (data.data.progress.status === 'COMPLETED' || data.data.progress.status === 'FAILED') {
+                // Move to history once finished
+                if (!isActiveStatus(data.data.progress.status)) {
                   setTimeout(() => {
                     setActivePulls(prev => {
                       const newMap = new Map(prev)
@@ -199,11 +224,34 @@ export const ChannelPullDashboard: React.FC = () => {
     }
   }, [showAllChannels, selectedChannel])
 
+  /**
+   * Load recent pulls - running ones are tracked again, finished ones fill the history
+   */
+  const loadPulls = useCallback(async () => {
+    try {
+      const response = await fetch('/api/slack/channel-pull?action=list-all-pulls&limit=20')
+      const data = await response.json()
+
+      if (data.success) {
+        const pulls: PullProgress[] = data.data.pulls
+        setActivePulls(new Map(pulls.filter(pull => isActiveStatus(pull.status)).map(pull => [pull.id, pull])))
+        setPullHistory(pulls.filter(pull => !isActiveStatus(pull.status)).slice(0, 10).map(toHistoryItem))
+      }
+    } catch (error) {
+      logger.error('Error loading pull history', error)
+    }
+  }, [])
+
   // Load channels on component mount
   useEffect(() => {
     loadChannels()
   }, [loadChannels])
 
+  // Load pull history on component mount
+  useEffect(() => {
+    loadPulls()
+  }, [loadPulls])
+
   // Reload channels when show all toggle changes
   useEffect(() => {
     loadChannels()
@@ -264,15 +312,15 @@ export const ChannelPullDashboard: React.FC = () => {
       const data = await response.json()
       
       if (data.success) {
+        const pull = activePulls.get(progressId)
         setActivePulls(prev => {
           const newMap = new Map(prev)
-          const pull = newMap.get(progressId)
-          if (pull) {
-            pull.status = 'CANCELLED'
-            newMap.set(progressId, pull)
-          }
+          newMap.delete(progressId)
           return newMap
         })
+        if (pull) {
+          addToPullHistory({ ...pull, status: 'CANCELLED', completedAt: new Date() })
+        }
         setSuccessMessage('Pull cancelled successfully')
         setTimeout(() => setSuccessMessage(null), 3000)
       } else {
@@ -282,7 +330,7 @@ export const ChannelPullDashboard: React.FC = () => {
       setError('Network error while cancelling pull')
       logger.error('Error cancelling pull', error)
     }
-  }, [])
+  }, [activePulls])
 
   // ===== HELPER FUNCTIONS =====
 
@@ -292,18 +340,14 @@ export const ChannelPullDashboard: React.FC = () => {
   }
 
   const addToPullHistory = (progress: PullProgress) => {
-    const historyItem: PullHistoryItem = {
-      id: progress.id,
-      channelName: progress.channelName,
-      status: progress.status,
-      progress: progress.progress,
-      completedAt: progress.completedAt,
-      stats: progress.stats
-    }
+    const historyItem = toHistoryItem(progress)
     
-    setPullHistory(prev => [historyItem, ...prev.slice(0, 9)]) // Keep last 10 items
+    setPullHistory(prev => [historyItem, ...prev.filter(item => item.id !== historyItem.id).slice(0, 9)]) // Keep last 10 items
   }
 
+  const isChannelPulling = (channelId: string) =>
+    Array.from(activePulls.values()).some(pull => pull.channelId === channelId && isActiveStatus(pull.status))
+
   const formatDate = (date: Date | null) => {
     if (!date) return 'N/A'
     return new Intl.DateTimeFormat('en-US', {
@@ -612,11 +656,11 @@ export const ChannelPullDashboard: React.FC = () => {
                 {/* Start Pull Button */}
                 <button
                   onClick={startChannelPull}
-                  disabled={!selectedChannel || activePulls.has(selectedChannel.id)}
+                  disabled={!selectedChannel || isChannelPulling(selectedChannel.id)}
                   className="w-full flex items-center justify-center px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
                 >
                   <Download className="w-5 h-5 mr-2" />
-                  {activePulls.has(selectedChannel.id) ? 'Pull in Progress' : 'Start Channel Pull'}
+                  {isChannelPulling(selectedChannel.id) ? 'Pull in Progress' : 'Start Channel Pull'}
                 </button>
               </div>
             </div>
@@ -662,6 +706,9 @@ export const ChannelPullDashboard: React.FC = () => {
                       <div>Threads: {pull.threadsProcessed}</div>
                       <div>New: {pull.stats.newMessages}</div>
                       <div>Duplicates: {pull.stats.duplicateMessages}</div>
+                      {pull.resumeCount > 0 && (
+                        <div className="col-span-2">Resumed {pull.resumeCount}× from checkpoint</div>
+                      )}
                     </div>
 
                     {/* Actions */}
@@ -703,11 +750,22 @@ export const ChannelPullDashboard: React.FC = () => {
                     </div>
                     
                     <div className="text-xs text-gray-600 dark:text-gray-300 space-y-1">
-                      <div>Completed: {formatDate(item.completedAt)}</div>
+                      <div>Started: {formatDate(item.startedAt)}</div>
+                      <div>Finished: {formatDate(item.completedAt)}</div>
                       <div className="grid grid-cols-2 gap-1">
+                        <div>Messages: {item.processedMessages}</div>
                         <div>New: {item.stats.newMessages}</div>
-                        <div>Threads: {item.stats.threadRepliesFetched}</div>
+                        <div>Duplicates: {item.stats.duplicateMessages}</div>
+                        <div>Replies: {item.stats.threadRepliesFetched}</div>
                       </div>
+                      {item.resumeCount > 0 && (
+                        <div>Resumed {item.resumeCount}× from checkpoint</div>
+                      )}
+                      {item.status === 'FAILED' && item.errorMessage && (
+                        <div className="text-red-600 dark:text-red-400 truncate" title={item.errorMessage}>
+                          {item.errorMessage}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -722,7 +780,7 @@ export const ChannelPullDashboard: React.FC = () => {
               <li>• Select a channel to pull data from</li>
               <li>• Configure date range and options</li>
               <li>• Data is processed through existing pipelines</li>
-              <li>• Progress is tracked in real-time</li>
+              <li>• Progress is saved after every page, so interrupted pulls resume automatically</li>
               <li>• Results appear in your dashboard</li>
             </ul>
           </div>
@@ -0,0 +1,213 @@
+/**
+ * Channel Sync Panel Component
+ * Shows each tracked channel's catch-up sync lag and high-water mark,
+ * and lets admins run the catch-up or pause it per channel
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { RefreshCw, RotateCw } from 'lucide-react'
+import toast from 'react-hot-toast'
+import type { ChannelSyncStatus } from '@/types'
+
+interface SyncSchedule {
+  enabled: boolean
+  intervalMs: number
+}
+
+/**
+ * Human-readable duration, e.g. "4m" or "2h 5m"
+ */
+const formatLag = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000)
+  if (minutes < 1) return '<1m'
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 48) return `${hours}h ${minutes % 60}m`
+  return `${Math.floor(hours / 24)}d`
+}
+
+/**
+ * Channel sync panel component
+ */
+export const ChannelSyncPanel: React.FC = () => {
+  const [channels, setChannels] = useState<ChannelSyncStatus[]>([])
+  const [schedule, setSchedule] = useState<SyncSchedule | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [syncing, setSyncing] = useState<string | null>(null)
+
+  /**
+   * Load sync state for all tracked channels
+   */
+  const fetchStatus = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch('/api/slack/channel-sync')
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load channel sync status')
+      }
+
+      setChannels(result.data.channels)
+      setSchedule(result.data.schedule)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load channel sync status')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+    const interval = setInterval(fetchStatus, 60000)
+    return () => clearInterval(interval)
+  }, [fetchStatus])
+
+  /**
+   * Run the catch-up for one channel, or all when no channel is given
+   */
+  const runSync = useCallback(async (channelId?: string) => {
+    setSyncing(channelId || 'all')
+    try {
+      const response = await fetch('/api/slack/channel-sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(channelId ? { channelId } : {})
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Catch-up sync failed')
+      }
+
+      toast.success(result.message)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Catch-up sync failed')
+    } finally {
+      setSyncing(null)
+      await fetchStatus()
+    }
+  }, [fetchStatus])
+
+  /**
+   * Pause or resume the catch-up for a channel
+   */
+  const toggleSync = useCallback(async (channel: ChannelSyncStatus) => {
+    try {
+      const response = await fetch('/api/slack/channel-sync', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channelId: channel.channelId, syncEnabled: !channel.syncEnabled })
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update channel')
+      }
+
+      setChannels(prev => prev.map(c => c.channelId === channel.channelId ? { ...c, syncEnabled: !c.syncEnabled } : c))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update channel')
+    }
+  }, [])
+
+  /**
+   * Lag badge colour by time since the newest ingested message: within two intervals is healthy, within six is behind
+   */
+  const lagStyle = (lagMs: number | null): string => {
+    const interval = schedule?.intervalMs || 300000
+    if (lagMs === null || lagMs > interval * 6) return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+    if (lagMs > interval * 2) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+    return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Catch-up Sync</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => runSync()}
+            disabled={syncing !== null}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 rounded hover:bg-blue-100 disabled:opacity-50 dark:bg-blue-900 dark:text-blue-200"
+          >
+            <RotateCw className={`w-4 h-4 ${syncing === 'all' ? 'animate-spin' : ''}`} />
+            Sync all now
+          </button>
+          <button
+            onClick={fetchStatus}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        {schedule?.enabled
+          ? `Tracked channels are re-read every ${formatLag(schedule.intervalMs)} so missed events are ingested automatically.`
+          : 'The scheduled catch-up is not running on this server; use "Sync all now" to reconcile manually.'}
+      </p>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mb-2">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : channels.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No channels tracked yet. Channels are tracked once they receive messages or finish a pull.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+          {channels.map((channel) => (
+            <div key={channel.channelId} className="flex items-start justify-between gap-3 p-3 text-sm">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900 dark:text-gray-100">#{channel.channelName}</span>
+                  {channel.syncEnabled ? (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${lagStyle(channel.lagMs)}`}>
+                      {channel.lagMs === null ? 'nothing ingested' : `lag ${formatLag(channel.lagMs)}`}
+                    </span>
+                  ) : (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+                      paused
+                    </span>
+                  )}
+                </div>
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Up to {channel.lastIngestedAt ? new Date(channel.lastIngestedAt).toLocaleString() : 'N/A'}
+                  {` · reconciled ${channel.lastSyncedAt ? new Date(channel.lastSyncedAt).toLocaleString() : 'never'}`}
+                  {channel.lastSyncRecovered > 0 && ` · last run recovered ${channel.lastSyncRecovered}`}
+                </div>
+                {channel.lastSyncError && (
+                  <div className="mt-1 text-xs text-red-600 dark:text-red-400 truncate" title={channel.lastSyncError}>
+                    {channel.lastSyncError}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => runSync(channel.channelId)}
+                  disabled={syncing !== null || !channel.syncEnabled}
+                  className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-50"
+                  title="Sync now"
+                >
+                  <RotateCw className={`w-4 h-4 ${syncing === channel.channelId ? 'animate-spin' : ''}`} />
+                </button>
+                <button
+                  onClick={() => toggleSync(channel)}
+                  className="text-xs text-blue-600 hover:text-blue-700"
+                >
+                  {channel.syncEnabled ? 'Pause' : 'Resume'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ChannelSyncPanel
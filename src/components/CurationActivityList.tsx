@@ -0,0 +1,147 @@
+/**
+ * CurationActivityList Component
+ * Renders curation activity entries: who did what to which document, FAQ, message or selection
+ */
+
+import React from 'react'
+import Link from 'next/link'
+import { ActivityTargetType, ActivityType, type CurationActivityDisplay } from '@/types'
+
+interface CurationActivityListProps {
+  activities: CurationActivityDisplay[]
+  showTarget?: boolean
+  className?: string
+}
+
+export const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  [ActivityType.MESSAGE_ADDED]: 'Messages added',
+  [ActivityType.MESSAGE_REMOVED]: 'Messages removed',
+  [ActivityType.DOCUMENT_MERGED]: 'Documents merged',
+  [ActivityType.DOCUMENT_UNMERGED]: 'Merge undone',
+  [ActivityType.MESSAGES_SELECTED]: 'Selection changed',
+  [ActivityType.FAQ_APPROVED]: 'FAQ approved',
+  [ActivityType.FAQ_REJECTED]: 'FAQ rejected',
+  [ActivityType.FAQ_EDITED]: 'FAQ edited',
+  [ActivityType.FAQ_MERGED]: 'FAQs merged',
+  [ActivityType.PII_REVIEWED]: 'PII reviewed'
+}
+
+export const TARGET_LABELS: Record<ActivityTargetType, string> = {
+  [ActivityTargetType.DOCUMENT]: 'Document',
+  [ActivityTargetType.FAQ]: 'FAQ',
+  [ActivityTargetType.MESSAGE]: 'Message',
+  [ActivityTargetType.SELECTION]: 'Selection'
+}
+
+const ACTIVITY_STYLES: Partial<Record<ActivityType, string>> = {
+  [ActivityType.MESSAGE_ADDED]: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  [ActivityType.MESSAGE_REMOVED]: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  [ActivityType.DOCUMENT_MERGED]: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  [ActivityType.FAQ_APPROVED]: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  [ActivityType.FAQ_REJECTED]: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  [ActivityType.FAQ_MERGED]: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  [ActivityType.PII_REVIEWED]: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+/**
+ * One-line summary of the structured details
+ */
+const describeDetails = (activity: CurationActivityDisplay): string | null => {
+  const details = activity.details || {}
+
+  switch (activity.activityType) {
+    case ActivityType.MESSAGE_ADDED:
+    case ActivityType.MESSAGE_REMOVED:
+      return [
+        Array.isArray(details.messageIds) ? plural(details.messageIds.length, 'message') : null,
+        details.reason
+      ].filter(Boolean).join(' · ') || null
+    case ActivityType.MESSAGES_SELECTED:
+      return [
+        details.addedMessageIds?.length ? `+${details.addedMessageIds.length}` : null,
+        details.removedMessageIds?.length ? `−${details.removedMessageIds.length}` : null
+      ].filter(Boolean).join(' ') || null
+    case ActivityType.DOCUMENT_MERGED:
+      return Array.isArray(details.sourceDocumentIds) ? `${plural(details.sourceDocumentIds.length, 'document')} merged in` : null
+    case ActivityType.DOCUMENT_UNMERGED:
+      return Array.isArray(details.sourceDocumentIds) ? `${plural(details.sourceDocumentIds.length, 'document')} restored` : null
+    case ActivityType.FAQ_EDITED:
+      return [
+        Array.isArray(details.fields) && details.fields.length > 0 ? `Changed ${details.fields.join(', ')}` : null,
+        details.reason
+      ].filter(Boolean).join(' · ') || null
+    case ActivityType.FAQ_MERGED:
+    case ActivityType.FAQ_APPROVED:
+    case ActivityType.FAQ_REJECTED:
+      return details.reason || details.feedback || null
+    case ActivityType.PII_REVIEWED:
+      return [details.piiType, details.status?.toLowerCase().replace('_', ' ')].filter(Boolean).join(' → ') || null
+    default:
+      return null
+  }
+}
+
+/**
+ * Link to the target where it has its own page
+ */
+const TargetLink: React.FC<{ activity: CurationActivityDisplay }> = ({ activity }) => {
+  const label = activity.targetLabel || `${activity.targetId.substring(0, 8)}...`
+  const text = `${TARGET_LABELS[activity.targetType as ActivityTargetType] || activity.targetType}: ${label}`
+
+  if (activity.targetType === ActivityTargetType.DOCUMENT && activity.targetLabel) {
+    return (
+      <Link href={`/documents/${activity.targetId}`} className="text-blue-600 dark:text-blue-400 hover:underline truncate">
+        {text}
+      </Link>
+    )
+  }
+
+  return <span className="text-gray-700 dark:text-gray-300 truncate" title={activity.targetId}>{text}</span>
+}
+
+/**
+ * Curation activity list
+ */
+export const CurationActivityList: React.FC<CurationActivityListProps> = ({
+  activities,
+  showTarget = true,
+  className = ''
+}) => {
+  if (activities.length === 0) {
+    return (
+      <p className={`text-sm text-gray-500 dark:text-gray-400 ${className}`}>
+        No curation activity yet.
+      </p>
+    )
+  }
+
+  return (
+    <ul className={`divide-y divide-gray-200 dark:divide-gray-700 ${className}`}>
+      {activities.map((activity) => {
+        const summary = describeDetails(activity)
+
+        return (
+          <li key={activity.id} className="py-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTIVITY_STYLES[activity.activityType as ActivityType] || 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'}`}>
+                {ACTIVITY_LABELS[activity.activityType as ActivityType] || activity.activityType}
+              </span>
+              <span className="font-medium text-gray-900 dark:text-white">{activity.userId}</span>
+              {showTarget && <TargetLink activity={activity} />}
+              <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">
+                {new Date(activity.timestamp).toLocaleString()}
+              </span>
+            </div>
+            {summary && (
+              <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">{summary}</p>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default CurationActivityList
@@ -0,0 +1,176 @@
+/**
+ * FAQ Answer Panel Component
+ * Lets admins choose which channels get in-thread answers from approved FAQs
+ * and how similar a question must be before an answer is posted
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { RefreshCw } from 'lucide-react'
+import toast from 'react-hot-toast'
+import type { FAQAnswerChannelSettings } from '@/types'
+
+/**
+ * FAQ answer panel component
+ */
+export const FAQAnswerPanel: React.FC = () => {
+  const [channels, setChannels] = useState<FAQAnswerChannelSettings[]>([])
+  const [defaultMinScore, setDefaultMinScore] = useState(0.85)
+  const [configured, setConfigured] = useState(true)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [thresholds, setThresholds] = useState<Record<string, string>>({})
+
+  /**
+   * Load answer settings for all tracked channels
+   */
+  const fetchSettings = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch('/api/slack/faq-answers')
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load FAQ answer settings')
+      }
+
+      setChannels(result.data.channels)
+      setDefaultMinScore(result.data.defaultMinScore)
+      setConfigured(result.data.configured)
+      setThresholds(Object.fromEntries(
+        result.data.channels.map((c: FAQAnswerChannelSettings) => [
+          c.channelId,
+          c.answerMinScore === null ? '' : String(c.answerMinScore)
+        ])
+      ))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load FAQ answer settings')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSettings()
+  }, [fetchSettings])
+
+  /**
+   * Save a channel's settings
+   */
+  const updateChannel = useCallback(async (
+    channelId: string,
+    update: { answersEnabled?: boolean; answerMinScore?: number | null }
+  ): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/slack/faq-answers', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channelId, ...update })
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update channel')
+      }
+
+      setChannels(prev => prev.map(c => c.channelId === channelId ? { ...c, ...update } : c))
+      return true
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update channel')
+      return false
+    }
+  }, [])
+
+  /**
+   * Save the threshold field when it loses focus; an empty field restores the default
+   */
+  const saveThreshold = useCallback(async (channel: FAQAnswerChannelSettings) => {
+    const value = (thresholds[channel.channelId] || '').trim()
+    const answerMinScore = value === '' ? null : parseFloat(value)
+
+    if (answerMinScore === channel.answerMinScore) return
+
+    if (answerMinScore !== null && (isNaN(answerMinScore) || answerMinScore < 0 || answerMinScore > 1)) {
+      toast.error('Threshold must be between 0 and 1')
+      setThresholds(prev => ({
+        ...prev,
+        [channel.channelId]: channel.answerMinScore === null ? '' : String(channel.answerMinScore)
+      }))
+      return
+    }
+
+    if (await updateChannel(channel.channelId, { answerMinScore })) {
+      toast.success(`Threshold for #${channel.channelName} saved`)
+    }
+  }, [thresholds, updateChannel])
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">FAQ Answers in Slack</h2>
+        <button
+          onClick={fetchSettings}
+          className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+          title="Refresh"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        {configured
+          ? `New questions in enabled channels get an in-thread reply when an approved FAQ matches at least the threshold (default ${defaultMinScore}).`
+          : 'SLACK_BOT_TOKEN is not set on this server, so no answers are posted.'}
+      </p>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mb-2">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : channels.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No channels tracked yet. Channels are tracked once they receive messages or finish a pull.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+          {channels.map((channel) => (
+            <div key={channel.channelId} className="flex items-center justify-between gap-3 p-3 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900 dark:text-gray-100">#{channel.channelName}</div>
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {channel.answersPosted} {channel.answersPosted === 1 ? 'answer' : 'answers'} posted
+                </div>
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <label className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                  Threshold
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={thresholds[channel.channelId] ?? ''}
+                    placeholder={String(defaultMinScore)}
+                    onChange={(e) => setThresholds(prev => ({ ...prev, [channel.channelId]: e.target.value }))}
+                    onBlur={() => saveThreshold(channel)}
+                    className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  />
+                </label>
+                <button
+                  onClick={() => updateChannel(channel.channelId, { answersEnabled: !channel.answersEnabled })}
+                  className={`px-2 py-1 rounded text-xs font-medium ${
+                    channel.answersEnabled
+                      ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                      : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+                  }`}
+                >
+                  {channel.answersEnabled ? 'Answering' : 'Off'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FAQAnswerPanel
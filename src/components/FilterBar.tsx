@@ -4,7 +4,13 @@
  */
 
 import React, { useState, useCallback, useEffect } from 'react'
-import type { FilterBarProps, MessageFilters } from '@/types'
+import type { FilterBarProps, MessageFilters, MessageSearchMode } from '@/types'
+
+const SEARCH_MODE_OPTIONS: Array<{ value: MessageSearchMode; label: string; title: string }> = [
+  { value: 'hybrid', label: 'Smart', title: 'Matching words and similar meaning, best matches first' },
+  { value: 'keyword', label: 'Exact words', title: 'Messages containing the search words' },
+  { value: 'semantic', label: 'Similar meaning', title: 'Discussions about the same topic, even when worded differently' }
+]
 
 /**
  * FilterBar component for message filtering and search
@@ -30,6 +36,7 @@ export const FilterBar: React.FC<FilterBarProps> = ({
       dateFrom: '',
       dateTo: '',
       search: '',
+      searchMode: filters.searchMode,
       page: 1,
       limit: filters.limit
     })
@@ -42,8 +49,8 @@ export const FilterBar: React.FC<FilterBarProps> = ({
       {/* Single Row Compact Layout */}
       <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
         {/* Search Bar */}
-        <div className="sm:col-span-2">
-          <div className="relative">
+        <div className="sm:col-span-2 flex gap-2">
+          <div className="relative flex-1 min-w-0">
             <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
               <svg 
                 className="h-4 w-4 text-gray-400 dark:text-gray-500" 
@@ -63,6 +70,22 @@ export const FilterBar: React.FC<FilterBarProps> = ({
               disabled={loading}
             />
           </div>
+
+          {/* Search Mode */}
+          <select
+            value={filters.searchMode || 'hybrid'}
+            onChange={(e) => handleFilterChange('searchMode', e.target.value)}
+            title={SEARCH_MODE_OPTIONS.find(option => option.value === (filters.searchMode || 'hybrid'))?.title}
+            aria-label="Search mode"
+            className="flex-shrink-0 px-2 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            disabled={loading}
+          >
+            {SEARCH_MODE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value} title={option.title}>
+                {option.label}
+              </option>
+            ))}
+          </select>
         </div>
 
         {/* Channel Filter - No Label */}
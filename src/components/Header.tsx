@@ -17,8 +17,13 @@ import {
   Activity,
   X,
   Download,
-  ExternalLink
+  ExternalLink,
+  LogOut,
+  Users,
+  History
 } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import { UserRole } from '@/types'
 
 interface HeaderProps {
   isConnected: boolean
@@ -29,6 +34,7 @@ export const Header: React.FC<HeaderProps> = ({ isConnected = false }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
   const router = useRouter()
+  const { user, signOut, hasRole } = useAuth()
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -173,6 +179,32 @@ export const Header: React.FC<HeaderProps> = ({ isConnected = false }) => {
 
           {/* Right Side Actions */}
           <div className="flex items-center space-x-4">
+            {/* Signed-in User */}
+            {user && (
+              <div className="hidden md:flex items-center space-x-2 text-white">
+                {user.avatarUrl ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={user.avatarUrl} alt="" className="w-7 h-7 rounded-full border border-white/30" />
+                ) : (
+                  <div className="w-7 h-7 rounded-full bg-white/20 flex items-center justify-center text-xs font-semibold">
+                    {user.name.charAt(0).toUpperCase()}
+                  </div>
+                )}
+                <div className="hidden lg:block leading-tight">
+                  <div className="text-sm font-medium truncate max-w-[10rem]">{user.name}</div>
+                  <div className="text-xs text-white/70">{user.role.replace('_', ' ').toLowerCase()}</div>
+                </div>
+                <button
+                  onClick={signOut}
+                  className="p-1.5 rounded-lg text-white/80 hover:text-white hover:bg-white/10 transition-colors"
+                  title="Sign out"
+                  aria-label="Sign out"
+                >
+                  <LogOut className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
             {/* Mobile Menu & Actions Dropdown */}
             <div className="relative" ref={dropdownRef}>
               <button
@@ -397,6 +429,25 @@ export const Header: React.FC<HeaderProps> = ({ isConnected = false }) => {
 
                         </div>
 
+                        {/* Signed-in User */}
+                        {user && (
+                          <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
+                            <div>
+                              <div className="font-semibold text-gray-900 dark:text-gray-100">{user.name}</div>
+                              <div className="text-sm text-gray-500 dark:text-gray-400">
+                                {user.email || user.role.replace('_', ' ').toLowerCase()}
+                              </div>
+                            </div>
+                            <button
+                              onClick={() => { setIsMenuOpen(false); signOut() }}
+                              className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                            >
+                              <LogOut className="w-4 h-4" />
+                              <span>Sign out</span>
+                            </button>
+                          </div>
+                        )}
+
                         {/* Connection Status */}
                         <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700">
                           <div className="flex items-center space-x-4">
@@ -467,6 +518,17 @@ export const Header: React.FC<HeaderProps> = ({ isConnected = false }) => {
                               <Bug className="w-6 h-6 text-orange-600 dark:text-orange-400 group-hover:text-orange-700 dark:group-hover:text-orange-300 transition-colors" />
                               <span className="font-medium text-gray-900 dark:text-gray-100">Debug Events</span>
                             </Link>
+
+                            {hasRole(UserRole.CURATOR, UserRole.PII_REVIEWER) && (
+                              <Link
+                                href="/curation/activity"
+                                onClick={() => setIsMenuOpen(false)}
+                                className="flex items-center space-x-4 px-4 py-3 rounded-lg bg-gray-50 dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors group"
+                              >
+                                <History className="w-6 h-6 text-teal-600 dark:text-teal-400 group-hover:text-teal-700 dark:group-hover:text-teal-300 transition-colors" />
+                                <span className="font-medium text-gray-900 dark:text-gray-100">Curation Activity</span>
+                              </Link>
+                            )}
                             
                             <Link
                               href="/api/health"
@@ -535,6 +597,28 @@ export const Header: React.FC<HeaderProps> = ({ isConnected = false }) => {
                       <Bug className="w-5 h-5 text-orange-600 dark:text-orange-400 group-hover:text-orange-700 dark:group-hover:text-orange-300 transition-colors" />
                       <span className="font-medium">Debug Events</span>
                     </Link>
+
+                    {hasRole(UserRole.CURATOR, UserRole.PII_REVIEWER) && (
+                      <Link
+                        href="/curation/activity"
+                        onClick={() => setIsMenuOpen(false)}
+                        className="flex items-center space-x-3 px-4 py-3 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors group"
+                      >
+                        <History className="w-5 h-5 text-teal-600 dark:text-teal-400 group-hover:text-teal-700 dark:group-hover:text-teal-300 transition-colors" />
+                        <span className="font-medium">Curation Activity</span>
+                      </Link>
+                    )}
+
+                    {hasRole(UserRole.ADMIN) && (
+                      <Link
+                        href="/admin/users"
+                        onClick={() => setIsMenuOpen(false)}
+                        className="flex items-center space-x-3 px-4 py-3 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors group"
+                      >
+                        <Users className="w-5 h-5 text-indigo-600 dark:text-indigo-400 group-hover:text-indigo-700 dark:group-hover:text-indigo-300 transition-colors" />
+                        <span className="font-medium">Users</span>
+                      </Link>
+                    )}
                     
                     <Link
                       href="/api/health"
@@ -1,7 +1,7 @@
 /**
  * MessageCard Component
  * Displays individual Slack message with metadata and thread support
- * Includes PII detection status indicators
+ * Includes PII detection status indicators and edit history
  */
 
 import React, { useState } from 'react'
@@ -14,9 +14,12 @@ import {
   Eye,
   EyeOff,
   X,
-  MoreHorizontal
+  MoreHorizontal,
+  History
 } from 'lucide-react'
-import type { MessageCardProps, PIIDetection, PIIStatus } from '@/types'
+import { TextDiff } from './TextDiff'
+import { SearchSnippet } from './SearchSnippet'
+import type { MessageCardProps, MessageRevisionHistory, PIIDetection, PIIStatus } from '@/types'
 
 /**
  * PII Status Indicator Props
@@ -142,7 +145,6 @@ const PIIInlineActions: React.FC<PIIInlineActionsProps> = ({
         },
         body: JSON.stringify({
           updates,
-          reviewedBy: 'user', // TODO: Get actual user
           reviewNote: 'Unmarked as protected from message feed'
         })
       })
@@ -229,6 +231,80 @@ const PIIInlineActions: React.FC<PIIInlineActionsProps> = ({
   )
 }
 
+/**
+ * Edit History Component
+ * "Edited" badge that expands into the message's revision timeline with diffs
+ */
+const EditHistory: React.FC<{ messageId: string, revisionCount: number }> = ({
+  messageId,
+  revisionCount
+}) => {
+  const [expanded, setExpanded] = useState(false)
+  const [history, setHistory] = useState<MessageRevisionHistory | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Toggle the history panel, loading the revisions on first open
+   */
+  const handleToggle = async () => {
+    const nextExpanded = !expanded
+    setExpanded(nextExpanded)
+
+    if (!nextExpanded || history) return
+
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/messages/${messageId}/revisions`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load edit history')
+      }
+
+      setHistory(result.data)
+    } catch (err) {
+      console.error('Failed to load edit history:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load edit history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={handleToggle}
+        className="inline-flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+        title="Show edit history"
+      >
+        <History className="w-3 h-3" />
+        <span>Edited {revisionCount} time{revisionCount !== 1 ? 's' : ''}</span>
+      </button>
+
+      {expanded && (
+        <div className="mt-2 p-2 sm:p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md border border-gray-200 dark:border-gray-600 space-y-3">
+          {loading && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">Loading edit history...</div>
+          )}
+          {error && (
+            <div className="text-xs text-red-600 dark:text-red-400">{error}</div>
+          )}
+          {history && history.revisions.slice().reverse().map((revision) => (
+            <div key={revision.id}>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                Edited {new Date(revision.editedAt).toLocaleString()}
+              </div>
+              <TextDiff segments={revision.diff} className="text-gray-800 dark:text-gray-200" />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 /**
  * Individual reply component with PII support - Mobile Optimized
  */
@@ -295,6 +371,10 @@ const ThreadReply: React.FC<{ reply: any, getUserAvatar: (username: string) => s
         className="text-gray-900 dark:text-gray-100 text-sm leading-relaxed prose prose-sm max-w-none break-words"
         dangerouslySetInnerHTML={{ __html: formatMessageText(reply.text) }}
       />
+
+      {reply.revisionCount > 0 && (
+        <EditHistory messageId={reply.id} revisionCount={reply.revisionCount} />
+      )}
     </div>
   </div>
 )
@@ -437,6 +517,11 @@ export const MessageCard: React.FC<MessageCardProps> = ({
               </div>
             )}
 
+            {/* Search Match */}
+            {message.search && (
+              <SearchSnippet hit={message.search} messageId={message.id} className="mb-2" />
+            )}
+
             {/* Message Text */}
             <div className="message-card__text">
               <div 
@@ -444,6 +529,11 @@ export const MessageCard: React.FC<MessageCardProps> = ({
                 dangerouslySetInnerHTML={{ __html: formatMessageText(message.text) }}
               />
 
+              {/* Edit History */}
+              {!!message.revisionCount && (
+                <EditHistory messageId={message.id} revisionCount={message.revisionCount} />
+              )}
+
               {/* Document Badge */}
               {showDocumentBadge && message.documentStatus && (
                 <div className="mt-2 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300">
@@ -17,7 +17,9 @@ export const MessageFeed: React.FC<MessageFeedProps> = ({
   error, 
   onLoadMore,
   hasMore = false,
-  onPIIStatusUpdate
+  onPIIStatusUpdate,
+  selectedIds,
+  onToggleSelect
 }) => {
   const observerRef = useRef<IntersectionObserver | null>(null)
   const lastMessageRef = useCallback((node: HTMLDivElement | null) => {
@@ -78,12 +80,21 @@ export const MessageFeed: React.FC<MessageFeedProps> = ({
             <div
               key={message.id}
               ref={isLast ? lastMessageRef : null}
-              className="message-feed__item"
+              className={`message-feed__item ${onToggleSelect ? 'flex items-start' : ''}`}
             >
+              {onToggleSelect && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds?.has(message.id) || false}
+                  onChange={() => onToggleSelect(message.id)}
+                  aria-label="Select message"
+                  className="mt-5 ml-4 flex-shrink-0 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+                />
+              )}
               <MessageCard 
                 message={message} 
                 showChannel={true}
-                className="p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                className="flex-1 p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
                 getUserAvatar={(username: string) => {
                   const colors = [
                     'bg-red-500', 'bg-blue-500', 'bg-green-500', 'bg-purple-500',
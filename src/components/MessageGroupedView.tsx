@@ -17,6 +17,8 @@ interface MessageGroupedViewProps {
   onLoadMore: () => void
   hasMore: boolean
   groupBy: 'document' | 'channel' | 'date'
+  selectedIds?: Set<string>
+  onToggleSelect?: (messageId: string) => void
 }
 
 interface MessageGroup {
@@ -37,7 +39,9 @@ export const MessageGroupedView: React.FC<MessageGroupedViewProps> = ({
   error,
   onLoadMore,
   hasMore,
-  groupBy
+  groupBy,
+  selectedIds,
+  onToggleSelect
 }) => {
   /**
    * Group messages based on the selected groupBy option
@@ -262,6 +266,15 @@ export const MessageGroupedView: React.FC<MessageGroupedViewProps> = ({
                    'border-gray-300 dark:border-gray-600'
                  }`}>
                    <div className="flex items-start gap-4">
+                     {onToggleSelect && (
+                       <input
+                         type="checkbox"
+                         checked={selectedIds?.has(message.id) || false}
+                         onChange={() => onToggleSelect(message.id)}
+                         aria-label="Select message"
+                         className="mt-1 flex-shrink-0 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+                       />
+                     )}
                      <div className="flex-shrink-0">
                        <div className="flex items-center gap-2">
                          <span className="text-2xl">{messageType.icon}</span>
@@ -15,6 +15,8 @@ interface MessageTableViewProps {
   error?: string
   onLoadMore: () => void
   hasMore: boolean
+  selectedIds?: Set<string>
+  onToggleSelect?: (messageId: string) => void
 }
 
 type SortField = 'timestamp' | 'username' | 'channel' | 'text' | 'documentStatus'
@@ -28,7 +30,9 @@ export const MessageTableView: React.FC<MessageTableViewProps> = ({
   loading,
   error,
   onLoadMore,
-  hasMore
+  hasMore,
+  selectedIds,
+  onToggleSelect
 }) => {
   const [sortField, setSortField] = useState<SortField>('timestamp')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
@@ -211,6 +215,11 @@ export const MessageTableView: React.FC<MessageTableViewProps> = ({
         <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
           <thead className="bg-gray-50 dark:bg-gray-700">
             <tr>
+              {onToggleSelect && (
+                <th className="pl-6 py-3">
+                  <span className="sr-only">Select</span>
+                </th>
+              )}
               <th
                 onClick={() => handleSort('timestamp')}
                 className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
@@ -268,6 +277,17 @@ export const MessageTableView: React.FC<MessageTableViewProps> = ({
               
               return (
                 <tr key={message.id} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                  {onToggleSelect && (
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds?.has(message.id) || false}
+                        onChange={() => onToggleSelect(message.id)}
+                        aria-label="Select message"
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+                      />
+                    </td>
+                  )}
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900 dark:text-white">{date}</div>
                     <div className="text-sm text-gray-500 dark:text-gray-400">{time}</div>
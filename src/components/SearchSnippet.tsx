@@ -0,0 +1,51 @@
+/**
+ * SearchSnippet Component
+ * Renders the excerpt a search result was matched on, with matched words highlighted
+ */
+
+import React from 'react'
+import type { MessageSearchHit } from '@/types'
+
+interface SearchSnippetProps {
+  hit: MessageSearchHit
+  messageId: string
+  className?: string
+}
+
+/**
+ * SearchSnippet component
+ */
+export const SearchSnippet: React.FC<SearchSnippetProps> = ({
+  hit,
+  messageId,
+  className = ''
+}) => {
+  const inReply = hit.matchedMessageId !== messageId
+
+  return (
+    <div className={`p-2 rounded-md bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 ${className}`}>
+      <div className="flex flex-wrap items-center gap-1.5 mb-1 text-xs text-amber-800 dark:text-amber-300">
+        <span className="font-medium">{inReply ? 'Matched in a thread reply' : 'Matched'}</span>
+        {hit.matchedBy.map(source => (
+          <span
+            key={source}
+            className="px-1.5 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/40"
+          >
+            {source === 'keyword' ? 'words' : 'meaning'}
+          </span>
+        ))}
+      </div>
+      <p className="text-sm leading-relaxed whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">
+        {hit.snippet.map((segment, index) =>
+          segment.match ? (
+            <mark key={index} className="bg-yellow-200 dark:bg-yellow-600/50 text-inherit rounded px-0.5">
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </p>
+    </div>
+  )
+}
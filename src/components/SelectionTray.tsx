@@ -0,0 +1,300 @@
+/**
+ * SelectionTray Component
+ * Holds the messages a curator has picked across pages and views, and saves them as
+ * named selections that can be shared, reloaded later and turned into documents
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { FilePlus, FolderOpen, Save, Share2, Trash2, X, FileText } from 'lucide-react'
+import toast from 'react-hot-toast'
+import type { MessageSelectionDisplay } from '@/types'
+
+interface SelectionTrayProps {
+  selectedIds: Set<string>
+  onSelectionChange: (messageIds: string[]) => void
+}
+
+const sameIds = (a: Set<string>, b: string[]): boolean => a.size === b.length && b.every(id => a.has(id))
+
+/**
+ * Selection tray component
+ */
+export const SelectionTray: React.FC<SelectionTrayProps> = ({
+  selectedIds,
+  onSelectionChange
+}) => {
+  const [selections, setSelections] = useState<MessageSelectionDisplay[]>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [documentId, setDocumentId] = useState('')
+  const [showEnhance, setShowEnhance] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  const active = selections.find(selection => selection.id === activeId) || null
+  const isDirty = active ? !sameIds(selectedIds, active.messageIds) || name.trim() !== active.selectionName : true
+
+  /**
+   * Load the user's own and shared selections
+   */
+  const fetchSelections = useCallback(async () => {
+    try {
+      const response = await fetch('/api/messages/selections')
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load selections')
+      }
+
+      setSelections(result.data.selections)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load selections')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSelections()
+  }, [fetchSelections])
+
+  /**
+   * Send a request and return the response data, surfacing errors as toasts
+   */
+  const request = useCallback(async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+    const result = await response.json()
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Request failed')
+    }
+
+    return result
+  }, [])
+
+  /**
+   * Save the current picks: update the active selection when it is ours, otherwise create a new one
+   */
+  const saveSelection = useCallback(async (asNew = false): Promise<MessageSelectionDisplay | null> => {
+    const messageIds = Array.from(selectedIds)
+
+    if (!name.trim()) {
+      toast.error('Give the selection a name first')
+      return null
+    }
+
+    const result = active && active.isOwner && !asNew
+      ? await request(`/api/messages/selections/${active.id}`, 'PATCH', { selectionName: name, messageIds })
+      : await request('/api/messages/selections', 'POST', { selectionName: name, messageIds })
+
+    const saved: MessageSelectionDisplay = result.data.selection
+    setSelections(prev => [saved, ...prev.filter(selection => selection.id !== saved.id)])
+    setActiveId(saved.id)
+    return saved
+  }, [active, name, selectedIds, request])
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setBusy(true)
+    try {
+      await action()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Request failed')
+    } finally {
+      setBusy(false)
+    }
+  }, [])
+
+  const handleSave = (asNew = false) => run(async () => {
+    const saved = await saveSelection(asNew)
+    if (saved) toast.success(`Saved "${saved.selectionName}"`)
+  })
+
+  const handleLoad = (selectionId: string) => {
+    const selection = selections.find(s => s.id === selectionId)
+    setActiveId(selection?.id || null)
+    setName(selection?.selectionName || '')
+    setShowEnhance(false)
+    if (selection) onSelectionChange(selection.messageIds)
+  }
+
+  const handleToggleShare = () => run(async () => {
+    if (!active) return
+    const result = await request(`/api/messages/selections/${active.id}`, 'PATCH', { isShared: !active.isShared })
+    const updated: MessageSelectionDisplay = result.data.selection
+    setSelections(prev => prev.map(selection => selection.id === updated.id ? updated : selection))
+    toast.success(updated.isShared ? 'Shared with other curators' : 'No longer shared')
+  })
+
+  const handleDelete = () => run(async () => {
+    if (!active || !confirm(`Delete the selection "${active.selectionName}"? The messages are not affected.`)) return
+    await request(`/api/messages/selections/${active.id}`, 'DELETE')
+    setSelections(prev => prev.filter(selection => selection.id !== active.id))
+    setActiveId(null)
+    setName('')
+    toast.success('Selection deleted')
+  })
+
+  /**
+   * Create a document from the selection, or add it to documentId; unsaved picks are saved first
+   */
+  const handleDocument = (targetDocumentId?: string) => run(async () => {
+    let selection = active
+    if (!selection || isDirty) {
+      if (selection && !selection.isOwner) {
+        throw new Error('This selection belongs to someone else; save your changes under a new name first')
+      }
+      selection = await saveSelection()
+      if (!selection) return
+    }
+
+    const result = await request(
+      `/api/messages/selections/${selection.id}/document`,
+      'POST',
+      targetDocumentId ? { documentId: targetDocumentId } : {}
+    )
+    toast.success(result.message)
+    setShowEnhance(false)
+    setDocumentId('')
+    await fetchSelections()
+  })
+
+  const handleClear = () => {
+    onSelectionChange([])
+    setActiveId(null)
+    setName('')
+    setShowEnhance(false)
+  }
+
+  if (selectedIds.size === 0 && selections.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="sticky bottom-4 z-40 mt-4 bg-white dark:bg-gray-800 border border-blue-200 dark:border-blue-700 rounded-lg shadow-lg p-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-900 dark:text-white">
+          {selectedIds.size} {selectedIds.size === 1 ? 'message' : 'messages'} selected
+        </span>
+
+        {/* Saved selections */}
+        <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+          <FolderOpen className="w-4 h-4" />
+          <select
+            value={activeId || ''}
+            onChange={(e) => handleLoad(e.target.value)}
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white max-w-xs"
+          >
+            <option value="">Unsaved selection</option>
+            {selections.map(selection => (
+              <option key={selection.id} value={selection.id}>
+                {selection.selectionName} ({selection.messageIds.length}){!selection.isOwner && ` · ${selection.ownerName}`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Selection name"
+          maxLength={100}
+          disabled={Boolean(active && !active.isOwner)}
+          className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-60"
+        />
+
+        <button
+          onClick={() => handleSave(Boolean(active && !active.isOwner))}
+          disabled={busy || selectedIds.size === 0 || !isDirty}
+          className="flex items-center gap-1 px-3 py-1 text-sm text-blue-600 dark:text-blue-400 border border-blue-300 dark:border-blue-600 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900 disabled:opacity-50"
+          title={active && !active.isOwner ? 'Save a copy of this shared selection as your own' : 'Save selection'}
+        >
+          <Save className="w-4 h-4" />
+          {active && !active.isOwner ? 'Save a copy' : 'Save'}
+        </button>
+
+        {active?.isOwner && (
+          <>
+            <button
+              onClick={handleToggleShare}
+              disabled={busy}
+              className={`flex items-center gap-1 px-3 py-1 text-sm rounded-md border disabled:opacity-50 ${active.isShared
+                ? 'text-green-700 border-green-300 bg-green-50 dark:text-green-300 dark:border-green-700 dark:bg-green-900/30'
+                : 'text-gray-600 border-gray-300 dark:text-gray-300 dark:border-gray-600'}`}
+              title={active.isShared ? 'Visible to other curators' : 'Only visible to you'}
+            >
+              <Share2 className="w-4 h-4" />
+              {active.isShared ? 'Shared' : 'Share'}
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={busy}
+              className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-50"
+              title="Delete selection"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+
+        <div className="flex items-center gap-2 ml-auto">
+          <button
+            onClick={() => handleDocument()}
+            disabled={busy || selectedIds.size === 0}
+            className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-50"
+          >
+            <FilePlus className="w-4 h-4" />
+            Create document
+          </button>
+          <button
+            onClick={() => setShowEnhance(!showEnhance)}
+            disabled={busy || selectedIds.size === 0}
+            className="flex items-center gap-1 px-3 py-1 text-sm text-blue-600 dark:text-blue-400 border border-blue-300 dark:border-blue-600 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900 disabled:opacity-50"
+          >
+            <FileText className="w-4 h-4" />
+            Add to document
+          </button>
+          <button
+            onClick={handleClear}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+            title="Clear selection"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {showEnhance && (
+        <div className="flex items-center gap-2 mt-3">
+          <input
+            type="text"
+            value={documentId}
+            onChange={(e) => setDocumentId(e.target.value)}
+            placeholder="Document ID"
+            className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <button
+            onClick={() => handleDocument(documentId.trim())}
+            disabled={busy || !documentId.trim()}
+            className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-50"
+          >
+            {busy ? 'Working...' : 'Add messages'}
+          </button>
+        </div>
+      )}
+
+      {active?.documentId && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Last used for{' '}
+          <Link href={`/documents/${active.documentId}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+            this document
+          </Link>
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default SelectionTray
@@ -0,0 +1,44 @@
+/**
+ * TextDiff Component
+ * Renders a word-level diff with removed text struck through and added text highlighted
+ */
+
+import React from 'react'
+import type { DiffSegment } from '@/types'
+
+interface TextDiffProps {
+  segments: DiffSegment[]
+  className?: string
+}
+
+/**
+ * TextDiff component
+ */
+export const TextDiff: React.FC<TextDiffProps> = ({
+  segments,
+  className = ''
+}) => {
+  return (
+    <p className={`text-sm leading-relaxed whitespace-pre-wrap break-words ${className}`}>
+      {segments.map((segment, index) => {
+        if (segment.type === 'added') {
+          return (
+            <ins key={index} className="no-underline bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300 rounded px-0.5">
+              {segment.text}
+            </ins>
+          )
+        }
+
+        if (segment.type === 'removed') {
+          return (
+            <del key={index} className="bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300 rounded px-0.5">
+              {segment.text}
+            </del>
+          )
+        }
+
+        return <span key={index}>{segment.text}</span>
+      })}
+    </p>
+  )
+}
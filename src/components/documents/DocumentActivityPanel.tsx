@@ -0,0 +1,80 @@
+/**
+ * DocumentActivityPanel Component
+ * History of curation actions on one document: messages added and removed, merges and PII reviews
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { History } from 'lucide-react'
+import { CurationActivityList } from '@/components/CurationActivityList'
+import type { CurationActivityDisplay } from '@/types'
+
+interface DocumentActivityPanelProps {
+  documentId: string
+}
+
+const PANEL_LIMIT = 20
+
+/**
+ * Document activity panel component
+ */
+export const DocumentActivityPanel: React.FC<DocumentActivityPanelProps> = ({
+  documentId
+}) => {
+  const [activities, setActivities] = useState<CurationActivityDisplay[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchActivities = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch(`/api/curation/activity?targetId=${encodeURIComponent(documentId)}&limit=${PANEL_LIMIT}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load document history')
+      }
+
+      setActivities(result.data.activities)
+      setHasMore(Boolean(result.data.nextCursor))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load document history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    fetchActivities()
+  }, [fetchActivities])
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-gray-500" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">History</h2>
+        </div>
+        {hasMore && (
+          <Link
+            href={`/curation/activity?targetId=${encodeURIComponent(documentId)}`}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            View all
+          </Link>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : (
+        <CurationActivityList activities={activities} showTarget={false} />
+      )}
+    </div>
+  )
+}
+
+export default DocumentActivityPanel
@@ -54,6 +54,8 @@ export const DocumentFeed: React.FC<DocumentFeedProps> = ({
   // Selection state for bulk actions
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set())
   const [selectAll, setSelectAll] = useState(false)
+  // Surviving document while picking one for a merge
+  const [mergeTargetId, setMergeTargetId] = useState<string | null>(null)
 
   // Search and filter state
   const [searchTerm, setSearchTerm] = useState(initialFilters.search || '')
@@ -172,6 +174,24 @@ export const DocumentFeed: React.FC<DocumentFeedProps> = ({
     }
   }, [selectedDocuments, onBulkAction])
 
+  /**
+   * Merge the selection into the chosen document; the surviving document's ID is passed first
+   */
+  const handleMerge = useCallback(() => {
+    if (!mergeTargetId || !onBulkAction) return
+    const sourceIds = Array.from(selectedDocuments).filter(id => id !== mergeTargetId)
+    if (sourceIds.length === 0) return
+
+    onBulkAction('merge', [mergeTargetId, ...sourceIds])
+    setMergeTargetId(null)
+    setSelectedDocuments(new Set())
+    setSelectAll(false)
+  }, [mergeTargetId, selectedDocuments, onBulkAction])
+
+  const documentTitle = useCallback((documentId: string) => {
+    return documents.find(doc => doc.id === documentId)?.title || `${documentId.substring(0, 8)}...`
+  }, [documents])
+
   // Fetch documents when filters change
   useEffect(() => {
     fetchDocuments(filters)
@@ -224,6 +244,7 @@ export const DocumentFeed: React.FC<DocumentFeedProps> = ({
               <option value="PROCESSING">Processing</option>
               <option value="DRAFT">Draft</option>
               <option value="ERROR">Error</option>
+              <option value="ARCHIVED">Archived</option>
             </select>
           </div>
 
@@ -284,6 +305,15 @@ export const DocumentFeed: React.FC<DocumentFeedProps> = ({
                   Generate FAQs
                 </button>
                 
+                {selectedDocuments.size > 1 && (
+                  <button
+                    onClick={() => setMergeTargetId(mergeTargetId ? null : Array.from(selectedDocuments)[0])}
+                    className="text-sm bg-purple-100 hover:bg-purple-200 text-purple-700 px-3 py-1 rounded transition-colors duration-200"
+                  >
+                    Merge
+                  </button>
+                )}
+                
                 <button
                   onClick={() => handleBulkAction('delete')}
                   className="text-sm bg-red-100 hover:bg-red-200 text-red-700 px-3 py-1 rounded transition-colors duration-200"
@@ -297,12 +327,37 @@ export const DocumentFeed: React.FC<DocumentFeedProps> = ({
               onClick={() => {
                 setSelectedDocuments(new Set())
                 setSelectAll(false)
+                setMergeTargetId(null)
               }}
               className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-300 dark:hover:text-blue-100"
             >
               Clear Selection
             </button>
           </div>
+
+          {/* Merge: pick the document that survives */}
+          {mergeTargetId && selectedDocuments.size > 1 && (
+            <div className="flex flex-wrap items-center gap-2 mt-3 text-sm text-blue-700 dark:text-blue-200">
+              <span>Keep</span>
+              <select
+                value={selectedDocuments.has(mergeTargetId) ? mergeTargetId : ''}
+                onChange={(e) => setMergeTargetId(e.target.value)}
+                className="px-2 py-1 border border-blue-300 dark:border-blue-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white max-w-xs"
+              >
+                {Array.from(selectedDocuments).map(documentId => (
+                  <option key={documentId} value={documentId}>{documentTitle(documentId)}</option>
+                ))}
+              </select>
+              <span>and merge the other {selectedDocuments.size - 1} into it. They are archived and redirect to it.</span>
+              <button
+                onClick={handleMerge}
+                disabled={!selectedDocuments.has(mergeTargetId)}
+                className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-1 rounded disabled:opacity-50 transition-colors duration-200"
+              >
+                Merge documents
+              </button>
+            </div>
+          )}
         </div>
       )}
 
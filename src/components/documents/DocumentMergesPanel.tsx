@@ -0,0 +1,118 @@
+/**
+ * DocumentMergesPanel Component
+ * Documents merged into this one, with an undo while the merge is still within its undo window
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { GitMerge, Undo2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import type { DocumentMergeDisplay } from '@/types'
+
+interface DocumentMergesPanelProps {
+  documentId: string
+  highlightMergeId?: string
+  onUndone?: () => void
+}
+
+/**
+ * Document merges panel component
+ */
+export const DocumentMergesPanel: React.FC<DocumentMergesPanelProps> = ({
+  documentId,
+  highlightMergeId,
+  onUndone
+}) => {
+  const [merges, setMerges] = useState<DocumentMergeDisplay[]>([])
+  const [undoingId, setUndoingId] = useState<string | null>(null)
+
+  const fetchMerges = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/documents/merge?documentId=${encodeURIComponent(documentId)}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load merges')
+      }
+
+      setMerges((result.data.merges as DocumentMergeDisplay[]).filter(merge => merge.targetDocumentId === documentId))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load merges')
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    fetchMerges()
+  }, [fetchMerges])
+
+  const handleUndo = async (merge: DocumentMergeDisplay) => {
+    if (!confirm(`Undo this merge? ${merge.sourceDocumentIds.length} document${merge.sourceDocumentIds.length !== 1 ? 's' : ''} will be restored with their messages and FAQs.`)) {
+      return
+    }
+
+    setUndoingId(merge.id)
+    try {
+      const response = await fetch(`/api/documents/merge?id=${encodeURIComponent(merge.id)}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to undo merge')
+      }
+
+      toast.success(result.message)
+      await fetchMerges()
+      onUndone?.()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to undo merge')
+    } finally {
+      setUndoingId(null)
+    }
+  }
+
+  if (merges.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <GitMerge className="w-5 h-5 text-gray-500" />
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Merged Documents</h2>
+      </div>
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {merges.map((merge) => (
+          <li
+            key={merge.id}
+            className={`py-3 text-sm flex flex-wrap items-center gap-2 ${merge.id === highlightMergeId ? 'bg-purple-50 dark:bg-purple-900/30 -mx-2 px-2 rounded' : ''}`}
+          >
+            <span className="text-gray-900 dark:text-white">
+              {Object.values(merge.sourceTitles).join(', ')}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              merged by {merge.mergedBy} · {new Date(merge.createdAt).toLocaleString()}
+            </span>
+            <span className="ml-auto">
+              {merge.undoneAt ? (
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  Undone by {merge.undoneBy}
+                </span>
+              ) : merge.canUndo ? (
+                <button
+                  onClick={() => handleUndo(merge)}
+                  disabled={undoingId !== null}
+                  className="flex items-center gap-1 px-3 py-1 text-sm text-purple-700 dark:text-purple-300 border border-purple-300 dark:border-purple-600 rounded-md hover:bg-purple-50 dark:hover:bg-purple-900 disabled:opacity-50"
+                  title={`Can be undone until ${new Date(merge.undoExpiresAt).toLocaleString()}`}
+                >
+                  <Undo2 className="w-4 h-4" />
+                  {undoingId === merge.id ? 'Undoing...' : 'Undo'}
+                </button>
+              ) : null}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default DocumentMergesPanel
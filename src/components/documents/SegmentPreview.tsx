@@ -0,0 +1,65 @@
+/**
+ * SegmentPreview Component
+ * Lists the conversations bulk processing would turn into documents, with why each one starts
+ */
+
+import React from 'react'
+import type { ConversationSegment, SegmentBoundaryReason } from '@/types'
+
+interface SegmentPreviewProps {
+  segments: ConversationSegment[]
+  className?: string
+}
+
+const BOUNDARY_LABELS: Record<SegmentBoundaryReason, string> = {
+  channel_start: 'First in channel',
+  thread: 'After a thread',
+  time_gap: 'Long pause',
+  speaker_change: 'New speaker',
+  topic_shift: 'Topic shift',
+  size_limit: 'Size limit'
+}
+
+/**
+ * Conversation segment preview list
+ */
+export const SegmentPreview: React.FC<SegmentPreviewProps> = ({
+  segments,
+  className = ''
+}) => {
+  if (segments.length === 0) {
+    return (
+      <p className={`text-sm text-gray-500 dark:text-gray-400 ${className}`}>
+        No unprocessed messages found.
+      </p>
+    )
+  }
+
+  return (
+    <ul className={`max-h-80 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 text-left ${className}`}>
+      {segments.map((segment) => (
+        <li key={segment.messageIds[0]} className="py-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400 mb-1">
+            <span className="font-medium text-gray-700 dark:text-gray-300">#{segment.channel}</span>
+            <span className={`px-1.5 py-0.5 rounded ${segment.kind === 'thread'
+              ? 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200'
+              : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'}`}
+            >
+              {segment.kind === 'thread' ? 'Thread' : BOUNDARY_LABELS[segment.boundaryReason]}
+            </span>
+            <span>
+              {segment.messageIds.length} {segment.messageIds.length === 1 ? 'message' : 'messages'}
+              {' · '}{segment.participants.length} {segment.participants.length === 1 ? 'participant' : 'participants'}
+            </span>
+            <span>{new Date(segment.startTime).toLocaleString()}</span>
+          </div>
+          {segment.preview && (
+            <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-2">{segment.preview}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default SegmentPreview
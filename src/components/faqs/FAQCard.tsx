@@ -7,6 +7,7 @@
 import React, { useState } from 'react'
 import Link from 'next/link'
 import { FAQDisplay } from '@/types'
+import { FAQRevisionTimeline } from './FAQRevisionTimeline'
 
 interface FAQCardProps {
   faq: FAQDisplay
@@ -19,6 +20,7 @@ interface FAQCardProps {
   onEdit?: (faqId: string) => void
   onDelete?: (faqId: string) => void
   onViewSources?: (faqId: string) => void
+  onRestored?: (faqId: string) => void
   showBulkSelect?: boolean
   isSelected?: boolean
   onSelect?: (selected: boolean) => void
@@ -38,6 +40,7 @@ export const FAQCard: React.FC<FAQCardProps> = ({
   onEdit,
   onDelete,
   onViewSources,
+  onRestored,
   showBulkSelect = false,
   isSelected = false,
   onSelect
@@ -174,6 +177,22 @@ export const FAQCard: React.FC<FAQCardProps> = ({
               <span className="text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded">
                 {faq.category}
               </span>
+
+              {faq.missingPrimarySource ? (
+                <span
+                  className="text-xs font-medium text-red-800 dark:text-red-200 bg-red-100 dark:bg-red-900 px-2 py-0.5 rounded"
+                  title="The primary question or answer message was deleted in Slack"
+                >
+                  Source deleted
+                </span>
+              ) : faq.sourcesStale && (
+                <span
+                  className="text-xs font-medium text-amber-800 dark:text-amber-200 bg-amber-100 dark:bg-amber-900 px-2 py-0.5 rounded"
+                  title="A source message was edited or deleted after this FAQ was generated"
+                >
+                  Sources changed
+                </span>
+              )}
               
               {showSimilarity && similarityDisplay && (
                 <div className={`flex items-center gap-1 px-2 py-0.5 rounded-full ${similarityDisplay.bgColor}`}>
@@ -286,6 +305,15 @@ export const FAQCard: React.FC<FAQCardProps> = ({
             <div className="text-xs text-gray-500 dark:text-gray-400">Primary Source</div>
           </div>
         </div>
+
+          {/* Slack Answer Feedback */}
+          {faq.slackFeedback && faq.slackFeedback.answered > 0 && (
+            <div className="mt-3 text-xs text-gray-500 dark:text-gray-400 text-center">
+              Answered {faq.slackFeedback.answered} {faq.slackFeedback.answered === 1 ? 'time' : 'times'} in Slack
+              {' · '}👍 {faq.slackFeedback.helpful}
+              {' · '}👎 {faq.slackFeedback.notHelpful}
+            </div>
+          )}
         
           {/* View Sources Button */}
           {(faq.sourceDocumentCount > 0 || faq.sourceMessageCount > 0) && (
@@ -300,6 +328,13 @@ export const FAQCard: React.FC<FAQCardProps> = ({
           )}
           </div>
 
+          {/* Version History */}
+          <FAQRevisionTimeline
+            faqId={faq.id}
+            canRestore={showActions}
+            onRestored={() => onRestored?.(faq.id)}
+          />
+
           {/* Approval Section for Pending FAQs */}
           {faq.status === 'PENDING' && showActions && (onApprove || onReject) && (
             <div className="mb-4">
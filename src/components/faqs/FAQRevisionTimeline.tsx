@@ -0,0 +1,175 @@
+/**
+ * FAQRevisionTimeline Component
+ * Expandable version history of a FAQ with word-level diffs, attribution and one-click restore
+ */
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { TextDiff } from '@/components/TextDiff'
+import { FAQChangeType, type FAQRevisionHistory } from '@/types'
+
+interface FAQRevisionTimelineProps {
+  faqId: string
+  canRestore?: boolean
+  onRestored?: () => void
+}
+
+const CHANGE_TYPE_LABELS: Record<FAQChangeType, string> = {
+  [FAQChangeType.AI_ENHANCEMENT]: 'AI enhancement',
+  [FAQChangeType.MANUAL_EDIT]: 'Manual edit',
+  [FAQChangeType.MERGE]: 'Merge',
+  [FAQChangeType.RESTORE]: 'Restore'
+}
+
+/**
+ * FAQ revision timeline, newest change first
+ */
+export const FAQRevisionTimeline: React.FC<FAQRevisionTimelineProps> = ({
+  faqId,
+  canRestore = true,
+  onRestored
+}) => {
+  const [expanded, setExpanded] = useState(false)
+  const [history, setHistory] = useState<FAQRevisionHistory | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Load the revisions of the FAQ
+   */
+  const loadHistory = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/faqs/${faqId}/revisions`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load version history')
+      }
+
+      setHistory(result.data)
+    } catch (err) {
+      console.error('Failed to load version history:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load version history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * Toggle the timeline, loading the revisions on first open
+   */
+  const handleToggle = async () => {
+    const nextExpanded = !expanded
+    setExpanded(nextExpanded)
+
+    if (nextExpanded && !history) {
+      await loadHistory()
+    }
+  }
+
+  /**
+   * Bring back the content of a previous version
+   */
+  const handleRestore = async (revisionId: string) => {
+    if (!confirm('Restore this version? The current question and answer will be kept in the history.')) {
+      return
+    }
+
+    setRestoringId(revisionId)
+    setError(null)
+    try {
+      const response = await fetch(`/api/faqs/${faqId}/revisions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ revisionId }),
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to restore version')
+      }
+
+      await loadHistory()
+      onRestored?.()
+    } catch (err) {
+      console.error('Failed to restore version:', err)
+      setError(err instanceof Error ? err.message : 'Failed to restore version')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <div className="mb-4">
+      <button
+        onClick={handleToggle}
+        className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+      >
+        {expanded ? 'Hide version history' : 'Version history'}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md border border-gray-200 dark:border-gray-600 space-y-4">
+          {loading && !history && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">Loading version history...</div>
+          )}
+          {error && (
+            <div className="text-xs text-red-600 dark:text-red-400">{error}</div>
+          )}
+          {history && history.revisions.length === 0 && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">No changes since this FAQ was created.</div>
+          )}
+          {history && history.revisions.slice().reverse().map((revision) => (
+            <div key={revision.id} className="border-b border-gray-200 dark:border-gray-600 last:border-b-0 pb-3 last:pb-0">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  <span className="font-medium text-gray-700 dark:text-gray-300">
+                    {CHANGE_TYPE_LABELS[revision.changeType]}
+                  </span>
+                  {revision.changedBy && <> by <span className="font-medium">{revision.changedBy}</span></>}
+                  {' · '}{new Date(revision.createdAt).toLocaleString()}
+                  {revision.sourceDocument && (
+                    <>
+                      {' · from '}
+                      <Link
+                        href={`/documents/${revision.sourceDocument.id}`}
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        {revision.sourceDocument.title}
+                      </Link>
+                    </>
+                  )}
+                </div>
+
+                {canRestore && (
+                  <button
+                    onClick={() => handleRestore(revision.id)}
+                    disabled={restoringId !== null}
+                    className="px-2 py-1 text-xs text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Restore the version before this change"
+                  >
+                    {restoringId === revision.id ? 'Restoring...' : 'Restore previous'}
+                  </button>
+                )}
+              </div>
+
+              {revision.reason && (
+                <div className="text-xs italic text-gray-500 dark:text-gray-400 mb-2">{revision.reason}</div>
+              )}
+
+              <TextDiff segments={revision.questionDiff} className="font-medium text-gray-900 dark:text-white mb-1" />
+              <TextDiff segments={revision.answerDiff} className="text-gray-700 dark:text-gray-300" />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FAQRevisionTimeline
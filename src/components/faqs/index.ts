@@ -4,4 +4,5 @@
  */
 
 export { default as FAQCard } from './FAQCard'
+export { FAQRevisionTimeline } from './FAQRevisionTimeline'
 export { FAQFilterBar } from './FAQFilters' 
\ No newline at end of file
@@ -32,8 +32,6 @@ import { logger } from '@/lib/logger'
  * Props for PIIReviewDashboard component
  */
 interface PIIReviewDashboardProps {
-  /** Current user performing reviews */
-  currentUser: string
   /** Refresh interval in milliseconds (default: 30000) */
   refreshInterval?: number
   /** Maximum items per page (default: 20) */
@@ -76,7 +74,6 @@ interface FilterState {
  * PII Review Dashboard Component
  */
 const PIIReviewDashboard: React.FC<PIIReviewDashboardProps> = ({
-  currentUser,
   refreshInterval = 30000,
   pageSize = 20
 }) => {
@@ -127,7 +124,11 @@ const PIIReviewDashboard: React.FC<PIIReviewDashboardProps> = ({
       [PIIType.PHONE]: 'Phone', 
       [PIIType.NAME]: 'Name',
       [PIIType.URL]: 'URL',
-      [PIIType.CUSTOM]: 'Custom'
+      [PIIType.CUSTOM]: 'Custom',
+      [PIIType.SSN]: 'SSN',
+      [PIIType.PERSONAL_ID]: 'ID Number',
+      [PIIType.CREDIT_CARD]: 'Credit Card',
+      [PIIType.SECRET]: 'Secret'
     }
 
     // Add all possible types with their counts (0 if not present)
@@ -241,7 +242,6 @@ const PIIReviewDashboard: React.FC<PIIReviewDashboardProps> = ({
         body: JSON.stringify({
           detectionId,
           status,
-          reviewedBy: currentUser,
           customReplacement,
           reviewNote
         })
@@ -282,7 +282,7 @@ const PIIReviewDashboard: React.FC<PIIReviewDashboardProps> = ({
           : item
       ))
     }
-  }, [currentUser, fetchPIIReviews])
+  }, [fetchPIIReviews])
 
   /**
    * Bulk update selected PII detections
@@ -306,7 +306,6 @@ const PIIReviewDashboard: React.FC<PIIReviewDashboardProps> = ({
         },
         body: JSON.stringify({
           updates,
-          reviewedBy: currentUser,
           reviewNote: `Bulk ${status.toLowerCase()} operation`
         })
       })
@@ -0,0 +1,365 @@
+/**
+ * PII Rules Panel Component
+ * Edits the detection rule registry and the business/name allow-lists
+ * Changes apply to new detections without a redeploy
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Settings, Plus, Trash2, RefreshCw, XCircle } from 'lucide-react'
+import { PIIListType, PIIRuleValidator, PIIStatus, PIIType } from '@/types'
+import type { PIIListEntry, PIIRule } from '@/types'
+
+/**
+ * Form state for a new custom rule
+ */
+interface NewRuleForm {
+  key: string
+  name: string
+  pattern: string
+  flags: string
+  replacementText: string
+  piiType: PIIType
+  validator: PIIRuleValidator
+  defaultStatus: PIIStatus
+  team: string
+  channels: string
+}
+
+const EMPTY_RULE: NewRuleForm = {
+  key: '',
+  name: '',
+  pattern: '',
+  flags: 'g',
+  replacementText: '[REDACTED]',
+  piiType: PIIType.CUSTOM,
+  validator: PIIRuleValidator.NONE,
+  defaultStatus: PIIStatus.AUTO_REPLACED,
+  team: '',
+  channels: ''
+}
+
+const LIST_LABELS: Record<PIIListType, { title: string; placeholder: string }> = {
+  [PIIListType.BUSINESS_DOMAIN]: { title: 'Business domains', placeholder: 'example.com' },
+  [PIIListType.BUSINESS_EMAIL_PREFIX]: { title: 'Business email prefixes', placeholder: 'support' },
+  [PIIListType.NAME_WHITELIST]: { title: 'Name whitelist', placeholder: 'jenkins' }
+}
+
+const inputClassName = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500'
+
+/**
+ * PII rules panel component
+ */
+export const PIIRulesPanel: React.FC = () => {
+  const [rules, setRules] = useState<PIIRule[]>([])
+  const [entries, setEntries] = useState<PIIListEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [newRule, setNewRule] = useState<NewRuleForm>(EMPTY_RULE)
+  const [showRuleForm, setShowRuleForm] = useState(false)
+  const [newEntries, setNewEntries] = useState<Record<string, string>>({})
+
+  /**
+   * Call an API route and surface its error message
+   */
+  const request = useCallback(async (url: string, init?: RequestInit) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers }
+    })
+    const result = await response.json()
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Request failed')
+    }
+
+    return result.data
+  }, [])
+
+  /**
+   * Load rules and allow-lists
+   */
+  const fetchAll = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const [ruleData, entryData] = await Promise.all([
+        request('/api/pii/rules'),
+        request('/api/pii/lists')
+      ])
+      setRules(ruleData)
+      setEntries(entryData)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load PII rules')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [request])
+
+  useEffect(() => {
+    fetchAll()
+  }, [fetchAll])
+
+  /**
+   * Enable or disable a rule
+   */
+  const toggleRule = async (rule: PIIRule) => {
+    try {
+      const updated = await request('/api/pii/rules', {
+        method: 'PATCH',
+        body: JSON.stringify({ id: rule.id, enabled: !rule.enabled })
+      })
+      setRules(prev => prev.map(r => r.id === rule.id ? updated : r))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rule')
+    }
+  }
+
+  /**
+   * Delete a custom rule
+   */
+  const deleteRule = async (rule: PIIRule) => {
+    if (!confirm(`Delete rule ${rule.key}?`)) return
+
+    try {
+      await request(`/api/pii/rules?id=${encodeURIComponent(rule.id)}`, { method: 'DELETE' })
+      setRules(prev => prev.filter(r => r.id !== rule.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete rule')
+    }
+  }
+
+  /**
+   * Create a custom rule from the form
+   */
+  const createRule = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const created = await request('/api/pii/rules', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...newRule,
+          team: newRule.team || null,
+          channels: newRule.channels.split(',').map(channel => channel.trim()).filter(Boolean)
+        })
+      })
+      setRules(prev => [...prev, created])
+      setNewRule(EMPTY_RULE)
+      setShowRuleForm(false)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create rule')
+    }
+  }
+
+  /**
+   * Add a value to an allow-list
+   */
+  const addEntry = async (listType: PIIListType) => {
+    const value = newEntries[listType]?.trim()
+    if (!value) return
+
+    try {
+      const entry = await request('/api/pii/lists', {
+        method: 'POST',
+        body: JSON.stringify({ listType, value })
+      })
+      setEntries(prev => [...prev.filter(e => e.id !== entry.id), entry])
+      setNewEntries(prev => ({ ...prev, [listType]: '' }))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add entry')
+    }
+  }
+
+  /**
+   * Remove a value from an allow-list
+   */
+  const removeEntry = async (entry: PIIListEntry) => {
+    try {
+      await request(`/api/pii/lists?id=${encodeURIComponent(entry.id)}`, { method: 'DELETE' })
+      setEntries(prev => prev.filter(e => e.id !== entry.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove entry')
+    }
+  }
+
+  return (
+    <div className="pii-rules-panel mt-6 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      {/* Header */}
+      <div className="border-b border-gray-200 dark:border-gray-700 p-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white flex items-center">
+            <Settings className="w-5 h-5 mr-2 text-blue-600 dark:text-blue-400" />
+            Detection Rules
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400 mt-1 text-sm">
+            Rules and allow-lists apply to new detections immediately
+          </p>
+        </div>
+        <button
+          onClick={fetchAll}
+          disabled={isLoading}
+          className="flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 text-gray-700 dark:text-gray-300 transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="mx-6 mt-4 p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-700 rounded-md flex items-center text-sm text-red-700 dark:text-red-300">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="ml-auto text-red-400 hover:text-red-600 dark:hover:text-red-300">
+            <XCircle className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Rules */}
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-gray-900 dark:text-white">Rules</h3>
+          <button
+            onClick={() => setShowRuleForm(prev => !prev)}
+            className="flex items-center px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Custom rule
+          </button>
+        </div>
+
+        {showRuleForm && (
+          <form onSubmit={createRule} className="mb-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input className={inputClassName} placeholder="Key (e.g. INTERNAL_TOKEN)" value={newRule.key}
+              onChange={(e) => setNewRule(prev => ({ ...prev, key: e.target.value.toUpperCase() }))} required />
+            <input className={inputClassName} placeholder="Name" value={newRule.name}
+              onChange={(e) => setNewRule(prev => ({ ...prev, name: e.target.value }))} required />
+            <input className={`${inputClassName} font-mono md:col-span-2`} placeholder="Regular expression" value={newRule.pattern}
+              onChange={(e) => setNewRule(prev => ({ ...prev, pattern: e.target.value }))} required />
+            <input className={`${inputClassName} font-mono`} placeholder="Flags" value={newRule.flags}
+              onChange={(e) => setNewRule(prev => ({ ...prev, flags: e.target.value }))} />
+            <input className={inputClassName} placeholder="Replacement text" value={newRule.replacementText}
+              onChange={(e) => setNewRule(prev => ({ ...prev, replacementText: e.target.value }))} required />
+            <select className={inputClassName} value={newRule.piiType}
+              onChange={(e) => setNewRule(prev => ({ ...prev, piiType: e.target.value as PIIType }))}>
+              {Object.values(PIIType).map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+            <select className={inputClassName} value={newRule.validator}
+              onChange={(e) => setNewRule(prev => ({ ...prev, validator: e.target.value as PIIRuleValidator }))}>
+              {Object.values(PIIRuleValidator).map(validator => <option key={validator} value={validator}>Validator: {validator}</option>)}
+            </select>
+            <select className={inputClassName} value={newRule.defaultStatus}
+              onChange={(e) => setNewRule(prev => ({ ...prev, defaultStatus: e.target.value as PIIStatus }))}>
+              <option value={PIIStatus.AUTO_REPLACED}>Replace automatically</option>
+              <option value={PIIStatus.PENDING_REVIEW}>Send to review</option>
+            </select>
+            <input className={inputClassName} placeholder="Team (optional)" value={newRule.team}
+              onChange={(e) => setNewRule(prev => ({ ...prev, team: e.target.value }))} />
+            <input className={inputClassName} placeholder="Team channel IDs, comma-separated (empty applies everywhere)" value={newRule.channels}
+              onChange={(e) => setNewRule(prev => ({ ...prev, channels: e.target.value }))} />
+            <div className="md:col-span-2 flex justify-end gap-2">
+              <button type="button" onClick={() => setShowRuleForm(false)}
+                className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+                Cancel
+              </button>
+              <button type="submit" className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md">
+                Create rule
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                <th className="py-2 pr-3">Rule</th>
+                <th className="py-2 pr-3">Type</th>
+                <th className="py-2 pr-3">Validator</th>
+                <th className="py-2 pr-3">Replacement</th>
+                <th className="py-2 pr-3">Team</th>
+                <th className="py-2 pr-3">Enabled</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {rules.map(rule => (
+                <tr key={rule.id} className="text-gray-700 dark:text-gray-300">
+                  <td className="py-2 pr-3">
+                    <div className="font-medium text-gray-900 dark:text-white">{rule.name}</div>
+                    <div className="font-mono text-xs text-gray-500 dark:text-gray-400 break-all" title={rule.pattern}>
+                      {rule.key}{rule.builtIn ? ' · built-in' : ''}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-3">{rule.piiType}</td>
+                  <td className="py-2 pr-3">{rule.validator === PIIRuleValidator.NONE ? '—' : rule.validator}</td>
+                  <td className="py-2 pr-3 font-mono text-xs">{rule.replacementText}</td>
+                  <td className="py-2 pr-3" title={rule.channels.join(', ')}>
+                    {rule.team || '—'}
+                    {rule.channels.length > 0 && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {rule.channels.length} channel{rule.channels.length !== 1 ? 's' : ''}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => toggleRule(rule)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                  </td>
+                  <td className="py-2 text-right">
+                    {!rule.builtIn && (
+                      <button onClick={() => deleteRule(rule)} className="text-gray-400 hover:text-red-600" title="Delete rule">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Allow-lists */}
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {Object.values(PIIListType).map(listType => (
+          <div key={listType}>
+            <h3 className="font-semibold text-gray-900 dark:text-white mb-2">{LIST_LABELS[listType].title}</h3>
+            <form
+              onSubmit={(e) => { e.preventDefault(); addEntry(listType) }}
+              className="flex gap-2 mb-3"
+            >
+              <input
+                className={inputClassName}
+                placeholder={LIST_LABELS[listType].placeholder}
+                value={newEntries[listType] || ''}
+                onChange={(e) => setNewEntries(prev => ({ ...prev, [listType]: e.target.value }))}
+              />
+              <button type="submit" className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md">
+                Add
+              </button>
+            </form>
+            <div className="flex flex-wrap gap-1.5 max-h-48 overflow-y-auto">
+              {entries.filter(entry => entry.listType === listType).map(entry => (
+                <span key={entry.id} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  {entry.value}
+                  <button onClick={() => removeEntry(entry)} className="ml-1 text-gray-400 hover:text-red-600" title="Remove">
+                    <XCircle className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default PIIRulesPanel
@@ -46,7 +46,7 @@ import {
 import toast from 'react-hot-toast'
 
 // Import shared types and utilities (DRY principle)
-import { AutomationData, DashboardProps, JobAction, JobFilter, ProcessingJob, ProcessingSettings } from '@/types'
+import { AutomationData, DashboardProps, JobAction, JobFilter, NotificationSettings, ProcessingJob, ProcessingSettings } from '@/types'
 import { 
   getJobStatusStyle, 
   getJobSource,
@@ -54,6 +54,20 @@ import {
   formatDuration,
   calculateJobDuration
 } from '@/lib/dashboardUtils'
+import { NotificationDeliveryHistory } from './NotificationDeliveryHistory'
+
+type NotificationToggle = 'enableSlackAlerts' | 'enableWebhookAlerts' | 'enableEmailAlerts'
+  | 'alertOnJobStart' | 'alertOnJobComplete' | 'alertOnJobFailure' | 'alertOnJobTimeout'
+
+const NOTIFICATION_TOGGLES: Array<{ key: NotificationToggle; label: string }> = [
+  { key: 'enableSlackAlerts', label: 'Enable Slack alerts' },
+  { key: 'enableWebhookAlerts', label: 'Enable webhook alerts' },
+  { key: 'enableEmailAlerts', label: 'Enable email alerts' },
+  { key: 'alertOnJobStart', label: 'Alert on job start' },
+  { key: 'alertOnJobComplete', label: 'Alert on job success' },
+  { key: 'alertOnJobFailure', label: 'Alert on job failure' },
+  { key: 'alertOnJobTimeout', label: 'Alert when a job runs past the threshold' }
+]
 
 interface AutomationDashboardProps extends DashboardProps {
   onNavigateToAnalytics?: () => void
@@ -256,6 +270,18 @@ export const AutomationDashboard: React.FC<AutomationDashboardProps> = ({
     }
   }, [data])
 
+  /**
+   * Update Notification Settings
+   * Sends the whole notification object because local settings state is merged shallowly
+   */
+  const handleNotificationSettingsUpdate = useCallback((updates: Partial<NotificationSettings>) => {
+    if (!data) return
+
+    handleSettingsUpdate({
+      notificationSettings: { ...data.processingSettings.notificationSettings, ...updates }
+    })
+  }, [data, handleSettingsUpdate])
+
   /**
    * Update Document Processing Settings
    * Handles updates to document processing automation configuration
@@ -421,7 +447,7 @@ export const AutomationDashboard: React.FC<AutomationDashboardProps> = ({
   }, [timezoneAbbr])
 
   /**
-   * Get next scheduled run time (for future enhancement)
+   * Get next scheduled run time as calculated by the automation scheduler
    */
   const getNextRunTime = useCallback(() => {
     const faqData = getCurrentFAQData()
@@ -429,10 +455,13 @@ export const AutomationDashboard: React.FC<AutomationDashboardProps> = ({
       return 'Manual only'
     }
     
-    // For now, just show that it's scheduled
-    // In the future, this could calculate the actual next run time
-    return `Scheduled (${userTimezone})`
-  }, [getCurrentFAQData, userTimezone])
+    // Unsaved schedule changes don't have a calculated run time yet
+    if (!faqData?.schedule?.nextRun || hasUnsavedChanges) {
+      return `Scheduled (${userTimezone})`
+    }
+
+    return new Date(faqData.schedule.nextRun).toLocaleString()
+  }, [getCurrentFAQData, hasUnsavedChanges, userTimezone])
 
   /**
    * Filter Jobs
@@ -1028,71 +1057,59 @@ export const AutomationDashboard: React.FC<AutomationDashboardProps> = ({
             <div>
               <h3 className="font-medium text-gray-900 dark:text-white mb-3">Notifications</h3>
               <div className="space-y-4">
-                <div className="flex items-center">
-                  <input
-                    type="checkbox"
-                    checked={data.processingSettings.notificationSettings.enableSlackAlerts}
-                    onChange={(e) => handleSettingsUpdate({ 
-                      notificationSettings: { 
-                        ...data.processingSettings.notificationSettings, 
-                        enableSlackAlerts: e.target.checked 
-                      }
-                    })}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-                  <label className="ml-2 text-sm text-gray-700 dark:text-gray-300">
-                    Enable Slack alerts
+                {NOTIFICATION_TOGGLES.map(({ key, label }) => (
+                  <div key={key} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={data.processingSettings.notificationSettings[key]}
+                      onChange={(e) => handleNotificationSettingsUpdate({ [key]: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <label className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                      {label}
+                    </label>
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Slack Channel
                   </label>
-                </div>
-                <div className="flex items-center">
                   <input
-                    type="checkbox"
-                    checked={data.processingSettings.notificationSettings.enableEmailAlerts}
-                    onChange={(e) => handleSettingsUpdate({ 
-                      notificationSettings: { 
-                        ...data.processingSettings.notificationSettings, 
-                        enableEmailAlerts: e.target.checked 
-                      }
-                    })}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    type="text"
+                    key={data.processingSettings.notificationSettings.slackChannel}
+                    defaultValue={data.processingSettings.notificationSettings.slackChannel}
+                    onBlur={(e) => handleNotificationSettingsUpdate({ slackChannel: e.target.value.trim() })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    placeholder="#processing-alerts"
                   />
-                  <label className="ml-2 text-sm text-gray-700 dark:text-gray-300">
-                    Enable email alerts
-                  </label>
                 </div>
-                <div className="flex items-center">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Webhook URL
+                  </label>
                   <input
-                    type="checkbox"
-                    checked={data.processingSettings.notificationSettings.alertOnFailure}
-                    onChange={(e) => handleSettingsUpdate({ 
-                      notificationSettings: { 
-                        ...data.processingSettings.notificationSettings, 
-                        alertOnFailure: e.target.checked 
-                      }
-                    })}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    type="url"
+                    key={data.processingSettings.notificationSettings.webhookUrl}
+                    defaultValue={data.processingSettings.notificationSettings.webhookUrl}
+                    onBlur={(e) => handleNotificationSettingsUpdate({ webhookUrl: e.target.value.trim() })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    placeholder="https://example.com/hooks/listen-bot"
                   />
-                  <label className="ml-2 text-sm text-gray-700 dark:text-gray-300">
-                    Alert on job failure
-                  </label>
                 </div>
-                <div className="flex items-center">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Timeout Alert Threshold (minutes)
+                  </label>
                   <input
-                    type="checkbox"
-                    checked={data.processingSettings.notificationSettings.alertOnSuccess}
-                    onChange={(e) => handleSettingsUpdate({ 
-                      notificationSettings: { 
-                        ...data.processingSettings.notificationSettings, 
-                        alertOnSuccess: e.target.checked 
-                      }
-                    })}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    type="number"
+                    min="0"
+                    value={data.processingSettings.notificationSettings.alertThresholdMinutes}
+                    onChange={(e) => handleNotificationSettingsUpdate({ alertThresholdMinutes: parseInt(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   />
-                  <label className="ml-2 text-sm text-gray-700 dark:text-gray-300">
-                    Alert on job success
-                  </label>
                 </div>
               </div>
+              <NotificationDeliveryHistory />
             </div>
           </div>
         </div>
@@ -0,0 +1,275 @@
+/**
+ * Backlog Processing Panel Component
+ * Estimates and runs document creation over every unprocessed message,
+ * showing the progress of the current run and recent runs
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Layers, Play, RefreshCw, Square } from 'lucide-react'
+import toast from 'react-hot-toast'
+import type { BacklogEstimate, BacklogRunProgress } from '@/types'
+
+const POLL_INTERVAL_MS = 5000
+
+const STATUS_STYLES: Record<BacklogRunProgress['status'], string> = {
+  QUEUED: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  RUNNING: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  COMPLETED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  FAILED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  CANCELLED: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+}
+
+const isActive = (run: BacklogRunProgress): boolean => run.status === 'QUEUED' || run.status === 'RUNNING'
+
+/**
+ * Backlog processing panel component
+ */
+export const BacklogProcessingPanel: React.FC = () => {
+  const [runs, setRuns] = useState<BacklogRunProgress[]>([])
+  const [estimate, setEstimate] = useState<BacklogEstimate | null>(null)
+  const [concurrency, setConcurrency] = useState(2)
+  const [splitByTopic, setSplitByTopic] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const activeRun = runs.find(isActive) || null
+  const activeRunId = activeRun?.id
+
+  /**
+   * Load the most recent runs
+   */
+  const fetchRuns = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch('/api/documents/backlog?limit=5')
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load backlog runs')
+      }
+
+      setRuns(result.data.runs)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load backlog runs')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRuns()
+  }, [fetchRuns])
+
+  // Follow the active run until it ends
+  useEffect(() => {
+    if (!activeRunId) return
+
+    const timer = setInterval(fetchRuns, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [activeRunId, fetchRuns])
+
+  /**
+   * Estimate (dryRun) or start a run
+   */
+  const submit = useCallback(async (dryRun: boolean) => {
+    setBusy(true)
+    try {
+      const response = await fetch('/api/documents/backlog', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          dryRun,
+          concurrency,
+          segmentation: { topicShift: splitByTopic }
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Backlog request failed')
+      }
+
+      if (dryRun) {
+        setEstimate(result.data.estimate)
+      } else {
+        toast.success(result.message)
+        setEstimate(null)
+        await fetchRuns()
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Backlog request failed')
+    } finally {
+      setBusy(false)
+    }
+  }, [concurrency, splitByTopic, fetchRuns])
+
+  /**
+   * Cancel the active run
+   */
+  const cancelRun = useCallback(async (runId: string) => {
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/documents/backlog?id=${encodeURIComponent(runId)}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to cancel the run')
+      }
+
+      toast.success(result.message)
+      await fetchRuns()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel the run')
+    } finally {
+      setBusy(false)
+    }
+  }, [fetchRuns])
+
+  return (
+    <div className="mt-12 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-gray-500" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Backlog Processing</h2>
+        </div>
+        <button
+          onClick={fetchRuns}
+          className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+          title="Refresh"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Create documents from every unprocessed message, conversation by conversation. Runs continue in the background and resume after restarts.
+      </p>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>}
+
+      {/* Active run */}
+      {activeRun ? (
+        <div className="mb-6 p-4 border border-blue-200 dark:border-blue-700 rounded-lg bg-blue-50 dark:bg-blue-900/20">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-gray-900 dark:text-white">
+              {activeRun.processedMessages} of {activeRun.totalMessages} messages · {activeRun.documentsCreated} documents
+              {activeRun.failedSegments > 0 && ` · ${activeRun.failedSegments} failed`}
+            </span>
+            <button
+              onClick={() => cancelRun(activeRun.id)}
+              disabled={busy}
+              className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-red-700 bg-red-50 rounded hover:bg-red-100 disabled:opacity-50 dark:bg-red-900 dark:text-red-200"
+            >
+              <Square className="w-3 h-3" />
+              Cancel
+            </button>
+          </div>
+          <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-2 bg-blue-600 transition-all duration-500" style={{ width: `${activeRun.progress}%` }} />
+          </div>
+          {activeRun.resumeCount > 0 && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Resumed {activeRun.resumeCount} time{activeRun.resumeCount !== 1 ? 's' : ''} after an interruption</p>
+          )}
+        </div>
+      ) : (
+        <div className="mb-6">
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              Documents at a time
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(parseInt(e.target.value))}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {[1, 2, 3, 4, 5].map(value => <option key={value} value={value}>{value}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={splitByTopic}
+                onChange={(e) => {
+                  setSplitByTopic(e.target.checked)
+                  setEstimate(null)
+                }}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+              />
+              Also split on topic changes
+            </label>
+          </div>
+
+          {estimate && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg text-center">
+              <div>
+                <div className="text-xl font-bold text-blue-600">{estimate.totalMessages}</div>
+                <div className="text-xs text-gray-600 dark:text-gray-400">Unprocessed messages</div>
+              </div>
+              <div>
+                <div className="text-xl font-bold text-green-600">{splitByTopic ? '≥ ' : ''}{estimate.documents}</div>
+                <div className="text-xs text-gray-600 dark:text-gray-400">Documents ({estimate.threads} threads)</div>
+              </div>
+              <div>
+                <div className="text-xl font-bold text-purple-600">{estimate.llmCalls}</div>
+                <div className="text-xs text-gray-600 dark:text-gray-400">LLM calls</div>
+              </div>
+              <div>
+                <div className="text-xl font-bold text-gray-700 dark:text-gray-200">{estimate.channels}</div>
+                <div className="text-xs text-gray-600 dark:text-gray-400">Channels</div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => submit(true)}
+              disabled={busy}
+              className="px-4 py-2 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 border border-blue-300 dark:border-blue-600 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900 transition-colors duration-200 disabled:opacity-50"
+            >
+              {busy ? 'Working...' : 'Estimate'}
+            </button>
+            <button
+              onClick={() => submit(false)}
+              disabled={busy || (estimate !== null && estimate.totalMessages === 0)}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors duration-200 disabled:opacity-50"
+            >
+              <Play className="w-4 h-4" />
+              Process backlog
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Recent runs */}
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : runs.length > 0 && (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+          {runs.map((run) => (
+            <div key={run.id} className="flex items-center justify-between gap-3 p-2 text-xs">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className={`px-2 py-0.5 rounded-full font-medium ${STATUS_STYLES[run.status]}`}>
+                  {run.status}
+                </span>
+                <span className="text-gray-700 dark:text-gray-300">
+                  {run.documentsCreated} documents from {run.processedMessages}/{run.totalMessages} messages
+                </span>
+                {run.errorMessage && (
+                  <span className="text-red-600 dark:text-red-400 truncate" title={run.errorMessage}>
+                    {run.errorMessage}
+                  </span>
+                )}
+              </div>
+              <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">
+                {new Date(run.createdAt).toLocaleString()}
+                {run.userId && ` · ${run.userId}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BacklogProcessingPanel
@@ -0,0 +1,156 @@
+/**
+ * Notification Delivery History Component
+ * Shows recent job status notifications with their delivery outcome,
+ * and lets operators send a test notification or retry failed deliveries
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Bell, RefreshCw, RotateCcw, Send } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { NotificationStatus } from '@/types'
+import type { NotificationDelivery } from '@/types'
+
+const STATUS_STYLES: Record<NotificationStatus, string> = {
+  [NotificationStatus.PENDING]: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  [NotificationStatus.SENT]: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  [NotificationStatus.FAILED]: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  [NotificationStatus.SKIPPED]: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+}
+
+/**
+ * Notification delivery history component
+ */
+export const NotificationDeliveryHistory: React.FC = () => {
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [sending, setSending] = useState(false)
+
+  /**
+   * Load the most recent deliveries
+   */
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch('/api/processing/notifications?limit=20')
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load notification history')
+      }
+
+      setDeliveries(result.data.deliveries)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notification history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchDeliveries()
+  }, [fetchDeliveries])
+
+  /**
+   * Send a test notification or retry a delivery
+   */
+  const runAction = useCallback(async (body: { action: 'test' | 'redeliver'; id?: string }) => {
+    setSending(true)
+    try {
+      const response = await fetch('/api/processing/notifications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Notification request failed')
+      }
+
+      toast.success(result.message)
+      await fetchDeliveries()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Notification request failed')
+    } finally {
+      setSending(false)
+    }
+  }, [fetchDeliveries])
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Bell className="w-4 h-4 text-gray-500" />
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white">Delivery history</h4>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => runAction({ action: 'test' })}
+            disabled={sending}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 rounded hover:bg-blue-100 disabled:opacity-50 dark:bg-blue-900 dark:text-blue-200"
+          >
+            <Send className="w-3 h-3" />
+            Send test
+          </button>
+          <button
+            onClick={fetchDeliveries}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mb-2">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : deliveries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No notifications sent yet</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="flex items-start justify-between gap-3 p-2 text-xs">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full font-medium ${STATUS_STYLES[delivery.status as NotificationStatus] || ''}`}>
+                    {delivery.status}
+                  </span>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {delivery.event.replace(/_/g, ' ')}
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {delivery.channel} → {delivery.target || '(none)'}
+                  </span>
+                </div>
+                <div className="mt-1 text-gray-500 dark:text-gray-400 truncate">
+                  {delivery.jobType} · {delivery.jobId} · {new Date(delivery.createdAt).toLocaleString()}
+                  {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                </div>
+                {delivery.error && (
+                  <div className="mt-1 text-red-600 dark:text-red-400 truncate" title={delivery.error}>
+                    {delivery.error}
+                  </div>
+                )}
+              </div>
+              {delivery.status === NotificationStatus.FAILED && (
+                <button
+                  onClick={() => runAction({ action: 'redeliver', id: delivery.id })}
+                  disabled={sending}
+                  className="flex-shrink-0 p-1 text-gray-500 hover:text-blue-600 disabled:opacity-50"
+                  title="Retry delivery"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default NotificationDeliveryHistory
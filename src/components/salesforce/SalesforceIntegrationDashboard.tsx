@@ -21,6 +21,8 @@ import type {
   SalesforceConnectionStatus,
   SalesforceSyncJob,
   SalesforceStartSyncRequest,
+  SalesforceSyncAction,
+  SalesforceSyncPreview,
   ApiResponse
 } from '@/types'
 
@@ -33,6 +35,16 @@ interface SyncJobWithStatus extends SalesforceSyncJob {
   isComplete?: boolean
 }
 
+const SYNC_RECORD_TYPES: NonNullable<SalesforceStartSyncRequest['recordTypes']> = ['documents', 'faqs']
+
+const SYNC_ACTION_STYLES: Record<SalesforceSyncAction, string> = {
+  create: 'text-green-600 dark:text-green-400',
+  update: 'text-blue-600 dark:text-blue-400',
+  archive: 'text-yellow-600 dark:text-yellow-400',
+  delete: 'text-red-600 dark:text-red-400',
+  unchanged: 'text-gray-500 dark:text-gray-400'
+}
+
 export default function SalesforceIntegrationDashboard({ 
   className = '' 
 }: SalesforceIntegrationDashboardProps): JSX.Element {
@@ -41,6 +53,8 @@ export default function SalesforceIntegrationDashboard({
   const [isConnecting, setIsConnecting] = useState(false)
   const [isDisconnecting, setIsDisconnecting] = useState(false)
   const [isSyncing, setIsSyncing] = useState(false)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [syncPreview, setSyncPreview] = useState<SalesforceSyncPreview | null>(null)
   const [isTestingConnection, setIsTestingConnection] = useState(false)
   const [currentSyncJob, setCurrentSyncJob] = useState<SyncJobWithStatus | null>(null)
   const [recentJobs, setRecentJobs] = useState<SyncJobWithStatus[]>([])
@@ -302,6 +316,38 @@ export default function SalesforceIntegrationDashboard({
     }
   }
 
+  /**
+   * Load the "what will sync" preview before pushing
+   */
+  const handlePreviewSync = async (syncType: 'full' | 'incremental'): Promise<void> => {
+    if (!sessionId) return
+
+    setIsPreviewing(true)
+
+    try {
+      const params = new URLSearchParams({
+        preview: 'true',
+        syncType,
+        recordTypes: SYNC_RECORD_TYPES.join(',')
+      })
+      const response = await fetch(`/api/salesforce/sync?${params}`, {
+        credentials: 'include'
+      })
+      const result: ApiResponse<SalesforceSyncPreview> = await response.json()
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to preview sync')
+      }
+
+      setSyncPreview(result.data)
+    } catch (error) {
+      console.error('Sync preview error:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to preview sync')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
   /**
    * Start sync operation
    */
@@ -309,11 +355,12 @@ export default function SalesforceIntegrationDashboard({
     if (!sessionId) return
 
     setIsSyncing(true)
+    setSyncPreview(null)
     
     try {
       const syncRequest: SalesforceStartSyncRequest = {
         syncType,
-        recordTypes: ['documents', 'faqs'],
+        recordTypes: SYNC_RECORD_TYPES,
         filters: {
           // Add any default filters here
         }
@@ -776,15 +823,15 @@ export default function SalesforceIntegrationDashboard({
                 <h3 className="text-lg font-medium text-gray-900 dark:text-white">Sync Operations</h3>
                 <div className="flex space-x-2">
                   <button
-                    onClick={() => handleStartSync('incremental')}
-                    disabled={isSyncing}
+                    onClick={() => handlePreviewSync('incremental')}
+                    disabled={isSyncing || isPreviewing}
                     className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-800 disabled:opacity-50"
                   >
-                    Incremental Sync
+                    {isPreviewing ? 'Checking...' : 'Incremental Sync'}
                   </button>
                   <button
-                    onClick={() => handleStartSync('full')}
-                    disabled={isSyncing}
+                    onClick={() => handlePreviewSync('full')}
+                    disabled={isSyncing || isPreviewing}
                     className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 dark:focus:ring-offset-gray-800 disabled:opacity-50"
                   >
                     {isSyncing ? 'Syncing...' : 'Full Sync'}
@@ -792,6 +839,62 @@ export default function SalesforceIntegrationDashboard({
                 </div>
               </div>
 
+              {/* Sync Preview */}
+              {syncPreview && (
+                <div className="mb-4 p-3 border border-gray-200 dark:border-gray-700 rounded-md">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      What will sync ({syncPreview.syncType})
+                    </p>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setSyncPreview(null)}
+                        className="px-3 py-1 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleStartSync(syncPreview.syncType)}
+                        disabled={isSyncing || syncPreview.totals.unchanged === Object.values(syncPreview.totals).reduce((sum, count) => sum + count, 0)}
+                        className="px-3 py-1 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Push changes
+                      </button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-5 gap-2 text-center text-xs mb-3">
+                    {(Object.keys(syncPreview.totals) as SalesforceSyncAction[]).map(action => (
+                      <div key={action}>
+                        <p className={`text-lg font-semibold ${SYNC_ACTION_STYLES[action]}`}>{syncPreview.totals[action]}</p>
+                        <p className="text-gray-500 dark:text-gray-400 capitalize">{action}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {syncPreview.items.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Everything is up to date</p>
+                  ) : (
+                    <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                      {syncPreview.items.map(item => (
+                        <li key={`${item.recordType}-${item.localId}`} className="py-1 flex items-center justify-between gap-3">
+                          <span className="truncate text-gray-700 dark:text-gray-300">
+                            <span className="text-xs uppercase text-gray-400 mr-2">{item.recordType}</span>
+                            {item.label}
+                          </span>
+                          <span className={`flex-shrink-0 text-xs ${SYNC_ACTION_STYLES[item.action]}`} title={item.lastError || undefined}>
+                            {item.action} · {item.reason}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {syncPreview.truncated && (
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                      Showing the first {syncPreview.items.length} changes
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Current Sync Job */}
               {currentSyncJob && (
                 <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md">
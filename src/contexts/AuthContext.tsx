@@ -0,0 +1,103 @@
+/**
+ * Auth Context Provider
+ * Loads the signed-in user and sends signed-out visitors to the login page
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import { useRouter } from 'next/router'
+import { UserRole, type AuthUser } from '@/types'
+
+/** Pages that can be viewed without a session */
+const PUBLIC_PATHS = ['/login']
+
+interface AuthContextType {
+  user: AuthUser | null
+  isLoading: boolean
+  hasRole: (...roles: UserRole[]) => boolean
+  signOut: () => Promise<void>
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined)
+
+interface AuthProviderProps {
+  children: React.ReactNode
+}
+
+/**
+ * AuthProvider component that resolves the session on load
+ */
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const router = useRouter()
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const isPublicPage = PUBLIC_PATHS.includes(router.pathname)
+
+  useEffect(() => {
+    if (!router.isReady) return
+
+    let cancelled = false
+
+    const loadSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session')
+        const result = await response.json()
+        if (cancelled) return
+
+        if (response.ok && result.success) {
+          setUser(result.data)
+        } else {
+          setUser(null)
+          if (response.status === 401 && !isPublicPage) {
+            router.replace(`/login?returnTo=${encodeURIComponent(router.asPath)}`)
+          }
+        }
+      } catch (error) {
+        console.error('Failed to load session:', error)
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadSession()
+
+    return () => {
+      cancelled = true
+    }
+  }, [router.isReady, isPublicPage]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const hasRole = useCallback((...roles: UserRole[]) => {
+    if (!user) return false
+    return user.role === UserRole.ADMIN || roles.includes(user.role as UserRole)
+  }, [user])
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' })
+    setUser(null)
+    router.replace('/login')
+  }, [router])
+
+  const value: AuthContextType = {
+    user,
+    isLoading,
+    hasRole,
+    signOut
+  }
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+/**
+ * Hook to use auth context
+ */
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext)
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider')
+  }
+  return context
+}
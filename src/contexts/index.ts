@@ -4,4 +4,5 @@
  */
 
 export { ThemeProvider, useTheme } from './ThemeContext'
+export { AuthProvider, useAuth } from './AuthContext'
 export type { Theme } from './ThemeContext' 
\ No newline at end of file
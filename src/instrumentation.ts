@@ -0,0 +1,62 @@
+/**
+ * Next.js instrumentation hook
+ * Starts long-running in-process services once per server instance
+ */
+
+export async function register(): Promise<void> {
+  // Only start services in the Node.js server runtime (not edge or the browser)
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  if (process.env.AUTOMATION_SCHEDULER_ENABLED !== 'false') {
+    const { automationSchedulerService } = await import('@/lib/automationScheduler')
+    const intervalMs = parseInt(process.env.AUTOMATION_SCHEDULER_INTERVAL_MS || '60000')
+
+    automationSchedulerService.start(intervalMs).catch((error) => {
+      console.error('❌ Failed to start automation scheduler:', error)
+    })
+  }
+
+  if (process.env.SLACK_EVENT_RETRY_ENABLED !== 'false') {
+    const { eventRetryWorkerService } = await import('@/lib/eventRetryWorker')
+    const intervalMs = parseInt(process.env.SLACK_EVENT_RETRY_INTERVAL_MS || '30000')
+
+    eventRetryWorkerService.start(intervalMs)
+  }
+
+  if (process.env.NOTIFICATION_STUCK_JOB_CHECK_ENABLED !== 'false') {
+    const { notificationDispatcherService } = await import('@/lib/notificationDispatcher')
+    const intervalMs = parseInt(process.env.NOTIFICATION_STUCK_JOB_CHECK_INTERVAL_MS || '300000')
+
+    notificationDispatcherService.start(intervalMs)
+  }
+
+  if (process.env.CHANNEL_PULL_RESUME_ENABLED !== 'false' && process.env.SLACK_BOT_TOKEN) {
+    const { channelPullWorkerService } = await import('@/lib/channelPullWorker')
+    const intervalMs = parseInt(process.env.CHANNEL_PULL_RESUME_INTERVAL_MS || '60000')
+
+    channelPullWorkerService.start(intervalMs)
+  }
+
+  if (process.env.BACKLOG_RESUME_ENABLED !== 'false') {
+    const { backlogProcessorService } = await import('@/lib/backlogProcessor')
+    const intervalMs = parseInt(process.env.BACKLOG_RESUME_INTERVAL_MS || '60000')
+
+    backlogProcessorService.start(intervalMs)
+  }
+
+  if (process.env.CHANNEL_SYNC_ENABLED !== 'false' && process.env.SLACK_BOT_TOKEN) {
+    const { channelSyncService } = await import('@/lib/channelSync')
+    const intervalMs = parseInt(process.env.CHANNEL_SYNC_INTERVAL_MS || '300000')
+
+    channelSyncService.start(intervalMs)
+  }
+
+  if (process.env.MESSAGE_EMBEDDING_ENABLED !== 'false') {
+    const { messageEmbeddingService } = await import('@/lib/messageEmbeddings')
+    const intervalMs = parseInt(process.env.MESSAGE_EMBEDDING_INTERVAL_MS || '60000')
+
+    messageEmbeddingService.start(intervalMs)
+  }
+}
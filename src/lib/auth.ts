@@ -0,0 +1,417 @@
+/**
+ * Dashboard Authentication Service
+ * Signs users in with Slack (OpenID Connect), keeps database-backed sessions
+ * and enforces roles on API routes through withAuth
+ */
+
+import crypto from 'crypto'
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from './logger'
+import { db } from './db'
+import { AuthError, UserRole, ValidationError, type AuthUser } from '@/types'
+import type { User } from '@prisma/client'
+
+export const SESSION_COOKIE = 'listen_bot_session'
+const STATE_COOKIE = 'listen_bot_auth_state'
+const STATE_TTL_SECONDS = 10 * 60
+const SESSION_TTL_MS = parseInt(process.env.AUTH_SESSION_TTL_HOURS || '168') * 60 * 60 * 1000
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000
+
+const SLACK_AUTHORIZE_URL = 'https://slack.com/openid/connect/authorize'
+const SLACK_API_URL = 'https://slack.com/api'
+
+/**
+ * Identity passed to authenticated route handlers
+ */
+export interface AuthContext {
+  user: AuthUser
+}
+
+export type AuthenticatedApiHandler<T = any> = (
+  req: NextApiRequest,
+  res: NextApiResponse<T>,
+  context: AuthContext
+) => unknown | Promise<unknown>
+
+/**
+ * Roles a route accepts - admins are always allowed
+ * `read` covers GET and HEAD, `write` every other method; `roles` is the default for both.
+ * When nothing applies any signed-in user is allowed.
+ */
+export interface RouteAccess {
+  roles?: UserRole[]
+  read?: UserRole[]
+  write?: UserRole[]
+}
+
+/**
+ * Sign-in state kept in a short-lived cookie between the redirect to Slack and the callback
+ */
+interface SignInState {
+  state: string
+  nonce: string
+  returnTo: string
+}
+
+/**
+ * Claims of the Slack OpenID ID token
+ */
+interface SlackIdTokenClaims {
+  aud: string
+  nonce?: string
+  email?: string
+  name?: string
+  picture?: string
+  'https://slack.com/user_id': string
+  'https://slack.com/team_id': string
+}
+
+/**
+ * Authentication service class
+ */
+class AuthService {
+  /**
+   * Whether Slack sign-in is configured
+   */
+  isConfigured(): boolean {
+    return !!(process.env.SLACK_CLIENT_ID && process.env.SLACK_CLIENT_SECRET && process.env.SLACK_AUTH_REDIRECT_URI)
+  }
+
+  /**
+   * Start a sign-in: store the state cookie and return the Slack authorization URL
+   *
+   * @param returnTo - Dashboard path to open after signing in
+   */
+  beginSignIn(res: NextApiResponse, returnTo?: string): string {
+    if (!this.isConfigured()) {
+      throw new AuthError('Slack sign-in is not configured')
+    }
+
+    const signIn: SignInState = {
+      state: crypto.randomBytes(16).toString('hex'),
+      nonce: crypto.randomBytes(16).toString('hex'),
+      // Only allow local paths so the callback cannot redirect off-site
+      returnTo: returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/'
+    }
+
+    res.setHeader('Set-Cookie', serializeCookie(
+      STATE_COOKIE,
+      Buffer.from(JSON.stringify(signIn)).toString('base64url'),
+      STATE_TTL_SECONDS
+    ))
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      scope: 'openid profile email',
+      client_id: process.env.SLACK_CLIENT_ID!,
+      redirect_uri: process.env.SLACK_AUTH_REDIRECT_URI!,
+      state: signIn.state,
+      nonce: signIn.nonce
+    })
+    if (process.env.SLACK_TEAM_ID) {
+      params.set('team', process.env.SLACK_TEAM_ID)
+    }
+
+    return `${SLACK_AUTHORIZE_URL}?${params}`
+  }
+
+  /**
+   * Finish a sign-in from the Slack callback and create a session
+   *
+   * @returns Path to redirect to
+   */
+  async completeSignIn(req: NextApiRequest, res: NextApiResponse): Promise<string> {
+    const { code, state, error } = req.query
+    const signIn = this.readSignInState(req)
+
+    if (error) {
+      throw new AuthError(`Slack sign-in was cancelled: ${error}`)
+    }
+    if (!signIn || typeof state !== 'string' || state !== signIn.state) {
+      throw new AuthError('Sign-in state is missing or does not match')
+    }
+    if (typeof code !== 'string') {
+      throw new AuthError('Missing authorization code')
+    }
+
+    const claims = await this.exchangeCode(code)
+
+    if (claims.aud !== process.env.SLACK_CLIENT_ID || claims.nonce !== signIn.nonce) {
+      throw new AuthError('Slack ID token is not valid for this sign-in')
+    }
+    if (process.env.SLACK_TEAM_ID && claims['https://slack.com/team_id'] !== process.env.SLACK_TEAM_ID) {
+      throw new AuthError('Sign in with the configured Slack workspace', 403)
+    }
+
+    const user = await this.upsertUser(claims)
+    const token = await this.createSession(user.id, req)
+
+    res.setHeader('Set-Cookie', [
+      serializeCookie(SESSION_COOKIE, token, SESSION_TTL_MS / 1000),
+      serializeCookie(STATE_COOKIE, '', 0)
+    ])
+
+    logger.info('User signed in', { userId: user.id, slackUserId: user.slackUserId, role: user.role })
+
+    void this.cleanupExpiredSessions()
+      .catch(error => logger.warn('Failed to clean up expired sessions', { error }))
+
+    return signIn.returnTo
+  }
+
+  /**
+   * Resolve the signed-in user from the session cookie
+   *
+   * @throws AuthError when there is no valid session
+   */
+  async authenticate(req: Pick<NextApiRequest, 'cookies'>): Promise<AuthUser> {
+    const token = req.cookies[SESSION_COOKIE]
+    if (!token) {
+      throw new AuthError('Sign in required')
+    }
+
+    const session = await db.authSession.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: true }
+    })
+
+    if (!session) {
+      throw new AuthError('Session is invalid or has been signed out')
+    }
+
+    if (session.expiresAt < new Date()) {
+      await db.authSession.delete({ where: { id: session.id } }).catch(() => undefined)
+      throw new AuthError('Session has expired')
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+      void db.authSession.update({ where: { id: session.id }, data: { lastSeenAt: new Date() } })
+        .catch(error => logger.warn('Failed to update session activity', { error }))
+    }
+
+    return toAuthUser(session.user)
+  }
+
+  /**
+   * End the current session and clear its cookie
+   */
+  async signOut(req: NextApiRequest, res: NextApiResponse): Promise<void> {
+    const token = req.cookies[SESSION_COOKIE]
+    if (token) {
+      await db.authSession.deleteMany({ where: { tokenHash: hashToken(token) } })
+    }
+
+    res.setHeader('Set-Cookie', serializeCookie(SESSION_COOKIE, '', 0))
+  }
+
+  /**
+   * List dashboard users, most recently active first
+   */
+  async listUsers(): Promise<Array<AuthUser & { lastLoginAt: Date | null }>> {
+    const users = await db.user.findMany({ orderBy: [{ lastLoginAt: 'desc' }, { createdAt: 'desc' }] })
+    return users.map(user => ({ ...toAuthUser(user), lastLoginAt: user.lastLoginAt }))
+  }
+
+  /**
+   * Change a user's role
+   * Admins cannot change their own role, so there is always an admin left to undo mistakes
+   */
+  async updateRole(userId: string, role: string, actor: AuthUser): Promise<AuthUser> {
+    if (!Object.values(UserRole).includes(role as UserRole)) {
+      throw new ValidationError(`Invalid role. Use: ${Object.values(UserRole).join(', ')}`, 'role')
+    }
+    if (userId === actor.id) {
+      throw new ValidationError('You cannot change your own role', 'id')
+    }
+
+    // Roles are read on every request, so the change applies to existing sessions immediately
+    const user = await db.user.update({
+      where: { id: userId },
+      data: { role: role as UserRole }
+    })
+
+    logger.info('User role changed', { userId, role, changedBy: actor.id })
+    return toAuthUser(user)
+  }
+
+  /**
+   * Remove expired sessions
+   */
+  async cleanupExpiredSessions(): Promise<number> {
+    const result = await db.authSession.deleteMany({ where: { expiresAt: { lt: new Date() } } })
+    return result.count
+  }
+
+  /**
+   * Exchange the authorization code for an ID token and return its claims
+   * The token comes straight from Slack over TLS, so its signature is not re-verified
+   */
+  private async exchangeCode(code: string): Promise<SlackIdTokenClaims> {
+    const response = await fetch(`${SLACK_API_URL}/openid.connect.token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: process.env.SLACK_CLIENT_ID!,
+        client_secret: process.env.SLACK_CLIENT_SECRET!,
+        code,
+        redirect_uri: process.env.SLACK_AUTH_REDIRECT_URI!
+      })
+    })
+
+    const data = await response.json() as { ok: boolean; error?: string; id_token?: string }
+    if (!data.ok || !data.id_token) {
+      throw new AuthError(`Slack sign-in failed: ${data.error || 'no ID token returned'}`)
+    }
+
+    const [, payload] = data.id_token.split('.')
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as SlackIdTokenClaims
+  }
+
+  /**
+   * Create or refresh the user for a Slack identity
+   * New users get AUTH_DEFAULT_ROLE; users listed in AUTH_ADMIN_SLACK_USER_IDS are always admins
+   */
+  private async upsertUser(claims: SlackIdTokenClaims): Promise<User> {
+    const slackUserId = claims['https://slack.com/user_id']
+    const admins = (process.env.AUTH_ADMIN_SLACK_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean)
+    const isAdmin = admins.includes(slackUserId)
+    const defaultRole = Object.values(UserRole).includes(process.env.AUTH_DEFAULT_ROLE as UserRole)
+      ? process.env.AUTH_DEFAULT_ROLE as UserRole
+      : UserRole.VIEWER
+
+    const profile = {
+      slackTeamId: claims['https://slack.com/team_id'],
+      email: claims.email || null,
+      name: claims.name || claims.email || slackUserId,
+      avatarUrl: claims.picture || null,
+      lastLoginAt: new Date()
+    }
+
+    return db.user.upsert({
+      where: { slackUserId },
+      update: { ...profile, ...(isAdmin ? { role: UserRole.ADMIN } : {}) },
+      create: { slackUserId, ...profile, role: isAdmin ? UserRole.ADMIN : defaultRole }
+    })
+  }
+
+  /**
+   * Create a session and return its cookie token
+   */
+  private async createSession(userId: string, req: NextApiRequest): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url')
+    const forwardedFor = req.headers['x-forwarded-for']
+
+    await db.authSession.create({
+      data: {
+        tokenHash: hashToken(token),
+        userId,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+        ipAddress: (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor?.split(',')[0])?.trim()
+          || req.socket?.remoteAddress
+          || null,
+        userAgent: req.headers['user-agent'] || null
+      }
+    })
+
+    return token
+  }
+
+  private readSignInState(req: NextApiRequest): SignInState | null {
+    const value = req.cookies[STATE_COOKIE]
+    if (!value) return null
+
+    try {
+      return JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as SignInState
+    } catch {
+      return null
+    }
+  }
+}
+
+/**
+ * Dashboard user for a Slack user ID, used to authorize slash commands and shortcuts
+ *
+ * @returns The user, or null when they have never signed in to the dashboard
+ */
+export async function findUserBySlackId(slackUserId: string): Promise<AuthUser | null> {
+  const user = await db.user.findUnique({ where: { slackUserId } })
+  return user ? toAuthUser(user) : null
+}
+
+/**
+ * Whether a user may act with one of the given roles - admins always can
+ */
+export function hasRole(user: AuthUser, roles: UserRole[] | undefined): boolean {
+  if (!roles || roles.length === 0 || user.role === UserRole.ADMIN) {
+    return true
+  }
+
+  return roles.includes(user.role as UserRole)
+}
+
+/**
+ * Name recorded in approvedBy, reviewedBy, addedBy and createdBy fields
+ */
+export function getUserLabel(user: AuthUser): string {
+  return user.email || user.name
+}
+
+/**
+ * Require a signed-in user with an allowed role before running an API route
+ * Responds 401 without a valid session and 403 when the role is not allowed
+ *
+ * @param handler - Route handler; receives the signed-in user as its third argument
+ * @param access - Roles allowed to read and write
+ */
+export function withAuth<T = any>(handler: AuthenticatedApiHandler<T>, access: RouteAccess = {}) {
+  return async (req: NextApiRequest, res: NextApiResponse<T>) => {
+    let user: AuthUser
+
+    try {
+      user = await authService.authenticate(req)
+
+      const isRead = req.method === 'GET' || req.method === 'HEAD'
+      const roles = (isRead ? access.read : access.write) ?? access.roles
+
+      if (!hasRole(user, roles)) {
+        throw new AuthError(`This action requires one of these roles: ${roles!.join(', ')}`, 403)
+      }
+    } catch (error) {
+      const statusCode = error instanceof AuthError ? error.statusCode : 500
+      if (statusCode === 500) {
+        logger.error('Authentication failed', { error })
+      }
+
+      return (res as NextApiResponse).status(statusCode).json({
+        success: false,
+        error: error instanceof AuthError ? error.message : 'Internal server error'
+      })
+    }
+
+    return handler(req, res, { user })
+  }
+}
+
+function toAuthUser(user: User): AuthUser {
+  return {
+    id: user.id,
+    slackUserId: user.slackUserId,
+    slackTeamId: user.slackTeamId,
+    email: user.email,
+    name: user.name,
+    avatarUrl: user.avatarUrl,
+    role: user.role
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function serializeCookie(name: string, value: string, maxAgeSeconds: number): string {
+  return `${name}=${value}; HttpOnly; Path=/; Max-Age=${Math.floor(maxAgeSeconds)}; SameSite=Lax${process.env.NODE_ENV === 'production' ? '; Secure' : ''}`
+}
+
+// Export singleton instance
+export const authService = new AuthService()
+export default authService
@@ -0,0 +1,615 @@
+/**
+ * Automation Scheduler Service
+ * Durable in-process scheduler that executes enabled AutomationRule records when they come due
+ * Uses database leases so that only one instance runs a rule at a time and interrupted runs recover
+ */
+
+import os from 'os'
+import crypto from 'crypto'
+import { logger } from './logger'
+import { db } from './db'
+import { documentProcessorService } from './documentProcessor'
+import { faqGeneratorService } from './faqGenerator'
+import { notificationDispatcherService } from './notificationDispatcher'
+import { frequencyScheduleToCron, getNextCronRun, isValidCronExpression } from './cronSchedule'
+import { NotificationEvent } from '@/types'
+import type { AutomationRule } from '@prisma/client'
+
+// Configuration constants
+const DEFAULT_TICK_INTERVAL_MS = 60 * 1000
+const RULE_LEASE_MS = 30 * 60 * 1000
+/** Running rules extend their lease this often, so long runs are not taken for interrupted ones */
+const LEASE_RENEW_INTERVAL_MS = 5 * 60 * 1000
+const BATCH_DELAY_MS = 500
+
+/**
+ * Outcome of a single scheduled rule execution
+ */
+interface RuleExecutionResult {
+  documentsCreated: number
+  documentsProcessed: number
+  faqsGenerated: number
+  messagesProcessed: number
+  errors: string[]
+}
+
+/**
+ * Automation scheduler service class
+ */
+class AutomationSchedulerService {
+  private readonly instanceId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`
+  private timer: NodeJS.Timeout | null = null
+  private ticking = false
+  private started = false
+
+  /**
+   * Start the scheduler loop
+   * Schedules rules missing a next run time, then runs anything that came due while the app was down
+   */
+  async start(intervalMs: number = DEFAULT_TICK_INTERVAL_MS): Promise<void> {
+    if (this.started) return
+    this.started = true
+
+    try {
+      await this.initializeNextRuns()
+    } catch (error) {
+      logger.error('Failed to initialize automation rule schedules:', error)
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Automation scheduler tick failed:', error))
+    }, intervalMs)
+
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref?.()
+
+    logger.info(`Automation scheduler started (instance ${this.instanceId}, interval ${intervalMs}ms)`)
+
+    // Run anything that came due while the app was down
+    await this.tick()
+  }
+
+  /**
+   * Stop the scheduler loop
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.started = false
+    logger.info('Automation scheduler stopped')
+  }
+
+  /**
+   * Run all rules that are currently due
+   * Safe to call concurrently from several instances - each rule is claimed with a lease first
+   */
+  async tick(): Promise<number> {
+    if (this.ticking) return 0
+    this.ticking = true
+
+    try {
+      if (!(await this.isScheduledProcessingEnabled())) {
+        return 0
+      }
+
+      await this.recoverInterruptedRuns()
+
+      const now = new Date()
+      const dueRules = await db.automationRule.findMany({
+        where: {
+          enabled: true,
+          nextRun: { lte: now },
+          OR: [
+            { lockedUntil: null },
+            { lockedUntil: { lt: now } }
+          ]
+        },
+        orderBy: { nextRun: 'asc' }
+      })
+
+      let executed = 0
+
+      for (const rule of dueRules) {
+        const claimed = await this.claimRule(rule.id)
+        if (!claimed) {
+          logger.debug(`Automation rule ${rule.id} already claimed by another instance`)
+          continue
+        }
+
+        await this.executeRule(rule)
+        executed++
+      }
+
+      return executed
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  /**
+   * Resolve the cron expression for a rule
+   * The dashboard's frequency schedule in jobConfig wins over the schedule column when present
+   */
+  resolveCronExpression(rule: Pick<AutomationRule, 'schedule' | 'jobConfig'>): string | null {
+    const jobConfig = (rule.jobConfig as any) || {}
+    const frequencySchedule = jobConfig.schedule || jobConfig.trigger?.schedule
+    if (frequencySchedule && typeof frequencySchedule === 'object') {
+      return frequencyScheduleToCron(frequencySchedule)
+    }
+
+    if (rule.schedule && isValidCronExpression(rule.schedule)) {
+      return rule.schedule
+    }
+
+    if (typeof jobConfig.trigger?.schedule === 'string' && isValidCronExpression(jobConfig.trigger.schedule)) {
+      return jobConfig.trigger.schedule
+    }
+
+    return null
+  }
+
+  /**
+   * Recalculate and persist the schedule and next run time of a rule
+   * Call after a rule's schedule or enabled flag changes
+   */
+  async rescheduleRule(ruleId: string): Promise<Date | null> {
+    const rule = await db.automationRule.findUnique({ where: { id: ruleId } })
+    if (!rule) return null
+
+    const cronExpression = this.resolveCronExpression(rule)
+    const nextRun = rule.enabled && cronExpression ? getNextCronRun(cronExpression) : null
+
+    await db.automationRule.update({
+      where: { id: ruleId },
+      data: {
+        schedule: cronExpression,
+        nextRun
+      }
+    })
+
+    logger.info(`Rescheduled automation rule ${ruleId}: ${cronExpression || 'manual'} (next run: ${nextRun?.toISOString() || 'none'})`)
+    return nextRun
+  }
+
+  /**
+   * Claim a rule with a lease so no other instance runs it concurrently
+   */
+  private async claimRule(ruleId: string): Promise<boolean> {
+    const now = new Date()
+    const claimed = await db.automationRule.updateMany({
+      where: {
+        id: ruleId,
+        enabled: true,
+        nextRun: { lte: now },
+        OR: [
+          { lockedUntil: null },
+          { lockedUntil: { lt: now } }
+        ]
+      },
+      data: {
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + RULE_LEASE_MS)
+      }
+    })
+
+    return claimed.count === 1
+  }
+
+  /**
+   * Execute a claimed rule, record an AutomationJob and advance its schedule
+   */
+  private async executeRule(rule: AutomationRule): Promise<void> {
+    const startTime = Date.now()
+    const jobType = rule.jobType || 'DOCUMENT_CREATION'
+    const parameters = ((rule.jobConfig as any)?.parameters || {}) as Record<string, any>
+
+    logger.info(`Executing scheduled automation rule ${rule.id} (${jobType})`)
+
+    const job = await db.automationJob.create({
+      data: {
+        automationRuleId: rule.id,
+        jobType,
+        status: 'PROCESSING',
+        inputData: {
+          trigger: 'schedule',
+          scheduledFor: rule.nextRun?.toISOString() || null,
+          instanceId: this.instanceId,
+          parameters
+        },
+        progress: 0,
+        startedAt: new Date()
+      }
+    })
+
+    const notification = { source: 'automation' as const, jobId: job.id, jobType, startedAt: job.startedAt }
+    void notificationDispatcherService.notifyJobEvent({ ...notification, event: NotificationEvent.JOB_STARTED })
+
+    const leaseRenewal = setInterval(() => {
+      this.renewLease(rule.id)
+        .catch(error => logger.warn(`Failed to renew lease on automation rule ${rule.id}:`, error))
+    }, LEASE_RENEW_INTERVAL_MS)
+    leaseRenewal.unref?.()
+
+    let succeeded = false
+
+    try {
+      let result: RuleExecutionResult
+
+      switch (jobType) {
+        case 'DOCUMENT_CREATION':
+          result = await this.runDocumentCreation(job.id, parameters)
+          break
+        case 'FAQ_GENERATION':
+          result = await this.runFAQGeneration(job.id, parameters)
+          break
+        default:
+          throw new Error(`Scheduled execution is not supported for job type ${jobType}`)
+      }
+
+      await db.automationJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'COMPLETE',
+          progress: 1.0,
+          completedAt: new Date(),
+          outputData: result as any,
+          errorMessage: result.errors.length > 0 ? result.errors.join('; ') : null
+        }
+      })
+
+      succeeded = true
+      logger.info(`Scheduled automation rule ${rule.id} completed in ${Date.now() - startTime}ms`)
+
+      void notificationDispatcherService.notifyJobEvent({
+        ...notification,
+        event: NotificationEvent.JOB_COMPLETED,
+        details: { ruleId: rule.id, ...result }
+      })
+
+    } catch (error) {
+      logger.error(`Scheduled automation rule ${rule.id} failed:`, error)
+
+      await db.automationJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'FAILED',
+          completedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        }
+      })
+
+      void notificationDispatcherService.notifyJobEvent({
+        ...notification,
+        event: NotificationEvent.JOB_FAILED,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        details: { ruleId: rule.id }
+      })
+    } finally {
+      clearInterval(leaseRenewal)
+      await this.completeRuleRun(rule, succeeded, Date.now() - startTime)
+    }
+  }
+
+  /**
+   * Extend the lease on a rule this instance is still running
+   */
+  private async renewLease(ruleId: string): Promise<void> {
+    await db.automationRule.updateMany({
+      where: { id: ruleId, lockedBy: this.instanceId },
+      data: { lockedUntil: new Date(Date.now() + RULE_LEASE_MS) }
+    })
+  }
+
+  /**
+   * Release the lease, advance nextRun and update run statistics
+   * The rule is re-read under a row lock, so schedule, config and enabled changes saved
+   * while it ran are kept and only the stats are merged in
+   */
+  private async completeRuleRun(rule: AutomationRule, succeeded: boolean, executionTime: number): Promise<void> {
+    try {
+      await db.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT 1 FROM "automation_rules" WHERE "id" = ${rule.id} FOR UPDATE`
+        const current = await tx.automationRule.findUnique({ where: { id: rule.id } })
+        if (!current) return
+
+        const cronExpression = this.resolveCronExpression(current)
+        const nextRun = current.enabled && cronExpression ? getNextCronRun(cronExpression) : null
+
+        const currentStats = (current.jobConfig as any)?.stats || { successCount: 0, avgExecutionTime: 0, failureCount: 0 }
+        const stats = succeeded
+          ? {
+              ...currentStats,
+              successCount: (currentStats.successCount || 0) + 1,
+              avgExecutionTime: Math.round(
+                ((currentStats.avgExecutionTime || 0) * current.runCount + executionTime) / (current.runCount + 1)
+              )
+            }
+          : {
+              ...currentStats,
+              failureCount: (currentStats.failureCount || 0) + 1
+            }
+
+        await tx.automationRule.update({
+          where: { id: rule.id },
+          data: {
+            lastRun: new Date(),
+            nextRun,
+            runCount: { increment: 1 },
+            lockedBy: null,
+            lockedUntil: null,
+            jobConfig: {
+              ...((current.jobConfig as any) || {}),
+              stats
+            }
+          }
+        })
+      })
+    } catch (error) {
+      logger.error(`Failed to update automation rule ${rule.id} after run:`, error)
+    }
+  }
+
+  /**
+   * Create documents from unprocessed messages
+   */
+  private async runDocumentCreation(
+    jobId: string,
+    parameters: Record<string, any>,
+    progressRange: [number, number] = [0, 1]
+  ): Promise<RuleExecutionResult> {
+    const batchSize = Math.max(1, parameters.batchSize || parameters.messageBatchSize || 25)
+    const maxMessages = Math.max(batchSize, parameters.maxUnprocessedMessages || batchSize * 4)
+    const minMessagesRequired = parameters.minMessagesRequired || 1
+    const channelFilters: string[] = Array.isArray(parameters.channelFilters) ? parameters.channelFilters : []
+
+    const result: RuleExecutionResult = {
+      documentsCreated: 0,
+      documentsProcessed: 0,
+      faqsGenerated: 0,
+      messagesProcessed: 0,
+      errors: []
+    }
+
+    const unprocessedMessages = await db.message.findMany({
+      where: {
+        documentMessages: { none: {} },
+        deletedAt: null,
+        ...(channelFilters.length > 0 && { channel: { in: channelFilters } }),
+        ...(parameters.excludeThreads && { isThreadReply: false })
+      },
+      orderBy: { timestamp: 'asc' },
+      take: maxMessages,
+      select: { id: true }
+    })
+
+    if (unprocessedMessages.length < minMessagesRequired) {
+      logger.info(`Skipping document creation: ${unprocessedMessages.length} unprocessed messages, ${minMessagesRequired} required`)
+      return result
+    }
+
+    const batches: string[][] = []
+    for (let i = 0; i < unprocessedMessages.length; i += batchSize) {
+      const batch = unprocessedMessages.slice(i, i + batchSize).map(m => m.id)
+      if (batch.length >= minMessagesRequired) {
+        batches.push(batch)
+      }
+    }
+
+    for (let index = 0; index < batches.length; index++) {
+      try {
+        await documentProcessorService.processDocument({
+          messageIds: batches[index],
+          userId: 'automation-system'
+        })
+        result.documentsCreated++
+        result.messagesProcessed += batches[index].length
+      } catch (error) {
+        result.errors.push(`Batch ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+
+      await this.updateProgress(jobId, progressRange, (index + 1) / batches.length)
+
+      if (index < batches.length - 1) {
+        await new Promise(resolve => setTimeout(resolve, BATCH_DELAY_MS))
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Generate FAQs from completed documents, optionally processing new messages first
+   */
+  private async runFAQGeneration(jobId: string, parameters: Record<string, any>): Promise<RuleExecutionResult> {
+    const maxDocuments = Math.min(parameters.maxFAQsPerRun || 10, parameters.maxDocumentsPerRun || 50)
+    const minDocumentsRequired = parameters.minDocumentsRequired || 0
+
+    let result: RuleExecutionResult = {
+      documentsCreated: 0,
+      documentsProcessed: 0,
+      faqsGenerated: 0,
+      messagesProcessed: 0,
+      errors: []
+    }
+
+    // Step 1: Turn unprocessed messages into documents
+    if (parameters.messageProcessingEnabled !== false) {
+      result = await this.runDocumentCreation(jobId, {
+        batchSize: parameters.messageBatchSize || 10,
+        maxUnprocessedMessages: parameters.maxUnprocessedMessages || 50
+      }, [0, 0.5])
+    }
+
+    if (parameters.faqGenerationEnabled === false) {
+      return result
+    }
+
+    // Step 2: Generate FAQs for documents that don't have any yet
+    const eligibleDocuments = await db.processedDocument.findMany({
+      where: {
+        status: 'COMPLETE',
+        documentFAQs: { none: {} }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: maxDocuments,
+      select: { id: true, category: true }
+    })
+
+    if (eligibleDocuments.length < minDocumentsRequired) {
+      logger.info(`Skipping FAQ generation: ${eligibleDocuments.length} eligible documents, ${minDocumentsRequired} required`)
+      return result
+    }
+
+    for (let index = 0; index < eligibleDocuments.length; index++) {
+      const document = eligibleDocuments[index]
+
+      try {
+        const generation = await faqGeneratorService.generateFAQsFromDocument({
+          documentId: document.id,
+          categoryOverride: document.category,
+          userId: 'automation-system'
+        })
+
+        if (generation.success) {
+          result.documentsProcessed++
+          result.faqsGenerated += generation.stats.newFAQsCreated
+        } else {
+          result.errors.push(`Document ${document.id}: ${generation.error}`)
+        }
+      } catch (error) {
+        result.errors.push(`Document ${document.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+
+      await this.updateProgress(jobId, [0.5, 1], (index + 1) / eligibleDocuments.length)
+
+      if (index < eligibleDocuments.length - 1) {
+        await new Promise(resolve => setTimeout(resolve, BATCH_DELAY_MS))
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Update job progress within a sub-range of the overall job
+   */
+  private async updateProgress(jobId: string, range: [number, number], fraction: number): Promise<void> {
+    const progress = range[0] + (range[1] - range[0]) * Math.min(1, fraction)
+
+    try {
+      await db.automationJob.update({
+        where: { id: jobId },
+        data: { progress }
+      })
+    } catch (error) {
+      logger.warn(`Failed to update progress for job ${jobId}:`, error)
+    }
+  }
+
+  /**
+   * Fail jobs whose rule lease expired mid-run (e.g. the instance crashed or was redeployed)
+   * The rule's nextRun was never advanced, so it will be picked up again on the next tick
+   */
+  private async recoverInterruptedRuns(): Promise<void> {
+    const now = new Date()
+    const expiredRules = await db.automationRule.findMany({
+      where: {
+        lockedUntil: { lt: now }
+      },
+      select: { id: true, lockedBy: true }
+    })
+
+    for (const rule of expiredRules) {
+      const interruptedJobs = await db.automationJob.findMany({
+        where: {
+          automationRuleId: rule.id,
+          status: 'PROCESSING',
+          inputData: { path: ['instanceId'], equals: rule.lockedBy ?? '' }
+        },
+        select: { id: true, jobType: true, startedAt: true }
+      })
+      const errorMessage = 'Interrupted before completion (instance stopped); the run will be retried'
+
+      const interrupted = await db.automationJob.updateMany({
+        where: {
+          id: { in: interruptedJobs.map(job => job.id) },
+          status: 'PROCESSING'
+        },
+        data: {
+          status: 'FAILED',
+          completedAt: now,
+          errorMessage
+        }
+      })
+
+      for (const job of interruptedJobs) {
+        void notificationDispatcherService.notifyJobEvent({
+          source: 'automation',
+          jobId: job.id,
+          jobType: job.jobType,
+          event: NotificationEvent.JOB_FAILED,
+          startedAt: job.startedAt,
+          errorMessage,
+          details: { ruleId: rule.id }
+        })
+      }
+
+      await db.automationRule.updateMany({
+        where: { id: rule.id, lockedUntil: { lt: now } },
+        data: { lockedBy: null, lockedUntil: null }
+      })
+
+      if (interrupted.count > 0) {
+        logger.warn(`Recovered ${interrupted.count} interrupted run(s) of automation rule ${rule.id}`)
+      }
+    }
+  }
+
+  /**
+   * Calculate nextRun for enabled, scheduled rules that don't have one yet
+   */
+  private async initializeNextRuns(): Promise<void> {
+    const unscheduledRules = await db.automationRule.findMany({
+      where: {
+        enabled: true,
+        nextRun: null
+      },
+      select: { id: true, schedule: true, jobConfig: true }
+    })
+
+    for (const rule of unscheduledRules) {
+      if (this.resolveCronExpression(rule)) {
+        await this.rescheduleRule(rule.id)
+      }
+    }
+  }
+
+  /**
+   * Check the global scheduled processing switch in ProcessingSettings
+   */
+  private async isScheduledProcessingEnabled(): Promise<boolean> {
+    try {
+      const settings = await db.processingSettings.findUnique({ where: { id: 'default' } })
+      return (settings?.settings as any)?.enableScheduledProcessing !== false
+    } catch (error) {
+      logger.warn('Failed to read processing settings, assuming scheduled processing is enabled:', error)
+      return true
+    }
+  }
+
+  /**
+   * Scheduler status for monitoring
+   */
+  getStatus(): { instanceId: string; running: boolean } {
+    return {
+      instanceId: this.instanceId,
+      running: this.started
+    }
+  }
+}
+
+// Export singleton instance
+export const automationSchedulerService = new AutomationSchedulerService()
+export default automationSchedulerService
@@ -9,7 +9,8 @@ import { logger } from './logger'
 import { documentProcessorService } from './documentProcessor'
 import { faqGeneratorService } from './faqGenerator'
 import { SlackChannelPuller } from './slackChannelPuller'
-import { DocumentProcessingInput, FAQGenerationInput } from '@/types'
+import { notificationDispatcherService, type RunningJob } from './notificationDispatcher'
+import { DocumentProcessingInput, FAQGenerationInput, NotificationEvent } from '@/types'
 
 // Job types
 export enum JobType {
@@ -191,6 +192,29 @@ class BackgroundJobService {
         logger.error(`FAQ job ${job.id} failed`, { error })
       })
 
+      // Job status notifications
+      for (const queue of [this.documentQueue, this.faqQueue, this.cleanupQueue]) {
+        queue.on('active', (job) => {
+          // Retries of a job that already started are not announced again
+          if (job.attemptsMade === 0) {
+            this.notifyJobEvent(job, NotificationEvent.JOB_STARTED)
+          }
+        })
+
+        queue.on('completed', (job) => {
+          this.notifyJobEvent(job, NotificationEvent.JOB_COMPLETED)
+        })
+
+        queue.on('failed', (job, error) => {
+          // Only the final attempt counts as a failure
+          if (job.attemptsMade >= (job.opts.attempts || 1)) {
+            this.notifyJobEvent(job, NotificationEvent.JOB_FAILED, error)
+          }
+        })
+      }
+
+      notificationDispatcherService.registerRunningJobSource('bull', () => this.getRunningJobs())
+
       this.initialized = true
       logger.info('Background job system initialized successfully')
 
@@ -399,6 +423,46 @@ class BackgroundJobService {
     }
   }
 
+  /**
+   * Send a job status notification for a queue job
+   * Document processing jobs are skipped - the document processor reports them through their AutomationJob
+   */
+  private notifyJobEvent(job: Queue.Job, event: NotificationEvent, error?: Error): void {
+    if (job.name === JobType.DOCUMENT_PROCESSING) return
+
+    void notificationDispatcherService.notifyJobEvent({
+      source: 'queue',
+      jobId: `${job.queue.name}:${job.id}`,
+      jobType: job.name,
+      event,
+      startedAt: job.processedOn ? new Date(job.processedOn) : null,
+      errorMessage: error?.message
+    })
+  }
+
+  /**
+   * Active queue jobs, for the stuck-job monitor
+   */
+  private async getRunningJobs(): Promise<RunningJob[]> {
+    const runningJobs: RunningJob[] = []
+
+    for (const queue of [this.documentQueue, this.faqQueue, this.cleanupQueue]) {
+      const activeJobs = await queue.getActive()
+      for (const job of activeJobs) {
+        if (job.name === JobType.DOCUMENT_PROCESSING) continue
+
+        runningJobs.push({
+          source: 'queue',
+          jobId: `${queue.name}:${job.id}`,
+          jobType: job.name,
+          startedAt: new Date(job.processedOn || job.timestamp)
+        })
+      }
+    }
+
+    return runningJobs
+  }
+
   /**
    * Clean up old failed jobs
    */
@@ -448,13 +512,13 @@ class BackgroundJobService {
   }
 
   /**
-   * Clean up old channel puller progress records
+   * Clean up old channel pull records
    */
   private async cleanupChannelPullerProgress(): Promise<number> {
     try {
-      SlackChannelPuller.cleanupOldProgress()
+      const cleaned = await SlackChannelPuller.cleanupOldPulls()
       logger.info('Channel puller progress cleanup completed')
-      return 1 // Return 1 to indicate cleanup was executed
+      return cleaned
     } catch (error) {
       logger.error('Failed to cleanup channel puller progress:', error)
       throw error
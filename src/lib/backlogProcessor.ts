@@ -0,0 +1,495 @@
+/**
+ * Backlog Processor Service
+ * Turns every unprocessed message into documents, however large the backlog
+ *
+ * A run walks unprocessed messages oldest first with a keyset cursor, segments each page
+ * into conversations and creates their documents a few at a time. The cursor and counters are
+ * checkpointed after every page, so runs interrupted by a restart are resumed where they stopped.
+ */
+
+import { db } from './db'
+import { logger } from './logger'
+import { conversationSegmenterService } from './conversationSegmenter'
+import { documentProcessorService } from './documentProcessor'
+import {
+  BacklogRunError,
+  ValidationError,
+  type BacklogEstimate,
+  type BacklogRunOptions,
+  type BacklogRunProgress,
+  type ConversationSegment
+} from '@/types'
+import type { BacklogRun, Prisma } from '@prisma/client'
+
+const DEFAULT_INTERVAL_MS = 60 * 1000
+/** Messages read per page */
+const PAGE_SIZE = parseInt(process.env.BACKLOG_PAGE_SIZE || '500')
+/** Documents created at the same time unless the run asks otherwise */
+const DEFAULT_CONCURRENCY = parseInt(process.env.BACKLOG_CONCURRENCY || '2')
+const MAX_CONCURRENCY = 5
+/** Running runs refresh their heartbeat this often */
+const HEARTBEAT_INTERVAL_MS = 30 * 1000
+/** Runs whose heartbeat is older than this are treated as interrupted */
+const STALE_AFTER_MS = parseInt(process.env.BACKLOG_STALE_AFTER_MS || '120000')
+/** Conversation analysis and document metadata */
+const LLM_CALLS_PER_DOCUMENT = 2
+
+const ACTIVE_STATUSES: Array<BacklogRun['status']> = ['QUEUED', 'RUNNING']
+const CANCELLED_MESSAGE = 'Run cancelled by user'
+
+/**
+ * Position of the last message walked
+ */
+interface BacklogCursor {
+  timestamp: Date
+  id: string
+}
+
+/**
+ * Raised inside a run to stop it once it was cancelled
+ */
+class RunCancelledError extends Error {}
+
+const isRateLimitError = (message: string): boolean =>
+  message.includes('429') || message.includes('quota') || message.includes('rate limit')
+
+function toProgress(run: BacklogRun): BacklogRunProgress {
+  const progress = run.status === 'COMPLETED'
+    ? 100
+    : run.totalMessages > 0 ? Math.min(99, Math.floor((run.processedMessages / run.totalMessages) * 100)) : 0
+
+  return {
+    id: run.id,
+    status: run.status,
+    progress,
+    channels: run.channels,
+    options: run.options as BacklogRunOptions,
+    totalMessages: run.totalMessages,
+    processedMessages: run.processedMessages,
+    documentsCreated: run.documentsCreated,
+    failedSegments: run.failedSegments,
+    resumeCount: run.resumeCount,
+    errorMessage: run.errorMessage,
+    userId: run.userId,
+    createdAt: run.createdAt,
+    startedAt: run.startedAt,
+    completedAt: run.completedAt
+  }
+}
+
+/**
+ * Backlog processor service class
+ */
+class BacklogProcessorService {
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+  private readonly activeRuns = new Set<string>()
+
+  /**
+   * Start the resume loop, checking for interrupted runs right away
+   */
+  start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => logger.error('Backlog run resume failed:', error))
+    }, intervalMs)
+
+    // Don't keep the process alive just for resumes
+    this.timer.unref?.()
+
+    this.runOnce().catch(error => logger.error('Backlog run resume failed:', error))
+    logger.info(`Backlog processor resume worker started (interval ${intervalMs}ms)`)
+  }
+
+  /**
+   * Stop the resume loop; runs in progress finish their current page
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    logger.info('Backlog processor resume worker stopped')
+  }
+
+  /**
+   * Resume runs left QUEUED or RUNNING by a process that stopped heartbeating
+   * Each run is claimed with a conditional update so only one instance resumes it
+   *
+   * @returns Number of runs resumed, or null when a check is already in progress
+   */
+  async runOnce(): Promise<number | null> {
+    if (this.running) return null
+    this.running = true
+
+    try {
+      const staleBefore = new Date(Date.now() - STALE_AFTER_MS)
+      const stalled = await db.backlogRun.findMany({
+        where: {
+          status: { in: ACTIVE_STATUSES },
+          OR: [{ heartbeatAt: null }, { heartbeatAt: { lt: staleBefore } }]
+        },
+        orderBy: { createdAt: 'asc' }
+      })
+
+      let resumed = 0
+
+      for (const run of stalled) {
+        if (this.activeRuns.has(run.id)) continue
+
+        const claimed = await db.backlogRun.updateMany({
+          where: { id: run.id, status: { in: ACTIVE_STATUSES }, heartbeatAt: run.heartbeatAt },
+          data: { heartbeatAt: new Date(), resumeCount: { increment: 1 } }
+        })
+        if (claimed.count === 0) continue
+
+        logger.info(`Resuming backlog run ${run.id} after ${run.processedMessages}/${run.totalMessages} messages`)
+        this.launch(run.id)
+        resumed++
+      }
+
+      return resumed
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Estimate a run without creating anything: how many documents and LLM calls it takes
+   * Topic shifts are not measured (that needs embeddings), so with topicShift enabled the
+   * document count is a lower bound; the embedding calls are included in llmCalls
+   */
+  async estimate(options: BacklogRunOptions = {}): Promise<BacklogEstimate> {
+    const resolved = this.resolveOptions(options)
+    const estimate: BacklogEstimate = {
+      totalMessages: 0,
+      documents: 0,
+      threads: 0,
+      conversations: 0,
+      llmCalls: 0,
+      channels: 0
+    }
+
+    const seen = new Set<string>()
+    const channels = new Set<string>()
+    let topLevelMessages = 0
+    let cursor: BacklogCursor | null = null
+
+    for (;;) {
+      const page = await this.fetchPage(resolved.channels, cursor)
+      if (page.length === 0) break
+
+      const segments = await conversationSegmenterService.segment(page, { ...resolved.segmentation, topicShift: false })
+
+      for (const segment of segments) {
+        // Threads completed from later pages are counted once
+        const newIds = segment.messageIds.filter(id => !seen.has(id))
+        if (newIds.length === 0) continue
+
+        newIds.forEach(id => seen.add(id))
+        channels.add(segment.channel)
+        estimate.documents++
+        if (segment.kind === 'thread') {
+          estimate.threads++
+        } else {
+          estimate.conversations++
+          topLevelMessages += newIds.length
+        }
+      }
+
+      const last = page[page.length - 1]
+      cursor = { timestamp: last.timestamp, id: last.id }
+    }
+
+    estimate.totalMessages = seen.size
+    estimate.channels = channels.size
+    estimate.llmCalls = estimate.documents * LLM_CALLS_PER_DOCUMENT +
+      (resolved.segmentation.topicShift ? topLevelMessages : 0)
+
+    return estimate
+  }
+
+  /**
+   * Start a run over every unprocessed message
+   *
+   * @throws BacklogRunError with code RUN_IN_PROGRESS when another run is active
+   */
+  async startRun(options: BacklogRunOptions, userId: string): Promise<BacklogRunProgress> {
+    const resolved = this.resolveOptions(options)
+
+    const active = await db.backlogRun.findFirst({ where: { status: { in: ACTIVE_STATUSES } } })
+    if (active) {
+      throw new BacklogRunError('A backlog run is already in progress', 'RUN_IN_PROGRESS', active.id)
+    }
+
+    const totalMessages = await db.message.count({ where: this.unprocessedWhere(resolved.channels, null) })
+
+    const run = await db.backlogRun.create({
+      data: {
+        channels: resolved.channels,
+        options: {
+          segmentation: resolved.segmentation,
+          concurrency: resolved.concurrency
+        } as any,
+        totalMessages,
+        heartbeatAt: new Date(),
+        userId
+      }
+    })
+
+    logger.info(`Backlog run ${run.id} started by ${userId}: ${totalMessages} unprocessed messages`)
+    this.launch(run.id)
+
+    return toProgress(run)
+  }
+
+  /**
+   * Cancel a queued or running run
+   * The run stops before its next document, in whichever instance runs it
+   */
+  async cancelRun(runId: string): Promise<boolean> {
+    const result = await db.backlogRun.updateMany({
+      where: { id: runId, status: { in: ACTIVE_STATUSES } },
+      data: {
+        status: 'CANCELLED',
+        completedAt: new Date(),
+        errorMessage: CANCELLED_MESSAGE
+      }
+    })
+
+    return result.count > 0
+  }
+
+  /**
+   * Progress of one run
+   */
+  async getRun(runId: string): Promise<BacklogRunProgress | null> {
+    const run = await db.backlogRun.findUnique({ where: { id: runId } })
+    return run ? toProgress(run) : null
+  }
+
+  /**
+   * Most recent runs, newest first
+   */
+  async listRuns(limit: number = 10): Promise<BacklogRunProgress[]> {
+    const runs = await db.backlogRun.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+    return runs.map(toProgress)
+  }
+
+  /**
+   * Merge run options over the defaults
+   *
+   * @throws ValidationError on invalid segmentation options or concurrency
+   */
+  private resolveOptions(options: BacklogRunOptions): Required<BacklogRunOptions> {
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+      throw new ValidationError(`concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}`, 'concurrency')
+    }
+
+    if (options.channels !== undefined &&
+        (!Array.isArray(options.channels) || options.channels.some(channel => typeof channel !== 'string'))) {
+      throw new ValidationError('channels must be a list of channel IDs', 'channels')
+    }
+
+    return {
+      channels: options.channels || [],
+      segmentation: conversationSegmenterService.resolveOptions(options.segmentation),
+      concurrency
+    }
+  }
+
+  /**
+   * Run a run in the background and record how it ended
+   */
+  private launch(runId: string): void {
+    this.activeRuns.add(runId)
+
+    // Keep the heartbeat fresh while long documents are created
+    const heartbeat = setInterval(() => {
+      db.backlogRun.update({ where: { id: runId }, data: { heartbeatAt: new Date() } })
+        .catch(error => logger.warn(`Failed to update backlog run ${runId} heartbeat:`, error))
+    }, HEARTBEAT_INTERVAL_MS)
+    heartbeat.unref?.()
+
+    this.execute(runId)
+      .catch(async error => {
+        if (error instanceof RunCancelledError) {
+          logger.info(`Backlog run ${runId} stopped after cancellation`)
+          return
+        }
+
+        logger.error(`Backlog run ${runId} failed:`, error)
+        await db.backlogRun.updateMany({
+          where: { id: runId, status: { in: ACTIVE_STATUSES } },
+          data: {
+            status: 'FAILED',
+            completedAt: new Date(),
+            errorMessage: error instanceof Error ? error.message : 'Unknown error'
+          }
+        }).catch(updateError => logger.error(`Failed to record backlog run ${runId} failure:`, updateError))
+      })
+      .finally(() => {
+        clearInterval(heartbeat)
+        this.activeRuns.delete(runId)
+      })
+  }
+
+  /**
+   * Walk the backlog page by page from the run's cursor
+   */
+  private async execute(runId: string): Promise<void> {
+    const run = await db.backlogRun.findUnique({ where: { id: runId } })
+    if (!run || !ACTIVE_STATUSES.includes(run.status)) return
+
+    const options = run.options as BacklogRunOptions
+    const concurrency = options.concurrency || DEFAULT_CONCURRENCY
+    let cursor: BacklogCursor | null = run.cursorTimestamp && run.cursorMessageId
+      ? { timestamp: run.cursorTimestamp, id: run.cursorMessageId }
+      : null
+
+    await db.backlogRun.update({
+      where: { id: runId },
+      data: { status: 'RUNNING', startedAt: run.startedAt ?? new Date(), heartbeatAt: new Date() }
+    })
+
+    for (;;) {
+      await this.assertActive(runId)
+
+      const page = await this.fetchPage(run.channels, cursor)
+      if (page.length === 0) break
+
+      const segments = await conversationSegmenterService.segment(page, options.segmentation)
+      await this.processSegments(runId, segments, concurrency, run.userId || 'backlog-processor')
+
+      const last = page[page.length - 1]
+      cursor = { timestamp: last.timestamp, id: last.id }
+
+      await db.backlogRun.update({
+        where: { id: runId },
+        data: {
+          cursorTimestamp: cursor.timestamp,
+          cursorMessageId: cursor.id,
+          heartbeatAt: new Date()
+        }
+      })
+    }
+
+    await db.backlogRun.updateMany({
+      where: { id: runId, status: 'RUNNING' },
+      data: { status: 'COMPLETED', completedAt: new Date() }
+    })
+
+    logger.info(`Backlog run ${runId} completed`)
+  }
+
+  /**
+   * Create the documents of one page, a few at a time
+   * A failed conversation is counted and skipped; an exhausted LLM quota stops the run
+   */
+  private async processSegments(
+    runId: string,
+    segments: ConversationSegment[],
+    concurrency: number,
+    userId: string
+  ): Promise<void> {
+    let next = 0
+    let rateLimitError: Error | null = null
+
+    const worker = async () => {
+      while (next < segments.length && !rateLimitError) {
+        const segment = segments[next++]
+        await this.assertActive(runId)
+
+        try {
+          await documentProcessorService.processDocument({
+            messageIds: segment.messageIds,
+            userId
+          })
+
+          await db.backlogRun.update({
+            where: { id: runId },
+            data: {
+              documentsCreated: { increment: 1 },
+              processedMessages: { increment: segment.messageIds.length }
+            }
+          })
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error'
+
+          if (isRateLimitError(message)) {
+            rateLimitError = new Error(`LLM quota exceeded; start a new run once it resets. ${message}`)
+            return
+          }
+
+          logger.warn(`Backlog run ${runId}: document for ${segment.messageIds.length} messages in ${segment.channel} failed:`, error)
+          await db.backlogRun.update({
+            where: { id: runId },
+            data: { failedSegments: { increment: 1 }, errorMessage: message }
+          })
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, segments.length) }, worker))
+
+    if (rateLimitError) {
+      throw rateLimitError
+    }
+  }
+
+  /**
+   * Stop work on runs that were cancelled (possibly from another instance)
+   */
+  private async assertActive(runId: string): Promise<void> {
+    const run = await db.backlogRun.findUnique({ where: { id: runId }, select: { status: true } })
+    if (!run || !ACTIVE_STATUSES.includes(run.status)) {
+      throw new RunCancelledError(CANCELLED_MESSAGE)
+    }
+  }
+
+  /**
+   * Next page of unprocessed messages after the cursor, oldest first
+   */
+  private async fetchPage(channels: string[], cursor: BacklogCursor | null) {
+    return db.message.findMany({
+      where: this.unprocessedWhere(channels, cursor),
+      orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+      take: PAGE_SIZE,
+      select: {
+        id: true,
+        channel: true,
+        userId: true,
+        username: true,
+        timestamp: true,
+        isThreadReply: true,
+        parentMessageId: true
+      }
+    })
+  }
+
+  /**
+   * Live messages that are not part of any document, after the cursor
+   */
+  private unprocessedWhere(channels: string[], cursor: BacklogCursor | null): Prisma.MessageWhereInput {
+    return {
+      documentMessages: { none: {} },
+      deletedAt: null,
+      ...(channels.length > 0 && { channel: { in: channels } }),
+      ...(cursor && {
+        OR: [
+          { timestamp: { gt: cursor.timestamp } },
+          { timestamp: cursor.timestamp, id: { gt: cursor.id } }
+        ]
+      })
+    }
+  }
+}
+
+// Export singleton instance
+export const backlogProcessorService = new BacklogProcessorService()
+export default backlogProcessorService
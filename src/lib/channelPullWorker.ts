@@ -0,0 +1,68 @@
+/**
+ * Channel Pull Resume Worker
+ * Periodically resumes channel pulls whose worker stopped heartbeating
+ * (crash, redeploy or serverless cold start) from their last saved page
+ */
+
+import { logger } from './logger'
+import { createChannelPuller } from './slackChannelPuller'
+
+const DEFAULT_INTERVAL_MS = 60 * 1000
+
+/**
+ * Channel pull resume worker service class
+ */
+class ChannelPullWorkerService {
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  /**
+   * Start the resume loop, checking for interrupted pulls right away
+   */
+  start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => logger.error('Channel pull resume run failed:', error))
+    }, intervalMs)
+
+    // Don't keep the process alive just for resumes
+    this.timer.unref?.()
+
+    this.runOnce().catch(error => logger.error('Channel pull resume run failed:', error))
+    logger.info(`Channel pull resume worker started (interval ${intervalMs}ms)`)
+  }
+
+  /**
+   * Stop the resume loop
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    logger.info('Channel pull resume worker stopped')
+  }
+
+  /**
+   * Resume all stalled pulls once; overlapping runs are skipped
+   */
+  async runOnce(): Promise<void> {
+    if (this.running) return
+    this.running = true
+
+    try {
+      const resumed = await createChannelPuller().resumeStalledPulls()
+
+      if (resumed > 0) {
+        logger.info(`Resumed ${resumed} interrupted channel pull(s)`)
+      }
+    } finally {
+      this.running = false
+    }
+  }
+}
+
+// Export singleton instance
+export const channelPullWorkerService = new ChannelPullWorkerService()
+export default channelPullWorkerService
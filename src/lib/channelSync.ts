@@ -0,0 +1,478 @@
+/**
+ * Channel Catch-up Sync Service
+ * Periodically reconciles every tracked channel with Slack history so messages
+ * missed by the Events API (downtime, revoked tokens) are ingested after the fact
+ *
+ * Each Channel keeps a high-water mark (the newest reconciled ts). A run reads
+ * conversations.history from there, plus recent threads with new replies, and
+ * pushes anything not yet stored through the regular event processor.
+ */
+
+import { logger } from './logger'
+import { db } from './db'
+import { processSlackEvent, EventProcessingResult } from './eventProcessor'
+import { parseSlackTimestamp, isIngestibleMessage } from './slack'
+import {
+  SlackApiError,
+  type ChannelSyncStatus,
+  type ChannelSyncSummary,
+  type SlackMessageContent,
+  type SlackWebhookPayload
+} from '@/types'
+import type { Channel } from '@prisma/client'
+
+const SLACK_API_URL = 'https://slack.com/api'
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000
+const PAGE_SIZE = 200
+const MAX_RATE_LIMIT_RETRIES = 3
+
+/** Pause between Slack API calls (conversations.history is Tier 3, ~50 requests/minute) */
+const REQUEST_DELAY_MS = parseInt(process.env.CHANNEL_SYNC_REQUEST_DELAY_MS || '1200')
+/** Threads whose parent is this recent are checked for replies newer than the high-water mark */
+const THREAD_LOOKBACK_HOURS = parseInt(process.env.CHANNEL_SYNC_THREAD_LOOKBACK_HOURS || '72')
+/** Where a newly tracked channel without stored messages starts */
+const INITIAL_LOOKBACK_HOURS = parseInt(process.env.CHANNEL_SYNC_INITIAL_LOOKBACK_HOURS || '24')
+
+/**
+ * Message as returned by conversations.history / conversations.replies
+ */
+interface SlackHistoryMessage extends SlackMessageContent {
+  type: string
+  ts: string
+  user?: string
+  text?: string
+  thread_ts?: string
+  subtype?: string
+  bot_id?: string
+  reply_count?: number
+  latest_reply?: string
+}
+
+interface SlackPage {
+  ok: boolean
+  error?: string
+  messages?: SlackHistoryMessage[]
+  has_more?: boolean
+  response_metadata?: { next_cursor?: string }
+  channel?: { name?: string; is_private?: boolean }
+}
+
+/**
+ * Channel sync service class
+ */
+class ChannelSyncService {
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+  private intervalMs = DEFAULT_INTERVAL_MS
+
+  /**
+   * Start the catch-up loop
+   */
+  start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return
+
+    this.intervalMs = intervalMs
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => logger.error('Channel catch-up run failed:', error))
+    }, intervalMs)
+
+    // Don't keep the process alive just for catch-up
+    this.timer.unref?.()
+
+    logger.info(`Channel catch-up sync started (interval ${intervalMs}ms)`)
+  }
+
+  /**
+   * Stop the catch-up loop
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    logger.info('Channel catch-up sync stopped')
+  }
+
+  /**
+   * Whether the loop runs in this process, and how often
+   */
+  getSchedule(): { enabled: boolean; intervalMs: number } {
+    return { enabled: this.timer !== null, intervalMs: this.intervalMs }
+  }
+
+  /**
+   * Sync all tracked channels once
+   *
+   * @returns Run summary, or null when a run is already in progress
+   */
+  async runOnce(): Promise<ChannelSyncSummary | null> {
+    if (this.running) return null
+    this.running = true
+
+    try {
+      const summary = await this.syncAll()
+
+      if (summary.recovered > 0 || summary.failed > 0) {
+        logger.info(`Channel catch-up run: ${summary.synced}/${summary.channels} channels synced, ${summary.recovered} missed messages ingested, ${summary.failed} failed`)
+      }
+
+      return summary
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Sync a single tracked channel now
+   *
+   * @returns Number of missed messages ingested
+   */
+  async syncChannelNow(slackId: string): Promise<number> {
+    const channel = await this.trackChannel(slackId)
+    return this.syncChannel(channel)
+  }
+
+  /**
+   * Start tracking a channel, seeding its high-water mark from the newest stored message
+   * Called for channels discovered from stored messages and when a channel pull completes
+   */
+  async trackChannel(slackId: string, name?: string, isPrivate?: boolean): Promise<Channel> {
+    const existing = await db.channel.findUnique({ where: { slackId } })
+    if (existing) {
+      if (name && existing.name !== name) {
+        return db.channel.update({ where: { slackId }, data: { name } })
+      }
+      return existing
+    }
+
+    if (!name) {
+      const info = await this.getChannelInfo(slackId)
+      name = info?.name
+      isPrivate = info?.is_private
+    }
+
+    const newest = await db.message.findFirst({
+      where: { channel: slackId },
+      orderBy: { timestamp: 'desc' },
+      select: { slackId: true }
+    })
+
+    const channel = await db.channel.upsert({
+      where: { slackId },
+      update: {},
+      create: {
+        slackId,
+        name: name || slackId,
+        isPrivate: isPrivate ?? false,
+        lastIngestedTs: newest?.slackId ?? null,
+        syncedThroughTs: newest?.slackId ?? toSlackTs(Date.now() - INITIAL_LOOKBACK_HOURS * 60 * 60 * 1000)
+      }
+    })
+
+    logger.info(`Tracking channel ${channel.name} for catch-up sync from ts ${channel.syncedThroughTs}`)
+    return channel
+  }
+
+  /**
+   * Sync state of every tracked channel
+   */
+  async getSyncStatus(): Promise<ChannelSyncStatus[]> {
+    const channels = await db.channel.findMany({ orderBy: { name: 'asc' } })
+    const now = Date.now()
+
+    return channels.map(channel => {
+      const lastIngestedAt = channel.lastIngestedTs ? parseSlackTimestamp(channel.lastIngestedTs) : null
+
+      return {
+        channelId: channel.slackId,
+        channelName: channel.name,
+        syncEnabled: channel.syncEnabled,
+        lastIngestedTs: channel.lastIngestedTs,
+        lastIngestedAt,
+        syncedThroughTs: channel.syncedThroughTs,
+        lastSyncedAt: channel.lastSyncedAt,
+        lagMs: lastIngestedAt ? Math.max(0, now - lastIngestedAt.getTime()) : null,
+        lastSyncRecovered: channel.lastSyncRecovered,
+        lastSyncError: channel.lastSyncError,
+        lastSyncErrorAt: channel.lastSyncErrorAt
+      }
+    })
+  }
+
+  /**
+   * Turn the catch-up sync on or off for a channel
+   *
+   * @returns false when the channel is not tracked
+   */
+  async setSyncEnabled(slackId: string, syncEnabled: boolean): Promise<boolean> {
+    const result = await db.channel.updateMany({ where: { slackId }, data: { syncEnabled } })
+    return result.count > 0
+  }
+
+  /**
+   * Discover new channels from stored messages, then sync every enabled channel
+   */
+  private async syncAll(): Promise<ChannelSyncSummary> {
+    await this.discoverChannels()
+
+    const channels = await db.channel.findMany({
+      where: { syncEnabled: true },
+      orderBy: { lastSyncedAt: { sort: 'asc', nulls: 'first' } }
+    })
+
+    const summary: ChannelSyncSummary = { channels: channels.length, synced: 0, failed: 0, recovered: 0 }
+
+    for (const channel of channels) {
+      try {
+        summary.recovered += await this.syncChannel(channel)
+        summary.synced++
+      } catch (error) {
+        summary.failed++
+        logger.warn(`Catch-up sync failed for channel ${channel.name}`, { error })
+      }
+    }
+
+    return summary
+  }
+
+  /**
+   * Track channels that have stored messages but no Channel record yet
+   */
+  private async discoverChannels(): Promise<void> {
+    const [messageChannels, tracked] = await Promise.all([
+      db.message.findMany({ distinct: ['channel'], select: { channel: true } }),
+      db.channel.findMany({ select: { slackId: true } })
+    ])
+
+    const known = new Set(tracked.map(channel => channel.slackId))
+
+    for (const { channel } of messageChannels) {
+      if (!known.has(channel)) {
+        await this.trackChannel(channel)
+      }
+    }
+  }
+
+  /**
+   * Reconcile one channel with Slack and advance its high-water mark
+   */
+  private async syncChannel(channel: Channel): Promise<number> {
+    const since = channel.syncedThroughTs ?? toSlackTs(Date.now() - INITIAL_LOOKBACK_HOURS * 60 * 60 * 1000)
+    const threadWindow = toSlackTs(Date.now() - THREAD_LOOKBACK_HOURS * 60 * 60 * 1000)
+
+    try {
+      // One history read covers new messages and recent thread parents
+      const history = await this.fetchHistory(channel.slackId, minTs(since, threadWindow))
+      const newMessages = history.filter(message => compareTs(message.ts, since) > 0)
+
+      const threads = history.filter(message =>
+        (message.reply_count ?? 0) > 0 && message.latest_reply && compareTs(message.latest_reply, since) > 0
+      )
+
+      const replies: SlackHistoryMessage[] = []
+      for (const parent of threads) {
+        const threadReplies = await this.fetchReplies(channel.slackId, parent.ts, since)
+        replies.push(...threadReplies.filter(reply => reply.ts !== parent.ts))
+      }
+
+      const recovered = await this.ingestMissing(channel.slackId, [...newMessages, ...replies])
+
+      const highWaterMark = [...newMessages, ...replies].reduce(
+        (newest, message) => compareTs(message.ts, newest) > 0 ? message.ts : newest,
+        since
+      )
+
+      // Events may have ingested newer messages meanwhile, so the ingested mark only moves forward
+      const latest = await db.channel.findUnique({ where: { id: channel.id }, select: { lastIngestedTs: true } })
+      const lastIngestedTs = latest?.lastIngestedTs && compareTs(latest.lastIngestedTs, highWaterMark) > 0
+        ? latest.lastIngestedTs
+        : highWaterMark
+
+      await db.channel.update({
+        where: { id: channel.id },
+        data: {
+          syncedThroughTs: highWaterMark,
+          lastIngestedTs,
+          lastSyncedAt: new Date(),
+          lastSyncRecovered: recovered,
+          lastSyncError: null,
+          lastSyncErrorAt: null
+        }
+      })
+
+      if (recovered > 0) {
+        logger.info(`Catch-up sync ingested ${recovered} missed messages in ${channel.name}`)
+      }
+
+      return recovered
+    } catch (error) {
+      await db.channel.update({
+        where: { id: channel.id },
+        data: {
+          lastSyncError: error instanceof Error ? error.message : String(error),
+          lastSyncErrorAt: new Date()
+        }
+      })
+      throw error
+    }
+  }
+
+  /**
+   * Run messages that are not stored yet through the event processor, oldest first
+   * so thread parents exist before their replies
+   *
+   * @returns Number of messages ingested
+   */
+  private async ingestMissing(channelId: string, messages: SlackHistoryMessage[]): Promise<number> {
+    const candidates = messages.filter(isIngestibleMessage)
+    if (candidates.length === 0) return 0
+
+    const stored = await db.message.findMany({
+      where: { channel: channelId, slackId: { in: candidates.map(message => message.ts) } },
+      select: { slackId: true }
+    })
+    const storedTs = new Set(stored.map(message => message.slackId))
+
+    const missing = candidates
+      .filter(message => !storedTs.has(message.ts))
+      .sort((a, b) => compareTs(a.ts, b.ts))
+
+    let ingested = 0
+
+    for (const message of missing) {
+      const payload: SlackWebhookPayload = {
+        token: 'catch_up_sync',
+        team_id: 'unknown',
+        api_app_id: 'channel_sync',
+        event: {
+          type: message.type,
+          user: message.user,
+          text: message.text,
+          ts: message.ts,
+          channel: channelId,
+          event_ts: message.ts,
+          thread_ts: message.thread_ts,
+          subtype: message.subtype,
+          files: message.files,
+          blocks: message.blocks,
+          attachments: message.attachments
+        },
+        type: 'event_callback',
+        event_id: `catchup_${channelId}_${message.ts}`,
+        event_time: Math.floor(parseSlackTimestamp(message.ts).getTime() / 1000)
+      }
+
+      const result = await processSlackEvent(payload, JSON.stringify(payload))
+      if (result.result === EventProcessingResult.SUCCESS) {
+        ingested++
+      }
+    }
+
+    return ingested
+  }
+
+  /**
+   * All top-level messages newer than `oldest`
+   */
+  private async fetchHistory(channelId: string, oldest: string): Promise<SlackHistoryMessage[]> {
+    return this.fetchAllPages('conversations.history', { channel: channelId, oldest })
+  }
+
+  /**
+   * Replies in a thread newer than `oldest`
+   */
+  private async fetchReplies(channelId: string, threadTs: string, oldest: string): Promise<SlackHistoryMessage[]> {
+    return this.fetchAllPages('conversations.replies', { channel: channelId, ts: threadTs, oldest })
+  }
+
+  /**
+   * Follow next_cursor until the last page
+   */
+  private async fetchAllPages(method: string, params: Record<string, string>): Promise<SlackHistoryMessage[]> {
+    const messages: SlackHistoryMessage[] = []
+    let cursor: string | undefined
+
+    do {
+      const page = await this.callSlack(method, {
+        ...params,
+        limit: PAGE_SIZE.toString(),
+        ...(cursor && { cursor })
+      })
+
+      messages.push(...(page.messages || []))
+      cursor = page.has_more ? page.response_metadata?.next_cursor || undefined : undefined
+    } while (cursor)
+
+    return messages
+  }
+
+  /**
+   * Channel name and privacy, or null when the channel can't be read
+   */
+  private async getChannelInfo(channelId: string): Promise<SlackPage['channel'] | null> {
+    try {
+      const page = await this.callSlack('conversations.info', { channel: channelId })
+      return page.channel ?? null
+    } catch (error) {
+      logger.warn(`Failed to fetch channel info for ${channelId}`, { error })
+      return null
+    }
+  }
+
+  /**
+   * Call a Slack Web API method, waiting out rate limits
+   *
+   * @throws SlackApiError when Slack responds with ok: false
+   */
+  private async callSlack(method: string, params: Record<string, string>): Promise<SlackPage> {
+    const token = process.env.SLACK_BOT_TOKEN
+    if (!token) {
+      throw new SlackApiError('SLACK_BOT_TOKEN is not configured', 'not_authed', method)
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(`${SLACK_API_URL}/${method}?${new URLSearchParams(params)}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+
+      if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+        const retryAfterSeconds = parseInt(response.headers.get('retry-after') || '30')
+        logger.warn(`Slack rate limit on ${method}, retrying in ${retryAfterSeconds}s`)
+        await delay(retryAfterSeconds * 1000)
+        continue
+      }
+
+      const data: SlackPage = await response.json()
+      await delay(REQUEST_DELAY_MS)
+
+      if (!data.ok) {
+        throw new SlackApiError(`Slack ${method} failed: ${data.error}`, data.error || 'unknown_error', method)
+      }
+
+      return data
+    }
+  }
+}
+
+function toSlackTs(ms: number): string {
+  return (ms / 1000).toFixed(6)
+}
+
+/**
+ * Compare Slack timestamps numerically ("seconds.micros" strings)
+ */
+function compareTs(a: string, b: string): number {
+  return parseFloat(a) - parseFloat(b)
+}
+
+function minTs(a: string, b: string): string {
+  return compareTs(a, b) <= 0 ? a : b
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Export singleton instance
+export const channelSyncService = new ChannelSyncService()
+export default channelSyncService
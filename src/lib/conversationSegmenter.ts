@@ -0,0 +1,339 @@
+/**
+ * Conversation Segmenter Service
+ * Splits unprocessed Slack messages into conversations for bulk document creation
+ *
+ * A thread (root message and its replies) always stays in one segment. Top-level chatter
+ * between threads is split on long silences, on a new speaker joining after a pause,
+ * on size, and optionally on topic shifts measured with embeddings of the redacted text.
+ */
+
+import { db } from './db'
+import { logger } from './logger'
+import { llmService } from './llm'
+import { piiDetectorService } from './piiDetector'
+import {
+  ValidationError,
+  type ConversationSegment,
+  type SegmentBoundaryReason,
+  type SegmentationOptions
+} from '@/types'
+
+export const DEFAULT_SEGMENTATION_OPTIONS: Required<SegmentationOptions> = {
+  maxMessages: 20,
+  timeGapMinutes: 60,
+  speakerGapMinutes: 10,
+  topicShift: false,
+  topicShiftThreshold: 0.5
+}
+
+const PREVIEW_MAX_CHARS = 160
+
+/**
+ * Message fields the segmenter needs
+ */
+export interface SegmentableMessage {
+  id: string
+  channel: string
+  userId: string
+  username: string
+  timestamp: Date
+  isThreadReply: boolean
+  parentMessageId: string | null
+}
+
+/**
+ * A thread or a single top-level message, the unit segments are built from
+ */
+interface MessageUnit {
+  channel: string
+  messages: SegmentableMessage[]
+  isThread: boolean
+}
+
+/**
+ * Top-level chatter segment being built
+ */
+interface OpenSegment {
+  boundaryReason: SegmentBoundaryReason
+  messages: SegmentableMessage[]
+  speakers: Set<string>
+  embeddings: number[][]
+}
+
+const rootIdOf = (message: SegmentableMessage): string =>
+  message.isThreadReply && message.parentMessageId ? message.parentMessageId : message.id
+
+const byTimestamp = (a: SegmentableMessage, b: SegmentableMessage): number =>
+  a.timestamp.getTime() - b.timestamp.getTime()
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+const centroid = (vectors: number[][]): number[] =>
+  vectors[0].map((_, i) => vectors.reduce((sum, vector) => sum + vector[i], 0) / vectors.length)
+
+/**
+ * Conversation segmenter service class
+ */
+class ConversationSegmenterService {
+
+  /**
+   * Merge request options over the defaults, rejecting values that cannot segment anything
+   *
+   * @throws ValidationError on non-positive sizes or gaps, or a threshold outside [-1, 1]
+   */
+  resolveOptions(options: SegmentationOptions = {}): Required<SegmentationOptions> {
+    const resolved = { ...DEFAULT_SEGMENTATION_OPTIONS }
+
+    for (const key of ['maxMessages', 'timeGapMinutes', 'speakerGapMinutes'] as const) {
+      const value = options[key]
+      if (value === undefined) continue
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        throw new ValidationError(`${key} must be a positive number`, key)
+      }
+      resolved[key] = value
+    }
+
+    if (options.topicShift !== undefined) {
+      resolved.topicShift = Boolean(options.topicShift)
+    }
+
+    if (options.topicShiftThreshold !== undefined) {
+      const threshold = options.topicShiftThreshold
+      if (typeof threshold !== 'number' || threshold < -1 || threshold > 1) {
+        throw new ValidationError('topicShiftThreshold must be between -1 and 1', 'topicShiftThreshold')
+      }
+      resolved.topicShiftThreshold = threshold
+    }
+
+    return resolved
+  }
+
+  /**
+   * Split messages into conversations, oldest first
+   * Unprocessed messages of the threads the messages belong to are pulled in,
+   * so a thread is never spread over two documents
+   */
+  async segment(
+    messages: SegmentableMessage[],
+    options: SegmentationOptions = {}
+  ): Promise<ConversationSegment[]> {
+    const resolved = this.resolveOptions(options)
+    if (messages.length === 0) return []
+
+    const allMessages = await this.completeThreads(messages)
+    const units = this.buildUnits(allMessages)
+    const embeddings = resolved.topicShift
+      ? await this.embedTopLevel(units)
+      : new Map<string, number[]>()
+
+    const segments: { channel: string, kind: ConversationSegment['kind'], boundaryReason: SegmentBoundaryReason, messages: SegmentableMessage[] }[] = []
+
+    const unitsByChannel = new Map<string, MessageUnit[]>()
+    for (const unit of units) {
+      unitsByChannel.set(unit.channel, [...(unitsByChannel.get(unit.channel) || []), unit])
+    }
+
+    unitsByChannel.forEach((channelUnits, channel) => {
+      channelUnits.sort((a, b) => byTimestamp(a.messages[0], b.messages[0]))
+
+      let open: OpenSegment | null = null
+      let lastTimestamp: Date | null = null
+
+      const close = () => {
+        if (open) {
+          segments.push({ channel, kind: 'conversation', boundaryReason: open.boundaryReason, messages: open.messages })
+          open = null
+        }
+      }
+
+      for (const unit of channelUnits) {
+        if (unit.isThread) {
+          close()
+          segments.push({ channel, kind: 'thread', boundaryReason: 'thread', messages: unit.messages })
+          lastTimestamp = unit.messages[unit.messages.length - 1].timestamp
+          continue
+        }
+
+        const message = unit.messages[0]
+        const embedding = embeddings.get(message.id)
+
+        if (!open) {
+          open = {
+            boundaryReason: lastTimestamp ? this.gapReason(lastTimestamp, message, resolved) : 'channel_start',
+            messages: [],
+            speakers: new Set(),
+            embeddings: []
+          }
+        } else {
+          const reason = this.boundaryBefore(open, message, embedding, resolved)
+          if (reason) {
+            close()
+            open = { boundaryReason: reason, messages: [], speakers: new Set(), embeddings: [] }
+          }
+        }
+
+        const current: OpenSegment = open
+        current.messages.push(message)
+        current.speakers.add(message.userId)
+        if (embedding) current.embeddings.push(embedding)
+        lastTimestamp = message.timestamp
+      }
+
+      close()
+    })
+
+    segments.sort((a, b) => byTimestamp(a.messages[0], b.messages[0]))
+
+    const previews = await piiDetectorService.getRedactedTexts(segments.map(segment => segment.messages[0].id))
+
+    return segments.map(segment => {
+      const preview = (previews.get(segment.messages[0].id) || '').trim()
+
+      return {
+        channel: segment.channel,
+        kind: segment.kind,
+        boundaryReason: segment.boundaryReason,
+        messageIds: segment.messages.map(m => m.id),
+        participants: Array.from(new Set(segment.messages.map(m => m.username))),
+        startTime: segment.messages[0].timestamp,
+        endTime: segment.messages[segment.messages.length - 1].timestamp,
+        preview: preview.length > PREVIEW_MAX_CHARS ? `${preview.substring(0, PREVIEW_MAX_CHARS)}…` : preview
+      }
+    })
+  }
+
+  /**
+   * Why a top-level message cannot join the open segment, or null when it continues it
+   */
+  private boundaryBefore(
+    open: OpenSegment,
+    message: SegmentableMessage,
+    embedding: number[] | undefined,
+    options: Required<SegmentationOptions>
+  ): SegmentBoundaryReason | null {
+    const previous = open.messages[open.messages.length - 1]
+    const gapMinutes = (message.timestamp.getTime() - previous.timestamp.getTime()) / (60 * 1000)
+
+    if (gapMinutes >= options.timeGapMinutes) {
+      return 'time_gap'
+    }
+    if (open.messages.length >= options.maxMessages) {
+      return 'size_limit'
+    }
+    if (!open.speakers.has(message.userId) && gapMinutes >= options.speakerGapMinutes) {
+      return 'speaker_change'
+    }
+    if (embedding && open.embeddings.length > 0 &&
+        cosineSimilarity(embedding, centroid(open.embeddings)) < options.topicShiftThreshold) {
+      return 'topic_shift'
+    }
+
+    return null
+  }
+
+  /**
+   * Boundary reason for chatter that resumes after a thread
+   */
+  private gapReason(
+    lastTimestamp: Date,
+    message: SegmentableMessage,
+    options: Required<SegmentationOptions>
+  ): SegmentBoundaryReason {
+    const gapMinutes = (message.timestamp.getTime() - lastTimestamp.getTime()) / (60 * 1000)
+    return gapMinutes >= options.timeGapMinutes ? 'time_gap' : 'thread'
+  }
+
+  /**
+   * Add the other unprocessed, live messages of every thread the messages belong to
+   */
+  private async completeThreads(messages: SegmentableMessage[]): Promise<SegmentableMessage[]> {
+    const known = new Set(messages.map(m => m.id))
+    const rootIds = Array.from(new Set(messages.map(rootIdOf)))
+
+    const threadMessages = await db.message.findMany({
+      where: {
+        id: { notIn: Array.from(known) },
+        OR: [
+          { id: { in: rootIds } },
+          { parentMessageId: { in: rootIds } }
+        ],
+        documentMessages: { none: {} },
+        deletedAt: null
+      },
+      select: {
+        id: true,
+        channel: true,
+        userId: true,
+        username: true,
+        timestamp: true,
+        isThreadReply: true,
+        parentMessageId: true
+      }
+    })
+
+    if (threadMessages.length > 0) {
+      logger.info(`Added ${threadMessages.length} unprocessed thread messages to keep threads together`)
+    }
+
+    return [...messages, ...threadMessages]
+  }
+
+  /**
+   * Group messages into threads and single top-level messages
+   */
+  private buildUnits(messages: SegmentableMessage[]): MessageUnit[] {
+    const byRoot = new Map<string, SegmentableMessage[]>()
+
+    for (const message of messages) {
+      const rootId = rootIdOf(message)
+      byRoot.set(rootId, [...(byRoot.get(rootId) || []), message])
+    }
+
+    return Array.from(byRoot.entries()).map(([rootId, unitMessages]) => {
+      unitMessages.sort(byTimestamp)
+      return {
+        channel: unitMessages[0].channel,
+        messages: unitMessages,
+        isThread: unitMessages.length > 1 || unitMessages[0].id !== rootId
+      }
+    })
+  }
+
+  /**
+   * Embed the redacted text of top-level messages for topic shift detection
+   * Returns an empty map when the embedding provider fails, so segmentation falls back to time and speakers
+   */
+  private async embedTopLevel(units: MessageUnit[]): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>()
+    const ids = units.filter(unit => !unit.isThread).map(unit => unit.messages[0].id)
+    const redacted = await piiDetectorService.getRedactedTexts(ids)
+
+    for (const id of ids) {
+      const text = redacted.get(id)?.trim()
+      if (!text) continue
+
+      const response = await llmService.generateEmbedding(text)
+      if (!response.success || !response.data) {
+        logger.warn(`Topic shift detection unavailable, segmenting by time and speakers only: ${response.error}`)
+        return new Map()
+      }
+      embeddings.set(id, response.data)
+    }
+
+    return embeddings
+  }
+}
+
+// Export singleton instance
+export const conversationSegmenterService = new ConversationSegmenterService()
+export default conversationSegmenterService
@@ -0,0 +1,223 @@
+/**
+ * Cron Schedule Utilities
+ * Parses standard 5-field cron expressions and calculates upcoming run times
+ * Also converts the dashboard's frequency-based schedules into cron expressions
+ */
+
+/**
+ * Frequency-based schedule as stored by the automation dashboard
+ */
+export interface FrequencySchedule {
+  frequency?: 'manual' | 'hourly' | 'daily' | 'weekly' | 'custom'
+  hour?: number | null
+  dayOfWeek?: number | null
+  customInterval?: number
+  customUnit?: 'minutes' | 'hours' | 'days' | 'weeks'
+  customTime?: string
+  customDayOfWeek?: number
+}
+
+/**
+ * Parsed cron expression - allowed values for each field
+ */
+interface ParsedCron {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7]   // day of week (0 and 7 are both Sunday)
+]
+
+// Upper bound for the next-run search (a bit more than four years covers Feb 29)
+const MAX_SEARCH_MINUTES = 60 * 24 * 366 * 5
+
+/**
+ * Parse a single cron field into the set of values it allows
+ */
+const parseField = (field: string, min: number, max: number): Set<number> => {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/')
+    const step = stepPart !== undefined ? parseInt(stepPart, 10) : 1
+
+    if (isNaN(step) || step <= 0) {
+      throw new Error(`Invalid step in cron field: ${field}`)
+    }
+
+    let start: number
+    let end: number
+
+    if (rangePart === '*') {
+      start = min
+      end = max
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-').map(value => parseInt(value, 10))
+      start = from
+      end = to
+    } else {
+      start = parseInt(rangePart, 10)
+      end = stepPart !== undefined ? max : start
+    }
+
+    if (isNaN(start) || isNaN(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field: ${field}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week)
+ * A leading seconds field (6-field expression) is accepted and ignored
+ */
+export const parseCronExpression = (expression: string): ParsedCron => {
+  let fields = expression.trim().split(/\s+/)
+
+  if (fields.length === 6) {
+    fields = fields.slice(1)
+  }
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression: "${expression}"`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index][0], FIELD_RANGES[index][1])
+  )
+
+  // Normalize Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*'
+  }
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export const isValidCronExpression = (expression: string): boolean => {
+  try {
+    parseCronExpression(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check whether a date matches the day constraints of a parsed cron expression
+ * Follows cron semantics: when both day fields are restricted, either may match
+ */
+const matchesDay = (cron: ParsedCron, date: Date): boolean => {
+  const dayOfMonthMatch = cron.daysOfMonth.has(date.getDate())
+  const dayOfWeekMatch = cron.daysOfWeek.has(date.getDay())
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch
+  }
+
+  return dayOfMonthMatch && dayOfWeekMatch
+}
+
+/**
+ * Calculate the next run time strictly after `from` for a cron expression
+ * Uses the server's local timezone
+ */
+export const getNextCronRun = (expression: string, from: Date = new Date()): Date => {
+  const cron = parseCronExpression(expression)
+
+  const candidate = new Date(from.getTime())
+  candidate.setSeconds(0, 0)
+  candidate.setMinutes(candidate.getMinutes() + 1)
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!cron.months.has(candidate.getMonth() + 1) || !matchesDay(cron, candidate)) {
+      // Skip to the start of the next day
+      candidate.setHours(24, 0, 0, 0)
+      continue
+    }
+
+    if (!cron.hours.has(candidate.getHours())) {
+      // Skip to the start of the next hour
+      candidate.setMinutes(60, 0, 0)
+      continue
+    }
+
+    if (cron.minutes.has(candidate.getMinutes())) {
+      return candidate
+    }
+
+    candidate.setMinutes(candidate.getMinutes() + 1)
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`)
+}
+
+/**
+ * Convert a dashboard frequency schedule into a cron expression
+ * Returns null for manual schedules
+ */
+export const frequencyScheduleToCron = (schedule: FrequencySchedule | null | undefined): string | null => {
+  if (!schedule || !schedule.frequency || schedule.frequency === 'manual') {
+    return null
+  }
+
+  const hour = typeof schedule.hour === 'number' ? schedule.hour : 0
+  const dayOfWeek = typeof schedule.dayOfWeek === 'number' ? schedule.dayOfWeek : 1
+
+  switch (schedule.frequency) {
+    case 'hourly':
+      return '0 * * * *'
+    case 'daily':
+      return `0 ${hour} * * *`
+    case 'weekly':
+      return `0 ${hour} * * ${dayOfWeek}`
+    case 'custom': {
+      const interval = Math.max(1, Math.floor(schedule.customInterval || 1))
+      const [customHour, customMinute] = (schedule.customTime || '09:00')
+        .split(':')
+        .map(value => parseInt(value, 10) || 0)
+
+      switch (schedule.customUnit) {
+        case 'minutes':
+          return interval >= 60 ? '0 * * * *' : `*/${interval} * * * *`
+        case 'days':
+          return `${customMinute} ${customHour} */${interval} * *`
+        case 'weeks':
+          // Cron cannot express multi-week intervals; run weekly on the chosen day
+          return `${customMinute} ${customHour} * * ${schedule.customDayOfWeek ?? 1}`
+        case 'hours':
+        default:
+          return interval >= 24 ? `${customMinute} ${customHour} * * *` : `0 */${interval} * * *`
+      }
+    }
+    default:
+      return null
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * CSV Utilities
+ * Builds and parses RFC 4180 CSV as used by the Salesforce Bulk API 2.0
+ * Line endings are LF to match the `lineEnding` declared on ingest jobs
+ */
+
+/**
+ * Quote a value when it contains a delimiter, quote or line break
+ */
+function formatCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value)
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+
+  return text
+}
+
+/**
+ * Build a CSV document with a header row
+ *
+ * @param columns - Column names, in output order
+ * @param rows - Records keyed by column name; missing values become empty cells
+ */
+export function toCsv(columns: string[], rows: Array<Record<string, unknown>>): string {
+  const lines = [columns.map(formatCsvValue).join(',')]
+
+  for (const row of rows) {
+    lines.push(columns.map(column => formatCsvValue(row[column])).join(','))
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Parse a CSV document whose first row is the header
+ * Handles quoted values containing commas, escaped quotes and line breaks
+ *
+ * @returns One record per data row, keyed by header name
+ */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const rows: string[][] = []
+  let row: string[] = []
+  let value = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        value += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(value)
+      value = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(value)
+      rows.push(row)
+      row = []
+      value = ''
+    } else {
+      value += char
+    }
+  }
+
+  // Last row without a trailing line break
+  if (value !== '' || row.length > 0) {
+    row.push(value)
+    rows.push(row)
+  }
+
+  const [header, ...data] = rows
+  if (!header) {
+    return []
+  }
+
+  return data.map(cells =>
+    Object.fromEntries(header.map((column, index) => [column, cells[index] ?? '']))
+  )
+}
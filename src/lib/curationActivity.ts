@@ -0,0 +1,144 @@
+/**
+ * Curation Activity Service
+ * Records who changed documents, FAQs, selections and PII reviews, and lists that history
+ * for the activity feed and per-document history
+ */
+
+import { db } from './db'
+import { logger } from './logger'
+import {
+  ActivityTargetType,
+  ActivityType,
+  ValidationError,
+  type CurationActivityDisplay,
+  type CurationActivityFilters,
+  type CurationActivityInput
+} from '@/types'
+import type { CurationActivity, Prisma } from '@prisma/client'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+/**
+ * Curation activity service class
+ */
+class CurationActivityService {
+
+  /**
+   * Record a curation action
+   * Never throws: a failed log entry must not undo the action it describes
+   */
+  async record(input: CurationActivityInput): Promise<void> {
+    try {
+      await db.curationActivity.create({
+        data: {
+          userId: input.userId,
+          activityType: input.activityType,
+          targetType: input.targetType,
+          targetId: input.targetId,
+          details: (input.details || {}) as any
+        }
+      })
+    } catch (error) {
+      logger.warn(`Failed to record ${input.activityType} activity for ${input.targetType} ${input.targetId}:`, error)
+    }
+  }
+
+  /**
+   * Activities newest first, filtered by user, target and type
+   * Pass the last returned ID as `before` to continue
+   *
+   * @throws ValidationError on an unknown activity or target type
+   */
+  async listActivities(filters: CurationActivityFilters = {}): Promise<{
+    activities: CurationActivityDisplay[]
+    nextCursor: string | null
+  }> {
+    if (filters.activityType && !Object.values(ActivityType).includes(filters.activityType)) {
+      throw new ValidationError(`activityType must be one of ${Object.values(ActivityType).join(', ')}`, 'activityType')
+    }
+    if (filters.targetType && !Object.values(ActivityTargetType).includes(filters.targetType)) {
+      throw new ValidationError(`targetType must be one of ${Object.values(ActivityTargetType).join(', ')}`, 'targetType')
+    }
+
+    const limit = Math.min(MAX_LIMIT, Math.max(1, filters.limit || DEFAULT_LIMIT))
+    const where: Prisma.CurationActivityWhereInput = {
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.targetId && { targetId: filters.targetId }),
+      ...(filters.targetType && { targetType: filters.targetType }),
+      ...(filters.activityType && { activityType: filters.activityType })
+    }
+
+    const rows = await db.curationActivity.findMany({
+      where,
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(filters.before && { cursor: { id: filters.before }, skip: 1 })
+    })
+
+    const page = rows.slice(0, limit)
+    return {
+      activities: await this.withTargetLabels(page),
+      nextCursor: rows.length > limit ? page[page.length - 1].id : null
+    }
+  }
+
+  /**
+   * Everyone who has recorded activity, for the feed's user filter
+   */
+  async listActors(): Promise<string[]> {
+    const rows = await db.curationActivity.findMany({
+      distinct: ['userId'],
+      select: { userId: true },
+      orderBy: { userId: 'asc' }
+    })
+    return rows.map(row => row.userId)
+  }
+
+  /**
+   * Resolve document titles, FAQ questions and selection names in one query per kind
+   * Messages get no label so their text never leaves the PII-redacted views
+   */
+  private async withTargetLabels(activities: CurationActivity[]): Promise<CurationActivityDisplay[]> {
+    const idsOf = (targetType: ActivityTargetType) => Array.from(new Set(
+      activities.filter(activity => activity.targetType === targetType).map(activity => activity.targetId)
+    ))
+
+    const documentIds = idsOf(ActivityTargetType.DOCUMENT)
+    const faqIds = idsOf(ActivityTargetType.FAQ)
+    const selectionIds = idsOf(ActivityTargetType.SELECTION)
+
+    const [documents, faqs, selections] = await Promise.all([
+      documentIds.length > 0
+        ? db.processedDocument.findMany({ where: { id: { in: documentIds } }, select: { id: true, title: true } })
+        : [],
+      faqIds.length > 0
+        ? db.fAQ.findMany({ where: { id: { in: faqIds } }, select: { id: true, question: true } })
+        : [],
+      selectionIds.length > 0
+        ? db.messageSelection.findMany({ where: { id: { in: selectionIds } }, select: { id: true, selectionName: true } })
+        : []
+    ])
+
+    const labels = new Map<string, string>([
+      ...documents.map(document => [document.id, document.title] as [string, string]),
+      ...faqs.map(faq => [faq.id, faq.question] as [string, string]),
+      ...selections.map(selection => [selection.id, selection.selectionName] as [string, string])
+    ])
+
+    return activities.map(activity => ({
+      id: activity.id,
+      userId: activity.userId,
+      activityType: activity.activityType,
+      targetType: activity.targetType,
+      targetId: activity.targetId,
+      details: (activity.details || {}) as Record<string, any>,
+      timestamp: activity.timestamp,
+      targetLabel: labels.get(activity.targetId) || null
+    }))
+  }
+}
+
+// Export singleton instance
+export const curationActivityService = new CurationActivityService()
+export default curationActivityService
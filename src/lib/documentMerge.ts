@@ -0,0 +1,411 @@
+/**
+ * Document Merge Service
+ * Merges documents that cover the same conversation into one surviving document
+ *
+ * The surviving document takes the union of the messages and the FAQ links, and its message
+ * roles are re-derived by re-running the conversation analysis over the combined messages.
+ * Merged-in documents are archived with a pointer to the survivor so links to them redirect.
+ * Everything the merge changes is snapshotted, so it can be undone for a while afterwards.
+ */
+
+import { db } from './db'
+import { logger } from './logger'
+import { documentProcessorService } from './documentProcessor'
+import { curationActivityService } from './curationActivity'
+import {
+  ActivityTargetType,
+  ActivityType,
+  DocumentMergeError,
+  ValidationError,
+  type DocumentMergeDisplay,
+  type DocumentMergeResult,
+  type DocumentMergeSnapshot
+} from '@/types'
+import { Prisma, type DocumentMerge } from '@prisma/client'
+
+/** Merges can be undone for this long */
+const UNDO_WINDOW_HOURS = parseInt(process.env.DOCUMENT_MERGE_UNDO_HOURS || '24')
+const MAX_SOURCES = 10
+/** Combined messages re-analysed in one call */
+const MAX_MESSAGES = 500
+
+type Tx = Prisma.TransactionClient
+
+/**
+ * Document merge service class
+ */
+class DocumentMergeService {
+
+  /**
+   * Merge the source documents into the target
+   * Messages already in the target stay on their archived source, as do FAQ links the target already has
+   *
+   * @throws ValidationError on an invalid document list or too many messages
+   * @throws DocumentMergeError when a document is missing or already merged
+   */
+  async mergeDocuments(
+    targetDocumentId: string,
+    sourceDocumentIds: string[],
+    mergedBy: string
+  ): Promise<DocumentMergeResult> {
+    this.validateDocumentIds(targetDocumentId, sourceDocumentIds)
+
+    const documentIds = [targetDocumentId, ...sourceDocumentIds]
+    const documents = await db.processedDocument.findMany({
+      where: { id: { in: documentIds } },
+      include: {
+        documentMessages: { include: { message: true } },
+        documentFAQs: true
+      }
+    })
+
+    const missing = documentIds.filter(id => !documents.some(document => document.id === id))
+    if (missing.length > 0) {
+      throw new DocumentMergeError(`Document not found: ${missing.join(', ')}`, 'NOT_FOUND')
+    }
+
+    for (const document of documents) {
+      if (document.status === 'ARCHIVED' || document.mergedIntoId) {
+        throw new DocumentMergeError(`"${document.title}" has already been merged into another document`, 'ALREADY_MERGED')
+      }
+      if (document.status === 'PROCESSING') {
+        throw new ValidationError(`"${document.title}" is still processing`, 'documentIds')
+      }
+    }
+
+    const target = documents.find(document => document.id === targetDocumentId)!
+    const sources = sourceDocumentIds.map(id => documents.find(document => document.id === id)!)
+
+    // Union the messages; rows for messages the union already has are duplicates
+    const messageIds = new Set(target.documentMessages.map(row => row.messageId))
+    const movedMessageRows: DocumentMergeSnapshot['movedMessageRows'] = []
+    let duplicateMessages = 0
+    for (const source of sources) {
+      for (const row of source.documentMessages) {
+        if (messageIds.has(row.messageId)) {
+          duplicateMessages++
+          continue
+        }
+        messageIds.add(row.messageId)
+        movedMessageRows.push({ rowId: row.id, fromDocumentId: source.id })
+      }
+    }
+
+    if (messageIds.size > MAX_MESSAGES) {
+      throw new ValidationError(`A merged document can have at most ${MAX_MESSAGES} messages; this merge would have ${messageIds.size}`, 'sourceDocumentIds')
+    }
+
+    const faqIds = new Set(target.documentFAQs.map(row => row.faqId))
+    const movedFaqRows: DocumentMergeSnapshot['movedFaqRows'] = []
+    for (const source of sources) {
+      for (const row of source.documentFAQs) {
+        if (faqIds.has(row.faqId)) continue
+        faqIds.add(row.faqId)
+        movedFaqRows.push({ rowId: row.id, fromDocumentId: source.id })
+      }
+    }
+
+    // Re-derive roles for the combined conversation before taking any locks
+    const movedRowIds = new Set(movedMessageRows.map(row => row.rowId))
+    const mergedRows = [
+      ...target.documentMessages,
+      ...sources.flatMap(source => source.documentMessages.filter(row => movedRowIds.has(row.id)))
+    ]
+    const { conversationAnalysis, roles } = await documentProcessorService.analyzeMessageRoles(
+      mergedRows.map(row => row.message)
+    )
+
+    const snapshot: DocumentMergeSnapshot = {
+      analysisReplaced: Boolean(conversationAnalysis),
+      targetAnalysis: target.conversationAnalysis ?? null,
+      targetRoles: conversationAnalysis
+        ? mergedRows.map(row => ({ rowId: row.id, messageRole: row.messageRole, processingConfidence: row.processingConfidence }))
+        : [],
+      movedMessageRows,
+      movedFaqRows,
+      sourceStatuses: Object.fromEntries(sources.map(source => [source.id, source.status]))
+    }
+
+    const mergedAt = new Date()
+    const undoExpiresAt = new Date(mergedAt.getTime() + UNDO_WINDOW_HOURS * 60 * 60 * 1000)
+
+    const merge = await db.$transaction(async (tx) => {
+      // Guard against a concurrent merge of the same documents
+      const archived = await tx.processedDocument.count({
+        where: { id: { in: documentIds }, OR: [{ status: 'ARCHIVED' }, { mergedIntoId: { not: null } }] }
+      })
+      if (archived > 0) {
+        throw new DocumentMergeError('One of the documents was merged while this merge was running', 'ALREADY_MERGED')
+      }
+
+      if (movedMessageRows.length > 0) {
+        await tx.documentMessage.updateMany({
+          where: { id: { in: movedMessageRows.map(row => row.rowId) } },
+          data: { documentId: targetDocumentId }
+        })
+      }
+
+      if (movedFaqRows.length > 0) {
+        await tx.documentFAQ.updateMany({
+          where: { id: { in: movedFaqRows.map(row => row.rowId) } },
+          data: { documentId: targetDocumentId }
+        })
+      }
+
+      if (conversationAnalysis) {
+        await this.applyRoles(tx, mergedRows.map(row => {
+          const roleInfo = roles.get(row.messageId) || { role: 'CONTEXT', confidence: 0.8 }
+          return { rowId: row.id, messageRole: roleInfo.role, processingConfidence: roleInfo.confidence }
+        }))
+
+        await tx.processedDocument.update({
+          where: { id: targetDocumentId },
+          data: { conversationAnalysis }
+        })
+      }
+
+      await tx.processedDocument.updateMany({
+        where: { id: { in: sourceDocumentIds } },
+        data: { status: 'ARCHIVED', mergedIntoId: targetDocumentId, mergedAt }
+      })
+
+      return tx.documentMerge.create({
+        data: {
+          targetDocumentId,
+          sourceDocumentIds,
+          snapshot: snapshot as any,
+          mergedBy,
+          undoExpiresAt
+        }
+      })
+    })
+
+    logger.info(`Merged ${sourceDocumentIds.length} documents into ${targetDocumentId} (${movedMessageRows.length} messages, ${movedFaqRows.length} FAQs moved)`)
+
+    const result: DocumentMergeResult = {
+      mergeId: merge.id,
+      targetDocumentId,
+      sourceDocumentIds,
+      messagesMoved: movedMessageRows.length,
+      duplicateMessages,
+      faqsMoved: movedFaqRows.length,
+      undoExpiresAt
+    }
+
+    await curationActivityService.record({
+      userId: mergedBy,
+      activityType: ActivityType.DOCUMENT_MERGED,
+      targetType: ActivityTargetType.DOCUMENT,
+      targetId: targetDocumentId,
+      details: {
+        mergeId: merge.id,
+        sourceDocumentIds,
+        messagesMoved: result.messagesMoved,
+        duplicateMessages,
+        faqsMoved: result.faqsMoved,
+        rolesReanalysed: snapshot.analysisReplaced
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * Put back everything a merge changed and restore the archived documents
+   * Messages and FAQs added to the surviving document since the merge stay where they are
+   *
+   * @throws DocumentMergeError when the merge is missing, past its undo window or blocked by a later merge
+   */
+  async undoMerge(mergeId: string, undoneBy: string): Promise<DocumentMergeDisplay> {
+    const merge = await db.documentMerge.findUnique({ where: { id: mergeId } })
+
+    if (!merge) {
+      throw new DocumentMergeError('Merge not found', 'NOT_FOUND', mergeId)
+    }
+
+    const snapshot = merge.snapshot as unknown as DocumentMergeSnapshot
+
+    const undone = await db.$transaction(async (tx) => {
+      const blocked = await this.undoBlockedReason(tx, merge)
+      if (blocked) {
+        throw new DocumentMergeError(blocked.message, blocked.code, mergeId)
+      }
+
+      // Roles first: the snapshot covers the moved rows by ID, wherever they are
+      if (snapshot.analysisReplaced) {
+        await this.applyRoles(tx, snapshot.targetRoles)
+        await tx.processedDocument.update({
+          where: { id: merge.targetDocumentId },
+          data: { conversationAnalysis: snapshot.targetAnalysis ?? Prisma.DbNull }
+        })
+      }
+
+      for (const sourceId of merge.sourceDocumentIds) {
+        const messageRowIds = snapshot.movedMessageRows.filter(row => row.fromDocumentId === sourceId).map(row => row.rowId)
+        const faqRowIds = snapshot.movedFaqRows.filter(row => row.fromDocumentId === sourceId).map(row => row.rowId)
+
+        if (messageRowIds.length > 0) {
+          await tx.documentMessage.updateMany({
+            where: { id: { in: messageRowIds }, documentId: merge.targetDocumentId },
+            data: { documentId: sourceId }
+          })
+        }
+        if (faqRowIds.length > 0) {
+          await tx.documentFAQ.updateMany({
+            where: { id: { in: faqRowIds }, documentId: merge.targetDocumentId },
+            data: { documentId: sourceId }
+          })
+        }
+
+        await tx.processedDocument.update({
+          where: { id: sourceId },
+          data: {
+            status: (snapshot.sourceStatuses[sourceId] || 'COMPLETE') as any,
+            mergedIntoId: null,
+            mergedAt: null
+          }
+        })
+      }
+
+      return tx.documentMerge.update({
+        where: { id: mergeId },
+        data: { undoneAt: new Date(), undoneBy }
+      })
+    })
+
+    logger.info(`Undid merge ${mergeId} of ${merge.sourceDocumentIds.length} documents into ${merge.targetDocumentId}`)
+
+    await curationActivityService.record({
+      userId: undoneBy,
+      activityType: ActivityType.DOCUMENT_UNMERGED,
+      targetType: ActivityTargetType.DOCUMENT,
+      targetId: merge.targetDocumentId,
+      details: { mergeId, sourceDocumentIds: merge.sourceDocumentIds }
+    })
+
+    const [display] = await this.toDisplay([undone])
+    return display
+  }
+
+  /**
+   * Merges into or out of a document, newest first
+   */
+  async listMerges(documentId: string): Promise<DocumentMergeDisplay[]> {
+    const merges = await db.documentMerge.findMany({
+      where: {
+        OR: [
+          { targetDocumentId: documentId },
+          { sourceDocumentIds: { has: documentId } }
+        ]
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return this.toDisplay(merges)
+  }
+
+  /**
+   * Why a merge can no longer be undone, or null when it can
+   */
+  private async undoBlockedReason(
+    client: Tx,
+    merge: DocumentMerge
+  ): Promise<{ message: string; code: 'UNDO_EXPIRED' | 'UNDO_BLOCKED' } | null> {
+    if (merge.undoneAt) {
+      return { message: 'This merge has already been undone', code: 'UNDO_BLOCKED' }
+    }
+    if (merge.undoExpiresAt.getTime() <= Date.now()) {
+      return { message: `Merges can only be undone within ${UNDO_WINDOW_HOURS} hours`, code: 'UNDO_EXPIRED' }
+    }
+
+    const target = await client.processedDocument.findUnique({
+      where: { id: merge.targetDocumentId },
+      select: { mergedIntoId: true }
+    })
+    if (target?.mergedIntoId) {
+      return { message: 'The merged document has since been merged into another; undo that merge first', code: 'UNDO_BLOCKED' }
+    }
+
+    const later = await client.documentMerge.count({
+      where: { targetDocumentId: merge.targetDocumentId, undoneAt: null, createdAt: { gt: merge.createdAt } }
+    })
+    if (later > 0) {
+      return { message: 'More documents have been merged in since; undo the later merge first', code: 'UNDO_BLOCKED' }
+    }
+
+    return null
+  }
+
+  /**
+   * Set roles on document-message rows, one update per distinct role and confidence
+   */
+  private async applyRoles(
+    tx: Tx,
+    rows: Array<{ rowId: string, messageRole: string, processingConfidence: number }>
+  ): Promise<void> {
+    const groups = new Map<string, { messageRole: string, processingConfidence: number, rowIds: string[] }>()
+
+    for (const row of rows) {
+      const key = `${row.messageRole}:${row.processingConfidence}`
+      const group = groups.get(key) || { messageRole: row.messageRole, processingConfidence: row.processingConfidence, rowIds: [] }
+      group.rowIds.push(row.rowId)
+      groups.set(key, group)
+    }
+
+    for (const group of Array.from(groups.values())) {
+      await tx.documentMessage.updateMany({
+        where: { id: { in: group.rowIds } },
+        data: { messageRole: group.messageRole as any, processingConfidence: group.processingConfidence }
+      })
+    }
+  }
+
+  /**
+   * Validate the target and source document IDs
+   */
+  private validateDocumentIds(targetDocumentId: string, sourceDocumentIds: string[]): void {
+    if (!targetDocumentId || typeof targetDocumentId !== 'string') {
+      throw new ValidationError('targetDocumentId is required', 'targetDocumentId')
+    }
+    if (!Array.isArray(sourceDocumentIds) || sourceDocumentIds.length === 0 || sourceDocumentIds.some(id => !id || typeof id !== 'string')) {
+      throw new ValidationError('sourceDocumentIds must be a non-empty array of document IDs', 'sourceDocumentIds')
+    }
+    if (sourceDocumentIds.length > MAX_SOURCES) {
+      throw new ValidationError(`At most ${MAX_SOURCES} documents can be merged at once`, 'sourceDocumentIds')
+    }
+    if (new Set(sourceDocumentIds).size !== sourceDocumentIds.length) {
+      throw new ValidationError('sourceDocumentIds must not contain duplicates', 'sourceDocumentIds')
+    }
+    if (sourceDocumentIds.includes(targetDocumentId)) {
+      throw new ValidationError('A document cannot be merged into itself', 'sourceDocumentIds')
+    }
+  }
+
+  /**
+   * Attach source titles and whether each merge can still be undone
+   */
+  private async toDisplay(merges: DocumentMerge[]): Promise<DocumentMergeDisplay[]> {
+    const sourceIds = Array.from(new Set(merges.flatMap(merge => merge.sourceDocumentIds)))
+    const sources = sourceIds.length > 0
+      ? await db.processedDocument.findMany({ where: { id: { in: sourceIds } }, select: { id: true, title: true } })
+      : []
+    const titles = new Map(sources.map(source => [source.id, source.title]))
+
+    return Promise.all(merges.map(async (merge) => ({
+      id: merge.id,
+      targetDocumentId: merge.targetDocumentId,
+      sourceDocumentIds: merge.sourceDocumentIds,
+      sourceTitles: Object.fromEntries(merge.sourceDocumentIds.map(id => [id, titles.get(id) || id])),
+      mergedBy: merge.mergedBy,
+      createdAt: merge.createdAt,
+      undoExpiresAt: merge.undoExpiresAt,
+      undoneAt: merge.undoneAt,
+      undoneBy: merge.undoneBy,
+      canUndo: !(await this.undoBlockedReason(db, merge))
+    })))
+  }
+}
+
+// Export singleton instance
+export const documentMergeService = new DocumentMergeService()
+export default documentMergeService
@@ -6,12 +6,17 @@
 
 import { logger } from './logger'
 import { db } from './db'
-import { geminiService } from './gemini'
+import { llmService } from './llm'
 import { piiDetectorService } from './piiDetector'
+import { notificationDispatcherService } from './notificationDispatcher'
+import { curationActivityService } from './curationActivity'
 import { 
+  ActivityTargetType,
+  ActivityType,
   ProcessedDocument, 
   DocumentProcessingInput,
   InclusionMethod,
+  NotificationEvent,
   PIISourceType,
   ProcessingError
 } from '@/types'
@@ -63,6 +68,14 @@ class DocumentProcessorService {
       }
     })
 
+    const notification = {
+      source: 'automation' as const,
+      jobId: processingJob.id,
+      jobType: processingJob.jobType,
+      startedAt: processingJob.startedAt
+    }
+    void notificationDispatcherService.notifyJobEvent({ ...notification, event: NotificationEvent.JOB_STARTED })
+
     try {
       // Validate input
       this.validateInput(input)
@@ -87,6 +100,9 @@ class DocumentProcessorService {
       const piiResults = await this.processPII(messages)
       logger.info(`Detected and replaced ${piiResults.replacements} PII instances`)
 
+      // Only redacted text is sent to the AI
+      const redactedMessages = await this.redactMessages(messages)
+
       // Update progress
       await db.automationJob.update({
         where: { id: processingJob.id },
@@ -94,8 +110,8 @@ class DocumentProcessorService {
       })
 
       // Generate AI conversation analysis
-      const conversationAnalysisResult = await geminiService.analyzeConversationPatterns(
-        messages.map(m => ({
+      const conversationAnalysisResult = await llmService.analyzeConversationPatterns(
+        redactedMessages.map(m => ({
           id: m.id,
           text: m.text,
           username: m.username,
@@ -112,7 +128,7 @@ class DocumentProcessorService {
       })
 
       // Create the document with AI analysis
-      const document = await this.createDocument(input, messages, conversationAnalysis)
+      const document = await this.createDocument(input, redactedMessages, conversationAnalysis)
 
       // Update progress
       await db.automationJob.update({
@@ -129,6 +145,17 @@ class DocumentProcessorService {
         input.userId
       )
 
+      // The document's history starts with the messages it was created from
+      if (input.userId) {
+        await curationActivityService.record({
+          userId: input.userId,
+          activityType: ActivityType.MESSAGE_ADDED,
+          targetType: ActivityTargetType.DOCUMENT,
+          targetId: document.id,
+          details: { messageIds: messages.map(message => message.id), reason: 'Document created' }
+        })
+      }
+
       // Update the document to reference the processing job
       await db.processedDocument.update({
         where: { id: document.id },
@@ -154,6 +181,12 @@ class DocumentProcessorService {
       const processingTimeMs = Date.now() - startTime
       logger.info(`Document processing completed in ${processingTimeMs}ms: "${document.title}"`)
 
+      void notificationDispatcherService.notifyJobEvent({
+        ...notification,
+        event: NotificationEvent.JOB_COMPLETED,
+        details: { documentId: document.id, messageCount: messages.length }
+      })
+
       return {
         document,
         analysisResults: {
@@ -175,6 +208,12 @@ class DocumentProcessorService {
         }
       })
 
+      void notificationDispatcherService.notifyJobEvent({
+        ...notification,
+        event: NotificationEvent.JOB_FAILED,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      })
+
       logger.error('Document processing failed:', error)
       throw new ProcessingError(`Document processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
@@ -190,6 +229,7 @@ class DocumentProcessorService {
   ): Promise<{
     updatedDocument: ProcessedDocument
     addedMessages: Message[]
+    skippedMessageIds: string[] // Deleted or unknown messages that were not added
     stats: ProcessingStats
   }> {
     const startTime = Date.now()
@@ -207,8 +247,21 @@ class DocumentProcessorService {
         throw new ProcessingError(`Document ${documentId} not found`)
       }
 
-      // Step 2: Fetch new messages
-      const newMessages = await db.message.findMany({ where: { id: { in: additionalMessageIds } } })
+      if (existingDocument.mergedIntoId) {
+        throw new ProcessingError(`Document ${documentId} was merged into ${existingDocument.mergedIntoId}; add messages there instead`)
+      }
+
+      // Step 2: Fetch new messages; deleted and tombstoned messages are never added
+      const newMessages = await db.message.findMany({ where: { id: { in: additionalMessageIds }, deletedAt: null } })
+      const foundIds = new Set(newMessages.map(message => message.id))
+      const skippedMessageIds = additionalMessageIds.filter(id => !foundIds.has(id))
+
+      if (newMessages.length === 0) {
+        throw new ProcessingError('None of the messages exist or all of them were deleted')
+      }
+      if (skippedMessageIds.length > 0) {
+        logger.warn(`Skipping ${skippedMessageIds.length} deleted or unknown messages while enhancing document ${documentId}`)
+      }
 
       // Step 3: Process PII in new messages
       const piiResults = await this.processPII(newMessages)
@@ -228,11 +281,22 @@ class DocumentProcessorService {
         userId
       )
 
+      if (userId) {
+        await curationActivityService.record({
+          userId,
+          activityType: ActivityType.MESSAGE_ADDED,
+          targetType: ActivityTargetType.DOCUMENT,
+          targetId: documentId,
+          details: { messageIds: newMessages.map(message => message.id) }
+        })
+      }
+
       logger.info(`Document ${documentId} enhanced with ${newMessages.length} messages`)
 
       return {
         updatedDocument,
         addedMessages: newMessages,
+        skippedMessageIds,
         stats: {
           messagesAnalyzed: newMessages.length,
           messagesIncluded: newMessages.length,
@@ -253,27 +317,70 @@ class DocumentProcessorService {
 
   /**
    * Remove messages from a document
+   *
+   * @returns How many messages were removed
    */
   async removeMessagesFromDocument(
     documentId: string,
     messageIds: string[],
-    reason?: string
-  ): Promise<void> {
+    reason?: string,
+    userId?: string
+  ): Promise<number> {
     try {
-      await db.documentMessage.deleteMany({
+      const { count } = await db.documentMessage.deleteMany({
         where: {
           documentId,
           messageId: { in: messageIds }
         }
       })
 
-      logger.info(`Removed ${messageIds.length} messages from document ${documentId}`)
+      if (userId && count > 0) {
+        await curationActivityService.record({
+          userId,
+          activityType: ActivityType.MESSAGE_REMOVED,
+          targetType: ActivityTargetType.DOCUMENT,
+          targetId: documentId,
+          details: { messageIds, ...(reason && { reason }) }
+        })
+      }
+
+      logger.info(`Removed ${count} messages from document ${documentId}`)
+      return count
     } catch (error) {
       logger.error('Failed to remove messages from document:', error)
       throw new ProcessingError(`Failed to remove messages: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
+  /**
+   * Re-run the conversation analysis over a set of messages (e.g. after a merge)
+   * Only redacted text is sent to the AI; messages the analysis does not place get the CONTEXT role
+   */
+  async analyzeMessageRoles(messages: Message[]): Promise<{
+    conversationAnalysis: any | null
+    roles: Map<string, { role: string; confidence: number }>
+  }> {
+    const ordered = [...messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    const redactedMessages = await this.redactMessages(ordered)
+
+    const result = await llmService.analyzeConversationPatterns(
+      redactedMessages.map(m => ({
+        id: m.id,
+        text: m.text,
+        username: m.username,
+        timestamp: m.timestamp.toISOString(),
+        channel: m.channel
+      }))
+    )
+    const conversationAnalysis = result.success ? result.data : null
+
+    if (!conversationAnalysis) {
+      logger.warn(`Conversation analysis failed for ${messages.length} messages: ${result.error || 'no result'}`)
+    }
+
+    return { conversationAnalysis, roles: this.buildMessageRoleMap(conversationAnalysis) }
+  }
+
   /**
    * Validate document processing input
    */
@@ -299,7 +406,8 @@ class DocumentProcessorService {
   private async fetchMessages(messageIds: string[]): Promise<Message[]> {
     const messages = await db.message.findMany({
       where: {
-        id: { in: messageIds }
+        id: { in: messageIds },
+        deletedAt: null
       },
       orderBy: { timestamp: 'asc' }
     })
@@ -325,7 +433,7 @@ class DocumentProcessorService {
 
     for (const message of messages) {
             try {
-        const detections = await piiDetectorService.detectPII(message.text, PIISourceType.MESSAGE, message.id)
+        const detections = await piiDetectorService.detectPII(message.text, PIISourceType.MESSAGE, message.id, { channel: message.channel })
         // Type cast to handle enum compatibility
         allDetections.push(...(detections as PIIDetection[]))
         totalReplacements += detections.length
@@ -340,6 +448,14 @@ class DocumentProcessorService {
     }
   }
 
+  /**
+   * Replace message text with its redacted form (see piiDetectorService.getRedactedText)
+   */
+  private async redactMessages(messages: Message[]): Promise<Message[]> {
+    const redactedTexts = await piiDetectorService.getRedactedTexts(messages.map(m => m.id))
+    return messages.map(m => ({ ...m, text: redactedTexts.get(m.id) ?? m.text }))
+  }
+
   /**
    * Generate document metadata using AI or defaults
    */
@@ -348,7 +464,7 @@ class DocumentProcessorService {
   ): Promise<{ title: string; description: string; category: string; confidence: number }> {
     const messageContent = messages.map((m) => m.text).join('\n')
     
-    const metadataResult = await geminiService.generateDocumentMetadata(messageContent)
+    const metadataResult = await llmService.generateDocumentMetadata(messageContent)
     
     if (metadataResult.success && metadataResult.data) {
       return { ...metadataResult.data, confidence: 0.8 }
@@ -420,8 +536,39 @@ class DocumentProcessorService {
     addedBy?: string
   ): Promise<void> {
     const relationships: any[] = []
+    const messageRoleMap = this.buildMessageRoleMap(conversationAnalysis)
+
+    for (const message of messages) {
+      const roleInfo = messageRoleMap.get(message.id) || { role: 'CONTEXT', confidence: 0.8 }
+      
+      relationships.push({
+        documentId,
+        messageId: message.id,
+        inclusionMethod,
+        messageRole: roleInfo.role,
+        addedBy,
+        processingConfidence: roleInfo.confidence
+      })
+    }
+
+    await db.documentMessage.createMany({
+      data: relationships
+    })
+
+    logger.info(`Created ${relationships.length} document-message relationships with AI-determined roles`)
+    console.log('Document-message relationships created:', relationships.map(r => ({
+      documentId: r.documentId,
+      messageId: r.messageId,
+      role: r.messageRole,
+      method: r.inclusionMethod,
+      confidence: r.processingConfidence
+    })))
+  }
 
-    // Create a map of message ID to role based on AI analysis
+  /**
+   * Map message IDs to database roles from the AI conversation analysis
+   */
+  private buildMessageRoleMap(conversationAnalysis: any): Map<string, { role: string; confidence: number }> {
     const messageRoleMap = new Map<string, { role: string; confidence: number }>()
     
     if (conversationAnalysis?.patterns) {
@@ -456,31 +603,7 @@ class DocumentProcessorService {
       }
     }
 
-    for (const message of messages) {
-      const roleInfo = messageRoleMap.get(message.id) || { role: 'CONTEXT', confidence: 0.8 }
-      
-      relationships.push({
-        documentId,
-        messageId: message.id,
-        inclusionMethod,
-        messageRole: roleInfo.role,
-        addedBy,
-        processingConfidence: roleInfo.confidence
-      })
-    }
-
-    await db.documentMessage.createMany({
-      data: relationships
-    })
-
-    logger.info(`Created ${relationships.length} document-message relationships with AI-determined roles`)
-    console.log('Document-message relationships created:', relationships.map(r => ({
-      documentId: r.documentId,
-      messageId: r.messageId,
-      role: r.messageRole,
-      method: r.inclusionMethod,
-      confidence: r.processingConfidence
-    })))
+    return messageRoleMap
   }
 
   /**
@@ -612,12 +735,12 @@ class DocumentProcessorService {
         }
       }
 
-      // Test Gemini service
-      const geminiHealth = await geminiService.healthCheck()
-      if (!geminiHealth.isHealthy) {
+      // Test the configured LLM provider
+      const llmHealth = await llmService.healthCheck()
+      if (!llmHealth.isHealthy) {
         return {
           isHealthy: false,
-          error: `Gemini service error: ${geminiHealth.error}`
+          error: `LLM provider (${llmHealth.details.provider}) error: ${llmHealth.error}`
         }
       }
 
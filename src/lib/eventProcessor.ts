@@ -6,13 +6,20 @@
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { piiDetectorService } from '@/lib/piiDetector'
+import { slackUserDirectoryService } from '@/lib/slackUserDirectory'
+import { messageRevisionService } from '@/lib/messageRevisions'
+import { messageDeletionService } from '@/lib/messageDeletion'
+import { slackContentService } from '@/lib/slackContent'
+import { messageEmbeddingService } from '@/lib/messageEmbeddings'
+import { faqAnswerService } from '@/lib/faqAnswers'
 import { 
   parseSlackTimestamp, 
-  formatUsername, 
   isMessageDeletion, 
-  isMessageEdit 
+  isMessageEdit,
+  isIngestibleMessage
 } from '@/lib/slack'
-import type { SlackWebhookPayload, PIISourceType } from '@/types'
+import { ValidationError } from '@/types'
+import type { SlackWebhookPayload, SlackUserInfo, PIISourceType } from '@/types'
 
 export enum EventProcessingResult {
   SUCCESS = 'SUCCESS',
@@ -21,6 +28,11 @@ export enum EventProcessingResult {
   DUPLICATE = 'DUPLICATE'
 }
 
+// Events stuck in PROCESSING longer than this are treated as interrupted
+const STALE_PROCESSING_MS = 15 * 60 * 1000
+// A failed FAQ answer is tried again after this long (the answer service ignores questions past their max age)
+const ANSWER_RETRY_DELAY_MS = 60 * 1000
+
 interface ProcessingResult {
   result: EventProcessingResult
   message?: string
@@ -30,6 +42,71 @@ interface ProcessingResult {
 
 interface ProcessingOptions {
   skipPIIDetection?: boolean
+  /** Reprocess an existing SlackEvent row instead of logging a new one (used for retries) */
+  existingEventId?: string
+  /** Attempts allowed before the event is dead-lettered (defaults to the retry policy) */
+  maxAttempts?: number
+}
+
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export interface RetrySummary {
+  retried: number
+  succeeded: number
+  failed: number
+  deadLettered: number
+}
+
+export interface AnswerSummary {
+  checked: number
+  answered: number
+  failed: number
+}
+
+/**
+ * Retry policy for failed Slack events, configurable through the environment
+ */
+export const getRetryPolicy = (): RetryPolicy => ({
+  maxAttempts: parseInt(process.env.SLACK_EVENT_MAX_ATTEMPTS || '3'),
+  baseDelayMs: parseInt(process.env.SLACK_EVENT_RETRY_BASE_DELAY_MS || '60000'),
+  maxDelayMs: parseInt(process.env.SLACK_EVENT_RETRY_MAX_DELAY_MS || '3600000')
+})
+
+/**
+ * Exponential backoff delay before the next attempt (base * 2^(attempts - 1), capped)
+ */
+export const calculateRetryDelay = (attempts: number, policy: RetryPolicy = getRetryPolicy()): number => {
+  const exponent = Math.max(0, attempts - 1)
+  return Math.min(policy.baseDelayMs * Math.pow(2, exponent), policy.maxDelayMs)
+}
+
+/**
+ * Record a failed attempt - schedules the next retry or dead-letters the event
+ */
+const markEventFailed = async (
+  eventId: string,
+  attempts: number,
+  errorMessage: string,
+  maxAttempts: number
+): Promise<void> => {
+  const exhausted = attempts >= maxAttempts
+
+  await db.slackEvent.update({
+    where: { id: eventId },
+    data: {
+      status: exhausted ? 'DEAD_LETTER' : 'FAILED',
+      errorMessage,
+      nextRetryAt: exhausted ? null : new Date(Date.now() + calculateRetryDelay(attempts))
+    }
+  })
+
+  if (exhausted) {
+    logger.warn(`Slack event ${eventId} dead-lettered after ${attempts} attempt(s): ${errorMessage}`)
+  }
 }
 
 /**
@@ -41,32 +118,39 @@ export const processSlackEvent = async (
   options: ProcessingOptions = {}
 ): Promise<ProcessingResult> => {
   const eventId = payload.event_id || `${Date.now()}-${Math.random()}`
+  const maxAttempts = options.maxAttempts ?? getRetryPolicy().maxAttempts
   
-  // First, log the incoming event
-  const slackEvent = await db.slackEvent.create({
-    data: {
-      slackEventId: eventId,
-      eventType: payload.type,
-      eventSubtype: payload.event?.subtype || null,
-      payload: JSON.parse(rawPayload),
-      channel: payload.event?.channel || null,
-      status: 'PENDING',
-      attempts: 0
-    }
-  })
+  // First, log the incoming event (retries reuse the row that was logged originally)
+  const slackEvent = options.existingEventId
+    ? { id: options.existingEventId }
+    : await db.slackEvent.create({
+        data: {
+          slackEventId: eventId,
+          eventType: payload.type,
+          eventSubtype: payload.event?.subtype || null,
+          payload: JSON.parse(rawPayload),
+          channel: payload.event?.channel || null,
+          status: 'PENDING',
+          attempts: 0
+        }
+      })
 
   logger.info(`Processing Slack event: ${eventId} (${payload.type})`)
 
+  let attempts = 1
+
   try {
     // Update status to processing
-    await db.slackEvent.update({
+    const processingEvent = await db.slackEvent.update({
       where: { id: slackEvent.id },
       data: { 
         status: 'PROCESSING', 
-        attempts: 1,
-        lastAttemptAt: new Date()
+        attempts: { increment: 1 },
+        lastAttemptAt: new Date(),
+        nextRetryAt: null
       }
     })
+    attempts = processingEvent.attempts
 
     // Handle URL verification (no further processing needed)
     if (payload.type === 'url_verification') {
@@ -84,16 +168,24 @@ export const processSlackEvent = async (
 
     // Handle event callbacks
     if (payload.type === 'event_callback' && payload.event) {
-      const result = await processMessageEvent(payload.event, slackEvent.id, options)
+      const result = payload.event.type === 'user_change'
+        ? await processUserChangeEvent(payload.event)
+        : await processMessageEvent(payload.event, slackEvent.id, options)
+
+      if (result.result === EventProcessingResult.FAILED) {
+        await markEventFailed(slackEvent.id, attempts, result.error?.message || 'Unknown error', maxAttempts)
+        return result
+      }
       
-      // Update event status based on result
+      // Update event status based on result (a duplicate means the message is already stored)
+      // New questions are queued for an FAQ answer, sent by the retry worker after Slack is acknowledged
       await db.slackEvent.update({
         where: { id: slackEvent.id },
         data: { 
-          status: result.result === EventProcessingResult.SUCCESS ? 'SUCCESS' : 
-                  result.result === EventProcessingResult.SKIPPED ? 'SKIPPED' : 'FAILED',
-          errorMessage: result.error?.message || null,
-          messageId: result.data?.messageId || null
+          status: result.result === EventProcessingResult.SUCCESS ? 'SUCCESS' : 'SKIPPED',
+          errorMessage: result.result === EventProcessingResult.DUPLICATE ? result.message || null : null,
+          messageId: result.data?.messageId || null,
+          answerDueAt: result.data?.answerPending ? new Date() : null
         }
       })
 
@@ -117,14 +209,17 @@ export const processSlackEvent = async (
   } catch (error) {
     logger.error('Event processing failed:', error)
 
-    // Update event with error
-    await db.slackEvent.update({
-      where: { id: slackEvent.id },
-      data: { 
-        status: 'FAILED',
-        errorMessage: error instanceof Error ? error.message : 'Unknown error'
-      }
-    })
+    // Update event with error and schedule the next retry
+    try {
+      await markEventFailed(
+        slackEvent.id,
+        attempts,
+        error instanceof Error ? error.message : 'Unknown error',
+        maxAttempts
+      )
+    } catch (updateError) {
+      logger.error(`Failed to record failure for Slack event ${slackEvent.id}:`, updateError)
+    }
 
     return {
       result: EventProcessingResult.FAILED,
@@ -133,6 +228,23 @@ export const processSlackEvent = async (
   }
 }
 
+/**
+ * Process user_change events - refresh the user directory and that user's messages
+ */
+const processUserChangeEvent = async (event: any): Promise<ProcessingResult> => {
+  const profile = event.user as SlackUserInfo
+  const updatedMessages = await slackUserDirectoryService.handleUserChange(profile)
+
+  return {
+    result: EventProcessingResult.SUCCESS,
+    message: 'User profile updated',
+    data: {
+      slackUserId: profile.id,
+      updatedMessages
+    }
+  }
+}
+
 /**
  * Process message-related events (new, edit, delete)
  */
@@ -152,16 +264,14 @@ const processMessageEvent = async (
 
     logger.info(`Processing message deletion for slackId: ${deletedMessageId}, channel: ${event.channel}`)
 
-    // Get message records before deletion to clean up PII detections
-    const messagesToDelete = await db.message.findMany({
-      where: {
-        slackId: deletedMessageId,
-        channel: event.channel
-      },
-      select: { id: true, isThreadReply: true, text: true }
+    // Deletion policy (soft-delete, tombstone, hard-delete) and document/FAQ re-evaluation
+    const deletion = await messageDeletionService.deleteMessages({
+      slackId: deletedMessageId,
+      channel: event.channel,
+      source: 'slack_event'
     })
 
-    if (messagesToDelete.length === 0) {
+    if (deletion.deletedCount === 0) {
       logger.warn(`No messages found for deletion with slackId: ${deletedMessageId}`)
       return {
         result: EventProcessingResult.SKIPPED,
@@ -169,44 +279,19 @@ const processMessageEvent = async (
       }
     }
 
-    logger.info(`Found ${messagesToDelete.length} message(s) to delete:`, messagesToDelete.map(m => ({ id: m.id, isThreadReply: m.isThreadReply, text: m.text.substring(0, 50) })))
-
-    const deletedMessage = await db.message.deleteMany({
-      where: {
-        slackId: deletedMessageId,
-        channel: event.channel
-      }
-    })
-
-    // Clean up associated PII detections
-    if (messagesToDelete.length > 0) {
-      try {
-        const messageIds = messagesToDelete.map(m => m.id)
-        const deletedPII = await db.pIIDetection.deleteMany({
-          where: {
-            sourceType: 'MESSAGE',
-            sourceId: { in: messageIds }
-          }
-        })
-        
-        if (deletedPII.count > 0) {
-          logger.info(`Cleaned up ${deletedPII.count} PII detections for deleted messages`)
-        }
-        
-      } catch (piiError) {
-        logger.error(`Failed to clean up PII detections for deleted message ${deletedMessageId}:`, piiError)
-      }
-    }
-
-    logger.slack(`Message deleted: ${deletedMessageId} in channel ${event.channel} (${deletedMessage.count} records deleted, including ${messagesToDelete.filter(m => m.isThreadReply).length} thread replies)`)
+    logger.slack(`Message deleted: ${deletedMessageId} in channel ${event.channel} (${deletion.deletedCount} records ${deletion.policy.toLowerCase()}, including ${deletion.threadRepliesDeleted} thread replies)`)
     
     return {
       result: EventProcessingResult.SUCCESS,
       message: 'Message deletion processed',
       data: { 
         deletedSlackId: deletedMessageId,
-        deletedCount: deletedMessage.count,
-        threadRepliesDeleted: messagesToDelete.filter(m => m.isThreadReply).length
+        deletedCount: deletion.deletedCount,
+        threadRepliesDeleted: deletion.threadRepliesDeleted,
+        policy: deletion.policy,
+        affectedDocumentIds: deletion.affectedDocumentIds,
+        affectedFAQIds: deletion.affectedFAQIds,
+        flaggedFAQIds: deletion.flaggedFAQIds
       }
     }
   }
@@ -220,76 +305,103 @@ const processMessageEvent = async (
       throw new Error('Missing edited message data')
     }
 
-    const updatedMessage = await db.message.updateMany({
+    const messagesToEdit = await db.message.findMany({
       where: {
         slackId: editedMessage.ts,
-        channel: event.channel
+        channel: event.channel,
+        deletedAt: null
       },
-      data: {
-        text: editedMessage.text,
-        updatedAt: new Date()
+      select: {
+        id: true,
+        text: true,
+        attachments: { select: { name: true, title: true, content: true } }
       }
     })
 
-    logger.slack(`Message edited: ${editedMessage.ts} (${updatedMessage.count} records)`)
+    // Rebuild the searchable text with the already extracted file text
+    const editedTexts = messagesToEdit.map(m => ({
+      id: m.id,
+      text: m.text,
+      newText: slackContentService.composeText(editedMessage.text, editedMessage, m.attachments)
+    }))
+
+    // Slack also sends message_changed for unfurls and reactions - only real text changes are revisions
+    const changedMessages = editedTexts.filter(m => m.text !== m.newText)
+    const editedAt = editedMessage.edited?.ts
+      ? parseSlackTimestamp(editedMessage.edited.ts)
+      : new Date()
+
+    let staleDocuments = 0
+    let staleFAQs = 0
+
+    for (const messageRecord of changedMessages) {
+      const revision = await messageRevisionService.recordEdit({
+        messageId: messageRecord.id,
+        previousText: messageRecord.text,
+        newText: messageRecord.newText,
+        editedAt,
+        editedBy: editedMessage.edited?.user || editedMessage.user || null
+      })
+      staleDocuments += revision.staleDocumentIds.length
+      staleFAQs += revision.staleFAQIds.length
+    }
+
+    logger.slack(`Message edited: ${editedMessage.ts} (${changedMessages.length} records, ${staleDocuments} documents and ${staleFAQs} FAQs now have stale sources)`)
     
     // Re-run PII detection on edited message
-    if (updatedMessage.count > 0) {
+    const redactedIds: string[] = []
+    for (const messageRecord of changedMessages) {
       try {
-        // Get the updated message record to get its ID
-        const messageRecord = await db.message.findFirst({
+        // Remove old PII detections for this message
+        await db.pIIDetection.deleteMany({
           where: {
-            slackId: editedMessage.ts,
-            channel: event.channel
+            sourceType: 'MESSAGE',
+            sourceId: messageRecord.id
           }
         })
         
-        if (messageRecord) {
-          // Remove old PII detections for this message
-          await db.pIIDetection.deleteMany({
-            where: {
-              sourceType: 'MESSAGE',
-              sourceId: messageRecord.id
-            }
-          })
-          
-          // Run new PII detection
-          const piiDetections = await piiDetectorService.detectPII(
-            editedMessage.text,
-            'MESSAGE' as PIISourceType,
-            messageRecord.id,
-            {
-              useAI: true,
-              preserveBusinessEmails: true,
-              confidenceThreshold: 0.7
-            }
-          )
-          
-          if (piiDetections.length > 0) {
-            logger.info(`PII detection re-run for edited message ${messageRecord.id}: ${piiDetections.length} items detected`)
+        // Run new PII detection
+        const piiDetections = await piiDetectorService.detectPII(
+          messageRecord.newText,
+          'MESSAGE' as PIISourceType,
+          messageRecord.id,
+          {
+            useAI: true,
+            preserveBusinessEmails: true,
+            confidenceThreshold: 0.7
           }
+        )
+        
+        if (piiDetections.length > 0) {
+          logger.info(`PII detection re-run for edited message ${messageRecord.id}: ${piiDetections.length} items detected`)
         }
+        redactedIds.push(messageRecord.id)
         
       } catch (piiError) {
         // Don't fail message edit processing if PII detection fails
         logger.error(`PII detection failed for edited message ${editedMessage.ts}:`, piiError)
       }
     }
+
+    // Search embeddings follow the new redacted text through the backfill (messages whose PII check failed keep theirs)
+    await messageEmbeddingService.reindexMessages(redactedIds)
     
     return {
       result: EventProcessingResult.SUCCESS,
       message: 'Message edit processed',
       data: { 
         editedSlackId: editedMessage.ts,
-        updatedCount: updatedMessage.count,
+        updatedCount: changedMessages.length,
+        staleDocuments,
+        staleFAQs,
         newText: editedMessage.text,
         previousText: previousMessage.text
       }
     }
   }
 
-  // Handle regular message creation
-  if (event.type === 'message' && event.text && event.user) {
+  // Handle regular message creation (including file shares)
+  if (isIngestibleMessage(event)) {
     
     // Check for duplicate message (idempotency)
     const existingMessage = await db.message.findFirst({
@@ -324,23 +436,40 @@ const processMessageEvent = async (
       parentMessageId = parentMessage?.id || null
     }
 
+    // Files, blocks and attachments are folded into the stored text so PII detection,
+    // documents and FAQs see them; file metadata is kept alongside
+    const content = await slackContentService.extractContent(event)
+
     const message = await db.message.create({
       data: {
         slackId: event.ts,
-        text: event.text,
+        text: content.text,
         userId: event.user,
-        username: formatUsername(event.user),
+        username: await slackUserDirectoryService.resolveUsername(event.user),
         channel: event.channel,
         timestamp: parseSlackTimestamp(event.ts),
         threadTs: threadTs,
         isThreadReply: isThreadReply,
         parentMessageId: parentMessageId,
+        ...(content.attachments.length > 0 && {
+          attachments: { create: content.attachments }
+        })
       }
     })
 
-    logger.slack(`Message stored: ${message.id} (isThreadReply: ${isThreadReply})`)
+    logger.slack(`Message stored: ${message.id} (isThreadReply: ${isThreadReply}, files: ${content.attachments.length})`)
+
+    // Advance the channel's newest ingested ts; same-width ts strings compare in time order
+    await db.channel.updateMany({
+      where: {
+        slackId: event.channel,
+        OR: [{ lastIngestedTs: null }, { lastIngestedTs: { lt: event.ts } }]
+      },
+      data: { lastIngestedTs: event.ts }
+    })
     
     // Perform PII detection on new message (if not skipped)
+    let answerPending = false
     if (!options.skipPIIDetection) {
       try {
         logger.info(`Starting PII detection for message ${message.id} (isThreadReply: ${isThreadReply}, text length: ${message.text.length})`)
@@ -352,7 +481,8 @@ const processMessageEvent = async (
           {
             useAI: true,
             preserveBusinessEmails: true,
-            confidenceThreshold: 0.7
+            confidenceThreshold: 0.7,
+            channel: event.channel
           }
         )
         
@@ -361,6 +491,13 @@ const processMessageEvent = async (
         } else {
           logger.info(`✅ PII detection completed for message ${message.id} (isThreadReply: ${isThreadReply}): No PII detected`)
         }
+
+        // The message is embedded for semantic search by the embedding backfill, off the acknowledgement path
+
+        // Questions in opted-in channels are answered from approved FAQs (matched on the redacted text),
+        // queued on the event rather than answered here: the search and Slack calls would outlast
+        // Slack's 3s acknowledgement window
+        answerPending = !isThreadReply
         
       } catch (piiError) {
         // Don't fail message processing if PII detection fails
@@ -375,7 +512,8 @@ const processMessageEvent = async (
       message: 'Message processed successfully',
       data: { 
         messageId: message.id,
-        piiDetected: true // Always true since we attempted detection
+        piiDetected: true, // Always true since we attempted detection
+        answerPending
       }
     }
   }
@@ -387,15 +525,50 @@ const processMessageEvent = async (
 }
 
 /**
- * Retry failed events
+ * Retry failed events whose backoff has elapsed
+ * Replays the stored payload against the original SlackEvent row; events that
+ * have used up their attempts are moved to the dead-letter state
  */
-export const retryFailedEvents = async (maxRetries: number = 3): Promise<void> => {
+export const retryFailedEvents = async (
+  maxAttempts: number = getRetryPolicy().maxAttempts
+): Promise<RetrySummary> => {
+  const summary: RetrySummary = { retried: 0, succeeded: 0, failed: 0, deadLettered: 0 }
+
+  // Events left in PROCESSING by a crashed instance go back into the retry queue
+  await db.slackEvent.updateMany({
+    where: {
+      status: 'PROCESSING',
+      lastAttemptAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) }
+    },
+    data: {
+      status: 'FAILED',
+      errorMessage: 'Processing was interrupted'
+    }
+  })
+
+  // Failures recorded before dead-lettering existed may already be out of attempts
+  const exhausted = await db.slackEvent.updateMany({
+    where: {
+      status: 'FAILED',
+      attempts: { gte: maxAttempts }
+    },
+    data: {
+      status: 'DEAD_LETTER',
+      nextRetryAt: null
+    }
+  })
+  summary.deadLettered += exhausted.count
+
   const failedEvents = await db.slackEvent.findMany({
     where: {
       status: 'FAILED',
       attempts: {
-        lt: maxRetries
-      }
+        lt: maxAttempts
+      },
+      OR: [
+        { nextRetryAt: null },
+        { nextRetryAt: { lte: new Date() } }
+      ]
     },
     orderBy: {
       createdAt: 'asc'
@@ -403,30 +576,151 @@ export const retryFailedEvents = async (maxRetries: number = 3): Promise<void> =
     take: 100 // Process in batches
   })
 
-  logger.info(`Retrying ${failedEvents.length} failed events`)
+  if (failedEvents.length > 0) {
+    logger.info(`Retrying ${failedEvents.length} failed events`)
+  }
 
   for (const event of failedEvents) {
     try {
-      // Update attempt count
-      await db.slackEvent.update({
-        where: { id: event.id },
-        data: { 
-          attempts: event.attempts + 1,
-          lastAttemptAt: new Date(),
-          status: 'PROCESSING'
-        }
+      // Claim the event so concurrent workers don't replay it twice
+      const claimed = await db.slackEvent.updateMany({
+        where: { id: event.id, status: 'FAILED' },
+        data: { status: 'PROCESSING' }
       })
 
-      // Retry processing
+      if (claimed.count === 0) {
+        continue
+      }
+
+      summary.retried++
+
       const payload = event.payload as unknown as SlackWebhookPayload
-      const result = await processSlackEvent(payload, JSON.stringify(payload))
+      const result = await processSlackEvent(payload, JSON.stringify(payload), {
+        existingEventId: event.id,
+        maxAttempts
+      })
+
+      if (result.result === EventProcessingResult.FAILED) {
+        if (event.attempts + 1 >= maxAttempts) {
+          summary.deadLettered++
+        } else {
+          summary.failed++
+        }
+      } else {
+        summary.succeeded++
+      }
 
       logger.info(`Retry result for event ${event.id}: ${result.result}`)
 
     } catch (error) {
+      summary.failed++
       logger.error(`Retry failed for event ${event.id}:`, error)
     }
   }
+
+  return summary
+}
+
+/**
+ * Check the questions queued by processed events for an FAQ answer
+ * Each event is claimed before its answer is attempted; failures are tried again after a delay,
+ * until the question is too old to answer
+ */
+export const answerPendingQuestions = async (): Promise<AnswerSummary> => {
+  const summary: AnswerSummary = { checked: 0, answered: 0, failed: 0 }
+
+  const dueEvents = await db.slackEvent.findMany({
+    where: { answerDueAt: { lte: new Date() } },
+    orderBy: { answerDueAt: 'asc' },
+    take: 100,
+    select: { id: true, messageId: true, answerDueAt: true }
+  })
+
+  for (const event of dueEvents) {
+    // Claim the event so concurrent workers don't answer it twice
+    const claimed = await db.slackEvent.updateMany({
+      where: { id: event.id, answerDueAt: event.answerDueAt },
+      data: { answerDueAt: null }
+    })
+
+    if (claimed.count === 0 || !event.messageId) {
+      continue
+    }
+
+    summary.checked++
+
+    try {
+      const answer = await faqAnswerService.answerQuestion(event.messageId)
+      if (answer) {
+        summary.answered++
+      }
+    } catch (error) {
+      summary.failed++
+      logger.warn(`FAQ answer failed for message ${event.messageId}, trying again later:`, error)
+
+      await db.slackEvent.update({
+        where: { id: event.id },
+        data: { answerDueAt: new Date(Date.now() + ANSWER_RETRY_DELAY_MS) }
+      })
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Manually replay a dead-lettered (or failed) event from its stored payload
+ * The replay gets a single attempt; failing again returns it to the dead-letter state
+ */
+export const replayEvent = async (eventId: string): Promise<ProcessingResult | null> => {
+  const event = await db.slackEvent.findUnique({ where: { id: eventId } })
+
+  if (!event) {
+    return null
+  }
+
+  const claimed = await db.slackEvent.updateMany({
+    where: { id: eventId, status: { in: ['DEAD_LETTER', 'FAILED'] } },
+    data: { status: 'PROCESSING' }
+  })
+
+  if (claimed.count === 0) {
+    throw new ValidationError(`Only failed or dead-lettered events can be replayed (status: ${event.status})`, 'status')
+  }
+
+  logger.info(`Replaying Slack event ${eventId} (previous attempts: ${event.attempts})`)
+
+  const payload = event.payload as unknown as SlackWebhookPayload
+  return processSlackEvent(payload, JSON.stringify(payload), {
+    existingEventId: eventId,
+    maxAttempts: event.attempts + 1
+  })
+}
+
+/**
+ * Discard a dead-lettered event so it is no longer retried or reported as failing
+ */
+export const discardEvent = async (eventId: string): Promise<boolean> => {
+  const event = await db.slackEvent.findUnique({
+    where: { id: eventId },
+    select: { status: true }
+  })
+
+  if (!event) {
+    return false
+  }
+
+  const discarded = await db.slackEvent.updateMany({
+    where: { id: eventId, status: { in: ['DEAD_LETTER', 'FAILED'] } },
+    data: { status: 'DISCARDED', nextRetryAt: null }
+  })
+
+  if (discarded.count === 0) {
+    throw new ValidationError(`Only failed or dead-lettered events can be discarded (status: ${event.status})`, 'status')
+  }
+
+  logger.info(`Discarded Slack event ${eventId}`)
+  return true
 }
 
 /**
@@ -0,0 +1,75 @@
+/**
+ * Slack Event Retry Worker
+ * Periodically replays FAILED Slack events whose backoff has elapsed, and sends the FAQ answers
+ * queued by new questions (so they must run on a long-lived server, not only in request handlers)
+ * Events that run out of attempts are dead-lettered by the event processor
+ */
+
+import { logger } from './logger'
+import { retryFailedEvents, answerPendingQuestions, getRetryPolicy } from './eventProcessor'
+
+const DEFAULT_INTERVAL_MS = 30 * 1000
+
+/**
+ * Event retry worker service class
+ */
+class EventRetryWorkerService {
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  /**
+   * Start the retry loop
+   */
+  start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => logger.error('Slack event retry run failed:', error))
+    }, intervalMs)
+
+    // Don't keep the process alive just for retries
+    this.timer.unref?.()
+
+    const policy = getRetryPolicy()
+    logger.info(`Slack event retry worker started (interval ${intervalMs}ms, max attempts ${policy.maxAttempts})`)
+  }
+
+  /**
+   * Stop the retry loop
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    logger.info('Slack event retry worker stopped')
+  }
+
+  /**
+   * Retry all due events and answer queued questions once; overlapping runs are skipped
+   */
+  async runOnce(): Promise<void> {
+    if (this.running) return
+    this.running = true
+
+    try {
+      const summary = await retryFailedEvents()
+
+      if (summary.retried > 0 || summary.deadLettered > 0) {
+        logger.info(`Slack event retry run: ${summary.succeeded} succeeded, ${summary.failed} failed, ${summary.deadLettered} dead-lettered`)
+      }
+
+      const answers = await answerPendingQuestions()
+
+      if (answers.checked > 0) {
+        logger.info(`FAQ answer run: ${answers.checked} questions checked, ${answers.answered} answered, ${answers.failed} failed`)
+      }
+    } finally {
+      this.running = false
+    }
+  }
+}
+
+// Export singleton instance
+export const eventRetryWorkerService = new EventRetryWorkerService()
+export default eventRetryWorkerService
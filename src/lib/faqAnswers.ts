@@ -0,0 +1,414 @@
+/**
+ * Slack FAQ Answer Service
+ * Replies in-thread when a new question in an opted-in channel closely matches an
+ * approved FAQ, and records the 👍/👎 feedback given on those replies
+ */
+
+import { db } from './db'
+import { logger } from './logger'
+import { piiDetectorService } from './piiDetector'
+import { vectorStoreService } from './vectorStore'
+import {
+  FAQStatus,
+  SlackApiError,
+  type FAQAnswerChannelSettings,
+  type FAQFeedbackSummary,
+  type SlackBlockActionsPayload
+} from '@/types'
+import type { FAQ, FAQSlackAnswer } from '@prisma/client'
+
+/** Overridable so a local mock Slack can stand in for the Web API */
+const SLACK_API_URL = process.env.SLACK_API_URL || 'https://slack.com/api'
+const REQUEST_TIMEOUT_MS = 10 * 1000
+
+/** Similarity an FAQ needs to be posted, for channels without their own threshold */
+export const DEFAULT_ANSWER_MIN_SCORE = parseFloat(process.env.FAQ_ANSWER_MIN_SCORE || '0.85')
+/** Older questions are not answered, so catch-up syncs and event retries don't reply to stale threads */
+const MAX_QUESTION_AGE_MS = parseInt(process.env.FAQ_ANSWER_MAX_AGE_MINUTES || '15') * 60 * 1000
+const MAX_SOURCE_LINKS = 3
+/** Slack rejects section text over 3000 characters */
+const MAX_SECTION_CHARS = 2900
+
+export const FEEDBACK_ACTION_HELPFUL = 'faq_answer_helpful'
+export const FEEDBACK_ACTION_NOT_HELPFUL = 'faq_answer_not_helpful'
+
+const QUESTION_WORDS = ['what', 'where', 'when', 'why', 'how', 'which', 'who', 'anyone', 'does', 'is', 'can']
+
+interface SlackApiResponse {
+  ok: boolean
+  error?: string
+  ts?: string
+  permalink?: string
+}
+
+/**
+ * Whether a message reads like a question: it has a question mark or starts with a question word
+ */
+export const looksLikeQuestion = (text: string): boolean => {
+  const normalized = text.trim().toLowerCase()
+  if (normalized.length < 10) return false
+  if (normalized.includes('?')) return true
+
+  const firstWord = normalized.split(/\s+/)[0].replace(/[^a-z]/g, '')
+  return QUESTION_WORDS.includes(firstWord)
+}
+
+/**
+ * Escape text for Slack mrkdwn
+ */
+const escapeMrkdwn = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+/**
+ * Slack FAQ answer service class
+ */
+class FAQAnswerService {
+
+  /**
+   * Answer a newly stored message in its thread when it is a question matching an approved FAQ
+   * Only top-level messages in channels with answers enabled are considered; the redacted
+   * text is used for matching
+   *
+   * @returns The posted answer, or null when the message was not answered
+   */
+  async answerQuestion(messageId: string): Promise<FAQSlackAnswer | null> {
+    if (!process.env.SLACK_BOT_TOKEN) return null
+
+    const message = await db.message.findFirst({
+      where: { id: messageId, deletedAt: null, isThreadReply: false },
+      select: { id: true, slackId: true, channel: true, timestamp: true }
+    })
+    if (!message || Date.now() - message.timestamp.getTime() > MAX_QUESTION_AGE_MS) {
+      return null
+    }
+
+    const channel = await db.channel.findUnique({ where: { slackId: message.channel } })
+    if (!channel?.answersEnabled) {
+      return null
+    }
+
+    const redacted = await piiDetectorService.getRedactedTexts([message.id])
+    const text = redacted.get(message.id)?.trim() || ''
+    if (!looksLikeQuestion(text)) {
+      return null
+    }
+
+    const [match] = await vectorStoreService.searchSimilarFAQs(text, {
+      status: [FAQStatus.APPROVED],
+      topK: 1,
+      minScore: channel.answerMinScore ?? DEFAULT_ANSWER_MIN_SCORE
+    })
+    if (!match) {
+      return null
+    }
+
+    // The vector metadata can lag behind a status change, so check the FAQ itself
+    const faq = await db.fAQ.findFirst({ where: { id: match.id, status: FAQStatus.APPROVED } })
+    if (!faq) {
+      return null
+    }
+
+    // Claim the question before posting so a redelivered event cannot answer twice
+    const claimed = await db.fAQSlackAnswer.createMany({
+      data: {
+        faqId: faq.id,
+        channel: message.channel,
+        questionTs: message.slackId,
+        messageId: message.id,
+        score: match.score
+      },
+      skipDuplicates: true
+    })
+    if (claimed.count === 0) {
+      return null
+    }
+
+    const answer = await db.fAQSlackAnswer.findUniqueOrThrow({
+      where: { channel_questionTs: { channel: message.channel, questionTs: message.slackId } }
+    })
+
+    try {
+      const sourceLinks = await this.getSourceLinks(faq.id)
+      const posted = await this.callSlack('chat.postMessage', {
+        channel: message.channel,
+        thread_ts: message.slackId,
+        text: `${faq.question}\n${faq.answer}`,
+        blocks: this.buildAnswerBlocks(faq, answer, sourceLinks),
+        unfurl_links: false
+      })
+
+      logger.slack(`Answered question ${message.id} with FAQ ${faq.id} (score ${match.score.toFixed(2)})`)
+      return db.fAQSlackAnswer.update({
+        where: { id: answer.id },
+        data: { replyTs: posted.ts }
+      })
+    } catch (error) {
+      // Release the claim so the question isn't recorded as answered
+      await db.fAQSlackAnswer.delete({ where: { id: answer.id } })
+      throw error
+    }
+  }
+
+  /**
+   * Record 👍/👎 clicks from answer messages; a user's later click replaces their earlier vote
+   *
+   * @returns Number of votes recorded
+   */
+  async handleBlockActions(payload: SlackBlockActionsPayload): Promise<number> {
+    let recorded = 0
+
+    for (const action of payload.actions || []) {
+      if (action.action_id !== FEEDBACK_ACTION_HELPFUL && action.action_id !== FEEDBACK_ACTION_NOT_HELPFUL) {
+        continue
+      }
+
+      const answer = action.value
+        ? await db.fAQSlackAnswer.findUnique({ where: { id: action.value } })
+        : null
+      if (!answer) {
+        logger.warn(`Feedback for unknown FAQ answer ${action.value}`)
+        continue
+      }
+
+      const helpful = action.action_id === FEEDBACK_ACTION_HELPFUL
+      await db.fAQFeedback.upsert({
+        where: { answerId_slackUserId: { answerId: answer.id, slackUserId: payload.user.id } },
+        update: { helpful },
+        create: {
+          faqId: answer.faqId,
+          answerId: answer.id,
+          slackUserId: payload.user.id,
+          helpful
+        }
+      })
+      recorded++
+
+      if (payload.response_url) {
+        await this.acknowledge(payload.response_url, helpful)
+      }
+    }
+
+    return recorded
+  }
+
+  /**
+   * Answer and feedback counts per FAQ
+   */
+  async getFeedbackSummaries(faqIds: string[]): Promise<Map<string, FAQFeedbackSummary>> {
+    const summaries = new Map<string, FAQFeedbackSummary>()
+    if (faqIds.length === 0) return summaries
+
+    const [answers, votes] = await Promise.all([
+      db.fAQSlackAnswer.groupBy({
+        by: ['faqId'],
+        where: { faqId: { in: faqIds }, replyTs: { not: null } },
+        _count: { _all: true }
+      }),
+      db.fAQFeedback.groupBy({
+        by: ['faqId', 'helpful'],
+        where: { faqId: { in: faqIds } },
+        _count: { _all: true }
+      })
+    ])
+
+    const summaryOf = (faqId: string): FAQFeedbackSummary => {
+      let summary = summaries.get(faqId)
+      if (!summary) {
+        summary = { answered: 0, helpful: 0, notHelpful: 0 }
+        summaries.set(faqId, summary)
+      }
+      return summary
+    }
+
+    for (const row of answers) {
+      summaryOf(row.faqId).answered = row._count._all
+    }
+    for (const row of votes) {
+      const summary = summaryOf(row.faqId)
+      if (row.helpful) {
+        summary.helpful = row._count._all
+      } else {
+        summary.notHelpful = row._count._all
+      }
+    }
+
+    return summaries
+  }
+
+  /**
+   * Answer settings of every tracked channel
+   */
+  async getChannelSettings(): Promise<FAQAnswerChannelSettings[]> {
+    const [channels, posted] = await Promise.all([
+      db.channel.findMany({ orderBy: { name: 'asc' } }),
+      db.fAQSlackAnswer.groupBy({
+        by: ['channel'],
+        where: { replyTs: { not: null } },
+        _count: { _all: true }
+      })
+    ])
+    const postedByChannel = new Map(posted.map(row => [row.channel, row._count._all]))
+
+    return channels.map(channel => ({
+      channelId: channel.slackId,
+      channelName: channel.name,
+      answersEnabled: channel.answersEnabled,
+      answerMinScore: channel.answerMinScore,
+      answersPosted: postedByChannel.get(channel.slackId) || 0
+    }))
+  }
+
+  /**
+   * Turn answers on or off for a channel and set its similarity threshold (null for the default)
+   *
+   * @returns false when the channel is not tracked
+   */
+  async updateChannelSettings(
+    slackId: string,
+    settings: { answersEnabled?: boolean; answerMinScore?: number | null }
+  ): Promise<boolean> {
+    const result = await db.channel.updateMany({
+      where: { slackId },
+      data: {
+        ...(settings.answersEnabled !== undefined && { answersEnabled: settings.answersEnabled }),
+        ...(settings.answerMinScore !== undefined && { answerMinScore: settings.answerMinScore })
+      }
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Block Kit layout: the FAQ, its confidence and sources, and feedback buttons
+   */
+  private buildAnswerBlocks(faq: FAQ, answer: FAQSlackAnswer, sourceLinks: string[]): any[] {
+    const body = `*${escapeMrkdwn(faq.question)}*\n${escapeMrkdwn(faq.answer)}`
+    const context = [`Confidence ${Math.round(answer.score * 100)}%`]
+    if (sourceLinks.length > 0) {
+      context.push(`Sources: ${sourceLinks.map((link, index) => `<${link}|thread ${index + 1}>`).join(', ')}`)
+    }
+
+    return [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: body.length > MAX_SECTION_CHARS ? `${body.substring(0, MAX_SECTION_CHARS)}…` : body
+        }
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: context.join(' · ') }]
+      },
+      {
+        type: 'actions',
+        block_id: 'faq_answer_feedback',
+        elements: [
+          {
+            type: 'button',
+            action_id: FEEDBACK_ACTION_HELPFUL,
+            text: { type: 'plain_text', text: '👍 Helpful', emoji: true },
+            value: answer.id
+          },
+          {
+            type: 'button',
+            action_id: FEEDBACK_ACTION_NOT_HELPFUL,
+            text: { type: 'plain_text', text: '👎 Not helpful', emoji: true },
+            value: answer.id
+          }
+        ]
+      }
+    ]
+  }
+
+  /**
+   * Permalinks to the Slack threads the FAQ was generated from
+   * Links that cannot be resolved are left out rather than failing the answer
+   */
+  private async getSourceLinks(faqId: string): Promise<string[]> {
+    const sources = await db.messageFAQ.findMany({
+      where: { faqId, message: { deletedAt: null } },
+      orderBy: { createdAt: 'asc' },
+      select: { message: { select: { channel: true, slackId: true, threadTs: true } } }
+    })
+
+    const threads = new Map<string, { channel: string; ts: string }>()
+    for (const { message } of sources) {
+      const ts = message.threadTs || message.slackId
+      threads.set(`${message.channel}:${ts}`, { channel: message.channel, ts })
+      if (threads.size >= MAX_SOURCE_LINKS) break
+    }
+
+    const links: string[] = []
+    for (const thread of Array.from(threads.values())) {
+      try {
+        const result = await this.callSlack('chat.getPermalink', {
+          channel: thread.channel,
+          message_ts: thread.ts
+        }, 'GET')
+        if (result.permalink) links.push(result.permalink)
+      } catch (error) {
+        logger.warn(`Failed to get permalink for thread ${thread.ts} in ${thread.channel}:`, error)
+      }
+    }
+
+    return links
+  }
+
+  /**
+   * Thank the user with an ephemeral message, leaving the answer in place
+   */
+  private async acknowledge(responseUrl: string, helpful: boolean): Promise<void> {
+    try {
+      await fetch(responseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json; charset=utf-8' },
+        body: JSON.stringify({
+          response_type: 'ephemeral',
+          replace_original: false,
+          text: helpful
+            ? 'Thanks! Glad this answer helped.'
+            : 'Thanks for letting us know. The FAQ curators will take a look.'
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      })
+    } catch (error) {
+      logger.warn('Failed to acknowledge FAQ feedback:', error)
+    }
+  }
+
+  /**
+   * Call a Slack Web API method with the bot token
+   * Write methods take a JSON body; read methods such as chat.getPermalink only accept query parameters
+   *
+   * @throws SlackApiError when Slack responds with ok: false
+   */
+  private async callSlack(
+    method: string,
+    params: Record<string, unknown>,
+    httpMethod: 'GET' | 'POST' = 'POST'
+  ): Promise<SlackApiResponse> {
+    const headers = { 'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}` }
+    const response = httpMethod === 'GET'
+      ? await fetch(`${SLACK_API_URL}/${method}?${new URLSearchParams(params as Record<string, string>)}`, {
+        headers,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      })
+      : await fetch(`${SLACK_API_URL}/${method}`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+        body: JSON.stringify(params),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      })
+    const data: SlackApiResponse = await response.json()
+
+    if (!data.ok) {
+      throw new SlackApiError(`Slack ${method} failed: ${data.error}`, data.error || 'unknown_error', method)
+    }
+
+    return data
+  }
+}
+
+// Export singleton instance
+export const faqAnswerService = new FAQAnswerService()
+export default faqAnswerService
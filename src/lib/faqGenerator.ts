@@ -1,14 +1,20 @@
 /**
  * FAQ Generator Service
  * Generates FAQs from processed documents using AI
- * Integrates with Pinecone for scalable duplicate detection and enhancement
+ * Integrates with the vector store for scalable duplicate detection and enhancement
  */
 
 import { logger } from './logger'
 import { db } from './db'
-import { geminiService } from './gemini'
-import { pineconeService } from './pinecone'
+import { llmService } from './llm'
+import { vectorStoreService } from './vectorStore'
+import { faqRevisionService } from './faqRevisions'
+import { processingSettingsService } from './processingSettings'
+import { piiDetectorService } from './piiDetector'
+import { curationActivityService } from './curationActivity'
 import { 
+  ActivityTargetType,
+  ActivityType,
   FAQ,
   ProcessedDocument,
   FAQGenerationInput,
@@ -17,6 +23,7 @@ import {
   FAQStatus,
   GenerationMethod,
   ContributionType,
+  FAQChangeType,
   ProcessingError
 } from '@/types'
 
@@ -107,7 +114,7 @@ class FAQGeneratorService {
         faqCandidates
       )
 
-      // Step 5: Store embeddings in Pinecone
+      // Step 5: Store embeddings in the vector store
       await this.storeFAQEmbeddings(processingResults.createdFAQs)
 
       const result: FAQGenerationResult = {
@@ -179,8 +186,8 @@ class FAQGeneratorService {
 
       for (const candidate of faqCandidates) {
         try {
-          // Check for duplicates using Pinecone semantic similarity
-          const duplicateCheck = await pineconeService.findDuplicateFAQs({
+          // Check for duplicates using vector store semantic similarity
+          const duplicateCheck = await vectorStoreService.findDuplicateFAQs({
             question: candidate.question,
             answer: candidate.answer,
             category: candidate.category
@@ -333,12 +340,12 @@ class FAQGeneratorService {
 
       // IMPROVED: Better error handling - don't throw immediately, let caller handle
       if (!existingFAQ) {
-        logger.warn(`FAQ ${existingFAQId} not found in database (stale Pinecone data) - skipping enhancement`)
+        logger.warn(`FAQ ${existingFAQId} not found in database (stale vector store data) - skipping enhancement`)
         throw new Error(`FAQ ${existingFAQId} not found`)
       }
 
       // Step 2: Use AI to enhance content
-      const enhancementResponse = await geminiService.enhanceFAQ(
+      const enhancementResponse = await llmService.enhanceFAQ(
         {
           question: existingFAQ.question,
           answer: existingFAQ.answer
@@ -355,24 +362,38 @@ class FAQGeneratorService {
 
       const enhanced = enhancementResponse.data
 
-      // Step 3: Update FAQ in database
+      // Step 3: Update FAQ in database, keeping the replaced version as a revision
       console.log(`🔄 Updating FAQ ${existingFAQId} in database`)
       console.log(`🔄 Old question: "${existingFAQ.question}"`)
       console.log(`🔄 New question: "${enhanced.enhancedQuestion}"`)
-      
-      const updatedFAQ = await db.fAQ.update({
-        where: { id: existingFAQId },
-        data: {
+
+      // Approved FAQs go back for review unless the settings allow enhancements to keep the approval
+      const { featureFlags } = await processingSettingsService.getSettings()
+      const keepApproval = existingFAQ.status === FAQStatus.APPROVED && !featureFlags.requireReapprovalAfterEnhancement
+
+      const updatedFAQ = await faqRevisionService.updateWithRevision(
+        existingFAQId,
+        {
           question: enhanced.enhancedQuestion,
           answer: enhanced.enhancedAnswer,
           confidenceScore: enhanced.confidence,
-          status: FAQStatus.PENDING, // Requires re-approval after enhancement
+          status: keepApproval ? FAQStatus.APPROVED : FAQStatus.PENDING,
           updatedAt: new Date()
+        },
+        {
+          changeType: FAQChangeType.AI_ENHANCEMENT,
+          changedBy: userId,
+          sourceDocumentId: newContent.sourceDocumentId,
+          reason: `Enhanced with a similar question: "${(newContent.question || '').substring(0, 200)}"`
         }
-      })
+      )
+
+      if (!updatedFAQ) {
+        throw new Error(`FAQ ${existingFAQId} not found`)
+      }
 
-      // Step 4: Update embedding in Pinecone
-      await pineconeService.updateFAQEmbedding(updatedFAQ)
+      // Step 4: Update embedding in the vector store
+      await vectorStoreService.updateFAQEmbedding(updatedFAQ)
 
       // Step 5: Track enhancement relationship if from new document
       if (newContent.sourceDocumentId) {
@@ -428,11 +449,19 @@ class FAQGeneratorService {
         }
       })
 
-      // Update Pinecone index if approved
+      // Update vector store if approved
       if (status === FAQStatus.APPROVED) {
-        await pineconeService.updateFAQEmbedding(updatedFAQ)
+        await vectorStoreService.updateFAQEmbedding(updatedFAQ)
       }
 
+      await curationActivityService.record({
+        userId: reviewedBy,
+        activityType: status === FAQStatus.APPROVED ? ActivityType.FAQ_APPROVED : ActivityType.FAQ_REJECTED,
+        targetType: ActivityTargetType.FAQ,
+        targetId: faqId,
+        details: feedback ? { feedback } : {}
+      })
+
       logger.info(`FAQ ${faqId} ${status.toLowerCase()} by ${reviewedBy}`)
       return updatedFAQ
 
@@ -459,8 +488,8 @@ class FAQGeneratorService {
     metadata: any
   }>> {
     try {
-      // Search using Pinecone
-      const searchResults = await pineconeService.searchSimilarFAQs(query, {
+      // Search using the vector store
+      const searchResults = await vectorStoreService.searchSimilarFAQs(query, {
         category: options.category,
         status: options.status?.map(s => s.toString()),
         topK: options.limit || 10,
@@ -512,6 +541,7 @@ class FAQGeneratorService {
       where: { id: documentId },
       include: {
         documentMessages: {
+          where: { message: { deletedAt: null } },
           include: { message: true },
           orderBy: { message: { timestamp: 'asc' } }
         }
@@ -522,9 +552,14 @@ class FAQGeneratorService {
       throw new Error(`Document ${documentId} not found`)
     }
 
+    // Only redacted text is sent to the AI
+    const redactedTexts = await piiDetectorService.getRedactedTexts(
+      document.documentMessages.map(dm => dm.messageId)
+    )
+
     const messages = document.documentMessages.map((dm: any) => ({
       id: dm.message.id,
-      text: dm.message.text,
+      text: redactedTexts.get(dm.message.id) ?? dm.message.text,
       username: dm.message.username,
       role: dm.messageRole,
       timestamp: dm.message.timestamp,
@@ -561,7 +596,7 @@ class FAQGeneratorService {
       console.log(`Generating FAQs for document "${documentData.document.title}" with ${documentData.messages.length} messages:`, 
         documentData.messages.map(m => ({ text: m.text.substring(0, 50) + '...', role: m.role })))
 
-      const response = await geminiService.generateFAQs({
+      const response = await llmService.generateFAQs({
         title: documentData.document.title,
         description: documentData.document.description,
         category: input.categoryOverride || documentData.document.category,
@@ -616,8 +651,8 @@ class FAQGeneratorService {
 
     for (const candidate of candidates) {
       try {
-        // Check for duplicates using Pinecone semantic similarity
-        const duplicateCheck = await pineconeService.findDuplicateFAQs({
+        // Check for duplicates using vector store semantic similarity
+        const duplicateCheck = await vectorStoreService.findDuplicateFAQs({
           question: candidate.question,
           answer: candidate.answer,
           category: candidate.category
@@ -650,7 +685,7 @@ class FAQGeneratorService {
             } catch (error) {
               // IMPROVED: Better error handling with SOC - separate concern for stale data
               if (this.isStaleDataError(error)) {
-                logger.warn(`FAQ ${bestMatch.id} not found in database (stale Pinecone data) - creating new FAQ instead`)
+                logger.warn(`FAQ ${bestMatch.id} not found in database (stale vector store data) - creating new FAQ instead`)
                 
                 // Create new FAQ since the referenced one doesn't exist
                 const newFAQ = await this.createNewFAQ(candidate)
@@ -709,7 +744,7 @@ class FAQGeneratorService {
   }
 
   /**
-   * Determines if an error is related to stale Pinecone data
+   * Determines if an error is related to stale vector store data
    * Single Responsibility: Error type classification
    * Open/Closed: Easy to extend with new error types
    */
@@ -796,16 +831,16 @@ class FAQGeneratorService {
   }
 
   /**
-   * Store FAQ embeddings in Pinecone
+   * Store FAQ embeddings in the vector store
    */
   private async storeFAQEmbeddings(faqs: FAQ[]): Promise<void> {
     try {
       if (faqs.length === 0) return
 
       // Store embeddings in batch for efficiency
-      await pineconeService.storeFAQEmbeddingsBatch(faqs)
+      await vectorStoreService.storeFAQEmbeddingsBatch(faqs)
       
-      logger.info(`Stored ${faqs.length} FAQ embeddings in Pinecone`)
+      logger.info(`Stored ${faqs.length} FAQ embeddings in ${vectorStoreService.name}`)
 
     } catch (error) {
       logger.error('Failed to store FAQ embeddings:', error)
@@ -0,0 +1,209 @@
+/**
+ * FAQ Revision Service
+ * Keeps every previous version of a FAQ's content with who changed it and why,
+ * so AI enhancements, edits and merges never silently replace an approved answer
+ */
+
+import { logger } from './logger'
+import { db } from './db'
+import { diffWords } from './textDiff'
+import { vectorStoreService } from './vectorStore'
+import { curationActivityService } from './curationActivity'
+import {
+  ActivityTargetType,
+  ActivityType,
+  FAQChangeType,
+  type FAQRevisionDisplay,
+  type FAQRevisionHistory
+} from '@/types'
+import type { FAQ, Prisma } from '@prisma/client'
+
+/**
+ * Who made a change and why
+ */
+export interface FAQChangeInput {
+  changeType: FAQChangeType
+  changedBy?: string | null
+  sourceDocumentId?: string | null
+  reason?: string | null
+}
+
+/**
+ * Fields whose changes are recorded as revisions
+ */
+const CONTENT_FIELDS = ['question', 'answer', 'category'] as const
+
+/**
+ * FAQ revision service class
+ */
+class FAQRevisionService {
+
+  /**
+   * Update a FAQ, first saving the version being replaced as a revision
+   * Updates that leave the question, answer and category unchanged (e.g. approvals) record
+   * nothing, except merges, which are recorded even when the kept content stays the same
+   * Curator edits, restores and merges are also logged as curation activity
+   *
+   * @returns The updated FAQ, or null when the FAQ does not exist
+   */
+  async updateWithRevision(
+    faqId: string,
+    data: Prisma.FAQUpdateInput,
+    change: FAQChangeInput
+  ): Promise<FAQ | null> {
+    let changedFields: string[] = []
+
+    const updated = await db.$transaction(async (tx) => {
+      const current = await tx.fAQ.findUnique({ where: { id: faqId } })
+      if (!current) {
+        return null
+      }
+
+      changedFields = CONTENT_FIELDS.filter(field =>
+        typeof data[field] === 'string' && data[field] !== current[field]
+      )
+      const contentChanged = changedFields.length > 0
+
+      if (contentChanged || change.changeType === FAQChangeType.MERGE) {
+        await tx.fAQRevision.create({
+          data: {
+            faqId,
+            question: current.question,
+            answer: current.answer,
+            category: current.category,
+            status: current.status,
+            changeType: change.changeType,
+            changedBy: change.changedBy || null,
+            sourceDocumentId: change.sourceDocumentId || null,
+            reason: change.reason || null
+          }
+        })
+      }
+
+      return tx.fAQ.update({ where: { id: faqId }, data })
+    })
+
+    const isMerge = change.changeType === FAQChangeType.MERGE
+    if (updated && change.changedBy && change.changeType !== FAQChangeType.AI_ENHANCEMENT && (changedFields.length > 0 || isMerge)) {
+      await curationActivityService.record({
+        userId: change.changedBy,
+        activityType: isMerge ? ActivityType.FAQ_MERGED : ActivityType.FAQ_EDITED,
+        targetType: ActivityTargetType.FAQ,
+        targetId: faqId,
+        details: {
+          changeType: change.changeType,
+          fields: changedFields,
+          ...(change.sourceDocumentId && { sourceDocumentId: change.sourceDocumentId }),
+          ...(change.reason && { reason: change.reason })
+        }
+      })
+    }
+
+    return updated
+  }
+
+  /**
+   * Get the version history of a FAQ, oldest revision first
+   * Each revision carries the diff to the version that replaced it
+   */
+  async getHistory(faqId: string): Promise<FAQRevisionHistory | null> {
+    const faq = await db.fAQ.findUnique({
+      where: { id: faqId },
+      select: {
+        id: true,
+        question: true,
+        answer: true,
+        category: true,
+        status: true,
+        updatedAt: true,
+        revisions: {
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    })
+
+    if (!faq) {
+      return null
+    }
+
+    const documentIds = Array.from(new Set(
+      faq.revisions.map(revision => revision.sourceDocumentId).filter((id): id is string => Boolean(id))
+    ))
+    const documents = documentIds.length > 0
+      ? await db.processedDocument.findMany({
+        where: { id: { in: documentIds } },
+        select: { id: true, title: true }
+      })
+      : []
+    const documentById = new Map(documents.map(doc => [doc.id, doc]))
+
+    const revisions: FAQRevisionDisplay[] = faq.revisions.map((revision, index) => {
+      const next = faq.revisions[index + 1] ?? faq
+
+      return {
+        id: revision.id,
+        question: revision.question,
+        answer: revision.answer,
+        category: revision.category,
+        status: revision.status,
+        changeType: revision.changeType as FAQChangeType,
+        changedBy: revision.changedBy,
+        sourceDocument: revision.sourceDocumentId ? documentById.get(revision.sourceDocumentId) ?? null : null,
+        reason: revision.reason,
+        createdAt: revision.createdAt,
+        questionDiff: diffWords(revision.question, next.question),
+        answerDiff: diffWords(revision.answer, next.answer)
+      }
+    })
+
+    return {
+      faqId: faq.id,
+      current: {
+        question: faq.question,
+        answer: faq.answer,
+        category: faq.category,
+        status: faq.status,
+        updatedAt: faq.updatedAt
+      },
+      revisions
+    }
+  }
+
+  /**
+   * Bring back the content of a previous version; the replaced content becomes a revision itself
+   * The FAQ keeps its status, and its embedding is refreshed
+   *
+   * @returns The restored FAQ, or null when the FAQ or revision does not exist
+   */
+  async restore(faqId: string, revisionId: string, restoredBy: string): Promise<FAQ | null> {
+    const revision = await db.fAQRevision.findFirst({ where: { id: revisionId, faqId } })
+    if (!revision) {
+      return null
+    }
+
+    const restored = await this.updateWithRevision(
+      faqId,
+      {
+        question: revision.question,
+        answer: revision.answer,
+        category: revision.category
+      },
+      {
+        changeType: FAQChangeType.RESTORE,
+        changedBy: restoredBy,
+        reason: `Restored the version replaced on ${revision.createdAt.toISOString()}`
+      }
+    )
+
+    if (restored) {
+      await vectorStoreService.updateFAQEmbedding(restored)
+      logger.info(`FAQ ${faqId} restored to revision ${revisionId} by ${restoredBy}`)
+    }
+
+    return restored
+  }
+}
+
+// Export singleton instance
+export const faqRevisionService = new FAQRevisionService()
+export default faqRevisionService
@@ -0,0 +1,219 @@
+/**
+ * LLM Service
+ * Entry point for all text generation and embedding calls. Picks the providers
+ * configured in integrationSettings.llmSettings and delegates to them, so callers
+ * never depend on a specific vendor
+ */
+
+import { logger } from './logger'
+import { processingSettingsService, DEFAULT_SETTINGS } from './processingSettings'
+import { GeminiProvider } from './gemini'
+import { OpenAICompatibleProvider } from './openaiProvider'
+import { LocalLLMProvider } from './localLLMProvider'
+import type {
+  BaseLLMProvider,
+  ConversationAnalysis,
+  ConversationMessage,
+  DocumentMetadata,
+  EmbeddingProvider,
+  FAQCandidate,
+  FAQEnhancement,
+  FAQGenerationInput,
+  LLMProvider,
+  PIICandidate,
+  ProviderHealth
+} from './llmProvider'
+import type { LLMProviderName, LLMResponse, LLMSettings } from '@/types'
+
+/** Settings are re-read at most this often */
+const SETTINGS_CACHE_MS = 60 * 1000
+
+/**
+ * Fill in missing provider fields from the defaults
+ * Stored settings are only merged one level deep, so nested provider blocks may be partial
+ */
+export const resolveLLMSettings = (stored?: Partial<LLMSettings>): LLMSettings => {
+  const defaults = DEFAULT_SETTINGS.integrationSettings.llmSettings
+
+  return {
+    provider: stored?.provider || defaults.provider,
+    embeddingProvider: stored?.embeddingProvider || defaults.embeddingProvider,
+    gemini: { ...defaults.gemini, ...stored?.gemini },
+    openai: { ...defaults.openai, ...stored?.openai },
+    local: { ...defaults.local, ...stored?.local }
+  }
+}
+
+/**
+ * LLM service class
+ */
+class LLMService implements LLMProvider, EmbeddingProvider {
+  private settings: LLMSettings | null = null
+  private settingsLoadedAt = 0
+  private providers = new Map<string, BaseLLMProvider>()
+
+  get name(): LLMProviderName {
+    return this.settings?.provider || DEFAULT_SETTINGS.integrationSettings.llmSettings.provider
+  }
+
+  get model(): string {
+    const settings = this.settings || DEFAULT_SETTINGS.integrationSettings.llmSettings
+    return settings[settings.provider].model
+  }
+
+  get embeddingModel(): string {
+    const settings = this.settings || DEFAULT_SETTINGS.integrationSettings.llmSettings
+    return settings[settings.embeddingProvider].embeddingModel
+  }
+
+  /**
+   * Current provider settings (cached briefly)
+   */
+  async getSettings(): Promise<LLMSettings> {
+    if (!this.settings || Date.now() - this.settingsLoadedAt > SETTINGS_CACHE_MS) {
+      const settings = await processingSettingsService.getSettings()
+      this.settings = resolveLLMSettings(settings.integrationSettings?.llmSettings)
+      this.settingsLoadedAt = Date.now()
+    }
+    return this.settings
+  }
+
+  /**
+   * Drop cached settings so the next call picks up saved changes
+   */
+  invalidate(): void {
+    this.settings = null
+  }
+
+  /**
+   * Provider used for text generation
+   */
+  async getLLMProvider(): Promise<LLMProvider> {
+    const settings = await this.getSettings()
+    return this.getProvider(settings.provider, settings)
+  }
+
+  /**
+   * Provider used for embeddings
+   */
+  async getEmbeddingProvider(): Promise<EmbeddingProvider> {
+    const settings = await this.getSettings()
+    return this.getProvider(settings.embeddingProvider, settings)
+  }
+
+  async detectPII(text: string): Promise<LLMResponse<PIICandidate[]>> {
+    return this.withProvider(provider => provider.detectPII(text))
+  }
+
+  async detectBusinessAwarePII(text: string): Promise<LLMResponse<PIICandidate[]>> {
+    return this.withProvider(provider => provider.detectBusinessAwarePII(text))
+  }
+
+  async generateFAQs(document: FAQGenerationInput): Promise<LLMResponse<FAQCandidate[]>> {
+    return this.withProvider(provider => provider.generateFAQs(document))
+  }
+
+  async enhanceFAQ(
+    existingFAQ: { question: string; answer: string },
+    newCandidate: { question: string; answer: string }
+  ): Promise<LLMResponse<FAQEnhancement>> {
+    return this.withProvider(provider => provider.enhanceFAQ(existingFAQ, newCandidate))
+  }
+
+  async generateDocumentMetadata(messageContent: string): Promise<LLMResponse<DocumentMetadata>> {
+    return this.withProvider(provider => provider.generateDocumentMetadata(messageContent))
+  }
+
+  async analyzeConversationPatterns(messages: ConversationMessage[]): Promise<LLMResponse<ConversationAnalysis>> {
+    return this.withProvider(provider => provider.analyzeConversationPatterns(messages))
+  }
+
+  async generateEmbedding(text: string): Promise<LLMResponse<number[]>> {
+    let provider: EmbeddingProvider
+    try {
+      provider = await this.getEmbeddingProvider()
+    } catch (error) {
+      logger.error('Embedding provider unavailable:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'Embedding provider unavailable' }
+    }
+    return provider.generateEmbedding(text)
+  }
+
+  /**
+   * Health of the text generation provider, and of the embedding provider when it differs
+   */
+  async healthCheck(): Promise<ProviderHealth> {
+    const settings = await this.getSettings()
+
+    try {
+      const llmHealth = await this.getProvider(settings.provider, settings).healthCheck()
+      if (!llmHealth.isHealthy || settings.embeddingProvider === settings.provider) {
+        return llmHealth
+      }
+
+      const embeddingHealth = await this.getProvider(settings.embeddingProvider, settings).healthCheck()
+      return embeddingHealth.isHealthy ? llmHealth : embeddingHealth
+    } catch (error) {
+      return {
+        isHealthy: false,
+        error: error instanceof Error ? error.message : 'Provider unavailable',
+        details: {
+          provider: settings.provider,
+          configured: false,
+          modelAccessible: false,
+          embeddingModelAccessible: false,
+          lastRequestTime: 0,
+          requestCount: 0
+        }
+      }
+    }
+  }
+
+  /**
+   * Run an operation on the text generation provider, reporting setup errors as a failed response
+   */
+  private async withProvider<T>(operation: (provider: LLMProvider) => Promise<LLMResponse<T>>): Promise<LLMResponse<T>> {
+    let provider: LLMProvider
+    try {
+      provider = await this.getLLMProvider()
+    } catch (error) {
+      logger.error('LLM provider unavailable:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'LLM provider unavailable' }
+    }
+    return operation(provider)
+  }
+
+  /**
+   * Get or create a provider instance; instances are reused while their configuration is unchanged
+   */
+  private getProvider(name: LLMProviderName, settings: LLMSettings): BaseLLMProvider {
+    const config = settings[name]
+    const key = `${name}:${JSON.stringify(config)}`
+
+    let provider = this.providers.get(key)
+    if (!provider) {
+      provider = this.createProvider(name, settings)
+      this.providers.set(key, provider)
+      logger.info(`Using ${name} LLM provider (model: ${config.model}, embeddings: ${config.embeddingModel})`)
+    }
+
+    return provider
+  }
+
+  private createProvider(name: LLMProviderName, settings: LLMSettings): BaseLLMProvider {
+    switch (name) {
+      case 'gemini':
+        return new GeminiProvider(settings.gemini)
+      case 'openai':
+        return new OpenAICompatibleProvider(settings.openai)
+      case 'local':
+        return new LocalLLMProvider(settings.local)
+      default:
+        throw new Error(`Unknown LLM provider: ${name}`)
+    }
+  }
+}
+
+// Export singleton instance
+export const llmService = new LLMService()
+export default llmService
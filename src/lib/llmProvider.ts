@@ -0,0 +1,1000 @@
+/**
+ * LLM Provider Abstraction
+ * Shared prompts and response handling for document processing, FAQ generation,
+ * PII detection and embeddings. Providers only implement the raw completion and
+ * embedding calls, so Gemini, OpenAI-compatible APIs and a local model produce the same results
+ */
+
+import { logger } from './logger'
+import { LLMProviderError, type LLMProviderName, type LLMResponse } from '@/types'
+
+// Shared request pacing and retry behaviour
+const MAX_RETRIES = 3
+const RETRY_DELAY_MS = 1000
+const RATE_LIMIT_DELAY_MS = 100
+
+/**
+ * PII candidate returned by the model
+ */
+export interface PIICandidate {
+  type: 'EMAIL' | 'PHONE' | 'NAME' | 'URL' | 'CUSTOM'
+  originalText: string
+  startIndex: number
+  endIndex: number
+  confidence: number
+  replacement: string
+  isBusinessEmail?: boolean
+}
+
+/**
+ * Document content FAQs are generated from
+ */
+export interface FAQGenerationInput {
+  title: string
+  description: string
+  category: string
+  messages: Array<{
+    text: string
+    username: string
+    role: string
+    timestamp: Date
+  }>
+}
+
+/**
+ * FAQ candidate returned by the model
+ */
+export interface FAQCandidate {
+  question: string
+  answer: string
+  category: string
+  confidence: number
+  sourceMessageIds: string[] // These are indices, not database IDs
+}
+
+/**
+ * Result of merging an existing FAQ with a new candidate
+ */
+export interface FAQEnhancement {
+  enhancedQuestion: string
+  enhancedAnswer: string
+  confidence: number
+}
+
+/**
+ * Generated document metadata
+ */
+export interface DocumentMetadata {
+  title: string
+  category: string
+  description: string
+}
+
+/**
+ * Message passed to conversation analysis
+ */
+export interface ConversationMessage {
+  id: string
+  text: string
+  username: string
+  timestamp: string
+  channel?: string
+}
+
+/**
+ * Q&A patterns and topics found in a conversation
+ */
+export interface ConversationAnalysis {
+  patterns: Array<{
+    type: 'question' | 'answer' | 'follow_up' | 'context' | 'confirmation'
+    messageIds: string[]
+    confidence: number
+    reasoning: string
+    topics: string[]
+  }>
+  overallTopics: string[]
+  conversationFlow: string
+  faqPotential: number
+}
+
+/**
+ * Provider health check result
+ */
+export interface ProviderHealth {
+  isHealthy: boolean
+  error?: string
+  details: {
+    provider: LLMProviderName
+    configured: boolean
+    modelAccessible: boolean
+    embeddingModelAccessible: boolean
+    lastRequestTime: number
+    requestCount: number
+  }
+}
+
+/**
+ * Text generation provider used for analysis, FAQs and PII detection
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+  detectPII(text: string): Promise<LLMResponse<PIICandidate[]>>
+  detectBusinessAwarePII(text: string): Promise<LLMResponse<PIICandidate[]>>
+  generateFAQs(document: FAQGenerationInput): Promise<LLMResponse<FAQCandidate[]>>
+  enhanceFAQ(
+    existingFAQ: { question: string; answer: string },
+    newCandidate: { question: string; answer: string }
+  ): Promise<LLMResponse<FAQEnhancement>>
+  generateDocumentMetadata(messageContent: string): Promise<LLMResponse<DocumentMetadata>>
+  analyzeConversationPatterns(messages: ConversationMessage[]): Promise<LLMResponse<ConversationAnalysis>>
+  healthCheck(): Promise<ProviderHealth>
+}
+
+/**
+ * Embedding provider used for vector search and duplicate detection
+ */
+export interface EmbeddingProvider {
+  readonly name: LLMProviderName
+  readonly embeddingModel: string
+  generateEmbedding(text: string): Promise<LLMResponse<number[]>>
+}
+
+/**
+ * Base class for providers: holds the prompts, JSON parsing, pacing and retries
+ * Subclasses implement complete() and embed() against their API
+ */
+export abstract class BaseLLMProvider implements LLMProvider, EmbeddingProvider {
+  abstract readonly name: LLMProviderName
+  abstract readonly model: string
+  abstract readonly embeddingModel: string
+
+  /** Share of health checks that call the API; paid APIs keep this low to save quota */
+  protected fullHealthCheckRate = 0.05
+
+  private requestCount = 0
+  private lastRequestTime = 0
+
+  /**
+   * Run a prompt and return the raw response text
+   */
+  protected abstract complete(prompt: string): Promise<string>
+
+  /**
+   * Embed a text and return the vector
+   */
+  protected abstract embed(text: string): Promise<number[]>
+
+  /**
+   * Whether credentials and endpoints are configured (no API call)
+   */
+  protected abstract isConfigured(): boolean
+
+  /**
+   * Rate limiting to respect API quotas
+   */
+  private async rateLimit(): Promise<void> {
+    const now = Date.now()
+    const timeSinceLastRequest = now - this.lastRequestTime
+
+    if (timeSinceLastRequest < RATE_LIMIT_DELAY_MS) {
+      await new Promise(resolve => 
+        setTimeout(resolve, RATE_LIMIT_DELAY_MS - timeSinceLastRequest)
+      )
+    }
+
+    this.lastRequestTime = Date.now()
+    this.requestCount++
+  }
+
+  /**
+   * Retry logic with exponential backoff
+   * Enhanced to handle 429 rate limit errors with proper retry-after delays
+   */
+  private async withRetry<T>(
+    operation: () => Promise<T>,
+    context: string
+  ): Promise<T> {
+    let lastError: Error = new Error('Unknown error')
+
+    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        await this.rateLimit()
+        return await operation()
+      } catch (error) {
+        lastError = error as Error
+        logger.warn(`${this.name} API attempt ${attempt} failed for ${context}:`, error)
+
+        // Handle 429 rate limit errors specially
+        if (error instanceof Error && error.message.includes('429')) {
+          const retryAfterMatch = error.message.match(/retryDelay":"(\d+)s/)
+          if (retryAfterMatch) {
+            const retryAfterSeconds = parseInt(retryAfterMatch[1])
+            const retryDelayMs = retryAfterSeconds * 1000
+            logger.info(`Rate limited. Waiting ${retryAfterSeconds} seconds before retry ${attempt + 1}`)
+            await new Promise(resolve => setTimeout(resolve, retryDelayMs))
+          } else {
+            // Default rate limit backoff: 4 seconds (e.g. the 15 RPM Gemini free tier)
+            const rateLimitDelay = 4000
+            logger.info(`Rate limited. Waiting ${rateLimitDelay}ms before retry ${attempt + 1}`)
+            await new Promise(resolve => setTimeout(resolve, rateLimitDelay))
+          }
+        } else if (attempt < MAX_RETRIES) {
+          // Standard exponential backoff for other errors
+          const delay = RETRY_DELAY_MS * Math.pow(2, attempt - 1)
+          await new Promise(resolve => setTimeout(resolve, delay))
+        }
+      }
+    }
+
+    throw new LLMProviderError(`${this.name} API failed after ${MAX_RETRIES} attempts: ${context}`, this.name, lastError)
+  }
+
+  /**
+   * Generate content with pacing and retries
+   */
+  protected async generateContent(prompt: string, context: string): Promise<LLMResponse<string>> {
+    try {
+      const result = await this.withRetry(() => this.complete(prompt), context)
+
+      return {
+        success: true,
+        data: result,
+        usage: {
+          promptTokens: prompt.length, // Approximate
+          completionTokens: result.length, // Approximate
+          totalTokens: prompt.length + result.length
+        }
+      }
+    } catch (error) {
+      logger.error(`${this.name} generation failed for ${context}:`, error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * Generate an embedding with pacing and retries
+   */
+  async generateEmbedding(text: string): Promise<LLMResponse<number[]>> {
+    try {
+      const result = await this.withRetry(() => this.embed(text), 'embedding-generation')
+
+      return {
+        success: true,
+        data: result,
+        usage: {
+          promptTokens: text.length, // Approximate
+          completionTokens: 0,
+          totalTokens: text.length
+        }
+      }
+    } catch (error) {
+      logger.error(`${this.name} embedding generation failed:`, error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * Parse JSON response that might be wrapped in markdown code blocks
+   * Enhanced to handle various response formats from different models
+   */
+  protected parseJSONResponse(responseText: string): any {
+    // Clean the response text
+    const cleanText = responseText.trim()
+    
+    // First try direct JSON parsing
+    try {
+      return JSON.parse(cleanText)
+    } catch (directError) {
+      // If direct parsing fails, try to extract JSON from markdown code blocks
+      const jsonBlockRegex = /```(?:json)?\s*(\{[\s\S]*?\}|\[[\s\S]*?\])\s*```/i
+      const match = cleanText.match(jsonBlockRegex)
+      
+      if (match && match[1]) {
+        try {
+          return JSON.parse(match[1].trim())
+        } catch (blockError) {
+          logger.warn('Failed to parse JSON from code block:', blockError)
+        }
+      }
+      
+      // Try to find JSON-like content without code blocks
+      const jsonPattern = /(\{[\s\S]*\}|\[[\s\S]*\])/
+      const jsonMatch = cleanText.match(jsonPattern)
+      
+      if (jsonMatch && jsonMatch[1]) {
+        try {
+          return JSON.parse(jsonMatch[1].trim())
+        } catch (patternError) {
+          logger.warn('Failed to parse JSON from pattern match:', patternError)
+        }
+      }
+      
+      // If response looks like it should be an empty array but isn't JSON
+      if (cleanText.length === 0 || cleanText === '[]' || cleanText === '{}') {
+        return []
+      }
+      
+      // Final fallback - throw with helpful context
+      throw new Error(`Unable to parse JSON from response. Response length: ${cleanText.length}, starts with: "${cleanText.substring(0, 50)}..."`)
+    }
+  }
+
+  /**
+   * Detect PII in text with enhanced JSON response handling
+   */
+  async detectPII(text: string): Promise<LLMResponse<PIICandidate[]>> {
+    const prompt = `
+TASK: Analyze text for Personally Identifiable Information (PII) and return ONLY valid JSON.
+
+TEXT TO ANALYZE:
+"${text}"
+
+DETECTION RULES:
+1. Email addresses (user@domain.com)
+2. Phone numbers (+1-555-123-4567, (555) 123-4567)
+3. Person names (John Smith, Mary Johnson - NOT usernames like @alice)
+4. URLs containing sensitive data
+5. Other clear PII patterns
+
+IMPORTANT: 
+- Return ONLY valid JSON array
+- If NO PII found, return: []
+- DO NOT include explanatory text
+- Be conservative - avoid false positives
+
+JSON FORMAT:
+[
+  {
+    "type": "EMAIL",
+    "originalText": "user@company.com",
+    "startIndex": 25,
+    "endIndex": 41,
+    "confidence": 0.95,
+    "replacement": "[EMAIL]"
+  }
+]
+
+RESPONSE (JSON only):
+`
+
+    const response = await this.generateContent(prompt, 'pii-detection')
+    
+    if (!response.success) {
+      return {
+        success: false,
+        error: response.error
+      }
+    }
+
+    try {
+      const data = this.parseJSONResponse(response.data!)
+      return {
+        success: true,
+        data: Array.isArray(data) ? data : [],
+        usage: response.usage
+      }
+    } catch (error) {
+      logger.error('Failed to parse PII detection response:', error)
+      logger.error('Raw response:', response.data)
+      
+      // Fallback: If response indicates no PII, return empty array
+      const responseText = response.data!.toLowerCase()
+      if (responseText.includes('no pii') || 
+          responseText.includes('does not contain') ||
+          responseText.includes('not considered pii') ||
+          responseText.includes('no personally identifiable')) {
+        logger.info('PII detection returned natural language "no PII" response, using empty array fallback')
+        return {
+          success: true,
+          data: [],
+          usage: response.usage
+        }
+      }
+      
+      return {
+        success: false,
+        error: 'Failed to parse AI response'
+      }
+    }
+  }
+
+  /**
+   * Detect PII in text with business context awareness
+   * Distinguishes between personal PII and business-critical information
+   */
+  async detectBusinessAwarePII(text: string): Promise<LLMResponse<PIICandidate[]>> {
+    const prompt = `
+TASK: Analyze text for Personally Identifiable Information (PII) with BUSINESS CONTEXT AWARENESS. Return ONLY valid JSON.
+
+TEXT TO ANALYZE:
+"${text}"
+
+DETECTION RULES:
+1. PRESERVE business emails (support@, sales@, info@, billing@, admin@, help@, etc.)
+2. PRESERVE vendor/service emails from known business domains
+3. DETECT personal emails (john.doe@gmail.com, personal addresses)
+4. DETECT personal phone numbers (avoid business lines like "call our support at...")
+5. DETECT person names (avoid business roles like "Support Team", "Sales Manager")
+6. DETECT sensitive URLs (avoid public business websites)
+
+BUSINESS EMAIL PATTERNS TO PRESERVE:
+- support@, help@, sales@, info@, contact@, admin@, billing@, accounts@
+- team@, office@, service@, hello@, inquiries@, customer@
+- Emails from major business domains (salesforce.com, stripe.com, etc.)
+
+IMPORTANT: 
+- Return ONLY valid JSON array
+- If NO personal PII found, return: []
+- DO NOT flag business-critical information as PII
+- Mark business emails with "isBusinessEmail": true (these should be preserved)
+- Focus on protecting personal data, not business information
+
+JSON FORMAT:
+[
+  {
+    "type": "EMAIL",
+    "originalText": "john.personal@gmail.com",
+    "startIndex": 25,
+    "endIndex": 47,
+    "confidence": 0.95,
+    "replacement": "[PERSONAL_EMAIL]",
+    "isBusinessEmail": false
+  },
+  {
+    "type": "EMAIL", 
+    "originalText": "support@company.com",
+    "startIndex": 60,
+    "endIndex": 79,
+    "confidence": 0.90,
+    "replacement": "support@company.com",
+    "isBusinessEmail": true
+  }
+]
+
+RESPONSE (JSON only):
+`
+
+    const response = await this.generateContent(prompt, 'business-aware-pii-detection')
+    
+    if (!response.success) {
+      return {
+        success: false,
+        error: response.error
+      }
+    }
+
+    try {
+      const data = this.parseJSONResponse(response.data!)
+      return {
+        success: true,
+        data: Array.isArray(data) ? data : [],
+        usage: response.usage
+      }
+    } catch (error) {
+      logger.error('Failed to parse business-aware PII detection response:', error)
+      logger.error('Raw response:', response.data)
+      
+      // Fallback: If response indicates no PII, return empty array
+      const responseText = response.data!.toLowerCase()
+      if (responseText.includes('no pii') || 
+          responseText.includes('does not contain') ||
+          responseText.includes('not considered pii') ||
+          responseText.includes('no personally identifiable')) {
+        logger.info('Business-aware PII detection returned natural language "no PII" response, using empty array fallback')
+        return {
+          success: true,
+          data: [],
+          usage: response.usage
+        }
+      }
+      
+      return {
+        success: false,
+        error: 'Failed to parse AI response'
+      }
+    }
+  }
+
+  /**
+   * Generate FAQs from document content using AI
+   */
+  async generateFAQs(document: FAQGenerationInput): Promise<LLMResponse<FAQCandidate[]>> {
+    // Handle large message sets with chunking (>150 messages or >50k chars)
+    const totalContent = document.messages.map(m => m.text).join(' ')
+    const shouldChunk = document.messages.length > 150 || totalContent.length > 50000
+
+    if (shouldChunk) {
+      logger.info(`Large document detected (${document.messages.length} messages, ${totalContent.length} chars) - using chunked processing`)
+      return this.generateFAQsWithChunking(document)
+    }
+
+    return this.generateFAQsSingle(document)
+  }
+
+  /**
+   * Generate FAQs for large documents using intelligent chunking
+   */
+  private async generateFAQsWithChunking(document: FAQGenerationInput): Promise<LLMResponse<FAQCandidate[]>> {
+    const CHUNK_SIZE = 100 // Overlap chunks for context
+    const OVERLAP = 10
+
+    const allFAQs: FAQCandidate[] = []
+
+    // Process messages in overlapping chunks
+    for (let i = 0; i < document.messages.length; i += CHUNK_SIZE - OVERLAP) {
+      const chunk = document.messages.slice(i, i + CHUNK_SIZE)
+      const chunkDoc = {
+        ...document,
+        messages: chunk
+      }
+
+      const chunkResult = await this.generateFAQsSingle(chunkDoc)
+        
+      if (chunkResult.success && chunkResult.data) {
+        // Adjust indices for global indexing (still indices, not IDs)
+        const adjustedFAQs = chunkResult.data.map(faq => ({
+          ...faq,
+          sourceMessageIds: faq.sourceMessageIds.map(indexStr => {
+            const adjustedIndex = parseInt(indexStr) + i
+            return adjustedIndex.toString()
+          })
+        }))
+        allFAQs.push(...adjustedFAQs)
+      }
+    }
+
+    // Deduplicate FAQs across chunks
+    const deduplicatedFAQs = this.deduplicateFAQs(allFAQs)
+
+    return {
+      success: true,
+      data: deduplicatedFAQs
+    }
+  }
+
+  /**
+   * Generate FAQs for a single document (non-chunked)
+   */
+  private async generateFAQsSingle(document: FAQGenerationInput): Promise<LLMResponse<FAQCandidate[]>> {
+    const prompt = `
+Generate FAQs from the following document about "${document.title}":
+
+Description: ${document.description}
+Category: ${document.category}
+
+Messages:
+${document.messages.map((msg, idx) => `[${idx}] ${msg.username} (${msg.role}): ${msg.text}`).join('\n')}
+
+Create comprehensive FAQs that:
+1. Extract clear question-answer pairs (even simple ones like "what is X?" followed by a definition)
+2. Synthesize information from multiple messages
+3. Use natural, helpful language
+4. Provide complete, actionable answers
+5. Categorize appropriately
+6. Include ALL questions asked, even basic definitional ones
+
+For each FAQ, provide:
+- question: Clear, searchable question
+- answer: Complete, helpful answer
+- category: Appropriate category (inherit from document or suggest better)
+- confidence: 0-1 score for FAQ quality
+- sourceMessageIds: Array of message indices that contributed to this FAQ
+
+Focus on:
+- User-facing questions and solutions
+- Step-by-step instructions
+- Common problems and their fixes
+- Important context and warnings
+
+Provide response in JSON format:
+[
+  {
+    "question": "How do I reset my password?",
+    "answer": "To reset your password: 1. Go to settings...",
+    "category": "Account Management",
+    "confidence": 0.95,
+    "sourceMessageIds": [0, 1, 3]
+  }
+]
+`
+
+    const response = await this.generateContent(prompt, 'faq-generation')
+    
+    if (!response.success) {
+      return {
+        success: false,
+        error: response.error
+      }
+    }
+
+    try {
+      const data = this.parseJSONResponse(response.data!)
+      return {
+        success: true,
+        data: Array.isArray(data) ? data : [],
+        usage: response.usage
+      }
+    } catch (error) {
+      logger.error('Failed to parse FAQ generation response:', error)
+      logger.error('Raw FAQ response:', response.data)
+      return {
+        success: false,
+        error: 'Failed to parse AI response'
+      }
+    }
+  }
+
+  /**
+   * Enhance existing FAQ by merging with new content
+   */
+  async enhanceFAQ(existingFAQ: {
+    question: string
+    answer: string
+  }, newCandidate: {
+    question: string
+    answer: string
+  }): Promise<LLMResponse<FAQEnhancement>> {
+    const prompt = `
+Enhance the existing FAQ by intelligently merging it with new information:
+
+EXISTING FAQ:
+Q: ${existingFAQ.question}
+A: ${existingFAQ.answer}
+
+NEW CANDIDATE:
+Q: ${newCandidate.question}
+A: ${newCandidate.answer}
+
+Create an enhanced FAQ that:
+1. Combines the best elements of both
+2. Provides more comprehensive information
+3. Maintains clarity and readability
+4. Eliminates redundancy
+5. Preserves important details from both sources
+
+Provide response in JSON format:
+{
+  "enhancedQuestion": "Improved question text",
+  "enhancedAnswer": "Enhanced answer with merged information",
+  "confidence": 0.85
+}
+`
+
+    const response = await this.generateContent(prompt, 'faq-enhancement')
+    
+    if (!response.success) {
+      return {
+        success: false,
+        error: response.error
+      }
+    }
+
+    try {
+      const data = this.parseJSONResponse(response.data!)
+      return {
+        success: true,
+        data,
+        usage: response.usage
+      }
+    } catch (error) {
+      logger.error('Failed to parse FAQ enhancement response:', error)
+      logger.error('Raw response:', response.data)
+      return {
+        success: false,
+        error: 'Failed to parse AI response'
+      }
+    }
+  }
+
+  /**
+   * Get usage statistics
+   */
+  getUsageStats(): {
+    requestCount: number
+    lastRequestTime: number
+  } {
+    return {
+      requestCount: this.requestCount,
+      lastRequestTime: this.lastRequestTime
+    }
+  }
+
+  /**
+   * Reset usage statistics
+   */
+  resetUsageStats(): void {
+    this.requestCount = 0
+    this.lastRequestTime = 0
+  }
+
+  /**
+   * Generate document metadata from conversation content
+   */
+  async generateDocumentMetadata(messageContent: string): Promise<LLMResponse<DocumentMetadata>> {
+    const prompt = `Analyze this Slack conversation and generate appropriate metadata:
+
+CONVERSATION:
+${messageContent}
+
+Please provide:
+1. A clear, descriptive title (max 60 characters)
+2. An appropriate category from: Support, Development, General, Planning, Documentation, Bug Report, Feature Request, Discussion
+3. A brief description (max 200 characters)
+
+Respond in JSON format:
+{
+  "title": "Generated title here",
+  "category": "Category here", 
+  "description": "Generated description here"
+}`
+
+    try {
+      const result = await this.generateContent(prompt, 'document metadata generation')
+      
+      if (result.success && result.data) {
+        try {
+          const metadata = this.parseJSONResponse(result.data)
+          return {
+            success: true,
+            data: {
+              title: metadata.title || 'AI-Generated Document',
+              category: metadata.category || 'General',
+              description: metadata.description || 'Auto-generated from conversation analysis'
+            },
+            usage: result.usage
+          }
+        } catch (parseError) {
+          logger.error('Failed to parse document metadata response:', parseError)
+          logger.error('Raw response:', result.data)
+          return {
+            success: false,
+            error: 'Failed to parse metadata JSON response'
+          }
+        }
+      }
+      
+      return {
+        success: false,
+        error: result.error || 'Failed to generate metadata'
+      }
+    } catch (error) {
+      logger.error('Document metadata generation failed:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * Enhanced conversation analysis with intelligent message classification
+   * Analyzes entire conversation context for accurate Q&A pattern detection
+   */
+  async analyzeConversationPatterns(messages: ConversationMessage[]): Promise<LLMResponse<ConversationAnalysis>> {
+    
+    const conversationText = messages.map((m, i) => 
+      `[${i+1}] ${m.username} (${m.timestamp}): "${m.text}"`
+    ).join('\n')
+    
+    const messageList = messages.map((m, i) => 
+      `ID: ${m.id} | Index: ${i+1} | User: ${m.username} | Text: "${m.text}"`
+    ).join('\n')
+
+    const prompt = `
+TASK: Analyze this Slack conversation to identify Q&A patterns and message roles with high accuracy.
+
+CONVERSATION TIMELINE:
+${conversationText}
+
+MESSAGE DATABASE:
+${messageList}
+
+ANALYSIS REQUIREMENTS:
+1. **Context Understanding**: Consider conversation flow, user relationships, and topic evolution
+2. **Semantic Analysis**: Detect questions/answers beyond simple keywords  
+3. **Pattern Recognition**: Identify implicit Q&A pairs, follow-up questions, clarifications
+4. **Topic Modeling**: Extract main discussion topics and subtopics
+5. **FAQ Assessment**: Evaluate how well this conversation would convert to FAQs
+
+CLASSIFICATION RULES:
+- **question**: Primary question message seeking information
+- **answer**: Primary answer/response providing information
+- **follow_up**: Follow-up questions or clarifications to previous answers
+- **context**: Supporting information, examples, or background details
+- **confirmation**: Greetings, acknowledgments, "thanks", "got it" messages
+
+IMPORTANT: Each message gets ONE role. For Q&A pairs, classify each message individually as either 'question' or 'answer' based on its content, not as a pair.
+
+IMPORTANT CONTEXT CLUES:
+- Time gaps between messages matter
+- Same user asking follow-ups vs different users
+- Technical terms suggest informational content
+- "Thanks", "got it" suggest answer completion
+- Code/examples often support explanations
+
+RESPONSE FORMAT (JSON only):
+{
+  "patterns": [
+    {
+      "type": "question",
+      "messageIds": ["msg1_id"],
+      "confidence": 0.95,
+      "reasoning": "Clear question about CPQ followed by detailed explanation",
+      "topics": ["salesforce", "cpq", "quoting"]
+    },
+    {
+      "type": "question_only", 
+      "messageIds": ["msg3_id"],
+      "confidence": 0.87,
+      "reasoning": "Question about governor limits but no clear answer provided",
+      "topics": ["salesforce", "governor-limits"]
+    }
+  ],
+  "overallTopics": ["salesforce", "cpq", "governor-limits", "soql"],
+  "conversationFlow": "Technical Q&A session about Salesforce features with good question-answer patterns",
+  "faqPotential": 0.9
+}
+`
+
+    const response = await this.generateContent(prompt, 'conversation-analysis')
+    
+    if (!response.success) {
+      return {
+        success: false,
+        error: response.error
+      }
+    }
+
+    try {
+      const data = this.parseJSONResponse(response.data!)
+      return {
+        success: true,
+        data,
+        usage: response.usage
+      }
+    } catch (error) {
+      logger.error('Failed to parse conversation analysis response:', error)
+      logger.error('Raw response:', response.data)
+      return {
+        success: false,
+        error: 'Failed to parse AI analysis response'
+      }
+    }
+  }
+
+  /**
+   * Health check for the provider
+   * Only a share of checks (fullHealthCheckRate) call the API, to avoid consuming quota during monitoring
+   */
+  async healthCheck(): Promise<ProviderHealth> {
+    const details: ProviderHealth['details'] = {
+      provider: this.name,
+      configured: this.isConfigured(),
+      modelAccessible: false,
+      embeddingModelAccessible: false,
+      lastRequestTime: this.lastRequestTime,
+      requestCount: this.requestCount
+    }
+
+    // Basic configuration check (no API call)
+    if (!details.configured) {
+      return {
+        isHealthy: false,
+        error: `${this.name} provider is not configured`,
+        details
+      }
+    }
+
+    if (Math.random() >= this.fullHealthCheckRate) {
+      // Return optimistic health status for lightweight checks
+      return {
+        isHealthy: true,
+        error: 'Service available (lightweight check - provider configured)',
+        details: {
+          ...details,
+          modelAccessible: true, // Assume healthy unless we know otherwise
+          embeddingModelAccessible: true
+        }
+      }
+    }
+
+    try {
+      logger.info(`Performing full ${this.name} API health check`)
+
+      const testResponse = await this.generateContent(
+        'Test prompt for health check. Respond with: "Service is healthy"',
+        'health-check'
+      )
+      details.modelAccessible = Boolean(testResponse.success && testResponse.data?.toLowerCase().includes('healthy'))
+
+      const embeddingResponse = await this.generateEmbedding('test embedding health check')
+      details.embeddingModelAccessible = Boolean(embeddingResponse.success && embeddingResponse.data?.length)
+
+      const isHealthy = details.modelAccessible && details.embeddingModelAccessible
+
+      return {
+        isHealthy,
+        error: isHealthy ? 'Full API test completed successfully' : `One or more ${this.name} services are not accessible`,
+        details
+      }
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+
+      // Handle rate limit errors gracefully
+      if (errorMessage.includes('429') || errorMessage.includes('quota') || errorMessage.includes('rate limit')) {
+        logger.warn(`${this.name} API rate limited during health check`)
+        return {
+          isHealthy: true, // Service is functional, just rate-limited
+          error: 'API quota exceeded - service running in degraded mode',
+          details: {
+            ...details,
+            modelAccessible: true,
+            embeddingModelAccessible: true
+          }
+        }
+      }
+
+      logger.error(`${this.name} health check failed:`, error)
+
+      return {
+        isHealthy: false,
+        error: `${this.name} health check failed: ${errorMessage}`,
+        details
+      }
+    }
+  }
+
+  /**
+   * Deduplicate similar FAQs based on question similarity
+   */
+  private deduplicateFAQs(faqs: FAQCandidate[]): FAQCandidate[] {
+    const deduplicated: typeof faqs = []
+    const seen = new Set<string>()
+
+    for (const faq of faqs) {
+      // Create a normalized key for similarity detection
+      const normalizedQuestion = faq.question.toLowerCase()
+        .replace(/[?!.,]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+
+      // Check for exact or very similar questions
+      let isDuplicate = false
+      for (const seenKey of Array.from(seen)) {
+        if (this.calculateSimilarity(normalizedQuestion, seenKey) > 0.85) {
+          isDuplicate = true
+          break
+        }
+      }
+
+      if (!isDuplicate) {
+        seen.add(normalizedQuestion)
+        deduplicated.push(faq)
+      }
+    }
+
+    // Sort by confidence score (highest first)
+    return deduplicated.sort((a, b) => b.confidence - a.confidence)
+  }
+
+  /**
+   * Calculate simple string similarity using Jaccard index
+   */
+  private calculateSimilarity(str1: string, str2: string): number {
+    const words1 = new Set(str1.split(' '))
+    const words2 = new Set(str2.split(' '))
+    
+    const intersection = new Set(Array.from(words1).filter(x => words2.has(x)))
+    const union = new Set(Array.from(words1).concat(Array.from(words2)))
+    
+    return intersection.size / union.size
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Local LLM Provider
+ * Text generation and embeddings through an Ollama-style HTTP server (/api/generate, /api/embeddings),
+ * so development and CI can run without any hosted AI service
+ */
+
+import { BaseLLMProvider } from './llmProvider'
+import type { LLMSettings } from '@/types'
+
+/** Local models can be slow on CPU; give a single request this long */
+const REQUEST_TIMEOUT_MS = parseInt(process.env.LOCAL_LLM_TIMEOUT_MS || '120000')
+
+/**
+ * Local (Ollama-style) provider
+ */
+export class LocalLLMProvider extends BaseLLMProvider {
+  readonly name = 'local' as const
+  readonly model: string
+  readonly embeddingModel: string
+  private baseUrl: string
+
+  // No quota to protect, so every health check talks to the server
+  protected fullHealthCheckRate = 1
+
+  constructor(config: LLMSettings['local']) {
+    super()
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '')
+    this.model = config.model
+    this.embeddingModel = config.embeddingModel
+  }
+
+  protected isConfigured(): boolean {
+    return Boolean(this.baseUrl)
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    const result = await this.post('/api/generate', {
+      model: this.model,
+      prompt,
+      stream: false,
+      options: { temperature: 0.1 }
+    })
+
+    if (typeof result.response !== 'string') {
+      throw new Error('Local model returned no response')
+    }
+    return result.response
+  }
+
+  protected async embed(text: string): Promise<number[]> {
+    const result = await this.post('/api/embeddings', {
+      model: this.embeddingModel,
+      prompt: text
+    })
+
+    if (!Array.isArray(result.embedding) || result.embedding.length === 0) {
+      throw new Error('Local model returned no embedding')
+    }
+    return result.embedding
+  }
+
+  /**
+   * POST to the local server with a timeout
+   */
+  private async post(path: string, body: Record<string, unknown>): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    })
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      throw new Error(`HTTP ${response.status} from ${path}: ${detail.substring(0, 200)}`)
+    }
+
+    return response.json()
+  }
+}
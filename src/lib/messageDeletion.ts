@@ -0,0 +1,334 @@
+/**
+ * Message Deletion Service
+ * Applies the configured deletion policy to Slack messages and re-evaluates
+ * the documents and FAQs that were built from them
+ */
+
+import { logger } from './logger'
+import { db } from './db'
+import { messageEmbeddingService } from './messageEmbeddings'
+import type { DeletionPolicy, Prisma } from '@prisma/client'
+import type { MessageDeletionDisplay } from '@/types'
+
+const TOMBSTONE_TEXT = '[message deleted]'
+const DOCUMENT_REMOVAL_REASON = 'Message deleted in Slack'
+
+const POLICY_BY_NAME: Record<string, DeletionPolicy> = {
+  'soft-delete': 'SOFT_DELETE',
+  'tombstone': 'TOMBSTONE',
+  'hard-delete': 'HARD_DELETE'
+}
+
+/**
+ * Input for deleting a Slack message
+ */
+interface MessageDeletionInput {
+  slackId: string
+  channel: string
+  source?: 'slack_event' | 'api'
+}
+
+/**
+ * Result of deleting a Slack message
+ */
+interface MessageDeletionResult {
+  policy: DeletionPolicy
+  deletedCount: number
+  threadRepliesDeleted: number
+  messageIds: string[]
+  affectedDocumentIds: string[]
+  emptiedDocumentIds: string[]
+  affectedFAQIds: string[]
+  flaggedFAQIds: string[]
+}
+
+/**
+ * Documents and FAQs affected by deleting one message
+ */
+interface DeletionImpact {
+  affectedDocumentIds: string[]
+  emptiedDocumentIds: string[]
+  affectedFAQIds: string[]
+  flaggedFAQIds: string[]
+}
+
+/**
+ * Message deletion service class
+ */
+class MessageDeletionService {
+
+  /**
+   * Get the configured deletion policy (MESSAGE_DELETION_POLICY, defaults to soft-delete)
+   */
+  getPolicy(): DeletionPolicy {
+    const configured = (process.env.MESSAGE_DELETION_POLICY || 'soft-delete').trim().toLowerCase()
+    const policy = POLICY_BY_NAME[configured]
+
+    if (!policy) {
+      logger.warn(`Unknown MESSAGE_DELETION_POLICY "${configured}", falling back to soft-delete`)
+      return 'SOFT_DELETE'
+    }
+
+    return policy
+  }
+
+  /**
+   * Delete every stored copy of a Slack message according to the configured policy
+   * Impact is computed before the policy is applied so hard-deleted links are still counted
+   */
+  async deleteMessages(input: MessageDeletionInput): Promise<MessageDeletionResult> {
+    const { slackId, channel, source = 'slack_event' } = input
+    const policy = this.getPolicy()
+
+    const messages = await db.message.findMany({
+      where: {
+        slackId,
+        channel,
+        deletedAt: null
+      },
+      select: { id: true, isThreadReply: true, parentMessageId: true }
+    })
+
+    const result: MessageDeletionResult = {
+      policy,
+      deletedCount: 0,
+      threadRepliesDeleted: messages.filter(m => m.isThreadReply).length,
+      messageIds: messages.map(m => m.id),
+      affectedDocumentIds: [],
+      emptiedDocumentIds: [],
+      affectedFAQIds: [],
+      flaggedFAQIds: []
+    }
+
+    for (const message of messages) {
+      const impact = await db.$transaction(async (tx) => {
+        const impact = await this.evaluateImpact(tx, message.id)
+        await this.applyPolicy(tx, message.id, policy)
+
+        await tx.messageDeletion.create({
+          data: {
+            messageId: message.id,
+            slackId,
+            channel,
+            policy,
+            wasThreadReply: message.isThreadReply,
+            source,
+            ...impact
+          }
+        })
+
+        return impact
+      })
+
+      result.deletedCount++
+      result.affectedDocumentIds.push(...impact.affectedDocumentIds)
+      result.emptiedDocumentIds.push(...impact.emptiedDocumentIds)
+      result.affectedFAQIds.push(...impact.affectedFAQIds)
+      result.flaggedFAQIds.push(...impact.flaggedFAQIds)
+    }
+
+    // Deleted messages must not be found by semantic search
+    try {
+      await messageEmbeddingService.removeMessages(messages)
+    } catch (error) {
+      logger.warn(`Failed to remove search embeddings for deleted message ${slackId}:`, error)
+    }
+
+    if (result.affectedDocumentIds.length > 0 || result.affectedFAQIds.length > 0) {
+      logger.info(`Message ${slackId} deleted (${policy}): ${result.affectedDocumentIds.length} documents and ${result.affectedFAQIds.length} FAQs marked as having stale sources, ${result.flaggedFAQIds.length} FAQs lost a primary source`)
+    }
+
+    return result
+  }
+
+  /**
+   * List recorded deletions with the documents and FAQs they affected, newest first
+   */
+  async listDeletions(options: {
+    channel?: string
+    skip?: number
+    take?: number
+  } = {}): Promise<{ deletions: MessageDeletionDisplay[]; total: number }> {
+    const where: Prisma.MessageDeletionWhereInput = options.channel ? { channel: options.channel } : {}
+
+    const [records, total] = await Promise.all([
+      db.messageDeletion.findMany({
+        where,
+        orderBy: { deletedAt: 'desc' },
+        skip: options.skip,
+        take: options.take
+      }),
+      db.messageDeletion.count({ where })
+    ])
+
+    const documentIds = Array.from(new Set(records.flatMap(r => r.affectedDocumentIds)))
+    const faqIds = Array.from(new Set(records.flatMap(r => r.affectedFAQIds)))
+
+    const [documents, faqs] = await Promise.all([
+      documentIds.length > 0
+        ? db.processedDocument.findMany({
+            where: { id: { in: documentIds } },
+            select: { id: true, title: true }
+          })
+        : [],
+      faqIds.length > 0
+        ? db.fAQ.findMany({
+            where: { id: { in: faqIds } },
+            select: { id: true, question: true }
+          })
+        : []
+    ])
+
+    const documentsById = new Map(documents.map(d => [d.id, d]))
+    const faqsById = new Map(faqs.map(f => [f.id, f]))
+
+    const deletions: MessageDeletionDisplay[] = records.map(record => ({
+      id: record.id,
+      messageId: record.messageId,
+      slackId: record.slackId,
+      channel: record.channel,
+      policy: record.policy,
+      wasThreadReply: record.wasThreadReply,
+      source: record.source,
+      deletedAt: record.deletedAt,
+      // Records removed since the deletion are dropped from the listing
+      affectedDocuments: record.affectedDocumentIds
+        .filter(id => documentsById.has(id))
+        .map(id => ({
+          id,
+          title: documentsById.get(id)!.title,
+          emptied: record.emptiedDocumentIds.includes(id)
+        })),
+      affectedFAQs: record.affectedFAQIds
+        .filter(id => faqsById.has(id))
+        .map(id => ({
+          id,
+          question: faqsById.get(id)!.question,
+          missingPrimarySource: record.flaggedFAQIds.includes(id)
+        }))
+    }))
+
+    return { deletions, total }
+  }
+
+  /**
+   * Work out which documents and FAQs depend on a message and flag them for review
+   */
+  private async evaluateImpact(tx: Prisma.TransactionClient, messageId: string): Promise<DeletionImpact> {
+    const documentLinks = await tx.documentMessage.findMany({
+      where: { messageId },
+      select: { documentId: true }
+    })
+    const affectedDocumentIds = Array.from(new Set(documentLinks.map(link => link.documentId)))
+
+    // A document is emptied when this was its last message that has not been deleted
+    const remainingLinks = affectedDocumentIds.length > 0
+      ? await tx.documentMessage.groupBy({
+          by: ['documentId'],
+          where: {
+            documentId: { in: affectedDocumentIds },
+            messageId: { not: messageId },
+            message: { deletedAt: null }
+          }
+        })
+      : []
+    const documentsWithMessages = new Set(remainingLinks.map(link => link.documentId))
+    const emptiedDocumentIds = affectedDocumentIds.filter(id => !documentsWithMessages.has(id))
+
+    const faqLinks = await tx.fAQ.findMany({
+      where: {
+        OR: [
+          { messageFAQs: { some: { messageId } } },
+          { documentFAQs: { some: { sourceMessageIds: { has: messageId } } } },
+          ...(affectedDocumentIds.length > 0
+            ? [{ documentFAQs: { some: { documentId: { in: affectedDocumentIds } } } }]
+            : [])
+        ]
+      },
+      select: { id: true }
+    })
+    const affectedFAQIds = faqLinks.map(faq => faq.id)
+
+    const primaryLinks = await tx.messageFAQ.findMany({
+      where: {
+        messageId,
+        contributionType: { in: ['PRIMARY_QUESTION', 'PRIMARY_ANSWER'] }
+      },
+      select: { faqId: true }
+    })
+    const flaggedFAQIds = Array.from(new Set(primaryLinks.map(link => link.faqId)))
+
+    const staleAt = new Date()
+
+    if (affectedDocumentIds.length > 0) {
+      await tx.processedDocument.updateMany({
+        where: { id: { in: affectedDocumentIds } },
+        data: { sourcesStale: true, sourcesStaleAt: staleAt }
+      })
+    }
+
+    if (affectedFAQIds.length > 0) {
+      await tx.fAQ.updateMany({
+        where: { id: { in: affectedFAQIds } },
+        data: { sourcesStale: true, sourcesStaleAt: staleAt }
+      })
+    }
+
+    if (flaggedFAQIds.length > 0) {
+      await tx.fAQ.updateMany({
+        where: { id: { in: flaggedFAQIds } },
+        data: { missingPrimarySource: true }
+      })
+    }
+
+    return {
+      affectedDocumentIds,
+      emptiedDocumentIds,
+      affectedFAQIds,
+      flaggedFAQIds
+    }
+  }
+
+  /**
+   * Apply the deletion policy to a single message row
+   */
+  private async applyPolicy(tx: Prisma.TransactionClient, messageId: string, policy: DeletionPolicy): Promise<void> {
+    if (policy === 'HARD_DELETE') {
+      // PII detections reference the message without a cascade
+      await tx.pIIDetection.deleteMany({
+        where: { sourceType: 'MESSAGE', sourceId: messageId }
+      })
+      await tx.message.delete({ where: { id: messageId } })
+      return
+    }
+
+    const deletedAt = new Date()
+
+    if (policy === 'TOMBSTONE') {
+      // Drop every copy of the original text, keep the row so links and threads survive
+      await tx.pIIDetection.deleteMany({
+        where: { sourceType: 'MESSAGE', sourceId: messageId }
+      })
+      await tx.messageRevision.deleteMany({ where: { messageId } })
+      await tx.messageAttachment.deleteMany({ where: { messageId } })
+      await tx.message.update({
+        where: { id: messageId },
+        data: { text: TOMBSTONE_TEXT, deletedAt }
+      })
+    } else {
+      await tx.message.update({
+        where: { id: messageId },
+        data: { deletedAt }
+      })
+    }
+
+    await tx.documentMessage.updateMany({
+      where: { messageId },
+      data: { removalReason: DOCUMENT_REMOVAL_REASON }
+    })
+  }
+}
+
+// Export singleton instance
+export const messageDeletionService = new MessageDeletionService()
+export default messageDeletionService
@@ -0,0 +1,372 @@
+/**
+ * Message Embedding Service
+ * Stores embeddings of messages and whole threads for semantic message search
+ * Embeddings are always computed from the PII-redacted text by a backfill loop, so new and edited
+ * messages are never embedded on the Slack event path; messages whose embedding fails are retried
+ * with backoff until they run out of attempts
+ */
+
+import { db } from './db'
+import { logger } from './logger'
+import { llmService } from './llm'
+import { piiDetectorService } from './piiDetector'
+import { vectorStoreService } from './vectorStore'
+import type { MessageEmbedding } from '@/types'
+
+const DEFAULT_INTERVAL_MS = 60 * 1000
+/** Messages embedded per backfill run */
+const BACKFILL_BATCH_SIZE = parseInt(process.env.MESSAGE_EMBEDDING_BATCH_SIZE || '50')
+/** Text beyond this length is cut before embedding, to stay within embedding model input limits */
+const EMBEDDING_MAX_CHARS = parseInt(process.env.MESSAGE_EMBEDDING_MAX_CHARS || '8000')
+/** Failed attempts after which the backfill stops retrying a message (until it changes) */
+const MAX_EMBEDDING_ATTEMPTS = parseInt(process.env.MESSAGE_EMBEDDING_MAX_ATTEMPTS || '8')
+/** Delay before the first retry of a failed message; doubles with each further failure */
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000
+const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000
+/** Consecutive failures after which the provider is taken to be unavailable and the batch stops */
+const PROVIDER_FAILURE_LIMIT = 3
+
+/**
+ * Vector ID of a thread embedding
+ */
+export const threadEmbeddingId = (rootMessageId: string): string => `thread_${rootMessageId}`
+
+/**
+ * Message fields needed to place a message in its thread
+ */
+interface ThreadPosition {
+  id: string
+  isThreadReply: boolean
+  parentMessageId: string | null
+}
+
+const rootIdOf = (message: ThreadPosition): string =>
+  message.isThreadReply && message.parentMessageId ? message.parentMessageId : message.id
+
+/**
+ * Summary of one backfill run
+ */
+export interface MessageEmbeddingSummary {
+  embedded: number
+  skipped: number // Nothing to embed (empty after redaction)
+  failed: number // Retried by the backfill after a backoff
+}
+
+/**
+ * Message embedding service class
+ */
+class MessageEmbeddingService {
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+
+  /**
+   * Start the backfill loop
+   */
+  start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => logger.error('Message embedding backfill failed:', error))
+    }, intervalMs)
+
+    // Don't keep the process alive just for the backfill
+    this.timer.unref?.()
+
+    logger.info(`Message embedding backfill started (interval ${intervalMs}ms, batch ${BACKFILL_BATCH_SIZE})`)
+  }
+
+  /**
+   * Stop the backfill loop
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    logger.info('Message embedding backfill stopped')
+  }
+
+  /**
+   * Embed one batch of pending messages, newest first; overlapping runs are skipped
+   * Messages waiting out a retry backoff, or out of attempts, are left out
+   *
+   * @returns Run summary, or null when a run is already in progress
+   */
+  async runOnce(): Promise<MessageEmbeddingSummary | null> {
+    if (this.running) return null
+    this.running = true
+
+    try {
+      const pending = await db.message.findMany({
+        where: {
+          embeddedAt: null,
+          deletedAt: null,
+          embeddingAttempts: { lt: MAX_EMBEDDING_ATTEMPTS },
+          OR: [{ embeddingRetryAt: null }, { embeddingRetryAt: { lte: new Date() } }]
+        },
+        orderBy: { timestamp: 'desc' },
+        take: BACKFILL_BATCH_SIZE,
+        select: { id: true }
+      })
+
+      if (pending.length === 0) {
+        return { embedded: 0, skipped: 0, failed: 0 }
+      }
+
+      const summary = await this.indexMessages(pending.map(m => m.id))
+
+      if (summary.embedded > 0 || summary.failed > 0) {
+        logger.info(`Message embedding backfill: ${summary.embedded} embedded, ${summary.skipped} skipped, ${summary.failed} failed`)
+      }
+
+      return summary
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Embed messages and refresh the embeddings of the threads they belong to
+   * A message whose embedding (or thread embedding) fails is scheduled for a retry and the rest
+   * of the batch carries on; after repeated consecutive failures the provider is taken to be
+   * unavailable and the remaining messages stay pending for the backfill, without using an attempt
+   */
+  async indexMessages(messageIds: string[]): Promise<MessageEmbeddingSummary> {
+    const summary: MessageEmbeddingSummary = { embedded: 0, skipped: 0, failed: 0 }
+    if (messageIds.length === 0) return summary
+
+    const messages = await db.message.findMany({
+      where: { id: { in: messageIds }, deletedAt: null },
+      select: {
+        id: true,
+        channel: true,
+        timestamp: true,
+        isThreadReply: true,
+        parentMessageId: true
+      }
+    })
+
+    const redacted = await piiDetectorService.getRedactedTexts(messages.map(m => m.id))
+    const embeddings: MessageEmbedding[] = []
+    const indexedIds: string[] = []
+    const emptyIds: string[] = []
+    const failedIds = new Set<string>()
+    const attempted: typeof messages = []
+    let consecutiveFailures = 0
+
+    for (const message of messages) {
+      if (consecutiveFailures >= PROVIDER_FAILURE_LIMIT) break
+      attempted.push(message)
+
+      const text = redacted.get(message.id)?.trim() || ''
+
+      if (!text) {
+        emptyIds.push(message.id)
+        continue
+      }
+
+      const values = await this.embed(text.substring(0, EMBEDDING_MAX_CHARS))
+      if (!values) {
+        failedIds.add(message.id)
+        consecutiveFailures++
+        continue
+      }
+      consecutiveFailures = 0
+
+      embeddings.push({
+        id: message.id,
+        values,
+        metadata: {
+          messageId: message.id,
+          kind: 'message',
+          channel: message.channel,
+          timestamp: Math.floor(message.timestamp.getTime() / 1000)
+        }
+      })
+      indexedIds.push(message.id)
+    }
+
+    // Each thread is embedded once per batch, however many of its messages changed;
+    // when it fails, its messages in the batch are retried along with it
+    const rootIds = Array.from(new Set(attempted.filter(m => !failedIds.has(m.id)).map(rootIdOf)))
+    const deferredIds = new Set<string>()
+    const threadMessageIds = (rootId: string) =>
+      attempted.filter(m => rootIdOf(m) === rootId).map(m => m.id)
+
+    for (const rootId of rootIds) {
+      if (consecutiveFailures >= PROVIDER_FAILURE_LIMIT) {
+        threadMessageIds(rootId).forEach(id => deferredIds.add(id))
+        continue
+      }
+
+      const threadEmbedding = await this.buildThreadEmbedding(rootId)
+      if (threadEmbedding === undefined) {
+        threadMessageIds(rootId).forEach(id => failedIds.add(id))
+        consecutiveFailures++
+        continue
+      }
+      consecutiveFailures = 0
+      if (threadEmbedding) {
+        embeddings.push(threadEmbedding)
+      }
+    }
+
+    if (embeddings.length > 0) {
+      await vectorStoreService.storeMessageEmbeddings(embeddings)
+    }
+
+    if (emptyIds.length > 0) {
+      await vectorStoreService.deleteMessageEmbeddings(emptyIds)
+    }
+
+    const isDone = (id: string) => !failedIds.has(id) && !deferredIds.has(id)
+    await db.message.updateMany({
+      where: { id: { in: [...indexedIds, ...emptyIds].filter(isDone) } },
+      data: { embeddedAt: new Date(), embeddingAttempts: 0, embeddingRetryAt: null }
+    })
+
+    await this.scheduleRetries(Array.from(failedIds))
+
+    summary.embedded = indexedIds.filter(isDone).length
+    summary.skipped = emptyIds.filter(isDone).length
+    summary.failed = failedIds.size
+    return summary
+  }
+
+  /**
+   * Count a failed attempt for each message and schedule its retry with exponential backoff
+   */
+  private async scheduleRetries(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return
+
+    const messages = await db.message.findMany({
+      where: { id: { in: messageIds } },
+      select: { id: true, embeddingAttempts: true }
+    })
+
+    await db.$transaction(messages.map(message => {
+      const attempts = message.embeddingAttempts + 1
+      const delayMs = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS)
+
+      if (attempts >= MAX_EMBEDDING_ATTEMPTS) {
+        logger.warn(`Giving up on embedding message ${message.id} after ${attempts} failed attempts`)
+      }
+
+      return db.message.update({
+        where: { id: message.id },
+        data: { embeddingAttempts: attempts, embeddingRetryAt: new Date(Date.now() + delayMs) }
+      })
+    }))
+  }
+
+  /**
+   * Mark messages as needing new embeddings (after edits or PII review); the backfill re-embeds them
+   */
+  async reindexMessages(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return
+
+    await db.message.updateMany({
+      where: { id: { in: messageIds } },
+      data: { embeddedAt: null, embeddingAttempts: 0, embeddingRetryAt: null }
+    })
+  }
+
+  /**
+   * Remove the embeddings of deleted messages
+   * Deleting a thread root removes the thread embedding; deleting a reply rebuilds it
+   */
+  async removeMessages(messages: ThreadPosition[]): Promise<void> {
+    if (messages.length === 0) return
+
+    const vectorIds = messages.flatMap(message =>
+      message.isThreadReply ? [message.id] : [message.id, threadEmbeddingId(message.id)]
+    )
+    await vectorStoreService.deleteMessageEmbeddings(vectorIds)
+
+    const deletedIds = new Set(messages.map(m => m.id))
+    const rootIds = Array.from(new Set(
+      messages.filter(m => m.isThreadReply).map(rootIdOf).filter(id => !deletedIds.has(id))
+    ))
+
+    for (const rootId of rootIds) {
+      const threadEmbedding = await this.buildThreadEmbedding(rootId)
+      if (threadEmbedding) {
+        await vectorStoreService.storeMessageEmbeddings([threadEmbedding])
+      } else if (threadEmbedding === null) {
+        await vectorStoreService.deleteMessageEmbeddings([threadEmbeddingId(rootId)])
+      }
+    }
+  }
+
+  /**
+   * Embedding of a thread root with its replies
+   *
+   * @returns The embedding, null when the message has no live replies (or no text),
+   *          or undefined when the embedding provider failed
+   */
+  private async buildThreadEmbedding(rootId: string): Promise<MessageEmbedding | null | undefined> {
+    const root = await db.message.findFirst({
+      where: { id: rootId, deletedAt: null },
+      select: {
+        id: true,
+        channel: true,
+        timestamp: true,
+        threadReplies: {
+          where: { deletedAt: null },
+          orderBy: { timestamp: 'asc' },
+          select: { id: true }
+        }
+      }
+    })
+
+    if (!root || root.threadReplies.length === 0) {
+      return null
+    }
+
+    const ids = [root.id, ...root.threadReplies.map(reply => reply.id)]
+    const redacted = await piiDetectorService.getRedactedTexts(ids)
+    const text = ids
+      .map(id => redacted.get(id)?.trim())
+      .filter(Boolean)
+      .join('\n')
+      .substring(0, EMBEDDING_MAX_CHARS)
+
+    if (!text) {
+      return null
+    }
+
+    const values = await this.embed(text)
+    if (!values) {
+      return undefined
+    }
+
+    return {
+      id: threadEmbeddingId(root.id),
+      values,
+      metadata: {
+        messageId: root.id,
+        kind: 'thread',
+        channel: root.channel,
+        timestamp: Math.floor(root.timestamp.getTime() / 1000)
+      }
+    }
+  }
+
+  /**
+   * Embed text, returning null when the provider fails
+   */
+  private async embed(text: string): Promise<number[] | null> {
+    const response = await llmService.generateEmbedding(text)
+
+    if (!response.success || !response.data) {
+      logger.warn(`Failed to generate message embedding: ${response.error}`)
+      return null
+    }
+
+    return response.data
+  }
+}
+
+// Export singleton instance
+export const messageEmbeddingService = new MessageEmbeddingService()
+export default messageEmbeddingService
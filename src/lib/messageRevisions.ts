@@ -0,0 +1,204 @@
+/**
+ * Message Revision Service
+ * Keeps the edit history of Slack messages and flags documents and FAQs built from older text
+ */
+
+import { logger } from './logger'
+import { db } from './db'
+import { diffWords } from './textDiff'
+import { redactText } from './piiRedaction'
+import type { MessageRevisionDisplay, MessageRevisionHistory } from '@/types'
+
+/**
+ * Input for recording a message edit
+ */
+interface MessageEditInput {
+  messageId: string
+  previousText: string
+  newText: string
+  editedAt: Date
+  editedBy?: string | null
+}
+
+/**
+ * Result of recording a message edit
+ */
+interface MessageEditResult {
+  revisionId: string
+  staleDocumentIds: string[]
+  staleFAQIds: string[]
+}
+
+/**
+ * Message revision service class
+ */
+class MessageRevisionService {
+
+  /**
+   * Record an edit: store the previous text as a revision, update the message
+   * and mark every document and FAQ built from it as having stale sources
+   * The revision keeps the previous text redacted with the detections made for it, since those
+   * are replaced when detection re-runs on the new text
+   */
+  async recordEdit(input: MessageEditInput): Promise<MessageEditResult> {
+    const { messageId, previousText, newText, editedAt, editedBy } = input
+
+    const result = await db.$transaction(async (tx) => {
+      const detections = await tx.pIIDetection.findMany({
+        where: { sourceType: 'MESSAGE', sourceId: messageId },
+        select: { originalText: true, replacementText: true, status: true, startOffset: true, endOffset: true }
+      })
+
+      const revision = await tx.messageRevision.create({
+        data: {
+          messageId,
+          text: redactText(previousText, detections),
+          textRedacted: true,
+          editedAt,
+          editedBy: editedBy || null
+        }
+      })
+
+      await tx.message.update({
+        where: { id: messageId },
+        data: {
+          text: newText,
+          editedAt
+        }
+      })
+
+      const documentLinks = await tx.documentMessage.findMany({
+        where: { messageId },
+        select: { documentId: true }
+      })
+      const staleDocumentIds = Array.from(new Set(documentLinks.map(link => link.documentId)))
+
+      // FAQs linked directly to the message, or generated from a document that contains it
+      const faqLinks = await tx.fAQ.findMany({
+        where: {
+          OR: [
+            { messageFAQs: { some: { messageId } } },
+            ...(staleDocumentIds.length > 0
+              ? [{ documentFAQs: { some: { documentId: { in: staleDocumentIds } } } }]
+              : [])
+          ]
+        },
+        select: { id: true }
+      })
+      const staleFAQIds = faqLinks.map(faq => faq.id)
+
+      const staleAt = new Date()
+
+      if (staleDocumentIds.length > 0) {
+        await tx.processedDocument.updateMany({
+          where: { id: { in: staleDocumentIds } },
+          data: { sourcesStale: true, sourcesStaleAt: staleAt }
+        })
+      }
+
+      if (staleFAQIds.length > 0) {
+        await tx.fAQ.updateMany({
+          where: { id: { in: staleFAQIds } },
+          data: { sourcesStale: true, sourcesStaleAt: staleAt }
+        })
+      }
+
+      return {
+        revisionId: revision.id,
+        staleDocumentIds,
+        staleFAQIds
+      }
+    })
+
+    if (result.staleDocumentIds.length > 0 || result.staleFAQIds.length > 0) {
+      logger.info(`Message ${messageId} edited: ${result.staleDocumentIds.length} documents and ${result.staleFAQIds.length} FAQs marked as having stale sources`)
+    }
+
+    return result
+  }
+
+  /**
+   * Get the full edit history of a message, oldest revision first, in redacted form
+   * Each revision carries the diff to the version that replaced it
+   */
+  async getHistory(messageId: string): Promise<MessageRevisionHistory | null> {
+    const message = await db.message.findUnique({
+      where: { id: messageId },
+      select: {
+        id: true,
+        text: true,
+        editedAt: true,
+        revisions: {
+          orderBy: { editedAt: 'asc' }
+        }
+      }
+    })
+
+    if (!message) {
+      return null
+    }
+
+    // The current text is covered by the message's current detections
+    const detections = await db.pIIDetection.findMany({
+      where: { sourceType: 'MESSAGE', sourceId: messageId },
+      select: { originalText: true, replacementText: true, status: true, startOffset: true, endOffset: true }
+    })
+    const currentText = redactText(message.text, detections)
+
+    // Revisions were redacted when they were stored
+    const revisions: MessageRevisionDisplay[] = message.revisions.map((revision, index) => ({
+      id: revision.id,
+      text: revision.text,
+      editedAt: revision.editedAt,
+      editedBy: revision.editedBy,
+      diff: diffWords(revision.text, message.revisions[index + 1]?.text ?? currentText)
+    }))
+
+    return {
+      messageId: message.id,
+      currentText,
+      editedAt: message.editedAt,
+      revisions
+    }
+  }
+
+  /**
+   * Resolve the text a message had at a point in time
+   * @param currentText - The message's current text
+   * @param revisions - Revisions ordered by editedAt ascending
+   * @param asOf - Point in time (e.g. when a FAQ was generated)
+   */
+  getTextAsOf(
+    currentText: string,
+    revisions: Array<{ text: string; editedAt: Date }>,
+    asOf: Date
+  ): string {
+    // The first revision replaced after `asOf` holds the text that was live at `asOf`
+    const revision = revisions.find(r => r.editedAt.getTime() > asOf.getTime())
+    return revision ? revision.text : currentText
+  }
+
+  /**
+   * Clear the stale-sources flag once a document has been reviewed
+   */
+  async markDocumentSourcesReviewed(documentId: string): Promise<void> {
+    await db.processedDocument.update({
+      where: { id: documentId },
+      data: { sourcesStale: false, sourcesStaleAt: null }
+    })
+  }
+
+  /**
+   * Clear the stale-sources and missing-primary-source flags once a FAQ has been reviewed
+   */
+  async markFAQSourcesReviewed(faqId: string): Promise<void> {
+    await db.fAQ.update({
+      where: { id: faqId },
+      data: { sourcesStale: false, sourcesStaleAt: null, missingPrimarySource: false }
+    })
+  }
+}
+
+// Export singleton instance
+export const messageRevisionService = new MessageRevisionService()
+export default messageRevisionService
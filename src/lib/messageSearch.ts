@@ -0,0 +1,298 @@
+/**
+ * Message Search Service
+ * Finds messages by keyword (Postgres full-text) and by meaning (message and thread
+ * embeddings), fuses both rankings and builds highlighted snippets from redacted text
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from './db'
+import { logger } from './logger'
+import { piiDetectorService } from './piiDetector'
+import { vectorStoreService } from './vectorStore'
+import type {
+  MessageFilters,
+  MessageSearchHit,
+  MessageSearchMode,
+  SearchSnippetSegment
+} from '@/types'
+
+/** Candidates taken from each ranking before fusion */
+const CANDIDATE_LIMIT = 200
+const SEMANTIC_TOP_K = 100
+/** Vector matches below this similarity are ignored */
+const SEMANTIC_MIN_SCORE = parseFloat(process.env.MESSAGE_SEARCH_MIN_SCORE || '0.55')
+/** Reciprocal rank fusion constant; higher values flatten the difference between ranks */
+const RRF_K = 60
+const SNIPPET_CHARS = 240
+
+export const SEARCH_MODES: MessageSearchMode[] = ['keyword', 'semantic', 'hybrid']
+
+/**
+ * Ranked candidate from one of the searches
+ */
+interface Candidate {
+  messageId: string
+  source: 'keyword' | 'semantic'
+}
+
+/**
+ * Search result page: thread root message IDs in rank order with their hits
+ */
+export interface MessageSearchPage {
+  ids: string[]
+  hits: Map<string, MessageSearchHit>
+  total: number
+  semanticUnavailable: boolean
+}
+
+/**
+ * Query terms used for highlighting
+ */
+const queryTerms = (query: string): string[] =>
+  Array.from(new Set(
+    query
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(term => term.length >= 2)
+  ))
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Excerpt of text around the first query term, split into highlighted and plain segments
+ * Terms match at word starts, so "deploy" also highlights "deployment"
+ */
+export const buildSnippet = (text: string, query: string): SearchSnippetSegment[] => {
+  const terms = queryTerms(query)
+  const pattern = terms.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu')
+    : null
+
+  const normalized = text.replace(/\s+/g, ' ').trim()
+  const firstMatch = pattern ? normalized.search(pattern) : -1
+
+  // Center the window on the first match, or start at the beginning for meaning-only matches
+  let start = firstMatch > SNIPPET_CHARS / 3 ? firstMatch - Math.floor(SNIPPET_CHARS / 3) : 0
+  if (start > 0) {
+    const wordBreak = normalized.indexOf(' ', start)
+    start = wordBreak === -1 || wordBreak > firstMatch ? start : wordBreak + 1
+  }
+  const end = Math.min(normalized.length, start + SNIPPET_CHARS)
+  const excerpt = normalized.substring(start, end)
+
+  const segments: SearchSnippetSegment[] = []
+  if (start > 0) segments.push({ text: '…', match: false })
+
+  let cursor = 0
+  if (pattern) {
+    for (const match of Array.from(excerpt.matchAll(pattern))) {
+      const index = match.index ?? 0
+      if (index > cursor) {
+        segments.push({ text: excerpt.substring(cursor, index), match: false })
+      }
+      segments.push({ text: match[0], match: true })
+      cursor = index + match[0].length
+    }
+  }
+  if (cursor < excerpt.length) {
+    segments.push({ text: excerpt.substring(cursor), match: false })
+  }
+
+  if (end < normalized.length) segments.push({ text: '…', match: false })
+  return segments
+}
+
+/**
+ * Message search service class
+ */
+class MessageSearchService {
+
+  /**
+   * Search thread root messages and return one page in rank order
+   * Matches in thread replies (and thread embeddings) rank their thread root
+   */
+  async search(
+    filters: MessageFilters,
+    options: { page: number; limit: number }
+  ): Promise<MessageSearchPage> {
+    const query = (filters.search || '').trim()
+    const mode: MessageSearchMode = filters.searchMode || 'hybrid'
+    let semanticUnavailable = false
+
+    const keyword: Candidate[] = mode === 'semantic' ? [] : await this.keywordSearch(query, filters)
+
+    let semantic: Candidate[] = []
+    if (mode !== 'keyword') {
+      try {
+        semantic = await this.semanticSearch(query, filters)
+      } catch (error) {
+        // Keyword results still work without the embedding provider or vector store
+        logger.warn('Semantic message search unavailable, using keyword results only:', error)
+        semanticUnavailable = true
+      }
+    }
+
+    const ranked = await this.fuse(query, [keyword, semantic], filters)
+    const offset = (options.page - 1) * options.limit
+    const pageEntries = ranked.slice(offset, offset + options.limit)
+
+    const redacted = await piiDetectorService.getRedactedTexts(
+      Array.from(new Set(pageEntries.map(entry => entry.matchedMessageId)))
+    )
+
+    const hits = new Map<string, MessageSearchHit>()
+    for (const entry of pageEntries) {
+      hits.set(entry.rootId, {
+        score: entry.score,
+        matchedBy: entry.matchedBy,
+        matchedMessageId: entry.matchedMessageId,
+        snippet: buildSnippet(redacted.get(entry.matchedMessageId) || '', query)
+      })
+    }
+
+    return {
+      ids: pageEntries.map(entry => entry.rootId),
+      hits,
+      total: ranked.length,
+      semanticUnavailable
+    }
+  }
+
+  /**
+   * Full-text matches ranked by ts_rank (websearch syntax: quoted phrases, OR, -exclusions)
+   */
+  private async keywordSearch(query: string, filters: MessageFilters): Promise<Candidate[]> {
+    const conditions = [
+      Prisma.sql`deleted_at IS NULL`,
+      Prisma.sql`to_tsvector('english', text) @@ websearch_to_tsquery('english', ${query})`
+    ]
+    if (filters.channel) {
+      conditions.push(Prisma.sql`channel = ${filters.channel}`)
+    }
+    if (filters.userId) {
+      conditions.push(Prisma.sql`user_id = ${filters.userId}`)
+    }
+    if (filters.startDate) {
+      conditions.push(Prisma.sql`timestamp >= ${new Date(filters.startDate)}`)
+    }
+    if (filters.endDate) {
+      conditions.push(Prisma.sql`timestamp <= ${new Date(filters.endDate)}`)
+    }
+
+    const rows = await db.$queryRaw<Array<{ id: string }>>`
+      SELECT id
+      FROM messages
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY ts_rank(to_tsvector('english', text), websearch_to_tsquery('english', ${query})) DESC, timestamp DESC
+      LIMIT ${CANDIDATE_LIMIT}
+    `
+
+    return rows.map(row => ({ messageId: row.id, source: 'keyword' as const }))
+  }
+
+  /**
+   * Nearest message and thread embeddings to the query
+   */
+  private async semanticSearch(query: string, filters: MessageFilters): Promise<Candidate[]> {
+    const matches = await vectorStoreService.searchMessages(query, {
+      topK: SEMANTIC_TOP_K,
+      channel: filters.channel || undefined,
+      after: filters.startDate ? Math.floor(new Date(filters.startDate).getTime() / 1000) : undefined,
+      before: filters.endDate ? Math.floor(new Date(filters.endDate).getTime() / 1000) : undefined,
+      minScore: SEMANTIC_MIN_SCORE
+    })
+
+    return matches.map(match => ({ messageId: match.metadata.messageId, source: 'semantic' as const }))
+  }
+
+  /**
+   * Reciprocal rank fusion over thread roots
+   * Candidates are mapped to their thread root; only live roots that pass the filters are kept
+   */
+  private async fuse(
+    query: string,
+    rankings: Candidate[][],
+    filters: MessageFilters
+  ): Promise<Array<{
+    rootId: string
+    score: number
+    matchedBy: Array<'keyword' | 'semantic'>
+    matchedMessageId: string
+  }>> {
+    const candidateIds = Array.from(new Set(rankings.flat().map(c => c.messageId)))
+    if (candidateIds.length === 0) {
+      return []
+    }
+
+    const messages = await db.message.findMany({
+      where: { id: { in: candidateIds }, deletedAt: null },
+      select: { id: true, userId: true, isThreadReply: true, parentMessageId: true }
+    })
+    const messageById = new Map(messages.map(m => [m.id, m]))
+
+    // Keyword ranking comes first, so a root's snippet is taken from its keyword match when it has one
+    const fused = new Map<string, {
+      rootId: string
+      score: number
+      matchedBy: Array<'keyword' | 'semantic'>
+      matchedMessageId: string
+    }>()
+
+    for (const ranking of rankings) {
+      const seenRoots = new Set<string>()
+      let rank = 0
+
+      for (const candidate of ranking) {
+        const message = messageById.get(candidate.messageId)
+        if (!message) continue
+        // Keyword matches are already filtered by author in SQL; vector metadata has no author
+        if (filters.userId && message.userId !== filters.userId) continue
+
+        const rootId = message.isThreadReply && message.parentMessageId ? message.parentMessageId : message.id
+        if (seenRoots.has(rootId)) continue
+        seenRoots.add(rootId)
+
+        rank++
+        const entry = fused.get(rootId) || {
+          rootId,
+          score: 0,
+          matchedBy: [],
+          matchedMessageId: candidate.messageId
+        }
+
+        entry.score += 1 / (RRF_K + rank)
+        entry.matchedBy.push(candidate.source)
+        fused.set(rootId, entry)
+      }
+    }
+
+    // Roots must be live, top-level messages within the channel and date filters
+    const roots = await db.message.findMany({
+      where: {
+        id: { in: Array.from(fused.keys()) },
+        deletedAt: null,
+        isThreadReply: false,
+        ...(filters.channel && { channel: filters.channel }),
+        ...((filters.startDate || filters.endDate) && {
+          timestamp: {
+            ...(filters.startDate && { gte: new Date(filters.startDate) }),
+            ...(filters.endDate && { lte: new Date(filters.endDate) })
+          }
+        })
+      },
+      select: { id: true }
+    })
+    const rootIds = new Set(roots.map(root => root.id))
+
+    const ranked = Array.from(fused.values())
+      .filter(entry => rootIds.has(entry.rootId))
+      .sort((a, b) => b.score - a.score)
+
+    logger.debug(`Message search "${query}": ${ranked.length} threads (${rankings.map(r => r.length).join('/')} keyword/semantic candidates)`)
+    return ranked
+  }
+}
+
+// Export singleton instance
+export const messageSearchService = new MessageSearchService()
+export default messageSearchService
@@ -0,0 +1,352 @@
+/**
+ * Message Selection Service
+ * Named, persistent picks of messages that curators build up across pages and sessions,
+ * optionally shared with other curators and turned into (or added to) documents
+ */
+
+import { db } from './db'
+import { logger } from './logger'
+import { getUserLabel, hasRole } from './auth'
+import { documentProcessorService } from './documentProcessor'
+import { curationActivityService } from './curationActivity'
+import {
+  ActivityTargetType,
+  ActivityType,
+  AuthError,
+  SelectionPurpose,
+  UserRole,
+  ValidationError,
+  type AuthUser,
+  type MessageSelectionDisplay,
+  type MessageSelectionInput,
+  type ProcessedDocument
+} from '@/types'
+import type { MessageSelection } from '@prisma/client'
+
+const MAX_NAME_LENGTH = 100
+const MAX_MESSAGES = 500
+
+/**
+ * Message selection service class
+ */
+class MessageSelectionService {
+
+  /**
+   * Selections the user owns plus those shared by others, most recently updated first
+   */
+  async listSelections(user: AuthUser): Promise<MessageSelectionDisplay[]> {
+    const selections = await db.messageSelection.findMany({
+      where: { OR: [{ userId: user.id }, { isShared: true }] },
+      orderBy: { updatedAt: 'desc' }
+    })
+
+    return this.toDisplay(selections, user)
+  }
+
+  /**
+   * One selection, when the user may see it
+   */
+  async getSelection(id: string, user: AuthUser): Promise<MessageSelectionDisplay | null> {
+    const selection = await this.findVisible(id, user)
+    if (!selection) return null
+
+    const [display] = await this.toDisplay([selection], user)
+    return display
+  }
+
+  /**
+   * Save a new selection
+   *
+   * @throws ValidationError on a missing name, unknown purpose or too many messages
+   */
+  async createSelection(user: AuthUser, input: MessageSelectionInput): Promise<MessageSelectionDisplay> {
+    const selectionName = this.validateName(input.selectionName)
+    const purpose = this.validatePurpose(input.purpose) ?? SelectionPurpose.DOCUMENT_CREATION
+    const messageIds = await this.existingMessageIds(input.messageIds || input.addMessageIds || [])
+
+    const selection = await db.$transaction(async (tx) => {
+      const created = await tx.messageSelection.create({
+        data: {
+          userId: user.id,
+          selectionName,
+          purpose,
+          isShared: Boolean(input.isShared),
+          messageIds
+        }
+      })
+
+      if (messageIds.length > 0) {
+        await tx.messageToMessageSelection.createMany({
+          data: messageIds.map(messageId => ({ A: messageId, B: created.id })),
+          skipDuplicates: true
+        })
+      }
+
+      return created
+    })
+
+    await this.recordSelected(user, selection.id, messageIds, [])
+
+    logger.info(`Message selection "${selectionName}" created by ${getUserLabel(user)} with ${messageIds.length} messages`)
+
+    const [display] = await this.toDisplay([selection], user)
+    return display
+  }
+
+  /**
+   * Rename, share, or change the messages of a selection
+   * Only the owner (or an admin) may change it, shared or not
+   *
+   * @returns The updated selection, or null when it does not exist or is not visible
+   * @throws AuthError (403) when the user does not own the selection
+   */
+  async updateSelection(id: string, user: AuthUser, input: MessageSelectionInput): Promise<MessageSelectionDisplay | null> {
+    const selection = await this.findEditable(id, user)
+    if (!selection) return null
+
+    // Messages deleted since the selection was saved are dropped; hard-deleted ones no longer have join rows
+    const storedIds = await this.existingMessageIds(selection.messageIds)
+    let messageIds = storedIds
+    if (input.messageIds) {
+      messageIds = await this.existingMessageIds(input.messageIds)
+    }
+    if (input.addMessageIds && input.addMessageIds.length > 0) {
+      const added = await this.existingMessageIds(input.addMessageIds)
+      messageIds = Array.from(new Set([...messageIds, ...added]))
+    }
+    if (input.removeMessageIds && input.removeMessageIds.length > 0) {
+      const removed = new Set(input.removeMessageIds)
+      messageIds = messageIds.filter(messageId => !removed.has(messageId))
+    }
+    if (messageIds.length > MAX_MESSAGES) {
+      throw new ValidationError(`A selection can hold at most ${MAX_MESSAGES} messages`, 'messageIds')
+    }
+
+    const updated = await db.$transaction(async (tx) => {
+      const result = await tx.messageSelection.update({
+        where: { id },
+        data: {
+          ...(input.selectionName !== undefined && { selectionName: this.validateName(input.selectionName) }),
+          ...(input.purpose !== undefined && { purpose: this.validatePurpose(input.purpose) }),
+          ...(input.isShared !== undefined && { isShared: Boolean(input.isShared) }),
+          messageIds
+        }
+      })
+
+      await tx.messageToMessageSelection.deleteMany({
+        where: { B: id, A: { notIn: messageIds } }
+      })
+      if (messageIds.length > 0) {
+        await tx.messageToMessageSelection.createMany({
+          data: messageIds.map(messageId => ({ A: messageId, B: id })),
+          skipDuplicates: true
+        })
+      }
+
+      return result
+    })
+
+    await this.recordSelected(
+      user,
+      id,
+      messageIds.filter(messageId => !storedIds.includes(messageId)),
+      storedIds.filter(messageId => !messageIds.includes(messageId))
+    )
+
+    const [display] = await this.toDisplay([updated], user)
+    return display
+  }
+
+  /**
+   * Delete a selection; the messages themselves are untouched
+   *
+   * @returns false when the selection does not exist or is not visible
+   * @throws AuthError (403) when the user does not own the selection
+   */
+  async deleteSelection(id: string, user: AuthUser): Promise<boolean> {
+    const selection = await this.findEditable(id, user)
+    if (!selection) return false
+
+    await db.messageSelection.delete({ where: { id } })
+    logger.info(`Message selection "${selection.selectionName}" deleted by ${getUserLabel(user)}`)
+    return true
+  }
+
+  /**
+   * Create a document from the selected messages, or add them to an existing document
+   * Anyone who can see the selection may use it; the document is credited to them
+   *
+   * @returns The created or enhanced document, or null when the selection is not visible
+   * @throws ValidationError when none of the selected messages remain or the document does not exist
+   */
+  async applyToDocument(
+    id: string,
+    user: AuthUser,
+    options: { documentId?: string, title?: string, category?: string }
+  ): Promise<{ document: ProcessedDocument, messagesAdded: number } | null> {
+    const selection = await this.findVisible(id, user)
+    if (!selection) return null
+
+    const messageIds = await this.existingMessageIds(selection.messageIds)
+    if (messageIds.length === 0) {
+      throw new ValidationError('None of the selected messages exist anymore', 'messageIds')
+    }
+
+    let document: ProcessedDocument
+    let messagesAdded: number
+
+    if (options.documentId) {
+      const target = await db.processedDocument.findUnique({ where: { id: options.documentId }, select: { id: true } })
+      if (!target) {
+        throw new ValidationError('Document not found', 'documentId')
+      }
+
+      const existing = await db.documentMessage.findMany({
+        where: { documentId: options.documentId, messageId: { in: messageIds } },
+        select: { messageId: true }
+      })
+      const alreadyIncluded = new Set(existing.map(dm => dm.messageId))
+      const newIds = messageIds.filter(messageId => !alreadyIncluded.has(messageId))
+
+      if (newIds.length === 0) {
+        throw new ValidationError('Every selected message is already part of that document', 'documentId')
+      }
+
+      const result = await documentProcessorService.enhanceDocument(options.documentId, newIds, getUserLabel(user))
+      document = result.updatedDocument
+      messagesAdded = result.addedMessages.length
+    } else {
+      const result = await documentProcessorService.processDocument({
+        messageIds,
+        title: options.title,
+        category: options.category,
+        userId: getUserLabel(user)
+      })
+      document = result.document
+      messagesAdded = messageIds.length
+    }
+
+    await db.messageSelection.update({
+      where: { id },
+      data: {
+        documentId: document.id,
+        purpose: options.documentId ? SelectionPurpose.DOCUMENT_ENHANCEMENT : SelectionPurpose.DOCUMENT_CREATION
+      }
+    })
+
+    logger.info(`Message selection "${selection.selectionName}" ${options.documentId ? 'added to' : 'turned into'} document ${document.id} by ${getUserLabel(user)}`)
+
+    return { document, messagesAdded }
+  }
+
+  /**
+   * Log which messages were picked or dropped, when any were
+   */
+  private async recordSelected(user: AuthUser, selectionId: string, added: string[], removed: string[]): Promise<void> {
+    if (added.length === 0 && removed.length === 0) return
+
+    await curationActivityService.record({
+      userId: getUserLabel(user),
+      activityType: ActivityType.MESSAGES_SELECTED,
+      targetType: ActivityTargetType.SELECTION,
+      targetId: selectionId,
+      details: { addedMessageIds: added, removedMessageIds: removed }
+    })
+  }
+
+  /**
+   * A selection the user owns, or one shared with them
+   */
+  private async findVisible(id: string, user: AuthUser): Promise<MessageSelection | null> {
+    const selection = await db.messageSelection.findUnique({ where: { id } })
+    if (!selection) return null
+
+    return selection.userId === user.id || selection.isShared || hasRole(user, [UserRole.ADMIN])
+      ? selection
+      : null
+  }
+
+  /**
+   * A selection the user may change
+   */
+  private async findEditable(id: string, user: AuthUser): Promise<MessageSelection | null> {
+    const selection = await this.findVisible(id, user)
+    if (!selection) return null
+
+    if (selection.userId !== user.id && !hasRole(user, [UserRole.ADMIN])) {
+      throw new AuthError('Only the owner can change this selection', 403)
+    }
+
+    return selection
+  }
+
+  /**
+   * Message IDs that exist and are not deleted, in the given order and without duplicates
+   */
+  private async existingMessageIds(messageIds: string[]): Promise<string[]> {
+    if (!Array.isArray(messageIds) || messageIds.some(messageId => typeof messageId !== 'string')) {
+      throw new ValidationError('messageIds must be a list of message IDs', 'messageIds')
+    }
+
+    const unique = Array.from(new Set(messageIds))
+    if (unique.length > MAX_MESSAGES) {
+      throw new ValidationError(`A selection can hold at most ${MAX_MESSAGES} messages`, 'messageIds')
+    }
+    if (unique.length === 0) return []
+
+    const found = await db.message.findMany({
+      where: { id: { in: unique }, deletedAt: null },
+      select: { id: true }
+    })
+    const foundIds = new Set(found.map(m => m.id))
+
+    return unique.filter(messageId => foundIds.has(messageId))
+  }
+
+  private validateName(name: unknown): string {
+    const trimmed = typeof name === 'string' ? name.trim() : ''
+    if (!trimmed) {
+      throw new ValidationError('selectionName is required', 'selectionName')
+    }
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new ValidationError(`selectionName must be at most ${MAX_NAME_LENGTH} characters`, 'selectionName')
+    }
+    return trimmed
+  }
+
+  private validatePurpose(purpose: unknown): SelectionPurpose | undefined {
+    if (purpose === undefined) return undefined
+    if (!Object.values(SelectionPurpose).includes(purpose as SelectionPurpose)) {
+      throw new ValidationError(`purpose must be one of ${Object.values(SelectionPurpose).join(', ')}`, 'purpose')
+    }
+    return purpose as SelectionPurpose
+  }
+
+  /**
+   * Add owner names for display
+   */
+  private async toDisplay(selections: MessageSelection[], user: AuthUser): Promise<MessageSelectionDisplay[]> {
+    const ownerIds = Array.from(new Set(selections.map(s => s.userId)))
+    const owners = ownerIds.length > 0
+      ? await db.user.findMany({ where: { id: { in: ownerIds } }, select: { id: true, name: true } })
+      : []
+    const ownerNames = new Map(owners.map(owner => [owner.id, owner.name]))
+
+    return selections.map(selection => ({
+      id: selection.id,
+      selectionName: selection.selectionName,
+      purpose: selection.purpose as SelectionPurpose,
+      messageIds: selection.messageIds,
+      isShared: selection.isShared,
+      isOwner: selection.userId === user.id,
+      ownerName: ownerNames.get(selection.userId) || 'Unknown user',
+      documentId: selection.documentId,
+      createdAt: selection.createdAt,
+      updatedAt: selection.updatedAt
+    }))
+  }
+}
+
+// Export singleton instance
+export const messageSelectionService = new MessageSelectionService()
+export default messageSelectionService
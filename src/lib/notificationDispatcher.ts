@@ -0,0 +1,524 @@
+/**
+ * Notification Dispatcher Service
+ * Delivers job status notifications configured in the processing settings:
+ * Slack messages to the alert channel and signed JSON webhooks (with retries)
+ * Every delivery is recorded in notification_deliveries so the history can be reviewed
+ * A monitor loop raises timeout alerts for jobs running longer than alertThresholdMinutes
+ */
+
+import crypto from 'crypto'
+import { logger } from './logger'
+import { db } from './db'
+import { processingSettingsService } from './processingSettings'
+import {
+  NotificationChannel,
+  NotificationEvent,
+  NotificationStatus,
+  type NotificationSettings
+} from '@/types'
+import type { NotificationDelivery, Prisma } from '@prisma/client'
+
+// Configuration constants
+const SLACK_API_URL = 'https://slack.com/api'
+const DEFAULT_MONITOR_INTERVAL_MS = 5 * 60 * 1000
+const REQUEST_TIMEOUT_MS = 10 * 1000
+const SIGNATURE_HEADER = 'X-Listen-Bot-Signature'
+const TIMESTAMP_HEADER = 'X-Listen-Bot-Timestamp'
+const DELIVERY_HEADER = 'X-Listen-Bot-Delivery'
+
+/**
+ * Where a job runs - AutomationJob records or Bull queue jobs
+ */
+export type JobNotificationSource = 'automation' | 'queue' | 'test'
+
+/**
+ * Job status transition to notify about
+ */
+export interface JobNotification {
+  source: JobNotificationSource
+  jobId: string
+  jobType: string
+  event: NotificationEvent
+  startedAt?: Date | null
+  errorMessage?: string | null
+  details?: Record<string, any>
+}
+
+/**
+ * Job that is currently running, reported to the stuck-job monitor
+ */
+export interface RunningJob {
+  source: JobNotificationSource
+  jobId: string
+  jobType: string
+  startedAt: Date
+}
+
+/**
+ * Result of a single delivery attempt
+ */
+interface AttemptResult {
+  ok: boolean
+  responseStatus?: number
+  error?: string
+  retryable: boolean
+}
+
+interface SlackPostMessageResponse {
+  ok: boolean
+  error?: string
+}
+
+const EVENT_LABELS: Record<NotificationEvent, { emoji: string; label: string }> = {
+  [NotificationEvent.JOB_STARTED]: { emoji: ':arrow_forward:', label: 'Job started' },
+  [NotificationEvent.JOB_COMPLETED]: { emoji: ':white_check_mark:', label: 'Job completed' },
+  [NotificationEvent.JOB_FAILED]: { emoji: ':x:', label: 'Job failed' },
+  [NotificationEvent.JOB_TIMEOUT]: { emoji: ':hourglass:', label: 'Job running too long' }
+}
+
+/**
+ * Webhook retry policy (exponential backoff: base * 2^(attempt - 1))
+ */
+const getWebhookRetryPolicy = () => ({
+  maxAttempts: Math.max(1, parseInt(process.env.NOTIFICATION_WEBHOOK_MAX_ATTEMPTS || '3')),
+  baseDelayMs: parseInt(process.env.NOTIFICATION_WEBHOOK_RETRY_DELAY_MS || '2000')
+})
+
+/**
+ * Notification dispatcher service class
+ */
+class NotificationDispatcherService {
+  private runningJobSources = new Map<string, () => Promise<RunningJob[]>>()
+  private timer: NodeJS.Timeout | null = null
+  private checking = false
+
+  /**
+   * Notify about a job status transition on every enabled channel
+   * Never throws - a failed notification must not fail the job
+   */
+  async notifyJobEvent(notification: JobNotification): Promise<void> {
+    try {
+      const { notificationSettings } = await processingSettingsService.getSettings()
+
+      if (!this.isEventEnabled(notificationSettings, notification.event)) {
+        return
+      }
+
+      await this.dispatch(notificationSettings, notification)
+    } catch (error) {
+      logger.error(`Failed to dispatch ${notification.event} notification for job ${notification.jobId}:`, error)
+    }
+  }
+
+  /**
+   * Send a test notification on every enabled channel, regardless of the per-event toggles
+   */
+  async sendTestNotification(): Promise<NotificationDelivery[]> {
+    const { notificationSettings } = await processingSettingsService.getSettings()
+
+    return this.dispatch(notificationSettings, {
+      source: 'test',
+      jobId: `test-${Date.now()}`,
+      jobType: 'TEST',
+      event: NotificationEvent.JOB_COMPLETED,
+      details: { message: 'Test notification from the processing settings' }
+    })
+  }
+
+  /**
+   * Retry a recorded delivery with its original payload and target
+   * @returns the updated delivery, or null when it doesn't exist
+   */
+  async redeliver(deliveryId: string): Promise<NotificationDelivery | null> {
+    const delivery = await db.notificationDelivery.findUnique({ where: { id: deliveryId } })
+    if (!delivery) {
+      return null
+    }
+
+    const reset = await db.notificationDelivery.update({
+      where: { id: deliveryId },
+      data: { status: NotificationStatus.PENDING, attempts: 0, error: null, responseStatus: null, deliveredAt: null }
+    })
+
+    return this.deliver(reset)
+  }
+
+  /**
+   * List recorded deliveries, newest first
+   */
+  async listDeliveries(options: {
+    status?: NotificationStatus
+    channel?: NotificationChannel
+    event?: NotificationEvent
+    jobId?: string
+    skip?: number
+    take?: number
+  } = {}): Promise<{ deliveries: NotificationDelivery[]; total: number }> {
+    const where: Prisma.NotificationDeliveryWhereInput = {
+      ...(options.status && { status: options.status }),
+      ...(options.channel && { channel: options.channel }),
+      ...(options.event && { event: options.event }),
+      ...(options.jobId && { jobId: options.jobId })
+    }
+
+    const [deliveries, total] = await Promise.all([
+      db.notificationDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: options.skip ?? 0,
+        take: options.take ?? 50
+      }),
+      db.notificationDelivery.count({ where })
+    ])
+
+    return { deliveries, total }
+  }
+
+  /**
+   * Register a source of running jobs for the stuck-job monitor (e.g. the Bull queues)
+   */
+  registerRunningJobSource(name: string, provider: () => Promise<RunningJob[]>): void {
+    this.runningJobSources.set(name, provider)
+  }
+
+  /**
+   * Raise a timeout alert for every job running longer than alertThresholdMinutes
+   * Each job is alerted at most once
+   * @returns number of jobs alerted
+   */
+  async checkStuckJobs(): Promise<number> {
+    const { notificationSettings } = await processingSettingsService.getSettings()
+    const thresholdMinutes = notificationSettings.alertThresholdMinutes
+
+    if (!notificationSettings.alertOnJobTimeout || !thresholdMinutes || thresholdMinutes <= 0) {
+      return 0
+    }
+
+    const cutoff = new Date(Date.now() - thresholdMinutes * 60 * 1000)
+    const runningJobs = await this.getRunningJobs()
+    let alerted = 0
+
+    for (const job of runningJobs) {
+      if (job.startedAt >= cutoff) continue
+
+      const alreadyAlerted = await db.notificationDelivery.findFirst({
+        where: { jobId: job.jobId, jobSource: job.source, event: NotificationEvent.JOB_TIMEOUT },
+        select: { id: true }
+      })
+      if (alreadyAlerted) continue
+
+      await this.notifyJobEvent({
+        ...job,
+        event: NotificationEvent.JOB_TIMEOUT,
+        details: {
+          runningMinutes: Math.round((Date.now() - job.startedAt.getTime()) / 60000),
+          thresholdMinutes
+        }
+      })
+      alerted++
+    }
+
+    return alerted
+  }
+
+  /**
+   * Start the stuck-job monitor loop
+   */
+  start(intervalMs: number = DEFAULT_MONITOR_INTERVAL_MS): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      this.runStuckJobCheck().catch(error => logger.error('Stuck job check failed:', error))
+    }, intervalMs)
+
+    // Don't keep the process alive just for monitoring
+    this.timer.unref?.()
+
+    logger.info(`Stuck job monitor started (interval ${intervalMs}ms)`)
+  }
+
+  /**
+   * Stop the stuck-job monitor loop
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    logger.info('Stuck job monitor stopped')
+  }
+
+  /**
+   * Run one stuck-job check; overlapping runs are skipped
+   */
+  private async runStuckJobCheck(): Promise<void> {
+    if (this.checking) return
+    this.checking = true
+
+    try {
+      const alerted = await this.checkStuckJobs()
+      if (alerted > 0) {
+        logger.warn(`Raised timeout alerts for ${alerted} long-running job(s)`)
+      }
+    } finally {
+      this.checking = false
+    }
+  }
+
+  /**
+   * Collect running jobs from AutomationJob records and registered sources
+   */
+  private async getRunningJobs(): Promise<RunningJob[]> {
+    const automationJobs = await db.automationJob.findMany({
+      where: { status: 'PROCESSING', startedAt: { not: null } },
+      select: { id: true, jobType: true, startedAt: true }
+    })
+
+    const runningJobs: RunningJob[] = automationJobs.map(job => ({
+      source: 'automation',
+      jobId: job.id,
+      jobType: job.jobType,
+      startedAt: job.startedAt as Date
+    }))
+
+    for (const [name, provider] of this.runningJobSources) {
+      try {
+        runningJobs.push(...await provider())
+      } catch (error) {
+        logger.warn(`Failed to list running jobs from ${name}:`, error)
+      }
+    }
+
+    return runningJobs
+  }
+
+  /**
+   * Whether the settings ask for alerts on this event
+   */
+  private isEventEnabled(settings: NotificationSettings, event: NotificationEvent): boolean {
+    switch (event) {
+      case NotificationEvent.JOB_STARTED:
+        return settings.alertOnJobStart
+      case NotificationEvent.JOB_COMPLETED:
+        return settings.alertOnJobComplete
+      case NotificationEvent.JOB_FAILED:
+        return settings.alertOnJobFailure
+      case NotificationEvent.JOB_TIMEOUT:
+        return settings.alertOnJobTimeout
+      default:
+        return false
+    }
+  }
+
+  /**
+   * Record and deliver the notification on every enabled channel
+   */
+  private async dispatch(settings: NotificationSettings, notification: JobNotification): Promise<NotificationDelivery[]> {
+    const payload = this.buildPayload(notification)
+    const targets: Array<{ channel: NotificationChannel; target: string }> = []
+
+    if (settings.enableSlackAlerts) {
+      targets.push({ channel: NotificationChannel.SLACK, target: settings.slackChannel })
+    }
+    if (settings.enableWebhookAlerts) {
+      targets.push({ channel: NotificationChannel.WEBHOOK, target: settings.webhookUrl })
+    }
+    if (settings.enableEmailAlerts) {
+      targets.push({ channel: NotificationChannel.EMAIL, target: settings.emailRecipients.join(', ') })
+    }
+
+    return Promise.all(targets.map(async ({ channel, target }) => {
+      const delivery = await db.notificationDelivery.create({
+        data: {
+          channel,
+          event: notification.event,
+          jobSource: notification.source,
+          jobId: notification.jobId,
+          jobType: notification.jobType,
+          target,
+          payload: payload as Prisma.InputJsonValue
+        }
+      })
+
+      return this.deliver(delivery)
+    }))
+  }
+
+  /**
+   * Deliver a recorded notification and store the outcome
+   */
+  private async deliver(delivery: NotificationDelivery): Promise<NotificationDelivery> {
+    const skipReason = this.getSkipReason(delivery)
+    if (skipReason) {
+      return db.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: { status: NotificationStatus.SKIPPED, error: skipReason }
+      })
+    }
+
+    const policy = delivery.channel === NotificationChannel.WEBHOOK
+      ? getWebhookRetryPolicy()
+      : { maxAttempts: 1, baseDelayMs: 0 }
+
+    let attempts = 0
+    let result: AttemptResult = { ok: false, retryable: true }
+
+    while (attempts < policy.maxAttempts) {
+      if (attempts > 0) {
+        await new Promise(resolve => setTimeout(resolve, policy.baseDelayMs * Math.pow(2, attempts - 1)))
+      }
+
+      attempts++
+      result = delivery.channel === NotificationChannel.WEBHOOK
+        ? await this.postWebhook(delivery)
+        : await this.postSlackMessage(delivery)
+
+      if (result.ok || !result.retryable) break
+    }
+
+    if (!result.ok) {
+      logger.warn(`Notification ${delivery.id} (${delivery.channel}) failed after ${attempts} attempt(s): ${result.error}`)
+    }
+
+    return db.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: result.ok ? NotificationStatus.SENT : NotificationStatus.FAILED,
+        attempts,
+        responseStatus: result.responseStatus ?? null,
+        error: result.ok ? null : result.error || 'Unknown error',
+        deliveredAt: result.ok ? new Date() : null
+      }
+    })
+  }
+
+  /**
+   * Reason a delivery cannot be attempted, if any
+   */
+  private getSkipReason(delivery: NotificationDelivery): string | null {
+    switch (delivery.channel) {
+      case NotificationChannel.SLACK:
+        if (!process.env.SLACK_BOT_TOKEN) return 'SLACK_BOT_TOKEN is not set'
+        if (!delivery.target) return 'No Slack channel configured'
+        return null
+      case NotificationChannel.WEBHOOK:
+        if (!delivery.target) return 'No webhook URL configured'
+        if (!process.env.NOTIFICATION_WEBHOOK_SECRET) return 'NOTIFICATION_WEBHOOK_SECRET is not set; unsigned webhooks are not sent'
+        return null
+      default:
+        // No mail transport is configured on this server
+        return 'Email delivery is not available'
+    }
+  }
+
+  /**
+   * Post the notification to Slack with chat.postMessage
+   */
+  private async postSlackMessage(delivery: NotificationDelivery): Promise<AttemptResult> {
+    try {
+      const response = await fetch(`${SLACK_API_URL}/chat.postMessage`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+          'Content-Type': 'application/json; charset=utf-8'
+        },
+        body: JSON.stringify({
+          channel: delivery.target,
+          text: this.formatSlackText(delivery.payload as Record<string, any>),
+          unfurl_links: false
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      })
+      const data: SlackPostMessageResponse = await response.json()
+
+      return data.ok
+        ? { ok: true, responseStatus: response.status, retryable: false }
+        : { ok: false, responseStatus: response.status, error: data.error || 'Slack API error', retryable: false }
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'Slack request failed', retryable: true }
+    }
+  }
+
+  /**
+   * POST the JSON payload to the webhook URL, signed with HMAC-SHA256 over "<timestamp>.<body>"
+   */
+  private async postWebhook(delivery: NotificationDelivery): Promise<AttemptResult> {
+    const body = JSON.stringify(delivery.payload)
+    const timestamp = Math.floor(Date.now() / 1000).toString()
+    const signature = crypto
+      .createHmac('sha256', process.env.NOTIFICATION_WEBHOOK_SECRET as string)
+      .update(`${timestamp}.${body}`)
+      .digest('hex')
+
+    try {
+      const response = await fetch(delivery.target, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [SIGNATURE_HEADER]: `sha256=${signature}`,
+          [TIMESTAMP_HEADER]: timestamp,
+          [DELIVERY_HEADER]: delivery.id
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      })
+
+      if (response.ok) {
+        return { ok: true, responseStatus: response.status, retryable: false }
+      }
+
+      return {
+        ok: false,
+        responseStatus: response.status,
+        error: `Webhook responded with HTTP ${response.status}`,
+        // Client errors won't succeed on retry, except rate limiting
+        retryable: response.status >= 500 || response.status === 429
+      }
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'Webhook request failed', retryable: true }
+    }
+  }
+
+  /**
+   * JSON payload shared by every channel
+   */
+  private buildPayload(notification: JobNotification): Record<string, any> {
+    return {
+      event: notification.event,
+      job: {
+        id: notification.jobId,
+        type: notification.jobType,
+        source: notification.source,
+        startedAt: notification.startedAt?.toISOString() ?? null,
+        durationMs: notification.startedAt ? Date.now() - notification.startedAt.getTime() : null
+      },
+      error: notification.errorMessage ?? null,
+      details: notification.details ?? {},
+      sentAt: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Human readable Slack message for a payload
+   */
+  private formatSlackText(payload: Record<string, any>): string {
+    const { emoji, label } = EVENT_LABELS[payload.event as NotificationEvent] || { emoji: ':bell:', label: payload.event }
+    const lines = [`${emoji} *${label}*: ${payload.job.type} \`${payload.job.id}\` (${payload.job.source})`]
+
+    if (payload.job.durationMs !== null) {
+      lines.push(`Running for ${Math.round(payload.job.durationMs / 1000)}s`)
+    }
+    if (payload.error) {
+      lines.push(`Error: ${payload.error}`)
+    }
+    if (payload.details?.thresholdMinutes) {
+      lines.push(`Alert threshold: ${payload.details.thresholdMinutes} minutes`)
+    }
+
+    return lines.join('\n')
+  }
+}
+
+// Export singleton instance
+export const notificationDispatcherService = new NotificationDispatcherService()
+export default notificationDispatcherService
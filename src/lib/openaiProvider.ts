@@ -0,0 +1,90 @@
+/**
+ * OpenAI-compatible LLM Provider
+ * Text generation and embeddings through the /chat/completions and /embeddings endpoints,
+ * so it works with OpenAI as well as compatible gateways (Azure OpenAI proxies, vLLM, LM Studio)
+ */
+
+import { BaseLLMProvider } from './llmProvider'
+import { LLMProviderError, type LLMSettings } from '@/types'
+
+/** A single request is abandoned after this long, so a hung endpoint cannot stall processing */
+const REQUEST_TIMEOUT_MS = parseInt(process.env.OPENAI_TIMEOUT_MS || '60000')
+
+/**
+ * OpenAI-compatible provider
+ */
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  readonly name = 'openai' as const
+  readonly model: string
+  readonly embeddingModel: string
+  private baseUrl: string
+  private apiKey: string | undefined
+
+  constructor(config: LLMSettings['openai']) {
+    super()
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '')
+    this.model = config.model
+    this.embeddingModel = config.embeddingModel
+    this.apiKey = process.env.OPENAI_API_KEY
+  }
+
+  protected isConfigured(): boolean {
+    return Boolean(this.baseUrl && this.apiKey)
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    const result = await this.post('/chat/completions', {
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.1 // Lower temperature for more consistent results
+    })
+
+    const content = result.choices?.[0]?.message?.content
+    if (typeof content !== 'string') {
+      throw new Error('Chat completion returned no content')
+    }
+    return content
+  }
+
+  protected async embed(text: string): Promise<number[]> {
+    const result = await this.post('/embeddings', {
+      model: this.embeddingModel,
+      input: text
+    })
+
+    const embedding = result.data?.[0]?.embedding
+    if (!Array.isArray(embedding)) {
+      throw new Error('Embedding response contained no vector')
+    }
+    return embedding
+  }
+
+  /**
+   * POST to the API with a timeout; non-2xx responses throw with the status so 429s are retried with backoff
+   */
+  private async post(path: string, body: Record<string, unknown>): Promise<any> {
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      })
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '')
+        throw new Error(`HTTP ${response.status} from ${path}: ${detail.substring(0, 200)}`)
+      }
+
+      return await response.json()
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        throw new LLMProviderError(`Request to ${path} timed out after ${REQUEST_TIMEOUT_MS}ms`, this.name, error)
+      }
+      throw error
+    }
+  }
+}
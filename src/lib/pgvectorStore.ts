@@ -0,0 +1,276 @@
+/**
+ * pgvector Vector Store
+ * Keeps FAQ and message embeddings in the application's own Postgres database
+ * (faq_embeddings, message_embeddings), so duplicate detection and message search
+ * work without an external vector service
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from './db'
+import { logger } from './logger'
+import { BaseVectorStore, type MessageQueryOptions, type VectorPage, type VectorQueryOptions } from './vectorStoreProvider'
+import {
+  FAQEmbedding,
+  MessageEmbedding,
+  MessageVectorMatch,
+  VectorIndexStats,
+  VectorMatch,
+  VectorStoreError
+} from '@/types'
+
+const EXPORT_PAGE_SIZE = 500
+
+interface EmbeddingRow {
+  faq_id: string
+  category: string
+  status: string
+  question: string
+}
+
+interface MessageEmbeddingRow {
+  id: string
+  message_id: string
+  kind: 'message' | 'thread'
+  channel: string
+  timestamp: Date
+}
+
+const toMessageMetadata = (row: MessageEmbeddingRow): MessageEmbedding['metadata'] => ({
+  messageId: row.message_id,
+  kind: row.kind,
+  channel: row.channel,
+  timestamp: Math.floor(row.timestamp.getTime() / 1000)
+})
+
+/**
+ * Format a vector as a pgvector literal ('[0.1,0.2,...]')
+ */
+const toVectorLiteral = (values: number[]): string => `[${values.join(',')}]`
+
+/**
+ * pgvector-backed vector store
+ */
+export class PgVectorStore extends BaseVectorStore {
+  readonly name = 'pgvector' as const
+  private initialized = false
+
+  /**
+   * Verify the vector extension and tables are set up
+   * pgvector is optional, so the migrations skip them where the extension cannot be created;
+   * prisma/pgvector.sql (pnpm db:pgvector) creates them once it can
+   */
+  protected async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    try {
+      const [setup] = await db.$queryRaw<Array<{ extension: boolean; faqTable: boolean; messageTable: boolean }>>`
+        SELECT
+          EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'vector') AS "extension",
+          to_regclass('faq_embeddings') IS NOT NULL AS "faqTable",
+          to_regclass('message_embeddings') IS NOT NULL AS "messageTable"
+      `
+
+      if (!setup?.extension || !setup.faqTable || !setup.messageTable) {
+        throw new Error('pgvector is not set up in this database; install the vector extension and run prisma/pgvector.sql (pnpm db:pgvector)')
+      }
+
+      this.initialized = true
+      logger.info('pgvector vector store initialized successfully')
+    } catch (error) {
+      logger.error('Failed to initialize pgvector vector store:', error)
+      throw new VectorStoreError('Failed to initialize pgvector vector store', this.name, error)
+    }
+  }
+
+  async upsertEmbeddings(embeddings: FAQEmbedding[]): Promise<void> {
+    await this.initialize()
+
+    await db.$transaction(embeddings.map(embedding => db.$executeRaw`
+      INSERT INTO faq_embeddings (faq_id, embedding, category, status, question, updated_at)
+      VALUES (
+        ${embedding.id},
+        ${toVectorLiteral(embedding.values)}::vector,
+        ${embedding.metadata.category},
+        ${embedding.metadata.status},
+        ${embedding.metadata.question},
+        NOW()
+      )
+      ON CONFLICT (faq_id) DO UPDATE SET
+        embedding = EXCLUDED.embedding,
+        category = EXCLUDED.category,
+        status = EXCLUDED.status,
+        question = EXCLUDED.question,
+        updated_at = NOW()
+    `))
+  }
+
+  /**
+   * Cosine similarity search; vectors from a different embedding model (other dimension) are skipped
+   */
+  protected async query(vector: number[], options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const literal = toVectorLiteral(vector)
+
+    const conditions = [Prisma.sql`vector_dims(embedding) = ${vector.length}`]
+    if (options.category) {
+      conditions.push(Prisma.sql`category = ${options.category}`)
+    }
+    if (options.status) {
+      conditions.push(Prisma.sql`status IN (${Prisma.join(options.status)})`)
+    }
+
+    const rows = await db.$queryRaw<Array<EmbeddingRow & { score: number }>>`
+      SELECT faq_id, category, status, question,
+        1 - (embedding <=> ${literal}::vector) AS score
+      FROM faq_embeddings
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY embedding <=> ${literal}::vector
+      LIMIT ${options.topK}
+    `
+
+    return rows.map(row => ({
+      id: row.faq_id,
+      score: Number(row.score),
+      metadata: {
+        category: row.category,
+        status: row.status,
+        question: row.question
+      }
+    }))
+  }
+
+  protected async remove(ids: string[]): Promise<void> {
+    await db.$executeRaw`DELETE FROM faq_embeddings WHERE faq_id IN (${Prisma.join(ids)})`
+  }
+
+  /**
+   * Page through stored vectors ordered by FAQ ID; the page token is the last ID returned
+   */
+  async exportEmbeddings(pageToken?: string, limit = EXPORT_PAGE_SIZE): Promise<VectorPage> {
+    await this.initialize()
+
+    const rows = await db.$queryRaw<Array<EmbeddingRow & { embedding: string }>>`
+      SELECT faq_id, embedding::text AS embedding, category, status, question
+      FROM faq_embeddings
+      ${pageToken ? Prisma.sql`WHERE faq_id > ${pageToken}` : Prisma.empty}
+      ORDER BY faq_id
+      LIMIT ${limit}
+    `
+
+    return {
+      embeddings: rows.map(row => ({
+        id: row.faq_id,
+        values: JSON.parse(row.embedding),
+        metadata: {
+          category: row.category,
+          status: row.status,
+          question: row.question
+        }
+      })),
+      nextPageToken: rows.length === limit ? rows[rows.length - 1].faq_id : undefined
+    }
+  }
+
+  async upsertMessageEmbeddings(embeddings: MessageEmbedding[]): Promise<void> {
+    await this.initialize()
+
+    await db.$transaction(embeddings.map(embedding => db.$executeRaw`
+      INSERT INTO message_embeddings (id, message_id, kind, channel, timestamp, embedding, updated_at)
+      VALUES (
+        ${embedding.id},
+        ${embedding.metadata.messageId},
+        ${embedding.metadata.kind},
+        ${embedding.metadata.channel},
+        ${new Date(embedding.metadata.timestamp * 1000)},
+        ${toVectorLiteral(embedding.values)}::vector,
+        NOW()
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        embedding = EXCLUDED.embedding,
+        channel = EXCLUDED.channel,
+        timestamp = EXCLUDED.timestamp,
+        updated_at = NOW()
+    `))
+  }
+
+  protected async queryMessages(vector: number[], options: MessageQueryOptions): Promise<MessageVectorMatch[]> {
+    const literal = toVectorLiteral(vector)
+
+    const conditions = [Prisma.sql`vector_dims(embedding) = ${vector.length}`]
+    if (options.channel) {
+      conditions.push(Prisma.sql`channel = ${options.channel}`)
+    }
+    if (options.after !== undefined) {
+      conditions.push(Prisma.sql`timestamp >= ${new Date(options.after * 1000)}`)
+    }
+    if (options.before !== undefined) {
+      conditions.push(Prisma.sql`timestamp <= ${new Date(options.before * 1000)}`)
+    }
+
+    const rows = await db.$queryRaw<Array<MessageEmbeddingRow & { score: number }>>`
+      SELECT id, message_id, kind, channel, timestamp,
+        1 - (embedding <=> ${literal}::vector) AS score
+      FROM message_embeddings
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY embedding <=> ${literal}::vector
+      LIMIT ${options.topK}
+    `
+
+    return rows.map(row => ({
+      id: row.id,
+      score: Number(row.score),
+      metadata: toMessageMetadata(row)
+    }))
+  }
+
+  protected async removeMessages(ids: string[]): Promise<void> {
+    await db.$executeRaw`DELETE FROM message_embeddings WHERE id IN (${Prisma.join(ids)})`
+  }
+
+  /**
+   * Page through stored message and thread vectors ordered by ID
+   */
+  async exportMessageEmbeddings(pageToken?: string, limit = EXPORT_PAGE_SIZE): Promise<VectorPage<MessageEmbedding>> {
+    await this.initialize()
+
+    const rows = await db.$queryRaw<Array<MessageEmbeddingRow & { embedding: string }>>`
+      SELECT id, message_id, kind, channel, timestamp, embedding::text AS embedding
+      FROM message_embeddings
+      ${pageToken ? Prisma.sql`WHERE id > ${pageToken}` : Prisma.empty}
+      ORDER BY id
+      LIMIT ${limit}
+    `
+
+    return {
+      embeddings: rows.map(row => ({
+        id: row.id,
+        values: JSON.parse(row.embedding),
+        metadata: toMessageMetadata(row)
+      })),
+      nextPageToken: rows.length === limit ? rows[rows.length - 1].id : undefined
+    }
+  }
+
+  /**
+   * Get table statistics; dimension is that of the most recently stored vector
+   */
+  async getIndexStats(): Promise<VectorIndexStats> {
+    await this.initialize()
+
+    try {
+      const [stats] = await db.$queryRaw<Array<{ total: bigint; dimension: number | null }>>`
+        SELECT COUNT(*) AS total,
+          (SELECT vector_dims(embedding) FROM faq_embeddings ORDER BY updated_at DESC LIMIT 1) AS dimension
+        FROM faq_embeddings
+      `
+
+      return {
+        totalVectors: Number(stats?.total || 0),
+        dimension: stats?.dimension || 0,
+        indexFullness: 0 // Bounded only by database storage
+      }
+    } catch (error) {
+      logger.error('Failed to get pgvector statistics:', error)
+      throw new VectorStoreError('Failed to get pgvector statistics', this.name, error)
+    }
+  }
+}
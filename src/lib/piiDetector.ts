@@ -6,92 +6,24 @@
  */
 
 import { logger } from './logger'
-import { geminiService } from './gemini'
+import { llmService } from './llm'
 import { db } from './db'
+import { slackUserDirectoryService } from './slackUserDirectory'
+import { findOccurrences, redactText, type RedactableDetection } from './piiRedaction'
+import { piiRuleService, type PIIAllowLists, type PIIDetectionConfig } from './piiRules'
+import { isValidIBAN, isValidLuhn, isValidSSN } from './piiValidators'
+import { curationActivityService } from './curationActivity'
 import { 
+  ActivityTargetType,
+  ActivityType,
   PIIDetection, 
   PIIType, 
   PIIStatus, 
   PIISourceType,
+  PIIRuleValidator,
   ProcessingError 
 } from '@/types'
 
-// Business email patterns that should NOT be treated as PII
-const BUSINESS_EMAIL_PATTERNS = [
-  // Support and customer service
-  /\b(support|help|customer|service|assist|care)@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}\b/gi,
-  // Sales and business development
-  /\b(sales|biz|business|bd|partnerships|deals)@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}\b/gi,
-  // Technical and operations
-  /\b(admin|ops|tech|engineering|dev|devops|api|noreply|no-reply)@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}\b/gi,
-  // Billing and finance
-  /\b(billing|invoice|payments|finance|accounting|accounts)@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}\b/gi,
-  // Legal and compliance
-  /\b(legal|compliance|security|privacy|dmca)@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}\b/gi,
-  // General business functions
-  /\b(info|contact|hello|inquiries|team|office)@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}\b/gi,
-  // Marketing and communications
-  /\b(marketing|press|media|pr|communications|newsletter)@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}\b/gi
-]
-
-// Well-known business domains that are typically not PII
-const BUSINESS_DOMAINS = new Set([
-  // Major vendors and services
-  'salesforce.com', 'hubspot.com', 'mailchimp.com', 'stripe.com', 'paypal.com',
-  'aws.amazon.com', 'microsoft.com', 'google.com', 'adobe.com', 'oracle.com',
-  'atlassian.com', 'slack.com', 'zoom.us', 'dropbox.com', 'box.com',
-  // Common business email providers
-  'company.com', 'corp.com', 'inc.com', 'llc.com', 'ltd.com',
-  // Support domains
-  'support.com', 'help.com', 'service.com'
-])
-
-// Regular expression patterns for PII detection
-const PII_PATTERNS = {
-  // Personal email pattern (will be filtered against business patterns)
-  EMAIL: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-  
-  // Personal phone numbers (not business lines)
-  PERSONAL_PHONE: /(\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})/g,
-  
-  // Sensitive URLs (not public business URLs)
-  SENSITIVE_URL: /https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)/g,
-  
-  // Financial information
-  CREDIT_CARD: /\b(?:\d{4}[-\s]?){3}\d{4}\b/g,
-  SSN: /\b\d{3}-?\d{2}-?\d{4}\b/g,
-  
-  // Personal identifiers
-  PERSONAL_ID: /\b\d{9,12}\b/g // Generic ID numbers
-}
-
-// Replacement templates
-const PII_REPLACEMENTS = {
-  EMAIL: '[PERSONAL_EMAIL]',
-  PHONE: '[PERSONAL_PHONE]',
-  NAME: '[PERSON_NAME]',
-  URL: '[SENSITIVE_URL]',
-  CUSTOM: '[REDACTED]',
-  CREDIT_CARD: '[CREDIT_CARD]',
-  SSN: '[SSN]',
-  PERSONAL_ID: '[ID_NUMBER]'
-}
-
-// Terms that are commonly mistaken for names but are not PII
-const NAME_WHITELIST = new Set([
-  // Technical terms
-  'api', 'url', 'http', 'https', 'json', 'xml', 'css', 'html', 'js', 'javascript',
-  'react', 'node', 'npm', 'yarn', 'git', 'github', 'gitlab', 'docker', 'aws',
-  // Business roles and functions
-  'admin', 'user', 'guest', 'bot', 'system', 'support', 'help', 'service',
-  'manager', 'director', 'executive', 'team', 'staff', 'department',
-  // Generic terms
-  'password', 'username', 'email', 'phone', 'name', 'address', 'login',
-  'signin', 'signup', 'account', 'profile', 'settings', 'config',
-  // Business terms
-  'company', 'corporation', 'business', 'organization', 'enterprise'
-])
-
 /**
  * Business-aware PII Detection service
  * Preserves essential business information while protecting personal data
@@ -115,12 +47,18 @@ class BusinessAwarePIIDetectorService {
       skipRulesBased?: boolean
       confidenceThreshold?: number
       preserveBusinessEmails?: boolean
+      channel?: string // Slack channel of the text, for channel-scoped rules; looked up for messages
     } = {}
   ): Promise<PIIDetection[]> {
     const detections: PIIDetection[] = []
     
     try {
       logger.info(`Starting business-aware PII detection for ${sourceType} ${sourceId}`)
+
+      const channel = options.channel ?? (sourceType === PIISourceType.MESSAGE
+        ? (await db.message.findUnique({ where: { id: sourceId }, select: { channel: true } }))?.channel
+        : undefined)
+      const config = await piiRuleService.getDetectionConfig(channel)
       
       // Step 1: Rule-based detection with business awareness
       if (!options.skipRulesBased) {
@@ -128,6 +66,7 @@ class BusinessAwarePIIDetectorService {
           text, 
           sourceType, 
           sourceId,
+          config,
           options.preserveBusinessEmails !== false
         )
         detections.push(...ruleBasedDetections)
@@ -139,6 +78,7 @@ class BusinessAwarePIIDetectorService {
           text, 
           sourceType, 
           sourceId, 
+          config.lists,
           options.confidenceThreshold
         )
         
@@ -172,108 +112,90 @@ class BusinessAwarePIIDetectorService {
 
   /**
    * Business-aware rule-based PII detection
-   * Preserves business-critical email addresses and contact information
+   * Runs the enabled registry rules in priority order; a match must pass the rule's validator
+   * and not overlap a match from a higher-priority rule
    */
   private async detectWithBusinessRules(
     text: string,
     sourceType: PIISourceType,
     sourceId: string,
+    config: PIIDetectionConfig,
     preserveBusinessEmails: boolean = true
   ): Promise<PIIDetection[]> {
     const detections: PIIDetection[] = []
 
-    // Email detection with business awareness
-    const emailMatches = Array.from(text.matchAll(PII_PATTERNS.EMAIL))
-    for (const match of emailMatches) {
-      if (match.index !== undefined) {
-        const email = match[0]
-        
-        // Skip business emails if preservation is enabled
-        if (preserveBusinessEmails && this.isBusinessEmail(email)) {
-          logger.debug(`Preserving business email: ${email}`)
+    for (const rule of config.rules) {
+      rule.regex.lastIndex = 0
+
+      for (const match of Array.from(text.matchAll(rule.regex))) {
+        if (match.index === undefined || !match[0]) {
           continue
         }
-        
-        // Only flag personal emails as PII
-        detections.push({
-          id: '', // Will be set when stored
-          sourceType,
-          sourceId,
-          piiType: PIIType.EMAIL,
-          originalText: email,
-          replacementText: PII_REPLACEMENTS.EMAIL,
-          confidence: 0.95,
-          status: PIIStatus.AUTO_REPLACED,
-          reviewedBy: null,
-          reviewedAt: null,
-          createdAt: new Date()
-        })
-      }
-    }
 
-    // Personal phone number detection (excluding business lines)
-    const phoneMatches = Array.from(text.matchAll(PII_PATTERNS.PERSONAL_PHONE))
-    for (const match of phoneMatches) {
-      if (match.index !== undefined && this.isLikelyPersonalPhone(match[0], text)) {
-        detections.push({
-          id: '',
+        const candidate: PIIDetection = {
+          id: '', // Will be set when stored
           sourceType,
           sourceId,
-          piiType: PIIType.PHONE,
+          piiType: rule.piiType,
           originalText: match[0],
-          replacementText: PII_REPLACEMENTS.PHONE,
-          confidence: 0.85, // Lower confidence for context-dependent detection
-          status: PIIStatus.PENDING_REVIEW, // Require review for phone numbers
+          replacementText: rule.replacementText,
+          startOffset: match.index,
+          endOffset: match.index + match[0].length,
+          confidence: rule.confidence,
+          status: rule.defaultStatus,
           reviewedBy: null,
           reviewedAt: null,
           createdAt: new Date()
-        })
-      }
-    }
+        }
 
-    // Sensitive URL detection (excluding public business URLs)
-    const urlMatches = Array.from(text.matchAll(PII_PATTERNS.SENSITIVE_URL))
-    for (const match of urlMatches) {
-      if (match.index !== undefined && this.isSensitiveURL(match[0])) {
-        detections.push({
-          id: '',
-          sourceType,
-          sourceId,
-          piiType: PIIType.URL,
-          originalText: match[0],
-          replacementText: PII_REPLACEMENTS.URL,
-          confidence: 0.8,
-          status: PIIStatus.PENDING_REVIEW, // URLs need manual review
-          reviewedBy: null,
-          reviewedAt: null,
-          createdAt: new Date()
-        })
-      }
-    }
+        if (detections.some(existing => this.isOverlapping(existing, candidate))) {
+          continue
+        }
 
-    // Financial information detection
-    const creditCardMatches = Array.from(text.matchAll(PII_PATTERNS.CREDIT_CARD))
-    for (const match of creditCardMatches) {
-      if (match.index !== undefined) {
-        detections.push({
-          id: '',
-          sourceType,
-          sourceId,
-          piiType: PIIType.CUSTOM,
-          originalText: match[0],
-          replacementText: PII_REPLACEMENTS.CREDIT_CARD,
-          confidence: 0.98,
-          status: PIIStatus.AUTO_REPLACED,
-          reviewedBy: null,
-          reviewedAt: null,
-          createdAt: new Date()
-        })
+        if (!this.passesValidator(rule.validator, match[0], text, config.lists, preserveBusinessEmails)) {
+          continue
+        }
+
+        detections.push(candidate)
       }
     }
 
     return detections
   }
 
+  /**
+   * Apply a rule's checksum or context validator to a match
+   */
+  private passesValidator(
+    validator: PIIRuleValidator,
+    value: string,
+    text: string,
+    lists: PIIAllowLists,
+    preserveBusinessEmails: boolean
+  ): boolean {
+    switch (validator) {
+      case PIIRuleValidator.LUHN:
+        return isValidLuhn(value)
+      case PIIRuleValidator.SSN:
+        return isValidSSN(value)
+      case PIIRuleValidator.IBAN:
+        return isValidIBAN(value)
+      case PIIRuleValidator.BUSINESS_EMAIL:
+        if (preserveBusinessEmails && this.isBusinessEmail(value, lists)) {
+          logger.debug(`Preserving business email: ${value}`)
+          return false
+        }
+        return true
+      case PIIRuleValidator.PERSONAL_PHONE:
+        return this.isLikelyPersonalPhone(value, text)
+      case PIIRuleValidator.SENSITIVE_URL:
+        return this.isSensitiveURL(value)
+      case PIIRuleValidator.NONE:
+      default:
+        return true
+    }
+  }
+
   /**
    * AI-powered PII detection with business context
    */
@@ -281,10 +203,11 @@ class BusinessAwarePIIDetectorService {
     text: string,
     sourceType: PIISourceType,
     sourceId: string,
+    lists: PIIAllowLists,
     confidenceThreshold: number = 0.7
   ): Promise<PIIDetection[]> {
     try {
-      const response = await geminiService.detectBusinessAwarePII(text)
+      const response = await llmService.detectBusinessAwarePII(text)
       
       if (!response.success || !response.data) {
         logger.warn(`AI business-aware PII detection failed for ${sourceType} ${sourceId}: ${response.error}`)
@@ -305,7 +228,7 @@ class BusinessAwarePIIDetectorService {
         }
 
         // Additional validation for names to reduce false positives
-        if (aiDetection.type === 'NAME' && this.isWhitelistedName(aiDetection.originalText)) {
+        if (aiDetection.type === 'NAME' && this.isWhitelistedName(aiDetection.originalText, lists)) {
           continue
         }
 
@@ -316,19 +239,30 @@ class BusinessAwarePIIDetectorService {
           continue
         }
 
-        detections.push({
-          id: '',
-          sourceType,
-          sourceId,
-          piiType: mappedPiiType,
-          originalText: aiDetection.originalText,
-          replacementText: aiDetection.replacement,
-          confidence: aiDetection.confidence,
-          status: aiDetection.confidence > 0.9 ? PIIStatus.AUTO_REPLACED : PIIStatus.PENDING_REVIEW,
-          reviewedBy: null,
-          reviewedAt: null,
-          createdAt: new Date()
-        })
+        // The model only returns the matched text - record one detection per whole-word occurrence
+        const occurrences = findOccurrences(text, aiDetection.originalText)
+        if (occurrences.length === 0) {
+          logger.warn(`AI PII detection for ${sourceType} ${sourceId} does not occur in the text, skipping`)
+          continue
+        }
+
+        for (const occurrence of occurrences) {
+          detections.push({
+            id: '',
+            sourceType,
+            sourceId,
+            piiType: mappedPiiType,
+            originalText: aiDetection.originalText,
+            replacementText: aiDetection.replacement,
+            startOffset: occurrence.start,
+            endOffset: occurrence.end,
+            confidence: aiDetection.confidence,
+            status: aiDetection.confidence > 0.9 ? PIIStatus.AUTO_REPLACED : PIIStatus.PENDING_REVIEW,
+            reviewedBy: null,
+            reviewedAt: null,
+            createdAt: new Date()
+          })
+        }
       }
 
       return detections
@@ -340,32 +274,55 @@ class BusinessAwarePIIDetectorService {
   }
 
   /**
-   * Apply PII replacements to text
+   * Apply PII replacements to text by position
+   * Every detection is replaced unless it was whitelisted in review
    */
-  async replacePII(text: string, detections: PIIDetection[]): Promise<string> {
-    let cleanedText = text
-
-    // Sort detections by position (descending) to avoid index issues
-    const sortedDetections = detections
-      .filter(d => d.status === PIIStatus.AUTO_REPLACED || d.status === PIIStatus.WHITELISTED)
-      .sort((a, b) => {
-        const aStart = text.indexOf(a.originalText)
-        const bStart = text.indexOf(b.originalText)
-        return bStart - aStart
-      })
+  async replacePII(text: string, detections: RedactableDetection[]): Promise<string> {
+    return redactText(text, detections)
+  }
 
-    for (const detection of sortedDetections) {
-      if (detection.status === PIIStatus.WHITELISTED) {
-        continue // Keep whitelisted items as-is
-      }
+  /**
+   * Get the redacted text of a message - the only form of message text that may leave the system
+   * (AI prompts, Salesforce sync, exports)
+   */
+  async getRedactedText(messageId: string): Promise<string> {
+    const redacted = await this.getRedactedTexts([messageId])
+    const text = redacted.get(messageId)
 
-      cleanedText = cleanedText.replace(
-        new RegExp(this.escapeRegExp(detection.originalText), 'g'),
-        detection.replacementText
-      )
+    if (text === undefined) {
+      throw new ProcessingError(`Message ${messageId} not found`)
+    }
+
+    return text
+  }
+
+  /**
+   * Get redacted texts for a batch of messages, keyed by message ID
+   */
+  async getRedactedTexts(messageIds: string[]): Promise<Map<string, string>> {
+    if (messageIds.length === 0) {
+      return new Map()
     }
 
-    return cleanedText
+    const messages = await db.message.findMany({
+      where: { id: { in: messageIds } },
+      select: {
+        id: true,
+        text: true,
+        piiDetections: {
+          where: { sourceType: 'MESSAGE' },
+          select: {
+            originalText: true,
+            replacementText: true,
+            status: true,
+            startOffset: true,
+            endOffset: true
+          }
+        }
+      }
+    })
+
+    return new Map(messages.map(message => [message.id, redactText(message.text, message.piiDetections)]))
   }
 
   /**
@@ -388,13 +345,39 @@ class BusinessAwarePIIDetectorService {
         updateData.replacementText = customReplacement
       }
 
-      await db.pIIDetection.update({
+      const detection = await db.pIIDetection.update({
         where: { id: detectionId },
         data: updateData
       })
 
       logger.info(`PII detection ${detectionId} reviewed by ${reviewedBy}, status: ${status}`)
 
+      // The detected value itself is never logged
+      await curationActivityService.record({
+        userId: reviewedBy,
+        activityType: ActivityType.PII_REVIEWED,
+        targetType: detection.sourceType === 'DOCUMENT' ? ActivityTargetType.DOCUMENT : ActivityTargetType.MESSAGE,
+        targetId: detection.sourceId,
+        details: {
+          detectionId,
+          piiType: detection.piiType,
+          status,
+          customReplacement: Boolean(customReplacement)
+        }
+      })
+
+      if (detection.piiType === 'NAME') {
+        await this.refreshMaskedUsernames([detection.originalText])
+      }
+
+      // The redacted text changed, so the message search embedding is refreshed by the backfill
+      if (detection.sourceType === 'MESSAGE') {
+        await db.message.updateMany({
+          where: { id: detection.sourceId },
+          data: { embeddedAt: null, embeddingAttempts: 0, embeddingRetryAt: null }
+        })
+      }
+
     } catch (error) {
       logger.error(`Failed to review PII detection ${detectionId}:`, error)
       throw new ProcessingError(`Failed to review PII detection: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -566,20 +549,47 @@ class BusinessAwarePIIDetectorService {
           piiType: detection.piiType as any,
           originalText: detection.originalText,
           replacementText: detection.replacementText,
+          startOffset: detection.startOffset ?? null,
+          endOffset: detection.endOffset ?? null,
           confidence: detection.confidence,
           status: detection.status as any
         }))
       })
+
+      await this.refreshMaskedUsernames(
+        detections.filter(d => d.piiType === PIIType.NAME).map(d => d.originalText)
+      )
     } catch (error) {
       logger.error('Failed to store PII detections:', error)
       throw new ProcessingError(`Failed to store PII detections: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
 
+  /**
+   * Re-evaluate username masking for Slack users whose name was detected or reviewed as PII
+   * Failures are logged only - they must not block PII detection or review
+   */
+  private async refreshMaskedUsernames(names: string[]): Promise<void> {
+    for (const name of Array.from(new Set(names))) {
+      try {
+        await slackUserDirectoryService.applyMaskingForName(name)
+      } catch (error) {
+        logger.error(`Failed to refresh masked usernames for detected name:`, error)
+      }
+    }
+  }
+
   /**
    * Check if two PII detections overlap
    */
   private isOverlapping(detection1: PIIDetection, detection2: PIIDetection): boolean {
+    if (
+      typeof detection1.startOffset === 'number' && typeof detection1.endOffset === 'number' &&
+      typeof detection2.startOffset === 'number' && typeof detection2.endOffset === 'number'
+    ) {
+      return detection1.startOffset < detection2.endOffset && detection2.startOffset < detection1.endOffset
+    }
+
     const text1 = detection1.originalText.toLowerCase()
     const text2 = detection2.originalText.toLowerCase()
     
@@ -608,36 +618,25 @@ class BusinessAwarePIIDetectorService {
   /**
    * Determine if an email address is business-related
    * @param email - Email address to check
+   * @param lists - Business domain and email prefix allow-lists
    * @returns True if email appears to be business-related
    */
-  private isBusinessEmail(email: string): boolean {
-    const emailLower = email.toLowerCase()
+  private isBusinessEmail(email: string, lists: PIIAllowLists): boolean {
+    const [localPart = '', domain = ''] = email.toLowerCase().split('@')
     
-    // Check against business email patterns
-    for (const pattern of BUSINESS_EMAIL_PATTERNS) {
-      if (pattern.test(emailLower)) {
-        logger.debug(`Email ${email} matches business pattern: ${pattern}`)
+    // Check against known business domains (including subdomains)
+    for (const businessDomain of Array.from(lists.businessDomains)) {
+      if (domain === businessDomain || domain.endsWith(`.${businessDomain}`)) {
+        logger.debug(`Email ${email} has business domain: ${businessDomain}`)
         return true
       }
     }
     
-    // Check against known business domains
-    const domain = emailLower.split('@')[1]
-    if (domain && BUSINESS_DOMAINS.has(domain)) {
-      logger.debug(`Email ${email} has business domain: ${domain}`)
-      return true
-    }
-    
-    // Check for generic business indicators in local part
-    const localPart = emailLower.split('@')[0]
-    const businessIndicators = [
-      'support', 'help', 'sales', 'info', 'contact', 'admin', 'service',
-      'billing', 'accounts', 'team', 'office', 'hello', 'inquiries'
-    ]
-    
-    for (const indicator of businessIndicators) {
-      if (localPart.includes(indicator)) {
-        logger.debug(`Email ${email} has business indicator: ${indicator}`)
+    // Check the local part for business prefixes, as a word ("acme.support") or embedded ("supportteam")
+    const words = new Set([localPart, ...localPart.split(/[^a-z0-9]+/)])
+    for (const prefix of Array.from(lists.businessEmailPrefixes)) {
+      if (words.has(prefix) || (prefix.length >= 4 && localPart.includes(prefix))) {
+        logger.debug(`Email ${email} has business indicator: ${prefix}`)
         return true
       }
     }
@@ -686,11 +685,11 @@ class BusinessAwarePIIDetectorService {
   /**
    * Check if a detected name is in the whitelist
    */
-  private isWhitelistedName(name: string): boolean {
+  private isWhitelistedName(name: string, lists: PIIAllowLists): boolean {
     const lowerName = name.toLowerCase()
     
     // Check against whitelist
-    if (NAME_WHITELIST.has(lowerName)) {
+    if (lists.nameWhitelist.has(lowerName)) {
       return true
     }
 
@@ -707,13 +706,6 @@ class BusinessAwarePIIDetectorService {
     return false
   }
 
-  /**
-   * Escape special regex characters
-   */
-  private escapeRegExp(string: string): string {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-  }
-
   /**
    * Map AI detection types to our schema PIIType enum values
    */
@@ -724,6 +716,9 @@ class BusinessAwarePIIDetectorService {
       'NAME': PIIType.NAME,
       'PERSON_NAME': PIIType.NAME, // AI often returns PERSON_NAME, map to NAME
       'URL': PIIType.URL,
+      'SSN': PIIType.SSN,
+      'CREDIT_CARD': PIIType.CREDIT_CARD,
+      'PERSONAL_ID': PIIType.PERSONAL_ID,
       'CUSTOM': PIIType.CUSTOM
     }
     
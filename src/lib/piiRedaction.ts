@@ -0,0 +1,122 @@
+/**
+ * PII Redaction Utilities
+ * Position-aware replacement of detected PII spans
+ * Pure functions - safe to use from both API routes and components
+ */
+
+import { PIIStatus } from '@/types'
+import type { PIIDetection } from '@/types'
+
+/**
+ * Fields of a detection needed to redact text
+ */
+export type RedactableDetection = Pick<
+  PIIDetection,
+  'originalText' | 'replacementText' | 'status' | 'startOffset' | 'endOffset'
+>
+
+/**
+ * Resolved span of text covered by one detection
+ */
+interface RedactionSpan {
+  start: number
+  end: number
+  replacement: string
+  keep: boolean
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u
+
+/**
+ * Whether a detection is replaced in the redacted view
+ * Everything is redacted unless a reviewer whitelisted it, so pending items never leak
+ */
+export const isRedacted = (status: string): boolean => status !== PIIStatus.WHITELISTED
+
+/**
+ * Find every whole-word occurrence of a value in text
+ * Case-sensitive, so a name like "Bill" does not match the word "bill"
+ */
+export const findOccurrences = (text: string, value: string): Array<{ start: number; end: number }> => {
+  const occurrences: Array<{ start: number; end: number }> = []
+  if (!value) {
+    return occurrences
+  }
+
+  let index = text.indexOf(value)
+  while (index !== -1) {
+    const end = index + value.length
+    const before = index > 0 ? text[index - 1] : ''
+    const after = end < text.length ? text[end] : ''
+    // Only require boundaries on sides where the value itself starts/ends with a word character
+    const startsClean = !WORD_CHAR.test(value[0]) || !before || !WORD_CHAR.test(before)
+    const endsClean = !WORD_CHAR.test(value[value.length - 1]) || !after || !WORD_CHAR.test(after)
+
+    if (startsClean && endsClean) {
+      occurrences.push({ start: index, end })
+    }
+
+    index = text.indexOf(value, index + 1)
+  }
+
+  return occurrences
+}
+
+/**
+ * Resolve the spans covered by a detection
+ * Uses the stored offsets when they still match the text, otherwise every occurrence
+ * (detections stored before offsets existed, or text that changed since detection)
+ */
+const resolveSpans = (text: string, detection: RedactableDetection): RedactionSpan[] => {
+  const keep = !isRedacted(detection.status)
+  const { startOffset, endOffset } = detection
+
+  if (
+    typeof startOffset === 'number' &&
+    typeof endOffset === 'number' &&
+    text.slice(startOffset, endOffset) === detection.originalText
+  ) {
+    return [{ start: startOffset, end: endOffset, replacement: detection.replacementText, keep }]
+  }
+
+  return findOccurrences(text, detection.originalText).map(({ start, end }) => ({
+    start,
+    end,
+    replacement: detection.replacementText,
+    keep
+  }))
+}
+
+/**
+ * Apply detections to text by position
+ * Overlapping spans are resolved deterministically: earliest start wins, then the longest span,
+ * then a whitelist decision over a redaction
+ * @param text - Original text
+ * @param detections - Detections for this text
+ * @returns Text with every non-whitelisted span replaced
+ */
+export const redactText = (text: string, detections: RedactableDetection[]): string => {
+  const spans = detections
+    .flatMap(detection => resolveSpans(text, detection))
+    .sort((a, b) =>
+      a.start - b.start ||
+      b.end - a.end ||
+      Number(b.keep) - Number(a.keep) ||
+      a.replacement.localeCompare(b.replacement)
+    )
+
+  let result = ''
+  let cursor = 0
+
+  for (const span of spans) {
+    if (span.start < cursor) {
+      continue // Covered by an earlier span
+    }
+
+    result += text.slice(cursor, span.start)
+    result += span.keep ? text.slice(span.start, span.end) : span.replacement
+    cursor = span.end
+  }
+
+  return result + text.slice(cursor)
+}
@@ -0,0 +1,567 @@
+/**
+ * PII Rule Registry Service
+ * Database-backed detection rules (built-in and custom regex) and the allow-lists
+ * used to keep business information out of PII detection - editable without a redeploy
+ */
+
+import { logger } from './logger'
+import { db } from './db'
+import type { PIIRule as PIIRuleRecord, PIIListEntry as PIIListEntryRecord, Prisma } from '@prisma/client'
+import {
+  PIIListType,
+  PIIRuleValidator,
+  PIIStatus,
+  PIIType,
+  ValidationError
+} from '@/types'
+
+// Rules and lists are re-read from the database at most this often
+const CACHE_TTL_MS = 60 * 1000
+const RULE_KEY_PATTERN = /^[A-Z][A-Z0-9_]{1,63}$/
+const ALLOWED_FLAGS = /^[gimsuy]*$/
+
+/**
+ * A rule with its regular expression compiled
+ */
+export interface CompiledPIIRule {
+  key: string
+  piiType: PIIType
+  regex: RegExp
+  replacementText: string
+  validator: PIIRuleValidator
+  confidence: number
+  defaultStatus: PIIStatus
+  channels: string[] // Empty applies everywhere
+}
+
+/**
+ * Allow-lists as lookup sets (lower-cased)
+ */
+export interface PIIAllowLists {
+  businessDomains: Set<string>
+  businessEmailPrefixes: Set<string>
+  nameWhitelist: Set<string>
+}
+
+/**
+ * Everything rule-based detection needs
+ */
+export interface PIIDetectionConfig {
+  rules: CompiledPIIRule[]
+  lists: PIIAllowLists
+}
+
+/**
+ * Input for creating or updating a rule
+ */
+export interface PIIRuleInput {
+  key?: string
+  name?: string
+  description?: string | null
+  piiType?: PIIType
+  pattern?: string
+  flags?: string
+  replacementText?: string
+  validator?: PIIRuleValidator
+  confidence?: number
+  defaultStatus?: PIIStatus
+  priority?: number
+  enabled?: boolean
+  team?: string | null
+  channels?: string[]
+  createdBy?: string | null
+}
+
+type DefaultRule = Omit<Prisma.PIIRuleCreateManyInput, 'builtIn'>
+
+// Built-in rules - seeded on first use, can be disabled or tuned but not deleted
+const DEFAULT_RULES: DefaultRule[] = [
+  {
+    key: 'CREDIT_CARD',
+    name: 'Payment card number',
+    description: '13-19 digit card numbers that pass the Luhn checksum',
+    piiType: 'CREDIT_CARD',
+    pattern: '\\b(?:\\d[ -]?){12,18}\\d\\b',
+    replacementText: '[CREDIT_CARD]',
+    validator: 'LUHN',
+    confidence: 0.98,
+    defaultStatus: 'AUTO_REPLACED',
+    priority: 10
+  },
+  {
+    key: 'SSN',
+    name: 'US Social Security Number',
+    description: 'SSNs with or without dashes, excluding ranges that are never issued',
+    piiType: 'SSN',
+    pattern: '\\b\\d{3}-?\\d{2}-?\\d{4}\\b',
+    replacementText: '[SSN]',
+    validator: 'SSN',
+    confidence: 0.9,
+    defaultStatus: 'AUTO_REPLACED',
+    priority: 20
+  },
+  {
+    key: 'IBAN',
+    name: 'IBAN',
+    description: 'International bank account numbers that pass the mod 97 checksum',
+    piiType: 'CUSTOM',
+    pattern: '\\b[A-Z]{2}\\d{2}(?: ?[A-Z0-9]){11,30}\\b',
+    replacementText: '[IBAN]',
+    validator: 'IBAN',
+    confidence: 0.95,
+    defaultStatus: 'AUTO_REPLACED',
+    priority: 25
+  },
+  {
+    key: 'EMAIL',
+    name: 'Personal email address',
+    description: 'Email addresses, except business addresses from the allow-lists',
+    piiType: 'EMAIL',
+    pattern: '\\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}\\b',
+    replacementText: '[PERSONAL_EMAIL]',
+    validator: 'BUSINESS_EMAIL',
+    confidence: 0.95,
+    defaultStatus: 'AUTO_REPLACED',
+    priority: 30
+  },
+  {
+    key: 'AWS_ACCESS_KEY',
+    name: 'AWS access key ID',
+    piiType: 'SECRET',
+    pattern: '\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b',
+    replacementText: '[AWS_KEY]',
+    confidence: 0.98,
+    defaultStatus: 'AUTO_REPLACED',
+    priority: 35
+  },
+  {
+    key: 'JWT',
+    name: 'JSON Web Token',
+    piiType: 'SECRET',
+    pattern: '\\beyJ[A-Za-z0-9_-]{5,}\\.eyJ[A-Za-z0-9_-]{5,}\\.[A-Za-z0-9_-]+',
+    replacementText: '[JWT]',
+    confidence: 0.98,
+    defaultStatus: 'AUTO_REPLACED',
+    priority: 35
+  },
+  {
+    key: 'API_KEY',
+    name: 'API token',
+    description: 'Common provider token formats (Slack, Stripe, GitHub)',
+    piiType: 'SECRET',
+    pattern: '\\b(?:xox[abpr]-[A-Za-z0-9-]{10,}|(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}|gh[pousr]_[A-Za-z0-9]{36,})\\b',
+    replacementText: '[API_KEY]',
+    confidence: 0.95,
+    defaultStatus: 'AUTO_REPLACED',
+    priority: 35
+  },
+  {
+    key: 'PHONE',
+    name: 'Personal phone number',
+    description: 'Phone numbers mentioned in a personal context',
+    piiType: 'PHONE',
+    pattern: '(\\+?1[-.\\s]?)?\\(?([0-9]{3})\\)?[-.\\s]?([0-9]{3})[-.\\s]?([0-9]{4})',
+    replacementText: '[PERSONAL_PHONE]',
+    validator: 'PERSONAL_PHONE',
+    confidence: 0.85,
+    defaultStatus: 'PENDING_REVIEW',
+    priority: 40
+  },
+  {
+    key: 'SENSITIVE_URL',
+    name: 'Sensitive URL',
+    description: 'Links to admin pages, dashboards or URLs carrying tokens and keys',
+    piiType: 'URL',
+    pattern: 'https?:\\/\\/(www\\.)?[-a-zA-Z0-9@:%._\\+~#=]{1,256}\\.[a-zA-Z0-9()]{1,6}\\b([-a-zA-Z0-9()@:%_\\+.~#?&//=]*)',
+    replacementText: '[SENSITIVE_URL]',
+    validator: 'SENSITIVE_URL',
+    confidence: 0.8,
+    defaultStatus: 'PENDING_REVIEW',
+    priority: 50
+  },
+  {
+    key: 'PERSONAL_ID',
+    name: 'Personal ID number',
+    description: 'Long bare numbers that may be account or ID numbers',
+    piiType: 'PERSONAL_ID',
+    pattern: '\\b\\d{9,12}\\b',
+    replacementText: '[ID_NUMBER]',
+    confidence: 0.6,
+    defaultStatus: 'PENDING_REVIEW',
+    priority: 90
+  }
+]
+
+// Allow-list entries seeded the first time the registry is used
+const DEFAULT_LIST_ENTRIES: Record<PIIListType, string[]> = {
+  [PIIListType.BUSINESS_DOMAIN]: [
+    // Major vendors and services
+    'salesforce.com', 'hubspot.com', 'mailchimp.com', 'stripe.com', 'paypal.com',
+    'aws.amazon.com', 'microsoft.com', 'google.com', 'adobe.com', 'oracle.com',
+    'atlassian.com', 'slack.com', 'zoom.us', 'dropbox.com', 'box.com',
+    // Common business email providers
+    'company.com', 'corp.com', 'inc.com', 'llc.com', 'ltd.com',
+    // Support domains
+    'support.com', 'help.com', 'service.com'
+  ],
+  [PIIListType.BUSINESS_EMAIL_PREFIX]: [
+    'support', 'help', 'customer', 'service', 'assist', 'care',
+    'sales', 'biz', 'business', 'bd', 'partnerships', 'deals',
+    'admin', 'ops', 'tech', 'engineering', 'dev', 'devops', 'api', 'noreply', 'no-reply',
+    'billing', 'invoice', 'payments', 'finance', 'accounting', 'accounts',
+    'legal', 'compliance', 'security', 'privacy', 'dmca',
+    'info', 'contact', 'hello', 'inquiries', 'team', 'office',
+    'marketing', 'press', 'media', 'pr', 'communications', 'newsletter'
+  ],
+  [PIIListType.NAME_WHITELIST]: [
+    // Technical terms
+    'api', 'url', 'http', 'https', 'json', 'xml', 'css', 'html', 'js', 'javascript',
+    'react', 'node', 'npm', 'yarn', 'git', 'github', 'gitlab', 'docker', 'aws',
+    // Business roles and functions
+    'admin', 'user', 'guest', 'bot', 'system', 'support', 'help', 'service',
+    'manager', 'director', 'executive', 'team', 'staff', 'department',
+    // Generic terms
+    'password', 'username', 'email', 'phone', 'name', 'address', 'login',
+    'signin', 'signup', 'account', 'profile', 'settings', 'config',
+    // Business terms
+    'company', 'corporation', 'business', 'organization', 'enterprise'
+  ]
+}
+
+/**
+ * PII rule registry service class
+ */
+class PIIRuleService {
+  private cachedConfig: { config: PIIDetectionConfig; expiresAt: number } | null = null
+  private defaultsEnsured = false
+
+  /**
+   * Get the compiled enabled rules (by priority) and allow-lists
+   * Rules scoped to channels only apply to text from those channels
+   *
+   * @param channel - Slack channel ID of the text; without one only unscoped rules apply
+   */
+  async getDetectionConfig(channel?: string | null): Promise<PIIDetectionConfig> {
+    const config = await this.loadDetectionConfig()
+
+    return {
+      ...config,
+      rules: config.rules.filter(rule => rule.channels.length === 0 || rule.channels.includes(channel ?? ''))
+    }
+  }
+
+  /**
+   * Compiled rules for every scope, cached for CACHE_TTL_MS
+   */
+  private async loadDetectionConfig(): Promise<PIIDetectionConfig> {
+    if (this.cachedConfig && this.cachedConfig.expiresAt > Date.now()) {
+      return this.cachedConfig.config
+    }
+
+    await this.ensureDefaults()
+
+    const [rules, entries] = await Promise.all([
+      db.pIIRule.findMany({
+        where: { enabled: true },
+        orderBy: [{ priority: 'asc' }, { key: 'asc' }]
+      }),
+      db.pIIListEntry.findMany()
+    ])
+
+    const compiled: CompiledPIIRule[] = []
+    for (const rule of rules) {
+      try {
+        compiled.push({
+          key: rule.key,
+          piiType: rule.piiType as PIIType,
+          regex: this.compilePattern(rule.pattern, rule.flags),
+          replacementText: rule.replacementText,
+          validator: rule.validator as PIIRuleValidator,
+          confidence: rule.confidence,
+          defaultStatus: rule.defaultStatus as PIIStatus,
+          channels: rule.channels
+        })
+      } catch (error) {
+        logger.error(`Skipping PII rule ${rule.key} with invalid pattern:`, error)
+      }
+    }
+
+    const valuesOf = (listType: PIIListType) =>
+      new Set(entries.filter(entry => entry.listType === listType).map(entry => entry.value))
+
+    const config: PIIDetectionConfig = {
+      rules: compiled,
+      lists: {
+        businessDomains: valuesOf(PIIListType.BUSINESS_DOMAIN),
+        businessEmailPrefixes: valuesOf(PIIListType.BUSINESS_EMAIL_PREFIX),
+        nameWhitelist: valuesOf(PIIListType.NAME_WHITELIST)
+      }
+    }
+
+    this.cachedConfig = { config, expiresAt: Date.now() + CACHE_TTL_MS }
+    return config
+  }
+
+  /**
+   * List all rules, built-in first then by priority
+   */
+  async listRules(): Promise<PIIRuleRecord[]> {
+    await this.ensureDefaults()
+
+    return db.pIIRule.findMany({
+      orderBy: [{ builtIn: 'desc' }, { priority: 'asc' }, { key: 'asc' }]
+    })
+  }
+
+  /**
+   * Create a custom rule
+   */
+  async createRule(input: PIIRuleInput): Promise<PIIRuleRecord> {
+    const key = input.key?.trim().toUpperCase()
+    if (!key || !RULE_KEY_PATTERN.test(key)) {
+      throw new ValidationError('key must be 2-64 characters of A-Z, 0-9 and _ starting with a letter', 'key')
+    }
+    if (!input.name?.trim()) {
+      throw new ValidationError('name is required', 'name')
+    }
+    if (!input.pattern) {
+      throw new ValidationError('pattern is required', 'pattern')
+    }
+    if (!input.replacementText?.trim()) {
+      throw new ValidationError('replacementText is required', 'replacementText')
+    }
+
+    this.validateRuleInput(input)
+
+    const existing = await db.pIIRule.findUnique({ where: { key }, select: { id: true } })
+    if (existing) {
+      throw new ValidationError(`A rule with key ${key} already exists`, 'key')
+    }
+
+    const rule = await db.pIIRule.create({
+      data: {
+        key,
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        piiType: input.piiType || PIIType.CUSTOM,
+        pattern: input.pattern,
+        flags: input.flags ?? 'g',
+        replacementText: input.replacementText.trim(),
+        validator: input.validator || PIIRuleValidator.NONE,
+        confidence: input.confidence ?? 0.9,
+        defaultStatus: input.defaultStatus || PIIStatus.AUTO_REPLACED,
+        priority: input.priority ?? 100,
+        enabled: input.enabled ?? true,
+        team: input.team?.trim() || null,
+        channels: this.normalizeChannels(input.channels),
+        createdBy: input.createdBy || null
+      }
+    })
+
+    this.invalidate()
+    logger.info(`PII rule ${key} created${rule.team ? ` for team ${rule.team}` : ''}${rule.channels.length > 0 ? ` in ${rule.channels.length} channels` : ''}`)
+
+    return rule
+  }
+
+  /**
+   * Update a rule - built-in rules keep their key
+   */
+  async updateRule(id: string, input: PIIRuleInput): Promise<PIIRuleRecord> {
+    const existing = await db.pIIRule.findUnique({ where: { id } })
+    if (!existing) {
+      throw new ValidationError('PII rule not found', 'id')
+    }
+
+    this.validateRuleInput({
+      ...input,
+      pattern: input.pattern ?? existing.pattern,
+      flags: input.flags ?? existing.flags
+    })
+
+    const rule = await db.pIIRule.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: input.name.trim() }),
+        ...(input.description !== undefined && { description: input.description?.trim() || null }),
+        ...(input.piiType !== undefined && { piiType: input.piiType }),
+        ...(input.pattern !== undefined && { pattern: input.pattern }),
+        ...(input.flags !== undefined && { flags: input.flags }),
+        ...(input.replacementText !== undefined && { replacementText: input.replacementText.trim() }),
+        ...(input.validator !== undefined && { validator: input.validator }),
+        ...(input.confidence !== undefined && { confidence: input.confidence }),
+        ...(input.defaultStatus !== undefined && { defaultStatus: input.defaultStatus }),
+        ...(input.priority !== undefined && { priority: input.priority }),
+        ...(input.enabled !== undefined && { enabled: input.enabled }),
+        ...(input.team !== undefined && { team: input.team?.trim() || null }),
+        ...(input.channels !== undefined && { channels: this.normalizeChannels(input.channels) })
+      }
+    })
+
+    this.invalidate()
+    logger.info(`PII rule ${rule.key} updated`)
+
+    return rule
+  }
+
+  /**
+   * Delete a custom rule
+   */
+  async deleteRule(id: string): Promise<void> {
+    const existing = await db.pIIRule.findUnique({ where: { id } })
+    if (!existing) {
+      throw new ValidationError('PII rule not found', 'id')
+    }
+    if (existing.builtIn) {
+      throw new ValidationError('Built-in rules cannot be deleted - disable them instead', 'id')
+    }
+
+    await db.pIIRule.delete({ where: { id } })
+
+    this.invalidate()
+    logger.info(`PII rule ${existing.key} deleted`)
+  }
+
+  /**
+   * List allow-list entries, optionally for one list
+   */
+  async listEntries(listType?: PIIListType): Promise<PIIListEntryRecord[]> {
+    await this.ensureDefaults()
+
+    return db.pIIListEntry.findMany({
+      where: listType ? { listType } : {},
+      orderBy: [{ listType: 'asc' }, { value: 'asc' }]
+    })
+  }
+
+  /**
+   * Add a value to an allow-list
+   */
+  async addEntry(listType: PIIListType, value: string, createdBy?: string | null): Promise<PIIListEntryRecord> {
+    if (!Object.values(PIIListType).includes(listType)) {
+      throw new ValidationError(`Invalid listType. Use: ${Object.values(PIIListType).join(', ')}`, 'listType')
+    }
+
+    const normalized = value?.trim().toLowerCase()
+    if (!normalized) {
+      throw new ValidationError('value is required', 'value')
+    }
+    if (listType === PIIListType.BUSINESS_DOMAIN && !/^[a-z0-9.-]+\.[a-z]{2,}$/.test(normalized)) {
+      throw new ValidationError('Business domains must look like example.com', 'value')
+    }
+
+    const entry = await db.pIIListEntry.upsert({
+      where: { listType_value: { listType, value: normalized } },
+      create: { listType, value: normalized, createdBy: createdBy || null },
+      update: {}
+    })
+
+    this.invalidate()
+    return entry
+  }
+
+  /**
+   * Remove a value from an allow-list
+   */
+  async removeEntry(id: string): Promise<void> {
+    const existing = await db.pIIListEntry.findUnique({ where: { id }, select: { id: true } })
+    if (!existing) {
+      throw new ValidationError('List entry not found', 'id')
+    }
+
+    await db.pIIListEntry.delete({ where: { id } })
+    this.invalidate()
+  }
+
+  /**
+   * Validate regex, flags and numeric ranges of a rule
+   */
+  private validateRuleInput(input: PIIRuleInput): void {
+    if (input.flags !== undefined && !ALLOWED_FLAGS.test(input.flags)) {
+      throw new ValidationError('flags may only contain g, i, m, s, u and y', 'flags')
+    }
+
+    if (input.pattern !== undefined) {
+      let regex: RegExp
+      try {
+        regex = this.compilePattern(input.pattern, input.flags ?? 'g')
+      } catch (error) {
+        throw new ValidationError(`Invalid pattern: ${error instanceof Error ? error.message : 'unknown error'}`, 'pattern')
+      }
+
+      if (regex.test('')) {
+        throw new ValidationError('pattern must not match an empty string', 'pattern')
+      }
+    }
+
+    if (input.piiType !== undefined && !Object.values(PIIType).includes(input.piiType)) {
+      throw new ValidationError(`Invalid piiType. Use: ${Object.values(PIIType).join(', ')}`, 'piiType')
+    }
+    if (input.validator !== undefined && !Object.values(PIIRuleValidator).includes(input.validator)) {
+      throw new ValidationError(`Invalid validator. Use: ${Object.values(PIIRuleValidator).join(', ')}`, 'validator')
+    }
+    if (input.defaultStatus !== undefined && !Object.values(PIIStatus).includes(input.defaultStatus)) {
+      throw new ValidationError(`Invalid defaultStatus. Use: ${Object.values(PIIStatus).join(', ')}`, 'defaultStatus')
+    }
+    if (input.confidence !== undefined && (typeof input.confidence !== 'number' || input.confidence < 0 || input.confidence > 1)) {
+      throw new ValidationError('confidence must be between 0 and 1', 'confidence')
+    }
+    if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+      throw new ValidationError('priority must be an integer', 'priority')
+    }
+    if (input.channels !== undefined && (!Array.isArray(input.channels) || input.channels.some(channel => typeof channel !== 'string'))) {
+      throw new ValidationError('channels must be a list of Slack channel IDs', 'channels')
+    }
+  }
+
+  /**
+   * Trimmed, de-duplicated channel IDs
+   */
+  private normalizeChannels(channels: string[] | undefined): string[] {
+    return Array.from(new Set((channels || []).map(channel => channel.trim()).filter(Boolean)))
+  }
+
+  /**
+   * Compile a stored pattern - matching is always global
+   */
+  private compilePattern(pattern: string, flags: string): RegExp {
+    return new RegExp(pattern, flags.includes('g') ? flags : `${flags}g`)
+  }
+
+  /**
+   * Seed built-in rules, and the default allow-lists on first run
+   * Built-in rules are restored by key; list entries are only seeded once so removals stick
+   */
+  private async ensureDefaults(): Promise<void> {
+    if (this.defaultsEnsured) {
+      return
+    }
+
+    const builtInCount = await db.pIIRule.count({ where: { builtIn: true } })
+
+    await db.pIIRule.createMany({
+      data: DEFAULT_RULES.map(rule => ({ ...rule, builtIn: true })),
+      skipDuplicates: true
+    })
+
+    if (builtInCount === 0) {
+      await db.pIIListEntry.createMany({
+        data: Object.entries(DEFAULT_LIST_ENTRIES).flatMap(([listType, values]) =>
+          values.map(value => ({ listType: listType as PIIListType, value }))
+        ),
+        skipDuplicates: true
+      })
+      logger.info('Seeded default PII rules and allow-lists')
+    }
+
+    this.defaultsEnsured = true
+  }
+
+  private invalidate(): void {
+    this.cachedConfig = null
+  }
+}
+
+// Export singleton instance
+export const piiRuleService = new PIIRuleService()
+export default piiRuleService
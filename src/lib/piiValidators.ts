@@ -0,0 +1,73 @@
+/**
+ * PII Checksum Validators
+ * Reject regex matches that cannot be real card numbers, SSNs or IBANs
+ * Pure functions - safe to use from both API routes and components
+ */
+
+/**
+ * Luhn (mod 10) checksum used by payment card numbers
+ */
+export const isValidLuhn = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '')
+  if (digits.length < 13 || digits.length > 19) {
+    return false
+  }
+
+  let sum = 0
+  let double = false
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i])
+    if (double) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+    double = !double
+  }
+
+  return sum % 10 === 0
+}
+
+/**
+ * US Social Security Number structure (area, group and serial ranges that are never issued)
+ */
+export const isValidSSN = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '')
+  if (digits.length !== 9) {
+    return false
+  }
+
+  const area = digits.slice(0, 3)
+  const group = digits.slice(3, 5)
+  const serial = digits.slice(5)
+
+  if (area === '000' || area === '666' || area[0] === '9') {
+    return false
+  }
+
+  return group !== '00' && serial !== '0000'
+}
+
+/**
+ * IBAN mod 97 checksum (ISO 13616)
+ */
+export const isValidIBAN = (value: string): boolean => {
+  const iban = value.replace(/\s/g, '').toUpperCase()
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false
+  }
+
+  // Move the country code and check digits to the end, then convert letters to numbers (A=10 ... Z=35)
+  const rearranged = iban.slice(4) + iban.slice(0, 4)
+  let remainder = 0
+
+  for (const char of rearranged) {
+    const chunk = /\d/.test(char) ? char : (char.charCodeAt(0) - 55).toString()
+    for (const digit of chunk) {
+      remainder = (remainder * 10 + Number(digit)) % 97
+    }
+  }
+
+  return remainder === 1
+}
@@ -0,0 +1,192 @@
+/**
+ * Processing Settings Service
+ * Loads and persists the system-wide processing settings (single 'default' record)
+ * Shared by the settings API, the automation dashboard and the notification dispatcher
+ */
+
+import { logger } from './logger'
+import { db } from './db'
+import { DatabaseError, type LLMProviderName, type ProcessingSettings, type VectorStoreName } from '@/types'
+
+/**
+ * Default settings configuration
+ */
+export const DEFAULT_SETTINGS: ProcessingSettings = {
+  maxConcurrentJobs: 5,
+  defaultJobPriority: 0,
+  jobTimeoutMinutes: 30,
+  maxRetryAttempts: 3,
+  autoRetryFailedJobs: true,
+  retryBackoffMultiplier: 2,
+
+  enableScheduledProcessing: true,
+  scheduledProcessingInterval: 15,
+  batchProcessingSize: 10,
+  enableParallelProcessing: true,
+
+  enableAutoCleanup: true,
+  cleanupRetentionDays: 30,
+  cleanupSchedule: '0 2 * * *', // Daily at 2 AM
+  deleteFailedJobsAfterDays: 7,
+
+  notificationSettings: {
+    enableEmailAlerts: false,
+    enableSlackAlerts: true,
+    enableWebhookAlerts: false,
+    alertOnJobStart: false,
+    alertOnJobComplete: false,
+    alertOnJobFailure: true,
+    alertOnJobTimeout: true,
+    alertThresholdMinutes: 60,
+    emailRecipients: [],
+    slackChannel: '#processing-alerts',
+    webhookUrl: ''
+  },
+
+  resourceLimits: {
+    maxMemoryMB: 2048,
+    maxCpuPercent: 80,
+    maxDiskSpaceMB: 10240
+  },
+
+  featureFlags: {
+    enableAdvancedAnalytics: true,
+    enableRealTimeUpdates: true,
+    enableJobProfiling: false,
+    enableDebugMode: false,
+    requireReapprovalAfterEnhancement: true
+  },
+
+  integrationSettings: {
+    llmSettings: {
+      provider: (process.env.LLM_PROVIDER as LLMProviderName) || 'gemini',
+      embeddingProvider: (process.env.EMBEDDING_PROVIDER as LLMProviderName) || (process.env.LLM_PROVIDER as LLMProviderName) || 'gemini',
+      gemini: {
+        model: 'gemini-2.5-flash-lite', // Best quota: 4K RPM in Tier 1 vs 2K for 2.0 Flash
+        embeddingModel: 'text-embedding-004'
+      },
+      openai: {
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        model: 'gpt-4o-mini',
+        embeddingModel: 'text-embedding-3-small'
+      },
+      local: {
+        baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434',
+        model: 'llama3.1',
+        embeddingModel: 'nomic-embed-text'
+      }
+    },
+    vectorStoreSettings: {
+      provider: (process.env.VECTOR_STORE as VectorStoreName) || (process.env.PINECONE_API_KEY ? 'pinecone' : 'pgvector')
+    },
+    geminiSettings: {
+      enabled: true,
+      model: 'gemini-pro',
+      temperature: 0.7,
+      maxTokens: 4096,
+      rateLimitPerMinute: 60
+    },
+    pineconeSettings: {
+      enabled: true,
+      environment: process.env.PINECONE_ENVIRONMENT || 'development',
+      indexName: process.env.PINECONE_INDEX || 'sf-listen-bot',
+      dimension: 1536
+    },
+    slackSettings: {
+      enabled: true,
+      botToken: process.env.SLACK_BOT_TOKEN || '',
+      signingSecret: process.env.SLACK_SIGNING_SECRET || '',
+      defaultChannel: '#general'
+    }
+  },
+
+  metadata: {
+    lastUpdated: new Date().toISOString(),
+    updatedBy: 'system',
+    version: '1.0.0',
+    environment: process.env.NODE_ENV || 'development'
+  }
+}
+
+/**
+ * Processing settings service class
+ */
+class ProcessingSettingsService {
+  /**
+   * Get current processing settings, falling back to defaults
+   */
+  async getSettings(): Promise<ProcessingSettings> {
+    try {
+      // Try to get settings from database
+      const dbSettings = await db.processingSettings.findFirst({
+        orderBy: { updatedAt: 'desc' }
+      })
+
+      if (dbSettings && dbSettings.settings) {
+        // Merge with defaults to ensure all properties exist
+        return this.mergeSettings(DEFAULT_SETTINGS, dbSettings.settings as any)
+      }
+
+      // Return defaults if no settings exist
+      return DEFAULT_SETTINGS
+
+    } catch (error) {
+      logger.warn('Failed to load settings from database, using defaults:', error)
+      return DEFAULT_SETTINGS
+    }
+  }
+
+  /**
+   * Save processing settings
+   */
+  async saveSettings(settings: ProcessingSettings): Promise<void> {
+    try {
+      // Upsert settings in database
+      await db.processingSettings.upsert({
+        where: {
+          id: 'default' // Single settings record
+        },
+        update: {
+          settings: settings as any,
+          updatedAt: new Date()
+        },
+        create: {
+          id: 'default',
+          settings: settings as any,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }
+      })
+
+    } catch (error) {
+      logger.error('Failed to save settings to database:', error)
+      throw new DatabaseError('Failed to save settings', error)
+    }
+  }
+
+  /**
+   * Merge settings objects, preserving structure
+   */
+  mergeSettings(base: ProcessingSettings, updates: Partial<ProcessingSettings>): ProcessingSettings {
+    const merged = { ...base } as any
+
+    for (const [key, value] of Object.entries(updates)) {
+      if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        // Deep merge objects
+        merged[key] = {
+          ...(merged[key] || {}),
+          ...value
+        }
+      } else {
+        // Direct assignment for primitives and arrays
+        merged[key] = value
+      }
+    }
+
+    return merged as ProcessingSettings
+  }
+}
+
+// Export singleton instance
+export const processingSettingsService = new ProcessingSettingsService()
+export default processingSettingsService
@@ -25,12 +25,26 @@ import type {
   SalesforceUpdateResponse,
   SalesforceQueryResult,
   SalesforceApiClientConfig,
-  SalesforceError
+  SalesforceError,
+  SalesforceCollectionResult,
+  SalesforceBulkIngestJob,
+  SalesforceBulkRowResult
 } from '@/types'
 import {
   SalesforceAuthError,
   SalesforceApiError
 } from '@/types'
+import { toCsv, parseCsv } from './csv'
+
+/**
+ * Composite and Bulk API limits
+ */
+const COLLECTION_BATCH_SIZE = 200 // sObject collections accept at most 200 records per call
+const BULK_MAX_RECORDS_PER_JOB = 10000
+const BULK_MAX_UPLOAD_BYTES = 100 * 1024 * 1024 // Salesforce allows 150MB per upload after encoding
+const BULK_POLL_INITIAL_MS = 2000
+const BULK_POLL_MAX_MS = 30000
+const BULK_JOB_TIMEOUT_MS = 30 * 60 * 1000
 
 /**
  * Salesforce OAuth Configuration
@@ -308,6 +322,7 @@ export class SalesforceApiClient {
     dailyApiRequestsUsed?: string
     dailyApiRequestsLimit?: string
   } = {}
+  private requestCount = 0
 
   constructor(config: SalesforceApiClientConfig) {
     this.config = {
@@ -360,6 +375,7 @@ export class SalesforceApiClient {
         const controller = new AbortController()
         const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
 
+        this.requestCount++
         const response = await fetch(url, {
           ...requestOptions,
           signal: controller.signal
@@ -373,11 +389,16 @@ export class SalesforceApiClient {
         const responseText = await response.text()
         let data: any
 
-        try {
-          data = responseText ? JSON.parse(responseText) : null
-        } catch (parseError) {
-          logger.warn('Failed to parse JSON response', { responseText })
-          data = { message: responseText }
+        if (response.ok && response.headers.get('Content-Type')?.includes('text/csv')) {
+          // Bulk API job results
+          data = responseText
+        } else {
+          try {
+            data = responseText ? JSON.parse(responseText) : null
+          } catch (parseError) {
+            logger.warn('Failed to parse JSON response', { responseText })
+            data = { message: responseText }
+          }
         }
 
         if (!response.ok) {
@@ -497,6 +518,34 @@ export class SalesforceApiClient {
     }
   }
 
+  /**
+   * Get remaining daily API requests
+   * Uses the usage reported on the last response, falling back to the limits resource
+   *
+   * @returns Remaining requests, or null when Salesforce does not report them
+   */
+  public async getRemainingApiRequests(): Promise<number | null> {
+    const { used, limit } = this.getRateLimitInfo()
+    if (used && limit) {
+      return parseInt(limit) - parseInt(used)
+    }
+
+    try {
+      const limits = await this.getLimits()
+      return limits?.DailyApiRequests?.Remaining ?? null
+    } catch (error) {
+      logger.warn('Failed to read remaining Salesforce API requests', { error })
+      return null
+    }
+  }
+
+  /**
+   * Number of HTTP requests made by this client, including retries
+   */
+  public getRequestCount(): number {
+    return this.requestCount
+  }
+
   /**
    * Execute SOQL Query
    * 
@@ -592,11 +641,12 @@ export class SalesforceApiClient {
       }
     )
 
-    if (!response.success || !response.data) {
+    if (!response.success) {
       throw new SalesforceApiError('Record upsert failed', 500)
     }
 
-    return response.data
+    // Updates of existing records return 204 No Content - only creates include the record ID
+    return response.data || { id: '', success: true, errors: [] }
   }
 
   /**
@@ -615,6 +665,309 @@ export class SalesforceApiClient {
     return response.success
   }
 
+  /**
+   * Upsert Records
+   * Creates or updates records with sObject collection requests, 200 records per call
+   * allOrNone is off so one invalid record does not roll back the rest of its batch
+   * 
+   * @param sobjectType - Salesforce object type
+   * @param externalIdField - External ID field name; every record must include it
+   * @param records - Record data
+   * @returns Per-record results in input order
+   */
+  public async upsertRecords(
+    sobjectType: string,
+    externalIdField: string,
+    records: Array<Record<string, any>>
+  ): Promise<SalesforceCollectionResult[]> {
+    const results: SalesforceCollectionResult[] = []
+
+    for (let i = 0; i < records.length; i += COLLECTION_BATCH_SIZE) {
+      const batch = records.slice(i, i + COLLECTION_BATCH_SIZE)
+      const response = await this.makeRequest<SalesforceCollectionResult[]>(
+        `composite/sobjects/${sobjectType}/${externalIdField}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({
+            allOrNone: false,
+            records: batch.map(record => ({ attributes: { type: sobjectType }, ...record }))
+          })
+        }
+      )
+
+      if (!response.success || !Array.isArray(response.data)) {
+        throw new SalesforceApiError('Collection upsert failed', 500)
+      }
+
+      results.push(...response.data)
+    }
+
+    return results
+  }
+
+  /**
+   * Delete Records
+   * Deletes records with sObject collection requests, 200 records per call
+   * 
+   * @param recordIds - IDs of records to delete
+   * @returns Per-record results in input order
+   */
+  public async deleteRecords(recordIds: string[]): Promise<SalesforceCollectionResult[]> {
+    const results: SalesforceCollectionResult[] = []
+
+    for (let i = 0; i < recordIds.length; i += COLLECTION_BATCH_SIZE) {
+      const batch = recordIds.slice(i, i + COLLECTION_BATCH_SIZE)
+      const response = await this.makeRequest<SalesforceCollectionResult[]>(
+        `composite/sobjects?ids=${batch.map(encodeURIComponent).join(',')}&allOrNone=false`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.success || !Array.isArray(response.data)) {
+        throw new SalesforceApiError('Collection delete failed', 500)
+      }
+
+      results.push(...response.data)
+    }
+
+    return results
+  }
+
+  /**
+   * Bulk Upsert
+   * Upserts records through Bulk API 2.0 ingest jobs and waits for them to finish
+   * 
+   * @param sobjectType - Salesforce object type
+   * @param externalIdField - External ID field name; every record must include it
+   * @param records - Record data
+   * @returns Per-row results keyed by external ID value
+   */
+  public async bulkUpsert(
+    sobjectType: string,
+    externalIdField: string,
+    records: Array<Record<string, any>>
+  ): Promise<SalesforceBulkRowResult[]> {
+    const columns = [externalIdField]
+    for (const record of records) {
+      for (const field of Object.keys(record)) {
+        if (!columns.includes(field)) columns.push(field)
+      }
+    }
+
+    return this.runIngestJobs(
+      { object: sobjectType, operation: 'upsert', externalIdFieldName: externalIdField },
+      externalIdField,
+      columns,
+      records
+    )
+  }
+
+  /**
+   * Bulk Delete
+   * Deletes records through Bulk API 2.0 ingest jobs and waits for them to finish
+   * 
+   * @param sobjectType - Salesforce object type
+   * @param recordIds - IDs of records to delete
+   * @returns Per-row results keyed by record ID
+   */
+  public async bulkDelete(sobjectType: string, recordIds: string[]): Promise<SalesforceBulkRowResult[]> {
+    return this.runIngestJobs(
+      { object: sobjectType, operation: 'delete' },
+      'Id',
+      ['Id'],
+      recordIds.map(id => ({ Id: id }))
+    )
+  }
+
+  /**
+   * Create Bulk API 2.0 Ingest Job
+   * 
+   * @param job - Object, operation and external ID field for upserts
+   * @returns Open job
+   */
+  public async createIngestJob(job: {
+    object: string
+    operation: SalesforceBulkIngestJob['operation']
+    externalIdFieldName?: string
+  }): Promise<SalesforceBulkIngestJob> {
+    const response = await this.makeRequest<SalesforceBulkIngestJob>('jobs/ingest', {
+      method: 'POST',
+      body: JSON.stringify({ ...job, contentType: 'CSV', lineEnding: 'LF' })
+    })
+
+    if (!response.success || !response.data) {
+      throw new SalesforceApiError('Bulk job creation failed', 500)
+    }
+
+    return response.data
+  }
+
+  /**
+   * Upload CSV data to an open ingest job
+   */
+  public async uploadIngestJobData(jobId: string, csv: string): Promise<void> {
+    await this.makeRequest(`jobs/ingest/${jobId}/batches`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'text/csv' },
+      body: csv
+    })
+  }
+
+  /**
+   * Change the state of an ingest job - UploadComplete queues it for processing
+   */
+  public async setIngestJobState(
+    jobId: string,
+    state: 'UploadComplete' | 'Aborted'
+  ): Promise<SalesforceBulkIngestJob> {
+    const response = await this.makeRequest<SalesforceBulkIngestJob>(`jobs/ingest/${jobId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ state })
+    })
+
+    if (!response.success || !response.data) {
+      throw new SalesforceApiError('Bulk job state change failed', 500)
+    }
+
+    return response.data
+  }
+
+  /**
+   * Get ingest job information
+   */
+  public async getIngestJob(jobId: string): Promise<SalesforceBulkIngestJob> {
+    const response = await this.makeRequest<SalesforceBulkIngestJob>(`jobs/ingest/${jobId}`)
+
+    if (!response.success || !response.data) {
+      throw new SalesforceApiError('Failed to retrieve bulk job', 500)
+    }
+
+    return response.data
+  }
+
+  /**
+   * Get the successful, failed or unprocessed rows of a finished ingest job
+   */
+  public async getIngestJobResults(
+    jobId: string,
+    resultType: 'successfulResults' | 'failedResults' | 'unprocessedrecords'
+  ): Promise<Array<Record<string, string>>> {
+    const response = await this.makeRequest<string>(`jobs/ingest/${jobId}/${resultType}`, {
+      headers: { 'Accept': 'text/csv' }
+    })
+
+    return typeof response.data === 'string' ? parseCsv(response.data) : []
+  }
+
+  /**
+   * Run one or more ingest jobs for the rows and collect per-row results
+   * Rows are split across jobs to stay under the per-job record and upload size limits
+   */
+  private async runIngestJobs(
+    job: { object: string; operation: SalesforceBulkIngestJob['operation']; externalIdFieldName?: string },
+    keyColumn: string,
+    columns: string[],
+    rows: Array<Record<string, any>>
+  ): Promise<SalesforceBulkRowResult[]> {
+    const results: SalesforceBulkRowResult[] = []
+    const chunks: Array<Array<Record<string, any>>> = []
+
+    for (let i = 0; i < rows.length; i += BULK_MAX_RECORDS_PER_JOB) {
+      chunks.push(rows.slice(i, i + BULK_MAX_RECORDS_PER_JOB))
+    }
+
+    while (chunks.length > 0) {
+      const chunk = chunks.shift()!
+      const csv = toCsv(columns, chunk)
+
+      if (Buffer.byteLength(csv) > BULK_MAX_UPLOAD_BYTES && chunk.length > 1) {
+        const half = Math.ceil(chunk.length / 2)
+        chunks.unshift(chunk.slice(0, half), chunk.slice(half))
+        continue
+      }
+
+      results.push(...await this.runIngestJob(job, keyColumn, csv))
+    }
+
+    return results
+  }
+
+  /**
+   * Create, upload, close and wait for a single ingest job
+   */
+  private async runIngestJob(
+    job: { object: string; operation: SalesforceBulkIngestJob['operation']; externalIdFieldName?: string },
+    keyColumn: string,
+    csv: string
+  ): Promise<SalesforceBulkRowResult[]> {
+    const created = await this.createIngestJob(job)
+
+    try {
+      await this.uploadIngestJobData(created.id, csv)
+      await this.setIngestJobState(created.id, 'UploadComplete')
+    } catch (error) {
+      await this.setIngestJobState(created.id, 'Aborted').catch(() => undefined)
+      throw error
+    }
+
+    logger.info('Bulk ingest job queued', { jobId: created.id, object: job.object, operation: job.operation })
+
+    const finished = await this.waitForIngestJob(created.id)
+    const [successful, failed, unprocessed] = await Promise.all([
+      this.getIngestJobResults(created.id, 'successfulResults'),
+      this.getIngestJobResults(created.id, 'failedResults'),
+      this.getIngestJobResults(created.id, 'unprocessedrecords')
+    ])
+
+    logger.info('Bulk ingest job finished', {
+      jobId: created.id,
+      state: finished.state,
+      successful: successful.length,
+      failed: failed.length,
+      unprocessed: unprocessed.length
+    })
+
+    return [
+      ...successful.map(row => ({
+        key: row[keyColumn],
+        success: true,
+        id: row.sf__Id || undefined,
+        created: row.sf__Created === 'true'
+      })),
+      ...failed.map(row => ({
+        key: row[keyColumn],
+        success: false,
+        id: row.sf__Id || undefined,
+        error: row.sf__Error || 'Bulk row failed'
+      })),
+      ...unprocessed.map(row => ({
+        key: row[keyColumn],
+        success: false,
+        error: `Not processed: ${finished.errorMessage || `job ${finished.state}`}`
+      }))
+    ]
+  }
+
+  /**
+   * Poll an ingest job with backoff until it completes, fails or is aborted
+   */
+  private async waitForIngestJob(jobId: string): Promise<SalesforceBulkIngestJob> {
+    const deadline = Date.now() + BULK_JOB_TIMEOUT_MS
+    let interval = BULK_POLL_INITIAL_MS
+
+    while (Date.now() < deadline) {
+      await this.delay(interval)
+
+      const job = await this.getIngestJob(jobId)
+      if (job.state === 'JobComplete' || job.state === 'Failed' || job.state === 'Aborted') {
+        return job
+      }
+
+      interval = Math.min(interval * 2, BULK_POLL_MAX_MS)
+    }
+
+    throw new SalesforceApiError(`Bulk job ${jobId} did not finish within ${BULK_JOB_TIMEOUT_MS / 60000} minutes`, 504)
+  }
+
   /**
    * Get Record by ID
    * 
@@ -29,9 +29,9 @@ function extractSessionFromCookies(cookieString?: string): string | null {
 }
 
 /**
- * Middleware to ensure request is authenticated
+ * Middleware to ensure request has an active Salesforce session
  */
-export function withAuth(handler: AuthenticatedHandler) {
+export function withSalesforceSession(handler: AuthenticatedHandler) {
   return async (req: NextApiRequest, res: NextApiResponse) => {
     try {
       // Extract session from HTTP-only cookie
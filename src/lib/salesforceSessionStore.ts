@@ -385,6 +385,33 @@ export async function updateSalesforceSession(
   }
 }
 
+/**
+ * Record API usage reported by Salesforce on a session's connection
+ * Keeps the daily limit counters current so syncs can be planned around them
+ */
+export async function recordSalesforceApiUsage(
+  sessionId: string,
+  usage: { used?: string; limit?: string },
+  requestCount: number
+): Promise<void> {
+  try {
+    await db.salesforceConnection.updateMany({
+      where: { sessionId },
+      data: {
+        apiCallCount: { increment: requestCount },
+        ...(usage.used ? { dailyApiUsed: parseInt(usage.used) } : {}),
+        ...(usage.limit ? { dailyApiLimit: parseInt(usage.limit) } : {}),
+        lastActivityAt: new Date()
+      }
+    })
+  } catch (error) {
+    logger.warn('Failed to record Salesforce API usage', {
+      sessionId: sessionId.substring(0, 10) + '...',
+      error: error instanceof Error ? error.message : error
+    })
+  }
+}
+
 /**
  * Clean up expired sessions
  */
@@ -15,9 +15,11 @@
  * @version 1.0.0
  */
 
+import crypto from 'crypto'
 import { logger } from './logger'
 import { prisma } from './db'
 import { SalesforceApiClient, createApiClient, getSalesforceConfig } from './salesforce'
+import { piiDetectorService } from './piiDetector'
 import type {
   ProcessedDocument,
   FAQ,
@@ -28,6 +30,11 @@ import type {
   SalesforceSyncJob,
   SalesforceSyncConfig,
   SalesforceSyncSummary,
+  SalesforceSyncAction,
+  SalesforceSyncPlanItem,
+  SalesforceSyncPreview,
+  SalesforceSyncStrategy,
+  SalesforceCollectionResult,
   SalesforceTokenResponse,
   DocumentDisplay,
   FAQDisplay,
@@ -36,6 +43,7 @@ import type {
 import {
   SalesforceSyncError
 } from '@/types'
+import type { SalesforceRecordType, SalesforceSyncState } from '@prisma/client'
 
 /**
  * Default Salesforce Object Names
@@ -229,42 +237,466 @@ export class SalesforceDataMapper {
   }
 }
 
+/**
+ * Filters narrowing which local records are in scope for a sync
+ */
+export interface SalesforceSyncFilters {
+  startDate?: Date
+  endDate?: Date
+  categories?: string[]
+  statuses?: string[]
+}
+
+/**
+ * Options for a sync run or preview
+ */
+export interface SalesforceSyncOptions {
+  syncType: 'full' | 'incremental'
+  recordTypes?: Array<'documents' | 'faqs' | 'messages'>
+  filters?: SalesforceSyncFilters
+}
+
+/**
+ * Planned operation with the payload to push
+ */
+interface PlannedSyncRecord extends SalesforceSyncPlanItem {
+  payload?: Record<string, any>
+  hash?: string
+}
+
+const RECORD_TYPE_KEYS: Record<SalesforceRecordType, SalesforceSyncPlanItem['recordType']> = {
+  DOCUMENT: 'document',
+  FAQ: 'faq',
+  MESSAGE: 'message'
+}
+
+/**
+ * Records pushed together with the same strategy
+ */
+interface SyncGroup {
+  recordType: SalesforceSyncPlanItem['recordType']
+  operation: 'upsert' | 'delete'
+  items: PlannedSyncRecord[]
+}
+
+/**
+ * Per-record push result, keyed by local ID
+ */
+interface PushOutcome {
+  success: boolean
+  salesforceId?: string | null
+  error?: string
+}
+
+const PREVIEW_ITEM_LIMIT = 200
+const COLLECTION_SIZE = 200 // records per sObject collection call
+const BULK_RECORDS_PER_JOB = 10000
+const BULK_REQUESTS_PER_JOB = 10 // create, upload, close, polling and three result downloads
+
+/**
+ * Groups at or above this size are pushed with Bulk API 2.0 jobs
+ */
+const BULK_THRESHOLD = parseInt(process.env.SALESFORCE_BULK_THRESHOLD || '2000')
+
+/**
+ * Daily API requests a sync leaves untouched for other integrations
+ */
+const API_REQUEST_RESERVE = parseInt(process.env.SALESFORCE_API_REQUEST_RESERVE || '1000')
+
+/**
+ * Messages read and redacted per query while planning
+ */
+const MESSAGE_PAGE_SIZE = 1000
+
+/**
+ * Sync Planner
+ * Compares local records with their per-record sync state to decide what needs to be pushed
+ * Does not call Salesforce, so previews work without a live connection
+ */
+export class SalesforceSyncPlanner {
+  private config: SalesforceSyncConfiguration
+  private mapper: SalesforceDataMapper
+
+  constructor(config: SalesforceSyncConfiguration) {
+    this.config = config
+    this.mapper = new SalesforceDataMapper(config)
+  }
+
+  /**
+   * Plan every enabled record type
+   * Incremental syncs only push new, changed and previously failed records; full syncs push everything in scope
+   * Both propagate local deletions and archivals
+   */
+  public async plan(options: SalesforceSyncOptions): Promise<PlannedSyncRecord[]> {
+    const config = this.config.getConfig()
+    const force = options.syncType === 'full'
+    const includes = (recordType: 'documents' | 'faqs' | 'messages') =>
+      !options.recordTypes || options.recordTypes.includes(recordType)
+
+    const plan: PlannedSyncRecord[] = []
+
+    if (config.syncDocuments && includes('documents')) {
+      plan.push(...await this.planDocuments(options.filters, force))
+    }
+    if (config.syncFaqs && includes('faqs')) {
+      plan.push(...await this.planFaqs(options.filters, force))
+    }
+    if (config.syncMessages && includes('messages')) {
+      plan.push(...await this.planMessages(options.filters, force))
+    }
+
+    return plan
+  }
+
+  /**
+   * Summarize the plan for the "what will sync" preview
+   */
+  public async preview(options: SalesforceSyncOptions): Promise<SalesforceSyncPreview> {
+    const plan = await this.plan(options)
+    const emptyCounts = (): Record<SalesforceSyncAction, number> => ({
+      create: 0, update: 0, archive: 0, delete: 0, unchanged: 0
+    })
+
+    const preview: SalesforceSyncPreview = {
+      syncType: options.syncType,
+      totals: emptyCounts(),
+      recordTypes: { documents: emptyCounts(), faqs: emptyCounts(), messages: emptyCounts() },
+      items: [],
+      truncated: false,
+      generatedAt: new Date()
+    }
+
+    for (const { payload: _payload, hash: _hash, ...item } of plan) {
+      preview.totals[item.action]++
+      preview.recordTypes[`${item.recordType}s` as keyof SalesforceSyncPreview['recordTypes']][item.action]++
+
+      if (item.action === 'unchanged') continue
+      if (preview.items.length < PREVIEW_ITEM_LIMIT) {
+        preview.items.push(item)
+      } else {
+        preview.truncated = true
+      }
+    }
+
+    return preview
+  }
+
+  /**
+   * Plan documents - by default only completed documents are in scope
+   */
+  private async planDocuments(filters: SalesforceSyncFilters | undefined, force: boolean): Promise<PlannedSyncRecord[]> {
+    const where: any = this.buildWhere(filters, 'createdAt')
+    if (!filters?.statuses?.length) {
+      // Default: only sync completed documents
+      where.status = 'COMPLETE'
+    }
+
+    const [documents, states] = await Promise.all([
+      prisma.processedDocument.findMany({
+        where,
+        include: {
+          documentMessages: {
+            include: {
+              message: true
+            }
+          },
+          documentFAQs: true
+        },
+        orderBy: { createdAt: 'asc' }
+      }),
+      this.loadStates('DOCUMENT')
+    ])
+
+    const plan = documents.map(document => {
+      // Get channel names from associated messages
+      const channelNames = Array.from(new Set(
+        document.documentMessages.map(dm => dm.message.channel)
+      ))
+
+      const payload = this.mapper.mapDocumentToSalesforce(
+        document as unknown as ProcessedDocument,
+        channelNames,
+        document.documentMessages[0]?.message
+      )
+      payload.Message_Count__c = document.documentMessages.length
+      payload.FAQ_Count__c = document.documentFAQs.length
+
+      return this.planRecord('DOCUMENT', document.id, document.title, payload, states.get(document.id), force)
+    })
+
+    const inScope = new Set(documents.map(document => document.id))
+    const candidates = this.removalCandidates(states, inScope)
+    const existing = await prisma.processedDocument.findMany({
+      where: { id: { in: candidates.map(state => state.localId) } },
+      select: { id: true }
+    })
+    const existingIds = new Set(existing.map(document => document.id))
+
+    for (const state of candidates) {
+      if (!existingIds.has(state.localId)) {
+        plan.push(this.planDeletion(state, 'Deleted locally'))
+      }
+    }
+
+    return plan
+  }
+
+  /**
+   * Plan FAQs - by default only approved FAQs are in scope
+   * Previously synced FAQs that were archived are pushed with the Archived status
+   */
+  private async planFaqs(filters: SalesforceSyncFilters | undefined, force: boolean): Promise<PlannedSyncRecord[]> {
+    const where: any = this.buildWhere(filters, 'createdAt')
+    if (!filters?.statuses?.length) {
+      // Default: only sync approved FAQs
+      where.status = 'APPROVED'
+    }
+
+    const include = {
+      documentFAQs: {
+        include: {
+          document: true
+        }
+      }
+    }
+
+    const [faqs, states] = await Promise.all([
+      prisma.fAQ.findMany({ where, include, orderBy: { createdAt: 'asc' } }),
+      this.loadStates('FAQ')
+    ])
+
+    const planFaq = (faq: typeof faqs[number]) => {
+      const payload = this.mapper.mapFaqToSalesforce(
+        faq as unknown as FAQ,
+        faq.documentFAQs.map(df => df.document.id)
+      )
+      const planned = this.planRecord('FAQ', faq.id, faq.question, payload, states.get(faq.id), force)
+
+      if (faq.status === 'ARCHIVED' && planned.action === 'update') {
+        return { ...planned, action: 'archive' as const, reason: 'Archived locally' }
+      }
+      return planned
+    }
+
+    const plan = faqs.map(planFaq)
+
+    const inScope = new Set(faqs.map(faq => faq.id))
+    const candidates = this.removalCandidates(states, inScope)
+    const existing = await prisma.fAQ.findMany({
+      where: { id: { in: candidates.map(state => state.localId) } },
+      include
+    })
+    const existingById = new Map(existing.map(faq => [faq.id, faq]))
+
+    for (const state of candidates) {
+      const faq = existingById.get(state.localId)
+      if (!faq) {
+        plan.push(this.planDeletion(state, 'Deleted locally'))
+      } else if (faq.status === 'ARCHIVED') {
+        plan.push(planFaq(faq))
+      }
+    }
+
+    return plan
+  }
+
+  /**
+   * Plan messages that are part of documents (redacted text only)
+   * The whole scope is read page by page; large change sets go through the bulk API
+   * Messages deleted in Slack are removed from Salesforce
+   */
+  private async planMessages(filters: SalesforceSyncFilters | undefined, force: boolean): Promise<PlannedSyncRecord[]> {
+    const where: any = { deletedAt: null }
+
+    if (filters?.startDate || filters?.endDate) {
+      where.timestamp = {}
+      if (filters.startDate) where.timestamp.gte = filters.startDate
+      if (filters.endDate) where.timestamp.lte = filters.endDate
+    }
+
+    // Only sync messages that are part of documents
+    where.documentMessages = {
+      some: {}
+    }
+
+    const states = await this.loadStates('MESSAGE')
+    const plan: PlannedSyncRecord[] = []
+    const inScope = new Set<string>()
+    let cursor: string | undefined
+
+    do {
+      const messages = await prisma.message.findMany({
+        where,
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        take: MESSAGE_PAGE_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      })
+
+      // Only redacted text leaves the system
+      const redactedTexts = await piiDetectorService.getRedactedTexts(messages.map(m => m.id))
+
+      for (const message of messages) {
+        const text = redactedTexts.get(message.id) ?? message.text
+        const payload = this.mapper.mapMessageToSalesforce({ ...message, text } as BaseMessage)
+
+        plan.push(this.planRecord('MESSAGE', message.id, text.slice(0, 80), payload, states.get(message.id), force))
+        inScope.add(message.id)
+      }
+
+      cursor = messages.length === MESSAGE_PAGE_SIZE ? messages[messages.length - 1].id : undefined
+    } while (cursor)
+
+    const candidates = this.removalCandidates(states, inScope)
+    const existing = await prisma.message.findMany({
+      where: { id: { in: candidates.map(state => state.localId) } },
+      select: { id: true, deletedAt: true }
+    })
+    const existingById = new Map(existing.map(message => [message.id, message]))
+
+    for (const state of candidates) {
+      const message = existingById.get(state.localId)
+      if (!message) {
+        plan.push(this.planDeletion(state, 'Deleted locally'))
+      } else if (message.deletedAt) {
+        plan.push(this.planDeletion(state, 'Deleted in Slack'))
+      }
+    }
+
+    return plan
+  }
+
+  /**
+   * Decide what to do with an in-scope record by comparing its payload hash with the last sync
+   */
+  private planRecord(
+    recordType: SalesforceRecordType,
+    localId: string,
+    label: string,
+    payload: Record<string, any>,
+    state: SalesforceSyncState | undefined,
+    force: boolean
+  ): PlannedSyncRecord {
+    const hash = hashSyncPayload(payload)
+    let action: SalesforceSyncAction = 'unchanged'
+    let reason = 'Unchanged since last sync'
+
+    if (!state || state.removedAt) {
+      action = 'create'
+      reason = state ? 'Removed earlier, re-creating' : 'Never synced'
+    } else if (state.lastError) {
+      action = 'update'
+      reason = 'Previous sync failed'
+    } else if (state.lastSyncedHash !== hash) {
+      action = 'update'
+      reason = 'Changed since last sync'
+    } else if (force) {
+      action = 'update'
+      reason = 'Full sync'
+    }
+
+    return {
+      recordType: RECORD_TYPE_KEYS[recordType],
+      localId,
+      label,
+      action,
+      reason,
+      salesforceId: state?.salesforceId ?? null,
+      lastSyncedAt: state?.lastSyncedAt ?? null,
+      lastError: state?.lastError ?? null,
+      payload,
+      hash
+    }
+  }
+
+  /**
+   * Plan removing a previously synced record from Salesforce
+   */
+  private planDeletion(state: SalesforceSyncState, reason: string): PlannedSyncRecord {
+    return {
+      recordType: RECORD_TYPE_KEYS[state.recordType],
+      localId: state.localId,
+      label: state.localId,
+      action: 'delete',
+      reason,
+      salesforceId: state.salesforceId,
+      lastSyncedAt: state.lastSyncedAt,
+      lastError: state.lastError
+    }
+  }
+
+  /**
+   * Synced records that are outside the current scope - possibly deleted or archived locally
+   */
+  private removalCandidates(states: Map<string, SalesforceSyncState>, inScope: Set<string>): SalesforceSyncState[] {
+    return Array.from(states.values()).filter(state =>
+      !state.removedAt && state.lastSyncedAt && !inScope.has(state.localId)
+    )
+  }
+
+  /**
+   * Load sync state for a record type, keyed by local ID
+   */
+  private async loadStates(recordType: SalesforceRecordType): Promise<Map<string, SalesforceSyncState>> {
+    const states = await prisma.salesforceSyncState.findMany({ where: { recordType } })
+    return new Map(states.map(state => [state.localId, state]))
+  }
+
+  /**
+   * Shared created-date and category filters
+   */
+  private buildWhere(filters: SalesforceSyncFilters | undefined, dateField: string): any {
+    const where: any = {}
+
+    if (filters?.startDate || filters?.endDate) {
+      where[dateField] = {}
+      if (filters.startDate) where[dateField].gte = filters.startDate
+      if (filters.endDate) where[dateField].lte = filters.endDate
+    }
+
+    if (filters?.categories && filters.categories.length > 0) {
+      where.category = { in: filters.categories }
+    }
+
+    if (filters?.statuses && filters.statuses.length > 0) {
+      where.status = { in: filters.statuses }
+    }
+
+    return where
+  }
+}
+
 /**
  * Main Salesforce Sync Service
  * Orchestrates sync operations between our system and Salesforce
  */
 export class SalesforceSyncService {
   private apiClient: SalesforceApiClient
-  private mapper: SalesforceDataMapper
+  private planner: SalesforceSyncPlanner
   private config: SalesforceSyncConfiguration
 
   constructor(tokenResponse: SalesforceTokenResponse, config?: SalesforceSyncConfiguration) {
     this.apiClient = createApiClient(tokenResponse)
     this.config = config || new SalesforceSyncConfiguration()
-    this.mapper = new SalesforceDataMapper(this.config)
+    this.planner = new SalesforceSyncPlanner(this.config)
   }
 
   /**
-   * Perform Full Sync
-   * Syncs all enabled record types to Salesforce
+   * Perform Sync
+   * Pushes planned changes for all enabled record types and records per-record sync state
    * 
-   * @param filters - Optional filters for what to sync
+   * @param options - Sync type, record types and filters
    * @returns Sync summary
    */
-  public async performFullSync(filters?: {
-    startDate?: Date
-    endDate?: Date
-    categories?: string[]
-    statuses?: string[]
-  }): Promise<SalesforceSyncSummary> {
+  public async performSync(options: SalesforceSyncOptions): Promise<SalesforceSyncSummary> {
     const startTime = Date.now()
-    logger.info('Starting full Salesforce sync', { filters })
+    logger.info(`Starting ${options.syncType} Salesforce sync`, { filters: options.filters })
 
     const summary: SalesforceSyncSummary = {
       totalRecords: 0,
       successfulSyncs: 0,
       failedSyncs: 0,
       skippedRecords: 0,
+      deletedRecords: 0,
       syncDuration: 0,
       recordTypes: {
         documents: { synced: 0, failed: 0 },
@@ -275,337 +707,297 @@ export class SalesforceSyncService {
     }
 
     try {
-      // Sync documents if enabled
-      if (this.config.getConfig().syncDocuments) {
-        const documentResult = await this.syncDocuments(filters)
-        summary.recordTypes.documents = documentResult
-        summary.totalRecords += documentResult.synced + documentResult.failed
-        summary.successfulSyncs += documentResult.synced
-        summary.failedSyncs += documentResult.failed
-      }
+      const plan = await this.planner.plan(options)
+      const pending = plan.filter(item => item.action !== 'unchanged')
+      summary.skippedRecords = plan.length - pending.length
 
-      // Sync FAQs if enabled
-      if (this.config.getConfig().syncFaqs) {
-        const faqResult = await this.syncFaqs(filters)
-        summary.recordTypes.faqs = faqResult
-        summary.totalRecords += faqResult.synced + faqResult.failed
-        summary.successfulSyncs += faqResult.synced
-        summary.failedSyncs += faqResult.failed
-      }
+      logger.info(`Found ${pending.length} records to sync (${summary.skippedRecords} unchanged)`)
+
+      for (const group of this.groupPending(pending)) {
+        const counts = summary.recordTypes[`${group.recordType}s` as keyof SalesforceSyncSummary['recordTypes']]
+        const remaining = await this.apiClient.getRemainingApiRequests()
+        const strategy = chooseSyncStrategy(group.items.length, remaining)
+
+        if (counts.strategy !== 'bulk') counts.strategy = strategy
+        logger.info(`Pushing ${group.items.length} ${group.recordType} ${group.operation}s`, { strategy, remainingApiRequests: remaining })
+
+        const outcomes = await this.pushGroup(group, strategy, remaining)
+
+        for (const item of group.items) {
+          const outcome = outcomes.get(item.localId) ?? { success: false, error: 'No result returned by Salesforce' }
+          summary.totalRecords++
+
+          if (outcome.success) {
+            await this.recordSuccess(item, outcome.salesforceId ?? null)
+
+            counts.synced++
+            summary.successfulSyncs++
+            if (item.action === 'delete') summary.deletedRecords++
+          } else {
+            const message = outcome.error || 'Unknown error'
+
+            counts.failed++
+            summary.failedSyncs++
+            summary.errors.push({ recordId: item.localId, recordType: item.recordType, error: message })
+            await this.recordFailure(item, message)
 
-      // Sync messages if enabled
-      if (this.config.getConfig().syncMessages) {
-        const messageResult = await this.syncMessages(filters)
-        summary.recordTypes.messages = messageResult
-        summary.totalRecords += messageResult.synced + messageResult.failed
-        summary.successfulSyncs += messageResult.synced
-        summary.failedSyncs += messageResult.failed
+            logger.error(`Failed to sync ${item.recordType}`, { localId: item.localId, error: message })
+          }
+        }
       }
 
       summary.syncDuration = Date.now() - startTime
 
-      logger.info('Full sync completed', {
+      logger.info(`${options.syncType} sync completed`, {
         totalRecords: summary.totalRecords,
         successful: summary.successfulSyncs,
         failed: summary.failedSyncs,
+        unchanged: summary.skippedRecords,
+        deleted: summary.deletedRecords,
         duration: summary.syncDuration
       })
 
       return summary
 
     } catch (error) {
-      logger.error('Full sync failed', { error })
-      throw new SalesforceSyncError('Full sync operation failed', undefined, undefined, undefined)
+      logger.error('Sync failed', { error })
+      throw new SalesforceSyncError(`${options.syncType} sync operation failed`, undefined, undefined, undefined)
     }
   }
 
   /**
-   * Sync Documents to Salesforce
-   * 
-   * @param filters - Optional filters
-   * @returns Sync result
+   * Preview what a sync would push without calling Salesforce
    */
-  private async syncDocuments(filters?: {
-    startDate?: Date
-    endDate?: Date
-    categories?: string[]
-    statuses?: string[]
-  }): Promise<{ synced: number; failed: number }> {
-    logger.info('Syncing documents to Salesforce')
+  public async previewSync(options: SalesforceSyncOptions): Promise<SalesforceSyncPreview> {
+    return this.planner.preview(options)
+  }
 
-    try {
-      // Build filter criteria
-      const where: any = {}
-      
-      if (filters?.startDate || filters?.endDate) {
-        where.createdAt = {}
-        if (filters.startDate) where.createdAt.gte = filters.startDate
-        if (filters.endDate) where.createdAt.lte = filters.endDate
-      }
-      
-      if (filters?.categories && filters.categories.length > 0) {
-        where.category = { in: filters.categories }
-      }
-      
-      if (filters?.statuses && filters.statuses.length > 0) {
-        where.status = { in: filters.statuses }
-      } else {
-        // Default: only sync completed documents
-        where.status = 'COMPLETE'
-      }
+  /**
+   * Split pending records by record type and by upsert vs delete, the unit a strategy is chosen for
+   */
+  private groupPending(pending: PlannedSyncRecord[]): SyncGroup[] {
+    const groups = new Map<string, SyncGroup>()
+
+    for (const item of pending) {
+      const operation = item.action === 'delete' ? 'delete' : 'upsert'
+      const key = `${item.recordType}:${operation}`
+      const group = groups.get(key) ?? { recordType: item.recordType, operation, items: [] }
+      group.items.push(item)
+      groups.set(key, group)
+    }
 
-      // Fetch documents from database
-      const documents = await prisma.processedDocument.findMany({
-        where,
-        include: {
-          documentMessages: {
-            include: {
-              message: true
-            }
-          },
-          documentFAQs: true
-        },
-        orderBy: { createdAt: 'asc' }
-      })
+    return Array.from(groups.values())
+  }
 
-      logger.info(`Found ${documents.length} documents to sync`)
-
-      let synced = 0
-      let failed = 0
-
-      // Process documents in batches
-      const batchSize = 10 // Salesforce API limits
-      for (let i = 0; i < documents.length; i += batchSize) {
-        const batch = documents.slice(i, i + batchSize)
-        
-        for (const document of batch) {
-          try {
-            // Get channel names from associated messages
-            const channelNames = Array.from(new Set(
-              document.documentMessages.map(dm => dm.message.channel)
-            ))
-            
-            // Get the first message for channel ID and timestamp
-            const firstMessage = document.documentMessages[0]?.message
-
-            // Map to Salesforce format with additional data
-            const salesforceRecord = this.mapper.mapDocumentToSalesforce(
-              document as unknown as ProcessedDocument,
-              channelNames,
-              firstMessage
-            )
-
-            // Update counts
-            salesforceRecord.Message_Count__c = document.documentMessages.length
-            salesforceRecord.FAQ_Count__c = document.documentFAQs.length
-
-            // Upsert to Salesforce
-            await this.apiClient.upsertRecord(
-              this.config.getConfig().documentObjectName,
-              'External_Id__c',
-              document.id,
-              salesforceRecord
-            )
-
-            synced++
-            logger.debug('Successfully synced document', { documentId: document.id })
-
-          } catch (error) {
-            failed++
-            logger.error('Failed to sync document', { 
-              documentId: document.id, 
-              error: error instanceof Error ? error.message : error 
-            })
-          }
-        }
+  /**
+   * Push a group with the chosen strategy and map per-row results back to local IDs
+   * A request that fails outright fails every record it carried
+   */
+  private async pushGroup(
+    group: SyncGroup,
+    strategy: SalesforceSyncStrategy,
+    remainingApiRequests: number | null
+  ): Promise<Map<string, PushOutcome>> {
+    const outcomes = new Map<string, PushOutcome>()
+    const failAll = (items: PlannedSyncRecord[], error: string) =>
+      items.forEach(item => outcomes.set(item.localId, { success: false, error }))
+
+    const needed = estimateSyncRequests(group.items.length, strategy)
+    if (remainingApiRequests !== null && remainingApiRequests - needed < API_REQUEST_RESERVE) {
+      failAll(group.items, `Not enough daily API requests left (${remainingApiRequests} remaining, ${API_REQUEST_RESERVE} reserved)`)
+      return outcomes
+    }
 
-        // Brief pause between batches to respect rate limits
-        if (i + batchSize < documents.length) {
-          await new Promise(resolve => setTimeout(resolve, 100))
+    const objectName = this.getObjectName(group.recordType)
+
+    if (group.operation === 'delete') {
+      await this.pushDeletions(objectName, group.items, strategy, outcomes, failAll)
+      return outcomes
+    }
+
+    const toRecord = (item: PlannedSyncRecord) => ({ ...item.payload, External_Id__c: item.localId })
+
+    if (strategy === 'bulk') {
+      try {
+        const rows = await this.apiClient.bulkUpsert(objectName, 'External_Id__c', group.items.map(toRecord))
+        const items = new Map(group.items.map(item => [item.localId, item]))
+
+        for (const row of rows) {
+          const item = items.get(row.key)
+          if (!item) continue
+          outcomes.set(item.localId, row.success
+            ? { success: true, salesforceId: row.id || item.salesforceId }
+            : { success: false, error: row.error })
         }
+      } catch (error) {
+        failAll(group.items, error instanceof Error ? error.message : 'Bulk upsert failed')
       }
+      return outcomes
+    }
 
-      logger.info('Document sync completed', { synced, failed })
-      return { synced, failed }
-
-    } catch (error) {
-      logger.error('Document sync failed', { error })
-      throw new SalesforceSyncError('Document sync failed')
+    for (let i = 0; i < group.items.length; i += COLLECTION_SIZE) {
+      const batch = group.items.slice(i, i + COLLECTION_SIZE)
+
+      try {
+        const results = await this.apiClient.upsertRecords(objectName, 'External_Id__c', batch.map(toRecord))
+
+        batch.forEach((item, index) => {
+          const result = results[index]
+          if (!result) return
+          outcomes.set(item.localId, result.success
+            ? { success: true, salesforceId: result.id || item.salesforceId }
+            : { success: false, error: formatCollectionErrors(result) })
+        })
+      } catch (error) {
+        failAll(batch, error instanceof Error ? error.message : 'Collection upsert failed')
+      }
     }
+
+    return outcomes
   }
 
   /**
-   * Sync FAQs to Salesforce
+   * Delete the Salesforce records of locally removed records
+   * Looks records up by External_Id__c when their Salesforce ID was never captured
+   * Records already gone from Salesforce count as deleted
    */
-  private async syncFaqs(filters?: {
-    startDate?: Date
-    endDate?: Date
-    categories?: string[]
-    statuses?: string[]
-  }): Promise<{ synced: number; failed: number }> {
-    logger.info('Syncing FAQs to Salesforce')
-
-    try {
-      const where: any = {}
-      
-      if (filters?.startDate || filters?.endDate) {
-        where.createdAt = {}
-        if (filters.startDate) where.createdAt.gte = filters.startDate
-        if (filters.endDate) where.createdAt.lte = filters.endDate
+  private async pushDeletions(
+    objectName: string,
+    items: PlannedSyncRecord[],
+    strategy: SalesforceSyncStrategy,
+    outcomes: Map<string, PushOutcome>,
+    failAll: (items: PlannedSyncRecord[], error: string) => void
+  ): Promise<void> {
+    const byLocalId = new Map<string, string>()
+    items.forEach(item => item.salesforceId && byLocalId.set(item.localId, item.salesforceId))
+
+    const unresolved = items.filter(item => !item.salesforceId)
+    for (let i = 0; i < unresolved.length; i += COLLECTION_SIZE) {
+      const batch = unresolved.slice(i, i + COLLECTION_SIZE)
+      const externalIds = batch.map(item => `'${item.localId.replace(/'/g, "\\'")}'`).join(',')
+
+      try {
+        const result = await this.apiClient.query<{ Id: string; External_Id__c: string }>(
+          `SELECT Id, External_Id__c FROM ${objectName} WHERE External_Id__c IN (${externalIds})`
+        )
+        result.records.forEach(record => byLocalId.set(record.External_Id__c, record.Id))
+      } catch (error) {
+        failAll(batch, error instanceof Error ? error.message : 'Salesforce lookup failed')
       }
-      
-      if (filters?.categories && filters.categories.length > 0) {
-        where.category = { in: filters.categories }
-      }
-      
-      if (filters?.statuses && filters.statuses.length > 0) {
-        where.status = { in: filters.statuses }
+    }
+
+    const localIdsBySalesforceId = new Map<string, string>()
+    for (const item of items) {
+      if (outcomes.has(item.localId)) continue
+
+      const salesforceId = byLocalId.get(item.localId)
+      if (salesforceId) {
+        localIdsBySalesforceId.set(salesforceId, item.localId)
       } else {
-        // Default: only sync approved FAQs
-        where.status = 'APPROVED'
+        // Nothing left in Salesforce
+        outcomes.set(item.localId, { success: true, salesforceId: null })
       }
+    }
 
-      const faqs = await prisma.fAQ.findMany({
-        where,
-        include: {
-          documentFAQs: {
-            include: {
-              document: true
-            }
-          }
-        },
-        orderBy: { createdAt: 'asc' }
-      })
-
-      logger.info(`Found ${faqs.length} FAQs to sync`)
-
-      let synced = 0
-      let failed = 0
-
-      const batchSize = 10
-      for (let i = 0; i < faqs.length; i += batchSize) {
-        const batch = faqs.slice(i, i + batchSize)
-        
-        for (const faq of batch) {
-          try {
-            // Get source document IDs
-            const sourceDocumentIds = faq.documentFAQs.map(df => df.document.id)
-
-            const salesforceRecord = this.mapper.mapFaqToSalesforce(
-              faq as unknown as FAQ,
-              sourceDocumentIds
-            )
-
-            await this.apiClient.upsertRecord(
-              this.config.getConfig().faqObjectName,
-              'External_Id__c',
-              faq.id,
-              salesforceRecord
-            )
-
-            synced++
-            logger.debug('Successfully synced FAQ', { faqId: faq.id })
-
-          } catch (error) {
-            failed++
-            logger.error('Failed to sync FAQ', { 
-              faqId: faq.id, 
-              error: error instanceof Error ? error.message : error 
-            })
-          }
-        }
+    const salesforceIds = Array.from(localIdsBySalesforceId.keys())
+    const setOutcome = (salesforceId: string, success: boolean, error?: string) => {
+      const localId = localIdsBySalesforceId.get(salesforceId)
+      if (!localId) return
+      const alreadyDeleted = !!error?.startsWith('ENTITY_IS_DELETED')
+      outcomes.set(localId, success || alreadyDeleted ? { success: true, salesforceId } : { success: false, error })
+    }
 
-        if (i + batchSize < faqs.length) {
-          await new Promise(resolve => setTimeout(resolve, 100))
-        }
+    if (strategy === 'bulk') {
+      try {
+        const rows = await this.apiClient.bulkDelete(objectName, salesforceIds)
+        rows.forEach(row => setOutcome(row.key, row.success, row.error))
+      } catch (error) {
+        failAll(items.filter(item => !outcomes.has(item.localId)), error instanceof Error ? error.message : 'Bulk delete failed')
       }
+      return
+    }
 
-      logger.info('FAQ sync completed', { synced, failed })
-      return { synced, failed }
-
-    } catch (error) {
-      logger.error('FAQ sync failed', { error })
-      throw new SalesforceSyncError('FAQ sync failed')
+    for (let i = 0; i < salesforceIds.length; i += COLLECTION_SIZE) {
+      const batch = salesforceIds.slice(i, i + COLLECTION_SIZE)
+
+      try {
+        const results = await this.apiClient.deleteRecords(batch)
+        batch.forEach((salesforceId, index) => {
+          const result = results[index]
+          if (result) setOutcome(salesforceId, result.success, formatCollectionErrors(result))
+        })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Collection delete failed'
+        batch.forEach(salesforceId => setOutcome(salesforceId, false, message))
+      }
     }
   }
 
   /**
-   * Sync Messages to Salesforce
+   * Store the sync state of a successfully pushed record
    */
-  private async syncMessages(filters?: {
-    startDate?: Date
-    endDate?: Date
-    categories?: string[]
-    statuses?: string[]
-  }): Promise<{ synced: number; failed: number }> {
-    logger.info('Syncing messages to Salesforce')
-
-    try {
-      const where: any = {}
-      
-      if (filters?.startDate || filters?.endDate) {
-        where.timestamp = {}
-        if (filters.startDate) where.timestamp.gte = filters.startDate
-        if (filters.endDate) where.timestamp.lte = filters.endDate
-      }
-
-      // Only sync messages that are part of documents
-      where.documentMessages = {
-        some: {}
-      }
-
-      const messages = await prisma.message.findMany({
-        where,
-        orderBy: { timestamp: 'asc' },
-        take: 1000 // Limit to prevent overwhelming Salesforce
+  private async recordSuccess(item: PlannedSyncRecord, salesforceId: string | null): Promise<void> {
+    const recordType = this.getStateRecordType(item.recordType)
+    const key = { recordType_localId: { recordType, localId: item.localId } }
+
+    if (item.action === 'delete') {
+      await prisma.salesforceSyncState.update({
+        where: key,
+        data: { removedAt: new Date(), lastError: null, lastErrorAt: null }
       })
+      return
+    }
 
-      logger.info(`Found ${messages.length} messages to sync`)
-
-      let synced = 0
-      let failed = 0
-
-      const batchSize = 10
-      for (let i = 0; i < messages.length; i += batchSize) {
-        const batch = messages.slice(i, i + batchSize)
-        
-        for (const message of batch) {
-          try {
-            const salesforceRecord = this.mapper.mapMessageToSalesforce(message as BaseMessage)
-
-            await this.apiClient.upsertRecord(
-              this.config.getConfig().messageObjectName,
-              'External_Id__c',
-              message.id,
-              salesforceRecord
-            )
-
-            synced++
-            logger.debug('Successfully synced message', { messageId: message.id })
-
-          } catch (error) {
-            failed++
-            logger.error('Failed to sync message', { 
-              messageId: message.id, 
-              error: error instanceof Error ? error.message : error 
-            })
-          }
-        }
+    const synced = {
+      salesforceId,
+      lastSyncedHash: item.hash,
+      lastSyncedAt: new Date(),
+      lastError: null,
+      lastErrorAt: null,
+      removedAt: null
+    }
 
-        if (i + batchSize < messages.length) {
-          await new Promise(resolve => setTimeout(resolve, 100))
-        }
-      }
+    await prisma.salesforceSyncState.upsert({
+      where: key,
+      update: synced,
+      create: { recordType, localId: item.localId, ...synced }
+    })
+  }
 
-      logger.info('Message sync completed', { synced, failed })
-      return { synced, failed }
+  /**
+   * Record a failed push so the record is retried on the next incremental sync
+   */
+  private async recordFailure(item: PlannedSyncRecord, message: string): Promise<void> {
+    const recordType = this.getStateRecordType(item.recordType)
+    const failure = { lastError: message, lastErrorAt: new Date() }
 
+    try {
+      await prisma.salesforceSyncState.upsert({
+        where: { recordType_localId: { recordType, localId: item.localId } },
+        update: failure,
+        create: { recordType, localId: item.localId, ...failure }
+      })
     } catch (error) {
-      logger.error('Message sync failed', { error })
-      throw new SalesforceSyncError('Message sync failed')
+      logger.warn('Failed to record Salesforce sync failure', { localId: item.localId, error })
     }
   }
 
+  private getObjectName(recordType: SalesforceSyncPlanItem['recordType']): string {
+    const config = this.config.getConfig()
+    switch (recordType) {
+      case 'document':
+        return config.documentObjectName
+      case 'faq':
+        return config.faqObjectName
+      default:
+        return config.messageObjectName
+    }
+  }
+
+  private getStateRecordType(recordType: SalesforceSyncPlanItem['recordType']): SalesforceRecordType {
+    return recordType.toUpperCase() as SalesforceRecordType
+  }
+
   /**
    * Test Salesforce Connection
    * Verifies that we can communicate with Salesforce
@@ -656,6 +1048,13 @@ export class SalesforceSyncService {
     return this.apiClient.getRateLimitInfo()
   }
 
+  /**
+   * Number of Salesforce API requests made by this service
+   */
+  public getApiRequestCount(): number {
+    return this.apiClient.getRequestCount()
+  }
+
   /**
    * Validate Salesforce Objects
    * Checks if the configured Salesforce objects exist and have the required fields
@@ -746,6 +1145,51 @@ export function isSalesforceSyncEnabled(): boolean {
   }
 }
 
+/**
+ * Stable hash of a mapped Salesforce payload, used to detect changes between syncs
+ */
+export function hashSyncPayload(payload: Record<string, any>): string {
+  return crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex')
+}
+
+/**
+ * Pick how to push a group of records
+ * Large backfills go through Bulk API 2.0; smaller groups use sObject collections, which finish
+ * sooner and cost fewer requests up to a few thousand records. When collection calls would eat
+ * into the reserved daily requests, whichever strategy needs fewer requests wins.
+ *
+ * @param recordCount - Records in the group
+ * @param remainingApiRequests - Remaining daily API requests, or null when unknown
+ */
+export function chooseSyncStrategy(recordCount: number, remainingApiRequests: number | null): SalesforceSyncStrategy {
+  if (recordCount >= BULK_THRESHOLD) {
+    return 'bulk'
+  }
+
+  const compositeRequests = estimateSyncRequests(recordCount, 'composite')
+  if (remainingApiRequests !== null && remainingApiRequests - compositeRequests < API_REQUEST_RESERVE) {
+    return estimateSyncRequests(recordCount, 'bulk') < compositeRequests ? 'bulk' : 'composite'
+  }
+
+  return 'composite'
+}
+
+/**
+ * Approximate API requests needed to push records with a strategy
+ */
+export function estimateSyncRequests(recordCount: number, strategy: SalesforceSyncStrategy): number {
+  return strategy === 'bulk'
+    ? Math.ceil(recordCount / BULK_RECORDS_PER_JOB) * BULK_REQUESTS_PER_JOB
+    : Math.ceil(recordCount / COLLECTION_SIZE)
+}
+
+/**
+ * Flatten the errors of a failed collection result into one message
+ */
+function formatCollectionErrors(result: SalesforceCollectionResult): string {
+  return result.errors.map(error => `${error.statusCode}: ${error.message}`).join('; ') || 'Unknown error'
+}
+
 /**
  * Get default sync configuration
  */
@@ -4,11 +4,18 @@
  */
 
 import crypto from 'crypto'
+import type { NextApiRequest } from 'next'
+import type { SlackMessageContent } from '@/types'
+
+/**
+ * Message subtypes that carry user content and are stored like regular messages
+ */
+export const INGESTED_SUBTYPES = ['file_share', 'thread_broadcast']
 
 /**
  * Slack event types we handle
  */
-export interface SlackMessage {
+export interface SlackMessage extends SlackMessageContent {
   type: string
   user?: string
   text?: string
@@ -16,12 +23,17 @@ export interface SlackMessage {
   channel: string
   event_ts: string
   subtype?: string
+  bot_id?: string
   deleted_ts?: string // For message deletion events
   message?: {
     type: string
     user: string
     text: string
     ts: string
+    edited?: {
+      user: string
+      ts: string
+    }
   }
   previous_message?: {
     type: string
@@ -89,13 +101,67 @@ export const verifySlackSignature = (
 }
 
 /**
- * Extracts username from Slack user ID
+ * Read the raw request body (API routes that verify Slack signatures disable the body parser)
+ * @param req - Incoming request
+ * @returns Raw body as string
+ */
+export const getRawBody = (req: NextApiRequest): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    let data = ''
+    req.on('data', (chunk) => {
+      data += chunk
+    })
+    req.on('end', () => {
+      resolve(data)
+    })
+    req.on('error', (err) => {
+      reject(err)
+    })
+  })
+}
+
+/**
+ * Builds a Slack permalink for a message
+ * @param teamDomain - Workspace subdomain (e.g. "acme" for acme.slack.com)
+ * @param channel - Slack channel ID
+ * @param ts - Message timestamp
+ * @param threadTs - Thread root timestamp, for replies
+ * @returns Permalink URL
+ */
+export const buildSlackPermalink = (
+  teamDomain: string,
+  channel: string,
+  ts: string,
+  threadTs?: string | null
+): string => {
+  const url = `https://${teamDomain}.slack.com/archives/${channel}/p${ts.replace('.', '')}`
+  return threadTs && threadTs !== ts ? `${url}?thread_ts=${threadTs}&cid=${channel}` : url
+}
+
+/**
+ * Extracts the channel and message timestamps from a Slack permalink
+ * @param link - Permalink, optionally wrapped in <...> as Slack sends it in command text
+ * @returns Channel, message ts and thread root ts, or null when the link is not a permalink
+ */
+export const parseSlackPermalink = (
+  link: string
+): { channel: string; ts: string; threadTs?: string } | null => {
+  const match = link.match(/\/archives\/([CDG][A-Z0-9]+)\/p(\d{10})(\d{6})(?:\?([^>|\s]*))?/)
+  if (!match) {
+    return null
+  }
+
+  const threadTs = match[4] ? new URLSearchParams(match[4]).get('thread_ts') || undefined : undefined
+  return { channel: match[1], ts: `${match[2]}.${match[3]}`, threadTs }
+}
+
+/**
+ * Pseudonymous username for a Slack user ID
+ * Used when the real name is unavailable or masked (see slackUserDirectory)
  * @param userId - Slack user ID
  * @returns formatted username
  */
 export const formatUsername = (userId: string): string => {
-  // For now, return the user ID
-  // In production, you might want to fetch actual username from Slack API
   return userId.startsWith('U') ? `user_${userId.slice(1, 8)}` : userId
 }
 
@@ -110,6 +176,39 @@ export const parseSlackTimestamp = (slackTimestamp: string): Date => {
   return new Date(timestamp)
 }
 
+/**
+ * Whether a message has anything worth storing: text, files, blocks or attachments
+ * @param message - Slack message or event
+ * @returns boolean indicating if the message has content
+ */
+export const hasMessageContent = (message: SlackMessageContent & { text?: string }): boolean => {
+  return Boolean(message.text) ||
+    Boolean(message.files?.length) ||
+    Boolean(message.blocks?.length) ||
+    Boolean(message.attachments?.length)
+}
+
+/**
+ * Validates if a new user message should be stored
+ * Used for live events as well as history fetched by pulls and catch-up syncs
+ * @param message - Slack message or event
+ * @returns boolean indicating if the message should be stored
+ */
+export const isIngestibleMessage = (
+  message: SlackMessageContent & { type: string; user?: string; text?: string; subtype?: string; bot_id?: string }
+): boolean => {
+  if (message.type !== 'message' || message.bot_id || !message.user) {
+    return false
+  }
+
+  // Skip system subtypes (joins, topic changes, etc.) but keep file shares and broadcasts
+  if (message.subtype && !INGESTED_SUBTYPES.includes(message.subtype)) {
+    return false
+  }
+
+  return hasMessageContent(message)
+}
+
 /**
  * Validates if message event should be processed
  * @param event - Slack message event
@@ -117,7 +216,7 @@ export const parseSlackTimestamp = (slackTimestamp: string): Date => {
  */
 export const shouldProcessMessage = (event: SlackMessage): boolean => {
   // Skip bot messages (but not for deletions)
-  if (event.type === 'message' && 'bot_id' in event && event.subtype !== 'message_deleted') {
+  if (event.type === 'message' && event.bot_id && event.subtype !== 'message_deleted') {
     return false
   }
 
@@ -131,13 +230,8 @@ export const shouldProcessMessage = (event: SlackMessage): boolean => {
     return true
   }
 
-  // Skip other message subtypes we don't want (file uploads, etc.)
-  if (event.subtype && event.subtype !== 'message_deleted' && event.subtype !== 'message_changed') {
-    return false
-  }
-
-  // Only process regular messages
-  return event.type === 'message' && Boolean(event.text) && Boolean(event.user)
+  // New messages, including file shares
+  return isIngestibleMessage(event)
 }
 
 /**
@@ -8,16 +8,27 @@
  * - Fetches all messages from a channel with pagination
  * - Handles thread replies automatically
  * - Processes messages through existing event processor
- * - Provides real-time progress updates
+ * - Persists progress in the channel_pulls table after every history page
+ * - Resumes interrupted pulls from their last checkpoint
  * - Implements exponential backoff for rate limiting
  * - Maintains data integrity and deduplication
  */
 
 import { logger } from '@/lib/logger'
 import { processSlackEvent, EventProcessingResult } from '@/lib/eventProcessor'
-import { formatUsername, parseSlackTimestamp } from '@/lib/slack'
+import { parseSlackTimestamp } from '@/lib/slack'
 import { prisma } from '@/lib/db'
-import type { SlackWebhookPayload, ApiResponse } from '@/types'
+import { channelSyncService } from '@/lib/channelSync'
+import { ChannelPullError, type SlackWebhookPayload } from '@/types'
+import type { ChannelPull } from '@prisma/client'
+
+/** Running pulls refresh their heartbeat this often */
+const HEARTBEAT_INTERVAL_MS = 30 * 1000
+/** Pulls whose heartbeat is older than this are treated as interrupted */
+const STALE_AFTER_MS = parseInt(process.env.CHANNEL_PULL_STALE_AFTER_MS || '120000')
+
+const ACTIVE_STATUSES: Array<ChannelPull['status']> = ['QUEUED', 'RUNNING']
+const CANCELLED_MESSAGE = 'Operation cancelled by user'
 
 // ===== TYPES =====
 
@@ -42,6 +53,12 @@ export interface ChannelPullProgress {
   totalMessages: number
   processedMessages: number
   threadsProcessed: number
+  startDate: Date | null
+  endDate: Date | null
+  includeThreads: boolean
+  oldestTs: string | null // Oldest message processed so far (checkpoint)
+  resumeCount: number
+  createdAt: Date
   startedAt: Date | null
   completedAt: Date | null
   errorMessage: string | null
@@ -79,6 +96,14 @@ export interface SlackHistoryResponse {
   error?: string
 }
 
+/**
+ * Where a pull continues from: the saved cursor, or messages older than oldestTs
+ */
+interface PullCheckpoint {
+  cursor: string | null
+  oldestTs: string | null
+}
+
 // ===== MAIN SERVICE CLASS =====
 
 export class SlackChannelPuller {
@@ -87,8 +112,8 @@ export class SlackChannelPuller {
   private defaultBatchSize = 100 // Slack API default
   private defaultDelay = 1000 // 1 second between requests
   private maxRetries = 3
-  private static progressStore = new Map<string, ChannelPullProgress>() // In-memory progress storage
-  private static cancellationTokens = new Map<string, boolean>() // Cancellation signals
+  private static runningPulls = new Set<string>() // Pulls executing in this process
+  private static cancellationTokens = new Set<string>() // Cancellation signals for local pulls
   
   constructor(botToken?: string) {
     this.botToken = botToken || process.env.SLACK_BOT_TOKEN || ''
@@ -100,196 +125,264 @@ export class SlackChannelPuller {
 
   /**
    * Start a channel data pull operation
-   * Creates a progress record and begins the pull process
+   * Creates the pull record and begins the pull process
    */
   async startChannelPull(config: ChannelPullConfig): Promise<ChannelPullProgress> {
     logger.info(`🚀 Starting channel pull for ${config.channelId}`, { config })
 
-    // Create progress record
-    const progressId = `pull_${config.channelId}_${Date.now()}`
-    
-    const progress: ChannelPullProgress = {
-      id: progressId,
-      channelId: config.channelId,
-      channelName: config.channelName || config.channelId,
-      status: 'QUEUED',
-      progress: 0,
-      totalMessages: 0,
-      processedMessages: 0,
-      threadsProcessed: 0,
-      startedAt: null,
-      completedAt: null,
-      errorMessage: null,
-      userId: config.userId || null,
-      stats: {
-        newMessages: 0,
-        duplicateMessages: 0,
-        threadRepliesFetched: 0,
-        documentsCreated: 0,
-        faqsGenerated: 0,
-        piiDetected: 0
-      }
+    const running = await prisma.channelPull.findFirst({
+      where: { channelId: config.channelId, status: { in: ACTIVE_STATUSES } }
+    })
+    if (running) {
+      throw new ChannelPullError(
+        `A pull for ${running.channelName} is already in progress`,
+        'PULL_IN_PROGRESS',
+        config.channelId,
+        running.id
+      )
     }
 
-    // Store initial progress (in production, this would go to database/cache)
-    await this.updateProgress(progress)
+    const pull = await prisma.channelPull.create({
+      data: {
+        channelId: config.channelId,
+        channelName: config.channelName || config.channelId,
+        startDate: config.startDate,
+        endDate: config.endDate,
+        includeThreads: config.includeThreads !== false,
+        batchSize: config.batchSize || this.defaultBatchSize,
+        delayBetweenRequests: config.delayBetweenRequests || this.defaultDelay,
+        skipPIIDetection: config.skipPIIDetection || false,
+        stats: emptyStats(),
+        heartbeatAt: new Date(),
+        userId: config.userId
+      }
+    })
 
     // Start the pull process asynchronously
-    this.executeChannelPull(config, progress).catch(error => {
-      logger.error('❌ Channel pull failed', { error, config })
-      progress.status = error.message === 'Operation cancelled by user' ? 'CANCELLED' : 'FAILED'
-      progress.errorMessage = error.message
-      progress.completedAt = new Date()
-      this.updateProgress(progress)
-      
-      // Schedule cleanup of failed/cancelled progress record (keep for 2 minutes)
-      setTimeout(() => {
-        SlackChannelPuller.progressStore.delete(progress.id)
-        SlackChannelPuller.cancellationTokens.delete(progress.id)
-        logger.info(`🧹 Cleaned up failed/cancelled progress record for ${progress.id}`)
-      }, 2 * 60 * 1000)
+    this.runPull(pull)
+
+    return toProgress(pull)
+  }
+
+  /**
+   * Resume pulls left QUEUED or RUNNING by a process that stopped heartbeating
+   * Each pull is claimed with a conditional update so only one instance resumes it
+   *
+   * @returns Number of pulls resumed
+   */
+  async resumeStalledPulls(): Promise<number> {
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS)
+
+    const stalled = await prisma.channelPull.findMany({
+      where: {
+        status: { in: ACTIVE_STATUSES },
+        OR: [{ heartbeatAt: null }, { heartbeatAt: { lt: staleBefore } }]
+      },
+      orderBy: { createdAt: 'asc' }
     })
 
-    return progress
+    let resumed = 0
+
+    for (const pull of stalled) {
+      if (SlackChannelPuller.runningPulls.has(pull.id)) continue
+
+      const claimed = await prisma.channelPull.updateMany({
+        where: { id: pull.id, status: { in: ACTIVE_STATUSES }, heartbeatAt: pull.heartbeatAt },
+        data: { heartbeatAt: new Date(), resumeCount: { increment: 1 } }
+      })
+      if (claimed.count === 0) continue
+
+      logger.info(`♻️ Resuming channel pull ${pull.id} for ${pull.channelName}`, {
+        oldestTs: pull.oldestTs,
+        hasCursor: !!pull.cursor,
+        processedMessages: pull.processedMessages
+      })
+
+      this.runPull({ ...pull, resumeCount: pull.resumeCount + 1 })
+      resumed++
+    }
+
+    return resumed
+  }
+
+  /**
+   * Run a pull in the background and record how it ended
+   */
+  private runPull(pull: ChannelPull): void {
+    const progress = toProgress(pull)
+    SlackChannelPuller.runningPulls.add(pull.id)
+
+    // Keep the heartbeat fresh while long thread batches run
+    const heartbeat = setInterval(() => {
+      prisma.channelPull.update({ where: { id: pull.id }, data: { heartbeatAt: new Date() } })
+        .catch(error => logger.warn('Failed to update channel pull heartbeat', { pullId: pull.id, error }))
+    }, HEARTBEAT_INTERVAL_MS)
+    heartbeat.unref?.()
+
+    this.executeChannelPull(pull, progress)
+      .catch(async error => {
+        if (error.message === CANCELLED_MESSAGE) {
+          logger.info(`🛑 Channel pull ${pull.id} stopped after cancellation`)
+          return
+        }
+
+        logger.error('❌ Channel pull failed', { error, pullId: pull.id, channelId: pull.channelId })
+        progress.status = 'FAILED'
+        progress.errorMessage = error.message
+        progress.completedAt = new Date()
+        await this.updateProgress(progress).catch(updateError =>
+          logger.error('Failed to record channel pull failure', updateError)
+        )
+      })
+      .finally(() => {
+        clearInterval(heartbeat)
+        SlackChannelPuller.runningPulls.delete(pull.id)
+        SlackChannelPuller.cancellationTokens.delete(pull.id)
+      })
   }
 
   /**
    * Execute the actual channel pull operation
-   * Implements pagination, rate limiting, and progress tracking
+   * Processes one history page at a time and checkpoints after each page,
+   * so an interrupted pull continues from the first unprocessed page
    */
   private async executeChannelPull(
-    config: ChannelPullConfig, 
+    pull: ChannelPull,
     progress: ChannelPullProgress
   ): Promise<void> {
-    try {
-      // Check for cancellation before starting
-      this.checkCancellation(progress.id)
-      
-      progress.status = 'RUNNING'
-      progress.startedAt = new Date()
-      await this.updateProgress(progress)
+    const config: ChannelPullConfig = {
+      channelId: pull.channelId,
+      channelName: pull.channelName,
+      startDate: pull.startDate ?? undefined,
+      endDate: pull.endDate ?? undefined,
+      includeThreads: pull.includeThreads,
+      batchSize: pull.batchSize,
+      delayBetweenRequests: pull.delayBetweenRequests,
+      skipPIIDetection: pull.skipPIIDetection,
+      userId: pull.userId ?? undefined
+    }
+    const checkpoint: PullCheckpoint = { cursor: pull.cursor, oldestTs: pull.oldestTs }
 
-      logger.info(`🔄 Executing channel pull for ${config.channelId}`)
+    // Check for cancellation before starting
+    this.checkCancellation(progress.id)
+    
+    progress.status = 'RUNNING'
+    progress.startedAt = progress.startedAt || new Date()
+    await this.updateProgress(progress, checkpoint)
 
-      // Step 1: Fetch channel info to get channel name
-      this.checkCancellation(progress.id)
-      const channelInfo = await this.getChannelInfo(config.channelId)
-      if (channelInfo) {
-        progress.channelName = channelInfo.name || progress.channelName
-        await this.updateProgress(progress)
-        
-        // Security check: Ensure bot has proper access to the channel
-        if (channelInfo.is_private && !channelInfo.is_member) {
-          logger.error('🚨 Security violation: Attempted to pull private channel without membership', {
-            channelId: config.channelId,
-            channelName: channelInfo.name,
-            userId: config.userId
-          })
-          progress.status = 'FAILED'
-          progress.errorMessage = 'Access denied: Bot is not a member of this private channel'
-          progress.completedAt = new Date()
-          await this.updateProgress(progress)
-          return
-        }
+    logger.info(`🔄 Executing channel pull for ${config.channelId}`, { resumeCount: progress.resumeCount })
+
+    // Step 1: Fetch channel info to get channel name
+    const channelInfo = await this.getChannelInfo(config.channelId)
+    if (channelInfo) {
+      progress.channelName = channelInfo.name || progress.channelName
+      
+      // Security check: Ensure bot has proper access to the channel
+      if (channelInfo.is_private && !channelInfo.is_member) {
+        logger.error('🚨 Security violation: Attempted to pull private channel without membership', {
+          channelId: config.channelId,
+          channelName: channelInfo.name,
+          userId: config.userId
+        })
+        throw new Error('Access denied: Bot is not a member of this private channel')
       }
+    }
 
-      // Step 2: Fetch all messages with pagination
+    // Progress is the share of the channel's time range already walked back through
+    const rangeEnd = (config.endDate ?? progress.createdAt).getTime()
+    const rangeStart = config.startDate?.getTime() ?? (channelInfo?.created ? channelInfo.created * 1000 : null)
+
+    // Step 2: Walk channel history page by page, newest first
+    let hasMore = true
+
+    while (hasMore) {
       this.checkCancellation(progress.id)
-      const allMessages = await this.fetchAllMessages(config, progress)
-      
+
+      const response = await this.fetchNextPage(config, checkpoint)
+      const messages = response.messages || []
+
       // Step 3: Process messages through existing event processor
-      this.checkCancellation(progress.id)
-      await this.processMessages(allMessages, config, progress)
+      progress.totalMessages += messages.length
+      await this.processMessages(messages, config, progress)
 
       // Step 4: Handle threads if enabled
-      this.checkCancellation(progress.id)
       if (config.includeThreads !== false) {
-        await this.processThreads(allMessages, config, progress)
+        await this.processThreads(messages, config, progress)
       }
 
-      // Mark as completed
-      progress.status = 'COMPLETED'
-      progress.progress = 100
-      progress.completedAt = new Date()
-      await this.updateProgress(progress)
+      hasMore = response.has_more || false
+      checkpoint.cursor = response.response_metadata?.next_cursor || null
+      if (messages.length > 0) {
+        checkpoint.oldestTs = messages[messages.length - 1].ts
+      }
 
-      logger.info(`✅ Channel pull completed for ${config.channelId}`, {
-        stats: progress.stats,
-        duration: progress.completedAt.getTime() - progress.startedAt!.getTime()
-      })
+      if (rangeStart !== null && checkpoint.oldestTs && rangeEnd > rangeStart) {
+        const covered = rangeEnd - parseSlackTimestamp(checkpoint.oldestTs).getTime()
+        progress.progress = Math.max(progress.progress, Math.min(99, Math.floor((covered / (rangeEnd - rangeStart)) * 100)))
+      }
 
-      // Schedule cleanup of progress record (keep for 5 minutes after completion)
-      setTimeout(() => {
-        SlackChannelPuller.progressStore.delete(progress.id)
-        SlackChannelPuller.cancellationTokens.delete(progress.id)
-        logger.info(`🧹 Cleaned up progress record for ${progress.id}`)
-      }, 5 * 60 * 1000)
+      await this.updateProgress(progress, checkpoint)
+      logger.info(`📊 Processed page of ${messages.length} messages (total: ${progress.processedMessages})`)
 
-    } catch (error) {
-      logger.error(`❌ Channel pull execution failed for ${config.channelId}`, error)
-      throw error
+      // Rate limiting delay
+      if (hasMore) {
+        await this.delay(config.delayBetweenRequests || this.defaultDelay)
+      }
     }
+
+    // Mark as completed
+    progress.status = 'COMPLETED'
+    progress.progress = 100
+    progress.completedAt = new Date()
+    await this.updateProgress(progress, { cursor: null, oldestTs: checkpoint.oldestTs })
+
+    logger.info(`✅ Channel pull completed for ${config.channelId}`, {
+      stats: progress.stats,
+      duration: progress.completedAt.getTime() - progress.startedAt!.getTime()
+    })
+
+    // Keep the channel current from here on with the incremental catch-up sync
+    await channelSyncService.trackChannel(config.channelId, progress.channelName, channelInfo?.is_private)
+      .catch(error => logger.warn(`Failed to track ${config.channelId} for catch-up sync`, { error }))
   }
 
   /**
-   * Fetch all messages from a channel using pagination
-   * Implements proper rate limiting and error handling
+   * Fetch the next history page from the checkpoint
+   * Retries rate-limited requests; when Slack rejects a saved cursor the page is
+   * requested again by timestamp, continuing below the oldest processed message
    */
-  private async fetchAllMessages(
-    config: ChannelPullConfig, 
-    progress: ChannelPullProgress
-  ): Promise<SlackMessage[]> {
-    const allMessages: SlackMessage[] = []
-    let cursor: string | undefined
-    let hasMore = true
+  private async fetchNextPage(
+    config: ChannelPullConfig,
+    checkpoint: PullCheckpoint
+  ): Promise<SlackHistoryResponse> {
     const batchSize = config.batchSize || this.defaultBatchSize
+    const latest = checkpoint.oldestTs
+      ? parseSlackTimestamp(checkpoint.oldestTs)
+      : config.endDate
 
-    logger.info(`📥 Fetching messages from ${config.channelId}`)
-
-    while (hasMore) {
+    for (let attempt = 0; ; attempt++) {
       try {
-        // Check for cancellation before each batch
-        this.checkCancellation(progress.id)
-        
-        const response = await this.fetchMessagesPage(
-          config.channelId,
-          cursor,
-          batchSize,
-          config.startDate,
-          config.endDate
-        )
+        const response = checkpoint.cursor
+          ? await this.fetchMessagesPage(config.channelId, checkpoint.cursor, batchSize, config.startDate, config.endDate)
+          : await this.fetchMessagesPage(config.channelId, undefined, batchSize, config.startDate, latest)
+
+        if (!response.ok && response.error === 'invalid_cursor' && checkpoint.cursor) {
+          logger.warn(`⚠️ Saved cursor rejected for ${config.channelId}, continuing from ts ${checkpoint.oldestTs}`)
+          checkpoint.cursor = null
+          continue
+        }
 
         if (!response.ok) {
           throw new Error(`Slack API error: ${response.error}`)
         }
 
-        const messages = response.messages || []
-        allMessages.push(...messages)
-
-        // Update progress (0-20% for message discovery)
-        progress.totalMessages = allMessages.length
-        progress.progress = Math.min(20, 5 + (allMessages.length / 50) * 15)
-        await this.updateProgress(progress)
-
-        // Check for more pages
-        hasMore = response.has_more || false
-        cursor = response.response_metadata?.next_cursor
-
-        // Rate limiting delay
-        if (hasMore) {
-          await this.delay(config.delayBetweenRequests || this.defaultDelay)
-        }
-
-        logger.info(`📊 Fetched ${messages.length} messages (total: ${allMessages.length})`)
-
+        return response
       } catch (error) {
         logger.error('❌ Error fetching messages page', error)
+        if (attempt >= this.maxRetries) throw error
         await this.handleRateLimit(error)
       }
     }
-
-    logger.info(`✅ Completed message fetch: ${allMessages.length} messages from ${config.channelId}`)
-    return allMessages
   }
 
   /**
@@ -329,14 +422,7 @@ export class SlackChannelPuller {
     config: ChannelPullConfig,
     progress: ChannelPullProgress
   ): Promise<void> {
-    logger.info(`🔄 Processing ${messages.length} messages through event processor`)
-
-    // Set baseline progress for message processing phase
-    progress.progress = 20
-    await this.updateProgress(progress)
-
     let processed = 0
-    const total = messages.length
 
     for (const message of messages) {
       try {
@@ -358,7 +444,11 @@ export class SlackChannelPuller {
             channel: config.channelId, // Use channel ID from config since Slack API doesn't include it in message objects
             event_ts: message.ts,
             thread_ts: message.thread_ts,
-            subtype: message.subtype
+            subtype: message.subtype,
+            bot_id: message.bot_id,
+            files: message.files,
+            blocks: message.blocks,
+            attachments: message.attachments
           },
           type: 'event_callback',
           event_id: `historical_${message.ts}`,
@@ -384,15 +474,7 @@ export class SlackChannelPuller {
         }
 
         processed++
-        progress.processedMessages = processed
-
-        // Update progress (20-70% for message processing)
-        progress.progress = 20 + Math.floor((processed / total) * 50)
-        
-        if (processed % 50 === 0) {
-          await this.updateProgress(progress)
-          logger.info(`📊 Processed ${processed}/${total} messages`)
-        }
+        progress.processedMessages++
 
         // Small delay to prevent overwhelming the system
         if (processed % 10 === 0) {
@@ -400,13 +482,11 @@ export class SlackChannelPuller {
         }
 
       } catch (error) {
+        if (error instanceof Error && error.message === CANCELLED_MESSAGE) throw error
         logger.error('❌ Error processing message', { error, messageTs: message.ts })
         // Continue processing other messages
       }
     }
-
-    await this.updateProgress(progress)
-    logger.info(`✅ Completed message processing: ${processed} messages`)
   }
 
   /**
@@ -423,19 +503,11 @@ export class SlackChannelPuller {
     )
 
     if (threadsToProcess.length === 0) {
-      logger.info('No threads to process')
       return
     }
 
     logger.info(`🧵 Processing ${threadsToProcess.length} threads`)
 
-    // Set baseline progress for thread processing phase
-    progress.progress = 70
-    await this.updateProgress(progress)
-
-    let processed = 0
-    const total = threadsToProcess.length
-
     for (const parentMessage of threadsToProcess) {
       try {
         // Check for cancellation before processing each thread
@@ -460,7 +532,11 @@ export class SlackChannelPuller {
               channel: config.channelId, // Use channel ID from config since Slack API doesn't include it in thread reply objects
               event_ts: reply.ts,
               thread_ts: reply.thread_ts,
-              subtype: reply.subtype
+              subtype: reply.subtype,
+              bot_id: reply.bot_id,
+              files: reply.files,
+              blocks: reply.blocks,
+              attachments: reply.attachments
             },
             type: 'event_callback',
             event_id: `historical_thread_${reply.ts}`,
@@ -475,27 +551,16 @@ export class SlackChannelPuller {
           progress.stats.threadRepliesFetched++
         }
 
-        processed++
-        progress.threadsProcessed = processed
-
-        // Update progress (70-90% for thread processing)
-        progress.progress = 70 + Math.floor((processed / total) * 20)
-        
-        if (processed % 10 === 0) {
-          await this.updateProgress(progress)
-          logger.info(`📊 Processed ${processed}/${total} threads`)
-        }
+        progress.threadsProcessed++
 
         // Rate limiting for thread requests
         await this.delay(config.delayBetweenRequests || this.defaultDelay)
 
       } catch (error) {
+        if (error instanceof Error && error.message === CANCELLED_MESSAGE) throw error
         logger.error('❌ Error processing thread', { error, parentTs: parentMessage.ts })
       }
     }
-
-    await this.updateProgress(progress)
-    logger.info(`✅ Completed thread processing: ${processed} threads`)
   }
 
   /**
@@ -574,7 +639,7 @@ export class SlackChannelPuller {
    * Check if operation has been cancelled
    */
   private isCancelled(progressId: string): boolean {
-    return SlackChannelPuller.cancellationTokens.get(progressId) === true
+    return SlackChannelPuller.cancellationTokens.has(progressId)
   }
 
   /**
@@ -582,84 +647,87 @@ export class SlackChannelPuller {
    */
   private checkCancellation(progressId: string): void {
     if (this.isCancelled(progressId)) {
-      throw new Error('Operation cancelled by user')
+      throw new Error(CANCELLED_MESSAGE)
     }
   }
 
   /**
-   * Update progress record
-   * Stores progress in memory for real-time tracking
+   * Persist progress, and the checkpoint when given
+   * Only pulls that are still active are updated, so a cancellation made from
+   * another instance is picked up here and stops the pull
    */
-  private async updateProgress(progress: ChannelPullProgress): Promise<void> {
-    // Store progress in memory
-    SlackChannelPuller.progressStore.set(progress.id, { ...progress })
+  private async updateProgress(progress: ChannelPullProgress, checkpoint?: PullCheckpoint): Promise<void> {
+    const result = await prisma.channelPull.updateMany({
+      where: { id: progress.id, status: { in: ACTIVE_STATUSES } },
+      data: {
+        channelName: progress.channelName,
+        status: progress.status,
+        progress: progress.progress,
+        totalMessages: progress.totalMessages,
+        processedMessages: progress.processedMessages,
+        threadsProcessed: progress.threadsProcessed,
+        stats: progress.stats,
+        errorMessage: progress.errorMessage,
+        startedAt: progress.startedAt,
+        completedAt: progress.completedAt,
+        heartbeatAt: new Date(),
+        ...(checkpoint && { cursor: checkpoint.cursor, oldestTs: checkpoint.oldestTs })
+      }
+    })
+
+    if (result.count === 0) {
+      SlackChannelPuller.cancellationTokens.add(progress.id)
+      throw new Error(CANCELLED_MESSAGE)
+    }
+
+    progress.oldestTs = checkpoint?.oldestTs ?? progress.oldestTs
 
-    // Log progress updates for debugging
     logger.info(`📊 Progress Update: ${progress.channelId} - ${progress.progress}%`, {
       status: progress.status,
       processed: progress.processedMessages,
       total: progress.totalMessages,
       stats: progress.stats
     })
-
-    // TODO: In production, also persist to database or Redis for durability
-    // await redis.set(`channel_pull_${progress.id}`, JSON.stringify(progress), 'EX', 3600)
-    // or
-    // await prisma.channelPullProgress.upsert({...})
   }
 
   /**
    * Get progress for a specific pull operation
    */
   async getProgress(progressId: string): Promise<ChannelPullProgress | null> {
-    logger.info(`Getting progress for ${progressId}`)
-    
-    // Retrieve progress from memory store
-    const progress = SlackChannelPuller.progressStore.get(progressId)
+    const pull = await prisma.channelPull.findUnique({ where: { id: progressId } })
     
-    if (!progress) {
+    if (!pull) {
       logger.warn(`⚠️ Progress not found for ${progressId}`)
       return null
     }
     
-    // Return a copy to prevent external modifications
-    return { ...progress }
-    
-    // TODO: In production, also try fallback to database/Redis
-    // if (!progress) {
-    //   const dbProgress = await prisma.channelPullProgress.findUnique({
-    //     where: { id: progressId }
-    //   })
-    //   return dbProgress ? mapDbToProgress(dbProgress) : null
-    // }
+    return toProgress(pull)
   }
 
   /**
    * Cancel a running pull operation
+   * The pull stops at its next cancellation check, in whichever instance runs it
    */
   async cancelPull(progressId: string): Promise<boolean> {
     logger.info(`🛑 Cancelling pull ${progressId}`)
     
-    const progress = SlackChannelPuller.progressStore.get(progressId)
-    if (!progress) {
-      logger.warn(`⚠️ Cannot cancel: Progress not found for ${progressId}`)
-      return false
-    }
-    
     // Only allow cancellation of running or queued operations
-    if (progress.status !== 'RUNNING' && progress.status !== 'QUEUED') {
-      logger.warn(`⚠️ Cannot cancel: Pull ${progressId} is in ${progress.status} state`)
+    const result = await prisma.channelPull.updateMany({
+      where: { id: progressId, status: { in: ACTIVE_STATUSES } },
+      data: {
+        status: 'CANCELLED',
+        completedAt: new Date(),
+        errorMessage: CANCELLED_MESSAGE
+      }
+    })
+
+    if (result.count === 0) {
+      logger.warn(`⚠️ Cannot cancel: Pull ${progressId} not found or not active`)
       return false
     }
     
     // Set cancellation token
-    SlackChannelPuller.cancellationTokens.set(progressId, true)
-    
-    // Update progress to cancelled state
-    progress.status = 'CANCELLED'
-    progress.completedAt = new Date()
-    progress.errorMessage = 'Operation cancelled by user'
-    await this.updateProgress(progress)
+    SlackChannelPuller.cancellationTokens.add(progressId)
     
     logger.info(`✅ Successfully cancelled pull ${progressId}`)
     return true
@@ -719,45 +787,45 @@ export class SlackChannelPuller {
   /**
    * Get all active pull operations
    */
-  static getActivePulls(): ChannelPullProgress[] {
-    return Array.from(SlackChannelPuller.progressStore.values()).filter(
-      progress => progress.status === 'RUNNING' || progress.status === 'QUEUED'
-    )
+  static async getActivePulls(): Promise<ChannelPullProgress[]> {
+    const pulls = await prisma.channelPull.findMany({
+      where: { status: { in: ACTIVE_STATUSES } },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return pulls.map(toProgress)
   }
 
   /**
-   * Get all pull operations (active and completed)
+   * Get recent pull operations (active and finished), newest first
    */
-  static getAllPulls(): ChannelPullProgress[] {
-    return Array.from(SlackChannelPuller.progressStore.values())
+  static async getAllPulls(limit = 50): Promise<ChannelPullProgress[]> {
+    const pulls = await prisma.channelPull.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+
+    return pulls.map(toProgress)
   }
 
   /**
-   * Clean up old progress records to prevent memory leaks
-   * Should be called periodically (e.g., every hour)
+   * Delete finished pull records older than the retention period
    */
-  static cleanupOldProgress(): void {
-    const now = Date.now()
-    const maxAge = 60 * 60 * 1000 // 1 hour
-    let cleaned = 0
-    
-    for (const [id, progress] of SlackChannelPuller.progressStore.entries()) {
-      const age = progress.completedAt 
-        ? now - progress.completedAt.getTime()
-        : progress.startedAt 
-          ? now - progress.startedAt.getTime()
-          : now - new Date().getTime()
-      
-      if (age > maxAge) {
-        SlackChannelPuller.progressStore.delete(id)
-        SlackChannelPuller.cancellationTokens.delete(id)
-        cleaned++
+  static async cleanupOldPulls(olderThanDays = 90): Promise<number> {
+    const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000)
+
+    const result = await prisma.channelPull.deleteMany({
+      where: {
+        status: { notIn: ACTIVE_STATUSES },
+        createdAt: { lt: cutoff }
       }
+    })
+
+    if (result.count > 0) {
+      logger.info(`🧹 Cleaned up ${result.count} old channel pull records`)
     }
-    
-    if (cleaned > 0) {
-      logger.info(`🧹 Cleaned up ${cleaned} old progress records`)
-    }
+
+    return result.count
   }
 
   /**
@@ -845,6 +913,7 @@ export function validatePullConfig(config: Partial<ChannelPullConfig>): ChannelP
     includeThreads: config.includeThreads !== false, // Default to true
     batchSize: Math.min(config.batchSize || 100, 200), // Cap at 200
     delayBetweenRequests: Math.max(config.delayBetweenRequests || 1000, 500), // Minimum 500ms
+    skipPIIDetection: config.skipPIIDetection === true,
     userId: config.userId
   }
 }
@@ -863,4 +932,39 @@ export function estimatePullTime(messageCount: number, includeThreads = true): n
   const processingTime = baseTime * 0.5
   
   return baseTime + threadTime + processingTime
-} 
\ No newline at end of file
+} 
+
+function emptyStats(): ChannelPullProgress['stats'] {
+  return {
+    newMessages: 0,
+    duplicateMessages: 0,
+    threadRepliesFetched: 0,
+    documentsCreated: 0,
+    faqsGenerated: 0,
+    piiDetected: 0
+  }
+}
+
+function toProgress(pull: ChannelPull): ChannelPullProgress {
+  return {
+    id: pull.id,
+    channelId: pull.channelId,
+    channelName: pull.channelName,
+    status: pull.status,
+    progress: pull.progress,
+    totalMessages: pull.totalMessages,
+    processedMessages: pull.processedMessages,
+    threadsProcessed: pull.threadsProcessed,
+    startDate: pull.startDate,
+    endDate: pull.endDate,
+    includeThreads: pull.includeThreads,
+    oldestTs: pull.oldestTs,
+    resumeCount: pull.resumeCount,
+    createdAt: pull.createdAt,
+    startedAt: pull.startedAt,
+    completedAt: pull.completedAt,
+    errorMessage: pull.errorMessage,
+    userId: pull.userId,
+    stats: { ...emptyStats(), ...(pull.stats as Partial<ChannelPullProgress['stats']>) }
+  }
+}
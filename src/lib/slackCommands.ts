@@ -0,0 +1,302 @@
+/**
+ * Slack Command Service
+ * Handles the /listen slash command and the "Save thread as document" message shortcut,
+ * so curators can capture threads and look up FAQs and messages without leaving Slack
+ *
+ * Slack expects an acknowledgement within 3 seconds, so document creation and searches run
+ * after the acknowledgement and report back ephemerally through the response_url.
+ */
+
+import { db } from './db'
+import { logger } from './logger'
+import { findUserBySlackId, getUserLabel, hasRole } from './auth'
+import { documentProcessorService } from './documentProcessor'
+import { faqGeneratorService } from './faqGenerator'
+import { messageSearchService } from './messageSearch'
+import { buildSlackPermalink, parseSlackPermalink } from './slack'
+import {
+  FAQStatus,
+  UserRole,
+  type AuthUser,
+  type SlackCommandResponse,
+  type SlackMessageShortcutPayload,
+  type SlackSlashCommand
+} from '@/types'
+
+export const SAVE_THREAD_CALLBACK_ID = 'save_thread_as_document'
+
+const REQUEST_TIMEOUT_MS = 10 * 1000
+const FAQ_RESULT_LIMIT = 3
+const FAQ_MIN_SCORE = 0.6
+const SEARCH_RESULT_LIMIT = 5
+const MAX_SNIPPET_CHARS = 300
+
+const USAGE = [
+  '*Usage*',
+  '`/listen doc [thread link]` - save a thread as a document (the most recent thread in this channel when no link is given)',
+  '`/listen faq <question>` - find approved FAQs that answer a question',
+  '`/listen search <terms>` - search captured messages'
+].join('\n')
+
+/**
+ * Thread to capture: channel and root timestamp
+ */
+interface ThreadRef {
+  channel: string
+  rootTs: string
+}
+
+/**
+ * Dashboard URL used in links, e.g. https://listen.example.com
+ */
+const getAppBaseUrl = (): string => {
+  if (process.env.APP_BASE_URL) {
+    return process.env.APP_BASE_URL.replace(/\/$/, '')
+  }
+  if (process.env.SLACK_AUTH_REDIRECT_URI) {
+    return new URL(process.env.SLACK_AUTH_REDIRECT_URI).origin
+  }
+  return 'http://localhost:3000'
+}
+
+const escapeMrkdwn = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const truncate = (text: string, maxChars: number): string =>
+  text.length > maxChars ? `${text.substring(0, maxChars)}…` : text
+
+const ephemeral = (text: string): SlackCommandResponse => ({ response_type: 'ephemeral', text })
+
+/**
+ * Slack command service class
+ */
+class SlackCommandService {
+
+  /**
+   * Handle a /listen invocation
+   *
+   * @returns The immediate (ephemeral) acknowledgement; results follow through the response_url
+   */
+  async handleSlashCommand(command: SlackSlashCommand): Promise<SlackCommandResponse> {
+    const text = (command.text || '').trim()
+    const [subcommand = '', ...rest] = text.split(/\s+/)
+    const argument = rest.join(' ').trim()
+
+    const user = await findUserBySlackId(command.user_id)
+    if (!user) {
+      return ephemeral(`Sign in to the dashboard at ${getAppBaseUrl()} once before using ${command.command}.`)
+    }
+
+    switch (subcommand.toLowerCase()) {
+      case 'doc': {
+        if (!hasRole(user, [UserRole.CURATOR])) {
+          return ephemeral('Only curators can create documents.')
+        }
+
+        const thread = argument
+          ? this.threadFromLink(argument)
+          : await this.latestThreadIn(command.channel_id)
+        if (!thread) {
+          return ephemeral(argument
+            ? 'That doesn\'t look like a Slack message link. Use "Copy link" on any message in the thread.'
+            : 'No captured threads in this channel yet. Pass a thread link: `/listen doc <link>`')
+        }
+
+        this.runInBackground(command.response_url, () => this.createDocument(thread, user, command.team_domain))
+        return ephemeral('Saving the thread as a document. I\'ll post the link here when it\'s ready.')
+      }
+
+      case 'faq':
+        if (!argument) {
+          return ephemeral('Add a question: `/listen faq <question>`')
+        }
+        this.runInBackground(command.response_url, () => this.findFAQs(argument))
+        return ephemeral(`Looking for FAQs about "${argument}"…`)
+
+      case 'search':
+        if (!argument) {
+          return ephemeral('Add search terms: `/listen search <terms>`')
+        }
+        this.runInBackground(command.response_url, () => this.searchMessages(argument, command.team_domain))
+        return ephemeral(`Searching for "${argument}"…`)
+
+      default:
+        return ephemeral(USAGE)
+    }
+  }
+
+  /**
+   * Handle the "Save thread as document" message shortcut
+   * Works on the thread root or any reply; the result is posted through the response_url
+   */
+  async handleMessageShortcut(payload: SlackMessageShortcutPayload): Promise<void> {
+    const user = await findUserBySlackId(payload.user.id)
+
+    if (!user || !hasRole(user, [UserRole.CURATOR])) {
+      await this.respond(payload.response_url, ephemeral(user
+        ? 'Only curators can create documents.'
+        : `Sign in to the dashboard at ${getAppBaseUrl()} once before saving threads.`))
+      return
+    }
+
+    const thread: ThreadRef = {
+      channel: payload.channel.id,
+      rootTs: payload.message.thread_ts || payload.message.ts
+    }
+
+    this.runInBackground(payload.response_url, () => this.createDocument(thread, user, payload.team.domain))
+  }
+
+  /**
+   * Create a document from every captured message of a thread
+   */
+  private async createDocument(thread: ThreadRef, user: AuthUser, teamDomain: string): Promise<SlackCommandResponse> {
+    const messages = await db.message.findMany({
+      where: {
+        channel: thread.channel,
+        deletedAt: null,
+        OR: [{ slackId: thread.rootTs }, { threadTs: thread.rootTs }]
+      },
+      orderBy: { timestamp: 'asc' },
+      select: { id: true }
+    })
+
+    if (messages.length === 0) {
+      return ephemeral('None of the messages in that thread have been captured. Is the bot in this channel?')
+    }
+
+    const { document } = await documentProcessorService.processDocument({
+      messageIds: messages.map(m => m.id),
+      userId: getUserLabel(user)
+    })
+
+    logger.info(`Document ${document.id} created from Slack thread ${thread.rootTs} by ${getUserLabel(user)}`)
+
+    const threadLink = buildSlackPermalink(teamDomain, thread.channel, thread.rootTs)
+    return ephemeral(
+      `:page_facing_up: Saved <${threadLink}|the thread> (${messages.length} ${messages.length === 1 ? 'message' : 'messages'}) as ` +
+      `<${getAppBaseUrl()}/documents/${document.id}|${escapeMrkdwn(document.title)}>`
+    )
+  }
+
+  /**
+   * Approved FAQs similar to a question
+   */
+  private async findFAQs(question: string): Promise<SlackCommandResponse> {
+    const results = (await faqGeneratorService.findSimilarFAQs(question, {
+      status: [FAQStatus.APPROVED],
+      limit: FAQ_RESULT_LIMIT,
+      minScore: FAQ_MIN_SCORE
+    })).filter(result => result.faq.status === FAQStatus.APPROVED)
+
+    if (results.length === 0) {
+      return ephemeral(`No approved FAQs match "${escapeMrkdwn(question)}".`)
+    }
+
+    const lines = results.map(({ faq, similarity }) =>
+      `*${escapeMrkdwn(faq.question)}* (${Math.round(similarity * 100)}% match)\n${escapeMrkdwn(truncate(faq.answer, MAX_SNIPPET_CHARS))}`
+    )
+
+    return ephemeral(`${lines.join('\n\n')}\n\n<${getAppBaseUrl()}/faqs|All FAQs>`)
+  }
+
+  /**
+   * Captured threads matching the terms, with redacted snippets and links back to Slack
+   */
+  private async searchMessages(terms: string, teamDomain: string): Promise<SlackCommandResponse> {
+    const page = await messageSearchService.search(
+      { search: terms, searchMode: 'hybrid' },
+      { page: 1, limit: SEARCH_RESULT_LIMIT }
+    )
+
+    if (page.ids.length === 0) {
+      return ephemeral(`No messages match "${escapeMrkdwn(terms)}".`)
+    }
+
+    const matched = await db.message.findMany({
+      where: { id: { in: Array.from(page.hits.values()).map(hit => hit.matchedMessageId) } },
+      select: { id: true, channel: true, slackId: true, threadTs: true }
+    })
+    const messageById = new Map(matched.map(m => [m.id, m]))
+
+    const lines = page.ids.map(rootId => {
+      const hit = page.hits.get(rootId)!
+      const message = messageById.get(hit.matchedMessageId)
+      const snippet = truncate(
+        hit.snippet.map(segment => segment.match ? `*${escapeMrkdwn(segment.text)}*` : escapeMrkdwn(segment.text)).join(''),
+        MAX_SNIPPET_CHARS
+      )
+      const link = message
+        ? ` <${buildSlackPermalink(teamDomain, message.channel, message.slackId, message.threadTs)}|open>`
+        : ''
+      return `• ${snippet}${link}`
+    })
+
+    const footer = page.total > page.ids.length ? `\n_${page.total - page.ids.length} more in the dashboard: ${getAppBaseUrl()}_` : ''
+    const notice = page.semanticUnavailable ? '\n_Meaning-based search is unavailable; showing exact word matches._' : ''
+
+    return ephemeral(`${lines.join('\n')}${footer}${notice}`)
+  }
+
+  /**
+   * Thread from a pasted message link
+   */
+  private threadFromLink(link: string): ThreadRef | null {
+    const parsed = parseSlackPermalink(link)
+    return parsed ? { channel: parsed.channel, rootTs: parsed.threadTs || parsed.ts } : null
+  }
+
+  /**
+   * Most recent captured thread (a top-level message with replies) in a channel
+   */
+  private async latestThreadIn(channel: string): Promise<ThreadRef | null> {
+    const root = await db.message.findFirst({
+      where: {
+        channel,
+        deletedAt: null,
+        isThreadReply: false,
+        threadReplies: { some: { deletedAt: null } }
+      },
+      orderBy: { timestamp: 'desc' },
+      select: { slackId: true }
+    })
+
+    return root ? { channel, rootTs: root.slackId } : null
+  }
+
+  /**
+   * Run work after the acknowledgement and post its result (or failure) to the response_url
+   */
+  private runInBackground(responseUrl: string, work: () => Promise<SlackCommandResponse>): void {
+    void work()
+      .catch(error => {
+        logger.error('Slack command failed:', error)
+        return ephemeral(`Sorry, that didn't work: ${error instanceof Error ? error.message : 'unknown error'}`)
+      })
+      .then(response => this.respond(responseUrl, response))
+  }
+
+  /**
+   * Post a reply to a command's response_url
+   */
+  private async respond(responseUrl: string, response: SlackCommandResponse): Promise<void> {
+    try {
+      const result = await fetch(responseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json; charset=utf-8' },
+        body: JSON.stringify({ replace_original: false, ...response }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      })
+
+      if (!result.ok) {
+        logger.warn(`Slack response_url rejected the reply: ${result.status}`)
+      }
+    } catch (error) {
+      logger.warn('Failed to post Slack command reply:', error)
+    }
+  }
+}
+
+// Export singleton instance
+export const slackCommandService = new SlackCommandService()
+export default slackCommandService
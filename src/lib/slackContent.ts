@@ -0,0 +1,373 @@
+/**
+ * Slack Content Service
+ * Turns files, Block Kit blocks and legacy attachments on Slack messages into
+ * searchable text, so they reach PII detection, documents and FAQs like plain text does
+ */
+
+import { logger } from './logger'
+import type {
+  SlackBlock,
+  SlackFile,
+  SlackLegacyAttachment,
+  SlackMessageContent
+} from '@/types'
+
+/** Text files larger than this are not downloaded (the Slack preview is used instead) */
+const MAX_FILE_BYTES = parseInt(process.env.SLACK_FILE_MAX_BYTES || '1048576')
+/** Extracted file text is cut at this many characters */
+const MAX_CONTENT_CHARS = parseInt(process.env.SLACK_FILE_CONTENT_MAX_CHARS || '20000')
+/** Files are read before the event is stored, so a slow download must not hold up the acknowledgement */
+const REQUEST_TIMEOUT_MS = 10 * 1000
+
+const TEXT_FILETYPES = new Set([
+  'text', 'log', 'csv', 'tsv', 'markdown', 'post', 'json', 'yaml', 'xml', 'html', 'css',
+  'javascript', 'typescript', 'python', 'java', 'apex', 'sql', 'shell', 'powershell',
+  'go', 'ruby', 'php', 'kotlin', 'swift', 'c', 'cpp', 'csharp', 'rust', 'scala', 'diff'
+])
+
+const TEXT_MIMETYPES = new Set([
+  'application/json',
+  'application/xml',
+  'application/yaml',
+  'application/x-yaml',
+  'application/javascript',
+  'application/x-sh',
+  'application/sql'
+])
+
+/**
+ * File metadata and extracted text, ready to be stored as a MessageAttachment
+ */
+export interface AttachmentInput {
+  slackFileId: string
+  name: string
+  title: string | null
+  mimetype: string | null
+  filetype: string | null
+  size: number | null
+  mode: string | null
+  permalink: string | null
+  content: string | null
+  contentTruncated: boolean
+  contentError: string | null
+}
+
+/**
+ * Searchable text of a message plus the files to store with it
+ */
+export interface ExtractedContent {
+  text: string
+  attachments: AttachmentInput[]
+}
+
+/**
+ * Stored file fields needed to rebuild a message's text
+ */
+type FileText = Pick<AttachmentInput, 'name' | 'title' | 'content'>
+
+/**
+ * Collapse whitespace so block text can be compared with the message text
+ */
+const normalize = (text: string): string => text.replace(/\s+/g, ' ').trim()
+
+/**
+ * Text of a Block Kit text object or plain string
+ */
+const textOf = (text: SlackBlock['text']): string => {
+  if (!text) return ''
+  return typeof text === 'string' ? text : text.text || ''
+}
+
+/**
+ * Render inline rich text elements in Slack's mrkdwn notation, matching the message text
+ */
+const flattenInline = (elements: SlackBlock[] = []): string => {
+  return elements.map(element => {
+    switch (element.type) {
+      case 'text':
+        return textOf(element.text)
+      case 'link':
+        return element.text ? `${textOf(element.text)} (${element.url})` : element.url || ''
+      case 'user':
+        return `<@${element.user_id}>`
+      case 'channel':
+        return `<#${element.channel_id}>`
+      case 'usergroup':
+        return `<!subteam^${element.usergroup_id}>`
+      case 'emoji':
+        return `:${element.name}:`
+      case 'broadcast':
+        return `@${element.range}`
+      case 'date':
+        return element.fallback || ''
+      default:
+        return textOf(element.text)
+    }
+  }).join('')
+}
+
+/**
+ * Flatten a rich_text block (what users type in the composer)
+ */
+const flattenRichText = (elements: SlackBlock[] = []): string => {
+  return elements.map(element => {
+    switch (element.type) {
+      case 'rich_text_list':
+        return (element.elements || []).map(item => `- ${flattenInline(item.elements)}`).join('\n')
+      case 'rich_text_preformatted':
+        return `\`\`\`\n${flattenInline(element.elements)}\n\`\`\``
+      case 'rich_text_quote':
+        return `> ${flattenInline(element.elements)}`
+      default:
+        return flattenInline(element.elements)
+    }
+  }).join('\n')
+}
+
+/**
+ * Flatten Block Kit blocks into plain text, one block per line
+ * Interactive blocks (actions, inputs) and dividers carry no searchable text and are skipped
+ */
+export const flattenBlocks = (blocks: SlackBlock[] = []): string => {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'rich_text':
+        return flattenRichText(block.elements)
+      case 'header':
+        return textOf(block.text)
+      case 'section':
+        return [textOf(block.text), ...(block.fields || []).map(field => field.text)]
+          .filter(Boolean)
+          .join('\n')
+      case 'context':
+        return (block.elements || [])
+          .map(element => element.type === 'image' ? element.alt_text || '' : textOf(element.text))
+          .filter(Boolean)
+          .join(' ')
+      case 'image':
+        return block.title ? textOf(block.title) : block.alt_text || ''
+      case 'actions':
+      case 'input':
+      case 'divider':
+        return ''
+      default:
+        return block.elements ? flattenBlocks(block.elements) : textOf(block.text)
+    }
+  }).filter(Boolean).join('\n')
+}
+
+/**
+ * Flatten a legacy attachment (integrations, shared messages) into plain text
+ */
+export const flattenLegacyAttachment = (attachment: SlackLegacyAttachment): string => {
+  const parts = [
+    attachment.pretext,
+    attachment.title,
+    attachment.text,
+    ...(attachment.fields || []).map(field => [field.title, field.value].filter(Boolean).join(': ')),
+    flattenBlocks(attachment.blocks),
+    attachment.footer
+  ].filter(Boolean)
+
+  return parts.length > 0 ? parts.join('\n') : attachment.fallback || ''
+}
+
+/**
+ * Slack content service class
+ */
+class SlackContentService {
+
+  /**
+   * Build the searchable text of a message and download the text of its files
+   * @param message - Slack event or history message
+   */
+  async extractContent(message: SlackMessageContent & { text?: string }): Promise<ExtractedContent> {
+    const attachments: AttachmentInput[] = []
+
+    for (const file of message.files || []) {
+      try {
+        attachments.push(await this.extractFile(file))
+      } catch (error) {
+        // Keep what the event told us about the file even if it could not be looked up
+        logger.warn(`Failed to read Slack file ${file.id}:`, error)
+        attachments.push({
+          ...this.toAttachment(file),
+          contentError: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
+
+    return {
+      text: this.composeText(message.text, message, attachments),
+      attachments
+    }
+  }
+
+  /**
+   * Combine a message's text, blocks, legacy attachments and file text into one searchable text
+   * rich_text blocks mirror the typed text, so they are only used when the text is empty;
+   * other blocks are appended unless their text is already part of the message
+   */
+  composeText(text: string | undefined, content: SlackMessageContent, files: FileText[]): string {
+    const sections: string[] = []
+    const baseText = (text || '').trim()
+
+    // Plain messages keep their text exactly as Slack sent it
+    if (baseText) {
+      sections.push(text as string)
+    }
+
+    const blocks = (content.blocks || []).filter(block => !baseText || block.type !== 'rich_text')
+    const blocksText = flattenBlocks(blocks).trim()
+    if (blocksText && !normalize(baseText).includes(normalize(blocksText))) {
+      sections.push(blocksText)
+    }
+
+    // Link unfurls only repeat what is behind a URL in the text
+    for (const attachment of content.attachments || []) {
+      if (attachment.from_url) continue
+      const attachmentText = flattenLegacyAttachment(attachment).trim()
+      if (attachmentText) {
+        sections.push(attachmentText)
+      }
+    }
+
+    for (const file of files) {
+      const header = `[File: ${file.title || file.name}]`
+      sections.push(file.content ? `${header}\n${file.content}` : header)
+    }
+
+    return sections.join('\n\n')
+  }
+
+  /**
+   * Collect a file's metadata and, for snippets and text files, its text
+   */
+  private async extractFile(file: SlackFile): Promise<AttachmentInput> {
+    // Events from shared channels only carry the file ID
+    const resolved = file.file_access === 'check_file_info' ? await this.fetchFileInfo(file.id) : file
+    const attachment = this.toAttachment(resolved)
+
+    if (!this.isTextFile(resolved)) {
+      return attachment
+    }
+
+    const preview = resolved.preview || null
+
+    if (resolved.size && resolved.size > MAX_FILE_BYTES) {
+      return { ...attachment, content: preview, contentTruncated: Boolean(preview), contentError: `File exceeds ${MAX_FILE_BYTES} bytes` }
+    }
+
+    try {
+      const raw = await this.downloadText(resolved)
+      return {
+        ...attachment,
+        content: raw.slice(0, MAX_CONTENT_CHARS),
+        contentTruncated: raw.length > MAX_CONTENT_CHARS
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      logger.warn(`Could not download Slack file ${resolved.id}, falling back to its preview: ${message}`)
+      return { ...attachment, content: preview, contentTruncated: Boolean(preview), contentError: message }
+    }
+  }
+
+  /**
+   * File metadata without extracted text
+   */
+  private toAttachment(file: SlackFile): AttachmentInput {
+    return {
+      slackFileId: file.id,
+      name: file.name || file.title || file.id,
+      title: file.title || null,
+      mimetype: file.mimetype || null,
+      filetype: file.filetype || null,
+      size: file.size ?? null,
+      mode: file.mode || null,
+      permalink: file.permalink || null,
+      content: null,
+      contentTruncated: false,
+      contentError: null
+    }
+  }
+
+  /**
+   * Whether a file's text can be extracted: snippets and text-based files
+   */
+  private isTextFile(file: SlackFile): boolean {
+    if (file.mode === 'tombstone' || file.mode === 'external') return false
+    if (file.mode === 'snippet') return true
+    if (file.filetype && TEXT_FILETYPES.has(file.filetype)) return true
+    return Boolean(file.mimetype && (file.mimetype.startsWith('text/') || TEXT_MIMETYPES.has(file.mimetype)))
+  }
+
+  /**
+   * Download a file's text with the bot token (requires the files:read scope)
+   * The body is read as a stream and abandoned past MAX_FILE_BYTES, since Slack does not always report the size
+   */
+  private async downloadText(file: SlackFile): Promise<string> {
+    const token = process.env.SLACK_BOT_TOKEN
+    const url = file.url_private_download || file.url_private
+
+    if (!token) throw new Error('SLACK_BOT_TOKEN is not configured')
+    if (!url) throw new Error('File has no download URL')
+
+    const response = await fetch(url, {
+      headers: { 'Authorization': `Bearer ${token}` },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Download failed with HTTP ${response.status}`)
+    }
+
+    // Slack answers with its sign-in page when the token lacks access to the file
+    if ((response.headers.get('content-type') || '').includes('text/html') && file.filetype !== 'html') {
+      throw new Error('Slack returned a sign-in page - check that the bot has the files:read scope')
+    }
+
+    if (!response.body) {
+      throw new Error('Download returned no content')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let bytes = 0
+    let text = ''
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      bytes += value.byteLength
+      if (bytes > MAX_FILE_BYTES) {
+        await reader.cancel()
+        throw new Error(`File exceeds ${MAX_FILE_BYTES} bytes`)
+      }
+      text += decoder.decode(value, { stream: true })
+    }
+
+    return text + decoder.decode()
+  }
+
+  /**
+   * Look up full file details (files.info)
+   */
+  private async fetchFileInfo(fileId: string): Promise<SlackFile> {
+    const response = await fetch(`https://slack.com/api/files.info?file=${encodeURIComponent(fileId)}`, {
+      headers: { 'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}` },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    })
+    const result = await response.json()
+
+    if (!result.ok) {
+      throw new Error(`files.info failed: ${result.error}`)
+    }
+
+    return result.file as SlackFile
+  }
+}
+
+// Export singleton instance
+export const slackContentService = new SlackContentService()
+export default slackContentService
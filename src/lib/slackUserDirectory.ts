@@ -0,0 +1,313 @@
+/**
+ * Slack User Directory Service
+ * Resolves Slack user IDs to real display names using users.info / users.list
+ * Profiles are cached in the slack_users table and in memory, refreshed by user_change events,
+ * and written onto Message.username - unless PII rules say the name should be masked
+ */
+
+import { logger } from './logger'
+import { db } from './db'
+import { formatUsername } from './slack'
+import type { SlackUser } from '@prisma/client'
+import type { SlackUserInfo } from '@/types'
+
+// Configuration constants
+const SLACK_API_URL = 'https://slack.com/api'
+const PROFILE_STALE_MS = 24 * 60 * 60 * 1000
+const MEMORY_CACHE_TTL_MS = 10 * 60 * 1000
+const FAILED_LOOKUP_TTL_MS = 5 * 60 * 1000
+const USERS_LIST_PAGE_SIZE = 200
+
+interface CachedUsername {
+  username: string
+  expiresAt: number
+}
+
+interface SlackUsersListResponse {
+  ok: boolean
+  members?: SlackUserInfo[]
+  error?: string
+  response_metadata?: {
+    next_cursor?: string
+  }
+}
+
+interface SlackUserInfoResponse {
+  ok: boolean
+  user?: SlackUserInfo
+  error?: string
+}
+
+/**
+ * Slack user directory service class
+ */
+class SlackUserDirectoryService {
+  private usernameCache = new Map<string, CachedUsername>()
+
+  /**
+   * Resolve the username to store and display for a Slack user ID
+   * Falls back to the pseudonymous username when the profile is unavailable or the name is masked
+   */
+  async resolveUsername(userId: string): Promise<string> {
+    const cached = this.usernameCache.get(userId)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.username
+    }
+
+    try {
+      const user = await this.getUser(userId)
+      const username = user ? await this.getVisibleName(user) : formatUsername(userId)
+
+      this.usernameCache.set(userId, {
+        username,
+        expiresAt: Date.now() + (user ? MEMORY_CACHE_TTL_MS : FAILED_LOOKUP_TTL_MS)
+      })
+
+      return username
+    } catch (error) {
+      logger.warn(`Failed to resolve Slack user ${userId}, using fallback username:`, error)
+
+      this.usernameCache.set(userId, {
+        username: formatUsername(userId),
+        expiresAt: Date.now() + FAILED_LOOKUP_TTL_MS
+      })
+
+      return formatUsername(userId)
+    }
+  }
+
+  /**
+   * Get a directory entry, fetching it from users.info when missing or stale
+   */
+  async getUser(userId: string): Promise<SlackUser | null> {
+    const existing = await db.slackUser.findUnique({ where: { slackId: userId } })
+
+    if (existing && Date.now() - existing.syncedAt.getTime() < PROFILE_STALE_MS) {
+      return existing
+    }
+
+    const profile = await this.fetchUserInfo(userId)
+    if (!profile) {
+      // Keep serving the stale entry rather than losing the name
+      return existing
+    }
+
+    return this.upsertUser(profile)
+  }
+
+  /**
+   * Sync the whole workspace directory from users.list
+   * @returns number of users stored
+   */
+  async syncAllUsers(): Promise<number> {
+    const token = this.getBotToken()
+    if (!token) {
+      throw new Error('SLACK_BOT_TOKEN environment variable is required')
+    }
+
+    let cursor: string | undefined
+    let synced = 0
+
+    do {
+      const params = new URLSearchParams({
+        limit: USERS_LIST_PAGE_SIZE.toString(),
+        ...(cursor && { cursor })
+      })
+
+      const response = await fetch(`${SLACK_API_URL}/users.list?${params}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+      const data: SlackUsersListResponse = await response.json()
+
+      if (!data.ok) {
+        throw new Error(`Slack users.list failed: ${data.error || response.statusText}`)
+      }
+
+      for (const member of data.members || []) {
+        await this.upsertUser(member)
+        synced++
+      }
+
+      cursor = data.response_metadata?.next_cursor || undefined
+    } while (cursor)
+
+    this.usernameCache.clear()
+    logger.info(`Synced ${synced} Slack users from users.list`)
+
+    return synced
+  }
+
+  /**
+   * Handle a user_change event - store the new profile and update that user's messages
+   */
+  async handleUserChange(profile: SlackUserInfo): Promise<number> {
+    if (!profile?.id) {
+      throw new Error('user_change event is missing the user profile')
+    }
+
+    await this.upsertUser(profile)
+    this.usernameCache.delete(profile.id)
+
+    const updated = await this.applyUsername(profile.id)
+    logger.slack(`Slack user ${profile.id} changed (${updated} messages updated)`)
+
+    return updated
+  }
+
+  /**
+   * Update whether a user's name is always masked, then rewrite their messages
+   */
+  async setNameMasked(userId: string, maskName: boolean): Promise<SlackUser> {
+    const user = await db.slackUser.update({
+      where: { slackId: userId },
+      data: { maskName }
+    })
+
+    this.usernameCache.delete(userId)
+    await this.applyUsername(userId)
+
+    return user
+  }
+
+  /**
+   * Re-evaluate masking for users whose name matches a reviewed or newly detected PII name
+   */
+  async applyMaskingForName(name: string): Promise<number> {
+    const users = await db.slackUser.findMany({
+      where: {
+        OR: [
+          { realName: { equals: name, mode: 'insensitive' } },
+          { displayName: { equals: name, mode: 'insensitive' } }
+        ]
+      },
+      select: { slackId: true }
+    })
+
+    let updated = 0
+    for (const user of users) {
+      this.usernameCache.delete(user.slackId)
+      updated += await this.applyUsername(user.slackId)
+    }
+
+    return updated
+  }
+
+  /**
+   * Backfill Message.username for every sender in the messages table
+   * @returns number of messages updated
+   */
+  async backfillMessageUsernames(): Promise<number> {
+    const senders = await db.message.findMany({
+      distinct: ['userId'],
+      select: { userId: true }
+    })
+
+    let updated = 0
+
+    for (const sender of senders) {
+      try {
+        updated += await this.applyUsername(sender.userId)
+      } catch (error) {
+        logger.error(`Failed to backfill usernames for Slack user ${sender.userId}:`, error)
+      }
+    }
+
+    logger.info(`Backfilled usernames for ${senders.length} Slack users (${updated} messages updated)`)
+    return updated
+  }
+
+  /**
+   * Write the resolved username onto all of a user's messages
+   */
+  private async applyUsername(userId: string): Promise<number> {
+    const username = await this.resolveUsername(userId)
+
+    const result = await db.message.updateMany({
+      where: {
+        userId,
+        NOT: { username }
+      },
+      data: { username }
+    })
+
+    return result.count
+  }
+
+  /**
+   * Pick the name to show for a user
+   * Masked when the user is flagged, or when the name was detected as PII and not whitelisted
+   */
+  private async getVisibleName(user: SlackUser): Promise<string> {
+    const realName = user.displayName || user.realName || user.name
+
+    if (!realName || user.maskName) {
+      return formatUsername(user.slackId)
+    }
+
+    const candidates = Array.from(new Set([user.displayName, user.realName].filter((name): name is string => Boolean(name))))
+
+    const maskingDetection = candidates.length > 0
+      ? await db.pIIDetection.findFirst({
+          where: {
+            piiType: 'NAME',
+            status: { not: 'WHITELISTED' },
+            OR: candidates.map(name => ({ originalText: { equals: name, mode: 'insensitive' as const } }))
+          },
+          select: { id: true }
+        })
+      : null
+
+    return maskingDetection ? formatUsername(user.slackId) : realName
+  }
+
+  /**
+   * Store a Slack profile in the directory
+   */
+  private async upsertUser(profile: SlackUserInfo): Promise<SlackUser> {
+    const data = {
+      name: profile.name || null,
+      realName: profile.profile?.real_name || profile.real_name || null,
+      displayName: profile.profile?.display_name || null,
+      avatarUrl: profile.profile?.image_72 || null,
+      isBot: Boolean(profile.is_bot),
+      deleted: Boolean(profile.deleted),
+      syncedAt: new Date()
+    }
+
+    return db.slackUser.upsert({
+      where: { slackId: profile.id },
+      create: { slackId: profile.id, ...data },
+      update: data
+    })
+  }
+
+  /**
+   * Fetch a single profile from users.info
+   */
+  private async fetchUserInfo(userId: string): Promise<SlackUserInfo | null> {
+    const token = this.getBotToken()
+    if (!token) {
+      return null
+    }
+
+    const response = await fetch(`${SLACK_API_URL}/users.info?${new URLSearchParams({ user: userId })}`, {
+      headers: { 'Authorization': `Bearer ${token}` }
+    })
+    const data: SlackUserInfoResponse = await response.json()
+
+    if (!data.ok || !data.user) {
+      logger.warn(`Slack users.info failed for ${userId}: ${data.error || response.statusText}`)
+      return null
+    }
+
+    return data.user
+  }
+
+  private getBotToken(): string | undefined {
+    return process.env.SLACK_BOT_TOKEN || undefined
+  }
+}
+
+// Export singleton instance
+export const slackUserDirectoryService = new SlackUserDirectoryService()
+export default slackUserDirectoryService
@@ -0,0 +1,89 @@
+/**
+ * Text Diff Utilities
+ * Word-level diff used to show how message text changed between revisions
+ * Pure functions - safe to use from both API routes and components
+ */
+
+import type { DiffSegment } from '@/types'
+
+// Guard against quadratic blow-up on very long texts
+const MAX_DIFF_TOKENS = 2000
+
+/**
+ * Split text into words while keeping the whitespace so the diff can be rendered verbatim
+ */
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || []
+
+/**
+ * Append a token to the segment list, merging with the previous segment of the same type
+ */
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string): void => {
+  const last = segments[segments.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    segments.push({ type, text })
+  }
+}
+
+/**
+ * Compute a word-level diff between two texts (longest common subsequence)
+ * @param before - Previous text
+ * @param after - New text
+ * @returns Ordered segments marked as equal, added or removed
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  if (before === after) {
+    return before ? [{ type: 'equal', text: before }] : []
+  }
+
+  const a = tokenize(before)
+  const b = tokenize(after)
+
+  // Fall back to a whole-text replacement for very large inputs
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : [])
+    ]
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const segments: DiffSegment[] = []
+  let i = 0
+  let j = 0
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, 'removed', a[i])
+      i++
+    } else {
+      pushSegment(segments, 'added', b[j])
+      j++
+    }
+  }
+
+  while (i < a.length) {
+    pushSegment(segments, 'removed', a[i++])
+  }
+
+  while (j < b.length) {
+    pushSegment(segments, 'added', b[j++])
+  }
+
+  return segments
+}
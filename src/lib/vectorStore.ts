@@ -0,0 +1,255 @@
+/**
+ * Vector Store Service
+ * Entry point for FAQ embedding storage and similarity search. Delegates to the store
+ * configured in integrationSettings.vectorStoreSettings and copies vectors between stores
+ */
+
+import { logger } from './logger'
+import { processingSettingsService, DEFAULT_SETTINGS } from './processingSettings'
+import { PineconeVectorStore } from './pinecone'
+import { PgVectorStore } from './pgvectorStore'
+import type { BaseVectorStore, MessageQueryOptions, VectorPage, VectorStore } from './vectorStoreProvider'
+import { ValidationError, VectorStoreError } from '@/types'
+import type {
+  DuplicateCheckResult,
+  FAQ,
+  MessageEmbedding,
+  MessageVectorMatch,
+  VectorIndexStats,
+  VectorMatch,
+  VectorMigrationResult,
+  VectorStoreName
+} from '@/types'
+
+/** Settings are re-read at most this often */
+const SETTINGS_CACHE_MS = 60 * 1000
+
+/** Vectors copied per page during a migration */
+const MIGRATION_BATCH_SIZE = 100
+
+/**
+ * Vector store service class
+ */
+class VectorStoreService implements VectorStore {
+  private provider: VectorStoreName | null = null
+  private providerLoadedAt = 0
+  private stores = new Map<VectorStoreName, BaseVectorStore>()
+  private migrating = false
+
+  get name(): VectorStoreName {
+    return this.provider || DEFAULT_SETTINGS.integrationSettings.vectorStoreSettings.provider
+  }
+
+  /**
+   * Name of the active store (cached briefly)
+   */
+  async getProviderName(): Promise<VectorStoreName> {
+    if (!this.provider || Date.now() - this.providerLoadedAt > SETTINGS_CACHE_MS) {
+      const settings = await processingSettingsService.getSettings()
+      this.provider = settings.integrationSettings?.vectorStoreSettings?.provider ||
+        DEFAULT_SETTINGS.integrationSettings.vectorStoreSettings.provider
+      this.providerLoadedAt = Date.now()
+    }
+    return this.provider
+  }
+
+  /**
+   * Drop the cached setting so the next call picks up saved changes
+   */
+  invalidate(): void {
+    this.provider = null
+  }
+
+  /**
+   * Active store
+   */
+  async getActiveStore(): Promise<BaseVectorStore> {
+    return this.getStore(await this.getProviderName())
+  }
+
+  /**
+   * Get or create a store instance by name
+   */
+  getStore(name: VectorStoreName): BaseVectorStore {
+    let store = this.stores.get(name)
+    if (!store) {
+      store = this.createStore(name)
+      this.stores.set(name, store)
+      logger.info(`Using ${name} vector store`)
+    }
+    return store
+  }
+
+  async storeFAQEmbedding(faq: FAQ): Promise<void> {
+    return (await this.getActiveStore()).storeFAQEmbedding(faq)
+  }
+
+  async storeFAQEmbeddingsBatch(faqs: FAQ[]): Promise<void> {
+    return (await this.getActiveStore()).storeFAQEmbeddingsBatch(faqs)
+  }
+
+  async findDuplicateFAQs(newFAQ: { question: string; answer: string; category: string }): Promise<DuplicateCheckResult> {
+    return (await this.getActiveStore()).findDuplicateFAQs(newFAQ)
+  }
+
+  async searchSimilarFAQs(
+    query: string,
+    options?: { category?: string; status?: string[]; topK?: number; minScore?: number }
+  ): Promise<VectorMatch[]> {
+    return (await this.getActiveStore()).searchSimilarFAQs(query, options)
+  }
+
+  async updateFAQEmbedding(faq: FAQ): Promise<void> {
+    return (await this.getActiveStore()).updateFAQEmbedding(faq)
+  }
+
+  async deleteFAQEmbedding(faqId: string): Promise<void> {
+    return (await this.getActiveStore()).deleteFAQEmbedding(faqId)
+  }
+
+  async deleteFAQEmbeddingsBatch(faqIds: string[]): Promise<void> {
+    return (await this.getActiveStore()).deleteFAQEmbeddingsBatch(faqIds)
+  }
+
+  async storeMessageEmbeddings(embeddings: MessageEmbedding[]): Promise<void> {
+    return (await this.getActiveStore()).storeMessageEmbeddings(embeddings)
+  }
+
+  async searchMessages(
+    query: string,
+    options?: Partial<MessageQueryOptions> & { minScore?: number }
+  ): Promise<MessageVectorMatch[]> {
+    return (await this.getActiveStore()).searchMessages(query, options)
+  }
+
+  async deleteMessageEmbeddings(ids: string[]): Promise<void> {
+    return (await this.getActiveStore()).deleteMessageEmbeddings(ids)
+  }
+
+  async getIndexStats(): Promise<VectorIndexStats> {
+    return (await this.getActiveStore()).getIndexStats()
+  }
+
+  async healthCheck(): Promise<{ isHealthy: boolean; error?: string; stats?: any }> {
+    try {
+      return await (await this.getActiveStore()).healthCheck()
+    } catch (error) {
+      return {
+        isHealthy: false,
+        error: error instanceof Error ? error.message : 'Vector store unavailable'
+      }
+    }
+  }
+
+  /**
+   * Copy every stored FAQ, message and thread vector from one store to another
+   * Vectors are copied as-is (no re-embedding); the source is left untouched so the
+   * active store can be switched once the copy has been checked
+   * Returns null when a migration is already running
+   */
+  async migrate(
+    from: VectorStoreName,
+    to: VectorStoreName,
+    options: { batchSize?: number } = {}
+  ): Promise<VectorMigrationResult | null> {
+    if (from === to) {
+      throw new ValidationError('Source and target vector stores must differ')
+    }
+    if (this.migrating) {
+      return null
+    }
+
+    this.migrating = true
+    const startTime = Date.now()
+    let copied = 0
+    let messagesCopied = 0
+    let pages = 0
+
+    try {
+      const source = this.getStore(from)
+      const target = this.getStore(to)
+      const batchSize = options.batchSize || MIGRATION_BATCH_SIZE
+
+      logger.info(`Starting vector migration from ${from} to ${to}`)
+
+      const faqs = await this.copyPages(
+        (pageToken) => source.exportEmbeddings(pageToken, batchSize),
+        (embeddings) => target.upsertEmbeddings(embeddings),
+        (total) => {
+          copied = total
+          logger.info(`Vector migration ${from} -> ${to}: copied ${total} FAQ vectors`)
+        }
+      )
+
+      const messages = await this.copyPages(
+        (pageToken) => source.exportMessageEmbeddings(pageToken, batchSize),
+        (embeddings) => target.upsertMessageEmbeddings(embeddings),
+        (total) => {
+          messagesCopied = total
+          logger.info(`Vector migration ${from} -> ${to}: copied ${total} message vectors`)
+        }
+      )
+      pages = faqs.pages + messages.pages
+    } catch (error) {
+      logger.error(`Vector migration from ${from} to ${to} failed after ${copied + messagesCopied} vectors:`, error)
+      throw new VectorStoreError(`Vector migration failed after copying ${copied + messagesCopied} vectors`, to, error)
+    } finally {
+      this.migrating = false
+    }
+
+    const result: VectorMigrationResult = {
+      from,
+      to,
+      copied,
+      messagesCopied,
+      pages,
+      durationMs: Date.now() - startTime
+    }
+
+    logger.info(`Vector migration from ${from} to ${to} completed`, result)
+    return result
+  }
+
+  /**
+   * Copy pages from an export to an upsert until the export runs out
+   */
+  private async copyPages<T>(
+    exportPage: (pageToken?: string) => Promise<VectorPage<T>>,
+    upsert: (embeddings: T[]) => Promise<void>,
+    onProgress: (copied: number) => void
+  ): Promise<{ pages: number }> {
+    let pageToken: string | undefined
+    let copied = 0
+    let pages = 0
+
+    do {
+      const page = await exportPage(pageToken)
+
+      if (page.embeddings.length > 0) {
+        await upsert(page.embeddings)
+        copied += page.embeddings.length
+        onProgress(copied)
+      }
+
+      pages++
+      pageToken = page.nextPageToken
+    } while (pageToken)
+
+    return { pages }
+  }
+
+  private createStore(name: VectorStoreName): BaseVectorStore {
+    switch (name) {
+      case 'pinecone':
+        return new PineconeVectorStore()
+      case 'pgvector':
+        return new PgVectorStore()
+      default:
+        throw new Error(`Unknown vector store: ${name}`)
+    }
+  }
+}
+
+// Export singleton instance
+export const vectorStoreService = new VectorStoreService()
+export default vectorStoreService
@@ -0,0 +1,443 @@
+/**
+ * Vector Store Abstraction
+ * FAQ embedding storage, duplicate detection and similarity search on top of
+ * a small set of backend primitives, so Pinecone and pgvector behave the same
+ */
+
+import { logger } from './logger'
+import { llmService } from './llm'
+import {
+  VectorStoreError,
+  type DuplicateCheckResult,
+  type FAQ,
+  type FAQEmbedding,
+  type MessageEmbedding,
+  type MessageVectorMatch,
+  type VectorIndexStats,
+  type VectorMatch,
+  type VectorStoreName
+} from '@/types'
+
+// Configuration constants
+const SIMILARITY_THRESHOLD = 0.85 // Minimum similarity for duplicates
+const BATCH_SIZE = 100 // Batch operations size
+const MAX_RETRIES = 3
+const RETRY_DELAY_MS = 1000
+
+/**
+ * Filters supported by every backend
+ */
+export interface VectorQueryOptions {
+  topK: number
+  category?: string
+  status?: string[]
+}
+
+/**
+ * Filters for message similarity search
+ */
+export interface MessageQueryOptions {
+  topK: number
+  channel?: string
+  after?: number // Unix seconds, inclusive
+  before?: number // Unix seconds, inclusive
+}
+
+/**
+ * One page of stored vectors, used to copy vectors between backends
+ */
+export interface VectorPage<T = FAQEmbedding> {
+  embeddings: T[]
+  nextPageToken?: string
+}
+
+/**
+ * FAQ vector store
+ */
+export interface VectorStore {
+  readonly name: VectorStoreName
+  storeFAQEmbedding(faq: FAQ): Promise<void>
+  storeFAQEmbeddingsBatch(faqs: FAQ[]): Promise<void>
+  findDuplicateFAQs(newFAQ: { question: string; answer: string; category: string }): Promise<DuplicateCheckResult>
+  searchSimilarFAQs(
+    query: string,
+    options?: { category?: string; status?: string[]; topK?: number; minScore?: number }
+  ): Promise<VectorMatch[]>
+  updateFAQEmbedding(faq: FAQ): Promise<void>
+  deleteFAQEmbedding(faqId: string): Promise<void>
+  deleteFAQEmbeddingsBatch(faqIds: string[]): Promise<void>
+  storeMessageEmbeddings(embeddings: MessageEmbedding[]): Promise<void>
+  searchMessages(query: string, options?: Partial<MessageQueryOptions> & { minScore?: number }): Promise<MessageVectorMatch[]>
+  deleteMessageEmbeddings(ids: string[]): Promise<void>
+  getIndexStats(): Promise<VectorIndexStats>
+  healthCheck(): Promise<{ isHealthy: boolean; error?: string; stats?: any }>
+}
+
+/**
+ * Base class for vector stores: embeds FAQs, applies thresholds and retries
+ * Subclasses implement storage, querying and paging against their backend
+ */
+export abstract class BaseVectorStore implements VectorStore {
+  abstract readonly name: VectorStoreName
+
+  /**
+   * Insert or replace vectors
+   */
+  abstract upsertEmbeddings(embeddings: FAQEmbedding[]): Promise<void>
+
+  /**
+   * Read one page of stored vectors (pageToken comes from the previous page)
+   */
+  abstract exportEmbeddings(pageToken?: string, limit?: number): Promise<VectorPage>
+
+  /**
+   * Nearest neighbours by cosine similarity, best match first
+   */
+  protected abstract query(vector: number[], options: VectorQueryOptions): Promise<VectorMatch[]>
+
+  /**
+   * Delete vectors by FAQ ID
+   */
+  protected abstract remove(ids: string[]): Promise<void>
+
+  /**
+   * Insert or replace message and thread vectors (kept apart from FAQ vectors)
+   */
+  abstract upsertMessageEmbeddings(embeddings: MessageEmbedding[]): Promise<void>
+
+  /**
+   * Read one page of stored message and thread vectors
+   */
+  abstract exportMessageEmbeddings(pageToken?: string, limit?: number): Promise<VectorPage<MessageEmbedding>>
+
+  /**
+   * Nearest message and thread vectors by cosine similarity, best match first
+   */
+  protected abstract queryMessages(vector: number[], options: MessageQueryOptions): Promise<MessageVectorMatch[]>
+
+  /**
+   * Delete message and thread vectors by ID
+   */
+  protected abstract removeMessages(ids: string[]): Promise<void>
+
+  abstract getIndexStats(): Promise<VectorIndexStats>
+
+  /**
+   * Connect to the backend before the first operation
+   */
+  protected async initialize(): Promise<void> {}
+
+  /**
+   * Retry logic with exponential backoff
+   */
+  protected async withRetry<T>(
+    operation: () => Promise<T>,
+    context: string
+  ): Promise<T> {
+    let lastError: Error = new Error('Unknown error')
+
+    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        return await operation()
+      } catch (error) {
+        lastError = error as Error
+        logger.warn(`${this.name} operation attempt ${attempt} failed for ${context}:`, error)
+
+        if (attempt < MAX_RETRIES) {
+          const delay = RETRY_DELAY_MS * Math.pow(2, attempt - 1)
+          await new Promise(resolve => setTimeout(resolve, delay))
+        }
+      }
+    }
+
+    throw new VectorStoreError(`${this.name} operation failed after ${MAX_RETRIES} attempts: ${context}`, this.name, lastError)
+  }
+
+  /**
+   * Store FAQ embedding
+   */
+  async storeFAQEmbedding(faq: FAQ): Promise<void> {
+    await this.initialize()
+
+    try {
+      const embedding = await this.buildEmbedding(faq)
+
+      await this.withRetry(async () => {
+        await this.upsertEmbeddings([embedding])
+      }, `store-embedding-${faq.id}`)
+
+      logger.info(`Stored FAQ embedding for: ${faq.id}`)
+    } catch (error) {
+      logger.error(`Failed to store FAQ embedding for ${faq.id}:`, error)
+      throw new VectorStoreError(`Failed to store FAQ embedding for ${faq.id}`, this.name, error)
+    }
+  }
+
+  /**
+   * Store multiple FAQ embeddings in batch
+   */
+  async storeFAQEmbeddingsBatch(faqs: FAQ[]): Promise<void> {
+    await this.initialize()
+
+    const batches = this.chunkArray(faqs, BATCH_SIZE)
+
+    for (const batch of batches) {
+      try {
+        const embeddings: FAQEmbedding[] = []
+
+        // Generate embeddings for batch
+        for (const faq of batch) {
+          try {
+            embeddings.push(await this.buildEmbedding(faq))
+          } catch (error) {
+            logger.warn(`Failed to generate embedding for FAQ ${faq.id}: ${error instanceof Error ? error.message : error}`)
+          }
+        }
+
+        // Store batch
+        if (embeddings.length > 0) {
+          await this.withRetry(async () => {
+            await this.upsertEmbeddings(embeddings)
+          }, `store-batch-${embeddings.length}-embeddings`)
+
+          logger.info(`Stored ${embeddings.length} FAQ embeddings in batch`)
+        }
+      } catch (error) {
+        logger.error('Failed to store FAQ embeddings batch:', error)
+        throw new VectorStoreError('Failed to store FAQ embeddings batch', this.name, error)
+      }
+    }
+  }
+
+  /**
+   * Find duplicate FAQs using similarity search
+   */
+  async findDuplicateFAQs(newFAQ: {
+    question: string
+    answer: string
+    category: string
+  }): Promise<DuplicateCheckResult> {
+    await this.initialize()
+
+    try {
+      const vector = await this.embed(`${newFAQ.question} ${newFAQ.answer}`)
+
+      const matches = await this.withRetry(() => this.query(vector, {
+        topK: 10,
+        category: newFAQ.category,
+        status: ['PENDING', 'APPROVED']
+      }), 'duplicate-search')
+
+      // Filter results by similarity threshold
+      const duplicates = matches.filter(match => match.score >= SIMILARITY_THRESHOLD)
+
+      return {
+        isDuplicate: duplicates.length > 0,
+        matches: duplicates
+      }
+    } catch (error) {
+      logger.error('Failed to find duplicate FAQs:', error)
+      throw new VectorStoreError('Failed to find duplicate FAQs', this.name, error)
+    }
+  }
+
+  /**
+   * Search for similar FAQs across all categories
+   */
+  async searchSimilarFAQs(
+    query: string,
+    options: {
+      category?: string
+      status?: string[]
+      topK?: number
+      minScore?: number
+    } = {}
+  ): Promise<VectorMatch[]> {
+    await this.initialize()
+
+    try {
+      const vector = await this.embed(query)
+
+      const matches = await this.withRetry(() => this.query(vector, {
+        topK: options.topK || 10,
+        category: options.category,
+        status: options.status && options.status.length > 0 ? options.status : undefined
+      }), 'similarity-search')
+
+      // Filter by minimum score
+      const minScore = options.minScore || 0.5
+      return matches.filter(match => match.score >= minScore)
+    } catch (error) {
+      logger.error('Failed to search similar FAQs:', error)
+      throw new VectorStoreError('Failed to search similar FAQs', this.name, error)
+    }
+  }
+
+  /**
+   * Update FAQ embedding (when FAQ content changes)
+   */
+  async updateFAQEmbedding(faq: FAQ): Promise<void> {
+    await this.initialize()
+
+    try {
+      const embedding = await this.buildEmbedding(faq)
+
+      await this.withRetry(async () => {
+        await this.upsertEmbeddings([embedding])
+      }, `update-embedding-${faq.id}`)
+
+      logger.info(`Updated FAQ embedding for: ${faq.id}`)
+    } catch (error) {
+      logger.error(`Failed to update FAQ embedding for ${faq.id}:`, error)
+      throw new VectorStoreError(`Failed to update FAQ embedding for ${faq.id}`, this.name, error)
+    }
+  }
+
+  /**
+   * Delete FAQ embedding from index
+   */
+  async deleteFAQEmbedding(faqId: string): Promise<void> {
+    await this.initialize()
+
+    try {
+      await this.withRetry(() => this.remove([faqId]), `delete-embedding-${faqId}`)
+
+      logger.info(`Deleted FAQ embedding for: ${faqId}`)
+    } catch (error) {
+      logger.error(`Failed to delete FAQ embedding for ${faqId}:`, error)
+      throw new VectorStoreError(`Failed to delete FAQ embedding for ${faqId}`, this.name, error)
+    }
+  }
+
+  /**
+   * Delete multiple FAQ embeddings
+   */
+  async deleteFAQEmbeddingsBatch(faqIds: string[]): Promise<void> {
+    await this.initialize()
+
+    const batches = this.chunkArray(faqIds, BATCH_SIZE)
+
+    for (const batch of batches) {
+      try {
+        await this.withRetry(() => this.remove(batch), `delete-batch-${batch.length}-embeddings`)
+
+        logger.info(`Deleted ${batch.length} FAQ embeddings in batch`)
+      } catch (error) {
+        logger.error('Failed to delete FAQ embeddings batch:', error)
+        throw new VectorStoreError('Failed to delete FAQ embeddings batch', this.name, error)
+      }
+    }
+  }
+
+  /**
+   * Store message and thread embeddings (vectors are computed by the caller from redacted text)
+   */
+  async storeMessageEmbeddings(embeddings: MessageEmbedding[]): Promise<void> {
+    await this.initialize()
+
+    for (const batch of this.chunkArray(embeddings, BATCH_SIZE)) {
+      await this.withRetry(() => this.upsertMessageEmbeddings(batch), `store-${batch.length}-message-embeddings`)
+    }
+  }
+
+  /**
+   * Search message and thread embeddings
+   */
+  async searchMessages(
+    query: string,
+    options: Partial<MessageQueryOptions> & { minScore?: number } = {}
+  ): Promise<MessageVectorMatch[]> {
+    await this.initialize()
+
+    try {
+      const vector = await this.embed(query)
+
+      const matches = await this.withRetry(() => this.queryMessages(vector, {
+        topK: options.topK || 50,
+        channel: options.channel,
+        after: options.after,
+        before: options.before
+      }), 'message-search')
+
+      const minScore = options.minScore || 0.5
+      return matches.filter(match => match.score >= minScore)
+    } catch (error) {
+      logger.error('Failed to search message embeddings:', error)
+      throw new VectorStoreError('Failed to search message embeddings', this.name, error)
+    }
+  }
+
+  /**
+   * Delete message and thread embeddings
+   */
+  async deleteMessageEmbeddings(ids: string[]): Promise<void> {
+    await this.initialize()
+
+    for (const batch of this.chunkArray(ids, BATCH_SIZE)) {
+      await this.withRetry(() => this.removeMessages(batch), `delete-${batch.length}-message-embeddings`)
+    }
+  }
+
+  /**
+   * Check service health
+   */
+  async healthCheck(): Promise<{
+    isHealthy: boolean
+    error?: string
+    stats?: any
+  }> {
+    try {
+      await this.initialize()
+      const stats = await this.getIndexStats()
+
+      return {
+        isHealthy: true,
+        stats: { store: this.name, ...stats }
+      }
+    } catch (error) {
+      return {
+        isHealthy: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * Embed text with the configured embedding provider
+   */
+  private async embed(text: string): Promise<number[]> {
+    const embeddingResponse = await llmService.generateEmbedding(text)
+
+    if (!embeddingResponse.success || !embeddingResponse.data) {
+      throw new Error(`Failed to generate embedding: ${embeddingResponse.error}`)
+    }
+
+    return embeddingResponse.data
+  }
+
+  /**
+   * Embedding record for an FAQ
+   */
+  private async buildEmbedding(faq: FAQ): Promise<FAQEmbedding> {
+    return {
+      id: faq.id,
+      values: await this.embed(`${faq.question} ${faq.answer}`),
+      metadata: {
+        category: faq.category,
+        status: faq.status,
+        question: faq.question.substring(0, 200) // Limit metadata size
+      }
+    }
+  }
+
+  /**
+   * Utility function to chunk arrays for batch operations
+   */
+  protected chunkArray<T>(array: T[], size: number): T[][] {
+    const chunks: T[][] = []
+    for (let i = 0; i < array.length; i += size) {
+      chunks.push(array.slice(i, i + size))
+    }
+    return chunks
+  }
+}
@@ -1,22 +1,25 @@
 /**
  * Custom App Component
- * Initializes pages with theme provider and imports global CSS
+ * Initializes pages with theme and auth providers and imports global CSS
  */
 
 import '@/styles/globals.css'
 import type { AppProps } from 'next/app'
 import { ErrorBoundary } from '@/components/ErrorBoundary'
 import { ThemeProvider } from '@/contexts/ThemeContext'
+import { AuthProvider } from '@/contexts/AuthContext'
 import { Toaster } from 'react-hot-toast'
 
 /**
- * Custom App component that wraps all pages with theme provider
+ * Custom App component that wraps all pages with theme and auth providers
  */
 export default function App({ Component, pageProps }: AppProps): JSX.Element {
   return (
     <ErrorBoundary>
       <ThemeProvider defaultTheme="system">
-        <Component {...pageProps} />
+        <AuthProvider>
+          <Component {...pageProps} />
+        </AuthProvider>
         <Toaster
           position="top-right"
           toastOptions={{
@@ -0,0 +1,152 @@
+/**
+ * User Management Page
+ * Lets admins see who has signed in and assign dashboard roles
+ */
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { NextPage } from 'next'
+import Head from 'next/head'
+import toast from 'react-hot-toast'
+import { RefreshCw, Users } from 'lucide-react'
+import { Header } from '@/components/Header'
+import { ErrorBoundary } from '@/components/ErrorBoundary'
+import { useAuth } from '@/contexts/AuthContext'
+import { UserRole, type AuthUser } from '@/types'
+
+type ManagedUser = AuthUser & { lastLoginAt: string | null }
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.VIEWER]: 'Viewer',
+  [UserRole.CURATOR]: 'Curator',
+  [UserRole.PII_REVIEWER]: 'PII reviewer',
+  [UserRole.ADMIN]: 'Admin'
+}
+
+/**
+ * User management page component
+ */
+const UsersPage: NextPage = () => {
+  const { user: currentUser, hasRole } = useAuth()
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const isAdmin = hasRole(UserRole.ADMIN)
+
+  /**
+   * Load all users
+   */
+  const fetchUsers = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch('/api/auth/users')
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load users')
+      }
+
+      setUsers(result.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchUsers()
+    }
+  }, [isAdmin, fetchUsers])
+
+  /**
+   * Change a user's role
+   */
+  const updateRole = async (id: string, role: UserRole) => {
+    try {
+      const response = await fetch('/api/auth/users', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, role })
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update role')
+      }
+
+      setUsers(prev => prev.map(u => (u.id === id ? { ...u, role: result.data.role } : u)))
+      toast.success(result.message)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update role')
+    }
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Users - SF Listen Bot</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors">
+        <Header isConnected={true} />
+
+        <main className="max-w-5xl mx-auto px-4 py-6">
+          <ErrorBoundary>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <Users className="w-5 h-5 text-gray-500" />
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Users</h2>
+              </div>
+              {isAdmin && (
+                <button
+                  onClick={fetchUsers}
+                  className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  title="Refresh"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            {!isAdmin ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Only admins can manage users.</p>
+            ) : error ? (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            ) : isLoading ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+            ) : (
+              <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                {users.map(user => (
+                  <div key={user.id} className="flex items-center justify-between gap-4 p-3">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{user.name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {user.email || user.slackUserId}
+                        {user.lastLoginAt && ` · last sign-in ${new Date(user.lastLoginAt).toLocaleString()}`}
+                      </div>
+                    </div>
+                    <select
+                      value={user.role}
+                      onChange={(e) => updateRole(user.id, e.target.value as UserRole)}
+                      disabled={user.id === currentUser?.id}
+                      className="text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+                    >
+                      {Object.values(UserRole).map(role => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ErrorBoundary>
+        </main>
+      </div>
+    </>
+  )
+}
+
+export default UsersPage
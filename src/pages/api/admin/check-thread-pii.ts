@@ -2,7 +2,9 @@ import type { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { piiDetectorService } from '@/lib/piiDetector'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
 import type { PIISourceType } from '@/types'
+import { UserRole } from '@/types'
 
 interface ThreadPIIResult {
   success: boolean
@@ -27,7 +29,7 @@ interface ThreadPIIResult {
  * Admin endpoint to check and re-run PII detection on thread replies
  * This helps diagnose why new thread messages aren't getting PII detection
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ThreadPIIResult>
 ) {
@@ -155,4 +157,6 @@ export default async function handler(
       error: error instanceof Error ? error.message : 'Unknown error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
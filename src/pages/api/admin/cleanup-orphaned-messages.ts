@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
+import { UserRole } from '@/types'
 
 interface CleanupResult {
   success: boolean
@@ -21,7 +23,7 @@ interface CleanupResult {
  * Admin endpoint to clean up orphaned messages
  * Messages that were deleted in Slack but still exist in our database
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<CleanupResult>
 ) {
@@ -143,4 +145,6 @@ export default async function handler(
       error: error instanceof Error ? error.message : 'Unknown error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
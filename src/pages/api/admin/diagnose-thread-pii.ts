@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
+import { UserRole } from '@/types'
 
 interface DiagnoseResult {
   success: boolean
@@ -33,7 +35,7 @@ interface DiagnoseResult {
 /**
  * Comprehensive diagnostic endpoint for thread reply PII issues
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<DiagnoseResult>
 ) {
@@ -139,4 +141,6 @@ export default async function handler(
       error: error instanceof Error ? error.message : 'Unknown error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
@@ -6,11 +6,14 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
-import { retryFailedEvents, getEventStats } from '@/lib/eventProcessor'
+import { retryFailedEvents, replayEvent, discardEvent, getEventStats } from '@/lib/eventProcessor'
+import { withAuth } from '@/lib/auth'
+import { ValidationError, UserRole } from '@/types'
 import type { ApiResponse } from '@/types'
 
 interface EventsQuery {
-  action?: 'stats' | 'retry' | 'list'
+  action?: 'stats' | 'retry' | 'replay' | 'discard' | 'list'
+  id?: string
   status?: string
   limit?: string
   page?: string
@@ -19,12 +22,12 @@ interface EventsQuery {
 /**
  * Admin events handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse>
 ): Promise<void> {
 
-  const { action = 'stats', status, limit = '50', page = '1' }: EventsQuery = req.query
+  const { action = 'stats', id, status, limit = '50', page = '1' }: EventsQuery = req.query
 
   try {
     console.log(`🔍 Admin API called with action: ${action}`)
@@ -49,11 +52,60 @@ export default async function handler(
           })
         }
 
-        await retryFailedEvents()
+        const retrySummary = await retryFailedEvents()
         
         return res.status(200).json({
           success: true,
-          message: 'Failed events retry initiated'
+          data: retrySummary,
+          message: `Retried ${retrySummary.retried} failed events`
+        })
+
+      case 'replay':
+      case 'discard':
+        if (req.method !== 'POST') {
+          return res.status(405).json({
+            success: false,
+            error: `Method not allowed for ${action} action`
+          })
+        }
+
+        if (!id) {
+          return res.status(400).json({
+            success: false,
+            error: 'Event id is required'
+          })
+        }
+
+        if (action === 'replay') {
+          const replayResult = await replayEvent(id)
+
+          if (!replayResult) {
+            return res.status(404).json({
+              success: false,
+              error: 'Event not found'
+            })
+          }
+
+          return res.status(200).json({
+            success: true,
+            data: {
+              result: replayResult.result,
+              error: replayResult.error?.message
+            },
+            message: `Event replayed: ${replayResult.result}`
+          })
+        }
+
+        if (!(await discardEvent(id))) {
+          return res.status(404).json({
+            success: false,
+            error: 'Event not found'
+          })
+        }
+
+        return res.status(200).json({
+          success: true,
+          message: 'Event discarded'
         })
 
       case 'list':
@@ -82,7 +134,8 @@ export default async function handler(
             errorMessage: true,
             channel: true,
             createdAt: true,
-            lastAttemptAt: true
+            lastAttemptAt: true,
+            nextRetryAt: true
           }
         })
 
@@ -110,11 +163,18 @@ export default async function handler(
       default:
         return res.status(400).json({
           success: false,
-          error: 'Invalid action. Use: stats, retry, or list'
+          error: 'Invalid action. Use: stats, retry, replay, discard, or list'
         })
     }
 
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
     logger.error('Admin events API error:', error)
     
     return res.status(500).json({
@@ -130,4 +190,8 @@ export default async function handler(
  * GET /api/admin/events?action=stats
  * GET /api/admin/events?action=list&status=FAILED&limit=20&page=1
  * POST /api/admin/events?action=retry
- */ 
\ No newline at end of file
+ * POST /api/admin/events?action=replay&id=<eventId>
+ * POST /api/admin/events?action=discard&id=<eventId>
+ */
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
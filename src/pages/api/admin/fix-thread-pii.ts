@@ -2,7 +2,9 @@ import type { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { piiDetectorService } from '@/lib/piiDetector'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
 import type { PIISourceType } from '@/types'
+import { UserRole } from '@/types'
 
 interface FixResult {
   success: boolean
@@ -21,7 +23,7 @@ interface FixResult {
 /**
  * Fix PII detection for thread replies that missed it
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<FixResult>
 ) {
@@ -125,4 +127,6 @@ export default async function handler(
       error: error instanceof Error ? error.message : 'Unknown error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { processSlackEvent } from '@/lib/eventProcessor'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
+import { UserRole } from '@/types'
 
 interface TestResult {
   success: boolean
@@ -13,7 +15,7 @@ interface TestResult {
  * Test endpoint to simulate thread reply deletion events
  * This helps verify our deletion handling works correctly
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<TestResult>
 ) {
@@ -70,4 +72,6 @@ export default async function handler(
       error: error instanceof Error ? error.message : 'Unknown error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
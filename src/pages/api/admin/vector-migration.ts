@@ -0,0 +1,117 @@
+/**
+ * Vector Store Migration API Endpoint
+ * Shows the active vector store with per-store statistics
+ * and copies stored FAQ vectors from one store to another
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { vectorStoreService } from '@/lib/vectorStore'
+import { withAuth } from '@/lib/auth'
+import { ApiResponse, ValidationError, VectorStoreError, UserRole, type VectorStoreName } from '@/types'
+
+const VECTOR_STORES: VectorStoreName[] = ['pinecone', 'pgvector']
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGetStatus(req, res)
+      case 'POST':
+        return await handleMigrate(req, res)
+      default:
+        res.setHeader('Allow', ['GET', 'POST'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    if (error instanceof VectorStoreError) {
+      return res.status(502).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    logger.error('Vector migration API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/admin/vector-migration - Active store and statistics for every store
+ * A store that is not configured reports its error instead of failing the request
+ */
+async function handleGetStatus(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const stores = await Promise.all(VECTOR_STORES.map(async name => {
+    try {
+      const stats = await vectorStoreService.getStore(name).getIndexStats()
+      return { name, available: true, stats }
+    } catch (error) {
+      return {
+        name,
+        available: false,
+        error: error instanceof Error ? error.message : 'Vector store unavailable'
+      }
+    }
+  }))
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      active: await vectorStoreService.getProviderName(),
+      stores
+    }
+  })
+}
+
+/**
+ * Handle POST /api/admin/vector-migration - Copy all vectors between stores
+ * Body: { from, to, batchSize? } - the active store is not switched
+ */
+async function handleMigrate(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { from, to, batchSize } = req.body || {}
+
+  if (!VECTOR_STORES.includes(from)) {
+    throw new ValidationError(`from must be one of: ${VECTOR_STORES.join(', ')}`, 'from')
+  }
+  if (!VECTOR_STORES.includes(to)) {
+    throw new ValidationError(`to must be one of: ${VECTOR_STORES.join(', ')}`, 'to')
+  }
+  if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > 1000)) {
+    throw new ValidationError('batchSize must be an integer between 1 and 1000', 'batchSize')
+  }
+
+  const result = await vectorStoreService.migrate(from, to, { batchSize })
+  if (!result) {
+    return res.status(409).json({
+      success: false,
+      error: 'A vector migration is already in progress'
+    })
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: result,
+    message: `Copied ${result.copied} FAQ and ${result.messagesCopied} message vectors from ${from} to ${to}`
+  })
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
@@ -0,0 +1,71 @@
+/**
+ * Session API Endpoint
+ * Returns the signed-in user and signs out
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { authService } from '@/lib/auth'
+import { ApiResponse, AuthError, AuthUser } from '@/types'
+
+/**
+ * Main API handler
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<AuthUser | { signInAvailable: boolean }>>
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGetSession(req, res)
+      case 'DELETE':
+        return await handleSignOut(req, res)
+      default:
+        res.setHeader('Allow', ['GET', 'DELETE'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    logger.error('Session API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/auth/session - The signed-in user, or 401 with whether Slack sign-in is configured
+ */
+async function handleGetSession(req: NextApiRequest, res: NextApiResponse<ApiResponse<AuthUser | { signInAvailable: boolean }>>) {
+  try {
+    const user = await authService.authenticate(req)
+    return res.status(200).json({
+      success: true,
+      data: user
+    })
+  } catch (error) {
+    if (!(error instanceof AuthError)) throw error
+
+    return res.status(401).json({
+      success: false,
+      data: { signInAvailable: authService.isConfigured() },
+      error: error.message
+    })
+  }
+}
+
+/**
+ * Handle DELETE /api/auth/session - Sign out
+ */
+async function handleSignOut(req: NextApiRequest, res: NextApiResponse<ApiResponse<AuthUser | { signInAvailable: boolean }>>) {
+  await authService.signOut(req, res)
+
+  return res.status(200).json({
+    success: true,
+    message: 'Signed out'
+  })
+}
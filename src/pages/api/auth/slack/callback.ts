@@ -0,0 +1,29 @@
+/**
+ * Slack Sign-In Callback Endpoint
+ * Completes the OpenID Connect flow, creates a session and returns to the dashboard
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { authService } from '@/lib/auth'
+
+/**
+ * Handle GET /api/auth/slack/callback?code=...&state=...
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    })
+  }
+
+  try {
+    const returnTo = await authService.completeSignIn(req, res)
+    return res.redirect(302, returnTo)
+  } catch (error) {
+    logger.error('Slack sign-in callback failed:', error)
+    return res.redirect(302, `/login?error=${encodeURIComponent(error instanceof Error ? error.message : 'Sign-in failed')}`)
+  }
+}
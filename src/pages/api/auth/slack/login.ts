@@ -0,0 +1,29 @@
+/**
+ * Slack Sign-In Endpoint
+ * Redirects the browser to Slack's OpenID Connect consent screen
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { authService } from '@/lib/auth'
+
+/**
+ * Handle GET /api/auth/slack/login?returnTo=/path
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    })
+  }
+
+  try {
+    const returnTo = typeof req.query.returnTo === 'string' ? req.query.returnTo : undefined
+    return res.redirect(302, authService.beginSignIn(res, returnTo))
+  } catch (error) {
+    logger.error('Failed to start Slack sign-in:', error)
+    return res.redirect(302, `/login?error=${encodeURIComponent(error instanceof Error ? error.message : 'Sign-in failed')}`)
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Users API Endpoint
+ * Lets admins list dashboard users and change their roles
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { authService, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, UserRole, ValidationError } from '@/types'
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleListUsers(req, res)
+      case 'PATCH':
+        return await handleUpdateRole(req, res, user)
+      default:
+        res.setHeader('Allow', ['GET', 'PATCH'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    logger.error('Users API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/auth/users - List users
+ */
+async function handleListUsers(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const users = await authService.listUsers()
+
+  return res.status(200).json({
+    success: true,
+    data: users
+  })
+}
+
+/**
+ * Handle PATCH /api/auth/users - Change a user's role
+ * Body: { id, role }
+ */
+async function handleUpdateRole(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  actor: AuthContext['user']
+) {
+  const { id, role } = req.body || {}
+
+  if (!id || typeof id !== 'string') {
+    throw new ValidationError('id is required', 'id')
+  }
+
+  const updated = await authService.updateRole(id, role, actor)
+
+  return res.status(200).json({
+    success: true,
+    data: updated,
+    message: `${updated.name} is now ${updated.role}`
+  })
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
@@ -0,0 +1,68 @@
+/**
+ * Curation Activity API Endpoint
+ * Feed of curation actions: message additions and removals, FAQ reviews and edits,
+ * PII reviews, selections and merges
+ *
+ * - GET /api/curation/activity - Newest first
+ *   Query: userId?, targetId?, targetType?, activityType?, before?, limit?
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { curationActivityService } from '@/lib/curationActivity'
+import { withAuth } from '@/lib/auth'
+import { ActivityTargetType, ActivityType, ApiResponse, UserRole, ValidationError } from '@/types'
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    })
+  }
+
+  const { userId, targetId, targetType, activityType, before, limit = '50' } = req.query
+  const param = (value: string | string[] | undefined) => typeof value === 'string' && value ? value : undefined
+
+  try {
+    const [page, actors] = await Promise.all([
+      curationActivityService.listActivities({
+        userId: param(userId),
+        targetId: param(targetId),
+        targetType: param(targetType) as ActivityTargetType | undefined,
+        activityType: param(activityType) as ActivityType | undefined,
+        before: param(before),
+        limit: parseInt(limit as string) || undefined
+      }),
+      // The user filter only needs loading with the first page
+      param(before) ? Promise.resolve(undefined) : curationActivityService.listActors()
+    ])
+
+    return res.status(200).json({
+      success: true,
+      data: { ...page, actors }
+    })
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    logger.error('Curation activity API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    })
+  }
+}
+
+export default withAuth(handler, { roles: [UserRole.CURATOR, UserRole.PII_REVIEWER] })
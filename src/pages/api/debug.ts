@@ -5,6 +5,8 @@
 
 import type { NextApiRequest, NextApiResponse } from 'next'
 import type { ApiResponse } from '@/types'
+import { withAuth } from '@/lib/auth'
+import { UserRole } from '@/types'
 
 interface DebugInfo {
   environment: string
@@ -26,7 +28,7 @@ interface DebugInfo {
 /**
  * Debug information handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<DebugInfo>>
 ): Promise<void> {
@@ -84,4 +86,6 @@ export default async function handler(
       error: error instanceof Error ? error.message : 'Debug endpoint failed'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
@@ -1,13 +1,15 @@
 /**
  * Individual Document API Endpoint
- * Handles GET, PUT, and DELETE operations for specific documents
+ * Handles GET, PUT, PATCH, and DELETE operations for specific documents
  * Provides complete document data with source messages and generated FAQs
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
-import { ApiResponse, DocumentDisplay, MessageDisplay, FAQDisplay } from '@/types'
+import { messageRevisionService } from '@/lib/messageRevisions'
+import { withAuth } from '@/lib/auth'
+import { ApiResponse, DocumentDisplay, MessageDisplay, FAQDisplay, UserRole } from '@/types'
 
 interface DocumentDetailResponse {
   document?: DocumentDisplay // Make optional since we're returning DocumentDisplay directly
@@ -38,7 +40,13 @@ async function handleGetDocument(
       include: {
         documentMessages: {
           include: {
-            message: true
+            message: {
+              include: {
+                _count: {
+                  select: { revisions: true }
+                }
+              }
+            }
           },
           orderBy: {
             addedAt: 'asc'
@@ -94,6 +102,8 @@ async function handleGetDocument(
           parentMessageId: msg.parentMessageId,
           createdAt: msg.createdAt,
           updatedAt: msg.updatedAt,
+          editedAt: msg.editedAt,
+          deletedAt: msg.deletedAt,
           timeAgo: getTimeAgo(msg.timestamp),
           channelName: msg.channel, // Using channel as channelName
           parentMessage: null, // TODO: Implement if needed
@@ -112,7 +122,9 @@ async function handleGetDocument(
           piiPendingReview: 0,
           piiWhitelisted: 0,
           piiAutoReplaced: 0,
-          piiDetections: []
+          piiDetections: [],
+          // Edit history information
+          revisionCount: msg._count?.revisions || 0
         }
       })
 
@@ -147,6 +159,10 @@ async function handleGetDocument(
       automationJobId: document.automationJobId,
       confidenceScore: document.confidenceScore,
       createdBy: document.createdBy,
+      sourcesStale: document.sourcesStale,
+      sourcesStaleAt: document.sourcesStaleAt,
+      mergedIntoId: document.mergedIntoId,
+      mergedAt: document.mergedAt,
       messageCount: document.documentMessages.length,
       faqCount: document.documentFAQs.length,
       participantCount: participants.length,
@@ -234,6 +250,8 @@ async function handleUpdateDocument(
       automationJobId: updatedDocument.automationJobId,
       confidenceScore: updatedDocument.confidenceScore,
       createdBy: updatedDocument.createdBy,
+      sourcesStale: updatedDocument.sourcesStale,
+      sourcesStaleAt: updatedDocument.sourcesStaleAt,
       messageCount: updatedDocument.documentMessages.length,
       faqCount: 0, // TODO: Include FAQ count if needed
       participantCount: participants.length,
@@ -259,6 +277,58 @@ async function handleUpdateDocument(
   }
 }
 
+/**
+ * Handle PATCH request - Mark edited source messages as reviewed
+ * Body: { sourcesStale: false }
+ */
+async function handleMarkSourcesReviewed(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<{ sourcesStale: boolean }>>
+) {
+  try {
+    const { id } = req.query
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Document ID is required'
+      })
+    }
+
+    if (req.body?.sourcesStale !== false) {
+      return res.status(400).json({
+        success: false,
+        error: 'Only { sourcesStale: false } is supported'
+      })
+    }
+
+    const existing = await db.processedDocument.findUnique({ where: { id }, select: { id: true } })
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      })
+    }
+
+    await messageRevisionService.markDocumentSourcesReviewed(id)
+
+    logger.info(`Document ${id} sources marked as reviewed`)
+
+    return res.status(200).json({
+      success: true,
+      data: { sourcesStale: false },
+      message: 'Sources marked as reviewed'
+    })
+
+  } catch (error) {
+    logger.error('Error marking document sources as reviewed:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update document'
+    })
+  }
+}
+
 /**
  * Handle DELETE request - Delete document and related data
  */
@@ -342,7 +412,7 @@ function getTimeAgo(date: Date): string {
 /**
  * Main API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<any>>
 ) {
@@ -355,12 +425,15 @@ export default async function handler(
         
       case 'PUT':
         return await handleUpdateDocument(req, res)
+
+      case 'PATCH':
+        return await handleMarkSourcesReviewed(req, res)
         
       case 'DELETE':
         return await handleDeleteDocument(req, res)
         
       default:
-        res.setHeader('Allow', ['GET', 'PUT', 'DELETE'])
+        res.setHeader('Allow', ['GET', 'PUT', 'PATCH', 'DELETE'])
         return res.status(405).json({
           success: false,
           error: `Method ${method} not allowed`
@@ -373,4 +446,6 @@ export default async function handler(
       error: 'Internal server error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
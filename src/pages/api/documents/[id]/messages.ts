@@ -0,0 +1,76 @@
+/**
+ * Document Messages API Endpoint
+ *
+ * - DELETE /api/documents/[id]/messages - Remove messages from a document
+ *   Body: { messageIds, reason? }
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { documentProcessorService } from '@/lib/documentProcessor'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, UserRole } from '@/types'
+
+/**
+ * Handle /api/documents/[id]/messages
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
+) {
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', ['DELETE'])
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    })
+  }
+
+  const { id } = req.query
+  const { messageIds, reason } = req.body || {}
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Document ID is required'
+    })
+  }
+
+  if (!Array.isArray(messageIds) || messageIds.length === 0 || messageIds.some(messageId => typeof messageId !== 'string')) {
+    return res.status(400).json({
+      success: false,
+      error: 'messageIds must be a non-empty list of message IDs'
+    })
+  }
+
+  try {
+    const removed = await documentProcessorService.removeMessagesFromDocument(
+      id,
+      messageIds,
+      typeof reason === 'string' && reason.trim() ? reason.trim() : undefined,
+      getUserLabel(user)
+    )
+
+    if (removed === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'None of these messages are part of the document'
+      })
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { removed },
+      message: `Removed ${removed} message${removed === 1 ? '' : 's'} from the document`
+    })
+  } catch (error) {
+    logger.error('Failed to remove messages from document:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to remove messages'
+    })
+  }
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
@@ -0,0 +1,155 @@
+/**
+ * Backlog Processing API Endpoint
+ * Turns every unprocessed message into documents with a resumable background run
+ *
+ * - GET /api/documents/backlog - Recent runs, newest first
+ * - GET /api/documents/backlog?id=... - Progress of one run
+ * - POST /api/documents/backlog - Start a run, or estimate it with dryRun
+ * - DELETE /api/documents/backlog?id=... - Cancel a run
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { backlogProcessorService } from '@/lib/backlogProcessor'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, BacklogRunError, BacklogRunOptions, UserRole, ValidationError } from '@/types'
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGetRuns(req, res)
+      case 'POST':
+        return await handleStartRun(req, res, getUserLabel(user))
+      case 'DELETE':
+        return await handleCancelRun(req, res)
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'DELETE'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    if (error instanceof BacklogRunError && error.code === 'RUN_IN_PROGRESS') {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+        data: { runId: error.runId }
+      })
+    }
+
+    logger.error('Backlog processing API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/documents/backlog - One run by id, or the most recent runs
+ * Query: id?, limit?
+ */
+async function handleGetRuns(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { id, limit = '10' } = req.query
+
+  if (typeof id === 'string') {
+    const run = await backlogProcessorService.getRun(id)
+
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: 'Backlog run not found'
+      })
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { run }
+    })
+  }
+
+  const runs = await backlogProcessorService.listRuns(Math.min(50, Math.max(1, parseInt(limit as string) || 10)))
+
+  return res.status(200).json({
+    success: true,
+    data: { runs }
+  })
+}
+
+/**
+ * Handle POST /api/documents/backlog - Start a run
+ * Body: { dryRun?, channels?, segmentation?, concurrency? }
+ * With dryRun, nothing is created and the estimated documents and LLM calls are returned
+ */
+async function handleStartRun(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  userId: string
+) {
+  const { dryRun = false, channels, segmentation, concurrency } = req.body || {}
+  const options: BacklogRunOptions = { channels, segmentation, concurrency }
+
+  if (dryRun) {
+    const estimate = await backlogProcessorService.estimate(options)
+
+    return res.status(200).json({
+      success: true,
+      data: { estimate },
+      message: `${estimate.totalMessages} messages would become about ${estimate.documents} documents using ${estimate.llmCalls} LLM calls`
+    })
+  }
+
+  const run = await backlogProcessorService.startRun(options, userId)
+
+  return res.status(202).json({
+    success: true,
+    data: { run },
+    message: `Backlog run started for ${run.totalMessages} unprocessed messages`
+  })
+}
+
+/**
+ * Handle DELETE /api/documents/backlog?id=... - Cancel a queued or running run
+ */
+async function handleCancelRun(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'id is required'
+    })
+  }
+
+  const cancelled = await backlogProcessorService.cancelRun(id)
+
+  if (!cancelled) {
+    return res.status(404).json({
+      success: false,
+      error: 'Backlog run not found or not active'
+    })
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Backlog run cancelled'
+  })
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
@@ -8,6 +8,7 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { documentProcessorService } from '@/lib/documentProcessor'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
 import { 
   ApiResponse, 
   PaginatedDocuments, 
@@ -15,22 +16,24 @@ import {
   DocumentFilters,
   DocumentProcessingInput,
   ValidationError,
-  DatabaseError
+  DatabaseError,
+  UserRole
 } from '@/types'
 
 /**
  * Documents API handler with full CRUD support
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<any>>
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
 ) {
   try {
     switch (req.method) {
       case 'GET':
         return await handleGetDocuments(req, res)
       case 'POST':
-        return await handleCreateDocument(req, res)
+        return await handleCreateDocument(req, res, getUserLabel(user))
       case 'PUT':
         return await handleUpdateDocument(req, res)
       case 'DELETE':
@@ -80,7 +83,8 @@ async function handleGetDocuments(
     const where: any = {}
 
     if (category) where.category = category
-    if (status) where.status = status
+    // Documents archived by a merge only show up when asked for
+    where.status = status || { not: 'ARCHIVED' }
     if (createdBy) where.createdBy = createdBy
     if (minConfidence) where.confidenceScore = { gte: parseFloat(minConfidence.toString()) }
     
@@ -130,6 +134,8 @@ async function handleGetDocuments(
           category: doc.category,
           status: doc.status,
           automationJobId: doc.automationJobId,
+          sourcesStale: doc.sourcesStale,
+          sourcesStaleAt: doc.sourcesStaleAt,
           confidenceScore: doc.confidenceScore,
           createdBy: doc.createdBy,
           createdAt: doc.createdAt,
@@ -177,10 +183,11 @@ async function handleGetDocuments(
  */
 async function handleCreateDocument(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<{ documentId: string }>>
+  res: NextApiResponse<ApiResponse<{ documentId: string }>>,
+  userId: string
 ) {
   try {
-    const { messageIds, title, category, userId } = req.body as DocumentProcessingInput
+    const { messageIds, title, category } = req.body as DocumentProcessingInput
 
     // Validate required fields
     if (!messageIds || !Array.isArray(messageIds) || messageIds.length === 0) {
@@ -273,6 +280,8 @@ async function handleUpdateDocument(
       category: updatedDoc.category,
       status: updatedDoc.status,
       automationJobId: updatedDoc.automationJobId,
+      sourcesStale: updatedDoc.sourcesStale,
+      sourcesStaleAt: updatedDoc.sourcesStaleAt,
       confidenceScore: updatedDoc.confidenceScore,
       createdBy: updatedDoc.createdBy,
       createdAt: updatedDoc.createdAt,
@@ -380,4 +389,6 @@ function getTimeAgo(date: Date): string {
   if (days < 365) return `${Math.floor(days / 30)}mo ago`
   
   return `${Math.floor(days / 365)}y ago`
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
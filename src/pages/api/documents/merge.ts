@@ -0,0 +1,132 @@
+/**
+ * Document Merge API Endpoint
+ * Merges documents into one surviving document, and undoes recent merges
+ *
+ * - GET /api/documents/merge?documentId=... - Merges into or out of a document, newest first
+ * - POST /api/documents/merge - Body: { targetDocumentId, sourceDocumentIds }
+ * - DELETE /api/documents/merge?id=... - Undo a merge within its undo window
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { documentMergeService } from '@/lib/documentMerge'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, DocumentMergeError, UserRole, ValidationError } from '@/types'
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGetMerges(req, res)
+      case 'POST':
+        return await handleMerge(req, res, getUserLabel(user))
+      case 'DELETE':
+        return await handleUndo(req, res, getUserLabel(user))
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'DELETE'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    if (error instanceof DocumentMergeError) {
+      return res.status(error.code === 'NOT_FOUND' ? 404 : 409).json({
+        success: false,
+        error: error.message,
+        data: { code: error.code }
+      })
+    }
+
+    logger.error('Document merge API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/documents/merge - Merges involving a document
+ * Query: documentId
+ */
+async function handleGetMerges(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { documentId } = req.query
+
+  if (!documentId || typeof documentId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'documentId is required'
+    })
+  }
+
+  const merges = await documentMergeService.listMerges(documentId)
+
+  return res.status(200).json({
+    success: true,
+    data: { merges }
+  })
+}
+
+/**
+ * Handle POST /api/documents/merge - Merge the source documents into the target
+ * Body: { targetDocumentId, sourceDocumentIds }
+ */
+async function handleMerge(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  userId: string
+) {
+  const { targetDocumentId, sourceDocumentIds } = req.body || {}
+
+  const result = await documentMergeService.mergeDocuments(targetDocumentId, sourceDocumentIds, userId)
+
+  return res.status(201).json({
+    success: true,
+    data: result,
+    message: `Merged ${result.sourceDocumentIds.length} document${result.sourceDocumentIds.length !== 1 ? 's' : ''}: ${result.messagesMoved} messages and ${result.faqsMoved} FAQs moved`
+  })
+}
+
+/**
+ * Handle DELETE /api/documents/merge - Undo a merge
+ * Query: id
+ */
+async function handleUndo(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  userId: string
+) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Merge ID is required'
+    })
+  }
+
+  const merge = await documentMergeService.undoMerge(id, userId)
+
+  return res.status(200).json({
+    success: true,
+    data: { merge },
+    message: `Restored ${merge.sourceDocumentIds.length} document${merge.sourceDocumentIds.length !== 1 ? 's' : ''}`
+  })
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
@@ -8,11 +8,22 @@ import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { backgroundJobService } from '@/lib/backgroundJobs'
 import { documentProcessorService } from '@/lib/documentProcessor'
-import { ApiResponse, DocumentDisplay, DocumentProcessingInput } from '@/types'
+import { conversationSegmenterService } from '@/lib/conversationSegmenter'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import {
+  ApiResponse,
+  ConversationSegment,
+  DocumentDisplay,
+  DocumentProcessingInput,
+  SegmentationOptions,
+  UserRole,
+  ValidationError
+} from '@/types'
 
 interface ProcessAllResponse {
   documents?: DocumentDisplay[]
   jobIds?: string[]
+  segments?: ConversationSegment[] // Only for previews
   message: string
   stats: {
     totalMessages: number
@@ -23,16 +34,20 @@ interface ProcessAllResponse {
 
 /**
  * Handle POST request - Process all unprocessed messages
+ * Body: { useBackgroundJob?, batchSize?, segmentation?: SegmentationOptions, preview? }
+ * With preview, the conversation segments are returned and no documents are created
  */
 async function handleProcessAllMessages(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<ProcessAllResponse>>
+  res: NextApiResponse<ApiResponse<ProcessAllResponse>>,
+  userId: string
 ) {
   try {
     const { 
       useBackgroundJob = false,
-      batchSize = 20, // Process messages in batches
-      options = {}
+      batchSize = 20, // Largest conversation cut from top-level chatter
+      segmentation = {},
+      preview = false
     } = req.body
 
     logger.info('Starting bulk processing of all unprocessed messages')
@@ -43,7 +58,8 @@ async function handleProcessAllMessages(
         // Messages that aren't part of any document yet
         documentMessages: {
           none: {}
-        }
+        },
+        deletedAt: null
       },
       orderBy: {
         timestamp: 'desc' // Process newest first
@@ -68,23 +84,39 @@ async function handleProcessAllMessages(
 
     logger.info(`Found ${unprocessedMessages.length} unprocessed messages`)
 
-    // Step 2: Group messages by conversation/thread for better document creation
-    const messageGroups = groupMessagesByConversation(unprocessedMessages, batchSize)
-    
-    logger.info(`Grouped into ${messageGroups.length} conversation batches`)
+    // Step 2: Split messages into conversations, keeping threads together
+    const segmentationOptions: SegmentationOptions = { maxMessages: batchSize, ...segmentation }
+    const segments = await conversationSegmenterService.segment(unprocessedMessages, segmentationOptions)
+    const totalMessages = segments.reduce((sum, segment) => sum + segment.messageIds.length, 0)
+
+    logger.info(`Segmented ${totalMessages} messages into ${segments.length} conversations`)
+
+    if (preview) {
+      return res.status(200).json({
+        success: true,
+        data: {
+          segments,
+          message: `${totalMessages} messages would become ${segments.length} documents`,
+          stats: {
+            totalMessages,
+            documentsCreated: 0,
+            messagesProcessed: 0
+          }
+        }
+      })
+    }
 
     const documents: DocumentDisplay[] = []
     const jobIds: string[] = []
     let totalProcessed = 0
 
     // Step 3: Process each group
-    for (let index = 0; index < messageGroups.length; index++) {
-      const messageGroup = messageGroups[index]
-      const messageIds = messageGroup.map((msg: any) => msg.id)
+    for (let index = 0; index < segments.length; index++) {
+      const messageIds = segments[index].messageIds
       
       const processingInput: DocumentProcessingInput = {
         messageIds,
-        userId: options.userId || 'system'
+        userId
       }
 
       if (useBackgroundJob) {
@@ -106,7 +138,7 @@ async function handleProcessAllMessages(
       if (!useBackgroundJob || jobIds.length === 0) {
         // Synchronous processing
         try {
-          logger.info(`Processing batch ${index + 1}/${messageGroups.length} (${messageIds.length} messages)`)
+          logger.info(`Processing batch ${index + 1}/${segments.length} (${messageIds.length} messages)`)
           
           const result = await documentProcessorService.processDocument(processingInput)
           
@@ -167,7 +199,7 @@ async function handleProcessAllMessages(
               data: {
                 message: `Processed ${documents.length} documents before hitting rate limits`,
                 stats: {
-                  totalMessages: unprocessedMessages.length,
+                  totalMessages,
                   documentsCreated: documents.length,
                   messagesProcessed: totalProcessed
                 },
@@ -182,17 +214,17 @@ async function handleProcessAllMessages(
       }
 
       // Add small delay between synchronous processing to prevent API overload
-      if (!useBackgroundJob && index < messageGroups.length - 1) {
+      if (!useBackgroundJob && index < segments.length - 1) {
         await new Promise(resolve => setTimeout(resolve, 1000))
       }
     }
 
     const response: ProcessAllResponse = {
       message: useBackgroundJob && jobIds.length > 0
-        ? `Started ${jobIds.length} background jobs to process ${unprocessedMessages.length} messages`
+        ? `Started ${jobIds.length} background jobs to process ${totalMessages} messages`
         : `Successfully created ${documents.length} documents from ${totalProcessed} messages`,
       stats: {
-        totalMessages: unprocessedMessages.length,
+        totalMessages,
         documentsCreated: useBackgroundJob ? 0 : documents.length, // Background jobs haven't completed yet
         messagesProcessed: totalProcessed
       }
@@ -210,6 +242,13 @@ async function handleProcessAllMessages(
     })
 
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
     logger.error('Bulk document processing failed:', error)
     return res.status(500).json({
       success: false,
@@ -218,38 +257,6 @@ async function handleProcessAllMessages(
   }
 }
 
-/**
- * Group messages by conversation/channel for better document creation
- */
-function groupMessagesByConversation(messages: any[], batchSize: number): any[][] {
-  // Group by channel and time proximity
-  const channelGroups: { [key: string]: any[] } = {}
-  
-  messages.forEach(message => {
-    const key = message.channel
-    if (!channelGroups[key]) {
-      channelGroups[key] = []
-    }
-    channelGroups[key].push(message)
-  })
-
-  const groups: any[][] = []
-  
-  // Create batches within each channel
-  Object.values(channelGroups).forEach(channelMessages => {
-    // Sort by timestamp
-    channelMessages.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
-    
-    // Create batches of batchSize
-    for (let i = 0; i < channelMessages.length; i += batchSize) {
-      const batch = channelMessages.slice(i, i + batchSize)
-      groups.push(batch)
-    }
-  })
-
-  return groups
-}
-
 /**
  * Utility function to calculate time ago
  */
@@ -276,16 +283,17 @@ function getTimeAgo(date: Date): string {
 /**
  * Main API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<any>>
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
 ) {
   const { method } = req
 
   try {
     switch (method) {
       case 'POST':
-        return await handleProcessAllMessages(req, res)
+        return await handleProcessAllMessages(req, res, getUserLabel(user))
         
       default:
         res.setHeader('Allow', ['POST'])
@@ -301,4 +309,6 @@ export default async function handler(
       error: 'Internal server error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
@@ -9,7 +9,8 @@ import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { backgroundJobService } from '@/lib/backgroundJobs'
 import { documentProcessorService } from '@/lib/documentProcessor'
-import { ApiResponse, DocumentDisplay, DocumentProcessingInput } from '@/types'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, DocumentDisplay, DocumentProcessingInput, UserRole } from '@/types'
 
 interface ProcessDocumentResponse {
   document?: DocumentDisplay
@@ -22,7 +23,8 @@ interface ProcessDocumentResponse {
  */
 async function handleProcessDocument(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<ProcessDocumentResponse>>
+  res: NextApiResponse<ApiResponse<ProcessDocumentResponse>>,
+  userId: string
 ) {
   try {
     const { 
@@ -41,7 +43,8 @@ async function handleProcessDocument(
     // Verify all messages exist
     const existingMessages = await db.message.findMany({
       where: {
-        id: { in: messageIds }
+        id: { in: messageIds },
+        deletedAt: null
       }
     })
 
@@ -54,7 +57,7 @@ async function handleProcessDocument(
 
     const processingInput: DocumentProcessingInput = {
       messageIds,
-      userId: options.userId || 'system'
+      userId
     }
 
     if (useBackgroundJob) {
@@ -208,16 +211,17 @@ function getTimeAgo(date: Date): string {
 /**
  * Main API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<any>>
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
 ) {
   const { method } = req
 
   try {
     switch (method) {
       case 'POST':
-        return await handleProcessDocument(req, res)
+        return await handleProcessDocument(req, res, getUserLabel(user))
         
       case 'GET':
         return await handleGetProcessingStatus(req, res)
@@ -236,4 +240,6 @@ export default async function handler(
       error: 'Internal server error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
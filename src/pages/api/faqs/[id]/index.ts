@@ -6,13 +6,14 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
-import { pineconeService } from '@/lib/pinecone'
-import { ApiResponse } from '@/types'
+import { vectorStoreService } from '@/lib/vectorStore'
+import { withAuth } from '@/lib/auth'
+import { ApiResponse, UserRole } from '@/types'
 
 /**
  * Handle individual FAQ operations
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<any>>
 ) {
@@ -71,11 +72,11 @@ async function handleDeleteFAQ(
       where: { id }
     })
 
-    // Delete from Pinecone
+    // Delete from the vector store
     try {
-      await pineconeService.deleteFAQEmbedding(id)
+      await vectorStoreService.deleteFAQEmbedding(id)
     } catch (error) {
-      logger.warn(`Failed to delete FAQ ${id} from Pinecone:`, error)
+      logger.warn(`Failed to delete FAQ ${id} from the vector store:`, error)
       // Continue anyway - database deletion is more critical
     }
 
@@ -93,4 +94,6 @@ async function handleDeleteFAQ(
       error: 'Failed to delete FAQ'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
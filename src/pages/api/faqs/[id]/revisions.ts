@@ -0,0 +1,105 @@
+/**
+ * FAQ Revisions API Endpoint
+ * Returns the version history of a FAQ with word-level diffs and restores previous versions
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { faqRevisionService } from '@/lib/faqRevisions'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, UserRole } from '@/types'
+
+/**
+ * Handle /api/faqs/[id]/revisions
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
+) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'FAQ ID is required'
+    })
+  }
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGetRevisions(res, id)
+      case 'POST':
+        return await handleRestoreRevision(req, res, id, getUserLabel(user))
+      default:
+        res.setHeader('Allow', ['GET', 'POST'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    logger.error('FAQ revisions API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/faqs/[id]/revisions - Get FAQ version history
+ */
+async function handleGetRevisions(res: NextApiResponse<ApiResponse<any>>, id: string) {
+  const history = await faqRevisionService.getHistory(id)
+
+  if (!history) {
+    return res.status(404).json({
+      success: false,
+      error: 'FAQ not found'
+    })
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: history
+  })
+}
+
+/**
+ * Handle POST /api/faqs/[id]/revisions - Restore a previous version
+ * Body: { revisionId }
+ */
+async function handleRestoreRevision(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  id: string,
+  restoredBy: string
+) {
+  const { revisionId } = req.body || {}
+
+  if (!revisionId || typeof revisionId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'revisionId is required'
+    })
+  }
+
+  const restored = await faqRevisionService.restore(id, revisionId, restoredBy)
+
+  if (!restored) {
+    return res.status(404).json({
+      success: false,
+      error: 'FAQ or revision not found'
+    })
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: restored,
+    message: 'Previous version restored'
+  })
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
@@ -1,12 +1,18 @@
 /**
  * FAQ Sources API Endpoint
  * Fetches source messages and documents for a specific FAQ
+ * Source messages edited since the FAQ was generated include a diff against the original text,
+ * and messages deleted in Slack carry their deletion time
  */
 
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
-import { ApiResponse } from '@/types'
+import { messageRevisionService } from '@/lib/messageRevisions'
+import { piiDetectorService } from '@/lib/piiDetector'
+import { diffWords } from '@/lib/textDiff'
+import { withAuth } from '@/lib/auth'
+import { ApiResponse, DiffSegment, UserRole } from '@/types'
 
 interface SourceData {
   faq: {
@@ -14,6 +20,9 @@ interface SourceData {
     question: string
     answer: string
     category: string
+    sourcesStale: boolean
+    sourcesStaleAt: string | null
+    missingPrimarySource: boolean
   }
   documents: {
     id: string
@@ -21,6 +30,7 @@ interface SourceData {
     description: string
     category: string
     createdAt: string
+    sourcesStale: boolean
   }[]
   messages: {
     id: string
@@ -29,24 +39,94 @@ interface SourceData {
     timestamp: string
     channel: string
     contributionType: string
+    editedAt: string | null
+    deletedAt: string | null
+    // Text when the FAQ was generated, and how it changed since (only present when edited)
+    originalContent: string | null
+    diff: DiffSegment[] | null
   }[]
 }
 
 /**
- * Handle GET /api/faqs/[id]/sources - Get source data for FAQ
+ * Handle /api/faqs/[id]/sources
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<SourceData>>
+  res: NextApiResponse<ApiResponse<any>>
 ) {
-  if (req.method !== 'GET') {
-    res.setHeader('Allow', ['GET'])
-    return res.status(405).json({
+  switch (req.method) {
+    case 'GET':
+      return await handleGetSources(req, res)
+    case 'PATCH':
+      return await handleMarkSourcesReviewed(req, res)
+    default:
+      res.setHeader('Allow', ['GET', 'PATCH'])
+      return res.status(405).json({
+        success: false,
+        error: 'Method not allowed'
+      })
+  }
+}
+
+/**
+ * Handle PATCH /api/faqs/[id]/sources - Mark edited sources as reviewed
+ * Body: { sourcesStale: false }
+ */
+async function handleMarkSourcesReviewed(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<{ sourcesStale: boolean }>>
+) {
+  try {
+    const { id } = req.query
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'FAQ ID is required'
+      })
+    }
+
+    if (req.body?.sourcesStale !== false) {
+      return res.status(400).json({
+        success: false,
+        error: 'Only { sourcesStale: false } is supported'
+      })
+    }
+
+    const existing = await db.fAQ.findUnique({ where: { id }, select: { id: true } })
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'FAQ not found'
+      })
+    }
+
+    await messageRevisionService.markFAQSourcesReviewed(id)
+
+    logger.info(`FAQ ${id} sources marked as reviewed`)
+
+    return res.status(200).json({
+      success: true,
+      data: { sourcesStale: false },
+      message: 'Sources marked as reviewed'
+    })
+
+  } catch (error) {
+    logger.error('Failed to mark FAQ sources as reviewed:', error)
+    return res.status(500).json({
       success: false,
-      error: 'Method not allowed'
+      error: 'Failed to update FAQ'
     })
   }
+}
 
+/**
+ * Handle GET /api/faqs/[id]/sources - Get source data for FAQ
+ */
+async function handleGetSources(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<SourceData>>
+) {
   try {
     const { id } = req.query
 
@@ -68,7 +148,13 @@ export default async function handler(
         },
         messageFAQs: {
           include: {
-            message: true
+            message: {
+              include: {
+                revisions: {
+                  orderBy: { editedAt: 'asc' }
+                }
+              }
+            }
           }
         }
       }
@@ -87,18 +173,33 @@ export default async function handler(
       title: docFaq.document.title,
       description: docFaq.document.description,
       category: docFaq.document.category,
-      createdAt: docFaq.document.createdAt.toISOString()
+      createdAt: docFaq.document.createdAt.toISOString(),
+      sourcesStale: docFaq.document.sourcesStale
     }))
 
+    // Revisions are stored redacted, so they are compared with the redacted current text
+    const redactedTexts = await piiDetectorService.getRedactedTexts(faq.messageFAQs.map(msgFaq => msgFaq.messageId))
+
     // Extract messages that directly contributed to this FAQ
-    const messages = faq.messageFAQs.map(msgFaq => ({
-      id: msgFaq.message.id,
-      content: msgFaq.message.text,
-      author: msgFaq.message.username,
-      timestamp: msgFaq.message.timestamp.toISOString(),
-      channel: msgFaq.message.channel,
-      contributionType: msgFaq.contributionType
-    })).sort((a, b) => 
+    const messages = faq.messageFAQs.map(msgFaq => {
+      const message = msgFaq.message
+      const content = redactedTexts.get(message.id) ?? message.text
+      const originalContent = messageRevisionService.getTextAsOf(content, message.revisions, faq.createdAt)
+      const changed = originalContent !== content
+
+      return {
+        id: message.id,
+        content,
+        author: message.username,
+        timestamp: message.timestamp.toISOString(),
+        channel: message.channel,
+        contributionType: msgFaq.contributionType,
+        editedAt: message.editedAt ? message.editedAt.toISOString() : null,
+        deletedAt: message.deletedAt ? message.deletedAt.toISOString() : null,
+        originalContent: changed ? originalContent : null,
+        diff: changed ? diffWords(originalContent, content) : null
+      }
+    }).sort((a, b) => 
       new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
     )
 
@@ -107,7 +208,10 @@ export default async function handler(
         id: faq.id,
         question: faq.question,
         answer: faq.answer,
-        category: faq.category
+        category: faq.category,
+        sourcesStale: faq.sourcesStale,
+        sourcesStaleAt: faq.sourcesStaleAt ? faq.sourcesStaleAt.toISOString() : null,
+        missingPrimarySource: faq.missingPrimarySource
       },
       documents,
       messages
@@ -127,4 +231,6 @@ export default async function handler(
       error: 'Failed to fetch source data'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
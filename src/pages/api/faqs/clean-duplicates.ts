@@ -1,7 +1,10 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
-import { pineconeService } from '@/lib/pinecone'
+import { vectorStoreService } from '@/lib/vectorStore'
+import { faqRevisionService } from '@/lib/faqRevisions'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { FAQChangeType, UserRole } from '@/types'
 
 interface CleanDuplicatesResponse {
   success: boolean
@@ -23,7 +26,8 @@ interface CleanDuplicatesResponse {
  */
 async function handleCleanDuplicates(
   req: NextApiRequest,
-  res: NextApiResponse<CleanDuplicatesResponse>
+  res: NextApiResponse<CleanDuplicatesResponse>,
+  cleanedBy: string
 ) {
   try {
     logger.info('Starting duplicate FAQ cleanup process')
@@ -73,8 +77,8 @@ async function handleCleanDuplicates(
       }
 
       try {
-        // Use Pinecone to find similar FAQs
-        const duplicateCheck = await pineconeService.findDuplicateFAQs({
+        // Use the vector store to find similar FAQs
+        const duplicateCheck = await vectorStoreService.findDuplicateFAQs({
           question: faq.question,
           answer: faq.answer,
           category: faq.category
@@ -93,6 +97,8 @@ async function handleCleanDuplicates(
             const duplicatesToRemove = duplicateIds.filter(id => id !== keptFAQ.id)
 
             if (duplicatesToRemove.length > 0) {
+              const removedBefore = totalDuplicatesRemoved
+
               // Delete duplicate FAQs and their relationships
               // IMPROVED: Better error handling following SOLID principles
               for (const duplicateId of duplicatesToRemove) {
@@ -104,14 +110,14 @@ async function handleCleanDuplicates(
                   })
 
                   if (!existingFAQ) {
-                    logger.warn(`FAQ ${duplicateId} not found in database (stale Pinecone data) - cleaning up Pinecone only`)
+                    logger.warn(`FAQ ${duplicateId} not found in database (stale vector store data) - cleaning up vector store only`)
                     
-                    // Clean up stale Pinecone reference
+                    // Clean up stale vector store reference
                     try {
-                      await pineconeService.deleteFAQEmbedding(duplicateId)
-                      logger.info(`Cleaned up stale Pinecone embedding for: ${duplicateId}`)
-                    } catch (pineconeError) {
-                      logger.warn(`Failed to clean up Pinecone embedding for ${duplicateId}:`, pineconeError)
+                      await vectorStoreService.deleteFAQEmbedding(duplicateId)
+                      logger.info(`Cleaned up stale vector store embedding for: ${duplicateId}`)
+                    } catch (vectorStoreError) {
+                      logger.warn(`Failed to clean up vector store embedding for ${duplicateId}:`, vectorStoreError)
                     }
                     
                     processedFAQs.add(duplicateId)
@@ -132,13 +138,13 @@ async function handleCleanDuplicates(
                     where: { id: duplicateId }
                   })
 
-                  // Step 4: Clean up Pinecone embedding
+                  // Step 4: Clean up vector store embedding
                   try {
-                    await pineconeService.deleteFAQEmbedding(duplicateId)
+                    await vectorStoreService.deleteFAQEmbedding(duplicateId)
                     logger.info(`Deleted FAQ embedding for: ${duplicateId}`)
-                  } catch (pineconeError) {
-                    logger.warn(`Failed to delete Pinecone embedding for ${duplicateId}:`, pineconeError)
-                    // Continue - don't fail the entire operation for Pinecone issues
+                  } catch (vectorStoreError) {
+                    logger.warn(`Failed to delete vector store embedding for ${duplicateId}:`, vectorStoreError)
+                    // Continue - don't fail the entire operation for vector store issues
                   }
 
                   processedFAQs.add(duplicateId)
@@ -156,6 +162,16 @@ async function handleCleanDuplicates(
                 }
               }
 
+              // Record the merge in the kept FAQ's history
+              const removedCount = totalDuplicatesRemoved - removedBefore
+              if (removedCount > 0) {
+                await faqRevisionService.updateWithRevision(keptFAQ.id, { updatedAt: new Date() }, {
+                  changeType: FAQChangeType.MERGE,
+                  changedBy: cleanedBy,
+                  reason: `Merged ${removedCount} duplicate FAQ${removedCount === 1 ? '' : 's'}: ${duplicatesToRemove.join(', ')}`
+                })
+              }
+
               duplicateGroups.push({
                 question: keptFAQ.question.substring(0, 100) + '...',
                 duplicateCount: duplicatesToRemove.length,
@@ -199,9 +215,10 @@ async function handleCleanDuplicates(
   }
 }
 
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<CleanDuplicatesResponse>
+  res: NextApiResponse<CleanDuplicatesResponse>,
+  { user }: AuthContext
 ) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', ['POST'])
@@ -211,5 +228,7 @@ export default async function handler(
     })
   }
 
-  return handleCleanDuplicates(req, res)
-} 
\ No newline at end of file
+  return handleCleanDuplicates(req, res, getUserLabel(user))
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
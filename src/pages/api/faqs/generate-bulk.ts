@@ -7,7 +7,8 @@ import type { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { faqGeneratorService } from '@/lib/faqGenerator'
-import { ApiResponse } from '@/types'
+import { withAuth } from '@/lib/auth'
+import { ApiResponse, UserRole } from '@/types'
 
 interface BulkGenerateRequest {
   type: string
@@ -78,7 +79,8 @@ async function handleBulkGenerateFAQs(
     
     const unprocessedMessages = await db.message.findMany({
       where: {
-        documentMessages: { none: {} }
+        documentMessages: { none: {} },
+        deletedAt: null
       },
       take: maxUnprocessedMessages, // Now configurable!
       orderBy: { timestamp: 'asc' } // ✅ Order chronologically to keep related messages together
@@ -252,7 +254,7 @@ async function handleBulkGenerateFAQs(
 /**
  * Main handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<BulkGenerateResponse>>
 ) {
@@ -265,4 +267,6 @@ export default async function handler(
   }
 
   return handleBulkGenerateFAQs(req, res)
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
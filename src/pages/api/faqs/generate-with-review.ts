@@ -1,11 +1,12 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { logger } from '@/lib/logger'
 import { faqGeneratorService } from '@/lib/faqGenerator'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { UserRole } from '@/types'
 
 interface GenerateWithReviewRequest {
   documentId: string
   categoryOverride?: string
-  userId?: string
 }
 
 interface GenerateWithReviewResponse {
@@ -43,10 +44,11 @@ interface GenerateWithReviewResponse {
 
 async function handleGenerateWithReview(
   req: NextApiRequest,
-  res: NextApiResponse<GenerateWithReviewResponse>
+  res: NextApiResponse<GenerateWithReviewResponse>,
+  userId: string
 ) {
   try {
-    const { documentId, categoryOverride, userId } = req.body as GenerateWithReviewRequest
+    const { documentId, categoryOverride } = req.body as GenerateWithReviewRequest
 
     if (!documentId) {
       return res.status(400).json({
@@ -89,9 +91,10 @@ async function handleGenerateWithReview(
   }
 }
 
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<GenerateWithReviewResponse>
+  res: NextApiResponse<GenerateWithReviewResponse>,
+  { user }: AuthContext
 ) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', ['POST'])
@@ -101,5 +104,7 @@ export default async function handler(
     })
   }
 
-  return handleGenerateWithReview(req, res)
-} 
\ No newline at end of file
+  return handleGenerateWithReview(req, res, getUserLabel(user))
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
@@ -8,7 +8,8 @@ import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { backgroundJobService } from '@/lib/backgroundJobs'
 import { faqGeneratorService } from '@/lib/faqGenerator'
-import { ApiResponse, FAQDisplay, FAQGenerationInput } from '@/types'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, FAQDisplay, FAQGenerationInput, UserRole } from '@/types'
 
 interface GenerateFAQsResponse {
   faqs?: FAQDisplay[]
@@ -21,7 +22,8 @@ interface GenerateFAQsResponse {
  */
 async function handleGenerateFAQs(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<GenerateFAQsResponse>>
+  res: NextApiResponse<ApiResponse<GenerateFAQsResponse>>,
+  userId: string
 ) {
   try {
     const { documentId, useBackgroundJob = false, options = {} } = req.body
@@ -60,7 +62,7 @@ async function handleGenerateFAQs(
     const faqInput: FAQGenerationInput = {
       documentId,
       categoryOverride: options.categoryOverride,
-      userId: options.userId || 'system'
+      userId
     }
 
     if (useBackgroundJob) {
@@ -207,16 +209,17 @@ function getTimeAgo(date: Date): string {
 /**
  * Main API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<any>>
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
 ) {
   const { method } = req
 
   try {
     switch (method) {
       case 'POST':
-        return await handleGenerateFAQs(req, res)
+        return await handleGenerateFAQs(req, res, getUserLabel(user))
         
       case 'GET':
         return await handleGetGenerationStatus(req, res)
@@ -235,4 +238,6 @@ export default async function handler(
       error: 'Internal server error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
@@ -8,7 +8,10 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { faqGeneratorService } from '@/lib/faqGenerator'
-import { pineconeService } from '@/lib/pinecone'
+import { vectorStoreService } from '@/lib/vectorStore'
+import { faqAnswerService } from '@/lib/faqAnswers'
+import { faqRevisionService } from '@/lib/faqRevisions'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
 import { 
   ApiResponse, 
   PaginatedFAQs, 
@@ -16,25 +19,28 @@ import {
   FAQFilters,
   FAQ,
   FAQStatus,
+  FAQChangeType,
   ValidationError,
-  DatabaseError
+  DatabaseError,
+  UserRole
 } from '@/types'
 
 /**
  * FAQs API handler with full CRUD and management support
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<any>>
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
 ) {
   try {
     switch (req.method) {
       case 'GET':
         return await handleGetFAQs(req, res)
       case 'POST':
-        return await handleCreateFAQ(req, res)
+        return await handleCreateFAQ(req, res, getUserLabel(user))
       case 'PUT':
-        return await handleUpdateFAQ(req, res)
+        return await handleUpdateFAQ(req, res, getUserLabel(user))
       case 'DELETE':
         return await handleDeleteFAQ(req, res)
       default:
@@ -74,7 +80,7 @@ async function handleGetFAQs(
       similarTo
     } = req.query as FAQFilters & { [key: string]: string } & { similarTo?: string }
 
-    // Handle similarity search using Pinecone
+    // Handle similarity search using the vector store
     if (similarTo) {
       return await handleSimilaritySearch(similarTo, req, res)
     }
@@ -124,6 +130,8 @@ async function handleGetFAQs(
       db.fAQ.count({ where })
     ])
 
+    const slackFeedback = await faqAnswerService.getFeedbackSummaries(faqs.map(faq => faq.id))
+
     // Transform to display format with enriched data
     const faqsDisplay: FAQDisplay[] = faqs.map((faq: any) => {
       const sourceDocuments = faq.documentFAQs.map((df: any) => df.document)
@@ -140,12 +148,16 @@ async function handleGetFAQs(
         approvedAt: faq.approvedAt,
         createdAt: faq.createdAt,
         updatedAt: faq.updatedAt,
+        sourcesStale: faq.sourcesStale,
+        sourcesStaleAt: faq.sourcesStaleAt,
+        missingPrimarySource: faq.missingPrimarySource,
         sourceDocumentCount: sourceDocuments.length,
         sourceMessageCount: sourceMessages.length,
         primarySourceDocument: sourceDocuments[0] ? {
           id: sourceDocuments[0].id,
           title: sourceDocuments[0].title
         } : undefined,
+        slackFeedback: slackFeedback.get(faq.id),
         timeAgo: getTimeAgo(faq.createdAt)
       }
     })
@@ -178,7 +190,7 @@ async function handleGetFAQs(
 }
 
 /**
- * Handle similarity search using Pinecone vector database
+ * Handle similarity search using the vector store
  */
 async function handleSimilaritySearch(
   query: string,
@@ -189,7 +201,7 @@ async function handleSimilaritySearch(
     const { category, limit = '10' } = req.query as { category?: string; limit?: string }
     const limitNum = Math.min(50, Math.max(1, parseInt(limit.toString(), 10) || 10))
 
-    // Search for similar FAQs using Pinecone
+    // Search for similar FAQs using the vector store
     const similarFAQs = await faqGeneratorService.findSimilarFAQs(query, {
       category,
       status: [FAQStatus.APPROVED, FAQStatus.PENDING],
@@ -240,14 +252,15 @@ async function handleSimilaritySearch(
  */
 async function handleCreateFAQ(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<{ faqId: string } | { faqs: FAQ[] }>>
+  res: NextApiResponse<ApiResponse<{ faqId: string } | { faqs: FAQ[] }>>,
+  userId: string
 ) {
   try {
     const { type, ...data } = req.body
 
     if (type === 'generate') {
       // Generate FAQs from document
-      return await handleGenerateFAQs(data, res)
+      return await handleGenerateFAQs({ ...data, userId }, res)
     } else {
       // Create manual FAQ
       return await handleCreateManualFAQ(data, res)
@@ -266,7 +279,7 @@ async function handleCreateFAQ(
  * Generate FAQs from document
  */
 async function handleGenerateFAQs(
-  data: { documentId: string; categoryOverride?: string; userId?: string },
+  data: { documentId: string; categoryOverride?: string; userId: string },
   res: NextApiResponse<ApiResponse<{ faqs: FAQ[] }>>
 ) {
   try {
@@ -307,11 +320,11 @@ async function handleGenerateFAQs(
  * Create manual FAQ
  */
 async function handleCreateManualFAQ(
-  data: { question: string; answer: string; category: string; userId?: string },
+  data: { question: string; answer: string; category: string },
   res: NextApiResponse<ApiResponse<{ faqId: string }>>
 ) {
   try {
-    const { question, answer, category, userId } = data
+    const { question, answer, category } = data
 
     // Validate required fields
     if (!question || typeof question !== 'string' || question.trim().length === 0) {
@@ -326,8 +339,8 @@ async function handleCreateManualFAQ(
       throw new ValidationError('category is required and cannot be empty')
     }
 
-    // Check for duplicates using Pinecone
-    const duplicateCheck = await pineconeService.findDuplicateFAQs({
+    // Check for duplicates using the vector store
+    const duplicateCheck = await vectorStoreService.findDuplicateFAQs({
       question: question.trim(),
       answer: answer.trim(),
       category: category.trim()
@@ -351,8 +364,8 @@ async function handleCreateManualFAQ(
       }
     })
 
-    // Store embedding in Pinecone
-    await pineconeService.storeFAQEmbedding(newFAQ as FAQ)
+    // Store embedding in the vector store
+    await vectorStoreService.storeFAQEmbedding(newFAQ as FAQ)
 
     logger.info(`Created manual FAQ: ${newFAQ.id}`)
 
@@ -378,14 +391,15 @@ async function handleCreateManualFAQ(
  */
 async function handleUpdateFAQ(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<FAQ | FAQ[]>>
+  res: NextApiResponse<ApiResponse<FAQ | FAQ[]>>,
+  reviewedBy: string
 ) {
   try {
-    const { id, ids, action, ...updateData } = req.body
+    const { id, ids, action, reviewedBy: _reviewedBy, reason, ...updateData } = req.body
 
     // BULK OPERATIONS - following Single Responsibility Principle
     if (ids && Array.isArray(ids) && ids.length > 0) {
-      return await handleBulkFAQOperations(ids, action, updateData, res)
+      return await handleBulkFAQOperations(ids, action, reviewedBy, res)
     }
 
     // SINGLE OPERATIONS - existing logic
@@ -395,11 +409,6 @@ async function handleUpdateFAQ(
 
     if (action === 'approve' || action === 'reject') {
       // Handle approval/rejection
-      const { reviewedBy } = updateData
-      if (!reviewedBy) {
-        throw new ValidationError('reviewedBy is required for approval/rejection')
-      }
-
       const status = action === 'approve' ? FAQStatus.APPROVED : FAQStatus.REJECTED
       const updatedFAQ = await faqGeneratorService.reviewFAQ(id, status, reviewedBy)
 
@@ -417,14 +426,22 @@ async function handleUpdateFAQ(
       if (updateData.category !== undefined) updateFields.category = updateData.category.trim()
       if (updateData.status !== undefined) updateFields.status = updateData.status
 
-      const updatedFAQ = await db.fAQ.update({
-        where: { id },
-        data: updateFields
+      const updatedFAQ = await faqRevisionService.updateWithRevision(id, updateFields, {
+        changeType: FAQChangeType.MANUAL_EDIT,
+        changedBy: reviewedBy,
+        reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null
       })
 
+      if (!updatedFAQ) {
+        return res.status(404).json({
+          success: false,
+          error: 'FAQ not found'
+        })
+      }
+
       // Update embedding if content changed
       if (updateData.question || updateData.answer) {
-        await pineconeService.updateFAQEmbedding(updatedFAQ as FAQ)
+        await vectorStoreService.updateFAQEmbedding(updatedFAQ as FAQ)
       }
 
       logger.info(`Updated FAQ ${id}`)
@@ -460,7 +477,7 @@ async function handleUpdateFAQ(
 async function handleBulkFAQOperations(
   ids: string[],
   action: string,
-  updateData: any,
+  reviewedBy: string,
   res: NextApiResponse<ApiResponse<FAQ[]>>
 ): Promise<void> {
   try {
@@ -468,11 +485,6 @@ async function handleBulkFAQOperations(
       throw new ValidationError('Bulk operations only support approve/reject actions')
     }
 
-    const { reviewedBy } = updateData
-    if (!reviewedBy) {
-      throw new ValidationError('reviewedBy is required for bulk approval/rejection')
-    }
-
     logger.info(`Starting bulk ${action} operation for ${ids.length} FAQs by ${reviewedBy}`)
 
     const results: FAQ[] = []
@@ -557,8 +569,8 @@ async function handleDeleteFAQ(
       where: { id }
     })
 
-    // Delete from Pinecone
-    await pineconeService.deleteFAQEmbedding(id)
+    // Delete from the vector store
+    await vectorStoreService.deleteFAQEmbedding(id)
 
     logger.info(`Deleted FAQ ${id}`)
 
@@ -600,4 +612,6 @@ function getTimeAgo(date: Date): string {
   if (days < 365) return `${Math.floor(days / 30)}mo ago`
   
   return `${Math.floor(days / 365)}y ago`
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
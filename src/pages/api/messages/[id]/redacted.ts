@@ -0,0 +1,68 @@
+/**
+ * Redacted Message API Endpoint
+ * Returns a message's text with every non-whitelisted PII detection replaced -
+ * the same text that is sent to the AI and synced to Salesforce
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db } from '@/lib/db'
+import { logger } from '@/lib/logger'
+import { piiDetectorService } from '@/lib/piiDetector'
+import { withAuth } from '@/lib/auth'
+import { ApiResponse } from '@/types'
+
+interface RedactedMessage {
+  messageId: string
+  text: string
+}
+
+/**
+ * Handle GET /api/messages/[id]/redacted - Get the redacted text of a message
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<RedactedMessage>>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    })
+  }
+
+  try {
+    const { id } = req.query
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Message ID is required'
+      })
+    }
+
+    const exists = await db.message.findUnique({ where: { id }, select: { id: true } })
+    if (!exists) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found'
+      })
+    }
+
+    const text = await piiDetectorService.getRedactedText(id)
+
+    return res.status(200).json({
+      success: true,
+      data: { messageId: id, text }
+    })
+
+  } catch (error) {
+    logger.error('Failed to fetch redacted message:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch redacted message'
+    })
+  }
+}
+
+export default withAuth(handler)
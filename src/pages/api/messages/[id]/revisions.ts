@@ -0,0 +1,61 @@
+/**
+ * Message Revisions API Endpoint
+ * Returns the edit history of a message with word-level diffs between versions
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { messageRevisionService } from '@/lib/messageRevisions'
+import { withAuth } from '@/lib/auth'
+import { ApiResponse, MessageRevisionHistory } from '@/types'
+
+/**
+ * Handle GET /api/messages/[id]/revisions - Get message edit history
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<MessageRevisionHistory>>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET'])
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    })
+  }
+
+  try {
+    const { id } = req.query
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Message ID is required'
+      })
+    }
+
+    // Texts are redacted so the history doesn't expose what the feed hides
+    const history = await messageRevisionService.getHistory(id)
+
+    if (!history) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found'
+      })
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: history
+    })
+
+  } catch (error) {
+    logger.error('Failed to fetch message revisions:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch message revisions'
+    })
+  }
+}
+
+export default withAuth(handler)
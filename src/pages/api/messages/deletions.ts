@@ -1,12 +1,15 @@
 /**
  * Message deletions API endpoint
- * Handles message deletion events and notifies connected clients
+ * Lists recorded deletions with the documents and FAQs they affected,
+ * and applies the deletion policy to messages deleted outside the event pipeline
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
+import { messageDeletionService } from '@/lib/messageDeletion'
+import { withAuth } from '@/lib/auth'
 import type { ApiResponse } from '@/types'
+import { UserRole } from '@/types'
 
 interface DeletionPayload {
   slackId: string
@@ -14,74 +17,111 @@ interface DeletionPayload {
 }
 
 /**
- * Handle message deletion notifications
+ * Main API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse>
 ): Promise<void> {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleListDeletions(req, res)
+      case 'POST':
+        return await handleDeleteMessage(req, res)
+      default:
+        res.setHeader('Allow', ['GET', 'POST'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    logger.error('Message deletion error:', error)
 
-  // Only accept POST requests
-  if (req.method !== 'POST') {
-    return res.status(405).json({
+    return res.status(500).json({
       success: false,
-      error: 'Method not allowed'
+      error: error instanceof Error ? error.message : 'Internal server error'
     })
   }
+}
 
-  try {
-    const { slackId, channel }: DeletionPayload = req.body
+/**
+ * Handle GET /api/messages/deletions - List deletions and the records they affected
+ */
+async function handleListDeletions(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  const { channel, page = '1', limit = '50' } = req.query
+  const pageNum = Math.max(1, parseInt(page as string) || 1)
+  const limitNum = Math.min(200, Math.max(1, parseInt(limit as string) || 50))
 
-    if (!slackId || !channel) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: slackId, channel'
-      })
-    }
+  const { deletions, total } = await messageDeletionService.listDeletions({
+    channel: channel as string | undefined,
+    skip: (pageNum - 1) * limitNum,
+    take: limitNum
+  })
 
-    // Find the message before deleting it (for notification purposes)
-    const messageToDelete = await db.message.findFirst({
-      where: {
-        slackId,
-        channel
+  return res.status(200).json({
+    success: true,
+    data: {
+      policy: messageDeletionService.getPolicy(),
+      deletions,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        hasNext: pageNum * limitNum < total,
+        hasPrev: pageNum > 1
       }
-    })
-
-    if (!messageToDelete) {
-      logger.warn(`Message not found for deletion: ${slackId} in ${channel}`)
-      return res.status(404).json({
-        success: false,
-        error: 'Message not found'
-      })
     }
+  })
+}
 
-    // Delete the message from database
-    const deletionResult = await db.message.deleteMany({
-      where: {
-        slackId,
-        channel
-      }
-    })
-
-    logger.info(`Message deleted: ${messageToDelete.id} (${deletionResult.count} records)`)
+/**
+ * Handle POST /api/messages/deletions - Delete a message using the configured policy
+ * Body: { slackId: string, channel: string }
+ */
+async function handleDeleteMessage(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  const { slackId, channel }: DeletionPayload = req.body || {}
 
-    return res.status(200).json({
-      success: true,
-      data: {
-        deletedMessageId: messageToDelete.id,
-        slackId,
-        channel,
-        deletedCount: deletionResult.count
-      },
-      message: 'Message deletion processed successfully'
+  if (!slackId || !channel) {
+    return res.status(400).json({
+      success: false,
+      error: 'Missing required fields: slackId, channel'
     })
+  }
 
-  } catch (error) {
-    logger.error('Message deletion error:', error)
-    
-    return res.status(500).json({
+  const deletion = await messageDeletionService.deleteMessages({
+    slackId,
+    channel,
+    source: 'api'
+  })
+
+  if (deletion.deletedCount === 0) {
+    logger.warn(`Message not found for deletion: ${slackId} in ${channel}`)
+    return res.status(404).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Internal server error'
+      error: 'Message not found'
     })
   }
-} 
\ No newline at end of file
+
+  logger.info(`Message deleted: ${deletion.messageIds.join(', ')} (${deletion.deletedCount} records, ${deletion.policy})`)
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      deletedMessageId: deletion.messageIds[0],
+      slackId,
+      channel,
+      deletedCount: deletion.deletedCount,
+      policy: deletion.policy,
+      affectedDocumentIds: deletion.affectedDocumentIds,
+      emptiedDocumentIds: deletion.emptiedDocumentIds,
+      affectedFAQIds: deletion.affectedFAQIds,
+      flaggedFAQIds: deletion.flaggedFAQIds
+    },
+    message: 'Message deletion processed successfully'
+  })
+}
+
+export default withAuth(handler, { write: [UserRole.ADMIN] })
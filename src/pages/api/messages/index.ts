@@ -4,15 +4,19 @@
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next'
+import { Prisma } from '@prisma/client'
 import { db } from '@/lib/db'
 import type { 
   ApiResponse, 
   PaginatedMessages, 
   MessageFilters,
-  MessageDisplay 
+  MessageDisplay,
+  MessageSearchMode
 } from '@/types'
 import { formatDistanceToNow } from 'date-fns'
 import { piiDetectorService } from '@/lib/piiDetector'
+import { messageSearchService, SEARCH_MODES } from '@/lib/messageSearch'
+import { withAuth } from '@/lib/auth'
 
 /**
  * Parse query parameters into MessageFilters
@@ -22,6 +26,9 @@ const parseFilters = (query: NextApiRequest['query']): MessageFilters => {
     channel: query.channel as string,
     userId: query.userId as string,
     search: query.search as string,
+    searchMode: SEARCH_MODES.includes(query.searchMode as MessageSearchMode)
+      ? query.searchMode as MessageSearchMode
+      : 'hybrid',
     startDate: query.startDate as string,
     endDate: query.endDate as string,
     page: query.page ? parseInt(query.page as string) : 1,
@@ -31,9 +38,11 @@ const parseFilters = (query: NextApiRequest['query']): MessageFilters => {
 
 /**
  * Build Prisma where clause from filters
+ * Text search is not part of it: searches are ranked by the message search service
  */
 const buildWhereClause = (filters: MessageFilters): object => {
-  const where: any = {}
+  // Deleted messages stay in the database under soft-delete/tombstone policies
+  const where: any = { deletedAt: null }
 
   if (filters.channel) {
     where.channel = filters.channel
@@ -43,13 +52,6 @@ const buildWhereClause = (filters: MessageFilters): object => {
     where.userId = filters.userId
   }
 
-  if (filters.search) {
-    where.text = {
-      contains: filters.search,
-      mode: 'insensitive'
-    }
-  }
-
   if (filters.startDate || filters.endDate) {
     where.timestamp = {}
     
@@ -65,6 +67,84 @@ const buildWhereClause = (filters: MessageFilters): object => {
   return where
 }
 
+/**
+ * Relations loaded for every message in the feed
+ */
+const messageInclude = Prisma.validator<Prisma.MessageInclude>()({
+  parentMessage: {
+    select: {
+      id: true,
+      text: true,
+      username: true,
+      timestamp: true,
+      slackId: true
+    }
+  },
+  threadReplies: {
+    where: { deletedAt: null },
+    orderBy: {
+      timestamp: 'asc' // Replies ordered chronologically  
+    },
+    include: {
+      // Include PII detection information for thread replies
+      piiDetections: {
+        select: {
+          id: true,
+          piiType: true,
+          originalText: true,
+          replacementText: true,
+          startOffset: true,
+          endOffset: true,
+          confidence: true,
+          status: true,
+          reviewedBy: true,
+          reviewedAt: true,
+          createdAt: true
+        }
+      },
+      _count: {
+        select: { revisions: true }
+      }
+    }
+  },
+  // Include document relationship information
+  documentMessages: {
+    select: {
+      documentId: true,
+      messageRole: true,
+      processingConfidence: true,
+      document: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          createdAt: true
+        }
+      }
+    }
+  },
+  // Include PII detection information
+  piiDetections: {
+    select: {
+      id: true,
+      piiType: true,
+      originalText: true,
+      replacementText: true,
+      startOffset: true,
+      endOffset: true,
+      confidence: true,
+      status: true,
+      reviewedBy: true,
+      reviewedAt: true,
+      createdAt: true
+    }
+  },
+  // Include edit history count
+  _count: {
+    select: { revisions: true }
+  }
+})
+
 /**
  * Transform database messages to display format with thread support and PII replacements
  */
@@ -113,7 +193,9 @@ const transformMessages = async (messages: any[]): Promise<MessageDisplay[]> =>
           piiPendingReview: reply.piiDetections?.filter((d: any) => d.status === 'PENDING_REVIEW').length || 0,
           piiWhitelisted: reply.piiDetections?.filter((d: any) => d.status === 'WHITELISTED').length || 0,
           piiAutoReplaced: reply.piiDetections?.filter((d: any) => d.status === 'AUTO_REPLACED').length || 0,
-          piiDetections: reply.piiDetections || []
+          piiDetections: reply.piiDetections || [],
+          // Include edit history information
+          revisionCount: reply._count?.revisions || 0
         }
       })
     ) : []
@@ -143,7 +225,9 @@ const transformMessages = async (messages: any[]): Promise<MessageDisplay[]> =>
       piiPendingReview: message.piiDetections?.filter((d: any) => d.status === 'PENDING_REVIEW').length || 0,
       piiWhitelisted: message.piiDetections?.filter((d: any) => d.status === 'WHITELISTED').length || 0,
       piiAutoReplaced: message.piiDetections?.filter((d: any) => d.status === 'AUTO_REPLACED').length || 0,
-      piiDetections: message.piiDetections || []
+      piiDetections: message.piiDetections || [],
+      // Include edit history information
+      revisionCount: message._count?.revisions || 0
     }
   }))
   
@@ -153,7 +237,7 @@ const transformMessages = async (messages: any[]): Promise<MessageDisplay[]> =>
 /**
  * Main messages handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<PaginatedMessages>>
 ): Promise<void> {
@@ -189,6 +273,10 @@ export default async function handler(
     const limit = Math.min(filters.limit || 50, 100) // Max 100 per page
     const skip = (page - 1) * limit
 
+    if (filters.search?.trim()) {
+      return await handleSearch(res, filters, page, limit)
+    }
+
     const whereClause = buildWhereClause(filters)
 
     // Modify where clause to exclude thread replies from the main query
@@ -210,68 +298,7 @@ export default async function handler(
       },
       skip,
       take: limit,
-      include: {
-        parentMessage: {
-          select: {
-            id: true,
-            text: true,
-            username: true,
-            timestamp: true,
-            slackId: true
-          }
-        },
-        threadReplies: {
-          orderBy: {
-            timestamp: 'asc' // Replies ordered chronologically  
-          },
-          include: {
-            // Include PII detection information for thread replies
-            piiDetections: {
-              select: {
-                id: true,
-                piiType: true,
-                originalText: true,
-                replacementText: true,
-                confidence: true,
-                status: true,
-                reviewedBy: true,
-                reviewedAt: true,
-                createdAt: true
-              }
-            }
-          }
-        },
-        // Include document relationship information
-        documentMessages: {
-          select: {
-            documentId: true,
-            messageRole: true,
-            processingConfidence: true,
-            document: {
-              select: {
-                id: true,
-                title: true,
-                status: true,
-                createdAt: true
-              }
-            }
-          }
-        },
-        // Include PII detection information
-        piiDetections: {
-          select: {
-            id: true,
-            piiType: true,
-            originalText: true,
-            replacementText: true,
-            confidence: true,
-            status: true,
-            reviewedBy: true,
-            reviewedAt: true,
-            createdAt: true
-          }
-        }
-      }
+      include: messageInclude
     })
 
     // Transform messages for display with PII replacements
@@ -314,4 +341,50 @@ export default async function handler(
       error: error instanceof Error ? error.message : 'Internal server error'
     })
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Ranked search: keyword and/or semantic matches, best first, each with a highlighted snippet
+ */
+async function handleSearch(
+  res: NextApiResponse<ApiResponse<PaginatedMessages>>,
+  filters: MessageFilters,
+  page: number,
+  limit: number
+): Promise<void> {
+  const results = await messageSearchService.search(filters, { page, limit })
+
+  const found = await db.message.findMany({
+    where: { id: { in: results.ids } },
+    include: messageInclude
+  })
+  const byId = new Map(found.map(message => [message.id, message]))
+  const messages = results.ids.flatMap(id => byId.get(id) || [])
+
+  const displayMessages = (await transformMessages(messages)).map(message => ({
+    ...message,
+    search: results.hits.get(message.id)
+  }))
+
+  const totalPages = Math.ceil(results.total / limit)
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      messages: displayMessages,
+      pagination: {
+        page,
+        limit,
+        total: results.total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    },
+    ...(results.semanticUnavailable && {
+      message: 'Semantic search is unavailable, showing keyword matches only'
+    })
+  })
+}
+
+export default withAuth(handler)
@@ -0,0 +1,81 @@
+/**
+ * Message Selection Document API Endpoint
+ * Turns a saved selection into a new document, or adds its messages to an existing one
+ *
+ * - POST /api/messages/selections/[id]/document - Body: { documentId?, title?, category? }
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { messageSelectionService } from '@/lib/messageSelections'
+import { withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, UserRole, ValidationError } from '@/types'
+
+/**
+ * Handle /api/messages/selections/[id]/document
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST'])
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    })
+  }
+
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Selection ID is required'
+    })
+  }
+
+  const { documentId, title, category } = req.body || {}
+
+  if (documentId !== undefined && typeof documentId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'documentId must be a string'
+    })
+  }
+
+  try {
+    const result = await messageSelectionService.applyToDocument(id, user, { documentId, title, category })
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Selection not found'
+      })
+    }
+
+    return res.status(documentId ? 200 : 201).json({
+      success: true,
+      data: result,
+      message: documentId
+        ? `Added ${result.messagesAdded} messages to "${result.document.title}"`
+        : `Created "${result.document.title}" from ${result.messagesAdded} messages`
+    })
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    logger.error('Message selection document API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
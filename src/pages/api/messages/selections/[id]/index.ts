@@ -0,0 +1,134 @@
+/**
+ * Message Selection API Endpoint
+ *
+ * - GET /api/messages/selections/[id] - One selection
+ * - PATCH /api/messages/selections/[id] - Rename, share, or add and remove messages (owner only)
+ * - DELETE /api/messages/selections/[id] - Delete a selection (owner only)
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { messageSelectionService } from '@/lib/messageSelections'
+import { withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, AuthError, AuthUser, MessageSelectionInput, UserRole, ValidationError } from '@/types'
+
+/**
+ * Handle /api/messages/selections/[id]
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
+) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Selection ID is required'
+    })
+  }
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGetSelection(res, id, user)
+      case 'PATCH':
+        return await handleUpdateSelection(req, res, id, user)
+      case 'DELETE':
+        return await handleDeleteSelection(res, id, user)
+      default:
+        res.setHeader('Allow', ['GET', 'PATCH', 'DELETE'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    if (error instanceof AuthError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    logger.error('Message selection API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/messages/selections/[id]
+ */
+async function handleGetSelection(res: NextApiResponse<ApiResponse<any>>, id: string, user: AuthUser) {
+  const selection = await messageSelectionService.getSelection(id, user)
+
+  if (!selection) {
+    return res.status(404).json({
+      success: false,
+      error: 'Selection not found'
+    })
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: { selection }
+  })
+}
+
+/**
+ * Handle PATCH /api/messages/selections/[id]
+ * Body: { selectionName?, purpose?, isShared?, messageIds?, addMessageIds?, removeMessageIds? }
+ */
+async function handleUpdateSelection(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  id: string,
+  user: AuthUser
+) {
+  const selection = await messageSelectionService.updateSelection(id, user, (req.body || {}) as MessageSelectionInput)
+
+  if (!selection) {
+    return res.status(404).json({
+      success: false,
+      error: 'Selection not found'
+    })
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: { selection },
+    message: 'Selection updated'
+  })
+}
+
+/**
+ * Handle DELETE /api/messages/selections/[id]
+ */
+async function handleDeleteSelection(res: NextApiResponse<ApiResponse<any>>, id: string, user: AuthUser) {
+  const deleted = await messageSelectionService.deleteSelection(id, user)
+
+  if (!deleted) {
+    return res.status(404).json({
+      success: false,
+      error: 'Selection not found'
+    })
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Selection deleted'
+  })
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
@@ -0,0 +1,83 @@
+/**
+ * Message Selections API Endpoint
+ * Named, persistent message selections for curation workspaces
+ *
+ * - GET /api/messages/selections - The user's selections plus those shared with them
+ * - POST /api/messages/selections - Save a new selection
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { messageSelectionService } from '@/lib/messageSelections'
+import { withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, AuthUser, MessageSelectionInput, UserRole, ValidationError } from '@/types'
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleListSelections(res, user)
+      case 'POST':
+        return await handleCreateSelection(req, res, user)
+      default:
+        res.setHeader('Allow', ['GET', 'POST'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    logger.error('Message selections API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/messages/selections
+ */
+async function handleListSelections(res: NextApiResponse<ApiResponse<any>>, user: AuthUser) {
+  const selections = await messageSelectionService.listSelections(user)
+
+  return res.status(200).json({
+    success: true,
+    data: { selections }
+  })
+}
+
+/**
+ * Handle POST /api/messages/selections
+ * Body: { selectionName, messageIds, purpose?, isShared? }
+ */
+async function handleCreateSelection(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  user: AuthUser
+) {
+  const { selectionName, messageIds, purpose, isShared } = (req.body || {}) as MessageSelectionInput
+  const selection = await messageSelectionService.createSelection(user, { selectionName, messageIds, purpose, isShared })
+
+  return res.status(201).json({
+    success: true,
+    data: { selection },
+    message: `Saved "${selection.selectionName}" with ${selection.messageIds.length} messages`
+  })
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
@@ -7,6 +7,7 @@ import type { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { getEventStats } from '@/lib/eventProcessor'
+import { withAuth } from '@/lib/auth'
 import type { MessageDisplay } from '@/types'
 import { formatDistanceToNow } from 'date-fns'
 
@@ -34,7 +35,7 @@ const transformMessage = (message: any): MessageDisplay => ({
 /**
  * Server-Sent Events handler for real-time updates
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ): Promise<void> {
@@ -78,7 +79,7 @@ export default async function handler(
     
     // Get initial message count, last update time, and event count
     try {
-      lastMessageCount = await db.message.count()
+      lastMessageCount = await db.message.count({ where: { deletedAt: null } })
       const latestUpdate = await db.message.findFirst({
         orderBy: { updatedAt: 'desc' },
         select: { updatedAt: true }
@@ -101,7 +102,8 @@ export default async function handler(
           where: {
             timestamp: {
               gte: lastCheckTime
-            }
+            },
+            deletedAt: null
           },
           orderBy: [
             { timestamp: 'asc' }, // Chronological order
@@ -119,6 +121,7 @@ export default async function handler(
               }
             },
             threadReplies: {
+              where: { deletedAt: null },
               orderBy: { timestamp: 'asc' },
               select: {
                 id: true,
@@ -135,7 +138,7 @@ export default async function handler(
         })
 
         // Check for deletions by comparing message count
-        const currentMessageCount = await db.message.count()
+        const currentMessageCount = await db.message.count({ where: { deletedAt: null } })
         const hasDeletedMessages = currentMessageCount < lastMessageCount
         
         // Check for edits by looking for recently updated messages
@@ -154,6 +157,9 @@ export default async function handler(
                   notIn: processedMessageIds // Exclude messages we just processed as "new"
                 }
               },
+              {
+                deletedAt: null
+              },
 
             ]
           },
@@ -173,6 +179,7 @@ export default async function handler(
               }
             },
             threadReplies: {
+              where: { deletedAt: null },
               orderBy: { timestamp: 'asc' },
               select: {
                 id: true,
@@ -299,7 +306,8 @@ export default async function handler(
               errorMessage: true,
               channel: true,
               createdAt: true,
-              lastAttemptAt: true
+              lastAttemptAt: true,
+              nextRetryAt: true
             }
           })
 
@@ -350,4 +358,6 @@ export default async function handler(
     })}\n\n`)
     res.end()
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler)
@@ -8,14 +8,15 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { piiDetectorService } from '@/lib/piiDetector'
 import { logger } from '@/lib/logger'
-import { PIISourceType } from '@/types'
+import { withAuth } from '@/lib/auth'
+import { PIISourceType, UserRole } from '@/types'
 
 /**
  * Handle PII backfill operations
  * POST: Start PII detection backfill process
  * GET: Check backfill progress/status
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ): Promise<void> {
@@ -321,4 +322,6 @@ function getBackfillRecommendations(
   }
 
   return recommendations
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
@@ -0,0 +1,108 @@
+/**
+ * PII Allow-Lists API Endpoint
+ * Edits the business domains, business email prefixes and name whitelist used by PII detection
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { piiRuleService } from '@/lib/piiRules'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, PIIListType, ValidationError, UserRole } from '@/types'
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleListEntries(req, res)
+      case 'POST':
+        return await handleAddEntry(req, res, getUserLabel(user))
+      case 'DELETE':
+        return await handleRemoveEntry(req, res)
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'DELETE'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    logger.error('PII lists API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/pii/lists - List entries, optionally for one list (?listType=)
+ */
+async function handleListEntries(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { listType } = req.query
+
+  if (listType && !Object.values(PIIListType).includes(listType as PIIListType)) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid listType. Use: ${Object.values(PIIListType).join(', ')}`
+    })
+  }
+
+  const entries = await piiRuleService.listEntries(listType as PIIListType | undefined)
+
+  return res.status(200).json({
+    success: true,
+    data: entries
+  })
+}
+
+/**
+ * Handle POST /api/pii/lists - Add a value to a list
+ * Body: { listType, value }
+ */
+async function handleAddEntry(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>, createdBy: string) {
+  const { listType, value } = req.body || {}
+  const entry = await piiRuleService.addEntry(listType, value, createdBy)
+
+  return res.status(201).json({
+    success: true,
+    data: entry,
+    message: `Added ${entry.value}`
+  })
+}
+
+/**
+ * Handle DELETE /api/pii/lists?id=... - Remove a value from a list
+ */
+async function handleRemoveEntry(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'id is required'
+    })
+  }
+
+  await piiRuleService.removeEntry(id)
+
+  return res.status(200).json({
+    success: true,
+    message: 'Entry removed'
+  })
+}
+
+export default withAuth(handler, { roles: [UserRole.PII_REVIEWER] })
@@ -7,7 +7,8 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { logger } from '@/lib/logger'
 import { piiDetectorService } from '@/lib/piiDetector'
-import { PIIStatus } from '@/types'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { PIIStatus, UserRole } from '@/types'
 
 /**
  * Handle PII review operations
@@ -15,9 +16,10 @@ import { PIIStatus } from '@/types'
  * PUT: Update PII detection status (whitelist/flag)
  * POST: Bulk update multiple PII detections
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse
+  res: NextApiResponse,
+  { user }: AuthContext
 ): Promise<void> {
   try {
     switch (req.method) {
@@ -25,10 +27,10 @@ export default async function handler(
         await handleGetPendingReviews(req, res)
         break
       case 'PUT':
-        await handleUpdatePIIStatus(req, res)
+        await handleUpdatePIIStatus(req, res, getUserLabel(user))
         break
       case 'POST':
-        await handleBulkUpdatePII(req, res)
+        await handleBulkUpdatePII(req, res, getUserLabel(user))
         break
       default:
         res.setHeader('Allow', ['GET', 'PUT', 'POST'])
@@ -125,27 +127,26 @@ async function handleGetPendingReviews(
  * Body: {
  *   detectionId: string,
  *   status: 'WHITELISTED' | 'FLAGGED' | 'AUTO_REPLACED',
- *   reviewedBy: string,
  *   customReplacement?: string,
  *   reviewNote?: string
  * }
  */
 async function handleUpdatePIIStatus(
   req: NextApiRequest,
-  res: NextApiResponse
+  res: NextApiResponse,
+  reviewedBy: string
 ): Promise<void> {
   const { 
     detectionId, 
     status, 
-    reviewedBy, 
     customReplacement,
     reviewNote 
   } = req.body
 
   // Validate required fields
-  if (!detectionId || !status || !reviewedBy) {
+  if (!detectionId || !status) {
     res.status(400).json({ 
-      error: 'Missing required fields: detectionId, status, reviewedBy' 
+      error: 'Missing required fields: detectionId, status' 
     })
     return
   }
@@ -206,20 +207,20 @@ async function handleUpdatePIIStatus(
  *     status: PIIStatus,
  *     customReplacement?: string
  *   }>,
- *   reviewedBy: string,
  *   reviewNote?: string
  * }
  */
 async function handleBulkUpdatePII(
   req: NextApiRequest,
-  res: NextApiResponse
+  res: NextApiResponse,
+  reviewedBy: string
 ): Promise<void> {
-  const { updates, reviewedBy, reviewNote } = req.body
+  const { updates, reviewNote } = req.body
 
   // Validate required fields
-  if (!updates || !Array.isArray(updates) || !reviewedBy) {
+  if (!updates || !Array.isArray(updates)) {
     res.status(400).json({ 
-      error: 'Missing required fields: updates (array), reviewedBy' 
+      error: 'Missing required fields: updates (array)' 
     })
     return
   }
@@ -307,4 +308,6 @@ async function handleBulkUpdatePII(
       message: error instanceof Error ? error.message : 'Unknown error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.PII_REVIEWER] })
@@ -0,0 +1,126 @@
+/**
+ * PII Rules API Endpoint
+ * Manages the detection rule registry - built-in rules can be tuned or disabled,
+ * custom regex rules can be added per team and scoped to the team's channels
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { piiRuleService, type PIIRuleInput } from '@/lib/piiRules'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, ValidationError, UserRole } from '@/types'
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleListRules(req, res)
+      case 'POST':
+        return await handleCreateRule(req, res, getUserLabel(user))
+      case 'PATCH':
+        return await handleUpdateRule(req, res)
+      case 'DELETE':
+        return await handleDeleteRule(req, res)
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'PATCH', 'DELETE'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    logger.error('PII rules API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/pii/rules - List all rules
+ */
+async function handleListRules(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { team } = req.query
+  const rules = await piiRuleService.listRules()
+
+  return res.status(200).json({
+    success: true,
+    data: team ? rules.filter(rule => rule.builtIn || rule.team === team) : rules
+  })
+}
+
+/**
+ * Handle POST /api/pii/rules - Create a custom rule
+ * Body: { key, name, pattern, replacementText, piiType?, flags?, validator?, confidence?,
+ *         defaultStatus?, priority?, enabled?, team?, channels?, description? }
+ */
+async function handleCreateRule(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>, createdBy: string) {
+  const rule = await piiRuleService.createRule({ ...req.body, createdBy } as PIIRuleInput)
+
+  return res.status(201).json({
+    success: true,
+    data: rule,
+    message: `Rule ${rule.key} created`
+  })
+}
+
+/**
+ * Handle PATCH /api/pii/rules - Update a rule
+ * Body: { id, ...fields to change }
+ */
+async function handleUpdateRule(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { id, key: _key, createdBy: _createdBy, ...changes } = req.body || {}
+
+  if (!id) {
+    return res.status(400).json({
+      success: false,
+      error: 'id is required'
+    })
+  }
+
+  const rule = await piiRuleService.updateRule(id, changes as PIIRuleInput)
+
+  return res.status(200).json({
+    success: true,
+    data: rule,
+    message: `Rule ${rule.key} updated`
+  })
+}
+
+/**
+ * Handle DELETE /api/pii/rules?id=... - Delete a custom rule
+ */
+async function handleDeleteRule(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'id is required'
+    })
+  }
+
+  await piiRuleService.deleteRule(id)
+
+  return res.status(200).json({
+    success: true,
+    message: 'Rule deleted'
+  })
+}
+
+export default withAuth(handler, { roles: [UserRole.PII_REVIEWER] })
@@ -7,7 +7,8 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
-import { PIIType, PIIStatus, PIISourceType } from '@/types'
+import { withAuth } from '@/lib/auth'
+import { PIIType, PIIStatus, PIISourceType, UserRole } from '@/types'
 
 /**
  * Sample PII test data
@@ -60,7 +61,7 @@ const TEST_PII_DETECTIONS = [
 /**
  * Handle test data creation
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ): Promise<void> {
@@ -157,4 +158,6 @@ export default async function handler(
       message: error instanceof Error ? error.message : 'Unknown error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
@@ -12,6 +12,8 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
+import { vectorStoreService } from '@/lib/vectorStore'
 
 /**
  * Analytics Data Response Interface
@@ -27,7 +29,7 @@ interface AnalyticsResponse {
         documentProcessor: { status: 'healthy' | 'error'; error?: string }
         faqGenerator: { status: 'healthy' | 'error'; error?: string }
         piiDetector: { status: 'healthy' | 'error'; error?: string }
-        pinecone: { status: 'healthy' | 'error'; error?: string }
+        vectorStore: { status: 'healthy' | 'error'; error?: string }
       }
     }
     systemStats: {
@@ -61,7 +63,7 @@ interface AnalyticsResponse {
  * Analytics API Handler
  * Aggregates system data for analytics dashboard
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<AnalyticsResponse>
 ) {
@@ -317,7 +319,7 @@ async function getSystemHealth() {
     documentProcessor: await checkDocumentProcessorHealth(),
     faqGenerator: await checkFAQGeneratorHealth(),
     piiDetector: await checkPIIDetectorHealth(),
-    pinecone: await checkPineconeHealth()
+    vectorStore: await checkVectorStoreHealth()
   }
 
   const isHealthy = Object.values(services).every(service => service.status === 'healthy')
@@ -386,14 +388,18 @@ async function checkPIIDetectorHealth() {
   }
 }
 
-async function checkPineconeHealth() {
+async function checkVectorStoreHealth() {
   try {
-    // Simple health check - could be enhanced with actual Pinecone connection test
-    return { status: 'healthy' as const }
+    const health = await vectorStoreService.healthCheck()
+    return health.isHealthy
+      ? { status: 'healthy' as const }
+      : { status: 'error' as const, error: health.error }
   } catch (error) {
     return { 
       status: 'error' as const, 
-      error: 'Pinecone check failed' 
+      error: 'Vector store check failed' 
     }
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler)
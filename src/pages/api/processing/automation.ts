@@ -13,6 +13,9 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { backgroundJobService } from '@/lib/backgroundJobs'
+import { processingSettingsService } from '@/lib/processingSettings'
+import { withAuth } from '@/lib/auth'
+import type { ProcessingSettings } from '@/types'
 
 /**
  * Initialize default automation rules in the database
@@ -101,6 +104,8 @@ async function initializeDefaultAutomationRules() {
             where: { id: 'faq-automation' },
             data: {
               jobConfig: {
+                // Keep the saved schedule and run stats
+                ...(currentConfig || {}),
                 type: 'faq',
                 parameters: {
                   maxFAQsPerRun: currentConfig?.parameters?.maxFAQsPerRun || 10,
@@ -237,22 +242,7 @@ interface AutomationResponse {
         }
       } | null
     }
-    processingSettings: {
-      maxConcurrentJobs: number
-      defaultJobPriority: number
-      autoRetryFailedJobs: boolean
-      maxRetryAttempts: number
-      jobTimeoutMinutes: number
-      enableScheduledProcessing: boolean
-      enableAutoCleanup: boolean
-      cleanupRetentionDays: number
-      notificationSettings: {
-        enableEmailAlerts: boolean
-        enableSlackAlerts: boolean
-        alertOnFailure: boolean
-        alertOnSuccess: boolean
-      }
-    }
+    processingSettings: ProcessingSettings
   }
   error?: string
 }
@@ -261,7 +251,7 @@ interface AutomationResponse {
  * Automation API Handler
  * Aggregates automation data for the automation dashboard
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<AutomationResponse>
 ) {
@@ -461,6 +451,14 @@ async function getJobStatistics() {
   }
 }
 
+/**
+ * Get the saved schedule for a rule
+ * The rules endpoint stores dashboard schedules under jobConfig.schedule
+ */
+function getRuleSchedule(jobConfig: any): Record<string, any> {
+  return jobConfig?.schedule || jobConfig?.trigger?.schedule || jobConfig?.trigger || {}
+}
+
 /**
  * Get Automation Configuration
  * Retrieves real automation settings from database for job processing
@@ -478,13 +476,13 @@ async function getAutomationRules() {
       description: docRule.description,
       enabled: docRule.enabled,
       schedule: {
-        frequency: ((docRule.jobConfig as any)?.trigger?.schedule?.frequency || 'manual') as 'manual' | 'hourly' | 'daily' | 'weekly' | 'custom',
-        hour: (docRule.jobConfig as any)?.trigger?.schedule?.hour || null,
-        dayOfWeek: (docRule.jobConfig as any)?.trigger?.schedule?.dayOfWeek || null,
-        customInterval: (docRule.jobConfig as any)?.trigger?.customInterval || 1,
-        customUnit: ((docRule.jobConfig as any)?.trigger?.customUnit || 'hours') as 'minutes' | 'hours' | 'days' | 'weeks',
-        customTime: (docRule.jobConfig as any)?.trigger?.customTime || '09:00',
-        customDayOfWeek: (docRule.jobConfig as any)?.trigger?.customDayOfWeek || 1,
+        frequency: (getRuleSchedule(docRule.jobConfig).frequency || 'manual') as 'manual' | 'hourly' | 'daily' | 'weekly' | 'custom',
+        hour: getRuleSchedule(docRule.jobConfig).hour || null,
+        dayOfWeek: getRuleSchedule(docRule.jobConfig).dayOfWeek || null,
+        customInterval: getRuleSchedule(docRule.jobConfig).customInterval || 1,
+        customUnit: (getRuleSchedule(docRule.jobConfig).customUnit || 'hours') as 'minutes' | 'hours' | 'days' | 'weeks',
+        customTime: getRuleSchedule(docRule.jobConfig).customTime || '09:00',
+        customDayOfWeek: getRuleSchedule(docRule.jobConfig).customDayOfWeek || 1,
         lastRun: docRule.lastRun?.toISOString() || null,
         nextRun: docRule.nextRun?.toISOString() || null
       },
@@ -511,13 +509,13 @@ async function getAutomationRules() {
       description: faqRule.description,
       enabled: faqRule.enabled,
       schedule: {
-        frequency: ((faqRule.jobConfig as any)?.trigger?.frequency || 'manual') as 'manual' | 'hourly' | 'daily' | 'weekly' | 'custom',
-        hour: (faqRule.jobConfig as any)?.trigger?.hour || null,
-        dayOfWeek: (faqRule.jobConfig as any)?.trigger?.dayOfWeek || null,
-        customInterval: (faqRule.jobConfig as any)?.trigger?.customInterval || 1,
-        customUnit: ((faqRule.jobConfig as any)?.trigger?.customUnit || 'hours') as 'minutes' | 'hours' | 'days' | 'weeks',
-        customTime: (faqRule.jobConfig as any)?.trigger?.customTime || '09:00',
-        customDayOfWeek: (faqRule.jobConfig as any)?.trigger?.customDayOfWeek || 1,
+        frequency: (getRuleSchedule(faqRule.jobConfig).frequency || 'manual') as 'manual' | 'hourly' | 'daily' | 'weekly' | 'custom',
+        hour: getRuleSchedule(faqRule.jobConfig).hour || null,
+        dayOfWeek: getRuleSchedule(faqRule.jobConfig).dayOfWeek || null,
+        customInterval: getRuleSchedule(faqRule.jobConfig).customInterval || 1,
+        customUnit: (getRuleSchedule(faqRule.jobConfig).customUnit || 'hours') as 'minutes' | 'hours' | 'days' | 'weeks',
+        customTime: getRuleSchedule(faqRule.jobConfig).customTime || '09:00',
+        customDayOfWeek: getRuleSchedule(faqRule.jobConfig).customDayOfWeek || 1,
         lastRun: faqRule.lastRun?.toISOString() || null,
         nextRun: faqRule.nextRun?.toISOString() || null
       },
@@ -609,23 +607,8 @@ async function getAutomationRules() {
  * Get Processing Settings
  * Retrieves current system processing configuration
  */
-async function getProcessingSettings() {
-  // For now, return default settings
-  // In a real implementation, these would be stored in the database or configuration
-  return {
-    maxConcurrentJobs: 5,
-    defaultJobPriority: 0,
-    autoRetryFailedJobs: true,
-    maxRetryAttempts: 3,
-    jobTimeoutMinutes: 30,
-    enableScheduledProcessing: true,
-    enableAutoCleanup: true,
-    cleanupRetentionDays: 30,
-    notificationSettings: {
-      enableEmailAlerts: false,
-      enableSlackAlerts: true,
-      alertOnFailure: true,
-      alertOnSuccess: false
-    }
-  }
-} 
\ No newline at end of file
+async function getProcessingSettings(): Promise<ProcessingSettings> {
+  return processingSettingsService.getSettings()
+}
+
+export default withAuth(handler)
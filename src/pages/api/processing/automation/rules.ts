@@ -7,8 +7,10 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
-import { backgroundJobService } from '@/lib/backgroundJobs'
-import { ApiResponse, ValidationError, DatabaseError } from '@/types'
+import { automationSchedulerService } from '@/lib/automationScheduler'
+import { isValidCronExpression } from '@/lib/cronSchedule'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, ValidationError, DatabaseError, UserRole } from '@/types'
 
 /**
  * Automation rule interface
@@ -52,18 +54,19 @@ interface AutomationRule {
 /**
  * Automation Rules API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<any>>
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
 ) {
   try {
     switch (req.method) {
       case 'GET':
         return await handleGetRules(req, res)
       case 'POST':
-        return await handleCreateRule(req, res)
+        return await handleCreateRule(req, res, getUserLabel(user))
       case 'PATCH':
-        return await handleUpdateRule(req, res)
+        return await handleUpdateRule(req, res, getUserLabel(user))
       case 'DELETE':
         return await handleDeleteRule(req, res)
       default:
@@ -138,7 +141,8 @@ async function handleGetRules(
  */
 async function handleCreateRule(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<{ ruleId: string }>>
+  res: NextApiResponse<ApiResponse<{ ruleId: string }>>,
+  createdBy: string
 ) {
   try {
     const { name, description, trigger, action, permissions = [] } = req.body
@@ -172,6 +176,8 @@ async function handleCreateRule(
         name,
         description,
         enabled: true,
+        schedule: trigger.type === 'schedule' ? trigger.schedule : null,
+        jobType: action.type === 'faq' ? 'FAQ_GENERATION' : 'DOCUMENT_CREATION',
         jobConfig: {
           trigger: trigger,
           action: action,
@@ -182,7 +188,7 @@ async function handleCreateRule(
             failureCount: 0
           }
         },
-        createdBy: 'system', // TODO: Get from auth context
+        createdBy,
         runCount: 0
       }
     })
@@ -221,7 +227,8 @@ async function handleCreateRule(
  */
 async function handleUpdateRule(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<AutomationRule>>
+  res: NextApiResponse<ApiResponse<AutomationRule>>,
+  updatedBy: string
 ) {
   try {
     const { ruleId, enabled, name, description, trigger, action, permissions, schedule, settings } = req.body
@@ -266,6 +273,9 @@ async function handleUpdateRule(
         where: { id: ruleId },
         data: updateData
       })
+
+      // Recalculate the next run from the saved schedule
+      const nextRun = await automationSchedulerService.rescheduleRule(ruleId)
       
       // Build and return the updated automation rule
       const automationRule: AutomationRule = {
@@ -286,6 +296,7 @@ async function handleUpdateRule(
         metadata: {
           createdBy: 'system',
           createdAt: new Date().toISOString(),
+          nextRun: nextRun?.toISOString(),
           runCount: 0,
           successCount: 0,
           failureCount: 0,
@@ -316,7 +327,7 @@ async function handleUpdateRule(
 
       // Build update data
       const updateData: any = {
-        updatedBy: 'system', // TODO: Get from auth context
+        updatedBy,
         updatedAt: new Date()
       }
 
@@ -336,6 +347,7 @@ async function handleUpdateRule(
         validateTrigger(trigger)
         updateData.triggerType = trigger.type
         updateData.triggerConfig = trigger
+        updateData.schedule = trigger.type === 'schedule' ? trigger.schedule : null
       }
 
       if (action !== undefined) {
@@ -503,9 +515,7 @@ function validateTrigger(trigger: any): void {
       throw new ValidationError('Schedule trigger requires a cron expression')
     }
     
-    // Validate cron expression format (basic validation)
-    const cronParts = trigger.schedule.split(' ')
-    if (cronParts.length !== 5 && cronParts.length !== 6) {
+    if (!isValidCronExpression(trigger.schedule)) {
       throw new ValidationError('Invalid cron expression format')
     }
   }
@@ -534,26 +544,19 @@ function validateAction(action: any): void {
 
 /**
  * Schedule an automation rule with cron scheduling
+ * The automation scheduler picks the rule up once its nextRun comes due
  */
 async function scheduleAutomationRule(ruleId: string, cronExpression: string): Promise<void> {
   try {
-    // This would integrate with a job scheduler like node-cron or Bull
-    // For now, we'll log the scheduling action
     logger.info(`Scheduling automation rule ${ruleId} with cron: ${cronExpression}`)
-    
-    // TODO: Implement actual scheduling with your preferred scheduler
-    // Example with node-cron:
-    // cron.schedule(cronExpression, async () => {
-    //   await executeAutomationRule(ruleId)
-    // })
-    
-    // Update next run time in database
-    const nextRun = calculateNextRun(cronExpression)
+
     await db.automationRule.update({
       where: { id: ruleId },
-      data: { nextRun }
+      data: { schedule: cronExpression }
     })
-    
+
+    await automationSchedulerService.rescheduleRule(ruleId)
+
   } catch (error) {
     logger.error(`Failed to schedule automation rule ${ruleId}:`, error)
     throw error
@@ -566,134 +569,17 @@ async function scheduleAutomationRule(ruleId: string, cronExpression: string): P
 async function unscheduleAutomationRule(ruleId: string): Promise<void> {
   try {
     logger.info(`Unscheduling automation rule ${ruleId}`)
-    
-    // TODO: Remove from scheduler
-    
-    // Clear next run time
-    await db.automationRule.update({
-      where: { id: ruleId },
-      data: { nextRun: null }
-    })
-    
-  } catch (error) {
-    logger.error(`Failed to unschedule automation rule ${ruleId}:`, error)
-    throw error
-  }
-}
 
-/**
- * Calculate next run time from cron expression
- */
-function calculateNextRun(cronExpression: string): Date {
-  // This is a simplified implementation
-  // In production, use a proper cron parser like 'cron-parser'
-  const now = new Date()
-  const nextRun = new Date(now.getTime() + 60 * 60 * 1000) // Add 1 hour as placeholder
-  return nextRun
-}
-
-/**
- * Execute an automation rule
- */
-async function executeAutomationRule(ruleId: string): Promise<void> {
-  let rule = null
-  
-  try {
-    rule = await db.automationRule.findUnique({
-      where: { id: ruleId }
-    })
-
-    if (!rule || !rule.enabled) {
-      return
-    }
-
-    logger.info(`Executing automation rule: ${ruleId}`)
-
-    const startTime = Date.now()
-    
-    // Update run count
+    // Clear next run time so the scheduler no longer picks the rule up
     await db.automationRule.update({
       where: { id: ruleId },
-      data: {
-        runCount: rule.runCount + 1,
-        lastRun: new Date()
-      }
-    })
-
-    // Execute the action based on rule configuration
-    await executeRuleAction(rule)
-
-    const executionTime = Date.now() - startTime
-    
-    // Update success metrics
-    const currentStats = (rule.jobConfig as any)?.stats || { successCount: 0, avgExecutionTime: 0, failureCount: 0 }
-    const newJobConfig = {
-      ...(rule.jobConfig as any),
-      stats: {
-        ...currentStats,
-        successCount: currentStats.successCount + 1,
-        avgExecutionTime: Math.round(
-          (currentStats.avgExecutionTime * rule.runCount + executionTime) / (rule.runCount + 1)
-        )
-      }
-    }
-    
-    await db.automationRule.update({
-      where: { id: ruleId },
-      data: {
-        jobConfig: newJobConfig
-      }
+      data: { nextRun: null }
     })
 
-    logger.info(`Successfully executed automation rule: ${ruleId}`)
-
   } catch (error) {
-    // Update failure count if rule exists
-    if (rule) {
-      const currentStats = (rule.jobConfig as any)?.stats || { successCount: 0, avgExecutionTime: 0, failureCount: 0 }
-      const newJobConfig = {
-        ...(rule.jobConfig as any),
-        stats: {
-          ...currentStats,
-          failureCount: currentStats.failureCount + 1
-        }
-      }
-      
-      await db.automationRule.update({
-        where: { id: ruleId },
-        data: { jobConfig: newJobConfig }
-      })
-    }
-
-    logger.error(`Failed to execute automation rule ${ruleId}:`, error)
+    logger.error(`Failed to unschedule automation rule ${ruleId}:`, error)
     throw error
   }
 }
 
-/**
- * Execute the specific action defined in a rule
- */
-async function executeRuleAction(rule: any): Promise<void> {
-  const actionConfig = rule.actionConfig || {}
-  
-  switch (rule.actionType) {
-    case 'document':
-      await backgroundJobService.addDocumentProcessingJob(actionConfig.parameters)
-      break
-      
-    case 'faq':
-      await backgroundJobService.addFAQGenerationJob(actionConfig.parameters)
-      break
-      
-    case 'cleanup':
-      // Add cleanup job
-      break
-      
-    case 'batch':
-      // Execute batch processing
-      break
-      
-    default:
-      logger.warn(`Unknown action type: ${rule.actionType}`)
-  }
-} 
\ No newline at end of file
+export default withAuth(handler, { write: [UserRole.ADMIN] })
@@ -8,7 +8,8 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
 import { backgroundJobService } from '@/lib/backgroundJobs'
-import { ApiResponse, ValidationError, DatabaseError } from '@/types'
+import { hasRole, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, ValidationError, DatabaseError, UserRole } from '@/types'
 
 /**
  * Job management response interface
@@ -23,14 +24,15 @@ interface JobManagementResponse {
 /**
  * Job Management API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<JobManagementResponse>>
+  res: NextApiResponse<ApiResponse<JobManagementResponse>>,
+  { user }: AuthContext
 ) {
   try {
     switch (req.method) {
       case 'POST':
-        return await handleJobAction(req, res)
+        return await handleJobAction(req, res, user)
       default:
         res.setHeader('Allow', ['POST'])
         return res.status(405).json({
@@ -52,7 +54,8 @@ export default async function handler(
  */
 async function handleJobAction(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<JobManagementResponse>>
+  res: NextApiResponse<ApiResponse<JobManagementResponse>>,
+  user: AuthContext['user']
 ) {
   try {
     const { action, jobIds, options = {} } = req.body
@@ -72,6 +75,13 @@ async function handleJobAction(
       throw new ValidationError(`Invalid action: ${action}. Valid actions: ${validActions.join(', ')}`)
     }
 
+    if (!hasRole(user, JOB_ACTION_ROLES[action])) {
+      return res.status(403).json({
+        success: false,
+        error: `Only ${JOB_ACTION_ROLES[action].join(', ')} users can ${action} jobs`
+      })
+    }
+
     logger.info(`Processing ${action} action for ${jobIds.length} jobs`)
 
     const results: Record<string, any> = {}
@@ -356,27 +366,16 @@ async function deleteJob(jobId: string, jobStatus: any, dbJob: any, options: any
 }
 
 /**
- * Validate user permissions for job actions
- * This would integrate with your authentication/authorization system
+ * Roles allowed to perform each job action - only admins can delete jobs
  */
-function validatePermissions(action: string, userId?: string): boolean {
-  // TODO: Implement proper permission checking
-  // For now, return true - in production, check user roles/permissions
-  
-  const actionPermissions = {
-    start: ['admin', 'operator'],
-    stop: ['admin', 'operator'],
-    pause: ['admin', 'operator'],
-    resume: ['admin', 'operator'],
-    retry: ['admin', 'operator'],
-    delete: ['admin'], // Only admins can delete
-    cancel: ['admin', 'operator']
-  }
-  
-  // In a real implementation, you would:
-  // 1. Get user from token/session
-  // 2. Check user role against required permissions
-  // 3. Return true/false based on authorization
-  
-  return true
-} 
\ No newline at end of file
+const JOB_ACTION_ROLES: Record<string, UserRole[]> = {
+  start: [UserRole.CURATOR],
+  stop: [UserRole.CURATOR],
+  pause: [UserRole.CURATOR],
+  resume: [UserRole.CURATOR],
+  retry: [UserRole.CURATOR],
+  delete: [UserRole.ADMIN],
+  cancel: [UserRole.CURATOR]
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
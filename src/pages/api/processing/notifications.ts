@@ -0,0 +1,153 @@
+/**
+ * Processing Notifications API Endpoint
+ * Lists the delivery history of job status notifications,
+ * sends test notifications and retries failed deliveries
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { notificationDispatcherService } from '@/lib/notificationDispatcher'
+import { withAuth } from '@/lib/auth'
+import {
+  ApiResponse,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationStatus,
+  ValidationError,
+  UserRole
+} from '@/types'
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleListDeliveries(req, res)
+      case 'POST':
+        return await handleDeliveryAction(req, res)
+      default:
+        res.setHeader('Allow', ['GET', 'POST'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    logger.error('Processing notifications API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/processing/notifications - Delivery history, newest first
+ * Query: status?, channel?, event?, jobId?, page?, limit?
+ */
+async function handleListDeliveries(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { status, channel, event, jobId, page = '1', limit = '50' } = req.query
+  const pageNum = Math.max(1, parseInt(page as string) || 1)
+  const limitNum = Math.min(200, Math.max(1, parseInt(limit as string) || 50))
+
+  const { deliveries, total } = await notificationDispatcherService.listDeliveries({
+    status: parseFilter(status, NotificationStatus, 'status'),
+    channel: parseFilter(channel, NotificationChannel, 'channel'),
+    event: parseFilter(event, NotificationEvent, 'event'),
+    jobId: typeof jobId === 'string' ? jobId : undefined,
+    skip: (pageNum - 1) * limitNum,
+    take: limitNum
+  })
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      deliveries,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        hasNext: pageNum * limitNum < total,
+        hasPrev: pageNum > 1
+      }
+    }
+  })
+}
+
+/**
+ * Handle POST /api/processing/notifications
+ * Body: { action: 'test' } - send a test notification on every enabled channel
+ *       { action: 'redeliver', id } - retry a recorded delivery
+ */
+async function handleDeliveryAction(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { action, id } = req.body || {}
+
+  switch (action) {
+    case 'test': {
+      const deliveries = await notificationDispatcherService.sendTestNotification()
+
+      return res.status(200).json({
+        success: true,
+        data: deliveries,
+        message: deliveries.length > 0
+          ? `Sent test notification to ${deliveries.length} channel(s)`
+          : 'No notification channels are enabled'
+      })
+    }
+
+    case 'redeliver': {
+      if (!id || typeof id !== 'string') {
+        throw new ValidationError('id is required')
+      }
+
+      const delivery = await notificationDispatcherService.redeliver(id)
+      if (!delivery) {
+        return res.status(404).json({
+          success: false,
+          error: 'Notification delivery not found'
+        })
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: delivery,
+        message: `Redelivery ${delivery.status.toLowerCase()}`
+      })
+    }
+
+    default:
+      throw new ValidationError("Invalid action. Use: 'test', 'redeliver'")
+  }
+}
+
+/**
+ * Validate an optional enum query filter
+ */
+function parseFilter<T extends string>(
+  value: string | string[] | undefined,
+  allowed: Record<string, T>,
+  name: string
+): T | undefined {
+  if (value === undefined) return undefined
+
+  if (typeof value !== 'string' || !Object.values(allowed).includes(value as T)) {
+    throw new ValidationError(`Invalid ${name}. Use: ${Object.values(allowed).join(', ')}`)
+  }
+
+  return value as T
+}
+
+export default withAuth(handler, { write: [UserRole.ADMIN] })
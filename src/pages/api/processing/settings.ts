@@ -5,189 +5,29 @@
  */
 
 import { NextApiRequest, NextApiResponse } from 'next'
-import { db } from '@/lib/db'
 import { logger } from '@/lib/logger'
-import { ApiResponse, ValidationError, DatabaseError } from '@/types'
-
-/**
- * Processing settings interface
- */
-interface ProcessingSettings {
-  // Job Management Settings
-  maxConcurrentJobs: number
-  defaultJobPriority: number
-  jobTimeoutMinutes: number
-  maxRetryAttempts: number
-  autoRetryFailedJobs: boolean
-  retryBackoffMultiplier: number
-  
-  // Processing Settings
-  enableScheduledProcessing: boolean
-  scheduledProcessingInterval: number // minutes
-  batchProcessingSize: number
-  enableParallelProcessing: boolean
-  
-  // Cleanup Settings
-  enableAutoCleanup: boolean
-  cleanupRetentionDays: number
-  cleanupSchedule: string // cron expression
-  deleteFailedJobsAfterDays: number
-  
-  // Notification Settings
-  notificationSettings: {
-    enableEmailAlerts: boolean
-    enableSlackAlerts: boolean
-    enableWebhookAlerts: boolean
-    alertOnJobStart: boolean
-    alertOnJobComplete: boolean
-    alertOnJobFailure: boolean
-    alertOnJobTimeout: boolean
-    alertThresholdMinutes: number
-    emailRecipients: string[]
-    slackChannel: string
-    webhookUrl: string
-  }
-  
-  // Performance Settings
-  resourceLimits: {
-    maxMemoryMB: number
-    maxCpuPercent: number
-    maxDiskSpaceMB: number
-  }
-  
-  // Feature Flags
-  featureFlags: {
-    enableAdvancedAnalytics: boolean
-    enableRealTimeUpdates: boolean
-    enableJobProfiling: boolean
-    enableDebugMode: boolean
-  }
-  
-  // Integration Settings
-  integrationSettings: {
-    geminiSettings: {
-      enabled: boolean
-      model: string
-      temperature: number
-      maxTokens: number
-      rateLimitPerMinute: number
-    }
-    pineconeSettings: {
-      enabled: boolean
-      environment: string
-      indexName: string
-      dimension: number
-    }
-    slackSettings: {
-      enabled: boolean
-      botToken: string
-      signingSecret: string
-      defaultChannel: string
-    }
-  }
-  
-  // Metadata
-  metadata: {
-    lastUpdated: string
-    updatedBy: string
-    version: string
-    environment: string
-  }
-}
-
-/**
- * Default settings configuration
- */
-const DEFAULT_SETTINGS: ProcessingSettings = {
-  maxConcurrentJobs: 5,
-  defaultJobPriority: 0,
-  jobTimeoutMinutes: 30,
-  maxRetryAttempts: 3,
-  autoRetryFailedJobs: true,
-  retryBackoffMultiplier: 2,
-  
-  enableScheduledProcessing: true,
-  scheduledProcessingInterval: 15,
-  batchProcessingSize: 10,
-  enableParallelProcessing: true,
-  
-  enableAutoCleanup: true,
-  cleanupRetentionDays: 30,
-  cleanupSchedule: '0 2 * * *', // Daily at 2 AM
-  deleteFailedJobsAfterDays: 7,
-  
-  notificationSettings: {
-    enableEmailAlerts: false,
-    enableSlackAlerts: true,
-    enableWebhookAlerts: false,
-    alertOnJobStart: false,
-    alertOnJobComplete: false,
-    alertOnJobFailure: true,
-    alertOnJobTimeout: true,
-    alertThresholdMinutes: 60,
-    emailRecipients: [],
-    slackChannel: '#processing-alerts',
-    webhookUrl: ''
-  },
-  
-  resourceLimits: {
-    maxMemoryMB: 2048,
-    maxCpuPercent: 80,
-    maxDiskSpaceMB: 10240
-  },
-  
-  featureFlags: {
-    enableAdvancedAnalytics: true,
-    enableRealTimeUpdates: true,
-    enableJobProfiling: false,
-    enableDebugMode: false
-  },
-  
-  integrationSettings: {
-    geminiSettings: {
-      enabled: true,
-      model: 'gemini-pro',
-      temperature: 0.7,
-      maxTokens: 4096,
-      rateLimitPerMinute: 60
-    },
-    pineconeSettings: {
-      enabled: true,
-      environment: process.env.PINECONE_ENVIRONMENT || 'development',
-      indexName: process.env.PINECONE_INDEX || 'sf-listen-bot',
-      dimension: 1536
-    },
-    slackSettings: {
-      enabled: true,
-      botToken: process.env.SLACK_BOT_TOKEN || '',
-      signingSecret: process.env.SLACK_SIGNING_SECRET || '',
-      defaultChannel: '#general'
-    }
-  },
-  
-  metadata: {
-    lastUpdated: new Date().toISOString(),
-    updatedBy: 'system',
-    version: '1.0.0',
-    environment: process.env.NODE_ENV || 'development'
-  }
-}
+import { processingSettingsService, DEFAULT_SETTINGS } from '@/lib/processingSettings'
+import { llmService, resolveLLMSettings } from '@/lib/llm'
+import { vectorStoreService } from '@/lib/vectorStore'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
+import { ApiResponse, ValidationError, DatabaseError, ProcessingSettings, UserRole } from '@/types'
 
 /**
  * Processing Settings API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<any>>
+  res: NextApiResponse<ApiResponse<any>>,
+  { user }: AuthContext
 ) {
   try {
     switch (req.method) {
       case 'GET':
         return await handleGetSettings(req, res)
       case 'PATCH':
-        return await handleUpdateSettings(req, res)
+        return await handleUpdateSettings(req, res, getUserLabel(user))
       case 'POST':
-        return await handleResetSettings(req, res)
+        return await handleResetSettings(req, res, getUserLabel(user))
       default:
         res.setHeader('Allow', ['GET', 'PATCH', 'POST'])
         return res.status(405).json({
@@ -212,7 +52,7 @@ async function handleGetSettings(
   res: NextApiResponse<ApiResponse<ProcessingSettings>>
 ) {
   try {
-    const settings = await getCurrentSettings()
+    const settings = await processingSettingsService.getSettings()
     
     logger.info('Retrieved processing settings')
     
@@ -232,7 +72,8 @@ async function handleGetSettings(
  */
 async function handleUpdateSettings(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<{ updated: boolean }>>
+  res: NextApiResponse<ApiResponse<{ updated: boolean }>>,
+  updatedBy: string
 ) {
   try {
     const updates = req.body
@@ -242,23 +83,23 @@ async function handleUpdateSettings(
     }
 
     // Get current settings
-    const currentSettings = await getCurrentSettings()
+    const currentSettings = await processingSettingsService.getSettings()
     
     // Validate updates
     const validatedUpdates = validateSettingsUpdates(updates, currentSettings)
     
     // Merge updates with current settings
-    const newSettings = mergeSettings(currentSettings, validatedUpdates)
+    const newSettings = processingSettingsService.mergeSettings(currentSettings, validatedUpdates)
     
     // Update metadata
     newSettings.metadata = {
       ...newSettings.metadata,
       lastUpdated: new Date().toISOString(),
-      updatedBy: 'system' // TODO: Get from auth context
+      updatedBy
     }
     
     // Save settings
-    await saveSettings(newSettings)
+    await processingSettingsService.saveSettings(newSettings)
     
     // Apply runtime changes
     await applySettingsChanges(validatedUpdates, currentSettings)
@@ -292,7 +133,8 @@ async function handleUpdateSettings(
  */
 async function handleResetSettings(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<{ reset: boolean }>>
+  res: NextApiResponse<ApiResponse<{ reset: boolean }>>,
+  updatedBy: string
 ) {
   try {
     const { confirmReset } = req.body
@@ -307,11 +149,13 @@ async function handleResetSettings(
       metadata: {
         ...DEFAULT_SETTINGS.metadata,
         lastUpdated: new Date().toISOString(),
-        updatedBy: 'system' // TODO: Get from auth context
+        updatedBy
       }
     }
     
-    await saveSettings(defaultSettings)
+    await processingSettingsService.saveSettings(defaultSettings)
+    llmService.invalidate()
+    vectorStoreService.invalidate()
     
     logger.info('Reset processing settings to defaults')
     
@@ -337,58 +181,6 @@ async function handleResetSettings(
   }
 }
 
-/**
- * Get current processing settings
- */
-async function getCurrentSettings(): Promise<ProcessingSettings> {
-  try {
-    // Try to get settings from database
-    const dbSettings = await db.processingSettings.findFirst({
-      orderBy: { updatedAt: 'desc' }
-    })
-
-    if (dbSettings && dbSettings.settings) {
-      // Merge with defaults to ensure all properties exist
-      return mergeSettings(DEFAULT_SETTINGS, dbSettings.settings as any)
-    }
-
-    // Return defaults if no settings exist
-    return DEFAULT_SETTINGS
-
-  } catch (error) {
-    logger.warn('Failed to load settings from database, using defaults:', error)
-    return DEFAULT_SETTINGS
-  }
-}
-
-/**
- * Save processing settings
- */
-async function saveSettings(settings: ProcessingSettings): Promise<void> {
-  try {
-    // Upsert settings in database
-    await db.processingSettings.upsert({
-      where: {
-        id: 'default' // Single settings record
-      },
-      update: {
-        settings: settings as any,
-        updatedAt: new Date()
-      },
-      create: {
-        id: 'default',
-        settings: settings as any,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }
-    })
-
-  } catch (error) {
-    logger.error('Failed to save settings to database:', error)
-    throw new DatabaseError('Failed to save settings', error)
-  }
-}
-
 /**
  * Validate settings updates
  */
@@ -446,7 +238,7 @@ function validateSettingsUpdates(updates: any, currentSettings: ProcessingSettin
   }
 
   if (updates.integrationSettings) {
-    validatedUpdates.integrationSettings = validateIntegrationSettings(updates.integrationSettings)
+    validatedUpdates.integrationSettings = validateIntegrationSettings(updates.integrationSettings, currentSettings)
   }
 
   return validatedUpdates
@@ -486,7 +278,7 @@ function validateNotificationSettings(notifications: any): any {
     if (!Array.isArray(notifications.emailRecipients)) {
       throw new ValidationError('Email recipients must be an array')
     }
-    validated.emailRecipients = notifications.emailRecipients
+    validated.emailRecipients = notifications.emailRecipients.map((recipient: unknown) => String(recipient).trim()).filter(Boolean)
   }
 
   if (notifications.slackChannel !== undefined) {
@@ -494,7 +286,11 @@ function validateNotificationSettings(notifications: any): any {
   }
 
   if (notifications.webhookUrl !== undefined) {
-    validated.webhookUrl = String(notifications.webhookUrl)
+    const webhookUrl = String(notifications.webhookUrl).trim()
+    if (webhookUrl && !/^https?:\/\//i.test(webhookUrl)) {
+      throw new ValidationError('Webhook URL must start with http:// or https://')
+    }
+    validated.webhookUrl = webhookUrl
   }
 
   return validated
@@ -531,7 +327,8 @@ function validateFeatureFlags(flags: any): any {
     'enableAdvancedAnalytics',
     'enableRealTimeUpdates',
     'enableJobProfiling',
-    'enableDebugMode'
+    'enableDebugMode',
+    'requireReapprovalAfterEnhancement'
   ]
 
   for (const field of booleanFields) {
@@ -546,9 +343,23 @@ function validateFeatureFlags(flags: any): any {
 /**
  * Validate integration settings
  */
-function validateIntegrationSettings(integrations: any): any {
+function validateIntegrationSettings(integrations: any, currentSettings: ProcessingSettings): any {
   const validated: any = {}
 
+  if (integrations.llmSettings) {
+    validated.llmSettings = validateLLMSettings(integrations.llmSettings, currentSettings)
+  }
+
+  if (integrations.vectorStoreSettings) {
+    const stores = ['pinecone', 'pgvector']
+    const provider = integrations.vectorStoreSettings.provider
+
+    if (!stores.includes(provider)) {
+      throw new ValidationError(`vectorStoreSettings.provider must be one of: ${stores.join(', ')}`)
+    }
+    validated.vectorStoreSettings = { provider }
+  }
+
   if (integrations.geminiSettings) {
     validated.geminiSettings = {}
     const gemini = integrations.geminiSettings
@@ -592,25 +403,40 @@ function validateIntegrationSettings(integrations: any): any {
 }
 
 /**
- * Merge settings objects, preserving structure
+ * Validate LLM provider settings
+ * Settings are only merged one level deep, so the result is the complete llmSettings block
  */
-function mergeSettings(base: ProcessingSettings, updates: Partial<ProcessingSettings>): ProcessingSettings {
-  const merged = { ...base } as any
-
-  for (const [key, value] of Object.entries(updates)) {
-    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-      // Deep merge objects
-      merged[key] = {
-        ...(merged[key] || {}),
-        ...value
+function validateLLMSettings(llm: any, currentSettings: ProcessingSettings): any {
+  const providers = ['gemini', 'openai', 'local']
+  const validated = resolveLLMSettings(currentSettings.integrationSettings?.llmSettings)
+
+  for (const field of ['provider', 'embeddingProvider'] as const) {
+    if (llm[field] !== undefined) {
+      if (!providers.includes(llm[field])) {
+        throw new ValidationError(`${field} must be one of: ${providers.join(', ')}`)
+      }
+      validated[field] = llm[field]
+    }
+  }
+
+  for (const provider of ['gemini', 'openai', 'local'] as const) {
+    const updates = llm[provider]
+    if (!updates) continue
+
+    for (const [field, value] of Object.entries(updates)) {
+      if (!(field in validated[provider])) continue
+
+      if (typeof value !== 'string' || !value.trim()) {
+        throw new ValidationError(`${provider}.${field} must be a non-empty string`)
+      }
+      if (field === 'baseUrl' && !/^https?:\/\//.test(value)) {
+        throw new ValidationError(`${provider}.baseUrl must be an http(s) URL`)
       }
-    } else {
-      // Direct assignment for primitives and arrays
-      merged[key] = value
+      (validated[provider] as Record<string, string>)[field] = value.trim()
     }
   }
 
-  return merged as ProcessingSettings
+  return validated
 }
 
 /**
@@ -630,10 +456,22 @@ async function applySettingsChanges(updates: Partial<ProcessingSettings>, curren
       // TODO: Update cleanup job scheduling
     }
 
+    // Providers are picked per call, so dropping the cached settings is enough
+    if (updates.integrationSettings?.llmSettings) {
+      llmService.invalidate()
+      logger.info('Updating LLM provider configuration')
+    }
+
+    // Switching stores does not copy vectors; run the vector migration first
+    if (updates.integrationSettings?.vectorStoreSettings) {
+      vectorStoreService.invalidate()
+      logger.info(`Switching vector store to ${updates.integrationSettings.vectorStoreSettings.provider}`)
+    }
+
     // Apply notification changes
     if (updates.notificationSettings) {
+      // The notification dispatcher reads settings for every job event, so nothing to reload here
       logger.info('Updating notification configuration')
-      // TODO: Update notification service configuration
     }
 
     logger.info('Applied runtime settings changes')
@@ -642,4 +480,6 @@ async function applySettingsChanges(updates: Partial<ProcessingSettings>, curren
     logger.error('Failed to apply runtime settings changes:', error)
     // Don't throw here - settings were saved successfully
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.ADMIN] })
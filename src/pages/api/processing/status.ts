@@ -10,12 +10,14 @@ import { logger } from '@/lib/logger'
 import { documentProcessorService } from '@/lib/documentProcessor'
 import { faqGeneratorService } from '@/lib/faqGenerator'
 import { piiDetectorService } from '@/lib/piiDetector'
-import { pineconeService } from '@/lib/pinecone'
+import { vectorStoreService } from '@/lib/vectorStore'
+import { withAuth } from '@/lib/auth'
 import { 
   ApiResponse, 
   AutomationJob,
   ValidationError,
-  DatabaseError
+  DatabaseError,
+  UserRole
 } from '@/types'
 
 /**
@@ -29,7 +31,7 @@ interface ProcessingStatusResponse {
       documentProcessor: { status: 'healthy' | 'error'; error?: string; stats?: any }
       faqGenerator: { status: 'healthy' | 'error'; error?: string; stats?: any }
       piiDetector: { status: 'healthy' | 'error'; error?: string; stats?: any }
-      pinecone: { status: 'healthy' | 'error'; error?: string; stats?: any }
+      vectorStore: { status: 'healthy' | 'error'; error?: string; stats?: any }
     }
   }
   processingJobs: {
@@ -58,7 +60,7 @@ interface ProcessingStatusResponse {
 /**
  * Processing Status API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<ProcessingStatusResponse | AutomationJob | { jobId: string }>>
 ) {
@@ -102,13 +104,13 @@ async function handleGetSystemStatus(
       docProcessorHealth,
       faqGeneratorHealth,
       piiDetectorHealth,
-      pineconeHealth
+      vectorStoreHealth
     ] = await Promise.allSettled([
       checkDatabaseHealth(),
       documentProcessorService.healthCheck(),
       faqGeneratorService.healthCheck(),
       piiDetectorService.healthCheck(),
-      pineconeService.healthCheck()
+      vectorStoreService.healthCheck()
     ])
 
     // Get processing jobs status
@@ -128,7 +130,7 @@ async function handleGetSystemStatus(
           docProcessorHealth,
           faqGeneratorHealth,
           piiDetectorHealth,
-          pineconeHealth
+          vectorStoreHealth
         ].every(result => result.status === 'fulfilled' && (typeof result.value === 'boolean' ? result.value : result.value?.isHealthy)),
         services: {
           database: {
@@ -149,10 +151,10 @@ async function handleGetSystemStatus(
             error: piiDetectorHealth.status === 'fulfilled' ? piiDetectorHealth.value?.error : String(piiDetectorHealth.reason),
             stats: piiDetectorHealth.status === 'fulfilled' ? piiDetectorHealth.value?.stats : undefined
           },
-          pinecone: {
-            status: pineconeHealth.status === 'fulfilled' && pineconeHealth.value?.isHealthy ? 'healthy' : 'error',
-            error: pineconeHealth.status === 'fulfilled' ? pineconeHealth.value?.error : String(pineconeHealth.reason),
-            stats: pineconeHealth.status === 'fulfilled' ? pineconeHealth.value?.stats : undefined
+          vectorStore: {
+            status: vectorStoreHealth.status === 'fulfilled' && vectorStoreHealth.value?.isHealthy ? 'healthy' : 'error',
+            error: vectorStoreHealth.status === 'fulfilled' ? vectorStoreHealth.value?.error : String(vectorStoreHealth.reason),
+            stats: vectorStoreHealth.status === 'fulfilled' ? vectorStoreHealth.value?.stats : undefined
           }
         }
       },
@@ -454,4 +456,6 @@ async function createBatchProcessingJob(data: any): Promise<string> {
 
   // TODO: Add to background job queue
   return job.id
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.CURATOR] })
@@ -23,17 +23,19 @@ import { SalesforceSyncService, getDefaultSyncConfig } from '@/lib/salesforceSyn
 import { getSalesforceSession, removeSalesforceSession } from './oauth/callback'
 import { revokeToken } from '@/lib/salesforce'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
 import type {
   SalesforceTestConnectionResponse,
   SalesforceDisconnectResponse,
   SalesforceConnectionStatus,
   ApiResponse
 } from '@/types'
+import { UserRole } from '@/types'
 
 /**
  * Main connection API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<any>>
 ): Promise<void> {
@@ -403,4 +405,6 @@ function extractSessionFromCookies(cookieString?: string): string | null {
   }, {} as Record<string, string>)
 
   return cookies.sf_session || null
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.ADMIN] })
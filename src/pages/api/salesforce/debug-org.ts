@@ -2,6 +2,8 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { getSalesforceSession } from '@/lib/salesforceSessionStore'
 import { createApiClient, getUserInfo } from '@/lib/salesforce'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
+import { UserRole } from '@/types'
 
 function extractSessionFromCookies(cookieString?: string): string | null {
   if (!cookieString) return null
@@ -13,7 +15,7 @@ function extractSessionFromCookies(cookieString?: string): string | null {
   return cookies.sf_session || null
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
     const sessionId = extractSessionFromCookies(req.headers.cookie)
     
@@ -48,4 +50,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     logger.error('Debug org error', { error })
     return res.status(500).json({ error: 'Failed to get org info' })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
@@ -11,7 +11,9 @@ import { getSalesforceSession } from '@/lib/salesforceSessionStore'
 import { createMetadataDeployer } from '@/lib/salesforceMetadataDeployer'
 import { createSchemaValidator } from '@/lib/salesforceSchemaValidator'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
 import type { ApiResponse } from '@/types'
+import { UserRole } from '@/types'
 
 /**
  * Extract session ID from cookies
@@ -33,7 +35,7 @@ function extractSessionFromCookies(cookieString?: string): string | null {
  * 
  * POST /api/salesforce/deploy-fields - Deploy missing fields automatically
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<any>>
 ): Promise<void> {
@@ -230,4 +232,6 @@ export default async function handler(
       error: 'Internal server error during field deployment'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
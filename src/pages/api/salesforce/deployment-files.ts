@@ -10,7 +10,9 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { getSalesforceSession } from '@/lib/salesforceSessionStore'
 import { createManualDeploymentGenerator } from '@/lib/salesforceDeploymentStrategies'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
 import type { ApiResponse } from '@/types'
+import { UserRole } from '@/types'
 
 /**
  * Extract session ID from cookies
@@ -32,7 +34,7 @@ function extractSessionFromCookies(cookieString?: string): string | null {
  * 
  * GET /api/salesforce/deployment-files - Generate deployment package
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<any>>
 ): Promise<void> {
@@ -124,4 +126,6 @@ export default async function handler(
       error: 'Internal server error'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
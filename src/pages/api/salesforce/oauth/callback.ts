@@ -19,6 +19,7 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { exchangeCodeForToken, getUserInfo } from '@/lib/salesforce'
 import { validateOAuthState } from './connect'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
 import { 
   storeSalesforceSession,
   getSalesforceSession as getSessionFromDB,
@@ -35,7 +36,8 @@ import type {
   ApiResponse
 } from '@/types'
 import {
-  SalesforceAuthError
+  SalesforceAuthError,
+  UserRole
 } from '@/types'
 
 /**
@@ -48,7 +50,7 @@ import {
  * GET /api/salesforce/oauth/callback
  * Handles OAuth callback from Salesforce
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<SalesforceCallbackResponse>>
 ): Promise<void> {
@@ -277,4 +279,6 @@ export async function getSalesforceSessionStats(): Promise<{
   disconnectedSessions: number
 }> {
   return await getSessionStatsFromDB()
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
@@ -18,11 +18,13 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { generateAuthUrl, getSalesforceConfig } from '@/lib/salesforce'
 import { logger } from '@/lib/logger'
 import { db } from '@/lib/db'
+import { withAuth, type AuthContext } from '@/lib/auth'
 import type { 
   SalesforceConnectRequest, 
   SalesforceConnectResponse,
   ApiResponse 
 } from '@/types'
+import { UserRole } from '@/types'
 
 /**
  * Clean up expired OAuth states from database
@@ -126,9 +128,10 @@ async function generateCodeChallenge(codeVerifier: string): Promise<string> {
  * POST /api/salesforce/oauth/connect
  * Initiates Salesforce OAuth flow
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<SalesforceConnectResponse>>
+  res: NextApiResponse<ApiResponse<SalesforceConnectResponse>>,
+  { user }: AuthContext
 ): Promise<void> {
   if (req.method !== 'POST') {
     return res.status(405).json({
@@ -152,7 +155,8 @@ export default async function handler(
     const config = getSalesforceConfig()
     
     // Parse request body
-    const { userId, redirectTo }: SalesforceConnectRequest = req.body || {}
+    const { redirectTo }: SalesforceConnectRequest = req.body || {}
+    const userId = user.id
 
     // Generate secure state parameter
     const state = generateState()
@@ -338,4 +342,6 @@ export async function getOAuthStateStats(): Promise<{
     logger.error('Failed to get OAuth state stats', { error })
     return { totalStates: 0 }
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
@@ -11,7 +11,9 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getOAuthStateStats } from './connect'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
 import type { ApiResponse } from '@/types'
+import { UserRole } from '@/types'
 
 interface DebugStateResponse {
   stateStoreStats: {
@@ -28,7 +30,7 @@ interface DebugStateResponse {
  * GET /api/salesforce/oauth/debug-state
  * Returns debug information about OAuth state store
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<DebugStateResponse>>
 ): Promise<void> {
@@ -74,4 +76,6 @@ export default async function handler(
       error: 'Failed to get debug information'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { roles: [UserRole.ADMIN] })
@@ -8,13 +8,15 @@
 
 import { NextApiRequest, NextApiResponse } from 'next'
 import { logger } from '@/lib/logger'
-import { withAuth } from '@/lib/salesforceAuth'
+import { withAuth } from '@/lib/auth'
+import { withSalesforceSession } from '@/lib/salesforceAuth'
 import { getSalesforceConnection } from '@/lib/salesforceSessionStore'
 import { SalesforceCLI } from '@/lib/salesforceCLI'
 import { 
   SLACK_DOCUMENT_SCHEMA, 
   SLACK_FAQ_SCHEMA 
 } from '@/lib/salesforceSchema'
+import { UserRole } from '@/types'
 
 // Expected field counts
 const EXPECTED_FIELDS = {
@@ -22,7 +24,7 @@ const EXPECTED_FIELDS = {
   faqs: SLACK_FAQ_SCHEMA.fields.map(f => f.fullName)
 }
 
-export default withAuth(async (
+export default withAuth(withSalesforceSession(async (
   req: NextApiRequest,
   res: NextApiResponse,
   { sessionId, userId }
@@ -79,7 +81,7 @@ export default withAuth(async (
       error: error instanceof Error ? error.message : 'Internal server error' 
     })
   }
-})
+}), { roles: [UserRole.ADMIN] })
 
 async function handleGetSchemaStatus(
   req: NextApiRequest,
@@ -9,7 +9,9 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { getSalesforceSession } from '@/lib/salesforceSessionStore'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
 import type { ApiResponse } from '@/types'
+import { UserRole } from '@/types'
 
 interface SessionStatusResponse {
   isAuthenticated: boolean
@@ -26,7 +28,7 @@ interface SessionStatusResponse {
  * GET /api/salesforce/session
  * Returns current session status from HTTP-only cookie
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<any>>
 ): Promise<void> {
@@ -153,4 +155,6 @@ async function handleClearSession(
       error: 'Failed to clear session'
     })
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.ADMIN] })
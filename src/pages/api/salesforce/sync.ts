@@ -5,6 +5,7 @@
  * Routes:
  * - POST /api/salesforce/sync - Start sync operation
  * - GET /api/salesforce/sync - Get sync status/history
+ * - GET /api/salesforce/sync?preview=true - Preview what a sync will push
  * 
  * Features:
  * - Initiates full and incremental sync operations
@@ -18,9 +19,16 @@
  */
 
 import { NextApiRequest, NextApiResponse } from 'next'
-import { SalesforceSyncService, getDefaultSyncConfig } from '@/lib/salesforceSync'
+import {
+  SalesforceSyncService,
+  getDefaultSyncConfig,
+  type SalesforceSyncFilters,
+  type SalesforceSyncOptions
+} from '@/lib/salesforceSync'
 import { getSalesforceSession } from './oauth/callback'
+import { recordSalesforceApiUsage } from '@/lib/salesforceSessionStore'
 import { logger } from '@/lib/logger'
+import { withAuth } from '@/lib/auth'
 import type {
   SalesforceStartSyncRequest,
   SalesforceStartSyncResponse,
@@ -28,6 +36,7 @@ import type {
   SalesforceSyncSummary,
   ApiResponse
 } from '@/types'
+import { UserRole } from '@/types'
 
 /**
  * In-memory sync job tracking
@@ -42,7 +51,7 @@ const activeSyncJobs = new Map<string, {
 /**
  * Main sync API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<any>>
 ): Promise<void> {
@@ -81,7 +90,7 @@ export default async function handler(
 
     switch (req.method) {
       case 'POST':
-        return await handleStartSync(req, res, sessionData)
+        return await handleStartSync(req, res, sessionId, sessionData)
       
       case 'GET':
         return await handleGetSyncStatus(req, res, sessionData)
@@ -111,6 +120,7 @@ export default async function handler(
 async function handleStartSync(
   req: NextApiRequest,
   res: NextApiResponse<ApiResponse<SalesforceStartSyncResponse>>,
+  sessionId: string,
   sessionData: { tokenResponse: any; userInfo: any }
 ): Promise<void> {
   try {
@@ -178,23 +188,15 @@ async function handleStartSync(
       updatedAt: new Date()
     }
 
-    // Parse filters if provided
-    const syncFilters: any = {}
-    if (filters?.startDate) {
-      syncFilters.startDate = new Date(filters.startDate)
-    }
-    if (filters?.endDate) {
-      syncFilters.endDate = new Date(filters.endDate)
-    }
-    if (filters?.categories) {
-      syncFilters.categories = filters.categories
-    }
-    if (filters?.statuses) {
-      syncFilters.statuses = filters.statuses
+    const syncOptions: SalesforceSyncOptions = {
+      syncType,
+      recordTypes,
+      filters: parseSyncFilters(filters)
     }
 
     // Start the sync operation asynchronously
-    const syncPromise = performSyncOperation(syncService, syncJob, syncFilters)
+    const syncPromise = performSyncOperation(syncService, syncJob, syncOptions)
+      .finally(() => recordSalesforceApiUsage(sessionId, syncService.getApiUsage(), syncService.getApiRequestCount()))
     
     // Track the sync job
     activeSyncJobs.set(jobId, {
@@ -207,8 +209,8 @@ async function handleStartSync(
     syncJob.status = 'RUNNING'
     syncJob.startedAt = new Date()
 
-    // Estimate records and duration (rough estimates)
-    const estimatedRecords = await estimateRecordsToSync(recordTypes, syncFilters)
+    // Estimate records and duration from the sync plan
+    const estimatedRecords = await estimateRecordsToSync(syncService, syncOptions)
     const estimatedDuration = estimatedRecords * 100 // ~100ms per record estimate
 
     logger.info('Sync operation started', {
@@ -247,9 +249,24 @@ async function handleGetSyncStatus(
   sessionData: { tokenResponse: any; userInfo: any }
 ): Promise<void> {
   try {
-    const { jobId, history } = req.query
+    const { jobId, history, preview } = req.query
+
+    if (preview === 'true') {
+      // Preview what the sync would push
+      const syncType = req.query.syncType === 'full' ? 'full' : 'incremental'
+      const recordTypes = typeof req.query.recordTypes === 'string'
+        ? req.query.recordTypes.split(',') as SalesforceSyncOptions['recordTypes']
+        : undefined
+
+      const syncService = new SalesforceSyncService(sessionData.tokenResponse, getDefaultSyncConfig())
+      const syncPreview = await syncService.previewSync({ syncType, recordTypes })
 
-    if (jobId) {
+      return res.status(200).json({
+        success: true,
+        data: syncPreview
+      })
+
+    } else if (jobId) {
       // Get specific job status
       const jobData = activeSyncJobs.get(jobId as string)
       if (!jobData) {
@@ -327,13 +344,13 @@ async function handleGetSyncStatus(
 async function performSyncOperation(
   syncService: SalesforceSyncService,
   syncJob: SalesforceSyncJob,
-  filters: any
+  options: SalesforceSyncOptions
 ): Promise<SalesforceSyncSummary> {
   try {
-    logger.info('Starting sync operation execution', { jobId: syncJob.id })
+    logger.info('Starting sync operation execution', { jobId: syncJob.id, syncType: options.syncType })
 
     // Perform the sync
-    const summary = await syncService.performFullSync(filters)
+    const summary = await syncService.performSync(options)
 
     // Update job with results
     syncJob.status = 'COMPLETED'
@@ -386,31 +403,15 @@ async function performSyncOperation(
 }
 
 /**
- * Estimate number of records to sync
+ * Estimate number of records to sync - every planned change except unchanged records
  */
 async function estimateRecordsToSync(
-  recordTypes: string[],
-  filters: any
+  syncService: SalesforceSyncService,
+  options: SalesforceSyncOptions
 ): Promise<number> {
   try {
-    let total = 0
-
-    if (recordTypes.includes('documents')) {
-      // Rough estimate of documents to sync
-      total += 100 // This would be a database query in practice
-    }
-
-    if (recordTypes.includes('faqs')) {
-      // Rough estimate of FAQs to sync
-      total += 50 // This would be a database query in practice
-    }
-
-    if (recordTypes.includes('messages')) {
-      // Rough estimate of messages to sync
-      total += 500 // This would be a database query in practice
-    }
-
-    return total
+    const preview = await syncService.previewSync(options)
+    return Object.values(preview.totals).reduce((sum, count) => sum + count, 0) - preview.totals.unchanged
 
   } catch (error) {
     logger.warn('Failed to estimate sync records', { error })
@@ -418,6 +419,20 @@ async function estimateRecordsToSync(
   }
 }
 
+/**
+ * Parse request filters (dates arrive as strings)
+ */
+function parseSyncFilters(filters: SalesforceStartSyncRequest['filters']): SalesforceSyncFilters | undefined {
+  if (!filters) return undefined
+
+  return {
+    ...(filters.startDate && { startDate: new Date(filters.startDate) }),
+    ...(filters.endDate && { endDate: new Date(filters.endDate) }),
+    ...(filters.categories && { categories: filters.categories }),
+    ...(filters.statuses && { statuses: filters.statuses })
+  }
+}
+
 /**
  * Generate unique job ID
  */
@@ -478,4 +493,6 @@ function extractSessionFromCookies(cookieString?: string): string | null {
   }, {} as Record<string, string>)
 
   return cookies.sf_session || null
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.ADMIN] })
@@ -8,12 +8,13 @@
  * - GET /api/slack/channel-pull?progressId=... - Get pull progress
  * - GET /api/slack/channel-pull?action=list-channels - List available channels
  * - GET /api/slack/channel-pull?action=list-active-pulls - List active pulls
- * - GET /api/slack/channel-pull?action=list-all-pulls - List all pulls
+ * - GET /api/slack/channel-pull?action=list-all-pulls&limit=50 - List recent pulls (persisted across restarts)
  * - DELETE /api/slack/channel-pull?progressId=... - Cancel a running pull
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { logger } from '@/lib/logger'
+import { getUserLabel, withAuth, type AuthContext } from '@/lib/auth'
 import { 
   createChannelPuller, 
   validatePullConfig,
@@ -23,6 +24,7 @@ import {
   type ChannelPullProgress
 } from '@/lib/slackChannelPuller'
 import type { ApiResponse } from '@/types'
+import { ChannelPullError, UserRole } from '@/types'
 
 interface StartPullRequest {
   channelId: string
@@ -32,7 +34,7 @@ interface StartPullRequest {
   includeThreads?: boolean
   batchSize?: number
   delayBetweenRequests?: number
-  userId?: string
+  skipPIIDetection?: boolean
 }
 
 interface StartPullResponse {
@@ -55,14 +57,15 @@ interface ProgressResponse {
 /**
  * Main API handler
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse>
+  res: NextApiResponse<ApiResponse>,
+  { user }: AuthContext
 ): Promise<void> {
   try {
     switch (req.method) {
       case 'POST':
-        return await handleStartPull(req, res)
+        return await handleStartPull(req, res, getUserLabel(user))
       case 'GET':
         return await handleGetRequest(req, res)
       case 'DELETE':
@@ -88,7 +91,8 @@ export default async function handler(
  */
 async function handleStartPull(
   req: NextApiRequest,
-  res: NextApiResponse<ApiResponse<StartPullResponse>>
+  res: NextApiResponse<ApiResponse<StartPullResponse>>,
+  userId: string
 ): Promise<void> {
   try {
     const body: StartPullRequest = req.body
@@ -110,7 +114,8 @@ async function handleStartPull(
       includeThreads: body.includeThreads,
       batchSize: body.batchSize,
       delayBetweenRequests: body.delayBetweenRequests,
-      userId: body.userId
+      skipPIIDetection: body.skipPIIDetection,
+      userId
     })
 
     // Validate date range
@@ -145,6 +150,13 @@ async function handleStartPull(
 
   } catch (error) {
     logger.error('❌ Error starting channel pull', error)
+
+    if (error instanceof ChannelPullError && error.code === 'PULL_IN_PROGRESS') {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      })
+    }
     
     return res.status(400).json({
       success: false,
@@ -268,7 +280,7 @@ async function handleListActivePulls(
   res: NextApiResponse<ApiResponse>
 ): Promise<void> {
   try {
-    const activePulls = SlackChannelPuller.getActivePulls()
+    const activePulls = await SlackChannelPuller.getActivePulls()
     
     return res.status(200).json({
       success: true,
@@ -294,7 +306,8 @@ async function handleListAllPulls(
   res: NextApiResponse<ApiResponse>
 ): Promise<void> {
   try {
-    const allPulls = SlackChannelPuller.getAllPulls()
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200)
+    const allPulls = await SlackChannelPuller.getAllPulls(limit)
     
     return res.status(200).json({
       success: true,
@@ -392,4 +405,6 @@ function checkRateLimit(identifier: string, maxRequests = 5, windowMs = 60000):
   }
   
   return true
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler, { write: [UserRole.ADMIN] })
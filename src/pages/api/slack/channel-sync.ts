@@ -0,0 +1,137 @@
+/**
+ * Channel Catch-up Sync API Endpoint
+ * Shows each tracked channel's high-water mark and sync lag,
+ * runs the catch-up on demand and turns it on or off per channel
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { channelSyncService } from '@/lib/channelSync'
+import { withAuth } from '@/lib/auth'
+import { ApiResponse, SlackApiError, ValidationError, UserRole } from '@/types'
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGetStatus(req, res)
+      case 'POST':
+        return await handleRunSync(req, res)
+      case 'PATCH':
+        return await handleUpdateChannel(req, res)
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'PATCH'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    if (error instanceof SlackApiError) {
+      return res.status(502).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    logger.error('Channel sync API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/slack/channel-sync - Sync state of every tracked channel
+ */
+async function handleGetStatus(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const channels = await channelSyncService.getSyncStatus()
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      channels,
+      schedule: channelSyncService.getSchedule()
+    }
+  })
+}
+
+/**
+ * Handle POST /api/slack/channel-sync - Run the catch-up now
+ * Body: { channelId? } - one channel, or every tracked channel when omitted
+ */
+async function handleRunSync(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { channelId } = req.body || {}
+
+  if (channelId !== undefined) {
+    if (typeof channelId !== 'string' || !/^[CDG][A-Z0-9]+$/.test(channelId)) {
+      throw new ValidationError('Invalid channel ID format', 'channelId')
+    }
+
+    const recovered = await channelSyncService.syncChannelNow(channelId)
+
+    return res.status(200).json({
+      success: true,
+      data: { recovered },
+      message: `Channel synced, ${recovered} missed messages ingested`
+    })
+  }
+
+  const summary = await channelSyncService.runOnce()
+  if (!summary) {
+    return res.status(409).json({
+      success: false,
+      error: 'A catch-up run is already in progress'
+    })
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: summary,
+    message: `${summary.synced}/${summary.channels} channels synced, ${summary.recovered} missed messages ingested`
+  })
+}
+
+/**
+ * Handle PATCH /api/slack/channel-sync - Turn the catch-up on or off for a channel
+ * Body: { channelId, syncEnabled }
+ */
+async function handleUpdateChannel(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { channelId, syncEnabled } = req.body || {}
+
+  if (!channelId || typeof channelId !== 'string') {
+    throw new ValidationError('channelId is required', 'channelId')
+  }
+  if (typeof syncEnabled !== 'boolean') {
+    throw new ValidationError('syncEnabled must be a boolean', 'syncEnabled')
+  }
+
+  const updated = await channelSyncService.setSyncEnabled(channelId, syncEnabled)
+  if (!updated) {
+    return res.status(404).json({
+      success: false,
+      error: 'Channel is not tracked'
+    })
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: `Catch-up sync ${syncEnabled ? 'enabled' : 'disabled'}`
+  })
+}
+
+export default withAuth(handler, { write: [UserRole.ADMIN] })
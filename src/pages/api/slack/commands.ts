@@ -0,0 +1,72 @@
+/**
+ * Slack slash command handler
+ * Receives /listen invocations and replies ephemerally
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getRawBody, verifySlackSignature } from '@/lib/slack'
+import { logger } from '@/lib/logger'
+import { slackCommandService } from '@/lib/slackCommands'
+import type { ApiResponse, SlackCommandResponse, SlackSlashCommand } from '@/types'
+
+/**
+ * Main slash command handler
+ * Slack shows the JSON body of the 200 response to the user, so replies use its message format
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SlackCommandResponse | ApiResponse>
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST'])
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    })
+  }
+
+  try {
+    const rawBody = await getRawBody(req)
+    const signature = req.headers['x-slack-signature'] as string
+    const timestamp = req.headers['x-slack-request-timestamp'] as string
+
+    if (!signature || !timestamp) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing Slack headers'
+      })
+    }
+
+    if (!verifySlackSignature(signature, timestamp, rawBody)) {
+      logger.warn('Invalid Slack signature on slash command')
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid signature'
+      })
+    }
+
+    // Slash commands arrive form-encoded
+    const command = Object.fromEntries(new URLSearchParams(rawBody)) as unknown as SlackSlashCommand
+
+    const response = await slackCommandService.handleSlashCommand(command)
+    return res.status(200).json(response)
+
+  } catch (error) {
+    logger.error('Slack command handler error:', error)
+
+    // Still answer with 200 so Slack shows the message instead of a generic failure
+    return res.status(200).json({
+      response_type: 'ephemeral',
+      text: 'Sorry, something went wrong handling that command.'
+    })
+  }
+}
+
+/**
+ * Disable body parser to get raw body for signature verification
+ */
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+}
@@ -4,29 +4,11 @@
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { verifySlackSignature } from '@/lib/slack'
+import { getRawBody, verifySlackSignature } from '@/lib/slack'
 import { logger } from '@/lib/logger'
 import { processSlackEvent, EventProcessingResult } from '@/lib/eventProcessor'
 import type { SlackWebhookPayload, ApiResponse } from '@/types'
 
-/**
- * Get raw body from request for signature verification
- */
-const getRawBody = (req: NextApiRequest): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    let data = ''
-    req.on('data', (chunk) => {
-      data += chunk
-    })
-    req.on('end', () => {
-      resolve(data)
-    })
-    req.on('error', (err) => {
-      reject(err)
-    })
-  })
-}
-
 /**
  * Main webhook handler
  */
@@ -0,0 +1,102 @@
+/**
+ * Slack FAQ Answers API Endpoint
+ * Shows and changes which channels get in-thread answers from approved FAQs,
+ * and the similarity a question needs before an FAQ is posted
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { logger } from '@/lib/logger'
+import { faqAnswerService, DEFAULT_ANSWER_MIN_SCORE } from '@/lib/faqAnswers'
+import { withAuth } from '@/lib/auth'
+import { ApiResponse, ValidationError, UserRole } from '@/types'
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGetSettings(req, res)
+      case 'PATCH':
+        return await handleUpdateChannel(req, res)
+      default:
+        res.setHeader('Allow', ['GET', 'PATCH'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      })
+    }
+
+    logger.error('FAQ answers API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/slack/faq-answers - Answer settings of every tracked channel
+ */
+async function handleGetSettings(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const channels = await faqAnswerService.getChannelSettings()
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      channels,
+      defaultMinScore: DEFAULT_ANSWER_MIN_SCORE,
+      configured: Boolean(process.env.SLACK_BOT_TOKEN)
+    }
+  })
+}
+
+/**
+ * Handle PATCH /api/slack/faq-answers - Change a channel's answer settings
+ * Body: { channelId, answersEnabled?, answerMinScore? } - answerMinScore null restores the default
+ */
+async function handleUpdateChannel(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { channelId, answersEnabled, answerMinScore } = req.body || {}
+
+  if (!channelId || typeof channelId !== 'string') {
+    throw new ValidationError('channelId is required', 'channelId')
+  }
+  if (answersEnabled !== undefined && typeof answersEnabled !== 'boolean') {
+    throw new ValidationError('answersEnabled must be a boolean', 'answersEnabled')
+  }
+  if (
+    answerMinScore !== undefined && answerMinScore !== null &&
+    (typeof answerMinScore !== 'number' || answerMinScore < 0 || answerMinScore > 1)
+  ) {
+    throw new ValidationError('answerMinScore must be a number between 0 and 1, or null', 'answerMinScore')
+  }
+  if (answersEnabled === undefined && answerMinScore === undefined) {
+    throw new ValidationError('Nothing to update', 'answersEnabled')
+  }
+
+  const updated = await faqAnswerService.updateChannelSettings(channelId, { answersEnabled, answerMinScore })
+  if (!updated) {
+    return res.status(404).json({
+      success: false,
+      error: 'Channel is not tracked'
+    })
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Channel answer settings updated'
+  })
+}
+
+export default withAuth(handler, { write: [UserRole.ADMIN] })
@@ -0,0 +1,98 @@
+/**
+ * Slack Interactivity webhook handler
+ * Receives Block Kit button clicks (👍/👎 on FAQ answers posted in threads)
+ * and the "Save thread as document" message shortcut
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getRawBody, verifySlackSignature } from '@/lib/slack'
+import { logger } from '@/lib/logger'
+import { faqAnswerService } from '@/lib/faqAnswers'
+import { slackCommandService, SAVE_THREAD_CALLBACK_ID } from '@/lib/slackCommands'
+import type { ApiResponse, SlackBlockActionsPayload, SlackMessageShortcutPayload } from '@/types'
+
+/**
+ * Main interactivity handler
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse>
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST'])
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    })
+  }
+
+  try {
+    const rawBody = await getRawBody(req)
+    const signature = req.headers['x-slack-signature'] as string
+    const timestamp = req.headers['x-slack-request-timestamp'] as string
+
+    if (!signature || !timestamp) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing Slack headers'
+      })
+    }
+
+    if (!verifySlackSignature(signature, timestamp, rawBody)) {
+      logger.warn('Invalid Slack signature on interaction')
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid signature'
+      })
+    }
+
+    // Interactions arrive form-encoded with the JSON in a single "payload" field
+    const payloadField = new URLSearchParams(rawBody).get('payload')
+    if (!payloadField) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing payload'
+      })
+    }
+
+    const payload = JSON.parse(payloadField)
+
+    if (payload.type === 'message_action' && payload.callback_id === SAVE_THREAD_CALLBACK_ID) {
+      // Acknowledge with an empty body; the shortcut reports back through its response_url
+      await slackCommandService.handleMessageShortcut(payload as SlackMessageShortcutPayload)
+      res.status(200).end()
+      return
+    }
+
+    if (payload.type !== 'block_actions') {
+      return res.status(200).json({
+        success: true,
+        message: `Interaction type ${payload.type} ignored`
+      })
+    }
+
+    const recorded = await faqAnswerService.handleBlockActions(payload as SlackBlockActionsPayload)
+
+    return res.status(200).json({
+      success: true,
+      data: { recorded }
+    })
+
+  } catch (error) {
+    logger.error('Slack interaction handler error:', error)
+
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Disable body parser to get raw body for signature verification
+ */
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+}
@@ -0,0 +1,154 @@
+/**
+ * Slack User Directory API Endpoint
+ * Lists directory entries, syncs them from Slack and backfills message usernames
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db } from '@/lib/db'
+import { logger } from '@/lib/logger'
+import { slackUserDirectoryService } from '@/lib/slackUserDirectory'
+import { withAuth } from '@/lib/auth'
+import { ApiResponse, UserRole } from '@/types'
+
+/**
+ * Main API handler
+ */
+async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse<any>>
+) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleListUsers(req, res)
+      case 'POST':
+        return await handleDirectoryAction(req, res)
+      case 'PATCH':
+        return await handleUpdateUser(req, res)
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'PATCH'])
+        return res.status(405).json({
+          success: false,
+          error: 'Method not allowed'
+        })
+    }
+  } catch (error) {
+    logger.error('Slack users API error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
+
+/**
+ * Handle GET /api/slack/users - List directory entries
+ */
+async function handleListUsers(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { search, page = '1', limit = '50' } = req.query
+  const pageNum = Math.max(1, parseInt(page as string) || 1)
+  const limitNum = Math.min(200, Math.max(1, parseInt(limit as string) || 50))
+
+  const where = search
+    ? {
+        OR: [
+          { slackId: { contains: search as string, mode: 'insensitive' as const } },
+          { name: { contains: search as string, mode: 'insensitive' as const } },
+          { realName: { contains: search as string, mode: 'insensitive' as const } },
+          { displayName: { contains: search as string, mode: 'insensitive' as const } }
+        ]
+      }
+    : {}
+
+  const [users, total] = await Promise.all([
+    db.slackUser.findMany({
+      where,
+      orderBy: { realName: 'asc' },
+      skip: (pageNum - 1) * limitNum,
+      take: limitNum
+    }),
+    db.slackUser.count({ where })
+  ])
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      users,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+        hasNext: pageNum * limitNum < total,
+        hasPrev: pageNum > 1
+      }
+    }
+  })
+}
+
+/**
+ * Handle POST /api/slack/users - Sync the directory and/or backfill message usernames
+ * Body: { action: 'sync' | 'backfill' | 'sync-and-backfill' }
+ */
+async function handleDirectoryAction(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { action = 'sync-and-backfill' } = req.body || {}
+
+  if (!['sync', 'backfill', 'sync-and-backfill'].includes(action)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid action. Use: sync, backfill, or sync-and-backfill'
+    })
+  }
+
+  let usersSynced = 0
+  let messagesUpdated = 0
+
+  if (action === 'sync' || action === 'sync-and-backfill') {
+    usersSynced = await slackUserDirectoryService.syncAllUsers()
+  }
+
+  if (action === 'backfill' || action === 'sync-and-backfill') {
+    messagesUpdated = await slackUserDirectoryService.backfillMessageUsernames()
+  }
+
+  logger.info(`Slack user directory ${action}: ${usersSynced} users synced, ${messagesUpdated} messages updated`)
+
+  return res.status(200).json({
+    success: true,
+    data: { usersSynced, messagesUpdated },
+    message: `Synced ${usersSynced} users and updated ${messagesUpdated} messages`
+  })
+}
+
+/**
+ * Handle PATCH /api/slack/users - Toggle name masking for a user
+ * Body: { slackId: string, maskName: boolean }
+ */
+async function handleUpdateUser(req: NextApiRequest, res: NextApiResponse<ApiResponse<any>>) {
+  const { slackId, maskName } = req.body || {}
+
+  if (!slackId || typeof maskName !== 'boolean') {
+    return res.status(400).json({
+      success: false,
+      error: 'slackId and boolean maskName are required'
+    })
+  }
+
+  const existing = await db.slackUser.findUnique({ where: { slackId } })
+  if (!existing) {
+    return res.status(404).json({
+      success: false,
+      error: 'Slack user not found'
+    })
+  }
+
+  const user = await slackUserDirectoryService.setNameMasked(slackId, maskName)
+
+  return res.status(200).json({
+    success: true,
+    data: user,
+    message: maskName ? 'User name will be masked' : 'User name will be shown'
+  })
+}
+
+export default withAuth(handler, { write: [UserRole.PII_REVIEWER] })
@@ -0,0 +1,194 @@
+/**
+ * Curation Activity Page
+ * Feed of curation actions across documents, FAQs, messages and selections,
+ * filterable by user, target and type
+ */
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { NextPage } from 'next'
+import Head from 'next/head'
+import { useRouter } from 'next/router'
+import { History, RefreshCw } from 'lucide-react'
+import { Header } from '@/components/Header'
+import { ErrorBoundary } from '@/components/ErrorBoundary'
+import { CurationActivityList, ACTIVITY_LABELS, TARGET_LABELS } from '@/components/CurationActivityList'
+import { useAuth } from '@/contexts/AuthContext'
+import { ActivityTargetType, ActivityType, UserRole, type CurationActivityDisplay } from '@/types'
+
+interface ActivityFilterState {
+  userId: string
+  targetType: string
+  activityType: string
+  targetId: string
+}
+
+const EMPTY_FILTERS: ActivityFilterState = { userId: '', targetType: '', activityType: '', targetId: '' }
+
+/**
+ * Curation activity page component
+ */
+const CurationActivityPage: NextPage = () => {
+  const router = useRouter()
+  const { hasRole } = useAuth()
+  const [filters, setFilters] = useState<ActivityFilterState>(EMPTY_FILTERS)
+  const [activities, setActivities] = useState<CurationActivityDisplay[]>([])
+  const [actors, setActors] = useState<string[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const canView = hasRole(UserRole.CURATOR, UserRole.PII_REVIEWER)
+
+  // Filters can be linked to, e.g. /curation/activity?userId=...
+  useEffect(() => {
+    if (!router.isReady) return
+    const query = router.query
+    setFilters({
+      userId: typeof query.userId === 'string' ? query.userId : '',
+      targetType: typeof query.targetType === 'string' ? query.targetType : '',
+      activityType: typeof query.activityType === 'string' ? query.activityType : '',
+      targetId: typeof query.targetId === 'string' ? query.targetId : ''
+    })
+  }, [router.isReady, router.query])
+
+  /**
+   * Load the first page, or the next one after `before`
+   */
+  const fetchActivities = useCallback(async (before?: string) => {
+    try {
+      setError(null)
+      setIsLoading(true)
+
+      const params = new URLSearchParams()
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value)
+      })
+      if (before) params.set('before', before)
+
+      const response = await fetch(`/api/curation/activity?${params.toString()}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load activity')
+      }
+
+      setActivities(prev => before ? [...prev, ...result.data.activities] : result.data.activities)
+      setNextCursor(result.data.nextCursor)
+      if (result.data.actors) setActors(result.data.actors)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load activity')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    if (canView && router.isReady) {
+      fetchActivities()
+    }
+  }, [canView, router.isReady, fetchActivities])
+
+  const updateFilter = (key: keyof ActivityFilterState, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+  }
+
+  const selectClassName = 'text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+
+  return (
+    <>
+      <Head>
+        <title>Curation Activity - SF Listen Bot</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors">
+        <Header isConnected={true} />
+
+        <main className="max-w-5xl mx-auto px-4 py-6">
+          <ErrorBoundary>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <History className="w-5 h-5 text-gray-500" />
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Curation Activity</h2>
+              </div>
+              {canView && (
+                <button
+                  onClick={() => fetchActivities()}
+                  className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  title="Refresh"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            {!canView ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Only curators and PII reviewers can see curation activity.</p>
+            ) : (
+              <>
+                {/* Filters */}
+                <div className="flex flex-wrap items-center gap-3 mb-4">
+                  <select value={filters.userId} onChange={(e) => updateFilter('userId', e.target.value)} className={selectClassName}>
+                    <option value="">All users</option>
+                    {actors.map(actor => <option key={actor} value={actor}>{actor}</option>)}
+                  </select>
+                  <select value={filters.targetType} onChange={(e) => updateFilter('targetType', e.target.value)} className={selectClassName}>
+                    <option value="">All targets</option>
+                    {Object.values(ActivityTargetType).map(targetType => (
+                      <option key={targetType} value={targetType}>{TARGET_LABELS[targetType]}</option>
+                    ))}
+                  </select>
+                  <select value={filters.activityType} onChange={(e) => updateFilter('activityType', e.target.value)} className={selectClassName}>
+                    <option value="">All activity</option>
+                    {Object.values(ActivityType).map(activityType => (
+                      <option key={activityType} value={activityType}>{ACTIVITY_LABELS[activityType]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={filters.targetId}
+                    onChange={(e) => updateFilter('targetId', e.target.value.trim())}
+                    placeholder="Target ID"
+                    className={selectClassName}
+                  />
+                  {Object.values(filters).some(Boolean) && (
+                    <button
+                      onClick={() => setFilters(EMPTY_FILTERS)}
+                      className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Clear filters
+                    </button>
+                  )}
+                </div>
+
+                {error && <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>}
+
+                <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-4">
+                  {isLoading && activities.length === 0 ? (
+                    <p className="py-3 text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+                  ) : (
+                    <CurationActivityList activities={activities} className="py-1" />
+                  )}
+                </div>
+
+                {nextCursor && (
+                  <div className="mt-4 text-center">
+                    <button
+                      onClick={() => fetchActivities(nextCursor)}
+                      disabled={isLoading}
+                      className="px-4 py-2 text-sm text-blue-600 dark:text-blue-400 border border-blue-300 dark:border-blue-600 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900 disabled:opacity-50"
+                    >
+                      {isLoading ? 'Loading...' : 'Load more'}
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </ErrorBoundary>
+        </main>
+      </div>
+    </>
+  )
+}
+
+export default CurationActivityPage
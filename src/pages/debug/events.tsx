@@ -8,6 +8,7 @@
  * - Event filtering and detailed inspection
  * - System health indicators
  * - Error management and retry functionality
+ * - Dead-letter replay and discard
  */
 
 import React, { useState, useEffect, useCallback } from 'react'
@@ -27,7 +28,10 @@ import {
   Eye,
   EyeOff,
   MessageSquare,
-  Search
+  Search,
+  Inbox,
+  RotateCcw,
+  Trash2
 } from 'lucide-react'
 
 // Type definitions for better type safety
@@ -39,6 +43,8 @@ interface EventStats {
     SUCCESS?: number
     FAILED?: number
     SKIPPED?: number
+    DEAD_LETTER?: number
+    DISCARDED?: number
   }
 }
 
@@ -54,6 +60,7 @@ interface DebugEvent {
   channel: string | null
   createdAt: string
   lastAttemptAt: string | null
+  nextRetryAt?: string | null
 }
 
 interface SystemInfo {
@@ -86,6 +93,7 @@ const DebugEventsPage: React.FC = () => {
   const [page, setPage] = useState(1)
   const [hasMore, setHasMore] = useState(true)
   const [retrying, setRetrying] = useState(false)
+  const [actionEventId, setActionEventId] = useState<string | null>(null)
   const [statusFilter, setStatusFilter] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -205,8 +213,8 @@ const DebugEventsPage: React.FC = () => {
       const result = await response.json()
       
       if (result.success) {
-        console.log('✅ Retry request successful')
-        await fetchAllEvents(1, false)
+        console.log('✅ Retry request successful:', result.data)
+        await Promise.all([fetchStats(), fetchAllEvents(1, false, statusFilter)])
         setPage(1)
       } else {
         console.error('❌ Retry failed:', result.error)
@@ -220,6 +228,42 @@ const DebugEventsPage: React.FC = () => {
     }
   }
 
+  /**
+   * Replay or discard a single failed / dead-lettered event
+   */
+  const handleEventAction = async (eventId: string, action: 'replay' | 'discard'): Promise<void> => {
+    if (actionEventId) return
+
+    if (action === 'discard' && !confirm('Discard this event? It will no longer be retried.')) {
+      return
+    }
+
+    try {
+      setActionEventId(eventId)
+      console.log(`🔄 Running ${action} for event ${eventId}...`)
+
+      const response = await fetch(`/api/admin/events?action=${action}&id=${encodeURIComponent(eventId)}`, {
+        method: 'POST'
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        console.log(`✅ ${result.message}`)
+        await Promise.all([fetchStats(), fetchAllEvents(1, false, statusFilter)])
+        setPage(1)
+      } else {
+        console.error(`❌ ${action} failed:`, result.error)
+        setError(result.error || `Failed to ${action} event`)
+      }
+    } catch (error) {
+      console.error(`❌ Error during ${action}:`, error)
+      setError(`Error occurred while trying to ${action} event`)
+    } finally {
+      setActionEventId(null)
+    }
+  }
+
   /**
    * Initialize data on component mount
    */
@@ -302,6 +346,12 @@ const DebugEventsPage: React.FC = () => {
             text: 'text-blue-300', 
             icon: RefreshCw 
           }
+        case 'DEAD_LETTER': 
+          return { 
+            bg: 'bg-orange-900/30', 
+            text: 'text-orange-300', 
+            icon: Inbox 
+          }
         default: 
           return { 
             bg: 'bg-gray-700/30', 
@@ -385,8 +435,41 @@ const DebugEventsPage: React.FC = () => {
                   {event.lastAttemptAt ? new Date(event.lastAttemptAt).toLocaleString() : 'Never'}
                 </span>
               </div>
+              <div>
+                <span className="font-medium text-gray-200">Attempts:</span>
+                <span className="ml-2 text-gray-400">{event.attempts}</span>
+              </div>
+              {event.status === 'FAILED' && (
+                <div>
+                  <span className="font-medium text-gray-200">Next Retry:</span>
+                  <span className="ml-2 text-gray-400">
+                    {event.nextRetryAt ? new Date(event.nextRetryAt).toLocaleString() : 'Next retry run'}
+                  </span>
+                </div>
+              )}
             </div>
 
+            {(event.status === 'DEAD_LETTER' || event.status === 'FAILED') && (
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handleEventAction(event.id, 'replay')}
+                  disabled={actionEventId !== null}
+                  className="bg-indigo-600 text-white px-3 py-1 rounded text-sm hover:bg-indigo-700 transition-colors disabled:bg-indigo-400 flex items-center space-x-2"
+                >
+                  <RotateCcw className={`w-4 h-4 ${actionEventId === event.id ? 'animate-spin' : ''}`} />
+                  <span>Replay</span>
+                </button>
+                <button
+                  onClick={() => handleEventAction(event.id, 'discard')}
+                  disabled={actionEventId !== null}
+                  className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-500 transition-colors disabled:bg-gray-500 flex items-center space-x-2"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>Discard</span>
+                </button>
+              </div>
+            )}
+
             {event.errorMessage && (
               <div>
                 <h4 className="text-sm font-medium text-red-300 mb-2">Error Message:</h4>
@@ -518,7 +601,7 @@ const DebugEventsPage: React.FC = () => {
               <Activity className="w-5 h-5 mr-2" />
               Event Statistics
             </h2>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
               {/* Total Events */}
               <button
                 onClick={() => handleStatusFilter(null)}
@@ -567,6 +650,22 @@ const DebugEventsPage: React.FC = () => {
                 )}
               </button>
 
+              {/* Dead-lettered Events */}
+              <button
+                onClick={() => handleStatusFilter('DEAD_LETTER')}
+                className={`p-4 rounded-lg text-left transition-all duration-200 transform hover:scale-105 ${
+                  statusFilter === 'DEAD_LETTER' 
+                    ? 'bg-orange-900/30 ring-2 ring-orange-500 shadow-lg' 
+                    : 'bg-orange-900/20 hover:bg-orange-900/30'
+                }`}
+              >
+                <h4 className="text-sm font-medium text-orange-300 mb-1">Dead Letter</h4>
+                <p className="text-2xl font-bold text-orange-200">{stats.byStatus.DEAD_LETTER || 0}</p>
+                {statusFilter === 'DEAD_LETTER' && (
+                  <p className="text-xs text-orange-400 mt-1 font-medium">• Filtering active</p>
+                )}
+              </button>
+
               {/* Success Rate */}
               <button
                 onClick={() => handleStatusFilter('SUCCESS')}
@@ -632,11 +731,11 @@ const DebugEventsPage: React.FC = () => {
           ) : (
             <div className="text-center py-8 text-gray-400">
               <div className="text-4xl mb-2">
-                {statusFilter === 'FAILED' ? '❌' : statusFilter === 'SUCCESS' ? '✅' : '📝'}
+                {statusFilter === 'FAILED' ? '❌' : statusFilter === 'SUCCESS' ? '✅' : statusFilter === 'DEAD_LETTER' ? '📭' : '📝'}
               </div>
               <div className="font-medium">
                 {statusFilter 
-                  ? `No ${statusFilter.toLowerCase()} events found` 
+                  ? `No ${statusFilter.toLowerCase().replace('_', '-')} events found` 
                   : 'No events found'
                 }
               </div>
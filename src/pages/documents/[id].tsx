@@ -11,9 +11,12 @@ import { useRouter } from 'next/router'
 import { RotateCcw, Plus } from 'lucide-react'
 import { Header } from '@/components/Header'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
-import { DocumentDisplay, MessageDisplay, FAQDisplay, ApiResponse } from '@/types'
+import { DocumentDisplay, MessageDisplay, FAQDisplay, ApiResponse, UserRole } from '@/types'
 import { logger } from '@/lib/logger'
 import DuplicateReviewModal from '@/components/documents/DuplicateReviewModal'
+import DocumentActivityPanel from '@/components/documents/DocumentActivityPanel'
+import DocumentMergesPanel from '@/components/documents/DocumentMergesPanel'
+import { useAuth } from '@/contexts/AuthContext'
 
 /**
  * Document metadata component
@@ -634,7 +637,8 @@ const GeneratedFAQs: React.FC<GeneratedFAQsProps> = ({
  */
 export default function DocumentDetailPage(): JSX.Element {
   const router = useRouter()
-  const { id } = router.query
+  const { id, merged } = router.query
+  const { hasRole } = useAuth()
 
   const [document, setDocument] = useState<DocumentDisplay | null>(null)
   const [messages, setMessages] = useState<MessageDisplay[]>([])
@@ -659,6 +663,7 @@ export default function DocumentDetailPage(): JSX.Element {
    */
   const fetchDocument = useCallback(async () => {
     if (!id) return
+    let redirecting = false
 
     try {
       setLoading(true)
@@ -674,6 +679,13 @@ export default function DocumentDetailPage(): JSX.Element {
         throw new Error(result.error || 'Document not found')
       }
 
+      // Documents archived by a merge redirect to the document they were merged into
+      if (result.data.mergedIntoId) {
+        redirecting = true
+        router.replace(`/documents/${result.data.mergedIntoId}`)
+        return
+      }
+
       logger.info('Document fetched successfully:', { documentId: id, title: result.data.title })
       
       setDocument(result.data)
@@ -696,9 +708,10 @@ export default function DocumentDetailPage(): JSX.Element {
       logger.error('Failed to fetch document:', { error: errorMessage, documentId: id })
       setError(errorMessage)
     } finally {
-      setLoading(false)
+      // Keep the spinner up while redirecting
+      if (!redirecting) setLoading(false)
     }
-  }, [id])
+  }, [id, router])
 
   // Fetch document on mount and when ID changes
   useEffect(() => {
@@ -740,6 +753,37 @@ export default function DocumentDetailPage(): JSX.Element {
     }
   }, [document, showNotification])
 
+  /**
+   * Mark edited source messages as reviewed
+   */
+  const handleMarkSourcesReviewed = useCallback(async () => {
+    if (!document) return
+
+    try {
+      const response = await fetch(`/api/documents/${document.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sourcesStale: false }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update document')
+      }
+
+      setDocument({ ...document, sourcesStale: false, sourcesStaleAt: null })
+      showNotification('success', 'Sources marked as reviewed')
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update document'
+      showNotification('error', errorMessage)
+      console.error('Failed to mark sources as reviewed:', error)
+    }
+  }, [document, showNotification])
+
   /**
    * Handle document deletion
    */
@@ -798,8 +842,7 @@ export default function DocumentDetailPage(): JSX.Element {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          documentId: document.id,
-          userId: 'system'
+          documentId: document.id
         }),
       })
 
@@ -950,10 +993,41 @@ export default function DocumentDetailPage(): JSX.Element {
     }
   }, [showNotification, fetchDocument])
 
+  /**
+   * Handle removing a message from the document
+   */
+  const handleRemoveMessage = useCallback(async (messageId: string) => {
+    if (!document || !confirm('Remove this message from the document?')) return
+
+    try {
+      setProcessing(true)
+
+      const response = await fetch(`/api/documents/${document.id}/messages`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messageIds: [messageId] }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to remove message')
+      }
+
+      showNotification('success', result.message)
+      fetchDocument()
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to remove message'
+      showNotification('error', errorMessage)
+    } finally {
+      setProcessing(false)
+    }
+  }, [document, showNotification, fetchDocument])
+
   // Placeholder functions for features to be implemented
-  const handleRemoveMessage = (messageId: string) => {
-    showNotification('error', 'Message removal not implemented yet')
-  }
 
   const handleAddMessages = () => {
     showNotification('error', 'Add messages feature not implemented yet')
@@ -1016,6 +1090,29 @@ export default function DocumentDetailPage(): JSX.Element {
                   <p className="text-gray-600 dark:text-gray-300 text-lg leading-relaxed">
                     {document.description}
                   </p>
+                  {document.sourcesStale && (
+                    <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3 p-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-700 rounded-lg">
+                      <p className="text-sm text-amber-800 dark:text-amber-200">
+                        {(() => {
+                          const editedCount = messages.filter(m => m.editedAt && new Date(m.editedAt) > new Date(document.createdAt)).length
+                          const deletedCount = messages.filter(m => m.deletedAt).length
+                          const changes = [
+                            editedCount > 0 ? `${editedCount} edited` : null,
+                            deletedCount > 0 ? `${deletedCount} deleted` : null
+                          ].filter(Boolean)
+                          return changes.length > 0
+                            ? `Source messages changed after this document was created: ${changes.join(', ')}.`
+                            : 'A source message was edited or deleted after this document was created.'
+                        })()}
+                      </p>
+                      <button
+                        onClick={handleMarkSourcesReviewed}
+                        className="px-3 py-1.5 text-sm bg-amber-600 hover:bg-amber-700 text-white rounded-md transition-colors whitespace-nowrap"
+                      >
+                        Mark reviewed
+                      </button>
+                    </div>
+                  )}
                 </div>
                 <div className="flex items-center gap-3 ml-6">
                   <button className="px-4 py-2 text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 border border-blue-300 dark:border-blue-600 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors">
@@ -1125,6 +1222,20 @@ export default function DocumentDetailPage(): JSX.Element {
               isProcessing={processing}
             />
           </div>
+
+          {/* Merges into this document */}
+          {hasRole(UserRole.CURATOR) && (
+            <DocumentMergesPanel
+              documentId={document.id}
+              highlightMergeId={typeof merged === 'string' ? merged : undefined}
+              onUndone={fetchDocument}
+            />
+          )}
+
+          {/* Curation History */}
+          {hasRole(UserRole.CURATOR, UserRole.PII_REVIEWER) && (
+            <DocumentActivityPanel documentId={document.id} />
+          )}
         </div>
 
         {/* Success/Error Notifications */}
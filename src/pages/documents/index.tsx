@@ -10,8 +10,10 @@ import Link from 'next/link'
 import { useRouter } from 'next/router'
 import { Calendar, Zap, RotateCcw } from 'lucide-react'
 import DocumentFeed from '@/components/documents/DocumentFeed'
+import SegmentPreview from '@/components/documents/SegmentPreview'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
 import { Header } from '@/components/Header'
+import type { ConversationSegment } from '@/types'
 
 /**
  * Simple one-click document processing interface
@@ -27,6 +29,43 @@ const ProcessAllModal: React.FC<ProcessAllModalProps> = ({ isOpen, onClose, onSu
   const [result, setResult] = useState<any>(null)
   const [error, setError] = useState<string | null>(null)
   const [loadingMessage, setLoadingMessage] = useState('Initializing...')
+  const [splitByTopic, setSplitByTopic] = useState(false)
+  const [segments, setSegments] = useState<ConversationSegment[] | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+
+  /**
+   * Show the conversations that would become documents, without creating them
+   */
+  const handlePreview = async () => {
+    setPreviewing(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/documents/process-all', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          preview: true,
+          batchSize: 20,
+          segmentation: { topicShift: splitByTopic }
+        })
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        setSegments(data.data.segments)
+      } else {
+        setError(data.error || 'Failed to preview conversations')
+      }
+    } catch (err) {
+      setError('Network error occurred')
+      console.error('Preview conversations error:', err)
+    } finally {
+      setPreviewing(false)
+    }
+  }
 
   const handleProcessAll = async () => {
     setProcessing(true)
@@ -54,7 +93,8 @@ const ProcessAllModal: React.FC<ProcessAllModalProps> = ({ isOpen, onClose, onSu
         },
         body: JSON.stringify({
           useBackgroundJob: false, // Process synchronously for immediate feedback
-          batchSize: 20
+          batchSize: 20,
+          segmentation: { topicShift: splitByTopic }
         })
       })
 
@@ -115,6 +155,7 @@ const ProcessAllModal: React.FC<ProcessAllModalProps> = ({ isOpen, onClose, onSu
   const handleClose = () => {
     setResult(null)
     setError(null)
+    setSegments(null)
     setLoadingMessage('Initializing...') // Reset loading message
     onClose()
   }
@@ -179,6 +220,39 @@ const ProcessAllModal: React.FC<ProcessAllModalProps> = ({ isOpen, onClose, onSu
                   </>
                 )}
               </button>
+
+              <div className="mt-4 flex items-center justify-between gap-3">
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={splitByTopic}
+                    onChange={(e) => {
+                      setSplitByTopic(e.target.checked)
+                      setSegments(null)
+                    }}
+                    disabled={processing || previewing}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+                  />
+                  Also split on topic changes
+                </label>
+
+                <button
+                  onClick={handlePreview}
+                  disabled={processing || previewing}
+                  className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {previewing ? 'Loading...' : 'Preview conversations'}
+                </button>
+              </div>
+
+              {segments && (
+                <div className="mt-4">
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-2 text-left">
+                    {segments.length} {segments.length === 1 ? 'document' : 'documents'} will be created:
+                  </p>
+                  <SegmentPreview segments={segments} />
+                </div>
+              )}
             </div>
           )}
 
@@ -484,6 +558,26 @@ const DocumentsPage: React.FC = () => {
           showNotification('success', `Generated ${totalFAQs} FAQ${totalFAQs !== 1 ? 's' : ''} from ${documentIds.length} document${documentIds.length !== 1 ? 's' : ''}`)
           break
 
+        case 'merge': {
+          // The surviving document comes first; its page offers the undo
+          const [targetDocumentId, ...sourceDocumentIds] = documentIds
+          const response = await fetch('/api/documents/merge', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ targetDocumentId, sourceDocumentIds }),
+          })
+          const result = await response.json()
+
+          if (!response.ok || !result.success) {
+            throw new Error(result.error || 'Failed to merge documents')
+          }
+
+          router.push(`/documents/${targetDocumentId}?merged=${result.data.mergeId}`)
+          return
+        }
+
         default:
           showNotification('error', `Unknown action: ${action}`)
           return
@@ -499,7 +593,7 @@ const DocumentsPage: React.FC = () => {
     } finally {
       setProcessing(false)
     }
-  }, [showNotification])
+  }, [showNotification, router])
 
   return (
     <>
@@ -10,8 +10,9 @@ import Link from 'next/link'
 import { useRouter } from 'next/router'
 import { FAQCard, FAQFilterBar } from '@/components/faqs'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
+import { TextDiff } from '@/components/TextDiff'
 import { Header } from '@/components/Header'
-import { FAQDisplay, PaginatedFAQs } from '@/types'
+import { DiffSegment, FAQDisplay, PaginatedFAQs } from '@/types'
 
 /**
  * FAQ creation modal interface
@@ -162,9 +163,9 @@ const FAQsPage: React.FC = () => {
   // Source viewing state
   const [viewingSourcesFor, setViewingSourcesFor] = useState<string | null>(null)
   const [sourceData, setSourceData] = useState<{
-    faq: { id: string; question: string; answer: string; category: string }
+    faq: { id: string; question: string; answer: string; category: string; sourcesStale: boolean; sourcesStaleAt: string | null; missingPrimarySource: boolean }
     documents: Array<{ id: string; title: string; content: string; category: string; createdAt: string }>
-    messages: Array<{ id: string; content: string; author: string; timestamp: string; channel: string; contributionType: string }>
+    messages: Array<{ id: string; content: string; author: string; timestamp: string; channel: string; contributionType: string; editedAt: string | null; deletedAt: string | null; originalContent: string | null; diff: DiffSegment[] | null }>
   } | null>(null)
   const [loadingSources, setLoadingSources] = useState(false)
 
@@ -303,8 +304,7 @@ const FAQsPage: React.FC = () => {
         },
         body: JSON.stringify({
           id: faqId,
-          action: 'approve',
-          reviewedBy: 'current-user' // TODO: Get from auth context
+          action: 'approve'
         }),
       })
 
@@ -340,8 +340,7 @@ const FAQsPage: React.FC = () => {
         },
         body: JSON.stringify({
           id: faqId,
-          action: 'reject',
-          reviewedBy: 'current-user' // TODO: Get from auth context
+          action: 'reject'
         }),
       })
 
@@ -484,8 +483,7 @@ const FAQsPage: React.FC = () => {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ids: Array.from(selectedFAQs),
-          action: 'approve',
-          reviewedBy: 'current-user' // TODO: Get from auth context
+          action: 'approve'
         })
       })
 
@@ -534,8 +532,7 @@ const FAQsPage: React.FC = () => {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ids: Array.from(selectedFAQs),
-          action: 'reject',
-          reviewedBy: 'current-user' // TODO: Get from auth context
+          action: 'reject'
         })
       })
 
@@ -565,6 +562,14 @@ const FAQsPage: React.FC = () => {
     }
   }, [selectedFAQs, showNotification, fetchFAQs])
 
+  /**
+   * Refresh the list after a previous FAQ version was restored
+   */
+  const handleFAQRestored = useCallback(() => {
+    showNotification('success', 'Previous version restored')
+    fetchFAQs()
+  }, [showNotification, fetchFAQs])
+
   /**
    * Handle viewing sources for an FAQ
    */
@@ -596,6 +601,31 @@ const FAQsPage: React.FC = () => {
     }
   }, [showNotification])
 
+  /**
+   * Mark the edited sources of the FAQ being viewed as reviewed
+   */
+  const handleMarkSourcesReviewed = useCallback(async (faqId: string) => {
+    try {
+      const response = await fetch(`/api/faqs/${faqId}/sources`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourcesStale: false })
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update FAQ')
+      }
+
+      setSourceData(prev => prev ? { ...prev, faq: { ...prev.faq, sourcesStale: false, sourcesStaleAt: null, missingPrimarySource: false } } : prev)
+      showNotification('success', 'Sources marked as reviewed')
+      fetchFAQs()
+    } catch (error) {
+      console.error('Failed to mark sources as reviewed:', error)
+      showNotification('error', error instanceof Error ? error.message : 'Failed to update FAQ')
+    }
+  }, [showNotification, fetchFAQs])
+
   return (
     <>
       <Head>
@@ -909,6 +939,7 @@ const FAQsPage: React.FC = () => {
                   onReject={handleRejectFAQ}
                   onDelete={handleDeleteFAQ}
                   onViewSources={handleViewSources}
+                  onRestored={handleFAQRestored}
                   showBulkSelect={true}
                   isSelected={selectedFAQs.has(faq.id)}
                   onSelect={(selected) => handleSelectFAQ(faq.id, selected)}
@@ -965,6 +996,23 @@ const FAQsPage: React.FC = () => {
                       </p>
                     </div>
 
+                    {/* Stale Sources Warning */}
+                    {(sourceData.faq.sourcesStale || sourceData.faq.missingPrimarySource) && (
+                      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-700 rounded-lg p-4">
+                        <p className="text-sm text-amber-800 dark:text-amber-200">
+                          {sourceData.faq.missingPrimarySource
+                            ? 'The question or answer this FAQ was built from was deleted in Slack. Check that the FAQ is still valid before keeping it.'
+                            : 'A source message was edited or deleted after this FAQ was generated. Review the changes below and update the FAQ if needed.'}
+                        </p>
+                        <button
+                          onClick={() => handleMarkSourcesReviewed(sourceData.faq.id)}
+                          className="px-3 py-1.5 text-sm bg-amber-600 hover:bg-amber-700 text-white rounded-md transition-colors duration-200 whitespace-nowrap"
+                        >
+                          Mark reviewed
+                        </button>
+                      </div>
+                    )}
+
                     {/* Documents */}
                     {sourceData.documents && sourceData.documents.length > 0 && (
                       <div>
@@ -1043,9 +1091,23 @@ const FAQsPage: React.FC = () => {
                                   <div>{message.timestamp ? new Date(message.timestamp).toLocaleString() : 'Unknown time'}</div>
                                 </div>
                               </div>
-                              <p className="text-sm text-gray-600 dark:text-gray-300">
-                                {message.content || 'No content'}
-                              </p>
+                              {message.deletedAt && (
+                                <div className="text-xs font-medium text-red-700 dark:text-red-300 mb-1">
+                                  Deleted in Slack ({new Date(message.deletedAt).toLocaleString()})
+                                </div>
+                              )}
+                              {message.diff ? (
+                                <div>
+                                  <div className="text-xs font-medium text-amber-700 dark:text-amber-300 mb-1">
+                                    Edited since this FAQ was generated{message.editedAt ? ` (${new Date(message.editedAt).toLocaleString()})` : ''}
+                                  </div>
+                                  <TextDiff segments={message.diff} className="text-gray-600 dark:text-gray-300" />
+                                </div>
+                              ) : (
+                                <p className="text-sm text-gray-600 dark:text-gray-300">
+                                  {message.content || 'No content'}
+                                </p>
+                              )}
                             </div>
                           ))}
                         </div>
@@ -11,6 +11,8 @@ import { FilterBar } from '@/components/FilterBar'
 import { Header } from '@/components/Header'
 import { LoadingSpinner } from '@/components/LoadingSpinner'
 import { ErrorBoundary } from '@/components/ErrorBoundary'
+import { SelectionTray } from '@/components/SelectionTray'
+import { useAuth } from '@/contexts/AuthContext'
 
 import { useRealTimeMessages } from '@/hooks/useRealTimeMessages'
 import type { 
@@ -20,6 +22,7 @@ import type {
   ApiResponse,
   PaginationInfo
 } from '@/types'
+import { UserRole } from '@/types'
 import { MessageSquare, Calendar, FileText } from 'lucide-react'
 
 /**
@@ -127,6 +130,7 @@ const Dashboard: React.FC = () => {
     dateFrom: '',
     dateTo: '',
     search: '',
+    searchMode: 'hybrid',
     page: 1,
     limit: 50
   })
@@ -134,6 +138,9 @@ const Dashboard: React.FC = () => {
   const [realTimeEnabled, setRealTimeEnabled] = useState(true)
   const [viewMode, setViewMode] = useState<'feed' | 'table' | 'grouped'>('feed')
   const [groupBy, setGroupBy] = useState<'channel' | 'date' | 'document'>('channel')
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const { hasRole } = useAuth()
+  const canCurate = hasRole(UserRole.CURATOR)
 
 
   /**
@@ -268,6 +275,23 @@ const Dashboard: React.FC = () => {
     }
   }, [pagination.hasNext, filters.page, handlePageChange])
 
+  /**
+   * Add or remove a message from the curation selection
+   */
+  const handleToggleSelect = useCallback((messageId: string): void => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(messageId)) {
+        next.delete(messageId)
+      } else {
+        next.add(messageId)
+      }
+      return next
+    })
+  }, [])
+
+  const selectionProps = canCurate ? { selectedIds, onToggleSelect: handleToggleSelect } : {}
+
   /**
    * Handle message edits with deduplication
    */
@@ -523,6 +547,7 @@ const Dashboard: React.FC = () => {
                     onLoadMore={handleLoadMore}
                     hasMore={pagination.hasNext}
                     onPIIStatusUpdate={() => fetchMessages(undefined, false)}
+                    {...selectionProps}
                   />
                 </div>
               )}
@@ -534,6 +559,7 @@ const Dashboard: React.FC = () => {
                   error={error || undefined}
                   onLoadMore={handleLoadMore}
                   hasMore={pagination.hasNext}
+                  {...selectionProps}
                 />
               )}
               
@@ -545,11 +571,20 @@ const Dashboard: React.FC = () => {
                   onLoadMore={handleLoadMore}
                   hasMore={pagination.hasNext}
                   groupBy={groupBy}
+                  {...selectionProps}
                 />
               )}
             </>
           )}
 
+          {/* Curation selection */}
+          {canCurate && (
+            <SelectionTray
+              selectedIds={selectedIds}
+              onSelectionChange={(messageIds) => setSelectedIds(new Set(messageIds))}
+            />
+          )}
+
           {/* Pagination Info */}
           {!loading && messages.length > 0 && (
             <div className="mt-4 text-center text-sm text-gray-500 dark:text-gray-400">
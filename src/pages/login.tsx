@@ -0,0 +1,61 @@
+/**
+ * Login Page
+ * Sends users to Slack sign-in and shows sign-in errors
+ */
+
+import React, { useEffect } from 'react'
+import Head from 'next/head'
+import { useRouter } from 'next/router'
+import { AlertCircle, LogIn } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+
+/**
+ * Login page component
+ */
+const LoginPage: React.FC = () => {
+  const router = useRouter()
+  const { user, isLoading } = useAuth()
+
+  const returnTo = typeof router.query.returnTo === 'string' ? router.query.returnTo : '/'
+  const error = typeof router.query.error === 'string' ? router.query.error : null
+
+  // Already signed in - continue to the requested page
+  useEffect(() => {
+    if (!isLoading && user) {
+      router.replace(returnTo)
+    }
+  }, [isLoading, user, returnTo, router])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <Head>
+        <title>Sign in - Listen Bot</title>
+        <meta name="robots" content="noindex,nofollow" />
+      </Head>
+
+      <div className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 p-8">
+        <h1 className="text-xl font-bold text-gray-900 dark:text-white text-center">SF Listen Bot</h1>
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400 text-center">
+          Sign in with your Slack workspace account to continue
+        </p>
+
+        {error && (
+          <div className="mt-6 flex items-start gap-2 p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <a
+          href={`/api/auth/slack/login?returnTo=${encodeURIComponent(returnTo)}`}
+          className="mt-6 flex items-center justify-center gap-2 w-full px-4 py-2 rounded-lg bg-purple-700 text-white text-sm font-medium hover:bg-purple-800 transition-colors"
+        >
+          <LogIn className="w-4 h-4" />
+          Sign in with Slack
+        </a>
+      </div>
+    </div>
+  )
+}
+
+export default LoginPage
@@ -1,7 +1,7 @@
 /**
  * PII Review Page
  * Provides interface for users to review and override PII detections
- * Implements proper authentication and error boundaries
+ * Restricted to PII reviewers, checked server-side before rendering
  */
 
 import React from 'react'
@@ -10,19 +10,14 @@ import { GetServerSideProps } from 'next'
 import { Header } from '@/components/Header'
 import { ErrorBoundary } from '@/components/ErrorBoundary'
 import PIIReviewDashboard from '@/components/pii/PIIReviewDashboard'
-
-/**
- * Props for PII Review page
- */
-interface PIIReviewPageProps {
-  /** Current user (from server-side auth) */
-  currentUser: string
-}
+import PIIRulesPanel from '@/components/pii/PIIRulesPanel'
+import { authService, hasRole } from '@/lib/auth'
+import { AuthError, UserRole } from '@/types'
 
 /**
  * PII Review Page Component
  */
-const PIIReviewPage: React.FC<PIIReviewPageProps> = ({ currentUser }) => {
+const PIIReviewPage: React.FC = () => {
   return (
     <ErrorBoundary>
       <div className="pii-review-page min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -44,10 +39,10 @@ const PIIReviewPage: React.FC<PIIReviewPageProps> = ({ currentUser }) => {
         {/* Main Content */}
         <main className="container mx-auto px-4 py-6 max-w-6xl">
           <PIIReviewDashboard 
-            currentUser={currentUser}
             refreshInterval={30000}
             pageSize={20}
           />
+          <PIIRulesPanel />
         </main>
       </div>
     </ErrorBoundary>
@@ -56,27 +51,29 @@ const PIIReviewPage: React.FC<PIIReviewPageProps> = ({ currentUser }) => {
 
 /**
  * Server-side rendering with authentication
+ * Signed-out visitors go to the login page; users without the PII reviewer role go home
  */
-export const getServerSideProps: GetServerSideProps<PIIReviewPageProps> = async (context) => {
+export const getServerSideProps: GetServerSideProps = async (context) => {
   try {
-    // TODO: Implement proper authentication
-    // For now, using a placeholder user
-    const currentUser = context.req.headers['x-user-id'] as string || 'admin@company.com'
+    const user = await authService.authenticate(context.req)
 
-    // In a real implementation, you would:
-    // 1. Check authentication status
-    // 2. Verify user permissions for PII review
-    // 3. Redirect to login if not authenticated
-    // 4. Return 403 if user doesn't have review permissions
+    if (!hasRole(user, [UserRole.PII_REVIEWER])) {
+      return { redirect: { destination: '/', permanent: false } }
+    }
 
-    return {
-      props: {
-        currentUser
+    return { props: {} }
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return {
+        redirect: {
+          destination: `/login?returnTo=${encodeURIComponent(context.resolvedUrl)}`,
+          permanent: false
+        }
       }
     }
-  } catch (error) {
+
     console.error('Failed to load PII review page:', error)
-    
+
     return {
       notFound: true
     }
@@ -16,6 +16,7 @@ import Link from 'next/link'
 import { useRouter } from 'next/router'
 import { Header } from '@/components/Header'
 import { AnalyticsDashboard } from '@/components/processing/AnalyticsDashboard'
+import { BacklogProcessingPanel } from '@/components/processing/BacklogProcessingPanel'
 import { ErrorBoundary } from '@/components/ErrorBoundary'
 import { Activity, Bug, ExternalLink, Settings, Search } from 'lucide-react'
 
@@ -98,6 +99,11 @@ const AnalyticsDashboardPage: React.FC = () => {
             />
           </ErrorBoundary>
 
+          {/* Backlog Processing */}
+          <ErrorBoundary>
+            <BacklogProcessingPanel />
+          </ErrorBoundary>
+
           {/* System Resources */}
           <div className="mt-12 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
             <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">System Resources</h2>
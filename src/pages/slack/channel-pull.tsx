@@ -9,12 +9,15 @@
  * - Navigation integration
  * - Proper SEO and metadata
  * - Error boundary protection
+ * - Catch-up sync lag for tracked channels
  */
 
 import { NextPage } from 'next'
 import Head from 'next/head'
 import { Header } from '@/components/Header'
 import ChannelPullDashboard from '@/components/ChannelPullDashboard'
+import ChannelSyncPanel from '@/components/ChannelSyncPanel'
+import FAQAnswerPanel from '@/components/FAQAnswerPanel'
 import { ErrorBoundary } from '@/components/ErrorBoundary'
 
 /**
@@ -41,6 +44,10 @@ const ChannelPullPage: NextPage = () => {
         <main className="pt-16"> {/* Offset for fixed header */}
           <ErrorBoundary>
             <ChannelPullDashboard />
+            <div className="px-6 pb-6 max-w-7xl mx-auto space-y-6">
+              <ChannelSyncPanel />
+              <FAQAnswerPanel />
+            </div>
           </ErrorBoundary>
         </main>
       </div>
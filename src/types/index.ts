@@ -22,6 +22,8 @@ export interface BaseMessage {
   parentMessageId: string | null
   createdAt: Date
   updatedAt: Date
+  editedAt?: Date | null
+  deletedAt?: Date | null
 }
 
 /**
@@ -74,6 +76,88 @@ export interface MessageDisplay extends BaseMessage {
   piiWhitelisted: number
   piiAutoReplaced: number
   piiDetections?: PIIDetection[]
+  // Edit history information
+  revisionCount?: number
+  // Set when the message list was produced by a search
+  search?: MessageSearchHit
+}
+
+/**
+ * Segment of a word-level text diff
+ */
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Previous version of a message's text
+ */
+export interface MessageRevisionDisplay {
+  id: string
+  text: string
+  editedAt: Date
+  editedBy: string | null
+  diff: DiffSegment[] // Changes from this version to the one that replaced it
+}
+
+/**
+ * Full edit history of a message
+ */
+export interface MessageRevisionHistory {
+  messageId: string
+  currentText: string
+  editedAt: Date | null
+  revisions: MessageRevisionDisplay[]
+}
+
+/**
+ * Previous version of a FAQ and the change that replaced it
+ */
+export interface FAQRevisionDisplay {
+  id: string
+  question: string
+  answer: string
+  category: string
+  status: string
+  changeType: FAQChangeType
+  changedBy: string | null
+  sourceDocument: { id: string; title: string } | null
+  reason: string | null
+  createdAt: Date // When this version was replaced
+  questionDiff: DiffSegment[] // Changes from this version to the one that replaced it
+  answerDiff: DiffSegment[]
+}
+
+/**
+ * Full version history of a FAQ
+ */
+export interface FAQRevisionHistory {
+  faqId: string
+  current: {
+    question: string
+    answer: string
+    category: string
+    status: string
+    updatedAt: Date
+  }
+  revisions: FAQRevisionDisplay[]
+}
+
+/**
+ * Audit entry for a deleted Slack message and the records it affected
+ */
+export interface MessageDeletionDisplay {
+  id: string
+  messageId: string
+  slackId: string
+  channel: string
+  policy: string // SOFT_DELETE | TOMBSTONE | HARD_DELETE
+  wasThreadReply: boolean
+  source: string
+  deletedAt: Date
+  affectedDocuments: Array<{ id: string; title: string; emptied: boolean }>
+  affectedFAQs: Array<{ id: string; question: string; missingPrimarySource: boolean }>
 }
 
 // ===== AI ANALYSIS TYPES =====
@@ -142,6 +226,10 @@ export interface ProcessedDocument {
   createdAt: Date
   updatedAt: Date
   conversationAnalysis?: any // JsonValue type
+  sourcesStale?: boolean
+  sourcesStaleAt?: Date | null
+  mergedIntoId?: string | null // Set while archived by a merge
+  mergedAt?: Date | null
   
   // Junction table relationships
   documentMessages?: DocumentMessage[]
@@ -164,6 +252,9 @@ export interface FAQ {
   approvedAt: Date | null
   createdAt: Date
   updatedAt: Date
+  sourcesStale?: boolean
+  sourcesStaleAt?: Date | null
+  missingPrimarySource?: boolean
   
   // Junction table relationships
   documentFAQs?: DocumentFAQ[]
@@ -212,6 +303,8 @@ export interface PIIDetection {
   piiType: string // Using string instead of enum for Prisma compatibility
   originalText: string
   replacementText: string
+  startOffset?: number | null
+  endOffset?: number | null
   confidence: number
   status: string // Using string instead of enum for Prisma compatibility
   reviewedBy: string | null
@@ -222,6 +315,42 @@ export interface PIIDetection {
   message?: BaseMessage
 }
 
+/**
+ * Pattern-based PII detection rule
+ */
+export interface PIIRule {
+  id: string
+  key: string
+  name: string
+  description: string | null
+  piiType: string // Using string instead of enum for Prisma compatibility
+  pattern: string
+  flags: string
+  replacementText: string
+  validator: string // Using string instead of enum for Prisma compatibility
+  confidence: number
+  defaultStatus: string // Using string instead of enum for Prisma compatibility
+  priority: number
+  enabled: boolean
+  builtIn: boolean
+  team: string | null
+  channels: string[] // Slack channel IDs the rule is scoped to; empty applies everywhere
+  createdBy: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Entry in an editable PII allow-list
+ */
+export interface PIIListEntry {
+  id: string
+  listType: string // Using string instead of enum for Prisma compatibility
+  value: string
+  createdBy: string | null
+  createdAt: Date
+}
+
 // ===== JUNCTION TABLE TYPES =====
 
 /**
@@ -286,12 +415,43 @@ export interface MessageSelection {
   selectionName: string
   messageIds: string[]
   purpose: string // Using string instead of enum for Prisma compatibility
+  isShared: boolean
+  documentId: string | null
   createdAt: Date
+  updatedAt: Date
   
   // Related messages
   messages?: BaseMessage[]
 }
 
+/**
+ * Message selection with its owner, for the selection tray
+ */
+export interface MessageSelectionDisplay {
+  id: string
+  selectionName: string
+  purpose: SelectionPurpose
+  messageIds: string[] // In selection order
+  isShared: boolean
+  isOwner: boolean
+  ownerName: string
+  documentId: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Create or update a message selection
+ */
+export interface MessageSelectionInput {
+  selectionName?: string
+  purpose?: SelectionPurpose
+  isShared?: boolean
+  messageIds?: string[] // Replaces the selected messages
+  addMessageIds?: string[]
+  removeMessageIds?: string[]
+}
+
 /**
  * User curation activity tracking
  */
@@ -299,18 +459,48 @@ export interface CurationActivity {
   id: string
   userId: string
   activityType: string // Using string instead of enum for Prisma compatibility
+  targetType: string
   targetId: string
   details: Record<string, any>
   timestamp: Date
 }
 
+/**
+ * A curation action to record
+ * details must not contain message text or detected PII values
+ */
+export interface CurationActivityInput {
+  userId: string
+  activityType: ActivityType
+  targetType: ActivityTargetType
+  targetId: string
+  details?: Record<string, any>
+}
+
+/**
+ * Curation activity with a readable label for its target
+ */
+export interface CurationActivityDisplay extends CurationActivity {
+  targetLabel: string | null
+}
+
+export interface CurationActivityFilters {
+  userId?: string
+  targetId?: string
+  targetType?: ActivityTargetType
+  activityType?: ActivityType
+  before?: string // Cursor: activity ID to continue after
+  limit?: number
+}
+
 // ===== ENUMS (For application logic, not database) =====
 
 export enum DocumentStatus {
   DRAFT = 'DRAFT',
   PROCESSING = 'PROCESSING',
   COMPLETE = 'COMPLETE',
-  ERROR = 'ERROR'
+  ERROR = 'ERROR',
+  ARCHIVED = 'ARCHIVED'
 }
 
 export enum FAQStatus {
@@ -343,7 +533,27 @@ export enum PIIType {
   PHONE = 'PHONE',
   NAME = 'NAME',
   URL = 'URL',
-  CUSTOM = 'CUSTOM'
+  CUSTOM = 'CUSTOM',
+  SSN = 'SSN',
+  PERSONAL_ID = 'PERSONAL_ID',
+  CREDIT_CARD = 'CREDIT_CARD',
+  SECRET = 'SECRET'
+}
+
+export enum PIIRuleValidator {
+  NONE = 'NONE',
+  LUHN = 'LUHN',
+  SSN = 'SSN',
+  IBAN = 'IBAN',
+  BUSINESS_EMAIL = 'BUSINESS_EMAIL',
+  PERSONAL_PHONE = 'PERSONAL_PHONE',
+  SENSITIVE_URL = 'SENSITIVE_URL'
+}
+
+export enum PIIListType {
+  BUSINESS_DOMAIN = 'BUSINESS_DOMAIN',
+  BUSINESS_EMAIL_PREFIX = 'BUSINESS_EMAIL_PREFIX',
+  NAME_WHITELIST = 'NAME_WHITELIST'
 }
 
 export enum PIIStatus {
@@ -379,6 +589,33 @@ export enum ContributionType {
   SUPPORTING_CONTEXT = 'SUPPORTING_CONTEXT'
 }
 
+export enum FAQChangeType {
+  AI_ENHANCEMENT = 'AI_ENHANCEMENT',
+  MANUAL_EDIT = 'MANUAL_EDIT',
+  MERGE = 'MERGE',
+  RESTORE = 'RESTORE'
+}
+
+export enum NotificationChannel {
+  SLACK = 'SLACK',
+  WEBHOOK = 'WEBHOOK',
+  EMAIL = 'EMAIL'
+}
+
+export enum NotificationEvent {
+  JOB_STARTED = 'JOB_STARTED',
+  JOB_COMPLETED = 'JOB_COMPLETED',
+  JOB_FAILED = 'JOB_FAILED',
+  JOB_TIMEOUT = 'JOB_TIMEOUT'
+}
+
+export enum NotificationStatus {
+  PENDING = 'PENDING',
+  SENT = 'SENT',
+  FAILED = 'FAILED',
+  SKIPPED = 'SKIPPED'
+}
+
 export enum SelectionPurpose {
   DOCUMENT_CREATION = 'DOCUMENT_CREATION',
   DOCUMENT_ENHANCEMENT = 'DOCUMENT_ENHANCEMENT',
@@ -387,8 +624,22 @@ export enum SelectionPurpose {
 
 export enum ActivityType {
   MESSAGE_ADDED = 'MESSAGE_ADDED',
+  MESSAGE_REMOVED = 'MESSAGE_REMOVED',
   DOCUMENT_MERGED = 'DOCUMENT_MERGED',
-  MESSAGES_SELECTED = 'MESSAGES_SELECTED'
+  DOCUMENT_UNMERGED = 'DOCUMENT_UNMERGED',
+  MESSAGES_SELECTED = 'MESSAGES_SELECTED',
+  FAQ_APPROVED = 'FAQ_APPROVED',
+  FAQ_REJECTED = 'FAQ_REJECTED',
+  FAQ_EDITED = 'FAQ_EDITED',
+  FAQ_MERGED = 'FAQ_MERGED',
+  PII_REVIEWED = 'PII_REVIEWED'
+}
+
+export enum ActivityTargetType {
+  DOCUMENT = 'DOCUMENT',
+  FAQ = 'FAQ',
+  MESSAGE = 'MESSAGE',
+  SELECTION = 'SELECTION'
 }
 
 // ===== TYPE HELPERS FOR PRISMA COMPATIBILITY =====
@@ -451,6 +702,7 @@ export interface FAQDisplay extends Omit<FAQ, 'status'> {
     id: string
     title: string
   }
+  slackFeedback?: FAQFeedbackSummary
   timeAgo: string
 }
 
@@ -481,8 +733,33 @@ export interface MessageImpact {
 // ===== API PROCESSING TYPES =====
 
 /**
- * Gemini API configuration and response types
+ * LLM provider types
  */
+export type LLMProviderName = 'gemini' | 'openai' | 'local'
+
+/**
+ * Which providers generate text and embeddings, and the models each one uses
+ * API keys stay in the environment (GEMINI_API_KEY, OPENAI_API_KEY)
+ */
+export interface LLMSettings {
+  provider: LLMProviderName
+  embeddingProvider: LLMProviderName
+  gemini: {
+    model: string
+    embeddingModel: string
+  }
+  openai: {
+    baseUrl: string
+    model: string
+    embeddingModel: string
+  }
+  local: {
+    baseUrl: string
+    model: string
+    embeddingModel: string
+  }
+}
+
 export interface GeminiConfig {
   apiKey: string
   model: string
@@ -490,7 +767,7 @@ export interface GeminiConfig {
   temperature?: number
 }
 
-export interface GeminiResponse<T = any> {
+export interface LLMResponse<T = any> {
   success: boolean
   data?: T
   error?: string
@@ -502,8 +779,87 @@ export interface GeminiResponse<T = any> {
 }
 
 /**
- * Pinecone vector database types
+ * Vector store types
+ */
+export type VectorStoreName = 'pinecone' | 'pgvector'
+
+/**
+ * FAQ similarity match returned by a vector store
+ */
+export interface VectorMatch {
+  id: string
+  score: number
+  metadata: FAQEmbedding['metadata']
+}
+
+/**
+ * Vector index statistics
+ */
+export interface VectorIndexStats {
+  totalVectors: number
+  dimension: number
+  indexFullness: number
+}
+
+/**
+ * Result of copying vectors from one store to another
+ */
+export interface VectorMigrationResult {
+  from: VectorStoreName
+  to: VectorStoreName
+  copied: number // FAQ vectors
+  messagesCopied: number // Message and thread vectors
+  pages: number
+  durationMs: number
+}
+
+/**
+ * Embedding of a single message, or of a whole thread (root message plus replies)
+ * Always computed from PII-redacted text
+ */
+export interface MessageEmbedding {
+  id: string // Message ID, or `thread_<root message ID>` for threads
+  values: number[]
+  metadata: {
+    messageId: string // The message itself, or the thread root
+    kind: 'message' | 'thread'
+    channel: string
+    timestamp: number // Unix seconds of the message (thread root for threads)
+  }
+}
+
+/**
+ * Message similarity match returned by a vector store
+ */
+export interface MessageVectorMatch {
+  id: string
+  score: number
+  metadata: MessageEmbedding['metadata']
+}
+
+/**
+ * Message search modes: full-text only, vector only, or both combined
+ */
+export type MessageSearchMode = 'keyword' | 'semantic' | 'hybrid'
+
+/**
+ * Part of a search result snippet; matched parts are highlighted in the UI
+ */
+export interface SearchSnippetSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Why and how well a message matched a search
  */
+export interface MessageSearchHit {
+  score: number // Fused rank score, higher is better
+  matchedBy: Array<'keyword' | 'semantic'>
+  matchedMessageId: string // The message (possibly a thread reply) the snippet was taken from
+  snippet: SearchSnippetSegment[]
+}
+
 export interface PineconeConfig {
   apiKey: string
   environment: string
@@ -522,11 +878,108 @@ export interface FAQEmbedding {
 
 export interface DuplicateCheckResult {
   isDuplicate: boolean
-  matches: Array<{
-    id: string
-    score: number
-    metadata: any
-  }>
+  matches: VectorMatch[]
+}
+
+/**
+ * Conversation segmentation for bulk document creation
+ */
+export interface SegmentationOptions {
+  maxMessages?: number // Top-level chatter is split when a segment reaches this size; threads are never split
+  timeGapMinutes?: number // Silence that always starts a new segment
+  speakerGapMinutes?: number // Silence after which a speaker new to the segment starts a new one
+  topicShift?: boolean // Also split when a message's embedding drifts from the segment's
+  topicShiftThreshold?: number // Cosine similarity below which a message counts as a topic shift
+}
+
+export type SegmentBoundaryReason =
+  | 'channel_start'
+  | 'thread'
+  | 'time_gap'
+  | 'speaker_change'
+  | 'topic_shift'
+  | 'size_limit'
+
+export interface ConversationSegment {
+  channel: string
+  kind: 'thread' | 'conversation'
+  boundaryReason: SegmentBoundaryReason // Why this segment starts where it does
+  messageIds: string[] // In timestamp order
+  participants: string[]
+  startTime: Date
+  endTime: Date
+  preview: string // PII-redacted start of the first message
+}
+
+/**
+ * Backlog processing: every unprocessed message turned into documents by a resumable run
+ */
+export interface BacklogRunOptions {
+  channels?: string[] // Empty or missing means all channels
+  segmentation?: SegmentationOptions
+  concurrency?: number // Documents created at the same time
+}
+
+export interface BacklogEstimate {
+  totalMessages: number
+  documents: number
+  threads: number
+  conversations: number
+  llmCalls: number // Document analysis and metadata, plus topic shift embeddings when enabled
+  channels: number
+}
+
+export interface BacklogRunProgress {
+  id: string
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED'
+  progress: number // 0-100
+  channels: string[]
+  options: BacklogRunOptions
+  totalMessages: number
+  processedMessages: number
+  documentsCreated: number
+  failedSegments: number
+  resumeCount: number // Times resumed after an interruption
+  errorMessage: string | null
+  userId: string | null
+  createdAt: Date
+  startedAt: Date | null
+  completedAt: Date | null
+}
+
+/**
+ * Everything a document merge changed, so it can be put back
+ */
+export interface DocumentMergeSnapshot {
+  analysisReplaced: boolean // False when the re-analysis failed and roles were left as they were
+  targetAnalysis: any | null // Conversation analysis the merge replaced
+  targetRoles: Array<{ rowId: string, messageRole: string, processingConfidence: number }>
+  movedMessageRows: Array<{ rowId: string, fromDocumentId: string }>
+  movedFaqRows: Array<{ rowId: string, fromDocumentId: string }>
+  sourceStatuses: Record<string, string>
+}
+
+export interface DocumentMergeResult {
+  mergeId: string
+  targetDocumentId: string
+  sourceDocumentIds: string[]
+  messagesMoved: number
+  duplicateMessages: number // Already in the surviving document; left on the archived source
+  faqsMoved: number
+  undoExpiresAt: Date
+}
+
+export interface DocumentMergeDisplay {
+  id: string
+  targetDocumentId: string
+  sourceDocumentIds: string[]
+  sourceTitles: Record<string, string>
+  mergedBy: string
+  createdAt: Date
+  undoExpiresAt: Date
+  undoneAt: Date | null
+  undoneBy: string | null
+  canUndo: boolean
 }
 
 /**
@@ -628,6 +1081,7 @@ export interface MessageFilters {
   userId?: string
   username?: string
   search?: string
+  searchMode?: MessageSearchMode
   startDate?: string
   endDate?: string
   dateFrom?: string
@@ -679,6 +1133,70 @@ export interface FAQFilters {
 
 // ===== SLACK WEBHOOK TYPES =====
 
+/**
+ * File object attached to a Slack message (file_share events, conversations.history)
+ */
+export interface SlackFile {
+  id: string
+  name?: string
+  title?: string
+  mimetype?: string
+  filetype?: string
+  pretty_type?: string
+  size?: number
+  mode?: string
+  permalink?: string
+  url_private?: string
+  url_private_download?: string
+  /** First lines of a snippet or text file */
+  preview?: string
+  /** "check_file_info" when the event only carries the file ID */
+  file_access?: string
+}
+
+/**
+ * Block Kit block or rich text element - only the fields we read are typed
+ */
+export interface SlackBlock {
+  type: string
+  text?: string | { type: string; text: string }
+  elements?: SlackBlock[]
+  fields?: Array<{ type: string; text: string }>
+  url?: string
+  name?: string
+  user_id?: string
+  channel_id?: string
+  usergroup_id?: string
+  range?: string
+  fallback?: string
+  [key: string]: any
+}
+
+/**
+ * Legacy message attachment (integrations, shared messages, link unfurls)
+ */
+export interface SlackLegacyAttachment {
+  fallback?: string
+  pretext?: string
+  title?: string
+  text?: string
+  footer?: string
+  fields?: Array<{ title?: string; value?: string }>
+  /** Set on link unfurls */
+  from_url?: string
+  is_share?: boolean
+  blocks?: SlackBlock[]
+}
+
+/**
+ * Rich content carried alongside a message's plain text
+ */
+export interface SlackMessageContent {
+  files?: SlackFile[]
+  blocks?: SlackBlock[]
+  attachments?: SlackLegacyAttachment[]
+}
+
 /**
  * Slack webhook event types
  */
@@ -686,7 +1204,7 @@ export interface SlackWebhookPayload {
   token: string
   team_id: string
   api_app_id: string
-  event?: {
+  event?: SlackMessageContent & {
     type: string
     user?: string
     text?: string
@@ -696,11 +1214,16 @@ export interface SlackWebhookPayload {
     subtype?: string
     deleted_ts?: string
     thread_ts?: string
-    message?: {
+    bot_id?: string
+    message?: SlackMessageContent & {
       type: string
       user: string
       text: string
       ts: string
+      edited?: {
+        user: string
+        ts: string
+      }
     }
     previous_message?: {
       type: string
@@ -715,6 +1238,22 @@ export interface SlackWebhookPayload {
   event_time?: number
 }
 
+/**
+ * Slack user object as returned by users.info / users.list and user_change events
+ */
+export interface SlackUserInfo {
+  id: string
+  name?: string
+  real_name?: string
+  deleted?: boolean
+  is_bot?: boolean
+  profile?: {
+    real_name?: string
+    display_name?: string
+    image_72?: string
+  }
+}
+
 // ===== SLACK CHANNEL PULL TYPES =====
 
 /**
@@ -733,6 +1272,7 @@ export interface ChannelPullConfig {
 
 /**
  * Progress tracking for channel pull operations
+ * Persisted in channel_pulls and checkpointed after every history page
  */
 export interface ChannelPullProgress {
   id: string
@@ -743,6 +1283,12 @@ export interface ChannelPullProgress {
   totalMessages: number
   processedMessages: number
   threadsProcessed: number
+  startDate: Date | null
+  endDate: Date | null
+  includeThreads: boolean
+  oldestTs: string | null // Oldest message processed so far
+  resumeCount: number // Times resumed after an interruption
+  createdAt: Date
   startedAt: Date | null
   completedAt: Date | null
   errorMessage: string | null
@@ -921,6 +1467,34 @@ export class ChannelPullError extends Error {
   }
 }
 
+/**
+ * Error types specific to backlog processing
+ */
+export class BacklogRunError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly runId?: string
+  ) {
+    super(message)
+    this.name = 'BacklogRunError'
+  }
+}
+
+/**
+ * Error types specific to document merges
+ */
+export class DocumentMergeError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'ALREADY_MERGED' | 'UNDO_EXPIRED' | 'UNDO_BLOCKED',
+    public readonly mergeId?: string
+  ) {
+    super(message)
+    this.name = 'DocumentMergeError'
+  }
+}
+
 export class SlackApiError extends Error {
   constructor(
     message: string,
@@ -971,6 +1545,139 @@ export interface ChannelPullMetrics {
   errorsByType: Record<string, number>
 }
 
+/**
+ * Catch-up sync state of a tracked channel
+ */
+export interface ChannelSyncStatus {
+  channelId: string
+  channelName: string
+  syncEnabled: boolean
+  lastIngestedTs: string | null // Newest message ingested by events or catch-up
+  lastIngestedAt: Date | null
+  syncedThroughTs: string | null // Catch-up high-water mark
+  lastSyncedAt: Date | null
+  lagMs: number | null // Time since the newest ingested message
+  lastSyncRecovered: number
+  lastSyncError: string | null
+  lastSyncErrorAt: Date | null
+}
+
+/**
+ * Result of one catch-up run
+ */
+export interface ChannelSyncSummary {
+  channels: number
+  synced: number
+  failed: number
+  recovered: number // Missed messages and replies ingested
+}
+
+// ===== SLACK FAQ ANSWER TYPES =====
+
+/**
+ * Per-channel settings for answering questions in-thread from approved FAQs
+ */
+export interface FAQAnswerChannelSettings {
+  channelId: string
+  channelName: string
+  answersEnabled: boolean
+  answerMinScore: number | null // null uses the server default
+  answersPosted: number
+}
+
+/**
+ * How often an FAQ was posted in Slack and how it was rated
+ */
+export interface FAQFeedbackSummary {
+  answered: number
+  helpful: number
+  notHelpful: number
+}
+
+/**
+ * Block Kit button click delivered to the interactivity endpoint
+ */
+export interface SlackBlockActionsPayload {
+  type: 'block_actions'
+  user: { id: string; username?: string }
+  channel?: { id: string }
+  message?: { ts: string; thread_ts?: string }
+  response_url?: string
+  actions: Array<{
+    action_id: string
+    block_id?: string
+    value?: string
+  }>
+}
+
+// ===== SLACK COMMAND TYPES =====
+
+/**
+ * Slash command invocation (sent form-encoded)
+ */
+export interface SlackSlashCommand {
+  command: string
+  text: string
+  user_id: string
+  user_name?: string
+  team_id: string
+  team_domain: string
+  channel_id: string
+  response_url: string
+  trigger_id?: string
+}
+
+/**
+ * Message shortcut invocation delivered to the interactivity endpoint
+ */
+export interface SlackMessageShortcutPayload {
+  type: 'message_action'
+  callback_id: string
+  user: { id: string; username?: string }
+  team: { id: string; domain: string }
+  channel: { id: string; name?: string }
+  message: { ts: string; thread_ts?: string }
+  response_url: string
+  trigger_id?: string
+}
+
+/**
+ * Ephemeral or in-channel reply to a command, returned directly or posted to its response_url
+ */
+export interface SlackCommandResponse {
+  response_type: 'ephemeral' | 'in_channel'
+  text: string
+  blocks?: any[]
+  replace_original?: boolean
+}
+
+// ===== AUTHENTICATION TYPES =====
+
+/**
+ * Dashboard user roles
+ * Viewers can read everything except PII; curators manage documents and FAQs,
+ * PII reviewers manage detections and rules, and admins can do everything
+ */
+export enum UserRole {
+  VIEWER = 'VIEWER',
+  CURATOR = 'CURATOR',
+  PII_REVIEWER = 'PII_REVIEWER',
+  ADMIN = 'ADMIN'
+}
+
+/**
+ * Signed-in dashboard user
+ */
+export interface AuthUser {
+  id: string
+  slackUserId: string
+  slackTeamId: string
+  email: string | null
+  name: string
+  avatarUrl: string | null
+  role: string // Using string instead of enum for Prisma compatibility
+}
+
 // ===== DATABASE OPERATION TYPES =====
 
 /**
@@ -1002,6 +1709,8 @@ export interface MessageFeedProps {
   onLoadMore?: () => void
   hasMore?: boolean
   onPIIStatusUpdate?: () => void
+  selectedIds?: Set<string>
+  onToggleSelect?: (messageId: string) => void
 }
 
 export interface FilterBarProps {
@@ -1055,20 +1764,27 @@ export class ProcessingError extends Error {
   }
 }
 
-export class GeminiError extends Error {
-  constructor(message: string, public readonly apiError?: any) {
+export class LLMProviderError extends Error {
+  constructor(message: string, public readonly provider: LLMProviderName, public readonly apiError?: any) {
     super(message)
-    this.name = 'GeminiError'
+    this.name = 'LLMProviderError'
   }
 }
 
-export class PineconeError extends Error {
-  constructor(message: string, public readonly apiError?: any) {
+export class VectorStoreError extends Error {
+  constructor(message: string, public readonly store: VectorStoreName, public readonly apiError?: any) {
     super(message)
-    this.name = 'PineconeError'
+    this.name = 'VectorStoreError'
   }
 } 
 
+export class AuthError extends Error {
+  constructor(message: string, public readonly statusCode: 401 | 403 = 401) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
 /**
  * Dashboard System Types
  * Shared interfaces for analytics and automation dashboards
@@ -1083,7 +1799,7 @@ export interface SystemHealth {
     documentProcessor: { status: 'healthy' | 'error'; error?: string; stats?: any }
     faqGenerator: { status: 'healthy' | 'error'; error?: string; stats?: any }
     piiDetector: { status: 'healthy' | 'error'; error?: string; stats?: any }
-    pinecone: { status: 'healthy' | 'error'; error?: string; stats?: any }
+    vectorStore: { status: 'healthy' | 'error'; error?: string; stats?: any }
   }
 }
 
@@ -1155,23 +1871,121 @@ export interface AutomationRule {
   successRate: number
 }
 
+/**
+ * Job status notification settings (part of the processing settings)
+ */
+export interface NotificationSettings {
+  enableEmailAlerts: boolean
+  enableSlackAlerts: boolean
+  enableWebhookAlerts: boolean
+  alertOnJobStart: boolean
+  alertOnJobComplete: boolean
+  alertOnJobFailure: boolean
+  alertOnJobTimeout: boolean
+  alertThresholdMinutes: number // jobs processing longer than this raise a timeout alert
+  emailRecipients: string[]
+  slackChannel: string
+  webhookUrl: string
+}
+
+/**
+ * System-wide processing settings stored in the processing_settings table
+ */
 export interface ProcessingSettings {
+  // Job Management Settings
   maxConcurrentJobs: number
   defaultJobPriority: number
-  autoRetryFailedJobs: boolean
-  maxRetryAttempts: number
   jobTimeoutMinutes: number
+  maxRetryAttempts: number
+  autoRetryFailedJobs: boolean
+  retryBackoffMultiplier: number
+
+  // Processing Settings
   enableScheduledProcessing: boolean
+  scheduledProcessingInterval: number // minutes
+  batchProcessingSize: number
+  enableParallelProcessing: boolean
+
+  // Cleanup Settings
   enableAutoCleanup: boolean
   cleanupRetentionDays: number
-  notificationSettings: {
-    enableEmailAlerts: boolean
-    enableSlackAlerts: boolean
-    alertOnFailure: boolean
-    alertOnSuccess: boolean
+  cleanupSchedule: string // cron expression
+  deleteFailedJobsAfterDays: number
+
+  notificationSettings: NotificationSettings
+
+  // Performance Settings
+  resourceLimits: {
+    maxMemoryMB: number
+    maxCpuPercent: number
+    maxDiskSpaceMB: number
+  }
+
+  // Feature Flags
+  featureFlags: {
+    enableAdvancedAnalytics: boolean
+    enableRealTimeUpdates: boolean
+    enableJobProfiling: boolean
+    enableDebugMode: boolean
+    requireReapprovalAfterEnhancement: boolean // AI enhancements send approved FAQs back to PENDING
+  }
+
+  // Integration Settings
+  integrationSettings: {
+    llmSettings: LLMSettings
+    vectorStoreSettings: {
+      provider: VectorStoreName
+    }
+    geminiSettings: {
+      enabled: boolean
+      model: string
+      temperature: number
+      maxTokens: number
+      rateLimitPerMinute: number
+    }
+    pineconeSettings: {
+      enabled: boolean
+      environment: string
+      indexName: string
+      dimension: number
+    }
+    slackSettings: {
+      enabled: boolean
+      botToken: string
+      signingSecret: string
+      defaultChannel: string
+    }
+  }
+
+  // Metadata
+  metadata: {
+    lastUpdated: string
+    updatedBy: string
+    version: string
+    environment: string
   }
 }
 
+/**
+ * Recorded delivery of a job status notification
+ */
+export interface NotificationDelivery {
+  id: string
+  channel: string // Using string instead of enum for Prisma compatibility
+  event: string // Using string instead of enum for Prisma compatibility
+  jobSource: string
+  jobId: string
+  jobType: string
+  target: string
+  status: string // Using string instead of enum for Prisma compatibility
+  attempts: number
+  responseStatus: number | null
+  error: string | null
+  payload: any
+  createdAt: Date
+  deliveredAt: Date | null
+}
+
 // Automation Dashboard Data Structure
 export interface AutomationData {
   processingJobs: {
@@ -1572,12 +2386,13 @@ export interface SalesforceSyncSummary {
   totalRecords: number
   successfulSyncs: number
   failedSyncs: number
-  skippedRecords: number
+  skippedRecords: number // unchanged since the last sync
+  deletedRecords: number // removed from Salesforce after a local deletion
   syncDuration: number // milliseconds
   recordTypes: {
-    documents: { synced: number; failed: number }
-    faqs: { synced: number; failed: number }
-    messages: { synced: number; failed: number }
+    documents: { synced: number; failed: number; strategy?: SalesforceSyncStrategy }
+    faqs: { synced: number; failed: number; strategy?: SalesforceSyncStrategy }
+    messages: { synced: number; failed: number; strategy?: SalesforceSyncStrategy }
   }
   errors: Array<{
     recordId: string
@@ -1586,6 +2401,46 @@ export interface SalesforceSyncSummary {
   }>
 }
 
+/**
+ * How a sync pushes records: sObject collections (200 per call) or Bulk API 2.0 ingest jobs
+ */
+export type SalesforceSyncStrategy = 'composite' | 'bulk'
+
+/**
+ * What a sync will do with a local record
+ */
+export type SalesforceSyncAction = 'create' | 'update' | 'archive' | 'delete' | 'unchanged'
+
+/**
+ * Planned sync operation for one local record
+ */
+export interface SalesforceSyncPlanItem {
+  recordType: 'document' | 'faq' | 'message'
+  localId: string
+  label: string // title, question or message excerpt
+  action: SalesforceSyncAction
+  reason: string
+  salesforceId: string | null
+  lastSyncedAt: Date | null
+  lastError: string | null
+}
+
+/**
+ * "What will sync" preview shown before pushing
+ */
+export interface SalesforceSyncPreview {
+  syncType: 'full' | 'incremental'
+  totals: Record<SalesforceSyncAction, number>
+  recordTypes: {
+    documents: Record<SalesforceSyncAction, number>
+    faqs: Record<SalesforceSyncAction, number>
+    messages: Record<SalesforceSyncAction, number>
+  }
+  items: SalesforceSyncPlanItem[] // pending changes only, capped
+  truncated: boolean
+  generatedAt: Date
+}
+
 /**
  * Salesforce API Client Configuration
  * Configuration for making Salesforce API calls
@@ -1611,23 +2466,47 @@ export interface SalesforceQueryResult<T = any> {
 }
 
 /**
- * Salesforce Bulk Operation Result
- * Result from bulk API operations
+ * Salesforce Bulk API 2.0 Ingest Job
+ * Job information returned while creating and polling an ingest job
  */
-export interface SalesforceBulkResult {
-  jobId: string
-  state: 'Open' | 'InProgress' | 'Aborted' | 'Completed' | 'Failed'
+export interface SalesforceBulkIngestJob {
+  id: string
+  state: 'Open' | 'UploadComplete' | 'InProgress' | 'JobComplete' | 'Aborted' | 'Failed'
   object: string
-  operation: 'insert' | 'update' | 'upsert' | 'delete'
+  operation: 'insert' | 'update' | 'upsert' | 'delete' | 'hardDelete'
+  externalIdFieldName?: string
   createdDate: string
   systemModstamp: string
-  numberBatchesQueued: number
-  numberBatchesInProgress: number
-  numberBatchesCompleted: number
-  numberBatchesFailed: number
-  numberRecordsProcessed: number
-  numberRecordsFailed: number
-  numberRetries: number
+  numberRecordsProcessed?: number
+  numberRecordsFailed?: number
+  errorMessage?: string
+}
+
+/**
+ * Salesforce sObject Collection Result
+ * Per-record result from composite sObject collection requests, in request order
+ */
+export interface SalesforceCollectionResult {
+  id?: string
+  success: boolean
+  created?: boolean
+  errors: Array<{
+    message: string
+    statusCode: string
+    fields: string[]
+  }>
+}
+
+/**
+ * Salesforce Bulk Row Result
+ * Per-row outcome of a Bulk API 2.0 job
+ */
+export interface SalesforceBulkRowResult {
+  key: string // external ID value for upserts, record ID for deletes
+  success: boolean
+  id?: string
+  created?: boolean
+  error?: string
 }
 
 /**
@@ -1697,7 +2576,6 @@ export interface SalesforceSyncDashboardProps {
  * API Request/Response Types for Salesforce Endpoints
  */
 export interface SalesforceConnectRequest {
-  userId?: string
   redirectTo?: string
 }
 